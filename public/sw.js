@@ -144,57 +144,116 @@ self.addEventListener("sync", (event) => {
 });
 
 async function syncOfflineObservations() {
-  console.log("[SW] Syncing offline observations");
+  console.log("[SW] Syncing offline changes");
   
-  // Get queued observations from IndexedDB
+  // Get the queued mutation log from IndexedDB; conflicts wait for the user
   const db = await openDatabase();
-  const tx = db.transaction("offline-observations", "readonly");
-  const store = tx.objectStore("offline-observations");
-  const observations = await getAllFromStore(store);
+  const tx = db.transaction("offline-mutations", "readonly");
+  const store = tx.objectStore("offline-mutations");
+  const mutations = (await getAllFromStore(store)).filter((m) => !m.conflict);
   
-  if (observations.length === 0) {
+  if (mutations.length === 0) {
     return;
   }
   
-  // Attempt to sync each observation
-  for (const obs of observations) {
-    try {
-      const response = await fetch("/api/observations", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(obs.data),
-      });
-      
-      if (response.ok) {
-        // Remove from offline queue
-        const deleteTx = db.transaction("offline-observations", "readwrite");
-        const deleteStore = deleteTx.objectStore("offline-observations");
-        await deleteFromStore(deleteStore, obs.id);
-        console.log("[SW] Synced observation:", obs.id);
+  try {
+    const response = await fetch("/api/observations/mutations", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ mutations }),
+    });
+    if (!response.ok) return;
+    
+    // Drop what the server applied; conflicts and failures are left for the app
+    const { results } = await response.json();
+    for (const result of results) {
+      if (["applied", "duplicate", "rejected"].includes(result.status)) {
+        const deleteTx = db.transaction("offline-mutations", "readwrite");
+        const deleteStore = deleteTx.objectStore("offline-mutations");
+        await deleteFromStore(deleteStore, result.mutation_id);
+        console.log("[SW] Synced change:", result.mutation_id);
       }
-    } catch (error) {
-      console.log("[SW] Failed to sync observation:", obs.id, error);
     }
+  } catch (error) {
+    console.log("[SW] Failed to sync offline changes:", error);
   }
 }
 
 // IndexedDB helpers
 function openDatabase() {
   return new Promise((resolve, reject) => {
-    const request = indexedDB.open("processopt-offline", 1);
+    // Same version, stores and legacy migration as src/lib/pwa/offline-storage.ts
+    const request = indexedDB.open("processopt-offline", 4);
     
     request.onerror = () => reject(request.error);
     request.onsuccess = () => resolve(request.result);
     
     request.onupgradeneeded = (event) => {
       const db = event.target.result;
-      if (!db.objectStoreNames.contains("offline-observations")) {
-        db.createObjectStore("offline-observations", { keyPath: "id" });
+      if (!db.objectStoreNames.contains("offline-mutations")) {
+        const store = db.createObjectStore("offline-mutations", { keyPath: "id" });
+        store.createIndex("session_id", "session_id");
+        store.createIndex("created_at", "created_at");
       }
+      // Attachments upload from the app, which holds the user's storage token
+      if (!db.objectStoreNames.contains("offline-attachments")) {
+        const store = db.createObjectStore("offline-attachments", { keyPath: "id" });
+        store.createIndex("observation_id", "observation_id");
+        store.createIndex("session_id", "session_id");
+      }
+      if (!db.objectStoreNames.contains("session-snapshots")) {
+        db.createObjectStore("session-snapshots", { keyPath: "session_id" });
+      }
+      migrateLegacyQueues(db, event.target.transaction);
     };
   });
 }
 
+// Move observations and edits queued by earlier versions into the mutation log
+function migrateLegacyQueues(db, tx) {
+  const mutations = tx.objectStore("offline-mutations");
+
+  if (db.objectStoreNames.contains("offline-observations")) {
+    const request = tx.objectStore("offline-observations").getAll();
+    request.onsuccess = () => {
+      for (const record of request.result || []) {
+        if (record.synced) continue;
+        const { session_id, ...fields } = record.data;
+        mutations.put({
+          id: self.crypto.randomUUID(),
+          entity: "observation",
+          entity_id: record.id,
+          session_id,
+          op: "create",
+          data: { ...fields, time_lost_minutes: fields.time_lost_minutes ?? null },
+          base_updated_at: null,
+          created_at: record.created_at,
+        });
+      }
+      db.deleteObjectStore("offline-observations");
+    };
+  }
+
+  if (db.objectStoreNames.contains("offline-observation-edits")) {
+    const request = tx.objectStore("offline-observation-edits").getAll();
+    request.onsuccess = () => {
+      for (const record of request.result || []) {
+        mutations.put({
+          id: self.crypto.randomUUID(),
+          entity: "observation",
+          entity_id: record.id,
+          session_id: record.session_id,
+          op: "update",
+          data: { step_id: "", ...record.changes },
+          base_updated_at: null,
+          created_at: record.edited_at,
+        });
+      }
+      db.deleteObjectStore("offline-observation-edits");
+    };
+  }
+}
+
 function getAllFromStore(store) {
   return new Promise((resolve, reject) => {
     const request = store.getAll();
@@ -0,0 +1,326 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useParams } from "next/navigation";
+import { formatDistanceToNow } from "date-fns";
+import { AlertCircle, CheckCircle, EyeOff, Loader2, Lock, RefreshCw, Timer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { VersatexLogo } from "@/components/branding/VersatexLogo";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { WasteTaggingPanel } from "@/components/waste/WasteTaggingPanel";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import {
+  GUEST_NAME_MAX_LENGTH,
+  type GuestObservationRequest,
+  type GuestSessionView,
+} from "@/lib/services/guestAccess";
+import { getCurrentPhase, getLaneTaggingState } from "@/lib/services/sessionAgenda";
+import type { ProcessStep, SessionGuest } from "@/types";
+
+// The guest identity is kept on the device, one per link
+const guestStorageKey = (token: string) => `guest-session-${token}`;
+
+// Picks up agenda changes without a realtime connection
+const REFRESH_INTERVAL = 60000;
+
+export default function GuestJoinPage() {
+  const params = useParams();
+  const token = params.token as string;
+  const { toast } = useToast();
+
+  const [view, setView] = useState<GuestSessionView | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [guest, setGuest] = useState<Pick<SessionGuest, "id" | "display_name"> | null>(null);
+  const [displayName, setDisplayName] = useState("");
+  const [isJoining, setIsJoining] = useState(false);
+  const [selectedStepId, setSelectedStepId] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submittedCount, setSubmittedCount] = useState(0);
+
+  const loadView = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/guest/${token}`);
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.message || data.error || "This guest link can't be used.");
+        return;
+      }
+      setView(data as GuestSessionView);
+      setError(null);
+    } catch (loadError) {
+      console.error("Failed to load guest session:", loadError);
+      setError("Couldn't reach the session. Check your connection and try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    const stored = localStorage.getItem(guestStorageKey(token));
+    if (stored) {
+      try {
+        setGuest(JSON.parse(stored));
+      } catch {
+        localStorage.removeItem(guestStorageKey(token));
+      }
+    }
+    loadView();
+    const interval = setInterval(loadView, REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [token, loadView]);
+
+  const stepsByLane = useMemo(() => {
+    if (!view) return [];
+    const ordered = [...view.steps].sort((a, b) => a.order_index - b.order_index);
+    const laneNames = [...view.lanes, ...ordered.map((s) => s.lane).filter((l) => !view.lanes.includes(l))];
+    return Array.from(new Set(laneNames))
+      .map((lane) => ({ lane, steps: ordered.filter((s) => s.lane === lane) }))
+      .filter((group) => group.steps.length > 0);
+  }, [view]);
+
+  const currentPhase = view ? getCurrentPhase(view.phases) : null;
+  const selectedStep = view?.steps.find((s) => s.id === selectedStepId) || null;
+
+  const handleJoin = async () => {
+    try {
+      setIsJoining(true);
+      const response = await fetch(`/api/guest/${token}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ display_name: displayName }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast({ variant: "destructive", title: "Couldn't join", description: data.message || data.error });
+        return;
+      }
+      const joined = { id: data.guest.id, display_name: data.guest.display_name };
+      localStorage.setItem(guestStorageKey(token), JSON.stringify(joined));
+      setGuest(joined);
+    } catch (joinError) {
+      console.error("Failed to join as guest:", joinError);
+      toast({ variant: "destructive", title: "Error", description: "Failed to join the session." });
+    } finally {
+      setIsJoining(false);
+    }
+  };
+
+  const handleSelectStep = (step: GuestSessionView["steps"][number]) => {
+    if (!view) return;
+    const tagging = getLaneTaggingState(view.phases, step.lane);
+    if (!tagging.allowed) {
+      toast({ title: "Tagging is locked", description: tagging.reason });
+      return;
+    }
+    setSelectedStepId(step.id);
+  };
+
+  const handleSubmit = async (data: {
+    notes?: string;
+    isDigital: boolean;
+    isPhysical: boolean;
+    scores: Record<string, number>;
+    timeLostMinutes: number | null;
+    wasteTypeIds: string[];
+  }) => {
+    if (!guest || !selectedStepId) return;
+    const body: GuestObservationRequest = {
+      guest_id: guest.id,
+      step_id: selectedStepId,
+      notes: data.notes,
+      is_digital: data.isDigital,
+      is_physical: data.isPhysical,
+      scores: data.scores,
+      time_lost_minutes: data.timeLostMinutes,
+      waste_type_ids: data.wasteTypeIds,
+    };
+
+    try {
+      setIsSubmitting(true);
+      const response = await fetch(`/api/guest/${token}/observations`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        toast({
+          variant: "destructive",
+          title: "Observation not saved",
+          description: result.message || result.error,
+        });
+        if (response.status === 410) loadView();
+        // The guest record is gone; join again
+        if (response.status === 403) {
+          localStorage.removeItem(guestStorageKey(token));
+          setGuest(null);
+        }
+        return;
+      }
+      setSubmittedCount((count) => count + 1);
+      setSelectedStepId(null);
+      toast({ title: "Observation added", description: "Thank you! The facilitator can see it now." });
+    } catch (submitError) {
+      console.error("Failed to add guest observation:", submitError);
+      toast({ variant: "destructive", title: "Error", description: "Failed to save the observation." });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-brand-platinum via-white to-brand-platinum p-4">
+        <Card className="w-full max-w-md shadow-xl border-0 bg-white/80 backdrop-blur-sm">
+          <CardContent className="pt-8 pb-8 flex flex-col items-center">
+            <Loader2 className="h-8 w-8 animate-spin text-brand-gold mb-4" />
+            <p className="text-brand-charcoal">Opening the session...</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!view || error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-brand-platinum via-white to-brand-platinum p-4">
+        <Card className="w-full max-w-md shadow-xl border-0 bg-white/80 backdrop-blur-sm">
+          <CardHeader className="space-y-4 text-center">
+            <div className="flex justify-center">
+              <div className="w-16 h-16 rounded-full bg-destructive/10 flex items-center justify-center">
+                <AlertCircle className="h-8 w-8 text-destructive" />
+              </div>
+            </div>
+            <CardTitle className="text-2xl font-bold text-brand-navy">Can&apos;t join this session</CardTitle>
+            <CardDescription>{error || "This guest link can't be used."}</CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!guest) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-brand-platinum via-white to-brand-platinum p-4">
+        <Card className="w-full max-w-md shadow-xl border-0 bg-white/80 backdrop-blur-sm">
+          <CardHeader className="space-y-4 text-center">
+            <div className="flex justify-center">
+              <VersatexLogo variant="auth" priority />
+            </div>
+            <CardTitle className="text-2xl font-bold text-brand-navy">{view.session.name}</CardTitle>
+            <CardDescription>
+              You&apos;ve been invited to point out waste in this process. No account needed.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="guest-name">Your name (optional)</Label>
+              <Input
+                id="guest-name"
+                value={displayName}
+                maxLength={GUEST_NAME_MAX_LENGTH}
+                placeholder="Leave blank to stay anonymous"
+                onChange={(e) => setDisplayName(e.target.value)}
+              />
+              {view.session.anonymous_observations && (
+                <p className="text-xs text-muted-foreground flex items-center gap-1">
+                  <EyeOff className="h-3 w-3" />
+                  This session is anonymous. Only admins can see who recorded each observation.
+                </p>
+              )}
+            </div>
+            <Button className="w-full" onClick={handleJoin} disabled={isJoining}>
+              {isJoining && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Join session
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-brand-platinum via-white to-brand-platinum p-4">
+      <div className="max-w-2xl mx-auto space-y-4">
+        <Card className="shadow-sm border-0">
+          <CardHeader>
+            <CardTitle className="text-brand-navy">{view.session.name}</CardTitle>
+            <CardDescription>
+              Tap a step where you see waste. Link expires{" "}
+              {formatDistanceToNow(new Date(view.expires_at), { addSuffix: true })}.
+            </CardDescription>
+            <div className="flex flex-wrap gap-2 pt-2">
+              {guest.display_name && <Badge variant="outline">Joined as {guest.display_name}</Badge>}
+              {submittedCount > 0 && (
+                <Badge variant="outline" className="border-green-500 text-green-600">
+                  <CheckCircle className="h-3 w-3 mr-1" />
+                  {submittedCount} added
+                </Badge>
+              )}
+              {currentPhase && (
+                <Badge variant="outline" className="border-sky-400 bg-sky-50 text-sky-700">
+                  <Timer className="h-3 w-3 mr-1" />
+                  {currentPhase.name}
+                </Badge>
+              )}
+              <Button variant="ghost" size="sm" className="h-6 px-2" onClick={loadView}>
+                <RefreshCw className="h-3 w-3 mr-1" />
+                Refresh
+              </Button>
+            </div>
+          </CardHeader>
+        </Card>
+
+        {stepsByLane.map(({ lane, steps }) => {
+          const tagging = getLaneTaggingState(view.phases, lane);
+          return (
+            <Card key={lane} className={cn("shadow-sm border-0", !tagging.allowed && "opacity-60")}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base flex items-center gap-2">
+                  {lane}
+                  {!tagging.allowed && <Lock className="h-4 w-4 text-muted-foreground" />}
+                </CardTitle>
+                {!tagging.allowed && <CardDescription>{tagging.reason}</CardDescription>}
+              </CardHeader>
+              <CardContent className="grid gap-2 sm:grid-cols-2">
+                {steps.map((step) => (
+                  <Button
+                    key={step.id}
+                    variant="outline"
+                    className="h-auto justify-start whitespace-normal text-left py-3"
+                    onClick={() => handleSelectStep(step)}
+                    disabled={!tagging.allowed}
+                  >
+                    {step.step_name}
+                  </Button>
+                ))}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      <WasteTaggingPanel
+        step={selectedStep as ProcessStep | null}
+        wasteTypes={view.waste_types}
+        isOpen={!!selectedStep}
+        onClose={() => setSelectedStepId(null)}
+        onSubmit={handleSubmit}
+        isSubmitting={isSubmitting}
+        scoringModel={view.scoring_model}
+        allowAttachments={false}
+      />
+    </div>
+  );
+}
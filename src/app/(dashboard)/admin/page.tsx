@@ -110,6 +110,8 @@ import {
   type OrganizationStats,
 } from "@/lib/services/organizations";
 import { useAuthStore } from "@/lib/stores/authStore";
+import { CostModelCard } from "@/components/admin/CostModelCard";
+import { ScoringModelCard } from "@/components/admin/ScoringModelCard";
 import type { WasteType, TrainingContent, User, UserRole, Organization } from "@/types";
 
 export default function AdminPage() {
@@ -889,6 +891,12 @@ export default function AdminPage() {
                   </CardContent>
                 </Card>
 
+                {/* Cost Model Card */}
+                <CostModelCard organization={organization} onOrganizationChange={setOrganization} />
+
+                {/* Scoring Model Card */}
+                <ScoringModelCard organization={organization} />
+
                 {/* Pending Invitations Card */}
                 {pendingInvitations.length > 0 && (
                   <Card>
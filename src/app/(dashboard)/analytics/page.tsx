@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import Link from "next/link";
 import { Header } from "@/components/layout/Header";
 import { Button } from "@/components/ui/button";
@@ -12,13 +12,7 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
+import { Progress } from "@/components/ui/progress";
 import {
   PieChart,
   Pie,
@@ -40,59 +34,86 @@ import {
   AlertTriangle,
   Loader2,
   GitCompare,
+  DollarSign,
+  ArrowRightLeft,
+  LineChart as LineChartIcon,
+  Briefcase,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { AnalyticsFilterBar } from "@/components/analytics/AnalyticsFilterBar";
+import { ObservationDrillDown } from "@/components/analytics/ObservationDrillDown";
+import { ParetoChart } from "@/components/analytics/ParetoChart";
 import {
+  getAnalyticsSummary,
   getWasteDistribution,
   getWasteByLane,
   getTopHotspots,
   generateInsights,
+  getAnalyticsWasteCost,
+  getHandoffHotspots,
 } from "@/lib/services/analytics";
+import { type AnalyticsFilters, type AnalyticsSummary } from "@/lib/services/analyticsQuery";
+import { formatCurrency, type WasteCostBreakdown } from "@/lib/services/wasteCost";
 import { getSessions } from "@/lib/services/sessions";
+import { getProcesses } from "@/lib/services/workflows";
 import type { WasteDistribution, LaneStats, TopHotspot, Insight } from "@/lib/services/analytics";
 import type { SessionWithDetails } from "@/lib/services/sessions";
+import type { Process } from "@/types";
+import type { HandoffSummary } from "@/lib/services/observationTargets";
 
 export default function AnalyticsPage() {
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(true);
-  const [selectedSession, setSelectedSession] = useState<string>("all");
+  const [filters, setFilters] = useState<AnalyticsFilters>({});
   const [sessions, setSessions] = useState<SessionWithDetails[]>([]);
+  const [processes, setProcesses] = useState<Process[]>([]);
+  const [knownLanes, setKnownLanes] = useState<string[]>([]);
+  const [summary, setSummary] = useState<AnalyticsSummary | null>(null);
+  const [drillDown, setDrillDown] = useState<{ title: string; filters: AnalyticsFilters } | null>(null);
   const [wasteDistribution, setWasteDistribution] = useState<WasteDistribution[]>([]);
   const [laneStats, setLaneStats] = useState<LaneStats[]>([]);
   const [topHotspots, setTopHotspots] = useState<TopHotspot[]>([]);
   const [insights, setInsights] = useState<Insight[]>([]);
+  const [wasteCost, setWasteCost] = useState<WasteCostBreakdown | null>(null);
+  const [handoffHotspots, setHandoffHotspots] = useState<HandoffSummary[]>([]);
 
-  // Fetch sessions for the dropdown
+  // Fetch workflows and sessions for the filters
   useEffect(() => {
-    const loadSessions = async () => {
+    const loadFilterOptions = async () => {
       try {
-        const data = await getSessions();
-        setSessions(data);
+        const [sessionData, processData] = await Promise.all([getSessions(), getProcesses()]);
+        setSessions(sessionData);
+        setProcesses(processData);
       } catch (error) {
-        console.error("Failed to load sessions:", error);
+        console.error("Failed to load filter options:", error);
       }
     };
-    loadSessions();
+    loadFilterOptions();
   }, []);
 
-  // Fetch analytics data when session selection changes
+  // Fetch analytics data when the filters change
   useEffect(() => {
     const loadAnalytics = async () => {
       try {
         setIsLoading(true);
-        const sessionId = selectedSession === "all" ? undefined : selectedSession;
-
-        const [distribution, lanes, hotspots, generatedInsights] = await Promise.all([
-          getWasteDistribution(sessionId),
-          getWasteByLane(sessionId),
-          getTopHotspots(sessionId, 5),
-          generateInsights(sessionId),
+        const [totals, distribution, lanes, hotspots, generatedInsights, cost, handoffs] = await Promise.all([
+          getAnalyticsSummary(filters),
+          getWasteDistribution(filters),
+          getWasteByLane(filters),
+          getTopHotspots(filters, 5),
+          generateInsights(filters),
+          getAnalyticsWasteCost(filters),
+          getHandoffHotspots(filters, 5),
         ]);
 
+        setSummary(totals);
         setWasteDistribution(distribution);
         setLaneStats(lanes);
+        setKnownLanes((prev) => Array.from(new Set([...prev, ...lanes.map((l) => l.lane)])).sort());
         setTopHotspots(hotspots);
         setInsights(generatedInsights);
+        setWasteCost(cost);
+        setHandoffHotspots(handoffs);
       } catch (error) {
         console.error("Failed to load analytics:", error);
         toast({
@@ -106,7 +127,12 @@ export default function AnalyticsPage() {
     };
 
     loadAnalytics();
-  }, [selectedSession, toast]);
+  }, [filters, toast]);
+
+  const sessionOptions = useMemo(
+    () => sessions.map((s) => ({ id: s.id, name: s.name, process_id: s.process_id })),
+    [sessions]
+  );
 
   const getInsightIcon = (type: string) => {
     switch (type) {
@@ -134,7 +160,16 @@ export default function AnalyticsPage() {
     }
   };
 
-  const totalObservations = wasteDistribution.reduce((sum, w) => sum + w.count, 0);
+  const totalObservations = summary?.observationCount ?? 0;
+
+  const openStepDrillDown = (hotspot: TopHotspot) =>
+    setDrillDown({ title: hotspot.step_name, filters: { ...filters, stepIds: [hotspot.step_id] } });
+  const trendsHref =
+    filters.processIds?.length === 1 ? `/analytics/trends?process=${filters.processIds[0]}` : "/analytics/trends";
+  const costRows =
+    wasteCost && wasteCost.themes.some((t) => t.annualCost > 0)
+      ? { title: "By Theme", rows: wasteCost.themes.map((t) => ({ key: t.themeId, label: t.name, cost: t.annualCost })) }
+      : { title: "By Step", rows: (wasteCost?.steps || []).map((s) => ({ key: s.stepId, label: s.stepName, cost: s.annualCost })) };
 
   return (
     <div className="flex flex-col h-full">
@@ -143,19 +178,18 @@ export default function AnalyticsPage() {
         description="Insights and trends from your waste identification sessions"
         actions={
           <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-2 sm:gap-4 w-full sm:w-auto">
-            <Select value={selectedSession} onValueChange={setSelectedSession}>
-              <SelectTrigger className="w-full sm:w-[200px] lg:w-[250px]">
-                <SelectValue placeholder="Select session" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All Sessions</SelectItem>
-                {sessions.map((session) => (
-                  <SelectItem key={session.id} value={session.id}>
-                    {session.name}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
+            <Button asChild variant="outline" className="w-full sm:w-auto">
+              <Link href="/analytics/portfolio">
+                <Briefcase className="mr-2 h-4 w-4" />
+                Portfolio
+              </Link>
+            </Button>
+            <Button asChild variant="outline" className="w-full sm:w-auto">
+              <Link href={trendsHref}>
+                <LineChartIcon className="mr-2 h-4 w-4" />
+                Trends
+              </Link>
+            </Button>
             <Button asChild variant="outline" className="w-full sm:w-auto">
               <Link href="/analytics/compare">
                 <GitCompare className="mr-2 h-4 w-4" />
@@ -168,6 +202,14 @@ export default function AnalyticsPage() {
       />
 
       <div className="flex-1 p-6 space-y-6 overflow-auto">
+        <AnalyticsFilterBar
+          filters={filters}
+          onChange={setFilters}
+          processes={processes}
+          sessions={sessionOptions}
+          lanes={knownLanes}
+        />
+
         {isLoading ? (
           <div className="flex items-center justify-center py-12">
             <Loader2 className="h-8 w-8 animate-spin text-brand-gold" />
@@ -175,7 +217,7 @@ export default function AnalyticsPage() {
         ) : (
           <>
             {/* Summary Stats */}
-            <div className="grid gap-3 sm:gap-4 grid-cols-2 md:grid-cols-4">
+            <div className="grid gap-3 sm:gap-4 grid-cols-2 md:grid-cols-5">
               <Card>
                 <CardHeader className="pb-2">
                   <CardTitle className="text-sm text-muted-foreground">
@@ -220,6 +262,18 @@ export default function AnalyticsPage() {
                   </div>
                 </CardContent>
               </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm text-muted-foreground">
+                    Annual Cost of Waste
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold text-brand-navy">
+                    {wasteCost ? formatCurrency(wasteCost.totalAnnualCost, wasteCost.currency) : "—"}
+                  </div>
+                </CardContent>
+              </Card>
             </div>
 
             <div className="grid gap-6 lg:grid-cols-2">
@@ -264,13 +318,23 @@ export default function AnalyticsPage() {
                       </div>
                       <div className="flex flex-wrap gap-2 mt-4 justify-center">
                         {wasteDistribution.map((item) => (
-                          <Badge
+                          <button
                             key={item.name}
-                            variant="outline"
-                            style={{ borderColor: item.color, color: item.color }}
+                            type="button"
+                            onClick={() =>
+                              setDrillDown({
+                                title: item.name,
+                                filters: { ...filters, wasteTypeIds: [item.waste_type_id] },
+                              })
+                            }
                           >
-                            {item.code}: {item.count}
-                          </Badge>
+                            <Badge
+                              variant="outline"
+                              style={{ borderColor: item.color, color: item.color }}
+                            >
+                              {item.code}: {item.count}
+                            </Badge>
+                          </button>
                         ))}
                       </div>
                     </>
@@ -324,6 +388,74 @@ export default function AnalyticsPage() {
               </Card>
             </div>
 
+            {/* Pareto */}
+            <ParetoChart filters={filters} onDrillDown={setDrillDown} />
+
+            {/* Cost of Waste */}
+            {wasteCost && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <DollarSign className="h-5 w-5 text-brand-gold" />
+                    Cost of Waste
+                  </CardTitle>
+                  <CardDescription>
+                    Annualized from time lost per transaction, lane labor rates and
+                    workflow volume ({Math.round(wasteCost.totalAnnualHours).toLocaleString()} hours a year)
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {wasteCost.totalAnnualCost > 0 ? (
+                    <div className="grid gap-6 lg:grid-cols-2">
+                      {[
+                        {
+                          title: "By Waste Type",
+                          rows: wasteCost.wasteTypes.map((w) => ({ key: w.wasteTypeId, label: w.name, cost: w.annualCost })),
+                        },
+                        costRows,
+                      ].map((group) => (
+                        <div key={group.title} className="space-y-3">
+                          <h4 className="text-sm font-medium">{group.title}</h4>
+                          {group.rows
+                            .filter((row) => row.cost > 0)
+                            .slice(0, 6)
+                            .map((row) => (
+                              <div key={row.key} className="space-y-1">
+                                <div className="flex justify-between text-sm">
+                                  <span className="truncate">{row.label}</span>
+                                  <span className="font-medium">
+                                    {formatCurrency(row.cost, wasteCost.currency)}
+                                  </span>
+                                </div>
+                                <Progress value={(row.cost / wasteCost.totalAnnualCost) * 100} className="h-2" />
+                              </div>
+                            ))}
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="text-center py-6 text-muted-foreground">
+                      <DollarSign className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                      <p>No cost figures yet</p>
+                    </div>
+                  )}
+                  {(wasteCost.observationsWithoutTime > 0 ||
+                    wasteCost.processesWithoutVolume.length > 0 ||
+                    wasteCost.lanesWithoutRate.length > 0) && (
+                    <p className="text-xs text-amber-600">
+                      Figures are understated:
+                      {wasteCost.observationsWithoutTime > 0 &&
+                        ` ${wasteCost.observationsWithoutTime} observation(s) have no time lost;`}
+                      {wasteCost.processesWithoutVolume.length > 0 &&
+                        ` ${wasteCost.processesWithoutVolume.length} workflow(s) have no transaction volume in their context;`}
+                      {wasteCost.lanesWithoutRate.length > 0 &&
+                        ` no labor rate for ${wasteCost.lanesWithoutRate.join(", ")}.`}
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Top Hotspots */}
             <Card>
               <CardHeader>
@@ -332,7 +464,7 @@ export default function AnalyticsPage() {
                   Top Waste Hotspots
                 </CardTitle>
                 <CardDescription>
-                  Process steps with highest priority scores
+                  Process steps with highest priority scores. Click a step to see its observations.
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -341,7 +473,11 @@ export default function AnalyticsPage() {
                     {topHotspots.map((hotspot) => (
                       <div
                         key={hotspot.rank}
-                        className="flex items-center justify-between p-4 rounded-lg border"
+                        role="button"
+                        tabIndex={0}
+                        className="flex items-center justify-between p-4 rounded-lg border cursor-pointer hover:bg-muted/40"
+                        onClick={() => openStepDrillDown(hotspot)}
+                        onKeyDown={(e) => e.key === "Enter" && openStepDrillDown(hotspot)}
                       >
                         <div className="flex items-center gap-4">
                           <div
@@ -385,6 +521,16 @@ export default function AnalyticsPage() {
                             <p className="text-xl font-bold">
                               {hotspot.priority_score}
                             </p>
+                            {hotspot.annual_cost > 0 && (
+                              <p className="text-xs text-muted-foreground">
+                                {formatCurrency(hotspot.annual_cost, hotspot.currency)}/yr
+                              </p>
+                            )}
+                            {hotspot.votes > 0 && (
+                              <p className="text-xs text-muted-foreground">
+                                {hotspot.votes} {hotspot.votes === 1 ? "vote" : "votes"}
+                              </p>
+                            )}
                             <Badge
                               variant="outline"
                               className={
@@ -411,6 +557,49 @@ export default function AnalyticsPage() {
               </CardContent>
             </Card>
 
+            {/* Handoff Hotspots */}
+            {handoffHotspots.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <ArrowRightLeft className="h-5 w-5 text-orange-500" />
+                    Handoff Hotspots
+                  </CardTitle>
+                  <CardDescription>
+                    Waiting and transport waste observed between steps
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-3">
+                    {handoffHotspots.map((summary) => (
+                      <div
+                        key={`${summary.handoff.type}-${summary.handoff.id}`}
+                        className="flex items-center justify-between p-4 rounded-lg border"
+                      >
+                        <div>
+                          <p className="font-medium">{summary.handoff.label}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {summary.handoff.type === "flow" ? "Information flow" : "Handoff"} ·{" "}
+                            {summary.observationCount} observation{summary.observationCount === 1 ? "" : "s"}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-4">
+                          <div className="flex flex-wrap gap-1 max-w-xs">
+                            {summary.wasteTypes.slice(0, 3).map((wt) => (
+                              <Badge key={wt} variant="outline" className="text-xs">
+                                {wt}
+                              </Badge>
+                            ))}
+                          </div>
+                          <p className="text-xl font-bold">{summary.priorityScore}</p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
             {/* AI-Generated Insights */}
             <Card>
               <CardHeader>
@@ -472,6 +661,8 @@ export default function AnalyticsPage() {
           </>
         )}
       </div>
+
+      <ObservationDrillDown target={drillDown} onClose={() => setDrillDown(null)} />
     </div>
   );
 }
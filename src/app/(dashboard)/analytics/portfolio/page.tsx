@@ -0,0 +1,423 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { addDays, format, formatDistanceToNow, parseISO, subDays } from "date-fns";
+import {
+  CartesianGrid,
+  ResponsiveContainer,
+  Scatter,
+  ScatterChart,
+  Tooltip,
+  XAxis,
+  YAxis,
+  ZAxis,
+} from "recharts";
+import { ArrowLeft, ArrowUpDown, Briefcase, Loader2, X } from "lucide-react";
+import { Header } from "@/components/layout/Header";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { getPortfolio } from "@/lib/services/analytics";
+import {
+  getEffortLabel,
+  getImplementationRate,
+  sortPortfolio,
+  UNASSIGNED_DEPARTMENT,
+  type Portfolio,
+  type PortfolioFilters,
+  type PortfolioSortKey,
+  type PortfolioWorkflow,
+  type SortDirection,
+} from "@/lib/services/portfolio";
+
+const ALL = "all";
+
+// The API's end date is exclusive; people pick the last day they want included
+const toInclusiveDate = (to?: string) => (to ? format(subDays(parseISO(to), 1), "yyyy-MM-dd") : "");
+const toExclusiveDate = (date: string) => (date ? format(addDays(parseISO(date), 1), "yyyy-MM-dd") : undefined);
+
+const SORTABLE_COLUMNS: { key: PortfolioSortKey; label: string }[] = [
+  { key: "name", label: "Workflow" },
+  { key: "department", label: "Department" },
+  { key: "lastWalk", label: "Last walk" },
+  { key: "openWastePriority", label: "Open waste" },
+  { key: "solutionsAccepted", label: "Solutions" },
+  { key: "implementationRate", label: "Implemented" },
+  { key: "futureState", label: "Future state" },
+];
+
+export default function PortfolioPage() {
+  const { toast } = useToast();
+  const [filters, setFilters] = useState<PortfolioFilters>({});
+  const [portfolio, setPortfolio] = useState<Portfolio | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [sortKey, setSortKey] = useState<PortfolioSortKey>("openWastePriority");
+  const [sortDir, setSortDir] = useState<SortDirection>("desc");
+
+  const loadPortfolio = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setPortfolio(await getPortfolio(filters));
+    } catch (error) {
+      console.error("Failed to load portfolio:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to load the workflow portfolio.",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filters, toast]);
+
+  useEffect(() => {
+    loadPortfolio();
+  }, [loadPortfolio]);
+
+  const update = (changes: Partial<PortfolioFilters>) => {
+    const next: PortfolioFilters = { ...filters, ...changes };
+    (Object.keys(next) as (keyof PortfolioFilters)[]).forEach((key) => {
+      if (next[key] === undefined) delete next[key];
+    });
+    setFilters(next);
+  };
+
+  const toggleSort = (key: PortfolioSortKey) => {
+    if (sortKey === key) {
+      setSortDir((d) => (d === "asc" ? "desc" : "asc"));
+      return;
+    }
+    setSortKey(key);
+    setSortDir(key === "name" || key === "department" ? "asc" : "desc");
+  };
+
+  const workflows = portfolio ? sortPortfolio(portfolio.workflows, sortKey, sortDir) : [];
+  const totals = workflows.reduce(
+    (sum, w) => ({
+      openWaste: sum.openWaste + w.openWasteCount,
+      accepted: sum.accepted + w.solutionsAccepted,
+      implemented: sum.implemented + w.solutionsImplemented,
+      published: sum.published + (w.futureState?.status === "published" ? 1 : 0),
+    }),
+    { openWaste: 0, accepted: 0, implemented: 0, published: 0 }
+  );
+
+  // Workflows without accepted solutions have no effort to plot
+  const bubbles = workflows
+    .filter((w) => w.avgEffort !== null)
+    .map((w) => ({ name: w.name, effort: w.avgEffort, value: w.addressedPriority, waste: w.openWastePriority }));
+
+  return (
+    <div className="flex flex-col h-full">
+      <Header
+        title="Workflow Portfolio"
+        description="Every workflow in your organization, its open waste and improvement progress"
+        actions={
+          <Button asChild variant="ghost">
+            <Link href="/analytics">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Analytics
+            </Link>
+          </Button>
+        }
+      />
+
+      <div className="flex-1 p-6 space-y-6 overflow-auto">
+        <Card>
+          <CardContent className="pt-4 grid gap-3 grid-cols-2 md:grid-cols-5 items-end">
+            <div className="space-y-1">
+              <Label className="text-xs">Owner</Label>
+              <Select
+                value={filters.ownerIds?.[0] ?? ALL}
+                onValueChange={(value) => update({ ownerIds: value === ALL ? undefined : [value] })}
+              >
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All owners</SelectItem>
+                  {portfolio?.ownerOptions.map((owner) => (
+                    <SelectItem key={owner.id} value={owner.id}>
+                      {owner.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs">Department</Label>
+              <Select
+                value={filters.departments?.[0] ?? ALL}
+                onValueChange={(value) => update({ departments: value === ALL ? undefined : [value] })}
+              >
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All departments</SelectItem>
+                  {portfolio?.departmentOptions.map((department) => (
+                    <SelectItem key={department} value={department}>
+                      {department}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="portfolio-from" className="text-xs">Last walk from</Label>
+              <Input
+                id="portfolio-from"
+                type="date"
+                className="h-9"
+                value={filters.lastWalkFrom ?? ""}
+                onChange={(e) => update({ lastWalkFrom: e.target.value || undefined })}
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="portfolio-to" className="text-xs">Last walk to</Label>
+              <Input
+                id="portfolio-to"
+                type="date"
+                className="h-9"
+                value={toInclusiveDate(filters.lastWalkTo)}
+                onChange={(e) => update({ lastWalkTo: toExclusiveDate(e.target.value) })}
+              />
+            </div>
+
+            <Button
+              variant="ghost"
+              className="h-9"
+              onClick={() => setFilters({})}
+              disabled={Object.keys(filters).length === 0}
+            >
+              <X className="mr-1 h-4 w-4" />
+              Clear filters
+            </Button>
+          </CardContent>
+        </Card>
+
+        {isLoading && !portfolio ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-brand-gold" />
+          </div>
+        ) : (
+          <>
+            <div className="grid gap-3 sm:gap-4 grid-cols-2 md:grid-cols-4">
+              <SummaryCard label="Workflows" value={workflows.length} />
+              <SummaryCard label="Open Waste" value={totals.openWaste} />
+              <SummaryCard label="Solutions Implemented" value={`${totals.implemented} / ${totals.accepted}`} />
+              <SummaryCard label="Published Future States" value={totals.published} />
+            </div>
+
+            <div className="grid gap-6 lg:grid-cols-2">
+              <Card>
+                <CardHeader>
+                  <CardTitle>By Department</CardTitle>
+                  <CardDescription>Workflows rolled up by department or business unit</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Department</TableHead>
+                        <TableHead className="text-right">Workflows</TableHead>
+                        <TableHead className="text-right">Open waste</TableHead>
+                        <TableHead className="text-right">Implemented</TableHead>
+                        <TableHead className="text-right">Published</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {portfolio?.departments.map((department) => (
+                        <TableRow
+                          key={department.department}
+                          className="cursor-pointer"
+                          onClick={() => update({ departments: [department.department] })}
+                        >
+                          <TableCell className="font-medium">
+                            {department.department === UNASSIGNED_DEPARTMENT ? (
+                              <span className="text-muted-foreground">{department.department}</span>
+                            ) : (
+                              department.department
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">{department.workflowCount}</TableCell>
+                          <TableCell className="text-right">{department.openWasteCount}</TableCell>
+                          <TableCell className="text-right">
+                            {department.solutionsImplemented} / {department.solutionsAccepted}
+                          </TableCell>
+                          <TableCell className="text-right">{department.publishedFutureStates}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Waste, Effort and Value</CardTitle>
+                  <CardDescription>
+                    Bubble size is open waste priority; top left is high value for low effort
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {bubbles.length > 0 ? (
+                    <div className="h-[300px]">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <ScatterChart margin={{ top: 8, right: 16, left: 0, bottom: 8 }}>
+                          <CartesianGrid strokeDasharray="3 3" />
+                          <XAxis
+                            type="number"
+                            dataKey="effort"
+                            name="Effort"
+                            domain={[0.5, 3.5]}
+                            ticks={[1, 2, 3]}
+                            tickFormatter={(value: number) => getEffortLabel(value)}
+                            tick={{ fontSize: 11 }}
+                          />
+                          <YAxis type="number" dataKey="value" name="Value" tick={{ fontSize: 11 }} />
+                          <ZAxis type="number" dataKey="waste" name="Open waste" range={[60, 600]} />
+                          <Tooltip
+                            cursor={{ strokeDasharray: "3 3" }}
+                            content={({ payload }) => {
+                              const bubble = payload?.[0]?.payload as (typeof bubbles)[number] | undefined;
+                              if (!bubble) return null;
+                              return (
+                                <div className="rounded-md border bg-white p-2 text-xs shadow">
+                                  <p className="font-medium">{bubble.name}</p>
+                                  <p>Effort: {getEffortLabel(bubble.effort)}</p>
+                                  <p>Value addressed: {bubble.value}</p>
+                                  <p>Open waste priority: {bubble.waste}</p>
+                                </div>
+                              );
+                            }}
+                          />
+                          <Scatter data={bubbles} fill="#D4A84B" fillOpacity={0.7} stroke="#102A43" />
+                        </ScatterChart>
+                      </ResponsiveContainer>
+                    </div>
+                  ) : (
+                    <div className="h-[300px] flex items-center justify-center text-muted-foreground text-sm">
+                      No workflows with accepted solutions yet
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Briefcase className="h-5 w-5 text-brand-gold" />
+                  Workflows
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {workflows.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-8">No workflows match.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        {SORTABLE_COLUMNS.map((column) => (
+                          <TableHead key={column.key}>
+                            <button
+                              type="button"
+                              className="inline-flex items-center gap-2 font-medium"
+                              onClick={() => toggleSort(column.key)}
+                            >
+                              {column.label}
+                              <ArrowUpDown className="h-4 w-4 opacity-60" />
+                            </button>
+                          </TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {workflows.map((workflow) => (
+                        <PortfolioRow key={workflow.processId} workflow={workflow} />
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function SummaryCard({ label, value }: { label: string; value: string | number }) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm text-muted-foreground">{label}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="text-2xl font-bold">{value}</div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function PortfolioRow({ workflow }: { workflow: PortfolioWorkflow }) {
+  const rate = getImplementationRate(workflow);
+
+  return (
+    <TableRow>
+      <TableCell>
+        <Link href={`/workflows/${workflow.processId}`} className="font-medium hover:underline">
+          {workflow.name}
+        </Link>
+        {workflow.ownerName && <p className="text-xs text-muted-foreground">{workflow.ownerName}</p>}
+      </TableCell>
+      <TableCell>{workflow.department ?? <span className="text-muted-foreground">—</span>}</TableCell>
+      <TableCell>
+        {workflow.latestSession ? (
+          <Link href={`/sessions/${workflow.latestSession.id}/results`} className="hover:underline">
+            <span className="block text-sm">{workflow.latestSession.name}</span>
+            <span className="text-xs text-muted-foreground">
+              {formatDistanceToNow(new Date(workflow.latestSession.date), { addSuffix: true })}
+            </span>
+          </Link>
+        ) : (
+          <span className="text-muted-foreground">Never walked</span>
+        )}
+      </TableCell>
+      <TableCell>
+        <span className="font-medium">{workflow.openWasteCount}</span>
+        <span className="text-xs text-muted-foreground"> · priority {workflow.openWastePriority}</span>
+      </TableCell>
+      <TableCell>
+        {workflow.solutionsImplemented} / {workflow.solutionsAccepted}
+      </TableCell>
+      <TableCell>{rate === null ? <span className="text-muted-foreground">—</span> : `${rate}%`}</TableCell>
+      <TableCell>
+        {workflow.futureState ? (
+          <Badge variant={workflow.futureState.status === "published" ? "default" : "secondary"}>
+            v{workflow.futureState.version} {workflow.futureState.status}
+          </Badge>
+        ) : (
+          <span className="text-muted-foreground">None</span>
+        )}
+      </TableCell>
+    </TableRow>
+  );
+}
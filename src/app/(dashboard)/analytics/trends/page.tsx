@@ -0,0 +1,225 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { format } from "date-fns";
+import { ArrowLeft, CheckCircle2, LineChart as LineChartIcon, Loader2, Rocket } from "lucide-react";
+import { Header } from "@/components/layout/Header";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ControlChart } from "@/components/analytics/ControlChart";
+import { useToast } from "@/hooks/use-toast";
+import { getProcessTrend } from "@/lib/services/analytics";
+import { getProcessesWithSessions } from "@/lib/services/comparison";
+import {
+  computeControlLimits,
+  countPointsBefore,
+  getMetricValues,
+  getWasteTypeValues,
+  TREND_METRICS,
+  type ProcessTrend,
+} from "@/lib/services/processTrends";
+
+const ALL_SESSIONS = "all";
+
+export default function ProcessTrendsPage() {
+  const { toast } = useToast();
+  const searchParams = useSearchParams();
+  const [processes, setProcesses] = useState<{ id: string; name: string }[]>([]);
+  const [processId, setProcessId] = useState<string>(searchParams.get("process") || "");
+  const [trend, setTrend] = useState<ProcessTrend | null>(null);
+  const [baseline, setBaseline] = useState<string>(ALL_SESSIONS);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    getProcessesWithSessions()
+      .then((data) => {
+        setProcesses(data);
+        setProcessId((current) => current || data[0]?.id || "");
+      })
+      .catch((error) => console.error("Failed to load workflows:", error));
+  }, []);
+
+  const loadTrend = useCallback(async () => {
+    if (!processId) return;
+    try {
+      setIsLoading(true);
+      setTrend(await getProcessTrend(processId));
+      setBaseline(ALL_SESSIONS);
+    } catch (error) {
+      console.error("Failed to load trends:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to load workflow trends.",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [processId, toast]);
+
+  useEffect(() => {
+    loadTrend();
+  }, [loadTrend]);
+
+  const points = trend?.points || [];
+  const annotations = trend?.annotations || [];
+
+  // Limits from the sessions before the chosen improvement; the ones after are judged against them
+  const baselineAnnotation = annotations.find((a) => a.id === baseline);
+  const baselineSize = baselineAnnotation ? countPointsBefore(points, baselineAnnotation.date) : points.length;
+  const baselinePoints = points.slice(0, baselineSize);
+
+  return (
+    <div className="flex flex-col h-full">
+      <Header
+        title="Workflow Trends"
+        description="Track a workflow across every session to see whether improvements stuck"
+        actions={
+          <Button asChild variant="ghost">
+            <Link href="/analytics">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Analytics
+            </Link>
+          </Button>
+        }
+      />
+
+      <div className="flex-1 p-6 space-y-6 overflow-auto">
+        <Card>
+          <CardContent className="pt-4 grid gap-3 md:grid-cols-3 items-end">
+            <div className="space-y-1">
+              <Label className="text-xs">Workflow</Label>
+              <Select value={processId} onValueChange={setProcessId}>
+                <SelectTrigger className="h-9">
+                  <SelectValue placeholder="Select a workflow" />
+                </SelectTrigger>
+                <SelectContent>
+                  {processes.map((process) => (
+                    <SelectItem key={process.id} value={process.id}>
+                      {process.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs">Control limits from</Label>
+              <Select value={baseline} onValueChange={setBaseline} disabled={annotations.length === 0}>
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_SESSIONS}>All sessions</SelectItem>
+                  {annotations.map((annotation) => (
+                    <SelectItem key={annotation.id} value={annotation.id}>
+                      Sessions before: {annotation.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Red points fall outside the limits or sit in a run of 8 on one side of the mean.
+            </p>
+          </CardContent>
+        </Card>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-brand-gold" />
+          </div>
+        ) : points.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              <LineChartIcon className="h-10 w-10 mx-auto mb-3 opacity-50" />
+              No observations recorded for this workflow yet.
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div className="grid gap-6 lg:grid-cols-3">
+              {TREND_METRICS.map((metric) => {
+                const values = getMetricValues(points, metric.key);
+                return (
+                  <ControlChart
+                    key={metric.key}
+                    title={metric.label}
+                    points={points}
+                    values={values}
+                    limits={computeControlLimits(getMetricValues(baselinePoints, metric.key), metric.bounds)}
+                    annotations={annotations}
+                    baselineSize={baselineAnnotation ? baselineSize : undefined}
+                  />
+                );
+              })}
+            </div>
+
+            {trend && trend.wasteTypes.length > 0 && (
+              <div className="space-y-3">
+                <h2 className="text-lg font-semibold">By Waste Type</h2>
+                <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+                  {trend.wasteTypes.map((wasteType) => (
+                    <ControlChart
+                      key={wasteType.id}
+                      title={`${wasteType.code} · ${wasteType.name}`}
+                      points={points}
+                      values={getWasteTypeValues(points, wasteType.id)}
+                      limits={computeControlLimits(getWasteTypeValues(baselinePoints, wasteType.id), { min: 0 })}
+                      annotations={annotations}
+                      baselineSize={baselineAnnotation ? baselineSize : undefined}
+                      color={wasteType.color}
+                      compact
+                    />
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Improvements</CardTitle>
+                <CardDescription>Published future states and completed implementation waves</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {annotations.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    Nothing published or completed yet. Publish a future state or mark a roadmap wave complete to
+                    mark it here.
+                  </p>
+                ) : (
+                  <ul className="space-y-2">
+                    {annotations.map((annotation) => (
+                      <li key={annotation.id} className="flex items-center gap-2 text-sm">
+                        {annotation.kind === "wave_completed" ? (
+                          <CheckCircle2 className="h-4 w-4 text-purple-600" />
+                        ) : (
+                          <Rocket className="h-4 w-4 text-emerald-600" />
+                        )}
+                        <span className="flex-1">{annotation.label}</span>
+                        <span className="text-muted-foreground">
+                          {format(new Date(annotation.date), "MMM d, yyyy")}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
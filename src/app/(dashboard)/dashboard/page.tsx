@@ -84,7 +84,7 @@ export default function DashboardPage() {
           await Promise.all([
             getDashboardStats(),
             getRecentSessions(3),
-            getTopHotspots(undefined, 3),
+            getTopHotspots({}, 3),
             getOverallTrainingProgress(),
             getTrainingContentWithProgress(),
           ]);
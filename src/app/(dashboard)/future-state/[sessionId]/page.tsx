@@ -1,10 +1,11 @@
 "use client";
 
-import { useEffect, useState, useCallback, Suspense } from "react";
+import { useEffect, useState, useCallback, useMemo, Suspense } from "react";
 import { useParams, useSearchParams } from "next/navigation";
 import { getSupabaseClient } from "@/lib/supabase/client";
 import { useAuthStore } from "@/lib/stores/authStore";
 import { useRealtimeStudio } from "@/lib/hooks/useRealtimeStudio";
+import { parseParetoFocus } from "@/lib/services/pareto";
 import { StudioShell } from "@/components/future-state/StudioShell";
 import { SynthesisHub } from "@/components/future-state/SynthesisHub";
 import { SolutionBuilder } from "@/components/future-state/SolutionBuilder";
@@ -33,6 +34,8 @@ function StudioContent() {
 
   // Get current stage from URL or default to synthesis
   const currentStage = (searchParams.get("stage") as StudioStage) || "synthesis";
+  // Vital few sent from the analytics Pareto chart
+  const paretoFocus = useMemo(() => parseParetoFocus(searchParams), [searchParams]);
 
   // Realtime studio hook
   const realtimeStudio = useRealtimeStudio(
@@ -161,7 +164,7 @@ function StudioContent() {
   const renderStageContent = () => {
     switch (currentStage) {
       case "synthesis":
-        return <SynthesisHub sessionId={sessionId} />;
+        return <SynthesisHub sessionId={sessionId} focus={paretoFocus} />;
       case "solutions":
         return <SolutionBuilder sessionId={sessionId} />;
       case "sequencing":
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { useParams, useRouter } from "next/navigation";
 import Link from "next/link";
 import { Header } from "@/components/layout/Header";
@@ -8,10 +8,17 @@ import { ProcessMap } from "@/components/workflow/ProcessMap";
 import { StepDetailPanel } from "@/components/workflow/StepDetailPanel";
 import { WasteTaggingPanel } from "@/components/waste/WasteTaggingPanel";
 import { ObservationEditPanel } from "@/components/waste/ObservationEditPanel";
+import { ObservationConflictDialog } from "@/components/waste/ObservationConflictDialog";
+import { PendingUploadsList } from "@/components/pwa/PendingUploadsList";
+import { VotingPanel } from "@/components/waste/VotingPanel";
+import { CoveragePanel } from "@/components/waste/CoveragePanel";
+import { AgendaPanel, PhaseCountdownBadge } from "@/components/waste/AgendaPanel";
+import { GuestAccessPanel } from "@/components/waste/GuestAccessPanel";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import {
   Sheet,
   SheetContent,
@@ -32,21 +39,81 @@ import {
   Activity,
   PanelRightClose,
   PanelRightOpen,
+  RefreshCw,
+  Paperclip,
+  Vote,
+  ListOrdered,
+  Radar,
+  UserPlus,
+  EyeOff,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
 import { formatDistanceToNow } from "date-fns";
 import { getSessionWithDetails, endSession, joinSession, updateSession } from "@/lib/services/sessions";
-import { getWorkflowWithDetails } from "@/lib/services/workflows";
-import { getWasteTypes } from "@/lib/services/wasteTypes";
 import {
   getObservationsBySession,
   createObservation,
   updateObservation,
   deleteObservation,
-  getStepObservationStats,
   getObservationById,
+  summarizeStepObservations,
 } from "@/lib/services/observations";
+import {
+  applyPendingChanges,
+  countPendingChanges,
+  fetchSessionSnapshot,
+  getConflictedMutations,
+  getPendingSessionChanges,
+  planObservationChange,
+  reconcileOfflineSession,
+  resolveConflict,
+  type ConflictResolution,
+  type ObservationChange,
+} from "@/lib/services/offlineSession";
+import {
+  discardObservationAttachments,
+  queueObservationAttachments,
+  subscribeToAttachmentProgress,
+  syncOfflineAttachments,
+} from "@/lib/services/offlineAttachments";
+import {
+  deleteOfflineMutation,
+  getSessionSnapshot,
+  isOnline,
+  putOfflineMutation,
+  saveSessionSnapshot,
+  type SessionSnapshot,
+} from "@/lib/pwa/offline-storage";
+import {
+  castVote,
+  closeVotingRound,
+  getLatestVotingRound,
+  getRoundVotes,
+  openVotingRound,
+  retractVote,
+} from "@/lib/services/voting";
+import { getRemainingVotes, type VoteTarget } from "@/lib/services/voteTally";
+import {
+  DEFAULT_SCORING_MODEL,
+  calculatePriority,
+  getLegacyScores,
+  type ScoringModelDefinition,
+} from "@/lib/services/scoringModel";
+import {
+  buildHandoffLookup,
+  getTargetColumns,
+  getTargetKey,
+  summarizeEdgeObservations,
+  type Handoff,
+  type ObservationTarget,
+} from "@/lib/services/observationTargets";
+import { sendSessionNudge, type Notification } from "@/lib/services/notifications";
+import { endAgenda, getSessionPhases, saveAgenda, startPhase } from "@/lib/services/agenda";
+import { getCurrentPhase, getLaneTaggingState, type PhaseDraft } from "@/lib/services/sessionAgenda";
+import { createGuestLink, getGuestLinks, getSessionGuests, revokeGuestLink } from "@/lib/services/guestLinks";
+import { canSeeObservers, getObserverName, hideObservers } from "@/lib/services/observerPrivacy";
+import { useNetworkStatus } from "@/components/pwa/PWAProvider";
 import {
   getFlowsByProcess,
   createFlow,
@@ -55,14 +122,24 @@ import {
 } from "@/lib/services/informationFlows";
 import { useRealtimeSession } from "@/lib/hooks/useRealtimeSession";
 import { FlowDetailPanel } from "@/components/workflow/FlowDetailPanel";
-import type { ProcessStep, WasteType, Session } from "@/types";
+import type {
+  ProcessLane,
+  ProcessStep,
+  WasteType,
+  Session,
+  SessionGuest,
+  SessionGuestLink,
+  SessionPhase,
+  SessionVote,
+  VotingRound,
+} from "@/types";
 import type {
   InformationFlowWithRelations,
   CreateInformationFlowInput,
   UpdateInformationFlowInput,
 } from "@/types/informationFlow";
-import type { StepConnection } from "@/lib/services/workflows";
 import type { ObservationWithDetails, CreateObservationInput } from "@/lib/services/observations";
+import type { AttachmentProgress, OfflineMutation } from "@/types/offlineSync";
 
 interface SessionParticipantWithUser {
   id: string;
@@ -92,14 +169,39 @@ export default function SessionDetailPage() {
   // Data state
   const [session, setSession] = useState<Session | null>(null);
   const [steps, setSteps] = useState<ProcessStep[]>([]);
-  const [connections, setConnections] = useState<{ source: string; target: string }[]>([]);
+  const [connections, setConnections] = useState<SessionSnapshot["connections"]>([]);
+  const [lanes, setLanes] = useState<ProcessLane[]>([]);
   const [participants, setParticipants] = useState<SessionParticipantWithUser[]>([]);
-  const [observations, setObservations] = useState<ObservationWithDetails[]>([]);
+  // Observations as last seen on the server; pending offline work is layered on top
+  const [syncedObservations, setSyncedObservations] = useState<ObservationWithDetails[]>([]);
   const [wasteTypes, setWasteTypes] = useState<WasteType[]>([]);
-  const [stepObsStats, setStepObsStats] = useState<Record<string, { count: number; priorityScore: number }>>({});
+  const [scoringModel, setScoringModel] = useState<ScoringModelDefinition>(DEFAULT_SCORING_MODEL);
+
+  // Offline state: rendering from the cached snapshot, and work waiting to sync
+  const { online } = useNetworkStatus();
+  const [isWorkingFromCache, setIsWorkingFromCache] = useState(false);
+  const [pendingChanges, setPendingChanges] = useState<OfflineMutation[]>([]);
+  const [isReconciling, setIsReconciling] = useState(false);
+  const [reviewingConflictId, setReviewingConflictId] = useState<string | null>(null);
+  const [uploads, setUploads] = useState<AttachmentProgress[]>([]);
+  const [votingRound, setVotingRound] = useState<VotingRound | null>(null);
+  const [votes, setVotes] = useState<SessionVote[]>([]);
+  const [isVotingPanelOpen, setIsVotingPanelOpen] = useState(false);
+  const [isVoting, setIsVoting] = useState(false);
+  const [isCoveragePanelOpen, setIsCoveragePanelOpen] = useState(false);
+  const [isSendingNudge, setIsSendingNudge] = useState(false);
+  const [phases, setPhases] = useState<SessionPhase[]>([]);
+  const [isAgendaPanelOpen, setIsAgendaPanelOpen] = useState(false);
+  const [isUpdatingAgenda, setIsUpdatingAgenda] = useState(false);
+  const [guestLinks, setGuestLinks] = useState<SessionGuestLink[]>([]);
+  const [guests, setGuests] = useState<SessionGuest[]>([]);
+  const [isGuestPanelOpen, setIsGuestPanelOpen] = useState(false);
+  const [isUpdatingGuests, setIsUpdatingGuests] = useState(false);
 
   // UI state
   const [selectedStepId, setSelectedStepId] = useState<string | null>(null);
+  // Handoff or information flow being tagged instead of a step
+  const [taggingHandoff, setTaggingHandoff] = useState<Handoff | null>(null);
   const [showHeatmap, setShowHeatmap] = useState(true);
   const [isDetailPanelOpen, setIsDetailPanelOpen] = useState(false);
   const [isTaggingPanelOpen, setIsTaggingPanelOpen] = useState(false);
@@ -124,21 +226,75 @@ export default function SessionDetailPage() {
 
   const selectedStep = steps.find((s) => s.id === selectedStepId) || null;
 
+  const currentUser = participants.find((p) => p.user_id === currentUserId)?.user;
+  // Anonymous sessions hide who recorded what from everyone but admins
+  const showObservers = canSeeObservers(session, currentUser?.role);
+  const observations = useMemo(() => {
+    const merged = applyPendingChanges(syncedObservations, pendingChanges, wasteTypes, currentUser, scoringModel);
+    return showObservers ? merged : hideObservers(merged, currentUserId);
+  }, [syncedObservations, pendingChanges, wasteTypes, currentUser, scoringModel, showObservers, currentUserId]);
+  const stepObsStats = useMemo(() => summarizeStepObservations(observations), [observations]);
+  const handoffLookup = useMemo(
+    () =>
+      buildHandoffLookup(
+        connections.map((c) => ({ id: c.id, source_step_id: c.source, target_step_id: c.target })),
+        informationFlows,
+        Object.fromEntries(steps.map((s) => [s.id, s.step_name]))
+      ),
+    [connections, informationFlows, steps]
+  );
+  const edgeObsStats = useMemo(
+    () => summarizeEdgeObservations(observations, handoffLookup),
+    [observations, handoffLookup]
+  );
+  const pendingCount = countPendingChanges(pendingChanges);
+  const conflicts = getConflictedMutations(pendingChanges);
+  const sessionUploads = uploads.filter((u) => u.session_id === sessionId);
+  const pendingUploadCount = sessionUploads.length;
+  const uploadPercent = (() => {
+    const total = sessionUploads.reduce((sum, u) => sum + u.size, 0);
+    const sent = sessionUploads.reduce((sum, u) => sum + u.uploaded_bytes, 0);
+    return total > 0 ? Math.round((sent / total) * 100) : 0;
+  })();
+  const reviewingConflict = conflicts.find((m) => m.id === reviewingConflictId) || null;
+  const conflictStepId = reviewingConflict?.data?.step_id || reviewingConflict?.conflict?.server?.step_id;
+  const isFacilitator = !!session && session.facilitator_id === currentUserId;
+  const remainingVotes = votingRound
+    ? getRemainingVotes(votes, currentUserId, votingRound.votes_per_participant)
+    : 0;
+  const currentPhase = getCurrentPhase(phases);
+
+  const applySnapshot = useCallback((snapshot: Omit<SessionSnapshot, "cached_at">) => {
+    setSession(snapshot.session);
+    setParticipants(snapshot.participants as SessionParticipantWithUser[]);
+    setSteps(snapshot.steps);
+    setConnections(snapshot.connections);
+    setLanes(snapshot.lanes);
+    setWasteTypes(snapshot.waste_types);
+    setScoringModel(snapshot.scoring_model ?? DEFAULT_SCORING_MODEL);
+    setSyncedObservations(snapshot.observations);
+    setInformationFlows(snapshot.information_flows);
+    setCurrentUserId(snapshot.current_user_id);
+  }, []);
+
+  const refreshPendingChanges = useCallback(async () => {
+    try {
+      setPendingChanges(await getPendingSessionChanges(sessionId));
+    } catch (error) {
+      console.error("Failed to read offline changes:", error);
+    }
+  }, [sessionId]);
+
+  useEffect(() => subscribeToAttachmentProgress(setUploads), []);
+
   // Realtime subscription handlers
   const handleObservationInsert = useCallback(async (newObs: { id: string; step_id: string; priority_score: number }) => {
     // Fetch the full observation with details
     try {
       const obsWithDetails = await getObservationById(newObs.id);
-      setObservations(prev => [obsWithDetails, ...prev]);
-      
-      // Update step stats
-      setStepObsStats(prev => ({
-        ...prev,
-        [newObs.step_id]: {
-          count: (prev[newObs.step_id]?.count || 0) + 1,
-          priorityScore: (prev[newObs.step_id]?.priorityScore || 0) + newObs.priority_score,
-        },
-      }));
+      setSyncedObservations(prev =>
+        prev.some((o) => o.id === obsWithDetails.id) ? prev : [obsWithDetails, ...prev]
+      );
     } catch (error) {
       console.error("Failed to fetch new observation:", error);
     }
@@ -164,6 +320,48 @@ export default function SessionDetailPage() {
     }
   }, [sessionId]);
 
+  // Voting: the round row and each vote arrive over the session channel
+  const addVote = useCallback((vote: SessionVote) => {
+    setVotes((prev) => (prev.some((v) => v.id === vote.id) ? prev : [...prev, vote]));
+  }, []);
+
+  const votingRoundRef = useRef(votingRound);
+  votingRoundRef.current = votingRound;
+
+  const handleVoteInsert = useCallback((vote: SessionVote) => {
+    if (votingRoundRef.current?.id === vote.round_id) addVote(vote);
+  }, [addVote]);
+
+  const handleVoteDelete = useCallback((voteId: string) => {
+    setVotes((prev) => prev.filter((v) => v.id !== voteId));
+  }, []);
+
+  const handleVotingRoundChange = useCallback((round: VotingRound) => {
+    const current = votingRoundRef.current;
+    if (current && current.id !== round.id && current.opened_at > round.opened_at) return;
+    if (current?.id !== round.id) setVotes([]);
+    votingRoundRef.current = round;
+    setVotingRound(round);
+  }, []);
+
+  // Agenda: phase rows arrive over the session channel as the facilitator moves on
+  const handlePhaseChange = useCallback((phase: SessionPhase) => {
+    setPhases((prev) => {
+      const previous = prev.find((p) => p.id === phase.id);
+      if (previous && previous.updated_at > phase.updated_at) return prev;
+      return [...prev.filter((p) => p.id !== phase.id), phase].sort((a, b) => a.position - b.position);
+    });
+  }, []);
+
+  const handlePhaseDelete = useCallback((phaseId: string) => {
+    setPhases((prev) => prev.filter((p) => p.id !== phaseId));
+  }, []);
+
+  // Facilitator nudges addressed to this participant
+  const handleNudgeReceived = useCallback((notification: Notification) => {
+    toast({ title: notification.title, description: notification.message });
+  }, [toast]);
+
   // Handle rename session
   const handleRenameSession = useCallback(async (newName: string) => {
     if (!session) return;
@@ -187,73 +385,276 @@ export default function SessionDetailPage() {
     onObservationInsert: handleObservationInsert,
     onParticipantJoin: handleParticipantJoin,
     onParticipantUpdate: handleParticipantUpdate,
+    onVoteInsert: handleVoteInsert,
+    onVoteDelete: handleVoteDelete,
+    onVotingRoundChange: handleVotingRoundChange,
+    onPhaseChange: handlePhaseChange,
+    onPhaseDelete: handlePhaseDelete,
+    userId: currentUserId,
+    onNudge: handleNudgeReceived,
   });
 
-  // Load session data
+  // Load the latest voting round; voting needs a connection
+  const hasSession = !!session;
   useEffect(() => {
-    const loadSessionData = async () => {
+    if (!hasSession || isWorkingFromCache || !online) return;
+
+    const loadVoting = async () => {
       try {
-        setIsLoading(true);
+        const round = await getLatestVotingRound(sessionId);
+        setVotingRound(round);
+        setVotes(round ? await getRoundVotes(round.id) : []);
+      } catch (error) {
+        console.error("Failed to load voting round:", error);
+      }
+    };
 
-        // Get current user
-        const { getSupabaseClient } = await import("@/lib/supabase/client");
-        const supabase = getSupabaseClient();
-        const { data: { user } } = await supabase.auth.getUser();
-        if (user) {
-          setCurrentUserId(user.id);
-        }
+    loadVoting();
+  }, [sessionId, hasSession, isWorkingFromCache, online]);
 
-        // Get session with participants
-        const { session: sessionData, participants: participantsData } =
-          await getSessionWithDetails(sessionId);
-
-        setSession(sessionData);
-        setParticipants(participantsData as SessionParticipantWithUser[]);
-
-        // Get workflow details
-        if (sessionData.process_id) {
-          const { steps: workflowSteps, connections: workflowConnections } =
-            await getWorkflowWithDetails(sessionData.process_id);
-
-          setSteps(workflowSteps);
-          setConnections(
-            workflowConnections.map((c: StepConnection) => ({
-              source: c.source_step_id,
-              target: c.target_step_id,
-            }))
-          );
-        }
+  // Load the agenda; without a connection tagging stays open in every lane
+  useEffect(() => {
+    if (!hasSession || isWorkingFromCache || !online) return;
 
-        // Get waste types
-        const wasteTypesData = await getWasteTypes();
-        setWasteTypes(wasteTypesData);
+    const loadAgenda = async () => {
+      try {
+        setPhases(await getSessionPhases(sessionId));
+      } catch (error) {
+        console.error("Failed to load agenda:", error);
+      }
+    };
+
+    loadAgenda();
+  }, [sessionId, hasSession, isWorkingFromCache, online]);
+
+  const handleSaveAgenda = async (drafts: PhaseDraft[]) => {
+    try {
+      setIsUpdatingAgenda(true);
+      setPhases(await saveAgenda(sessionId, drafts));
+      toast({ title: "Agenda saved" });
+      return true;
+    } catch (error) {
+      console.error("Failed to save agenda:", error);
+      toast({ variant: "destructive", title: "Error", description: "Failed to save the agenda." });
+      return false;
+    } finally {
+      setIsUpdatingAgenda(false);
+    }
+  };
+
+  const handleStartPhase = async (phaseId: string) => {
+    try {
+      setIsUpdatingAgenda(true);
+      setPhases(await startPhase(sessionId, phaseId));
+    } catch (error) {
+      console.error("Failed to start phase:", error);
+      toast({ variant: "destructive", title: "Error", description: "Failed to start the phase." });
+    } finally {
+      setIsUpdatingAgenda(false);
+    }
+  };
+
+  const handleEndAgenda = async () => {
+    try {
+      setIsUpdatingAgenda(true);
+      setPhases(await endAgenda(sessionId));
+      toast({ title: "Agenda ended", description: "Tagging is open in every lane." });
+    } catch (error) {
+      console.error("Failed to end agenda:", error);
+      toast({ variant: "destructive", title: "Error", description: "Failed to end the agenda." });
+    } finally {
+      setIsUpdatingAgenda(false);
+    }
+  };
 
-        // Get observations
-        const observationsData = await getObservationsBySession(sessionId);
-        setObservations(observationsData);
+  const loadGuestAccess = useCallback(async () => {
+    try {
+      const [links, joined] = await Promise.all([getGuestLinks(sessionId), getSessionGuests(sessionId)]);
+      setGuestLinks(links);
+      setGuests(joined);
+    } catch (error) {
+      console.error("Failed to load guest links:", error);
+    }
+  }, [sessionId]);
+
+  // Guest links are only managed by the facilitator, while the panel is open
+  useEffect(() => {
+    if (isGuestPanelOpen) loadGuestAccess();
+  }, [isGuestPanelOpen, loadGuestAccess]);
+
+  const handleToggleAnonymous = async (anonymous: boolean) => {
+    if (!session) return;
+    try {
+      setIsUpdatingGuests(true);
+      await updateSession(session.id, { anonymous_observations: anonymous });
+      setSession((prev) => (prev ? { ...prev, anonymous_observations: anonymous } : null));
+      toast({
+        title: anonymous ? "Observations are anonymous" : "Observer names are shown",
+        description: anonymous ? "Only admins can see who recorded each observation." : undefined,
+      });
+    } catch (error) {
+      console.error("Failed to update anonymous mode:", error);
+      toast({ variant: "destructive", title: "Error", description: "Failed to change anonymous mode." });
+    } finally {
+      setIsUpdatingGuests(false);
+    }
+  };
+
+  const handleCreateGuestLink = async (hours: number, label: string) => {
+    try {
+      setIsUpdatingGuests(true);
+      const link = await createGuestLink(sessionId, hours, label);
+      setGuestLinks((prev) => [link, ...prev]);
+      toast({ title: "Guest link created", description: "Share the QR code or copy the link." });
+    } catch (error) {
+      console.error("Failed to create guest link:", error);
+      toast({ variant: "destructive", title: "Error", description: "Failed to create the guest link." });
+    } finally {
+      setIsUpdatingGuests(false);
+    }
+  };
+
+  const handleRevokeGuestLink = async (linkId: string) => {
+    try {
+      setIsUpdatingGuests(true);
+      const revoked = await revokeGuestLink(linkId);
+      setGuestLinks((prev) => prev.map((link) => (link.id === revoked.id ? revoked : link)));
+      toast({ title: "Guest link revoked" });
+    } catch (error) {
+      console.error("Failed to revoke guest link:", error);
+      toast({ variant: "destructive", title: "Error", description: "Failed to revoke the guest link." });
+    } finally {
+      setIsUpdatingGuests(false);
+    }
+  };
+
+  const handleCopyGuestLink = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: "Link copied" });
+    } catch (error) {
+      console.error("Failed to copy guest link:", error);
+      toast({ variant: "destructive", title: "Error", description: "Couldn't copy the link." });
+    }
+  };
+
+  const handleOpenVotingRound = async (votesPerParticipant: number) => {
+    try {
+      setIsVoting(true);
+      if (votingRound?.status === "open") await closeVotingRound(votingRound.id);
+      const round = await openVotingRound(sessionId, votesPerParticipant);
+      setVotingRound(round);
+      setVotes([]);
+      toast({ title: "Voting opened", description: `Each participant has ${votesPerParticipant} votes.` });
+    } catch (error) {
+      console.error("Failed to open voting round:", error);
+      toast({ variant: "destructive", title: "Error", description: "Failed to open voting." });
+    } finally {
+      setIsVoting(false);
+    }
+  };
+
+  const handleCloseVotingRound = async () => {
+    if (!votingRound) return;
+    try {
+      setIsVoting(true);
+      setVotingRound(await closeVotingRound(votingRound.id));
+      toast({ title: "Voting closed" });
+    } catch (error) {
+      console.error("Failed to close voting round:", error);
+      toast({ variant: "destructive", title: "Error", description: "Failed to close voting." });
+    } finally {
+      setIsVoting(false);
+    }
+  };
+
+  const handleVote = async (target: VoteTarget) => {
+    if (!votingRound) return;
+    try {
+      setIsVoting(true);
+      addVote(await castVote(votingRound, target));
+    } catch (error) {
+      console.error("Failed to cast vote:", error);
+      toast({
+        variant: "destructive",
+        title: "Vote not counted",
+        description: "The round may be closed or you have no votes left.",
+      });
+    } finally {
+      setIsVoting(false);
+    }
+  };
+
+  const handleRetractVote = async (target: VoteTarget) => {
+    if (!votingRound) return;
+    try {
+      setIsVoting(true);
+      const removedId = await retractVote(votingRound.id, target);
+      if (removedId) handleVoteDelete(removedId);
+    } catch (error) {
+      console.error("Failed to remove vote:", error);
+      toast({ variant: "destructive", title: "Error", description: "Failed to remove vote." });
+    } finally {
+      setIsVoting(false);
+    }
+  };
+
+  const handleSendNudge = async (input: { lane: string; message: string; userIds: string[] }) => {
+    if (!session) return false;
+    try {
+      setIsSendingNudge(true);
+      await sendSessionNudge({ sessionId, sessionName: session.name, ...input });
+      toast({
+        title: "Nudge sent",
+        description: `${input.userIds.length} participant${input.userIds.length === 1 ? "" : "s"} asked to look at ${input.lane}.`,
+      });
+      return true;
+    } catch (error) {
+      console.error("Failed to send nudge:", error);
+      toast({ variant: "destructive", title: "Error", description: "Failed to send the nudge." });
+      return false;
+    } finally {
+      setIsSendingNudge(false);
+    }
+  };
 
-        // Get step observation stats
-        const stats = await getStepObservationStats(sessionId);
-        setStepObsStats(stats);
+  // Load session data: from the network when possible, otherwise from the offline snapshot
+  useEffect(() => {
+    const loadSessionData = async () => {
+      try {
+        setIsLoading(true);
 
-        // Get information flows for this process
-        if (sessionData.process_id) {
+        let snapshot: Omit<SessionSnapshot, "cached_at"> | null = null;
+        if (isOnline()) {
           try {
-            const flowsData = await getFlowsByProcess(sessionData.process_id);
-            setInformationFlows(flowsData);
-          } catch (flowError) {
-            console.error("Failed to load information flows:", flowError);
+            snapshot = await fetchSessionSnapshot(sessionId);
+          } catch (fetchError) {
+            console.error("Failed to load session online, trying offline copy:", fetchError);
           }
         }
 
+        const fromCache = !snapshot;
+        if (!snapshot) {
+          snapshot = await getSessionSnapshot(sessionId).catch(() => null);
+        }
+        if (!snapshot) throw new Error("Session is not available offline");
+
+        applySnapshot(snapshot);
+        setIsWorkingFromCache(fromCache);
+        await refreshPendingChanges();
+
         // Join session as participant
-        await joinSession(sessionId);
+        if (!fromCache) {
+          await joinSession(sessionId);
+        }
       } catch (error) {
         console.error("Failed to load session:", error);
         toast({
           variant: "destructive",
           title: "Error",
-          description: "Failed to load session data.",
+          description: isOnline()
+            ? "Failed to load session data."
+            : "This session has not been opened on this device before, so it is not available offline.",
         });
         router.push("/sessions");
       } finally {
@@ -262,61 +663,252 @@ export default function SessionDetailPage() {
     };
 
     loadSessionData();
-  }, [sessionId, router, toast]);
+  }, [sessionId, router, toast, applySnapshot, refreshPendingChanges]);
+
+  // Keep the offline snapshot current while working from live data
+  useEffect(() => {
+    if (!session || isWorkingFromCache) return;
+    saveSessionSnapshot({
+      session_id: sessionId,
+      session,
+      steps,
+      connections,
+      lanes,
+      waste_types: wasteTypes,
+      participants,
+      observations: syncedObservations,
+      information_flows: informationFlows,
+      scoring_model: scoringModel,
+      current_user_id: currentUserId,
+    }).catch((error) => console.error("Failed to cache session for offline use:", error));
+  }, [
+    sessionId,
+    session,
+    steps,
+    connections,
+    lanes,
+    wasteTypes,
+    participants,
+    syncedObservations,
+    informationFlows,
+    scoringModel,
+    currentUserId,
+    isWorkingFromCache,
+  ]);
+
+  // Reconciliation pass: push offline work, then reload the session from the server
+  const handleReconcile = useCallback(async () => {
+    try {
+      setIsReconciling(true);
+      const result = await reconcileOfflineSession();
+      applySnapshot(await fetchSessionSnapshot(sessionId));
+      setIsWorkingFromCache(false);
+      await refreshPendingChanges();
+
+      if (result.synced > 0) {
+        toast({
+          title: "Offline changes synced",
+          description: `${result.synced} change(s) saved to the session.`,
+        });
+      }
+      if (result.filesUploaded > 0) {
+        toast({
+          title: "Evidence uploaded",
+          description: `${result.filesUploaded} file(s) attached to their observations.`,
+        });
+      }
+      if (result.conflicts > 0) {
+        toast({
+          title: "Changes need review",
+          description: `${result.conflicts} change(s) conflict with edits made by others.`,
+        });
+      }
+      if (result.failed > 0) {
+        toast({
+          variant: "destructive",
+          title: "Some changes did not sync",
+          description: `${result.failed} change(s) are still pending and will be retried.`,
+        });
+      }
+      if (result.filesFailed > 0) {
+        toast({
+          variant: "destructive",
+          title: "Some files did not upload",
+          description: `${result.filesFailed} file(s) are still on this device and will resume uploading.`,
+        });
+      }
+    } catch (error) {
+      console.error("Failed to reconcile offline session:", error);
+      toast({
+        variant: "destructive",
+        title: "Sync failed",
+        description: "Your offline changes are still saved on this device.",
+      });
+    } finally {
+      setIsReconciling(false);
+    }
+  }, [sessionId, applySnapshot, refreshPendingChanges, toast]);
+
+  const wasOnlineRef = useRef(online);
+  useEffect(() => {
+    const cameBackOnline = online && !wasOnlineRef.current;
+    wasOnlineRef.current = online;
+    if (cameBackOnline && session && (isWorkingFromCache || pendingCount > 0 || pendingUploadCount > 0)) {
+      void handleReconcile();
+    }
+  }, [online, session, isWorkingFromCache, pendingCount, pendingUploadCount, handleReconcile]);
+
+  const refreshObservations = async () => {
+    setSyncedObservations(await getObservationsBySession(sessionId));
+  };
+
+  // Fold an offline change into the mutation log
+  const recordOfflineChange = async (change: Omit<ObservationChange, "sessionId">) => {
+    const plan = planObservationChange(pendingChanges, { ...change, sessionId });
+    for (const mutation of plan.put) await putOfflineMutation(mutation);
+    for (const id of plan.remove) await deleteOfflineMutation(id);
+    await refreshPendingChanges();
+  };
+
+  const handleResolveConflict = async (resolution: ConflictResolution) => {
+    if (!reviewingConflict) return;
+    try {
+      const settled = resolveConflict(reviewingConflict, resolution);
+      if (settled) {
+        await putOfflineMutation(settled);
+      } else {
+        await deleteOfflineMutation(reviewingConflict.id);
+      }
+      setReviewingConflictId(null);
+      await refreshPendingChanges();
+      if (online) await handleReconcile();
+    } catch (error) {
+      console.error("Failed to resolve conflict:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to resolve the conflict. Please try again.",
+      });
+    }
+  };
 
   const handleStepClick = useCallback((stepId: string) => {
     setSelectedStepId(stepId);
     setIsDetailPanelOpen(true);
   }, []);
 
+  // The running agenda phase may pause tagging or open it for some lanes only
+  const isTaggingAllowed = useCallback((lane: string | null) => {
+    const state = getLaneTaggingState(phases, lane);
+    if (!state.allowed) toast({ title: "Tagging is locked", description: state.reason });
+    return state.allowed;
+  }, [phases, toast]);
+
   const handleStartTagging = () => {
+    if (!isTaggingAllowed(selectedStep?.lane ?? null)) return;
     setIsDetailPanelOpen(false);
     setIsTaggingPanelOpen(true);
   };
 
+  // Handoffs belong to no single lane, so only a phase that pauses tagging locks them
+  const startTaggingHandoff = useCallback((handoff: Handoff) => {
+    if (!isTaggingAllowed(null)) return;
+    setSelectedStepId(null);
+    setTaggingHandoff(handoff);
+    setIsTaggingPanelOpen(true);
+  }, [isTaggingAllowed]);
+
+  const handleTagEdge = useCallback((sourceStepId: string, targetStepId: string) => {
+    if (session?.status !== "active") return;
+    const connection = connections.find((c) => c.source === sourceStepId && c.target === targetStepId);
+    const handoff = connection?.id ? handoffLookup[getTargetKey({ type: "connection", id: connection.id })] : undefined;
+    if (!handoff) {
+      // Edges added by inlining a subprocess are not stored connections
+      toast({
+        title: "Handoff can't be tagged",
+        description: "Open the linked subprocess to tag waste on this arrow.",
+      });
+      return;
+    }
+    startTaggingHandoff(handoff);
+  }, [session?.status, connections, handoffLookup, startTaggingHandoff, toast]);
+
   const handleSubmitObservation = async (data: {
     notes?: string;
     isDigital: boolean;
     isPhysical: boolean;
-    frequencyScore: number;
-    impactScore: number;
-    easeScore: number;
+    scores: Record<string, number>;
+    timeLostMinutes: number | null;
     wasteTypeIds: string[];
-  }) => {
-    if (!selectedStepId) return;
+  }, attachments: File[] = []) => {
+    const target: ObservationTarget | null = taggingHandoff
+      ? { type: taggingHandoff.type, id: taggingHandoff.id }
+      : selectedStepId
+      ? { type: "step", id: selectedStepId }
+      : null;
+    if (!target) return;
+    const targetColumns = getTargetColumns(target);
 
     try {
       setIsSavingObservation(true);
 
       const input: CreateObservationInput = {
         session_id: sessionId,
-        step_id: selectedStepId,
+        ...targetColumns,
         notes: data.notes,
         is_digital: data.isDigital,
         is_physical: data.isPhysical,
-        frequency_score: data.frequencyScore,
-        impact_score: data.impactScore,
-        ease_score: data.easeScore,
+        ...getLegacyScores(scoringModel, data.scores),
+        scores: data.scores,
+        priority_score: calculatePriority(scoringModel, data.scores),
+        time_lost_minutes: data.timeLostMinutes,
         waste_type_ids: data.wasteTypeIds,
       };
 
-      await createObservation(input);
-
-      // Refresh observations
-      const observationsData = await getObservationsBySession(sessionId);
-      setObservations(observationsData);
-
-      // Refresh stats
-      const stats = await getStepObservationStats(sessionId);
-      setStepObsStats(stats);
-
-      toast({
-        title: "Observation saved",
-        description: "Your waste observation has been recorded.",
-      });
+      if (!online) {
+        const observationId = crypto.randomUUID();
+        await recordOfflineChange({
+          op: "create",
+          observationId,
+          data: {
+            ...targetColumns,
+            notes: input.notes,
+            is_digital: input.is_digital,
+            is_physical: input.is_physical,
+            frequency_score: input.frequency_score,
+            impact_score: input.impact_score,
+            ease_score: input.ease_score,
+            scores: input.scores,
+            time_lost_minutes: input.time_lost_minutes ?? null,
+            waste_type_ids: input.waste_type_ids,
+          },
+        });
+        if (attachments.length > 0) {
+          await queueObservationAttachments(attachments, sessionId, observationId);
+        }
+        toast({
+          title: "Observation saved offline",
+          description: "It will sync when you are back online.",
+        });
+      } else {
+        const observation = await createObservation(input);
+        await refreshObservations();
+        if (attachments.length > 0) {
+          // Files go through the same queue, so an upload cut off mid-way resumes later
+          await queueObservationAttachments(attachments, sessionId, observation.id);
+          void syncOfflineAttachments().then((result) => {
+            if (result.uploaded > 0) return refreshObservations();
+          }).catch((error) => console.error("Failed to upload evidence:", error));
+        }
+        toast({
+          title: "Observation saved",
+          description: "Your waste observation has been recorded.",
+        });
+      }
 
     setIsTaggingPanelOpen(false);
     setSelectedStepId(null);
+    setTaggingHandoff(null);
     } catch (error) {
       console.error("Failed to save observation:", error);
       toast({
@@ -359,36 +951,45 @@ export default function SessionDetailPage() {
       notes?: string;
       isDigital: boolean;
       isPhysical: boolean;
-      frequencyScore: number;
-      impactScore: number;
-      easeScore: number;
+      scores: Record<string, number>;
+      timeLostMinutes: number | null;
       wasteTypeIds: string[];
     }
   ) => {
     try {
       setIsUpdatingObservation(true);
 
-      await updateObservation(observationId, {
+      const original = syncedObservations.find((o) => o.id === observationId);
+      const current = original ?? editingObservation;
+      const changes = {
+        step_id: current?.step_id ?? null,
+        connection_id: current?.connection_id ?? null,
+        flow_id: current?.flow_id ?? null,
         notes: data.notes,
         is_digital: data.isDigital,
         is_physical: data.isPhysical,
-        frequency_score: data.frequencyScore,
-        impact_score: data.impactScore,
-        ease_score: data.easeScore,
+        ...getLegacyScores(scoringModel, data.scores),
+        scores: data.scores,
+        time_lost_minutes: data.timeLostMinutes,
         waste_type_ids: data.wasteTypeIds,
-      });
-
-      // Refresh observations
-      const observationsData = await getObservationsBySession(sessionId);
-      setObservations(observationsData);
-
-      // Refresh stats
-      const stats = await getStepObservationStats(sessionId);
-      setStepObsStats(stats);
+      };
+      // Anything already queued for this observation keeps going through the log
+      const isQueued = pendingChanges.some((m) => m.entity_id === observationId);
+
+      if (isQueued || !online) {
+        await recordOfflineChange({ op: "update", observationId, data: changes, original });
+        if (online) await handleReconcile();
+      } else {
+        await updateObservation(observationId, {
+          ...changes,
+          priority_score: calculatePriority(scoringModel, data.scores),
+        });
+        await refreshObservations();
+      }
 
       toast({
         title: "Observation updated",
-        description: "Your changes have been saved.",
+        description: online ? "Your changes have been saved." : "Saved offline. It will sync when you reconnect.",
       });
 
       setIsEditPanelOpen(false);
@@ -409,15 +1010,21 @@ export default function SessionDetailPage() {
     try {
       setIsDeletingObservation(true);
 
-      await deleteObservation(observationId);
-
-      // Refresh observations
-      const observationsData = await getObservationsBySession(sessionId);
-      setObservations(observationsData);
-
-      // Refresh stats
-      const stats = await getStepObservationStats(sessionId);
-      setStepObsStats(stats);
+      if (pendingChanges.some((m) => m.entity_id === observationId) || !online) {
+        const neverSynced = pendingChanges.some((m) => m.entity_id === observationId && m.op === "create");
+        await recordOfflineChange({
+          op: "delete",
+          observationId,
+          original: syncedObservations.find((o) => o.id === observationId),
+        });
+        // Files of a synced observation wait in case the delete conflicts
+        if (neverSynced) await discardObservationAttachments(observationId);
+        if (online) await handleReconcile();
+      } else {
+        await deleteObservation(observationId);
+        await discardObservationAttachments(observationId);
+        await refreshObservations();
+      }
 
       toast({
         title: "Observation deleted",
@@ -536,10 +1143,27 @@ export default function SessionDetailPage() {
     setNewFlowEdge(null);
   };
 
+  const handleTagFlow = (flow: InformationFlowWithRelations) => {
+    const handoff = handoffLookup[getTargetKey({ type: "flow", id: flow.id })];
+    if (!handoff) return;
+    handleCloseFlowPanel();
+    startTaggingHandoff(handoff);
+  };
+
   const getStepName = (stepId: string): string => {
     return steps.find((s) => s.id === stepId)?.step_name || "Unknown Step";
   };
 
+  const getTargetName = (obs: Pick<ObservationWithDetails, "step_id" | "connection_id" | "flow_id">) => {
+    if (obs.step_id) return getStepName(obs.step_id);
+    const target = obs.connection_id
+      ? handoffLookup[getTargetKey({ type: "connection", id: obs.connection_id })]
+      : obs.flow_id
+      ? handoffLookup[getTargetKey({ type: "flow", id: obs.flow_id })]
+      : undefined;
+    return target?.label || "Unknown Step";
+  };
+
   // Check if participant is active (active within last 5 minutes)
   const isParticipantActive = (lastActiveAt: string) => {
     const lastActive = new Date(lastActiveAt);
@@ -550,8 +1174,8 @@ export default function SessionDetailPage() {
   // Get recent activity from observations
   const recentActivity = observations.slice(0, 5).map((obs) => ({
     id: obs.id,
-    user: obs.user?.name || "Unknown",
-    step: steps.find((s) => s.id === obs.step_id)?.step_name || "Unknown Step",
+    user: getObserverName(obs),
+    step: getTargetName(obs),
     waste: obs.waste_types?.[0]?.name || "Unknown",
     time: formatDistanceToNow(new Date(obs.created_at), { addSuffix: true }),
   }));
@@ -626,6 +1250,24 @@ export default function SessionDetailPage() {
             )}
             {session.status.charAt(0).toUpperCase() + session.status.slice(1)}
           </Badge>
+          {!online ? (
+            <Badge variant="outline" className="border-orange-400 bg-orange-50 text-orange-700">
+              <WifiOff className="h-3 w-3 mr-1" />
+              Working offline
+              {pendingCount > 0 && ` · ${pendingCount} change${pendingCount === 1 ? "" : "s"} pending`}
+            </Badge>
+          ) : isWorkingFromCache || pendingCount > 0 || isReconciling ? (
+            <button type="button" onClick={() => void handleReconcile()} disabled={isReconciling}>
+              <Badge variant="outline" className="border-orange-400 bg-orange-50 text-orange-700">
+                <RefreshCw className={cn("h-3 w-3 mr-1", isReconciling && "animate-spin")} />
+                {isReconciling
+                  ? "Syncing offline changes..."
+                  : pendingCount > 0
+                  ? `${pendingCount} change${pendingCount === 1 ? "" : "s"} pending · Sync now`
+                  : "Offline copy · Refresh"}
+              </Badge>
+            </button>
+          ) : (
           <Badge
             variant="outline"
             className={isConnected ? "border-green-500 text-green-600" : "border-gray-400 text-gray-500"}
@@ -642,6 +1284,82 @@ export default function SessionDetailPage() {
               </>
             )}
           </Badge>
+          )}
+          {pendingUploadCount > 0 && (
+            <Popover>
+              <PopoverTrigger asChild>
+                <button type="button">
+                  <Badge variant="outline" className="border-orange-400 bg-orange-50 text-orange-700">
+                    <Paperclip className="h-3 w-3 mr-1" />
+                    {pendingUploadCount} file{pendingUploadCount === 1 ? "" : "s"} · {uploadPercent}%
+                  </Badge>
+                </button>
+              </PopoverTrigger>
+              <PopoverContent align="start" className="w-72">
+                <p className="text-sm font-medium mb-3">Evidence waiting to upload</p>
+                <PendingUploadsList uploads={sessionUploads} />
+              </PopoverContent>
+            </Popover>
+          )}
+          {conflicts.length > 0 && (
+            <button type="button" onClick={() => setReviewingConflictId(conflicts[0].id)}>
+              <Badge variant="outline" className="border-amber-400 bg-amber-50 text-amber-700">
+                <AlertTriangle className="h-3 w-3 mr-1" />
+                {conflicts.length} conflict{conflicts.length === 1 ? "" : "s"} · Review
+              </Badge>
+            </button>
+          )}
+          {online && (votingRound?.status === "open" || isFacilitator) && (
+            <button type="button" onClick={() => setIsVotingPanelOpen(true)}>
+              <Badge
+                variant="outline"
+                className={
+                  votingRound?.status === "open" ? "border-violet-400 bg-violet-50 text-violet-700" : undefined
+                }
+              >
+                <Vote className="h-3 w-3 mr-1" />
+                {votingRound?.status === "open" ? `Voting · ${remainingVotes} left` : "Voting"}
+              </Badge>
+            </button>
+          )}
+          {currentPhase &&
+            (isFacilitator ? (
+              <button type="button" onClick={() => setIsAgendaPanelOpen(true)}>
+                <PhaseCountdownBadge phase={currentPhase} />
+              </button>
+            ) : (
+              <PhaseCountdownBadge phase={currentPhase} />
+            ))}
+          {online && isFacilitator && !currentPhase && session.status === "active" && (
+            <button type="button" onClick={() => setIsAgendaPanelOpen(true)}>
+              <Badge variant="outline">
+                <ListOrdered className="h-3 w-3 mr-1" />
+                Agenda
+              </Badge>
+            </button>
+          )}
+          {online && isFacilitator && session.status === "active" && (
+            <button type="button" onClick={() => setIsGuestPanelOpen(true)}>
+              <Badge variant="outline">
+                <UserPlus className="h-3 w-3 mr-1" />
+                Guests
+              </Badge>
+            </button>
+          )}
+          {session.anonymous_observations && (
+            <Badge variant="outline" title="Only admins can see who recorded each observation">
+              <EyeOff className="h-3 w-3 mr-1" />
+              Anonymous
+            </Badge>
+          )}
+          {online && isFacilitator && session.status === "active" && (
+            <button type="button" onClick={() => setIsCoveragePanelOpen(true)}>
+              <Badge variant="outline">
+                <Radar className="h-3 w-3 mr-1" />
+                Coverage
+              </Badge>
+            </button>
+          )}
           {session.started_at && (
           <span className="text-xs sm:text-sm text-muted-foreground hidden sm:flex items-center gap-1">
             <Clock className="h-4 w-4" />
@@ -678,7 +1396,9 @@ export default function SessionDetailPage() {
               workflowId={`session-${session.id}`}
               steps={steps}
               connections={connections}
+              lanes={lanes.map((l) => l.name)}
               observations={stepObsStats}
+              edgeObservations={edgeObsStats}
             selectedStepId={selectedStepId}
             onStepClick={handleStepClick}
             showHeatmap={showHeatmap}
@@ -686,6 +1406,7 @@ export default function SessionDetailPage() {
             informationFlows={informationFlows}
             onSelectFlow={handleSelectFlow}
             onEdgeClickForNewFlow={handleEdgeClickForNewFlow}
+            onTagEdge={handleTagEdge}
           />
           ) : (
             <div className="flex items-center justify-center h-full text-muted-foreground">
@@ -914,14 +1635,21 @@ export default function SessionDetailPage() {
       {/* Waste Tagging Panel */}
       <WasteTaggingPanel
         step={selectedStep}
+        handoff={
+          taggingHandoff
+            ? { label: taggingHandoff.label, kind: taggingHandoff.type === "flow" ? "Flow" : "Handoff" }
+            : null
+        }
         wasteTypes={wasteTypes}
         isOpen={isTaggingPanelOpen}
         onClose={() => {
           setIsTaggingPanelOpen(false);
           setSelectedStepId(null);
+          setTaggingHandoff(null);
         }}
         onSubmit={handleSubmitObservation}
         isSubmitting={isSavingObservation}
+        scoringModel={scoringModel}
       />
 
       {/* Observation Edit Panel */}
@@ -938,6 +1666,78 @@ export default function SessionDetailPage() {
         isSaving={isUpdatingObservation}
         isDeleting={isDeletingObservation}
         currentUserId={currentUserId}
+        scoringModel={scoringModel}
+      />
+
+      {/* Dot Voting */}
+      <VotingPanel
+        isOpen={isVotingPanelOpen}
+        onClose={() => setIsVotingPanelOpen(false)}
+        round={votingRound}
+        votes={votes}
+        steps={steps}
+        observations={observations}
+        currentUserId={currentUserId}
+        isFacilitator={isFacilitator}
+        onOpenRound={handleOpenVotingRound}
+        onCloseRound={handleCloseVotingRound}
+        onVote={handleVote}
+        onRetract={handleRetractVote}
+        isBusy={isVoting}
+      />
+
+      {/* Facilitator Coverage */}
+      {isFacilitator && (
+        <CoveragePanel
+          isOpen={isCoveragePanelOpen}
+          onClose={() => setIsCoveragePanelOpen(false)}
+          steps={steps}
+          observations={observations}
+          participants={participants}
+          facilitatorId={currentUserId}
+          onNudge={handleSendNudge}
+          isSending={isSendingNudge}
+          anonymous={!showObservers}
+        />
+      )}
+
+      {/* Facilitator Guest Access */}
+      {isFacilitator && (
+        <GuestAccessPanel
+          isOpen={isGuestPanelOpen}
+          onClose={() => setIsGuestPanelOpen(false)}
+          anonymous={!!session.anonymous_observations}
+          onToggleAnonymous={handleToggleAnonymous}
+          links={guestLinks}
+          guests={guests}
+          onCreateLink={handleCreateGuestLink}
+          onRevokeLink={handleRevokeGuestLink}
+          onCopyLink={handleCopyGuestLink}
+          isBusy={isUpdatingGuests}
+        />
+      )}
+
+      {/* Facilitator Agenda */}
+      {isFacilitator && (
+        <AgendaPanel
+          isOpen={isAgendaPanelOpen}
+          onClose={() => setIsAgendaPanelOpen(false)}
+          phases={phases}
+          lanes={lanes.map((l) => l.name)}
+          onSave={handleSaveAgenda}
+          onStartPhase={handleStartPhase}
+          onEndAgenda={handleEndAgenda}
+          isBusy={isUpdatingAgenda}
+        />
+      )}
+
+      {/* Offline Conflict Review */}
+      <ObservationConflictDialog
+        mutation={reviewingConflict}
+        wasteTypes={wasteTypes}
+        stepName={conflictStepId ? getStepName(conflictStepId) : undefined}
+        onResolve={handleResolveConflict}
+        onCancel={() => setReviewingConflictId(null)}
       />
 
       {/* Flow Detail Panel */}
@@ -955,6 +1755,7 @@ export default function SessionDetailPage() {
           onDelete={handleDeleteFlow}
           wasteTypes={wasteTypes}
           observations={observations}
+          onTagWaste={session.status === "active" ? handleTagFlow : undefined}
           sourceStepName={
             flowPanelMode === "create" && newFlowEdge
               ? getStepName(newFlowEdge.sourceStepId)
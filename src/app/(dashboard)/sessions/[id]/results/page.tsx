@@ -16,6 +16,7 @@ import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
+import { RaterAgreementCard } from "@/components/waste/RaterAgreementCard";
 import {
   PieChart,
   Pie,
@@ -39,6 +40,8 @@ import {
   Users,
   AlertTriangle,
   Loader2,
+  Vote,
+  ListOrdered,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { differenceInMinutes } from "date-fns";
@@ -46,11 +49,30 @@ import { getSessionById } from "@/lib/services/sessions";
 import {
   getWasteDistribution,
   getWasteByLane,
+  getTopHotspots,
+  getSessionScoringModel,
 } from "@/lib/services/analytics";
-import { getSessionObservationSummary } from "@/lib/services/observations";
+import {
+  DEFAULT_SCORING_MODEL,
+  describeScoringModel,
+  type ScoringModelDefinition,
+} from "@/lib/services/scoringModel";
+import { getObservationsBySession, getSessionObservationSummary } from "@/lib/services/observations";
+import { getProcessSteps } from "@/lib/services/workflows";
+import { getCurrentUser } from "@/lib/services/users";
+import { analyzeRaterAgreement, type AgreementGroup } from "@/lib/services/raterAgreement";
+import { canSeeObservers, hideRaters } from "@/lib/services/observerPrivacy";
+import { getSessionPhases } from "@/lib/services/agenda";
+import { summarizePhaseTimes, type AgendaTimeSummary } from "@/lib/services/sessionAgenda";
+import {
+  getScoreCalibrations,
+  recordConsensusScore,
+  requestCalibration,
+  type ConsensusScores,
+} from "@/lib/services/scoreCalibrations";
 import { exportToPDF, exportToPPTX, exportToCSV } from "@/lib/services/export";
-import type { Session } from "@/types";
-import type { WasteDistribution, LaneStats } from "@/lib/services/analytics";
+import type { ScoreCalibration, Session } from "@/types";
+import type { WasteDistribution, LaneStats, TopHotspot } from "@/lib/services/analytics";
 
 export default function SessionResultsPage() {
   const params = useParams();
@@ -61,6 +83,13 @@ export default function SessionResultsPage() {
   const [session, setSession] = useState<Session | null>(null);
   const [wasteDistribution, setWasteDistribution] = useState<WasteDistribution[]>([]);
   const [laneStats, setLaneStats] = useState<LaneStats[]>([]);
+  const [votedSteps, setVotedSteps] = useState<TopHotspot[]>([]);
+  const [agreementGroups, setAgreementGroups] = useState<AgreementGroup[]>([]);
+  const [calibrations, setCalibrations] = useState<ScoreCalibration[]>([]);
+  const [stepNames, setStepNames] = useState<Record<string, string>>({});
+  const [isFacilitator, setIsFacilitator] = useState(false);
+  const [scoringModel, setScoringModel] = useState<ScoringModelDefinition | null>(null);
+  const [agendaTimes, setAgendaTimes] = useState<AgendaTimeSummary | null>(null);
   const [summary, setSummary] = useState<{
     totalCount: number;
     avgPriority: number;
@@ -83,16 +112,52 @@ export default function SessionResultsPage() {
       try {
         setIsLoading(true);
 
-        const [sessionData, distribution, lanes, observations] = await Promise.all([
+        const [
+          sessionData,
+          distribution,
+          lanes,
+          observations,
+          hotspots,
+          sessionObservations,
+          sessionCalibrations,
+          currentUser,
+          sessionScoringModel,
+          phases,
+        ] = await Promise.all([
           getSessionById(sessionId),
-          getWasteDistribution(sessionId),
-          getWasteByLane(sessionId),
+          getWasteDistribution({ sessionIds: [sessionId] }),
+          getWasteByLane({ sessionIds: [sessionId] }),
           getSessionObservationSummary(sessionId),
+          getTopHotspots({ sessionIds: [sessionId] }, 100),
+          getObservationsBySession(sessionId),
+          getScoreCalibrations(sessionId),
+          getCurrentUser(),
+          getSessionScoringModel(sessionId),
+          getSessionPhases(sessionId),
         ]);
+        const steps = await getProcessSteps(sessionData.process_id);
 
         setSession(sessionData);
         setWasteDistribution(distribution);
         setLaneStats(lanes);
+        setVotedSteps(
+          hotspots
+            .filter((h) => h.votes > 0)
+            .sort((a, b) => b.votes - a.votes)
+            .slice(0, 5)
+        );
+        const groups = analyzeRaterAgreement(sessionObservations, sessionScoringModel);
+        setAgreementGroups(canSeeObservers(sessionData, currentUser?.role) ? groups : hideRaters(groups));
+        setCalibrations(sessionCalibrations);
+        setScoringModel(sessionScoringModel);
+        setAgendaTimes(phases.length > 0 ? summarizePhaseTimes(phases) : null);
+        setStepNames(Object.fromEntries(steps.map((step) => [step.id, step.step_name])));
+        setIsFacilitator(
+          !!currentUser &&
+            (sessionData.facilitator_id === currentUser.id ||
+              currentUser.role === "admin" ||
+              currentUser.role === "facilitator")
+        );
         setSummary({
           totalCount: observations.totalCount,
           avgPriority: observations.avgPriority,
@@ -157,6 +222,39 @@ export default function SessionResultsPage() {
     }
   };
 
+  const saveCalibration = (calibration: ScoreCalibration) => {
+    setCalibrations((prev) => [...prev.filter((c) => c.id !== calibration.id), calibration]);
+  };
+
+  const handleRequestCalibration = async (group: AgreementGroup) => {
+    try {
+      const calibration = await requestCalibration(
+        { sessionId, stepId: group.stepId, wasteTypeId: group.wasteType.id },
+        `${group.wasteType.name} at "${stepNames[group.stepId] || "a step"}"`
+      );
+      saveCalibration(calibration);
+      toast({ title: "Calibration requested", description: "Participants have been notified." });
+    } catch (error) {
+      console.error("Failed to request calibration:", error);
+      toast({ variant: "destructive", title: "Error", description: "Failed to request calibration." });
+    }
+  };
+
+  const handleRecordConsensus = async (group: AgreementGroup, consensus: ConsensusScores) => {
+    try {
+      const calibration = await recordConsensusScore(
+        { sessionId, stepId: group.stepId, wasteTypeId: group.wasteType.id },
+        consensus,
+        scoringModel ?? DEFAULT_SCORING_MODEL
+      );
+      saveCalibration(calibration);
+      toast({ title: "Consensus score recorded" });
+    } catch (error) {
+      console.error("Failed to record consensus score:", error);
+      toast({ variant: "destructive", title: "Error", description: "Failed to record consensus score." });
+    }
+  };
+
   const toggleSection = (section: keyof typeof exportSections) => {
     setExportSections({
       ...exportSections,
@@ -246,6 +344,12 @@ export default function SessionResultsPage() {
                 <p className="text-xl font-bold">
                   {summary?.avgPriority?.toFixed(1) || 0}
                 </p>
+                {scoringModel && (
+                  <p className="text-xs text-muted-foreground mt-1" title={describeScoringModel(scoringModel)}>
+                    {scoringModel.name}
+                    {scoringModel.version ? ` v${scoringModel.version}` : ""}
+                  </p>
+                )}
               </div>
               <div className="p-3 rounded-lg bg-muted/50">
                 <div className="flex items-center gap-2 text-muted-foreground text-sm mb-1">
@@ -350,6 +454,102 @@ export default function SessionResultsPage() {
           </Card>
         </div>
 
+        {/* Agenda */}
+        {agendaTimes && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ListOrdered className="h-5 w-5" />
+                Agenda
+              </CardTitle>
+              <CardDescription>
+                {agendaTimes.actualMinutes} of {agendaTimes.plannedMinutes} planned minutes spent across the phases
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2">
+                {agendaTimes.phases.map((phase) => (
+                  <div
+                    key={phase.phaseId}
+                    className="flex items-center justify-between p-3 rounded-lg bg-muted/50"
+                  >
+                    <div>
+                      <p className="font-medium">{phase.name}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {phase.actualMinutes === null
+                          ? `Planned ${phase.plannedMinutes}m · not run`
+                          : `Planned ${phase.plannedMinutes}m · actual ${phase.actualMinutes}m${phase.isRunning ? " so far" : ""}`}
+                      </p>
+                    </div>
+                    {phase.varianceMinutes !== null && (
+                      <Badge
+                        variant="outline"
+                        className={
+                          phase.varianceMinutes > 0
+                            ? "border-amber-400 bg-amber-50 text-amber-700"
+                            : "border-green-500 text-green-600"
+                        }
+                      >
+                        {phase.varianceMinutes > 0
+                          ? `${phase.varianceMinutes}m over`
+                          : phase.varianceMinutes < 0
+                          ? `${-phase.varianceMinutes}m under`
+                          : "On time"}
+                      </Badge>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Scoring Agreement */}
+        <RaterAgreementCard
+          groups={agreementGroups}
+          calibrations={calibrations}
+          scoringModel={scoringModel ?? DEFAULT_SCORING_MODEL}
+          stepNames={stepNames}
+          isFacilitator={isFacilitator}
+          onRequestCalibration={handleRequestCalibration}
+          onRecordConsensus={handleRecordConsensus}
+        />
+
+        {/* Team Votes */}
+        {votedSteps.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Vote className="h-5 w-5" />
+                Team Votes
+              </CardTitle>
+              <CardDescription>
+                Steps the team prioritized in the latest voting round
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2">
+                {votedSteps.map((step) => (
+                  <div
+                    key={step.step_id}
+                    className="flex items-center justify-between p-3 rounded-lg bg-muted/50"
+                  >
+                    <div>
+                      <p className="font-medium">{step.step_name}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {step.lane} · Priority {step.priority_score}
+                      </p>
+                    </div>
+                    <Badge variant="secondary">
+                      {step.votes} {step.votes === 1 ? "vote" : "votes"}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Export Section */}
         <Card>
           <CardHeader>
@@ -9,6 +9,7 @@ import { z } from "zod";
 import { Header } from "@/components/layout/Header";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
 import {
   Card,
   CardContent,
@@ -41,6 +42,7 @@ import type { Process } from "@/types";
 const sessionSchema = z.object({
   name: z.string().min(3, "Session name must be at least 3 characters"),
   workflowId: z.string().min(1, "Please select a workflow"),
+  includeSubprocesses: z.boolean(),
 });
 
 type SessionFormData = z.infer<typeof sessionSchema>;
@@ -60,6 +62,7 @@ export default function NewSessionPage() {
     defaultValues: {
       name: "",
       workflowId: preselectedWorkflow || "",
+      includeSubprocesses: false,
     },
   });
 
@@ -93,6 +96,7 @@ export default function NewSessionPage() {
       const session = await createSession({
         name: data.name,
         process_id: data.workflowId,
+        include_subprocesses: data.includeSubprocesses,
       });
 
       // Start the session immediately
@@ -216,6 +220,24 @@ export default function NewSessionPage() {
                     )}
                   />
 
+                  <FormField
+                    control={form.control}
+                    name="includeSubprocesses"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between gap-4 rounded-lg border p-4">
+                        <div className="space-y-1">
+                          <FormLabel>Include Subprocesses</FormLabel>
+                          <FormDescription>
+                            Walk the steps of linked subprocess workflows alongside this one
+                          </FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch checked={field.value} onCheckedChange={field.onChange} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+
                   {selectedWorkflow && (
                     <div className="p-4 rounded-lg bg-brand-platinum/50 border">
                       <h4 className="font-medium mb-2">Selected Workflow</h4>
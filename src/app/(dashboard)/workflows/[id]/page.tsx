@@ -50,11 +50,18 @@ import {
   Trash2,
   Undo2,
   Copy,
+  Activity,
+  Route,
+  X,
+  ChevronRight,
+  GitBranch,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useUndoRedo } from "@/hooks/useUndoRedo";
-import { getWorkflowWithDetails, updateProcess } from "@/lib/services/workflows";
+import { getProcesses, getWorkflowWithDetails, updateProcess } from "@/lib/services/workflows";
 import { exportWorkflowToPDF } from "@/lib/services/export";
+import { exportWorkflowToBPMN } from "@/lib/services/bpmnExport";
+import { exportWorkflowToJSON } from "@/lib/services/workflowExport";
 import type { ReactFlowInstance } from "reactflow";
 import {
   createStep,
@@ -62,6 +69,7 @@ import {
   deleteStep,
   createConnection,
   deleteConnection,
+  updateConnectionProbability,
   createLane,
   deleteLane,
   deleteLaneMoveSteps,
@@ -70,6 +78,7 @@ import {
   renameLane,
   reorderLanes,
   updateLaneColor,
+  updateLaneCapacity,
   deleteProcess,
   updateStepPositions,
 } from "@/lib/services/workflowEditor";
@@ -85,6 +94,20 @@ import {
   ContextTriggerButton,
 } from "@/components/workflow/WorkflowContextDrawer";
 import { CopyWorkflowDialog } from "@/components/workflow/CopyWorkflowDialog";
+import { ConformanceDialog } from "@/components/workflow/ConformanceDialog";
+import { DepartmentPicker } from "@/components/workflow/DepartmentPicker";
+import type { ConformanceOverlay } from "@/lib/services/conformance";
+import { analyzeProcessTiming, formatDuration } from "@/lib/services/processTiming";
+import { lintWorkflow } from "@/lib/services/workflowLint";
+import { LintDiagnosticsPanel } from "@/components/workflow/LintDiagnosticsPanel";
+import {
+  getProcessTrail,
+  getSubprocessAncestorIds,
+  getSubprocessReferences,
+  loadSubprocessRollups,
+  rollUpSubprocessTiming,
+  type SubprocessRollup,
+} from "@/lib/services/subprocesses";
 import { useAuthStore } from "@/lib/stores/authStore";
 import { canEditWorkflow, getSourceWorkflowName, getSourceFutureStateName } from "@/lib/services/workflowCopy";
 import { useSearchParams } from "next/navigation";
@@ -93,6 +116,7 @@ interface ConnectionData {
   id?: string;
   source: string;
   target: string;
+  probability?: number | null;
 }
 
 interface WorkflowSnapshot {
@@ -133,6 +157,9 @@ export default function WorkflowDetailPage() {
   const [selectedStepId, setSelectedStepId] = useState<string | null>(null);
   const [selectedStepIds, setSelectedStepIds] = useState<string[]>([]);
   const [showHeatmap, setShowHeatmap] = useState(false);
+  const [isConformanceOpen, setIsConformanceOpen] = useState(false);
+  const [conformanceOverlay, setConformanceOverlay] = useState<ConformanceOverlay | null>(null);
+  const [showCriticalPath, setShowCriticalPath] = useState(false);
   const [isPanelOpen, setIsPanelOpen] = useState(false);
 
   // Edit mode state
@@ -147,7 +174,10 @@ export default function WorkflowDetailPage() {
     lane: "Requester",
     lead_time_minutes: "" as string,
     cycle_time_minutes: "" as string,
+    subprocess_process_id: "" as string,
   });
+  // Branch probabilities (percent) for the edited step's outgoing connections, keyed by target step
+  const [branchForm, setBranchForm] = useState<Record<string, string>>({});
   const [isSaving, setIsSaving] = useState(false);
   const [lanes, setLanes] = useState<ProcessLane[]>([]);
   const [isSwimlaneManagerOpen, setIsSwimlaneManagerOpen] = useState(false);
@@ -164,6 +194,13 @@ export default function WorkflowDetailPage() {
   const [newFlowEdge, setNewFlowEdge] = useState<{ sourceStepId: string; targetStepId: string } | null>(null);
   const [wasteTypes, setWasteTypes] = useState<WasteType[]>([]);
 
+  // Subprocess drill-down: child roll-ups, linkable workflows and the breadcrumb trail
+  const [subprocessRollups, setSubprocessRollups] = useState<Record<string, SubprocessRollup>>({});
+  const [linkableWorkflows, setLinkableWorkflows] = useState<Process[]>([]);
+  const trailParam = searchParams.get("trail");
+  const trailIds = useMemo(() => (trailParam ? trailParam.split(",").filter(Boolean) : []), [trailParam]);
+  const [trail, setTrail] = useState<Pick<Process, "id" | "name">[]>([]);
+
   // Lineage display state (AC-4.2)
   const [sourceWorkflowName, setSourceWorkflowName] = useState<string | null>(null);
 
@@ -226,6 +263,69 @@ export default function WorkflowDetailPage() {
   } = useUndoRedo<WorkflowSnapshot>({ limit: 50 });
   const currentSnapshot = useMemo<WorkflowSnapshot>(() => ({ steps, connections }), [steps, connections]);
 
+  const timing = useMemo(
+    () =>
+      analyzeProcessTiming({
+        steps: rollUpSubprocessTiming(steps, subprocessRollups),
+        connections: connections.map((c) => ({
+          source_step_id: c.source,
+          target_step_id: c.target,
+          branch_probability: c.probability,
+        })),
+      }),
+    [steps, connections, subprocessRollups]
+  );
+
+  // Reload child roll-ups only when the set of links changes, not on every edit
+  const subprocessLinkKey = steps
+    .filter((s) => s.subprocess_process_id)
+    .map((s) => `${s.id}:${s.subprocess_process_id}`)
+    .join(",");
+  useEffect(() => {
+    if (!subprocessLinkKey) {
+      setSubprocessRollups({});
+      return;
+    }
+    loadSubprocessRollups(steps)
+      .then(setSubprocessRollups)
+      .catch((error) => console.error("Failed to load subprocess roll-ups:", error));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [subprocessLinkKey]);
+
+  useEffect(() => {
+    getProcessTrail(trailIds)
+      .then(setTrail)
+      .catch((error) => console.error("Failed to load breadcrumb trail:", error));
+  }, [trailIds]);
+
+  // Workflows a subprocess step may link to: not this one, nor any that already contain it
+  useEffect(() => {
+    if (!isEditMode || !workflow) return;
+    Promise.all([getProcesses(), getSubprocessAncestorIds(workflow.id)])
+      .then(([processes, ancestorIds]) => {
+        const excluded = new Set([workflow.id, ...ancestorIds]);
+        setLinkableWorkflows(processes.filter((p) => !excluded.has(p.id)));
+      })
+      .catch((error) => console.error("Failed to load linkable workflows:", error));
+  }, [isEditMode, workflow]);
+
+  const handleOpenSubprocess = useCallback(
+    (processId: string) => {
+      if (!workflow) return;
+      router.push(`/workflows/${processId}?trail=${[...trailIds, workflow.id].join(",")}`);
+    },
+    [router, trailIds, workflow]
+  );
+
+  const lint = useMemo(
+    () =>
+      lintWorkflow({
+        steps,
+        connections: connections.map((c) => ({ source_step_id: c.source, target_step_id: c.target })),
+      }),
+    [steps, connections]
+  );
+
   const cloneSnapshot = useCallback((snap: WorkflowSnapshot): WorkflowSnapshot => {
     // Steps/connections are plain JSON-ish data from Supabase; JSON clone is fine and stable.
     return JSON.parse(JSON.stringify(snap)) as WorkflowSnapshot;
@@ -273,6 +373,21 @@ export default function WorkflowDetailPage() {
     }
   }, [workflow, toast]);
 
+  // Department tag for the portfolio roll-up
+  const handleSaveDepartment = useCallback(async (department: string | null) => {
+    if (!workflow) return;
+
+    try {
+      await updateProcess(workflow.id, { department });
+      setWorkflow((prev) => prev ? { ...prev, department } : null);
+      toast({ title: department ? `Department set to ${department}` : "Department cleared" });
+    } catch (error) {
+      console.error("Failed to update department:", error);
+      toast({ variant: "destructive", title: "Error", description: "Failed to update department." });
+      throw error;
+    }
+  }, [workflow, toast]);
+
   // Fetch workflow data
   useEffect(() => {
     const loadWorkflow = async () => {
@@ -303,6 +418,7 @@ export default function WorkflowDetailPage() {
             id: c.id,
             source: c.source_step_id,
             target: c.target_step_id,
+            probability: c.branch_probability ?? null,
           }))
         );
 
@@ -400,7 +516,15 @@ export default function WorkflowDetailPage() {
             lane: step.lane,
             lead_time_minutes: step.lead_time_minutes != null ? String(step.lead_time_minutes) : "",
             cycle_time_minutes: step.cycle_time_minutes != null ? String(step.cycle_time_minutes) : "",
+            subprocess_process_id: step.subprocess_process_id ?? "",
           });
+          setBranchForm(
+            Object.fromEntries(
+              connections
+                .filter((c) => c.source === stepId)
+                .map((c) => [c.target, c.probability != null ? String(Math.round(c.probability * 100)) : ""])
+            )
+          );
           setIsEditStepDialogOpen(true);
         }
       } else {
@@ -409,7 +533,7 @@ export default function WorkflowDetailPage() {
     setIsPanelOpen(true);
       }
     },
-    [isEditMode, steps]
+    [isEditMode, steps, connections]
   );
 
   const handleSelectStep = useCallback((stepId: string | null) => {
@@ -619,6 +743,25 @@ export default function WorkflowDetailPage() {
     [workflow, isSaving, toast]
   );
 
+  const handleUpdateLaneCapacity = useCallback(
+    async (laneId: string, capacity: number) => {
+      if (!workflow) return;
+      if (isSaving) return;
+
+      setIsSaving(true);
+      try {
+        const updated = await updateLaneCapacity(workflow.id, laneId, capacity);
+        setLanes((prev) => prev.map((l) => (l.id === updated.id ? updated : l)));
+      } catch (error) {
+        console.error("Failed to update lane capacity:", error);
+        toast({ variant: "destructive", title: "Error", description: "Failed to update lane capacity." });
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [workflow, isSaving, toast]
+  );
+
   const handleClosePanel = useCallback(() => {
     setIsPanelOpen(false);
     setSelectedStepId(null);
@@ -662,6 +805,7 @@ export default function WorkflowDetailPage() {
               cycle_time_minutes: target.cycle_time_minutes ?? null,
               position_x: target.position_x,
               position_y: target.position_y,
+              subprocess_process_id: target.subprocess_process_id ?? null,
             });
           } else {
             await updateStep(id, {
@@ -674,6 +818,7 @@ export default function WorkflowDetailPage() {
               cycle_time_minutes: target.cycle_time_minutes ?? null,
               position_x: target.position_x,
               position_y: target.position_y,
+              subprocess_process_id: target.subprocess_process_id ?? null,
             });
           }
         }
@@ -706,6 +851,15 @@ export default function WorkflowDetailPage() {
           await createConnection(workflow.id, c.source, c.target, undefined, c.id);
         }
 
+        // 5b) Restore branch probabilities that differ from the current state
+        const currentProbabilities = new Map(connections.map((c) => [c.id, c.probability ?? null]));
+        for (const c of normalizedTargetConnections) {
+          const probability = c.probability ?? null;
+          if (currentProbabilities.get(c.id) === probability) continue;
+          if (!currentConnIds.has(c.id!) && probability === null) continue;
+          await updateConnectionProbability(c.id!, probability);
+        }
+
         // 6) Apply state
         setSteps(snap.steps);
         setConnections(normalizedTargetConnections);
@@ -918,6 +1072,8 @@ export default function WorkflowDetailPage() {
         lead_time_minutes: leadTime,
         cycle_time_minutes: cycleTime,
         order_index: steps.length,
+        subprocess_process_id:
+          stepForm.type === "subprocess" ? stepForm.subprocess_process_id || null : null,
       });
 
       setSteps([...steps, newStep]);
@@ -972,6 +1128,20 @@ export default function WorkflowDetailPage() {
         return;
       }
 
+      const branchProbabilities = new Map<string, number | null>();
+      for (const [target, value] of Object.entries(branchForm)) {
+        const percent = value.trim() === "" ? null : Number(value);
+        if (percent != null && (!Number.isFinite(percent) || percent < 0 || percent > 100)) {
+          toast({
+            variant: "destructive",
+            title: "Invalid branch probability",
+            description: "Branch probabilities must be percentages between 0 and 100.",
+          });
+          return;
+        }
+        branchProbabilities.set(target, percent == null ? null : percent / 100);
+      }
+
       const updated = await updateStep(editingStep.id, {
         name: stepForm.name.trim(),
         description: stepForm.description.trim() || undefined,
@@ -979,8 +1149,32 @@ export default function WorkflowDetailPage() {
         lane: stepForm.lane,
         lead_time_minutes: leadTime,
         cycle_time_minutes: cycleTime,
+        subprocess_process_id:
+          stepForm.type === "subprocess" ? stepForm.subprocess_process_id || null : null,
       });
 
+      const changedConnections = connections.filter(
+        (c) =>
+          c.id &&
+          c.source === editingStep.id &&
+          branchProbabilities.has(c.target) &&
+          branchProbabilities.get(c.target) !== (c.probability ?? null)
+      );
+      await Promise.all(
+        changedConnections.map((c) =>
+          updateConnectionProbability(c.id!, branchProbabilities.get(c.target) ?? null)
+        )
+      );
+      if (changedConnections.length > 0) {
+        setConnections((prev) =>
+          prev.map((c) =>
+            c.source === editingStep.id && branchProbabilities.has(c.target)
+              ? { ...c, probability: branchProbabilities.get(c.target) ?? null }
+              : c
+          )
+        );
+      }
+
       setSteps(steps.map((s) => (s.id === updated.id ? updated : s)));
       setIsEditStepDialogOpen(false);
       setEditingStep(null);
@@ -1141,7 +1335,13 @@ export default function WorkflowDetailPage() {
   const handleDeleteWorkflow = async () => {
     if (!workflow) return;
     
-    if (!confirm("Are you sure you want to delete this workflow? This cannot be undone.")) {
+    const references = await getSubprocessReferences(workflow.id).catch(() => []);
+    const usedBy = Array.from(new Set(references.map((r) => r.processName)));
+    const message =
+      usedBy.length > 0
+        ? `This workflow is linked as a subprocess in ${usedBy.join(", ")}. Those steps will be unlinked. Delete it anyway? This cannot be undone.`
+        : "Are you sure you want to delete this workflow? This cannot be undone.";
+    if (!confirm(message)) {
       return;
     }
 
@@ -1191,22 +1391,11 @@ export default function WorkflowDetailPage() {
     return s;
   }
 
-  const handleExportJson = useCallback(() => {
+  const handleExportJson = useCallback(async () => {
     if (!workflow) return;
 
     try {
-      const safeName = sanitizeFilenamePart(workflow.name || "workflow") || "workflow";
-      const payload = {
-        exportedAt: new Date().toISOString(),
-        workflow,
-        steps,
-        connections,
-      };
-      downloadTextFile(
-        `${safeName}.json`,
-        JSON.stringify(payload, null, 2),
-        "application/json;charset=utf-8"
-      );
+      await exportWorkflowToJSON(workflow.id);
       toast({ title: "Export started", description: "Downloaded workflow JSON." });
     } catch (error) {
       console.error("Failed to export JSON:", error);
@@ -1216,7 +1405,7 @@ export default function WorkflowDetailPage() {
         description: "Could not export workflow as JSON.",
       });
     }
-  }, [workflow, steps, connections, toast]);
+  }, [workflow, toast]);
 
   const handleExportStepsCsv = useCallback(() => {
     if (!workflow) return;
@@ -1319,6 +1508,51 @@ export default function WorkflowDetailPage() {
     }
   }, [workflow, steps, connections, toast]);
 
+  const handleExportBpmn = useCallback(async () => {
+    if (!workflow) return;
+
+    try {
+      await exportWorkflowToBPMN(workflow.id);
+      toast({ title: "Export started", description: "Downloaded workflow BPMN." });
+    } catch (error) {
+      console.error("Failed to export BPMN:", error);
+      toast({
+        variant: "destructive",
+        title: "Export failed",
+        description: "Could not export workflow as BPMN.",
+      });
+    }
+  }, [workflow, toast]);
+
+  const renderSubprocessField = () =>
+    stepForm.type === "subprocess" && (
+      <div className="space-y-2">
+        <Label>Linked Workflow</Label>
+        <Select
+          value={stepForm.subprocess_process_id || "__none__"}
+          onValueChange={(value) =>
+            setStepForm({ ...stepForm, subprocess_process_id: value === "__none__" ? "" : value })
+          }
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="__none__">Not linked</SelectItem>
+            {linkableWorkflows.map((w) => (
+              <SelectItem key={w.id} value={w.id}>
+                {w.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          Drill into this workflow from the map. Its lead time, cycle time and observations roll up into
+          this step.
+        </p>
+      </div>
+    );
+
   const resetStepForm = () => {
     setStepForm({
       name: "",
@@ -1327,6 +1561,7 @@ export default function WorkflowDetailPage() {
       lane: laneNames[0] || "Requester",
       lead_time_minutes: "",
       cycle_time_minutes: "",
+      subprocess_process_id: "",
     });
   };
 
@@ -1517,6 +1752,7 @@ export default function WorkflowDetailPage() {
               </>
             ) : (
               <>
+                <DepartmentPicker value={workflow.department} onSave={handleSaveDepartment} />
                 <Button
                   variant="outline"
                   size="sm"
@@ -1575,6 +1811,10 @@ export default function WorkflowDetailPage() {
                     Copy workflow
                   </DropdownMenuItem>
                 )}
+                <DropdownMenuItem onClick={() => setIsConformanceOpen(true)}>
+                  <Activity className="mr-2 h-4 w-4" />
+                  Check Conformance
+                </DropdownMenuItem>
                 <DropdownMenuItem>
                   <Share2 className="mr-2 h-4 w-4" />
                   Share
@@ -1591,6 +1831,9 @@ export default function WorkflowDetailPage() {
                     <DropdownMenuItem onSelect={handleExportPdf}>
                       Download PDF
                     </DropdownMenuItem>
+                    <DropdownMenuItem onSelect={handleExportBpmn}>
+                      Download BPMN
+                    </DropdownMenuItem>
                     <DropdownMenuItem onSelect={handleExportStepsCsv}>
                       Download Steps CSV
                     </DropdownMenuItem>
@@ -1613,6 +1856,29 @@ export default function WorkflowDetailPage() {
         }
       />
 
+      {/* Subprocess breadcrumb: the parent workflows drilled down through to get here */}
+      {trail.length > 0 && (
+        <nav className="px-6 py-2 border-b flex items-center gap-1 text-sm text-muted-foreground">
+          <GitBranch className="mr-1 h-4 w-4" />
+          {trail.map((crumb, idx) => (
+            <span key={crumb.id} className="flex items-center gap-1">
+              <Link
+                href={
+                  idx > 0
+                    ? `/workflows/${crumb.id}?trail=${trailIds.slice(0, idx).join(",")}`
+                    : `/workflows/${crumb.id}`
+                }
+                className="hover:text-foreground hover:underline"
+              >
+                {crumb.name}
+              </Link>
+              <ChevronRight className="h-3 w-3" />
+            </span>
+          ))}
+          <span className="font-medium text-foreground">{workflow.name}</span>
+        </nav>
+      )}
+
       {/* Stats Bar */}
       <div className="px-6 py-3 border-b bg-muted/30 flex items-center gap-4 flex-wrap">
         {isEditMode && (
@@ -1628,8 +1894,56 @@ export default function WorkflowDetailPage() {
             Copied from: {sourceWorkflowName}
           </Badge>
         )}
+        {conformanceOverlay && (
+          <Badge variant="outline" className="bg-red-50 border-red-300 text-red-700">
+            <Activity className="mr-1 h-3 w-3" />
+            Conformance overlay
+            <button
+              type="button"
+              className="ml-1"
+              aria-label="Clear conformance overlay"
+              onClick={() => setConformanceOverlay(null)}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        )}
         <Badge variant="secondary">{steps.length} Steps</Badge>
         <Badge variant="secondary">{lanes.length} Swimlanes</Badge>
+        {steps.length > 0 && <LintDiagnosticsPanel result={lint} onSelectStep={handleSelectStep} />}
+        {timing.leadTimeMinutes > 0 && (
+          <>
+            <Badge
+              variant="secondary"
+              title="Expected lead time per case, weighted by branch probabilities"
+            >
+              Lead {formatDuration(timing.leadTimeMinutes)}
+            </Badge>
+            <Badge variant="secondary" title="Expected touch (cycle) time per case">
+              Touch {formatDuration(timing.touchTimeMinutes)}
+            </Badge>
+            <Badge variant="secondary" title="Process Cycle Efficiency: touch time / lead time">
+              PCE {Math.round((timing.pce ?? 0) * 100)}%
+            </Badge>
+            <button
+              type="button"
+              onClick={() => setShowCriticalPath((prev) => !prev)}
+              aria-pressed={showCriticalPath}
+            >
+              <Badge
+                variant="outline"
+                className={
+                  showCriticalPath
+                    ? "border-brand-gold bg-brand-gold/15 text-brand-navy"
+                    : "hover:bg-muted"
+                }
+              >
+                <Route className="mr-1 h-3 w-3" />
+                Critical path {formatDuration(timing.criticalPath.leadTimeMinutes)}
+              </Badge>
+            </button>
+          </>
+        )}
         {Object.keys(observations).length > 0 && (
           <>
             <Badge
@@ -1706,6 +2020,11 @@ export default function WorkflowDetailPage() {
             informationFlows={informationFlows}
             onSelectFlow={handleSelectFlow}
             onEdgeClickForNewFlow={handleEdgeClickForNewFlow}
+            conformance={conformanceOverlay}
+            criticalPath={showCriticalPath ? timing.criticalPath : null}
+            diagnostics={lint.byStep}
+            subprocesses={subprocessRollups}
+            onOpenSubprocess={handleOpenSubprocess}
           />
 
           {steps.length === 0 && (
@@ -1768,6 +2087,7 @@ export default function WorkflowDetailPage() {
         onDelete={handleDeleteLane}
         onDeleteMoveSteps={handleDeleteLaneMoveSteps}
         onUpdateLaneColor={handleUpdateLaneColor}
+        onUpdateLaneCapacity={handleUpdateLaneCapacity}
       />
 
       {/* Step Detail Panel (View Mode) */}
@@ -1912,6 +2232,8 @@ export default function WorkflowDetailPage() {
               </div>
             </div>
 
+            {renderSubprocessField()}
+
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label>Lead Time (min)</Label>
@@ -2090,6 +2412,8 @@ export default function WorkflowDetailPage() {
               </div>
             </div>
 
+            {renderSubprocessField()}
+
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label>Lead Time (min)</Label>
@@ -2114,6 +2438,29 @@ export default function WorkflowDetailPage() {
                 />
               </div>
             </div>
+
+            {Object.keys(branchForm).length > 1 && (
+              <div className="space-y-2">
+                <Label>Branch Probabilities (%)</Label>
+                <p className="text-xs text-muted-foreground">
+                  Share of cases taking each path. Leave blank to split the remainder evenly.
+                </p>
+                {Object.entries(branchForm).map(([target, value]) => (
+                  <div key={target} className="flex items-center gap-2">
+                    <span className="flex-1 truncate text-sm">
+                      → {steps.find((s) => s.id === target)?.step_name ?? "Unknown step"}
+                    </span>
+                    <Input
+                      className="w-24"
+                      inputMode="numeric"
+                      placeholder="auto"
+                      value={value}
+                      onChange={(e) => setBranchForm({ ...branchForm, [target]: e.target.value })}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
           <DialogFooter className="flex justify-between">
             <Button
@@ -2185,6 +2532,16 @@ export default function WorkflowDetailPage() {
         workflowName={workflow?.name || "Workflow"}
       />
 
+      {/* Conformance check against an uploaded event log */}
+      <ConformanceDialog
+        open={isConformanceOpen}
+        onOpenChange={setIsConformanceOpen}
+        processId={params.id as string}
+        steps={steps}
+        connections={connections}
+        onShowOverlay={setConformanceOverlay}
+      />
+
       {/* Copy Workflow Dialog (AC-1.2) */}
       {workflow && (
         <CopyWorkflowDialog
@@ -26,6 +26,7 @@ export default function NewWorkflowPage() {
   const [form, setForm] = useState({
     name: "",
     description: "",
+    department: "",
   });
 
   const handleCreate = async () => {
@@ -43,6 +44,7 @@ export default function NewWorkflowPage() {
       const process = await createProcess({
         name: form.name.trim(),
         description: form.description.trim() || undefined,
+        department: form.department.trim() || undefined,
       });
 
       toast({
@@ -125,6 +127,20 @@ export default function NewWorkflowPage() {
                 </p>
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="department">Department</Label>
+                <Input
+                  id="department"
+                  placeholder="e.g., Finance"
+                  value={form.department}
+                  onChange={(e) => setForm({ ...form, department: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Optional: The department or business unit that owns this
+                  workflow, for the portfolio view
+                </p>
+              </div>
+
               <div className="bg-brand-platinum/50 rounded-lg p-4">
                 <h4 className="font-medium text-sm mb-2">What happens next?</h4>
                 <ul className="text-sm text-muted-foreground space-y-1">
@@ -46,6 +46,7 @@ import {
   List,
   ArrowUpDown,
   Copy,
+  Download,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import {
@@ -53,6 +54,8 @@ import {
   createProcess,
   deleteProcess,
 } from "@/lib/services/workflows";
+import { exportWorkflowToJSON } from "@/lib/services/workflowExport";
+import { getSubprocessReferences } from "@/lib/services/subprocesses";
 import { WorkflowImportDialog } from "@/components/workflow/WorkflowImportDialog";
 import { CopyWorkflowDialog } from "@/components/workflow/CopyWorkflowDialog";
 import type { Process } from "@/types";
@@ -95,7 +98,7 @@ export default function WorkflowsPage() {
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
-  const [newWorkflow, setNewWorkflow] = useState({ name: "", description: "" });
+  const [newWorkflow, setNewWorkflow] = useState({ name: "", description: "", department: "" });
 
   // Copy workflow dialog state (AC-1.1)
   const [isCopyDialogOpen, setIsCopyDialogOpen] = useState(false);
@@ -212,6 +215,7 @@ export default function WorkflowsPage() {
       const created = await createProcess({
         name: newWorkflow.name,
         description: newWorkflow.description,
+        department: newWorkflow.department.trim() || undefined,
       });
 
       // Add to list with empty stats
@@ -225,7 +229,7 @@ export default function WorkflowsPage() {
         ...workflows,
       ]);
 
-      setNewWorkflow({ name: "", description: "" });
+      setNewWorkflow({ name: "", description: "", department: "" });
       setIsCreateDialogOpen(false);
 
       toast({
@@ -244,8 +248,38 @@ export default function WorkflowsPage() {
     }
   };
 
+  const handleExportWorkflow = async (workflow: WorkflowWithStats) => {
+    try {
+      await exportWorkflowToJSON(workflow.id);
+      toast({
+        title: "Export started",
+        description: `Downloaded "${workflow.name}" as JSON.`,
+      });
+    } catch (error) {
+      console.error("Failed to export workflow:", error);
+      toast({
+        variant: "destructive",
+        title: "Export failed",
+        description: "Could not export workflow as JSON.",
+      });
+    }
+  };
+
   const handleDeleteWorkflow = async (id: string) => {
     try {
+      // Deleting a linked child unlinks the parent steps, so make that explicit
+      const references = await getSubprocessReferences(id);
+      if (references.length > 0) {
+        const usedBy = Array.from(new Set(references.map((r) => r.processName)));
+        if (
+          !confirm(
+            `This workflow is linked as a subprocess in ${usedBy.join(", ")}. Those steps will be unlinked. Delete it anyway?`
+          )
+        ) {
+          return;
+        }
+      }
+
       await deleteProcess(id);
       setWorkflows(workflows.filter((w) => w.id !== id));
       toast({
@@ -316,6 +350,17 @@ export default function WorkflowsPage() {
                     }
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="department">Department</Label>
+                  <Input
+                    id="department"
+                    placeholder="e.g., Finance"
+                    value={newWorkflow.department}
+                    onChange={(e) =>
+                      setNewWorkflow({ ...newWorkflow, department: e.target.value })
+                    }
+                  />
+                </div>
               </div>
               <DialogFooter>
                 <Button
@@ -518,6 +563,10 @@ export default function WorkflowsPage() {
                             <Copy className="mr-2 h-4 w-4" />
                             Copy workflow
                           </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => handleExportWorkflow(workflow)}>
+                            <Download className="mr-2 h-4 w-4" />
+                            Export JSON
+                          </DropdownMenuItem>
                           <DropdownMenuItem
                             className="text-destructive"
                             onClick={() => handleDeleteWorkflow(workflow.id)}
@@ -682,6 +731,10 @@ export default function WorkflowsPage() {
                                   <Copy className="mr-2 h-4 w-4" />
                                   Copy workflow
                                 </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => handleExportWorkflow(workflow)}>
+                                  <Download className="mr-2 h-4 w-4" />
+                                  Export JSON
+                                </DropdownMenuItem>
                                 <DropdownMenuItem
                                   className="text-destructive"
                                   onClick={() => handleDeleteWorkflow(workflow.id)}
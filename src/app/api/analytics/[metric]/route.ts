@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+import {
+  ANALYTICS_METRICS,
+  loadAnalyticsSummary,
+  loadAnalyticsWasteCost,
+  loadHandoffHotspots,
+  loadLaneStats,
+  loadObservationPage,
+  loadTopHotspots,
+  loadWasteDistribution,
+  parseAnalyticsFilters,
+  parseAnalyticsPagination,
+  type AnalyticsMetric,
+} from "@/lib/services/analyticsQuery";
+import { loadProcessTrend } from "@/lib/services/processTrends";
+import { loadParetoAnalysis, parseParetoOptions } from "@/lib/services/pareto";
+
+// ============================================
+// GET - Aggregated analytics for the caller's organization
+// ============================================
+// /api/analytics/summary|distribution|lanes|hotspots|observations|trends|pareto|cost|handoffs
+// Filters come from the query string; hotspots, handoffs and observations
+// also take page and pageSize. Trends are per workflow and need exactly one process.
+// Pareto takes dimension, measure and cutoff.
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ metric: string }> }
+) {
+  try {
+    const { metric } = await params;
+    if (!ANALYTICS_METRICS.includes(metric as AnalyticsMetric)) {
+      return NextResponse.json({ error: "Unknown analytics metric" }, { status: 404 });
+    }
+
+    const supabase = await createServerSupabaseClient();
+    const {
+      data: { user: authUser },
+    } = await supabase.auth.getUser();
+
+    if (!authUser) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: currentUser } = await supabase
+      .from("users")
+      .select("org_id")
+      .eq("id", authUser.id)
+      .single();
+
+    // Scoped to the organization on top of observation RLS
+    const orgId = currentUser?.org_id ?? null;
+    const searchParams = request.nextUrl.searchParams;
+    const filters = parseAnalyticsFilters(searchParams);
+
+    switch (metric as AnalyticsMetric) {
+      case "summary":
+        return NextResponse.json(await loadAnalyticsSummary(supabase, filters, orgId));
+      case "distribution":
+        return NextResponse.json(await loadWasteDistribution(supabase, filters, orgId));
+      case "lanes":
+        return NextResponse.json(await loadLaneStats(supabase, filters, orgId));
+      case "hotspots":
+        return NextResponse.json(
+          await loadTopHotspots(supabase, filters, parseAnalyticsPagination(searchParams, 10), orgId)
+        );
+      case "observations":
+        return NextResponse.json(
+          await loadObservationPage(supabase, filters, parseAnalyticsPagination(searchParams), orgId)
+        );
+      case "trends":
+        if (filters.processIds?.length !== 1) {
+          return NextResponse.json({ error: "Trends need exactly one process" }, { status: 400 });
+        }
+        return NextResponse.json(await loadProcessTrend(supabase, filters.processIds[0], filters, orgId));
+      case "pareto":
+        return NextResponse.json(
+          await loadParetoAnalysis(supabase, filters, parseParetoOptions(searchParams), orgId)
+        );
+      case "cost":
+        return NextResponse.json(await loadAnalyticsWasteCost(supabase, filters, orgId));
+      case "handoffs":
+        return NextResponse.json(
+          await loadHandoffHotspots(supabase, filters, parseAnalyticsPagination(searchParams, 10), orgId)
+        );
+    }
+  } catch (error) {
+    console.error("Analytics error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
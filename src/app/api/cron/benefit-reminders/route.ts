@@ -0,0 +1,39 @@
+import { timingSafeEqual } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminSupabaseClient } from "@/lib/supabase/admin";
+
+function isAuthorized(request: NextRequest, secret: string): boolean {
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(request.headers.get("authorization") || "");
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+// ============================================
+// GET - Send overdue benefit measurement reminders
+// ============================================
+// Called daily by the scheduler in vercel.json, or any other scheduler, with
+// "Authorization: Bearer $CRON_SECRET". Safe to run more than once a day:
+// each missed measurement is only reminded about once.
+
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.error("Benefit reminders: CRON_SECRET is not set");
+    return NextResponse.json({ error: "Cron is not configured" }, { status: 500 });
+  }
+
+  if (!isAuthorized(request, secret)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const supabase = createAdminSupabaseClient();
+    const { data, error } = await supabase.rpc("send_benefit_reminders");
+    if (error) throw error;
+
+    return NextResponse.json({ sent: Number(data ?? 0) });
+  } catch (error) {
+    console.error("Benefit reminders error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
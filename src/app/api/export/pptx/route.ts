@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createServerSupabaseClient } from "@/lib/supabase/server";
 import { rateLimit, exportRateLimit } from "@/lib/rate-limit";
+import { formatCurrency, loadWasteCostBreakdown } from "@/lib/services/wasteCost";
+import { describeScoringModel, loadSessionScoringModel } from "@/lib/services/scoringModel";
+import { loadHandoffLookup, summarizeHandoffs } from "@/lib/services/observationTargets";
 
 // Define interfaces for data types
 interface WasteType {
@@ -9,14 +12,11 @@ interface WasteType {
   code: string;
 }
 
-interface User {
-  id: string;
-  name: string;
-}
-
 interface Observation {
   id: string;
   step_id: string | null;
+  connection_id: string | null;
+  flow_id: string | null;
   notes: string | null;
   is_digital: boolean;
   is_physical: boolean;
@@ -25,7 +25,6 @@ interface Observation {
   ease_score: number | null;
   priority_score: number | null;
   created_at: string;
-  user: User | null;
   waste_types: WasteType[];
 }
 
@@ -111,12 +110,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Fetch observations with waste types
+    // Fetch observations with waste types. Observers are left out so the deck
+    // never names anyone, including in anonymous sessions
     const { data: observations } = await supabase
       .from("observations")
       .select(`
         id,
         step_id,
+        connection_id,
+        flow_id,
         notes,
         is_digital,
         is_physical,
@@ -125,7 +127,6 @@ export async function POST(request: NextRequest) {
         ease_score,
         priority_score,
         created_at,
-        user:users(id, name),
         observation_waste_links(
           waste_type:waste_types(id, name, code)
         )
@@ -137,6 +138,8 @@ export async function POST(request: NextRequest) {
       (obs) => ({
         id: obs.id,
         step_id: obs.step_id,
+        connection_id: obs.connection_id,
+        flow_id: obs.flow_id,
         notes: obs.notes,
         is_digital: obs.is_digital,
         is_physical: obs.is_physical,
@@ -145,7 +148,6 @@ export async function POST(request: NextRequest) {
         ease_score: obs.ease_score,
         priority_score: obs.priority_score,
         created_at: obs.created_at,
-        user: Array.isArray(obs.user) ? (obs.user[0] as User | undefined) || null : (obs.user as User | null),
         waste_types:
           (obs.observation_waste_links as unknown as Array<{ waste_type: WasteType | WasteType[] | null }>)
             ?.map((link) => {
@@ -159,6 +161,12 @@ export async function POST(request: NextRequest) {
 
     // Calculate waste distribution
     const wasteDistribution = calculateWasteDistribution(transformedObservations);
+    const wasteCost = await loadWasteCostBreakdown(supabase, sessionId);
+    const scoringModel = await loadSessionScoringModel(supabase, sessionId);
+    const handoffs = summarizeHandoffs(
+      transformedObservations.map((o) => ({ ...o, priority_score: o.priority_score || 0 })),
+      await loadHandoffLookup(supabase, transformedObservations)
+    );
 
     // Dynamic import of pptxgenjs for server-side use
     const PptxGenJS = (await import("pptxgenjs")).default;
@@ -297,6 +305,15 @@ export async function POST(request: NextRequest) {
       });
     });
 
+    summarySlide.addText(`Scoring: ${describeScoringModel(scoringModel)}`, {
+      x: 0.5,
+      y: 4.85,
+      w: 9,
+      h: 0.4,
+      fontSize: 10,
+      color: "666666",
+    });
+
     // =========================================
     // SLIDE 3: Waste Distribution
     // =========================================
@@ -319,14 +336,20 @@ export async function POST(request: NextRequest) {
           { text: "Waste Type", options: { bold: true, fill: { color: brandGold } } },
           { text: "Count", options: { bold: true, fill: { color: brandGold } } },
           { text: "Percentage", options: { bold: true, fill: { color: brandGold } } },
+          { text: "Annual Cost", options: { bold: true, fill: { color: brandGold } } },
         ],
       ];
 
       wasteDistribution.slice(0, 10).forEach((item, i) => {
+        const annualCost = wasteCost.wasteTypes.find((w) => w.wasteTypeId === item.id)?.annualCost ?? 0;
         tableData.push([
           { text: item.name, options: { fill: { color: i % 2 === 0 ? "FFFFFF" : lightGray } } },
           { text: item.count.toString(), options: { fill: { color: i % 2 === 0 ? "FFFFFF" : lightGray } } },
           { text: `${item.percentage}%`, options: { fill: { color: i % 2 === 0 ? "FFFFFF" : lightGray } } },
+          {
+            text: formatCurrency(annualCost, wasteCost.currency),
+            options: { fill: { color: i % 2 === 0 ? "FFFFFF" : lightGray } },
+          },
         ]);
       });
 
@@ -334,7 +357,68 @@ export async function POST(request: NextRequest) {
         x: 0.5,
         y: 1.2,
         w: 9,
-        colW: [4, 2.5, 2.5],
+        colW: [3.5, 1.75, 1.75, 2],
+        border: { color: "CCCCCC", pt: 0.5 },
+        fontFace: "Arial",
+        fontSize: 12,
+      });
+    }
+
+    // =========================================
+    // SLIDE 3b: Cost of Waste
+    // =========================================
+    if (sections.topOpportunities && wasteCost.totalAnnualCost > 0) {
+      const costSlide = pres.addSlide();
+
+      costSlide.addText("Cost of Waste", {
+        x: 0.5,
+        y: 0.3,
+        w: 9,
+        h: 0.6,
+        fontSize: 28,
+        bold: true,
+        color: brandNavy,
+      });
+
+      costSlide.addText(
+        `${formatCurrency(wasteCost.totalAnnualCost, wasteCost.currency)} a year · ${Math.round(wasteCost.totalAnnualHours).toLocaleString()} hours lost`,
+        {
+          x: 0.5,
+          y: 0.9,
+          w: 9,
+          h: 0.4,
+          fontSize: 16,
+          color: "666666",
+        }
+      );
+
+      const tableData: Array<Array<{ text: string; options?: Record<string, unknown> }>> = [
+        [
+          { text: "Step", options: { bold: true, fill: { color: brandGold } } },
+          { text: "Lane", options: { bold: true, fill: { color: brandGold } } },
+          { text: "Minutes Lost / Transaction", options: { bold: true, fill: { color: brandGold } } },
+          { text: "Annual Cost", options: { bold: true, fill: { color: brandGold } } },
+        ],
+      ];
+
+      wasteCost.steps
+        .filter((step) => step.annualCost > 0)
+        .slice(0, 8)
+        .forEach((step, i) => {
+          const fill = { color: i % 2 === 0 ? "FFFFFF" : lightGray };
+          tableData.push([
+            { text: step.stepName, options: { fill } },
+            { text: step.lane, options: { fill } },
+            { text: step.timeLostMinutes.toString(), options: { fill } },
+            { text: formatCurrency(step.annualCost, wasteCost.currency), options: { fill } },
+          ]);
+        });
+
+      costSlide.addTable(tableData, {
+        x: 0.5,
+        y: 1.5,
+        w: 9,
+        colW: [3.5, 2, 1.75, 1.75],
         border: { color: "CCCCCC", pt: 0.5 },
         fontFace: "Arial",
         fontSize: 12,
@@ -421,6 +505,64 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // =========================================
+    // SLIDE 4b: Handoff Hotspots
+    // =========================================
+    if (sections.topOpportunities && handoffs.length > 0) {
+      const handoffSlide = pres.addSlide();
+
+      handoffSlide.addText("Handoff Hotspots", {
+        x: 0.5,
+        y: 0.3,
+        w: 9,
+        h: 0.6,
+        fontSize: 28,
+        bold: true,
+        color: brandNavy,
+      });
+
+      handoffSlide.addText("Waiting and transport waste observed between steps", {
+        x: 0.5,
+        y: 0.9,
+        w: 9,
+        h: 0.4,
+        fontSize: 16,
+        color: "666666",
+      });
+
+      const tableData: Array<Array<{ text: string; options?: Record<string, unknown> }>> = [
+        [
+          { text: "Handoff", options: { bold: true, fill: { color: brandGold } } },
+          { text: "Waste Types", options: { bold: true, fill: { color: brandGold } } },
+          { text: "Observations", options: { bold: true, fill: { color: brandGold } } },
+          { text: "Priority", options: { bold: true, fill: { color: brandGold } } },
+        ],
+      ];
+
+      handoffs.slice(0, 8).forEach((summary, i) => {
+        const fill = { color: i % 2 === 0 ? "FFFFFF" : lightGray };
+        tableData.push([
+          {
+            text: summary.handoff.type === "flow" ? `Flow: ${summary.handoff.label}` : summary.handoff.label,
+            options: { fill },
+          },
+          { text: summary.wasteTypes.join(", ") || "-", options: { fill } },
+          { text: summary.observationCount.toString(), options: { fill } },
+          { text: summary.priorityScore.toString(), options: { fill } },
+        ]);
+      });
+
+      handoffSlide.addTable(tableData, {
+        x: 0.5,
+        y: 1.5,
+        w: 9,
+        colW: [3.5, 2.5, 1.5, 1.5],
+        border: { color: "CCCCCC", pt: 0.5 },
+        fontFace: "Arial",
+        fontSize: 12,
+      });
+    }
+
     // =========================================
     // SLIDE 5: Raw Data (if enabled)
     // =========================================
@@ -562,8 +704,8 @@ export async function POST(request: NextRequest) {
 // Helper function to calculate waste distribution
 function calculateWasteDistribution(
   observations: Observation[]
-): Array<{ name: string; count: number; percentage: number }> {
-  const wasteMap = new Map<string, { name: string; count: number }>();
+): Array<{ id: string; name: string; count: number; percentage: number }> {
+  const wasteMap = new Map<string, { id: string; name: string; count: number }>();
 
   observations.forEach((obs) => {
     obs.waste_types.forEach((wt) => {
@@ -571,7 +713,7 @@ function calculateWasteDistribution(
       if (existing) {
         existing.count++;
       } else {
-        wasteMap.set(wt.id, { name: wt.name, count: 1 });
+        wasteMap.set(wt.id, { id: wt.id, name: wt.name, count: 1 });
       }
     });
   });
@@ -580,6 +722,7 @@ function calculateWasteDistribution(
 
   return Array.from(wasteMap.values())
     .map((w) => ({
+      id: w.id,
       name: w.name,
       count: w.count,
       percentage: total > 0 ? Math.round((w.count / total) * 100) : 0,
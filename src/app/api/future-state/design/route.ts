@@ -80,7 +80,7 @@ export async function POST(request: NextRequest) {
     // Fetch current edges
     const { data: edgesData, error: edgesError } = await supabase
       .from("step_connections")
-      .select("source_step_id, target_step_id, label")
+      .select("source_step_id, target_step_id, label, branch_probability")
       .eq("process_id", session.process_id);
 
     if (edgesError) {
@@ -137,6 +137,14 @@ export async function POST(request: NextRequest) {
       label: e.label,
     }));
 
+    // Kept out of the agent inputs; copied onto edges that keep a current connection
+    const branchProbabilities: Record<string, number> = {};
+    for (const e of edgesData || []) {
+      if (e.branch_probability != null) {
+        branchProbabilities[`${e.source_step_id}->${e.target_step_id}`] = e.branch_probability;
+      }
+    }
+
     const solutions = solutionsData.map((s) => ({
       id: s.id,
       bucket: s.bucket,
@@ -175,7 +183,8 @@ export async function POST(request: NextRequest) {
         session.process_id,
         sessionId,
         authUser.id,
-        result.data
+        result.data,
+        branchProbabilities
       );
       return NextResponse.json({
         success: true,
@@ -210,7 +219,8 @@ async function persistFutureState(
   processId: string,
   sessionId: string,
   userId: string,
-  output: DesignAgentOutputType
+  output: DesignAgentOutputType,
+  branchProbabilities: Record<string, number>
 ): Promise<string | null> {
   const { future_state } = output;
 
@@ -292,11 +302,15 @@ async function persistFutureState(
       continue;
     }
 
+    const sourceStepId = future_state.nodes[edge.source_node_index]?.source_step_id;
+    const targetStepId = future_state.nodes[edge.target_node_index]?.source_step_id;
+
     await supabase.from("future_state_edges").insert({
       future_state_id: futureStateId,
       source_node_id: sourceNodeId,
       target_node_id: targetNodeId,
       label: edge.label,
+      branch_probability: branchProbabilities[`${sourceStepId}->${targetStepId}`] ?? null,
     });
   }
 
@@ -208,6 +208,19 @@ export async function PATCH(request: NextRequest) {
 
     if (updates.label !== undefined) updateData.label = updates.label;
     if (updates.orderIndex !== undefined) updateData.order_index = updates.orderIndex;
+    if (updates.branchProbability !== undefined) {
+      const probability = updates.branchProbability;
+      if (
+        probability !== null &&
+        (typeof probability !== "number" || !Number.isFinite(probability) || probability < 0 || probability > 1)
+      ) {
+        return NextResponse.json(
+          { error: "branchProbability must be a number between 0 and 1, or null" },
+          { status: 400 }
+        );
+      }
+      updateData.branch_probability = probability;
+    }
 
     // Update the edge
     const { data: edge, error: updateError } = await supabase
@@ -105,7 +105,8 @@ export async function POST(request: NextRequest) {
 
     // If not cached, persist the waves and dependencies
     if (!result.cached && result.data) {
-      await persistSequencing(supabase, sessionId, authUser.id, result.data);
+      const titles = new Map(solutionsData.map((s) => [s.id as string, s.title as string]));
+      await persistSequencing(supabase, sessionId, authUser.id, result.data, titles);
     }
 
     return NextResponse.json({
@@ -129,8 +130,19 @@ async function persistSequencing(
   supabase: Awaited<ReturnType<typeof createServerSupabaseClient>>,
   sessionId: string,
   userId: string,
-  output: SequencingAgentOutputType
+  output: SequencingAgentOutputType,
+  titles: Map<string, string>
 ): Promise<void> {
+  // Keep each solution's implementation status across re-runs
+  const { data: previousItems } = await supabase
+    .from("implementation_items")
+    .select("solution_id, status, status_updated_at")
+    .eq("session_id", sessionId)
+    .eq("type", "solution");
+  const previousStatus = new Map(
+    (previousItems || []).map((item) => [item.solution_id as string, item])
+  );
+
   // Clear existing waves for this session (to avoid duplicates on re-run)
   await supabase.from("implementation_waves").delete().eq("session_id", sessionId);
 
@@ -165,6 +177,35 @@ async function persistSequencing(
         order_index: index,
       }));
       await supabase.from("wave_solutions").insert(waveSolutions);
+
+      // One implementation item per solution tracks its status
+      const { data: items, error: itemsError } = await supabase
+        .from("implementation_items")
+        .insert(
+          wave.solution_ids.map((solutionId) => ({
+            session_id: sessionId,
+            label: titles.get(solutionId) || "Solution",
+            type: "solution",
+            solution_id: solutionId,
+            status: previousStatus.get(solutionId)?.status ?? "not_started",
+            status_updated_at: previousStatus.get(solutionId)?.status_updated_at ?? null,
+            created_by: userId,
+          }))
+        )
+        .select("id, solution_id");
+
+      if (itemsError || !items) {
+        console.error("Error inserting implementation items:", itemsError);
+        continue;
+      }
+
+      await supabase.from("wave_items").insert(
+        items.map((item) => ({
+          wave_id: insertedWave.id,
+          item_id: item.id,
+          order_index: wave.solution_ids.indexOf(item.solution_id),
+        }))
+      );
     }
   }
 
@@ -374,6 +415,23 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
+    // Move the solution's implementation item with it
+    const { data: item } = await supabase
+      .from("implementation_items")
+      .select("id")
+      .eq("solution_id", solutionId)
+      .eq("type", "solution")
+      .maybeSingle();
+
+    if (item) {
+      await supabase.from("wave_items").delete().eq("item_id", item.id);
+      await supabase.from("wave_items").insert({
+        wave_id: waveId,
+        item_id: item.id,
+        order_index: orderIndex ?? 0,
+      });
+    }
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Error updating wave assignment:", error);
@@ -3,6 +3,7 @@ import { createServerSupabaseClient } from "@/lib/supabase/server";
 import { rateLimit, insightsRateLimit } from "@/lib/rate-limit";
 import { runAgent, buildSolutionsPrompt } from "@/lib/ai/agentRunner";
 import { getWorkflowContext } from "@/lib/services/workflowContext";
+import { describeScoringModel, loadSessionScoringModel } from "@/lib/services/scoringModel";
 import type { SolutionsAgentOutputType } from "@/lib/ai/schemas";
 
 // Type for valid input IDs that AI output must be validated against
@@ -136,9 +137,16 @@ export async function POST(request: NextRequest) {
     });
 
     const steps = stepsData || [];
+    const scoringModel = await loadSessionScoringModel(supabase, sessionId);
 
     // Prepare inputs
-    const inputs = { workflowContext, themes, observations, steps };
+    const inputs = {
+      workflowContext,
+      themes,
+      observations,
+      steps,
+      scoring_model: describeScoringModel(scoringModel),
+    };
 
     // Run the solutions agent
     const result = await runAgent<"solutions">(
@@ -3,6 +3,9 @@ import { createServerSupabaseClient } from "@/lib/supabase/server";
 import { rateLimit, insightsRateLimit } from "@/lib/rate-limit";
 import { runAgent, buildSynthesisPrompt } from "@/lib/ai/agentRunner";
 import { getWorkflowContext } from "@/lib/services/workflowContext";
+import { loadVoteTotals } from "@/lib/services/voteTally";
+import { describeScoringModel, loadSessionScoringModel } from "@/lib/services/scoringModel";
+import { getObservationHandoff, loadHandoffLookup } from "@/lib/services/observationTargets";
 import type { SynthesisAgentOutputType } from "@/lib/ai/schemas";
 
 // Type for valid input IDs that AI output must be validated against
@@ -15,7 +18,12 @@ interface ValidInputIds {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { sessionId, forceRerun = false } = body;
+    // observationIds narrows synthesis to a selection, e.g. a Pareto chart's vital few
+    const { sessionId, forceRerun = false, observationIds } = body as {
+      sessionId?: string;
+      forceRerun?: boolean;
+      observationIds?: string[];
+    };
 
     if (!sessionId) {
       return NextResponse.json(
@@ -52,19 +60,31 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (observationIds !== undefined && (!Array.isArray(observationIds) || observationIds.length === 0)) {
+      return NextResponse.json(
+        { error: "observationIds must be a non-empty list" },
+        { status: 400 }
+      );
+    }
+
     // Fetch observations for the session
-    const { data: observationsData, error: obsError } = await supabase
+    let observationsQuery = supabase
       .from("observations")
       .select(`
         id,
         notes,
         priority_score,
-        step:process_steps!inner(id, step_name, lane),
+        connection_id,
+        flow_id,
+        step:process_steps(id, step_name, lane),
         observation_waste_links(
           waste_type:waste_types(id, name, code)
         )
       `)
       .eq("session_id", sessionId);
+    if (observationIds) observationsQuery = observationsQuery.in("id", observationIds);
+
+    const { data: observationsData, error: obsError } = await observationsQuery;
 
     if (obsError) {
       console.error("Error fetching observations:", obsError);
@@ -125,6 +145,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Team dot votes from the latest round, if one was run
+    const voteTotals = await loadVoteTotals(supabase, sessionId);
+    const scoringModel = await loadSessionScoringModel(supabase, sessionId);
+    const handoffLookup = await loadHandoffLookup(supabase, observationsData);
+
     // Transform observations
     interface WasteLink {
       waste_type: { id: string; name: string; code: string } | { id: string; name: string; code: string }[] | null;
@@ -132,6 +157,7 @@ export async function POST(request: NextRequest) {
 
     const observations = observationsData.map((obs) => {
       const step = Array.isArray(obs.step) ? obs.step[0] : obs.step;
+      const handoff = getObservationHandoff(obs, handoffLookup);
       const links = (obs.observation_waste_links || []) as WasteLink[];
       const wasteTypes: { id: string; name: string; code: string }[] = [];
       
@@ -148,14 +174,21 @@ export async function POST(request: NextRequest) {
       return {
         id: obs.id,
         notes: obs.notes,
-        step_name: step?.step_name || "Unknown",
-        lane: step?.lane || "Unknown",
+        step_name: step?.step_name || handoff?.label || "Unknown",
+        lane: step?.lane || (handoff ? "Handoff" : "Unknown"),
+        handoff: handoff
+          ? `${handoff.type === "flow" ? "Information flow" : "Handoff"} ${handoff.label}`
+          : undefined,
         waste_types: wasteTypes,
         priority_score: obs.priority_score,
+        votes: voteTotals.observations[obs.id] ?? 0,
       };
     });
 
-    const steps = stepsData || [];
+    const steps = (stepsData || []).map((step) => ({
+      ...step,
+      votes: voteTotals.steps[step.id] ?? 0,
+    }));
     const wasteTypes = wasteTypesData || [];
 
     // Debug: Log what observations are being sent to the AI
@@ -172,6 +205,7 @@ export async function POST(request: NextRequest) {
       observations,
       steps,
       waste_types: wasteTypes,
+      scoring_model: describeScoringModel(scoringModel),
     };
 
     // Run the synthesis agent
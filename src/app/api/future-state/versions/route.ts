@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createServerSupabaseClient } from "@/lib/supabase/server";
+import { lintFutureState } from "@/lib/services/workflowLint";
 
 // ============================================
 // POST: Create a new version (clone current state)
@@ -125,6 +126,7 @@ export async function POST(request: NextRequest) {
           target_node_id: newTargetId,
           label: edge.label,
           order_index: edge.order_index,
+          branch_probability: edge.branch_probability ?? null,
         });
       }
     }
@@ -230,6 +232,39 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
+    // A design can only be published once it passes the structural lint
+    if (updates.status === "published" && existingVersion.status !== "published") {
+      const [{ data: nodes, error: nodesError }, { data: edges, error: edgesError }] = await Promise.all([
+        supabase
+          .from("future_state_nodes")
+          .select("id, name, step_type, action")
+          .eq("future_state_id", versionId),
+        supabase
+          .from("future_state_edges")
+          .select("source_node_id, target_node_id")
+          .eq("future_state_id", versionId),
+      ]);
+
+      if (nodesError || edgesError) {
+        console.error("Error loading version graph:", nodesError || edgesError);
+        return NextResponse.json(
+          { error: "Failed to validate version" },
+          { status: 500 }
+        );
+      }
+
+      const lint = lintFutureState(nodes || [], edges || []);
+      if (lint.errorCount > 0) {
+        return NextResponse.json(
+          {
+            error: `Fix ${lint.errorCount} structural error${lint.errorCount === 1 ? "" : "s"} before publishing`,
+            diagnostics: lint.diagnostics.filter((d) => d.severity === "error"),
+          },
+          { status: 422 }
+        );
+      }
+    }
+
     // Build update object
     const updateData: Record<string, unknown> = {
       updated_at: new Date().toISOString(),
@@ -239,6 +274,9 @@ export async function PATCH(request: NextRequest) {
     if (updates.description !== undefined) updateData.description = updates.description;
     if (updates.isLocked !== undefined) updateData.is_locked = updates.isLocked;
     if (updates.status !== undefined) updateData.status = updates.status;
+    if (updates.status === "published" && existingVersion.status !== "published") {
+      updateData.published_at = updateData.updated_at;
+    }
 
     // Update the version
     const { data: version, error: updateError } = await supabase
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminSupabaseClient } from "@/lib/supabase/admin";
+import { guestObservationRateLimit, withRateLimit } from "@/lib/rate-limit";
+import { loadGuestLink, type GuestObservationRequest } from "@/lib/services/guestAccess";
+import { getLaneTaggingState } from "@/lib/services/sessionAgenda";
+import {
+  calculatePriority,
+  getLegacyScores,
+  getObservationScores,
+  loadSessionScoringModel,
+} from "@/lib/services/scoringModel";
+import type { SessionPhase } from "@/types";
+
+const MAX_NOTES_LENGTH = 2000;
+
+// ============================================
+// POST - Record an observation as a guest
+// ============================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const supabase = createAdminSupabaseClient();
+    const guestLink = await loadGuestLink(supabase, token);
+
+    if (!guestLink || guestLink.status !== "active") {
+      return NextResponse.json({ error: "This guest link is no longer valid" }, { status: 410 });
+    }
+    const { link, session } = guestLink;
+    if (session.status !== "active") {
+      return NextResponse.json({ error: "This session isn't accepting observations right now" }, { status: 409 });
+    }
+
+    const body = (await request.json().catch(() => null)) as GuestObservationRequest | null;
+    if (!body) {
+      return NextResponse.json({ error: "Invalid request: body must be JSON" }, { status: 400 });
+    }
+    if (!body.guest_id || !body.step_id || !Array.isArray(body.waste_type_ids) || body.waste_type_ids.length === 0) {
+      return NextResponse.json(
+        { error: "Invalid request: guest_id, step_id and at least one waste type required" },
+        { status: 400 }
+      );
+    }
+
+    // The guest must have joined through this link, and the step must be in the session's workflow
+    const [{ data: guest }, { data: step }, { data: phases }] = await Promise.all([
+      supabase
+        .from("session_guests")
+        .select("id")
+        .eq("id", body.guest_id)
+        .eq("link_id", link.id)
+        .maybeSingle(),
+      supabase
+        .from("process_steps")
+        .select("id, lane")
+        .eq("id", body.step_id)
+        .eq("process_id", session.process_id)
+        .maybeSingle(),
+      supabase.from("session_phases").select("*").eq("session_id", session.id),
+    ]);
+
+    if (!guest) {
+      return NextResponse.json({ error: "Join the session before adding observations" }, { status: 403 });
+    }
+
+    // Keyed by guest, so guests sharing a network each get their own budget
+    const limited = await withRateLimit(guestObservationRateLimit, () => guest.id)(request);
+    if (limited) return limited;
+    if (!step) {
+      return NextResponse.json({ error: "Step not found in this session" }, { status: 400 });
+    }
+
+    // Guests follow the same agenda locks as everyone else
+    const tagging = getLaneTaggingState((phases || []) as SessionPhase[], step.lane);
+    if (!tagging.allowed) {
+      return NextResponse.json({ error: tagging.reason }, { status: 409 });
+    }
+
+    const model = await loadSessionScoringModel(supabase, session.id);
+    const scores = getObservationScores(model, { scores: body.scores });
+
+    const { data: observation, error } = await supabase
+      .from("observations")
+      .insert({
+        session_id: session.id,
+        step_id: step.id,
+        user_id: null,
+        guest_id: guest.id,
+        notes: typeof body.notes === "string" ? body.notes.slice(0, MAX_NOTES_LENGTH) : null,
+        is_digital: !!body.is_digital,
+        is_physical: !!body.is_physical,
+        ...getLegacyScores(model, scores),
+        scores,
+        priority_score: calculatePriority(model, scores),
+        time_lost_minutes:
+          typeof body.time_lost_minutes === "number" && body.time_lost_minutes >= 0 ? body.time_lost_minutes : null,
+      })
+      .select("id")
+      .single();
+
+    if (error) throw error;
+
+    const { error: linkError } = await supabase.from("observation_waste_links").insert(
+      Array.from(new Set(body.waste_type_ids)).map((wasteTypeId) => ({
+        observation_id: observation.id,
+        waste_type_id: wasteTypeId,
+      }))
+    );
+    if (linkError) {
+      await supabase.from("observations").delete().eq("id", observation.id);
+      return NextResponse.json({ error: "Unknown waste type" }, { status: 400 });
+    }
+
+    return NextResponse.json({ id: observation.id }, { status: 201 });
+  } catch (error) {
+    console.error("Guest observation error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminSupabaseClient } from "@/lib/supabase/admin";
+import {
+  getClientIp,
+  guestJoinRateLimit,
+  guestViewRateLimit,
+  withRateLimit,
+} from "@/lib/rate-limit";
+import { loadGuestLink, normalizeGuestName, type GuestSessionView } from "@/lib/services/guestAccess";
+import { loadSessionScoringModel } from "@/lib/services/scoringModel";
+import type { SessionGuest, SessionPhase, WasteType } from "@/types";
+
+// Guests have no account: every request is keyed by link and address
+const checkViewRateLimit = withRateLimit(guestViewRateLimit, getClientIp);
+const checkJoinRateLimit = withRateLimit(guestJoinRateLimit, getClientIp);
+
+const LINK_ERRORS = {
+  expired: "This guest link has expired. Ask the facilitator for a new one.",
+  revoked: "This guest link has been turned off by the facilitator.",
+  inactive: "This session isn't accepting observations right now.",
+};
+
+// ============================================
+// GET - What a guest needs to tag waste in the session
+// ============================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const limited = await checkViewRateLimit(request);
+    if (limited) return limited;
+
+    const { token } = await params;
+    const supabase = createAdminSupabaseClient();
+    const guestLink = await loadGuestLink(supabase, token);
+
+    if (!guestLink) {
+      return NextResponse.json({ error: "Guest link not found" }, { status: 404 });
+    }
+    if (guestLink.status !== "active") {
+      return NextResponse.json({ error: LINK_ERRORS[guestLink.status] }, { status: 410 });
+    }
+
+    const { link, session } = guestLink;
+    if (session.status !== "active") {
+      return NextResponse.json({ error: LINK_ERRORS.inactive }, { status: 409 });
+    }
+
+    const [stepsResult, lanesResult, wasteTypesResult, phasesResult, scoringModel] = await Promise.all([
+      supabase
+        .from("process_steps")
+        .select("id, step_name, lane, step_type, order_index, description")
+        .eq("process_id", session.process_id)
+        .order("order_index"),
+      supabase
+        .from("process_lanes")
+        .select("name")
+        .eq("process_id", session.process_id)
+        .order("order_index"),
+      supabase.from("waste_types").select("*").order("code"),
+      supabase.from("session_phases").select("*").eq("session_id", session.id).order("position"),
+      loadSessionScoringModel(supabase, session.id),
+    ]);
+
+    if (stepsResult.error) throw stepsResult.error;
+    if (wasteTypesResult.error) throw wasteTypesResult.error;
+
+    const steps = stepsResult.data || [];
+    const lanes = lanesResult.data?.length
+      ? lanesResult.data.map((l: { name: string }) => l.name)
+      : Array.from(new Set(steps.map((s) => s.lane)));
+
+    const view: GuestSessionView = {
+      session: { id: session.id, name: session.name, anonymous_observations: session.anonymous_observations },
+      steps: steps.filter((s) => s.step_type !== "start" && s.step_type !== "end"),
+      lanes,
+      waste_types: (wasteTypesResult.data || []) as WasteType[],
+      scoring_model: scoringModel,
+      phases: (phasesResult.data || []) as SessionPhase[],
+      expires_at: link.expires_at,
+    };
+
+    return NextResponse.json(view);
+  } catch (error) {
+    console.error("Guest link error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// ============================================
+// POST - Join the session as a guest
+// ============================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const limited = await checkJoinRateLimit(request);
+    if (limited) return limited;
+
+    const { token } = await params;
+    const supabase = createAdminSupabaseClient();
+    const guestLink = await loadGuestLink(supabase, token);
+
+    if (!guestLink) {
+      return NextResponse.json({ error: "Guest link not found" }, { status: 404 });
+    }
+    if (guestLink.status !== "active") {
+      return NextResponse.json({ error: LINK_ERRORS[guestLink.status] }, { status: 410 });
+    }
+    if (guestLink.session.status !== "active") {
+      return NextResponse.json({ error: LINK_ERRORS.inactive }, { status: 409 });
+    }
+
+    const body = (await request.json().catch(() => null)) as { display_name?: unknown } | null;
+    if (!body) {
+      return NextResponse.json({ error: "Invalid request: body must be JSON" }, { status: 400 });
+    }
+
+    const { data: guest, error } = await supabase
+      .from("session_guests")
+      .insert({
+        session_id: guestLink.session.id,
+        link_id: guestLink.link.id,
+        display_name: normalizeGuestName(body.display_name),
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return NextResponse.json({ guest: guest as SessionGuest });
+  } catch (error) {
+    console.error("Guest join error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createServerSupabaseClient } from "@/lib/supabase/server";
 import { rateLimit, insightsRateLimit } from "@/lib/rate-limit";
+import { describeScoringModel, loadSessionScoringModel } from "@/lib/services/scoringModel";
 
 interface WasteType {
   id: string;
@@ -153,6 +154,9 @@ export async function POST(request: NextRequest) {
           .filter((wt): wt is WasteType => wt !== null) || [],
     }));
 
+    // Priority scores are only comparable with the model that produced them
+    const scoringModel = describeScoringModel(await loadSessionScoringModel(supabase, sessionId));
+
     // Try to generate AI insights if API key is available
     const openaiKey = process.env.OPENAI_API_KEY;
     const anthropicKey = process.env.ANTHROPIC_API_KEY;
@@ -160,9 +164,9 @@ export async function POST(request: NextRequest) {
     let insights: SessionInsights;
 
     if (openaiKey) {
-      insights = await generateOpenAIInsights(sessionId, transformedObs, openaiKey);
+      insights = await generateOpenAIInsights(sessionId, transformedObs, scoringModel, openaiKey);
     } else if (anthropicKey) {
-      insights = await generateAnthropicInsights(sessionId, transformedObs, anthropicKey);
+      insights = await generateAnthropicInsights(sessionId, transformedObs, scoringModel, anthropicKey);
     } else {
       // Generate local insights without AI
       insights = generateLocalInsights(sessionId, transformedObs);
@@ -188,9 +192,10 @@ export async function POST(request: NextRequest) {
 async function generateOpenAIInsights(
   sessionId: string,
   observations: Observation[],
+  scoringModel: string,
   apiKey: string
 ): Promise<SessionInsights> {
-  const prompt = buildPrompt(observations);
+  const prompt = buildPrompt(observations, scoringModel);
 
   try {
     const response = await fetch("https://api.openai.com/v1/chat/completions", {
@@ -250,9 +255,10 @@ async function generateOpenAIInsights(
 async function generateAnthropicInsights(
   sessionId: string,
   observations: Observation[],
+  scoringModel: string,
   apiKey: string
 ): Promise<SessionInsights> {
-  const prompt = buildPrompt(observations);
+  const prompt = buildPrompt(observations, scoringModel);
 
   try {
     const response = await fetch("https://api.anthropic.com/v1/messages", {
@@ -309,7 +315,7 @@ async function generateAnthropicInsights(
   }
 }
 
-function buildPrompt(observations: Observation[]): string {
+function buildPrompt(observations: Observation[], scoringModel: string): string {
   const summary = generateSummary(observations);
 
   // Count waste types
@@ -334,6 +340,7 @@ Analyze this waste walk session data and provide actionable insights.
 Session Summary:
 - Total Observations: ${summary.totalObservations}
 - Average Priority Score: ${summary.avgPriority}
+- Scoring Model: ${scoringModel}
 - Top Waste Type: ${summary.topWasteType}
 - Digital Observations: ${observations.filter((o) => o.is_digital).length}
 - Physical Observations: ${observations.filter((o) => o.is_physical).length}
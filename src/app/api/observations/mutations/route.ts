@@ -0,0 +1,378 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+import {
+  getChangedFields,
+  getConflictingFields,
+} from "@/lib/services/observationConflicts";
+import {
+  calculatePriority,
+  getObservationScores,
+  loadSessionScoringModel,
+  type ScoringModelDefinition,
+} from "@/lib/services/scoringModel";
+import type {
+  MutationResult,
+  ObservationFields,
+  OfflineMutation,
+} from "@/types/offlineSync";
+
+// ============================================
+// Types
+// ============================================
+
+interface MutationRequest {
+  mutations: OfflineMutation[];
+}
+
+interface ObservationRow extends Omit<ObservationFields, "waste_type_ids"> {
+  id: string;
+  updated_at: string;
+  observation_waste_links?: { waste_type_id: string }[];
+}
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createServerSupabaseClient>>;
+
+// ============================================
+// Helpers
+// ============================================
+
+function toFields(row: ObservationRow): ObservationFields {
+  return {
+    step_id: row.step_id,
+    connection_id: row.connection_id ?? null,
+    flow_id: row.flow_id ?? null,
+    notes: row.notes ?? undefined,
+    is_digital: row.is_digital,
+    is_physical: row.is_physical,
+    frequency_score: row.frequency_score,
+    impact_score: row.impact_score,
+    ease_score: row.ease_score,
+    scores: row.scores,
+    time_lost_minutes: row.time_lost_minutes ?? null,
+    waste_type_ids: (row.observation_waste_links || []).map((l) => l.waste_type_id),
+  };
+}
+
+function isSameInstant(a: string | null, b: string | null) {
+  if (a === b) return true;
+  if (!a || !b) return false;
+  return new Date(a).getTime() === new Date(b).getTime();
+}
+
+function hasValidTimestamp(value: unknown) {
+  return typeof value === "string" && !Number.isNaN(new Date(value).getTime());
+}
+
+function hasValidScores(fields: ObservationFields) {
+  return [fields.frequency_score, fields.impact_score, fields.ease_score].every(
+    (score) => Number.isInteger(score) && score >= 1 && score <= 5
+  );
+}
+
+/** Fill in scores for changes queued before scoring models, then price them */
+function withScores(model: ScoringModelDefinition, fields: ObservationFields) {
+  const scores = getObservationScores(model, fields);
+  return { fields: { ...fields, scores }, priority_score: calculatePriority(model, scores) };
+}
+
+async function getObservationRow(supabase: SupabaseServerClient, id: string) {
+  const { data, error } = await supabase
+    .from("observations")
+    .select("*, observation_waste_links(waste_type_id)")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as ObservationRow | null;
+}
+
+async function replaceWasteLinks(supabase: SupabaseServerClient, observationId: string, wasteTypeIds: string[]) {
+  const { error: deleteError } = await supabase
+    .from("observation_waste_links")
+    .delete()
+    .eq("observation_id", observationId);
+  if (deleteError) throw deleteError;
+
+  if (wasteTypeIds.length > 0) {
+    const { error } = await supabase.from("observation_waste_links").insert(
+      wasteTypeIds.map((wasteTypeId) => ({
+        observation_id: observationId,
+        waste_type_id: wasteTypeId,
+      }))
+    );
+    if (error) throw error;
+  }
+}
+
+// ============================================
+// Mutation handlers
+// ============================================
+
+async function applyCreate(
+  supabase: SupabaseServerClient,
+  userId: string,
+  mutation: OfflineMutation,
+  model: ScoringModelDefinition
+): Promise<MutationResult> {
+  const existing = await getObservationRow(supabase, mutation.entity_id);
+  if (existing) {
+    return { mutation_id: mutation.id, status: "duplicate", updated_at: existing.updated_at };
+  }
+
+  const { fields, priority_score } = withScores(model, mutation.data!);
+  const { waste_type_ids, ...columns } = fields;
+  const { data, error } = await supabase
+    .from("observations")
+    .insert({
+      ...columns,
+      priority_score,
+      id: mutation.entity_id,
+      session_id: mutation.session_id,
+      user_id: userId,
+      created_at: mutation.created_at,
+    })
+    .select("updated_at")
+    .single();
+
+  if (error) {
+    return { mutation_id: mutation.id, status: "rejected", error: error.message };
+  }
+
+  try {
+    await replaceWasteLinks(supabase, mutation.entity_id, waste_type_ids);
+  } catch (linkError) {
+    // Undo the insert so a retry creates the observation with its links
+    // instead of reporting it as a duplicate without them
+    await supabase.from("observations").delete().eq("id", mutation.entity_id);
+    throw linkError;
+  }
+  return { mutation_id: mutation.id, status: "applied", updated_at: data.updated_at };
+}
+
+async function applyUpdate(
+  supabase: SupabaseServerClient,
+  mutation: OfflineMutation,
+  model: ScoringModelDefinition
+): Promise<MutationResult> {
+  const current = await getObservationRow(supabase, mutation.entity_id);
+  if (!current) {
+    return {
+      mutation_id: mutation.id,
+      status: "conflict",
+      conflict: { server: null, server_updated_at: null, fields: [] },
+    };
+  }
+
+  const theirs = toFields(current);
+  // An edit never moves an observation to another step or handoff
+  const target = { step_id: theirs.step_id, connection_id: theirs.connection_id, flow_id: theirs.flow_id };
+  const mine: ObservationFields = { ...withScores(model, mutation.data!).fields, ...target };
+  const base = mutation.base ? { ...mutation.base, ...target } : undefined;
+
+  const changed = getChangedFields(base ?? theirs, mine);
+  if (getChangedFields(theirs, mine).length === 0) {
+    // Already applied, by an earlier replay or an identical edit
+    return { mutation_id: mutation.id, status: "duplicate", updated_at: current.updated_at };
+  }
+
+  if (mutation.base_updated_at && !isSameInstant(mutation.base_updated_at, current.updated_at)) {
+    const fields = getConflictingFields(base, mine, theirs);
+    if (fields.length > 0) {
+      return {
+        mutation_id: mutation.id,
+        status: "conflict",
+        conflict: { server: theirs, server_updated_at: current.updated_at, fields },
+      };
+    }
+  }
+
+  // Only the fields changed on the device are written, so non-overlapping
+  // server changes survive. updated_at keeps the update non-empty when only
+  // waste types changed; the trigger stamps the real value.
+  const updates: Record<string, unknown> = { updated_at: new Date().toISOString() };
+  for (const field of changed) {
+    if (field !== "waste_type_ids") updates[field] = mine[field];
+  }
+  if (changed.includes("scores")) {
+    updates.priority_score = calculatePriority(model, mine.scores!);
+  }
+
+  const { data, error } = await supabase
+    .from("observations")
+    .update(updates)
+    .eq("id", mutation.entity_id)
+    .eq("updated_at", current.updated_at)
+    .select("updated_at")
+    .maybeSingle();
+
+  if (error) {
+    return { mutation_id: mutation.id, status: "rejected", error: error.message };
+  }
+  if (!data) {
+    return {
+      mutation_id: mutation.id,
+      status: "rejected",
+      error: "Observation could not be updated; it may belong to another participant",
+    };
+  }
+
+  if (changed.includes("waste_type_ids")) {
+    await replaceWasteLinks(supabase, mutation.entity_id, mine.waste_type_ids);
+  }
+
+  return { mutation_id: mutation.id, status: "applied", updated_at: data.updated_at };
+}
+
+async function applyDelete(
+  supabase: SupabaseServerClient,
+  mutation: OfflineMutation
+): Promise<MutationResult> {
+  const current = await getObservationRow(supabase, mutation.entity_id);
+  if (!current) {
+    return { mutation_id: mutation.id, status: "duplicate" };
+  }
+
+  if (mutation.base_updated_at && !isSameInstant(mutation.base_updated_at, current.updated_at)) {
+    return {
+      mutation_id: mutation.id,
+      status: "conflict",
+      conflict: { server: toFields(current), server_updated_at: current.updated_at, fields: [] },
+    };
+  }
+
+  // Links are cascade deleted with the observation
+  const { data, error } = await supabase
+    .from("observations")
+    .delete()
+    .eq("id", mutation.entity_id)
+    .select("id");
+
+  if (error) {
+    return { mutation_id: mutation.id, status: "rejected", error: error.message };
+  }
+  if (!data || data.length === 0) {
+    return {
+      mutation_id: mutation.id,
+      status: "rejected",
+      error: "Observation could not be deleted; it may belong to another participant",
+    };
+  }
+
+  return { mutation_id: mutation.id, status: "applied" };
+}
+
+// ============================================
+// POST - Apply an offline mutation log
+// ============================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body: MutationRequest = await request.json();
+    const { mutations } = body;
+
+    if (!mutations || !Array.isArray(mutations)) {
+      return NextResponse.json(
+        { error: "Invalid request: mutations array required" },
+        { status: 400 }
+      );
+    }
+
+    if (mutations.length === 0) {
+      return NextResponse.json({ results: [] });
+    }
+
+    const results: MutationResult[] = [];
+
+    // Malformed entries are rejected up front so they can't break the ordering
+    const valid: OfflineMutation[] = [];
+    for (const mutation of mutations) {
+      if (!hasValidTimestamp(mutation?.created_at)) {
+        results.push({ mutation_id: mutation?.id, status: "rejected", error: "Invalid created_at" });
+      } else if (mutation.op !== "delete" && (typeof mutation.data !== "object" || mutation.data === null)) {
+        results.push({ mutation_id: mutation.id, status: "rejected", error: "Missing observation data" });
+      } else {
+        valid.push(mutation);
+      }
+    }
+
+    // Validate all mutations belong to accessible sessions
+    const sessionIds = Array.from(new Set(valid.map((m) => m.session_id)));
+    const { data: accessibleSessions } = await supabase
+      .from("sessions")
+      .select("id")
+      .in("id", sessionIds);
+
+    const accessibleSessionIds = new Set(
+      accessibleSessions?.map((s) => s.id) || []
+    );
+
+    // Priorities are computed with each session's own scoring model version
+    const models = new Map<string, ScoringModelDefinition>();
+    const getModel = async (sessionId: string) => {
+      if (!models.has(sessionId)) models.set(sessionId, await loadSessionScoringModel(supabase, sessionId));
+      return models.get(sessionId)!;
+    };
+
+    // Apply in the order the changes were made, so edits follow their create
+    const ordered = valid.sort(
+      (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+    );
+
+    for (const mutation of ordered) {
+      try {
+        if (mutation.entity !== "observation") {
+          results.push({ mutation_id: mutation.id, status: "rejected", error: "Unsupported entity" });
+          continue;
+        }
+
+        if (!accessibleSessionIds.has(mutation.session_id)) {
+          results.push({ mutation_id: mutation.id, status: "rejected", error: "Session not accessible" });
+          continue;
+        }
+
+        if (mutation.op !== "delete" && !hasValidScores(mutation.data!)) {
+          results.push({
+            mutation_id: mutation.id,
+            status: "rejected",
+            error: "Invalid score values (must be 1-5)",
+          });
+          continue;
+        }
+
+        if (mutation.op === "create") {
+          results.push(await applyCreate(supabase, user.id, mutation, await getModel(mutation.session_id)));
+        } else if (mutation.op === "update") {
+          results.push(await applyUpdate(supabase, mutation, await getModel(mutation.session_id)));
+        } else if (mutation.op === "delete") {
+          results.push(await applyDelete(supabase, mutation));
+        } else {
+          results.push({ mutation_id: mutation.id, status: "rejected", error: "Unknown operation" });
+        }
+      } catch (error) {
+        // Unexpected errors are worth retrying, unlike a rejection
+        results.push({
+          mutation_id: mutation.id,
+          status: "failed",
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error("Mutation sync error:", error);
+    return NextResponse.json(
+      { error: "Failed to apply offline changes" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createServerSupabaseClient } from "@/lib/supabase/server";
+import {
+  calculatePriority,
+  getObservationScores,
+  loadSessionScoringModel,
+  type ScoringModelDefinition,
+} from "@/lib/services/scoringModel";
 
 // ============================================
 // Types
@@ -8,13 +14,16 @@ import { createServerSupabaseClient } from "@/lib/supabase/server";
 interface OfflineObservation {
   id: string;
   session_id: string;
-  step_id: string;
+  step_id: string | null;
+  connection_id?: string | null;
+  flow_id?: string | null;
   notes?: string;
   is_digital: boolean;
   is_physical: boolean;
   frequency_score: number;
   impact_score: number;
   ease_score: number;
+  time_lost_minutes?: number | null;
   waste_type_ids: string[];
   created_at: string;
 }
@@ -75,6 +84,8 @@ export async function POST(request: NextRequest) {
       errors: [],
     };
 
+    const models = new Map<string, ScoringModelDefinition>();
+
     // Process each observation
     for (const obs of observations) {
       try {
@@ -118,6 +129,13 @@ export async function POST(request: NextRequest) {
           continue;
         }
 
+        // Score with the session's model
+        if (!models.has(obs.session_id)) {
+          models.set(obs.session_id, await loadSessionScoringModel(supabase, obs.session_id));
+        }
+        const model = models.get(obs.session_id)!;
+        const scores = getObservationScores(model, obs);
+
         // Insert observation
         const { data: newObs, error: obsError } = await supabase
           .from("observations")
@@ -125,6 +143,8 @@ export async function POST(request: NextRequest) {
             id: obs.id,
             session_id: obs.session_id,
             step_id: obs.step_id,
+            connection_id: obs.connection_id ?? null,
+            flow_id: obs.flow_id ?? null,
             user_id: user.id,
             notes: obs.notes,
             is_digital: obs.is_digital,
@@ -132,6 +152,9 @@ export async function POST(request: NextRequest) {
             frequency_score: obs.frequency_score,
             impact_score: obs.impact_score,
             ease_score: obs.ease_score,
+            scores,
+            priority_score: calculatePriority(model, scores),
+            time_lost_minutes: obs.time_lost_minutes ?? null,
             created_at: obs.created_at,
           })
           .select()
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+import { loadPortfolio, parsePortfolioFilters } from "@/lib/services/portfolio";
+
+// ============================================
+// GET - Every workflow in the caller's organization
+// ============================================
+// Filters: owner, department (comma-separated), from and to (last walk date,
+// to exclusive).
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const {
+      data: { user: authUser },
+    } = await supabase.auth.getUser();
+
+    if (!authUser) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: currentUser } = await supabase
+      .from("users")
+      .select("org_id")
+      .eq("id", authUser.id)
+      .single();
+
+    const filters = parsePortfolioFilters(request.nextUrl.searchParams);
+    return NextResponse.json(await loadPortfolio(supabase, filters, currentUser?.org_id ?? null));
+  } catch (error) {
+    console.error("Portfolio error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
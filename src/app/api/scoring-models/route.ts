@@ -0,0 +1,241 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+import { createAdminSupabaseClient } from "@/lib/supabase/admin";
+import {
+  DEFAULT_SCORING_MODEL,
+  calculatePriority,
+  getLegacyScores,
+  getObservationScores,
+  rescaleScores,
+  validateScoringModel,
+  type ScoringModelDefinition,
+} from "@/lib/services/scoringModel";
+import type { ScoringModel } from "@/types";
+
+// ============================================
+// Types
+// ============================================
+
+type SaveScoringModelRequest = Pick<ScoringModel, "name" | "dimensions" | "formula">;
+
+interface ObservationScoreRow {
+  id: string;
+  session_id: string;
+  frequency_score: number;
+  impact_score: number;
+  ease_score: number;
+  scores: Record<string, number> | null;
+  priority_score: number | null;
+}
+
+interface CalibrationScoreRow {
+  id: string;
+  session_id: string;
+  consensus_scores: Record<string, number>;
+}
+
+// Keeps .in() filters well inside URL length limits
+const BATCH_SIZE = 200;
+
+// PostgREST caps every response at its max-rows setting (1000 by default)
+const PAGE_SIZE = 1000;
+
+function chunk<T>(items: T[], size = BATCH_SIZE): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+/** Read every row of a query, a page at a time, until a short page comes back */
+async function selectAll<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+// ============================================
+// POST - Save a new model version and rescore the organization
+// ============================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const {
+      data: { user: authUser },
+    } = await supabase.auth.getUser();
+
+    if (!authUser) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: currentUser, error: userError } = await supabase
+      .from("users")
+      .select("id, role, org_id")
+      .eq("id", authUser.id)
+      .single();
+
+    if (userError || !currentUser) {
+      return NextResponse.json({ error: "User profile not found" }, { status: 404 });
+    }
+
+    if (currentUser.role !== "admin" || !currentUser.org_id) {
+      return NextResponse.json(
+        { error: "Only admins can change the scoring model" },
+        { status: 403 }
+      );
+    }
+
+    const body: SaveScoringModelRequest = await request.json();
+    const input: SaveScoringModelRequest = {
+      name: body.name?.trim() || "Priority score",
+      dimensions: (body.dimensions || []).map((d) => ({
+        key: String(d.key || "").trim(),
+        label: String(d.label || "").trim(),
+        description: d.description?.trim() || undefined,
+        min: Number(d.min),
+        max: Number(d.max),
+        weight: Number(d.weight),
+      })),
+      formula: body.formula?.trim() || null,
+    };
+
+    const errors = validateScoringModel(input);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: "Invalid scoring model", details: errors }, { status: 400 });
+    }
+
+    // Save the next version
+    const { data: latest } = await supabase
+      .from("scoring_models")
+      .select("version")
+      .eq("org_id", currentUser.org_id)
+      .order("version", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const { data: model, error: insertError } = await supabase
+      .from("scoring_models")
+      .insert({
+        ...input,
+        org_id: currentUser.org_id,
+        version: (latest?.version ?? 0) + 1,
+        created_by: authUser.id,
+      })
+      .select()
+      .single();
+
+    if (insertError || !model) {
+      console.error("Failed to save scoring model:", insertError);
+      return NextResponse.json({ error: "Failed to save scoring model" }, { status: 500 });
+    }
+
+    // Rescore every observation in the organization. Observations belong to
+    // many participants, so this runs with the service role.
+    const admin = createAdminSupabaseClient();
+
+    const processes = await selectAll<{ id: string }>((from, to) =>
+      admin.from("processes").select("id").eq("org_id", currentUser.org_id).order("id").range(from, to)
+    );
+
+    const sessions: { id: string; scoring_model_id: string | null }[] = [];
+    for (const processIds of chunk(processes.map((p) => p.id))) {
+      sessions.push(
+        ...(await selectAll<{ id: string; scoring_model_id: string | null }>((from, to) =>
+          admin.from("sessions").select("id, scoring_model_id").in("process_id", processIds).order("id").range(from, to)
+        ))
+      );
+    }
+    const sessionIds = sessions.map((s) => s.id);
+
+    // Stored scores are on the scales of the version each session was scored with
+    const previousModelIds = Array.from(
+      new Set(sessions.map((s) => s.scoring_model_id).filter((id): id is string => !!id && id !== model.id))
+    );
+    const previousModels = new Map<string, ScoringModelDefinition>();
+    for (const ids of chunk(previousModelIds)) {
+      const { data, error } = await admin.from("scoring_models").select("*").in("id", ids);
+      if (error) throw error;
+      (data as ScoringModel[] | null)?.forEach((m) => previousModels.set(m.id, m));
+    }
+    const sessionModels = new Map(
+      sessions.map((s) => [s.id, (s.scoring_model_id && previousModels.get(s.scoring_model_id)) || DEFAULT_SCORING_MODEL])
+    );
+
+    // Only observations whose values change are sent, with the changed keys
+    const observationUpdates: ({ id: string } & Record<string, unknown>)[] = [];
+    for (const ids of chunk(sessionIds)) {
+      const observations = await selectAll<ObservationScoreRow>((from, to) =>
+        admin
+          .from("observations")
+          .select("id, session_id, frequency_score, impact_score, ease_score, scores, priority_score")
+          .in("session_id", ids)
+          .order("id")
+          .range(from, to)
+      );
+
+      for (const obs of observations) {
+        const previous = sessionModels.get(obs.session_id) ?? DEFAULT_SCORING_MODEL;
+        const stored = { ...(obs.scores || {}), ...getObservationScores(previous, obs) };
+        const scores = rescaleScores(previous, model, stored);
+        const priority = calculatePriority(model, getObservationScores(model, { ...obs, scores }));
+
+        const values: Record<string, unknown> = {};
+        if (Number(obs.priority_score) !== priority) values.priority_score = priority;
+        if (JSON.stringify(scores) !== JSON.stringify(stored)) {
+          Object.assign(values, { scores, ...getLegacyScores(model, scores) });
+        }
+        if (Object.keys(values).length > 0) observationUpdates.push({ id: obs.id, ...values });
+      }
+    }
+
+    // Consensus scores are on the session's scales too
+    const calibrationUpdates: { id: string; consensus_scores: Record<string, number> }[] = [];
+    for (const ids of chunk(sessionIds)) {
+      const calibrations = await selectAll<CalibrationScoreRow>((from, to) =>
+        admin
+          .from("score_calibrations")
+          .select("id, session_id, consensus_scores")
+          .in("session_id", ids)
+          .not("consensus_scores", "is", null)
+          .order("id")
+          .range(from, to)
+      );
+
+      for (const calibration of calibrations) {
+        const previous = sessionModels.get(calibration.session_id) ?? DEFAULT_SCORING_MODEL;
+        const consensus = rescaleScores(previous, model, calibration.consensus_scores);
+        if (JSON.stringify(consensus) !== JSON.stringify(calibration.consensus_scores)) {
+          calibrationUpdates.push({ id: calibration.id, consensus_scores: consensus });
+        }
+      }
+    }
+
+    // Scores and the sessions' model switch are written in one transaction,
+    // so a failure leaves every session on its old scales for a retry
+    const { error: applyError } = await admin.rpc("apply_scoring_model", {
+      p_model_id: model.id,
+      p_session_ids: sessionIds,
+      p_observations: observationUpdates,
+      p_calibrations: calibrationUpdates,
+    });
+    if (applyError) throw applyError;
+
+    return NextResponse.json({
+      model,
+      observationsRecomputed: observationUpdates.length,
+      sessionsUpdated: sessionIds.length,
+    });
+  } catch (error) {
+    console.error("Scoring model error:", error);
+    return NextResponse.json(
+      { error: "Failed to apply scoring model" },
+      { status: 500 }
+    );
+  }
+}
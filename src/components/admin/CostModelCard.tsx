@@ -0,0 +1,235 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { DollarSign, Loader2, Plus, Save, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  deleteLaborRate,
+  getLaborRates,
+  saveLaborRate,
+  updateOrganization,
+} from "@/lib/services/organizations";
+import { formatCurrency } from "@/lib/services/wasteCost";
+import type { LaborRate, LaborRateType, Organization } from "@/types";
+
+interface CostModelCardProps {
+  organization: Organization;
+  onOrganizationChange: (organization: Organization) => void;
+}
+
+export function CostModelCard({ organization, onOrganizationChange }: CostModelCardProps) {
+  const { toast } = useToast();
+  const [rates, setRates] = useState<LaborRate[]>([]);
+  const [currency, setCurrency] = useState(organization.currency || "USD");
+  const [defaultRate, setDefaultRate] = useState(
+    organization.default_hourly_rate != null ? String(organization.default_hourly_rate) : ""
+  );
+  const [newRate, setNewRate] = useState<{ rate_type: LaborRateType; name: string; hourly_rate: string }>({
+    rate_type: "lane",
+    name: "",
+    hourly_rate: "",
+  });
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    getLaborRates(organization.id)
+      .then(setRates)
+      .catch((error) => console.error("Failed to load labor rates:", error));
+  }, [organization.id]);
+
+  const handleSaveDefaults = async () => {
+    const rate = defaultRate.trim() === "" ? null : Number(defaultRate);
+    if (rate != null && (!Number.isFinite(rate) || rate < 0)) {
+      toast({ variant: "destructive", title: "Error", description: "Default rate must be 0 or more." });
+      return;
+    }
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      toast({ variant: "destructive", title: "Error", description: "Use a 3-letter currency code, e.g. USD." });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const updated = await updateOrganization(organization.id, {
+        currency,
+        default_hourly_rate: rate,
+      });
+      onOrganizationChange(updated);
+      toast({ title: "Success", description: "Cost settings updated." });
+    } catch (error) {
+      console.error("Failed to save cost settings:", error);
+      toast({ variant: "destructive", title: "Error", description: "Failed to save cost settings." });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddRate = async () => {
+    try {
+      const saved = await saveLaborRate(organization.id, {
+        rate_type: newRate.rate_type,
+        name: newRate.name,
+        hourly_rate: Number(newRate.hourly_rate),
+      });
+      setRates((prev) => [...prev.filter((r) => r.id !== saved.id), saved]);
+      setNewRate({ ...newRate, name: "", hourly_rate: "" });
+    } catch (error) {
+      console.error("Failed to save labor rate:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save labor rate.",
+      });
+    }
+  };
+
+  const handleDeleteRate = async (rateId: string) => {
+    try {
+      await deleteLaborRate(rateId);
+      setRates((prev) => prev.filter((r) => r.id !== rateId));
+    } catch (error) {
+      console.error("Failed to delete labor rate:", error);
+      toast({ variant: "destructive", title: "Error", description: "Failed to delete labor rate." });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <DollarSign className="h-5 w-5 text-brand-gold" />
+          Cost Model
+        </CardTitle>
+        <CardDescription>
+          Loaded hourly rates used to turn time lost to waste into annual cost. Rates match
+          swimlane names; lanes without a match use the default rate.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label>Currency</Label>
+            <Input
+              className="w-24"
+              maxLength={3}
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value.toUpperCase())}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Default hourly rate</Label>
+            <Input
+              className="w-36"
+              inputMode="decimal"
+              placeholder="e.g., 55"
+              value={defaultRate}
+              onChange={(e) => setDefaultRate(e.target.value)}
+            />
+          </div>
+          <Button
+            onClick={handleSaveDefaults}
+            disabled={isSaving}
+            className="bg-brand-gold hover:bg-brand-gold/90 text-brand-navy"
+          >
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Save
+          </Button>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Applies to</TableHead>
+              <TableHead>Name</TableHead>
+              <TableHead className="text-right">Hourly rate</TableHead>
+              <TableHead className="w-[70px]"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rates.map((rate) => (
+              <TableRow key={rate.id}>
+                <TableCell className="capitalize">{rate.rate_type}</TableCell>
+                <TableCell className="font-medium">{rate.name}</TableCell>
+                <TableCell className="text-right">
+                  {formatCurrency(rate.hourly_rate, organization.currency)}
+                </TableCell>
+                <TableCell>
+                  <Button variant="ghost" size="icon" onClick={() => handleDeleteRate(rate.id)}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+            <TableRow>
+              <TableCell>
+                <Select
+                  value={newRate.rate_type}
+                  onValueChange={(value) => setNewRate({ ...newRate, rate_type: value as LaborRateType })}
+                >
+                  <SelectTrigger className="w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="lane">Lane</SelectItem>
+                    <SelectItem value="role">Role</SelectItem>
+                  </SelectContent>
+                </Select>
+              </TableCell>
+              <TableCell>
+                <Input
+                  placeholder="e.g., Nurse"
+                  value={newRate.name}
+                  onChange={(e) => setNewRate({ ...newRate, name: e.target.value })}
+                />
+              </TableCell>
+              <TableCell>
+                <Input
+                  className="text-right"
+                  inputMode="decimal"
+                  placeholder="0"
+                  value={newRate.hourly_rate}
+                  onChange={(e) => setNewRate({ ...newRate, hourly_rate: e.target.value })}
+                />
+              </TableCell>
+              <TableCell>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={handleAddRate}
+                  disabled={!newRate.name.trim() || newRate.hourly_rate.trim() === ""}
+                >
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,263 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, Plus, Save, SlidersHorizontal, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { getActiveScoringModel, saveScoringModel } from "@/lib/services/organizations";
+import {
+  WEIGHTED_SUM_VARIABLE,
+  calculatePriority,
+  getDefaultScores,
+  validateScoringModel,
+  type ScoringModelDefinition,
+} from "@/lib/services/scoringModel";
+import type { Organization } from "@/types";
+
+interface ScoringModelCardProps {
+  organization: Organization;
+}
+
+// Inputs are edited as text so partially typed numbers don't snap back
+interface DimensionDraft {
+  key: string;
+  label: string;
+  min: string;
+  max: string;
+  weight: string;
+}
+
+function toDraft(model: ScoringModelDefinition): DimensionDraft[] {
+  return model.dimensions.map((d) => ({
+    key: d.key,
+    label: d.label,
+    min: String(d.min),
+    max: String(d.max),
+    weight: String(d.weight),
+  }));
+}
+
+export function ScoringModelCard({ organization }: ScoringModelCardProps) {
+  const { toast } = useToast();
+  const [active, setActive] = useState<ScoringModelDefinition | null>(null);
+  const [name, setName] = useState("");
+  const [formula, setFormula] = useState("");
+  const [dimensions, setDimensions] = useState<DimensionDraft[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const reset = useCallback((model: ScoringModelDefinition) => {
+    setActive(model);
+    setName(model.name);
+    setFormula(model.formula || "");
+    setDimensions(toDraft(model));
+  }, []);
+
+  useEffect(() => {
+    getActiveScoringModel(organization.id)
+      .then(reset)
+      .catch((error) => console.error("Failed to load scoring model:", error));
+  }, [organization.id, reset]);
+
+  const draft: ScoringModelDefinition = useMemo(
+    () => ({
+      name,
+      formula: formula.trim() || null,
+      dimensions: dimensions.map((d) => ({
+        key: d.key.trim(),
+        label: d.label.trim(),
+        min: Number(d.min),
+        max: Number(d.max),
+        weight: Number(d.weight),
+      })),
+    }),
+    [name, formula, dimensions]
+  );
+
+  const errors = useMemo(() => validateScoringModel(draft), [draft]);
+
+  // Priority at the middle of every scale, as a sanity check on the formula
+  const preview = errors.length === 0 ? calculatePriority(draft, getDefaultScores(draft)) : null;
+
+  const updateDimension = (index: number, patch: Partial<DimensionDraft>) => {
+    setDimensions((prev) => prev.map((d, i) => (i === index ? { ...d, ...patch } : d)));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const result = await saveScoringModel(draft);
+      reset(result.model);
+      toast({
+        title: "Scoring model saved",
+        description: `Version ${result.model.version} is active. Recomputed ${result.observationsRecomputed} observations across ${result.sessionsUpdated} sessions.`,
+      });
+    } catch (error) {
+      console.error("Failed to save scoring model:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save scoring model.",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!active) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <SlidersHorizontal className="h-5 w-5 text-brand-gold" />
+          Scoring Model
+          <Badge variant="outline">{active.version ? `v${active.version}` : "Default"}</Badge>
+        </CardTitle>
+        <CardDescription>
+          The dimensions participants rate each observation on and the formula that turns them
+          into a priority score. Saving creates a new version and recomputes existing observations.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Score name</Label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>Formula</Label>
+            <Input
+              className="font-mono"
+              placeholder={`Blank uses ${WEIGHTED_SUM_VARIABLE}`}
+              value={formula}
+              onChange={(e) => setFormula(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Use dimension keys, {WEIGHTED_SUM_VARIABLE}, + - * / ( ) and min, max, abs, round.
+            </p>
+          </div>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Key</TableHead>
+              <TableHead>Label</TableHead>
+              <TableHead className="w-20">Min</TableHead>
+              <TableHead className="w-20">Max</TableHead>
+              <TableHead className="w-24">Weight</TableHead>
+              <TableHead className="w-[70px]"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {dimensions.map((dimension, index) => (
+              <TableRow key={index}>
+                <TableCell>
+                  <Input
+                    className="font-mono"
+                    placeholder="e.g., safety"
+                    value={dimension.key}
+                    onChange={(e) => updateDimension(index, { key: e.target.value.toLowerCase() })}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    placeholder="e.g., Safety Risk"
+                    value={dimension.label}
+                    onChange={(e) => updateDimension(index, { label: e.target.value })}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    inputMode="numeric"
+                    value={dimension.min}
+                    onChange={(e) => updateDimension(index, { min: e.target.value })}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    inputMode="numeric"
+                    value={dimension.max}
+                    onChange={(e) => updateDimension(index, { max: e.target.value })}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    inputMode="decimal"
+                    value={dimension.weight}
+                    onChange={(e) => updateDimension(index, { weight: e.target.value })}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setDimensions((prev) => prev.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <Button
+            variant="outline"
+            onClick={() =>
+              setDimensions((prev) => [...prev, { key: "", label: "", min: "1", max: "5", weight: "1" }])
+            }
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add dimension
+          </Button>
+          <div className="flex items-center gap-4">
+            {preview != null && (
+              <span className="text-sm text-muted-foreground">
+                Mid-scale score: <span className="font-medium text-foreground">{preview}</span>
+              </span>
+            )}
+            <Button variant="ghost" onClick={() => reset(active)} disabled={isSaving}>
+              Reset
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={isSaving || errors.length > 0}
+              className="bg-brand-gold hover:bg-brand-gold/90 text-brand-navy"
+            >
+              {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+              Save new version
+            </Button>
+          </div>
+        </div>
+
+        {errors.length > 0 && (
+          <ul className="space-y-1 text-sm text-destructive">
+            {errors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,182 @@
+"use client";
+
+import { addDays, format, parseISO, subDays } from "date-fns";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { AnalyticsFilters, WasteCategory } from "@/lib/services/analyticsQuery";
+
+const ALL = "all";
+
+interface AnalyticsFilterBarProps {
+  filters: AnalyticsFilters;
+  onChange: (filters: AnalyticsFilters) => void;
+  processes: { id: string; name: string }[];
+  sessions: { id: string; name: string; process_id: string }[];
+  lanes: string[];
+}
+
+// The API's end date is exclusive; people pick the last day they want included
+const toInclusiveDate = (to?: string) => (to ? format(subDays(parseISO(to), 1), "yyyy-MM-dd") : "");
+const toExclusiveDate = (date: string) => (date ? format(addDays(parseISO(date), 1), "yyyy-MM-dd") : undefined);
+
+/** Workflow, session, date, lane, category and digital/physical filters for analytics */
+export function AnalyticsFilterBar({ filters, onChange, processes, sessions, lanes }: AnalyticsFilterBarProps) {
+  const processId = filters.processIds?.[0] ?? ALL;
+  const visibleSessions = processId === ALL ? sessions : sessions.filter((s) => s.process_id === processId);
+  const wasteKind = filters.isDigital ? "digital" : filters.isPhysical ? "physical" : ALL;
+  const hasFilters = Object.keys(filters).length > 0;
+
+  const update = (changes: Partial<AnalyticsFilters>) => {
+    const next: AnalyticsFilters = { ...filters, ...changes };
+    (Object.keys(next) as (keyof AnalyticsFilters)[]).forEach((key) => {
+      if (next[key] === undefined) delete next[key];
+    });
+    onChange(next);
+  };
+
+  return (
+    <Card>
+      <CardContent className="pt-4 grid gap-3 grid-cols-2 md:grid-cols-4 xl:grid-cols-8 items-end">
+        <div className="space-y-1">
+          <Label className="text-xs">Workflow</Label>
+          <Select
+            value={processId}
+            onValueChange={(value) =>
+              update({ processIds: value === ALL ? undefined : [value], sessionIds: undefined, lanes: undefined })
+            }
+          >
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All workflows</SelectItem>
+              {processes.map((process) => (
+                <SelectItem key={process.id} value={process.id}>
+                  {process.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs">Session</Label>
+          <Select
+            value={filters.sessionIds?.[0] ?? ALL}
+            onValueChange={(value) => update({ sessionIds: value === ALL ? undefined : [value] })}
+          >
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All sessions</SelectItem>
+              {visibleSessions.map((session) => (
+                <SelectItem key={session.id} value={session.id}>
+                  {session.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="analytics-from" className="text-xs">From</Label>
+          <Input
+            id="analytics-from"
+            type="date"
+            className="h-9"
+            value={filters.from ?? ""}
+            onChange={(e) => update({ from: e.target.value || undefined })}
+          />
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="analytics-to" className="text-xs">To</Label>
+          <Input
+            id="analytics-to"
+            type="date"
+            className="h-9"
+            value={toInclusiveDate(filters.to)}
+            onChange={(e) => update({ to: toExclusiveDate(e.target.value) })}
+          />
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs">Lane</Label>
+          <Select
+            value={filters.lanes?.[0] ?? ALL}
+            onValueChange={(value) => update({ lanes: value === ALL ? undefined : [value] })}
+          >
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All lanes</SelectItem>
+              {lanes.map((lane) => (
+                <SelectItem key={lane} value={lane}>
+                  {lane}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs">Waste category</Label>
+          <Select
+            value={filters.wasteCategories?.[0] ?? ALL}
+            onValueChange={(value) =>
+              update({ wasteCategories: value === ALL ? undefined : [value as WasteCategory] })
+            }
+          >
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All categories</SelectItem>
+              <SelectItem value="core_lean">Core lean</SelectItem>
+              <SelectItem value="digital">Digital</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs">Digital / physical</Label>
+          <Select
+            value={wasteKind}
+            onValueChange={(value) =>
+              update({
+                isDigital: value === "digital" ? true : undefined,
+                isPhysical: value === "physical" ? true : undefined,
+              })
+            }
+          >
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Both</SelectItem>
+              <SelectItem value="digital">Digital</SelectItem>
+              <SelectItem value="physical">Physical</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Button variant="ghost" className="h-9" onClick={() => onChange({})} disabled={!hasFilters}>
+          <X className="mr-1 h-4 w-4" />
+          Clear filters
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
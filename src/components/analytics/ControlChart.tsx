@@ -0,0 +1,144 @@
+"use client";
+
+import { format } from "date-fns";
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  countPointsBefore,
+  detectControlSignals,
+  type ControlLimits,
+  type ProcessTrendPoint,
+  type TrendAnnotation,
+} from "@/lib/services/processTrends";
+
+interface ControlChartProps {
+  title: string;
+  points: ProcessTrendPoint[];
+  values: number[];
+  limits: ControlLimits | null;
+  annotations: TrendAnnotation[];
+  /** Judge only the points after the baseline when limits come from earlier sessions */
+  baselineSize?: number;
+  color?: string;
+  compact?: boolean;
+}
+
+const SIGNAL_COLOR = "#DC2626";
+
+/** XmR individuals chart: one point per session with mean and control limits */
+export function ControlChart({
+  title,
+  points,
+  values,
+  limits,
+  annotations,
+  baselineSize,
+  color = "#102A43",
+  compact = false,
+}: ControlChartProps) {
+  const signals = detectControlSignals(values, limits);
+  const signalIndexes = new Set(signals.map((s) => s.index));
+  const judgedFrom = baselineSize ?? 0;
+  const hasSignal = signals.some((s) => s.index >= judgedFrom);
+
+  const data = points.map((point, index) => ({
+    sessionId: point.sessionId,
+    sessionName: point.sessionName,
+    date: point.date,
+    value: values[index],
+  }));
+
+  // Annotations sit on the first session on or after them
+  const markers = annotations
+    .map((annotation) => ({ annotation, index: countPointsBefore(points, annotation.date) }))
+    .filter((marker) => marker.index < points.length);
+
+  const dateLabel = (sessionId: string) => {
+    const point = points.find((p) => p.sessionId === sessionId);
+    return point ? format(new Date(point.date), "MMM d, yy") : "";
+  };
+
+  return (
+    <Card>
+      <CardHeader className={compact ? "pb-2" : undefined}>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className={compact ? "text-sm" : undefined}>{title}</CardTitle>
+            {limits && (
+              <CardDescription className="text-xs">
+                Mean {limits.mean} · limits {limits.lower}–{limits.upper}
+              </CardDescription>
+            )}
+          </div>
+          {limits ? (
+            <Badge variant={hasSignal ? "destructive" : "secondary"} className="text-xs shrink-0">
+              {hasSignal ? "Signal" : "Stable"}
+            </Badge>
+          ) : (
+            <Badge variant="outline" className="text-xs shrink-0">
+              Needs 2+ sessions
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <ResponsiveContainer width="100%" height={compact ? 180 : 280}>
+          <LineChart data={data} margin={{ top: 16, right: 16, left: 0, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="sessionId" tickFormatter={dateLabel} fontSize={11} />
+            <YAxis fontSize={11} />
+            <Tooltip
+              labelFormatter={(sessionId) => {
+                const point = data.find((d) => d.sessionId === sessionId);
+                return point ? `${point.sessionName} (${dateLabel(point.sessionId)})` : "";
+              }}
+              formatter={(value) => [value, title]}
+            />
+            {limits && (
+              <>
+                <ReferenceLine y={limits.mean} stroke="#6B7280" />
+                <ReferenceLine y={limits.upper} stroke={SIGNAL_COLOR} strokeDasharray="4 4" />
+                <ReferenceLine y={limits.lower} stroke={SIGNAL_COLOR} strokeDasharray="4 4" />
+              </>
+            )}
+            {markers.map(({ annotation, index }) => (
+              <ReferenceLine
+                key={annotation.id}
+                x={points[index].sessionId}
+                stroke={annotation.kind === "wave_completed" ? "#7C3AED" : "#059669"}
+                strokeDasharray="2 2"
+                label={compact ? undefined : { value: annotation.label, position: "top", fontSize: 10 }}
+              />
+            ))}
+            <Line
+              type="linear"
+              dataKey="value"
+              stroke={color}
+              strokeWidth={2}
+              isAnimationActive={false}
+              dot={(props: { cx?: number; cy?: number; index?: number }) => (
+                <circle
+                  key={props.index}
+                  cx={props.cx}
+                  cy={props.cy}
+                  r={signalIndexes.has(props.index ?? -1) ? 5 : 3}
+                  fill={signalIndexes.has(props.index ?? -1) ? SIGNAL_COLOR : color}
+                />
+              )}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  );
+}
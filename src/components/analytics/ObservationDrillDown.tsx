@@ -0,0 +1,145 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { formatDistanceToNow } from "date-fns";
+import { ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { getAnalyticsObservations } from "@/lib/services/analytics";
+import type { AnalyticsFilters, AnalyticsObservation, AnalyticsPage } from "@/lib/services/analyticsQuery";
+
+const PAGE_SIZE = 20;
+
+interface ObservationDrillDownProps {
+  /** What was clicked; null closes the sheet */
+  target: { title: string; filters: AnalyticsFilters } | null;
+  onClose: () => void;
+}
+
+/** The observations behind a chart segment or hotspot, a page at a time */
+export function ObservationDrillDown({ target, onClose }: ObservationDrillDownProps) {
+  const [page, setPage] = useState(1);
+  const [data, setData] = useState<AnalyticsPage<AnalyticsObservation> | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the first page whenever the target changes
+  useEffect(() => {
+    setPage(1);
+  }, [target]);
+
+  useEffect(() => {
+    if (!target) return;
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const result = await getAnalyticsObservations(target.filters, { page, pageSize: PAGE_SIZE });
+        if (!cancelled) setData(result);
+      } catch (loadError) {
+        console.error("Failed to load observations:", loadError);
+        if (!cancelled) setError("Failed to load observations.");
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [target, page]);
+
+  const pageCount = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+  return (
+    <Sheet open={!!target} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-[400px] sm:w-[540px] p-0">
+        <SheetHeader className="p-6 pb-4 border-b">
+          <SheetTitle>{target?.title}</SheetTitle>
+          <SheetDescription>
+            {data ? `${data.total} observation${data.total === 1 ? "" : "s"}, highest priority first` : "Loading..."}
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="h-[calc(100vh-180px)]">
+          <div className="p-6 space-y-3">
+            {isLoading && (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-brand-gold" />
+              </div>
+            )}
+            {!isLoading && error && <p className="text-sm text-destructive">{error}</p>}
+            {!isLoading &&
+              !error &&
+              data?.rows.map((obs) => (
+                <div key={obs.id} className="rounded-lg border p-3 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{obs.step_name || "Handoff"}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {obs.lane} ·{" "}
+                        <Link href={`/sessions/${obs.session_id}/results`} className="hover:underline">
+                          {obs.session_name}
+                        </Link>{" "}
+                        · {formatDistanceToNow(new Date(obs.created_at), { addSuffix: true })}
+                      </p>
+                    </div>
+                    <span className="text-lg font-bold shrink-0">{obs.priority_score}</span>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {obs.waste_types.map((wt) => (
+                      <Badge key={wt} variant="outline" className="text-xs">
+                        {wt}
+                      </Badge>
+                    ))}
+                    {obs.is_digital && <Badge variant="secondary" className="text-xs">Digital</Badge>}
+                    {obs.is_physical && <Badge variant="secondary" className="text-xs">Physical</Badge>}
+                  </div>
+                  {obs.notes && <p className="text-sm text-muted-foreground line-clamp-3">{obs.notes}</p>}
+                </div>
+              ))}
+            {!isLoading && !error && data?.rows.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-8">No observations match.</p>
+            )}
+          </div>
+        </ScrollArea>
+
+        <div className="flex items-center justify-between border-t px-6 py-3">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage((p) => p - 1)}
+            disabled={isLoading || page <= 1}
+          >
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Previous
+          </Button>
+          <span className="text-xs text-muted-foreground">
+            Page {page} of {pageCount}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage((p) => p + 1)}
+            disabled={isLoading || page >= pageCount}
+          >
+            Next
+            <ChevronRight className="h-4 w-4 ml-1" />
+          </Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
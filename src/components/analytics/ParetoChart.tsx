@@ -0,0 +1,198 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  Bar,
+  CartesianGrid,
+  Cell,
+  ComposedChart,
+  Line,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { BarChart3, Layers, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getParetoAnalysis } from "@/lib/services/analytics";
+import { getSingleSessionId, type AnalyticsFilters } from "@/lib/services/analyticsQuery";
+import {
+  getParetoBarFilters,
+  getParetoFocusHref,
+  getVitalFewFocus,
+  PARETO_DIMENSIONS,
+  PARETO_MEASURES,
+  type ParetoAnalysis,
+  type ParetoDimension,
+  type ParetoMeasure,
+} from "@/lib/services/pareto";
+import { formatCurrency } from "@/lib/services/wasteCost";
+
+const VITAL_FEW_COLOR = "#102A43";
+const TRIVIAL_MANY_COLOR = "#CBD5E1";
+
+interface ParetoChartProps {
+  filters: AnalyticsFilters;
+  onDrillDown: (target: { title: string; filters: AnalyticsFilters }) => void;
+}
+
+/** Ranked bars with a cumulative line and the 80/20 vital-few cut-off */
+export function ParetoChart({ filters, onDrillDown }: ParetoChartProps) {
+  const router = useRouter();
+  const [dimension, setDimension] = useState<ParetoDimension>("waste_type");
+  const [measure, setMeasure] = useState<ParetoMeasure>("count");
+  const [analysis, setAnalysis] = useState<ParetoAnalysis | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const result = await getParetoAnalysis(filters, dimension, measure);
+        if (!cancelled) setAnalysis(result);
+      } catch (loadError) {
+        console.error("Failed to load Pareto analysis:", loadError);
+        if (!cancelled) setError("Failed to load Pareto analysis.");
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [filters, dimension, measure]);
+
+  const sessionId = getSingleSessionId(filters);
+  const formatValue = (value: number) =>
+    measure === "cost" ? formatCurrency(value, analysis?.currency) : value.toLocaleString();
+  const measureLabel = PARETO_MEASURES.find((m) => m.value === measure)?.label.toLowerCase();
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col lg:flex-row lg:items-start justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <BarChart3 className="h-5 w-5 text-brand-gold" />
+              Pareto Analysis
+            </CardTitle>
+            <CardDescription>
+              {analysis && analysis.vitalFewCount > 0
+                ? `The vital few: ${analysis.vitalFewCount} of ${analysis.bars.length} account for ${analysis.vitalFewShare}% of ${measureLabel}`
+                : "Which few causes account for most of the waste"}
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={dimension} onValueChange={(value) => setDimension(value as ParetoDimension)}>
+              <SelectTrigger className="h-9 w-[170px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PARETO_DIMENSIONS.map((d) => (
+                  <SelectItem key={d.value} value={d.value}>
+                    {d.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={measure} onValueChange={(value) => setMeasure(value as ParetoMeasure)}>
+              <SelectTrigger className="h-9 w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PARETO_MEASURES.map((m) => (
+                  <SelectItem key={m.value} value={m.value}>
+                    {m.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              size="sm"
+              className="h-9 bg-brand-gold hover:bg-brand-gold/90 text-brand-navy"
+              disabled={!sessionId || !analysis || analysis.vitalFewCount === 0}
+              title={sessionId ? undefined : "Filter to one session to send its vital few to synthesis"}
+              onClick={() => {
+                if (analysis && sessionId) router.push(getParetoFocusHref(sessionId, getVitalFewFocus(analysis)));
+              }}
+            >
+              <Layers className="mr-2 h-4 w-4" />
+              Send vital few to synthesis
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="h-[320px] flex items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-brand-gold" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : !analysis || analysis.bars.length === 0 ? (
+          <div className="h-[320px] flex items-center justify-center text-muted-foreground">
+            {measure === "cost" ? "No cost data available" : "No data available"}
+          </div>
+        ) : (
+          <div className="h-[320px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={analysis.bars} margin={{ top: 8, right: 8, left: 0, bottom: 40 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="label" angle={-35} textAnchor="end" interval={0} tick={{ fontSize: 10 }} />
+                <YAxis yAxisId="value" tickFormatter={formatValue} tick={{ fontSize: 11 }} />
+                <YAxis yAxisId="cumulative" orientation="right" domain={[0, 100]} unit="%" tick={{ fontSize: 11 }} />
+                <Tooltip
+                  formatter={(value, name) =>
+                    name === "Cumulative" ? [`${value}%`, name] : [formatValue(Number(value)), name]
+                  }
+                />
+                <ReferenceLine yAxisId="cumulative" y={analysis.cutoff} stroke="#DC2626" strokeDasharray="4 4" />
+                <Bar
+                  yAxisId="value"
+                  dataKey="value"
+                  name={PARETO_MEASURES.find((m) => m.value === measure)?.label}
+                  className="cursor-pointer"
+                  onClick={(_, index) => {
+                    const bar = analysis.bars[index];
+                    if (bar) {
+                      onDrillDown({ title: bar.label, filters: getParetoBarFilters(filters, dimension, bar.key) });
+                    }
+                  }}
+                >
+                  {analysis.bars.map((bar) => (
+                    <Cell key={bar.key} fill={bar.isVitalFew ? VITAL_FEW_COLOR : TRIVIAL_MANY_COLOR} />
+                  ))}
+                </Bar>
+                <Line
+                  yAxisId="cumulative"
+                  type="monotone"
+                  dataKey="cumulativePercentage"
+                  name="Cumulative"
+                  stroke="#D4A84B"
+                  strokeWidth={2}
+                  dot={{ r: 3 }}
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
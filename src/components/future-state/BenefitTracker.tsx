@@ -0,0 +1,586 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, Loader2, Pencil, Plus, Target, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import {
+  DEFAULT_MEASURE_EVERY_DAYS,
+  IMPLEMENTATION_STATUSES,
+  getRealizationRate,
+  isMeasuredStatus,
+  type BenefitRealization,
+  type BenefitRollUp,
+  type KpiProgress,
+  type SolutionBenefit,
+} from "@/lib/services/benefitRealization";
+import {
+  createSolutionKpi,
+  deleteSolutionKpi,
+  getBenefitRealization,
+  recordKpiMeasurement,
+  updateImplementationStatus,
+  updateSolutionKpi,
+  type SolutionKpiInput,
+} from "@/lib/services/benefits";
+import { formatCurrency } from "@/lib/services/wasteCost";
+import type { ImplementationItemStatus, SolutionKpi } from "@/types";
+
+interface BenefitTrackerProps {
+  sessionId: string;
+}
+
+interface KpiDraft {
+  solutionId: string;
+  kpi?: SolutionKpi;
+  metricId: string;
+  name: string;
+  unit: string;
+  baseline: string;
+  target: string;
+  annualValue: string;
+  every: string;
+}
+
+const NO_METRIC = "none";
+
+const statusColors: Record<ImplementationItemStatus, string> = {
+  not_started: "bg-slate-100 text-slate-700",
+  in_progress: "bg-blue-100 text-blue-700",
+  done: "bg-emerald-100 text-emerald-700",
+  abandoned: "bg-red-100 text-red-700",
+};
+
+// Workflow metrics hold free text; take the first number in it
+const parseMetricValue = (value?: string) => value?.replace(/,/g, "").match(/-?\d+(\.\d+)?/)?.[0] ?? "";
+
+export function BenefitTracker({ sessionId }: BenefitTrackerProps) {
+  const [realization, setRealization] = useState<BenefitRealization | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState<KpiDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [actuals, setActuals] = useState<Record<string, { date: string; value: string }>>({});
+  const { toast } = useToast();
+
+  const fetchData = useCallback(async () => {
+    try {
+      setRealization(await getBenefitRealization(sessionId));
+    } catch (error) {
+      console.error("Error loading benefit realization:", error);
+      toast({
+        variant: "destructive",
+        title: "Failed to load benefits",
+        description: "Could not load KPIs and implementation status.",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId, toast]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const handleStatusChange = async (solution: SolutionBenefit, status: ImplementationItemStatus) => {
+    if (!solution.itemId) return;
+    try {
+      await updateImplementationStatus(solution.itemId, status);
+      await fetchData();
+    } catch (error) {
+      console.error("Error updating implementation status:", error);
+      toast({
+        variant: "destructive",
+        title: "Update Failed",
+        description: "Only the facilitator can change implementation status.",
+      });
+    }
+  };
+
+  const openKpiDialog = (solutionId: string, kpi?: SolutionKpi) => {
+    setDraft({
+      solutionId,
+      kpi,
+      metricId: kpi?.metric_id || NO_METRIC,
+      name: kpi?.name || "",
+      unit: kpi?.unit || "",
+      baseline: kpi ? String(kpi.baseline_value) : "",
+      target: kpi ? String(kpi.target_value) : "",
+      annualValue: kpi?.annual_value != null ? String(kpi.annual_value) : "",
+      every: String(kpi?.measure_every_days ?? DEFAULT_MEASURE_EVERY_DAYS),
+    });
+  };
+
+  // Linking a workflow metric fills in what it already knows
+  const handleMetricChange = (metricId: string) => {
+    if (!draft) return;
+    const metric = realization?.metrics.find((m) => m.id === metricId);
+    setDraft({
+      ...draft,
+      metricId,
+      name: metric && !draft.name ? metric.name : draft.name,
+      baseline: metric && !draft.baseline ? parseMetricValue(metric.current_value) : draft.baseline,
+      target: metric && !draft.target ? parseMetricValue(metric.target_value) : draft.target,
+    });
+  };
+
+  const draftError = (() => {
+    if (!draft) return null;
+    if (!draft.name.trim()) return "Name the KPI";
+    if (draft.baseline === "" || draft.target === "") return "Enter a baseline and a target";
+    if (Number(draft.baseline) === Number(draft.target)) return "The target must differ from the baseline";
+    if (!(Number(draft.every) > 0)) return "Measure at least every day";
+    return null;
+  })();
+
+  const handleSaveKpi = async () => {
+    if (!draft || draftError) return;
+    const input: SolutionKpiInput = {
+      name: draft.name,
+      metricId: draft.metricId === NO_METRIC ? null : draft.metricId,
+      unit: draft.unit,
+      baselineValue: Number(draft.baseline),
+      targetValue: Number(draft.target),
+      annualValue: draft.annualValue === "" ? null : Number(draft.annualValue),
+      measureEveryDays: Math.round(Number(draft.every)),
+    };
+
+    setSaving(true);
+    try {
+      if (draft.kpi) {
+        await updateSolutionKpi(draft.kpi.id, input);
+      } else {
+        await createSolutionKpi(draft.solutionId, input);
+      }
+      setDraft(null);
+      await fetchData();
+    } catch (error) {
+      console.error("Error saving KPI:", error);
+      toast({ variant: "destructive", title: "Save Failed", description: "Failed to save the KPI." });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteKpi = async (kpi: SolutionKpi) => {
+    if (!confirm(`Delete "${kpi.name}" and its measurements?`)) return;
+    try {
+      await deleteSolutionKpi(kpi.id);
+      await fetchData();
+    } catch (error) {
+      console.error("Error deleting KPI:", error);
+      toast({ variant: "destructive", title: "Delete Failed", description: "Failed to delete the KPI." });
+    }
+  };
+
+  const handleRecord = async (kpiId: string) => {
+    const actual = actuals[kpiId];
+    if (!actual?.value) return;
+    try {
+      await recordKpiMeasurement(kpiId, actual.date || format(new Date(), "yyyy-MM-dd"), Number(actual.value));
+      setActuals((prev) => {
+        const next = { ...prev };
+        delete next[kpiId];
+        return next;
+      });
+      await fetchData();
+    } catch (error) {
+      console.error("Error recording measurement:", error);
+      toast({ variant: "destructive", title: "Save Failed", description: "Failed to record the measurement." });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-24 rounded-xl" />
+        <Skeleton className="h-64 rounded-xl" />
+      </div>
+    );
+  }
+
+  if (!realization || realization.solutions.length === 0) {
+    return (
+      <Card className="border-dashed">
+        <CardContent className="flex flex-col items-center justify-center py-12">
+          <Target className="h-12 w-12 text-muted-foreground/50 mb-4" />
+          <p className="text-sm text-muted-foreground">Accept solutions to track their benefits</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { total, currency } = realization;
+  const money = (value: number) => formatCurrency(value, currency);
+  const waveNames = new Map(realization.waves.map((w) => [w.key, w.label]));
+
+  return (
+    <div className="space-y-6">
+      {/* Totals */}
+      <div className="grid gap-4 md:grid-cols-4">
+        {[
+          { label: "Expected annual benefit", value: money(total.expectedValue) },
+          { label: "Realized so far", value: money(total.realizedValue) },
+          {
+            label: "Realization",
+            value: getRealizationRate(total) === null ? "—" : `${getRealizationRate(total)}%`,
+          },
+          { label: "Overdue measurements", value: total.overdueCount, alert: total.overdueCount > 0 },
+        ].map((stat) => (
+          <Card key={stat.label}>
+            <CardContent className="pt-4">
+              <p className="text-xs text-muted-foreground">{stat.label}</p>
+              <p className={cn("text-2xl font-bold text-brand-navy", stat.alert && "text-red-600")}>{stat.value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Roll-ups */}
+      <div className="grid gap-4 lg:grid-cols-2">
+        <RollUpTable title="By Wave" rollUps={realization.waves} money={money} />
+        {realization.futureStates.length > 0 && (
+          <RollUpTable title="By Future State" rollUps={realization.futureStates} money={money} />
+        )}
+      </div>
+
+      {/* Solutions */}
+      <div className="space-y-4">
+        {realization.solutions.map((solution) => (
+          <Card key={solution.solutionId}>
+            <CardHeader className="pb-2">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <CardTitle className="text-sm">{solution.title}</CardTitle>
+                  <CardDescription className="text-xs">
+                    {solution.waveId ? waveNames.get(solution.waveId) : "Not sequenced"}
+                  </CardDescription>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {solution.itemId ? (
+                    <Select
+                      value={solution.status}
+                      onValueChange={(value) => handleStatusChange(solution, value as ImplementationItemStatus)}
+                    >
+                      <SelectTrigger className={cn("h-8 w-36 text-xs", statusColors[solution.status])}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {IMPLEMENTATION_STATUSES.map((status) => (
+                          <SelectItem key={status.value} value={status.value}>
+                            {status.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Badge variant="outline" className="text-xs" title="Generate the roadmap to track status">
+                      Not sequenced
+                    </Badge>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-8 gap-1 text-xs"
+                    onClick={() => openKpiDialog(solution.solutionId)}
+                  >
+                    <Plus className="h-3 w-3" />
+                    KPI
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {solution.kpis.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No KPIs yet. Add one to track what this solution delivers.</p>
+              ) : (
+                solution.kpis.map((progress) => (
+                  <KpiRow
+                    key={progress.kpi.id}
+                    progress={progress}
+                    measuring={isMeasuredStatus(solution.status)}
+                    money={money}
+                    actual={actuals[progress.kpi.id] || { date: format(new Date(), "yyyy-MM-dd"), value: "" }}
+                    onActualChange={(actual) => setActuals((prev) => ({ ...prev, [progress.kpi.id]: actual }))}
+                    onRecord={() => handleRecord(progress.kpi.id)}
+                    onEdit={() => openKpiDialog(solution.solutionId, progress.kpi)}
+                    onDelete={() => handleDeleteKpi(progress.kpi)}
+                  />
+                ))
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* KPI dialog */}
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{draft?.kpi ? "Edit KPI" : "Add KPI"}</DialogTitle>
+            <DialogDescription>
+              Progress is measured from the baseline (0%) to the target (100%).
+            </DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="grid gap-3 grid-cols-2">
+              <div className="col-span-2 space-y-1">
+                <Label className="text-xs">Workflow metric</Label>
+                <Select value={draft.metricId} onValueChange={handleMetricChange}>
+                  <SelectTrigger className="h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_METRIC}>None</SelectItem>
+                    {realization.metrics.map((metric) => (
+                      <SelectItem key={metric.id} value={metric.id}>
+                        {metric.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="kpi-name" className="text-xs">Name</Label>
+                <Input
+                  id="kpi-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="e.g., Average handling time"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="kpi-unit" className="text-xs">Unit</Label>
+                <Input
+                  id="kpi-unit"
+                  value={draft.unit}
+                  onChange={(e) => setDraft({ ...draft, unit: e.target.value })}
+                  placeholder="e.g., minutes"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="kpi-baseline" className="text-xs">Baseline</Label>
+                <Input
+                  id="kpi-baseline"
+                  type="number"
+                  value={draft.baseline}
+                  onChange={(e) => setDraft({ ...draft, baseline: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="kpi-target" className="text-xs">Target</Label>
+                <Input
+                  id="kpi-target"
+                  type="number"
+                  value={draft.target}
+                  onChange={(e) => setDraft({ ...draft, target: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="kpi-value" className="text-xs">Annual value at target ({currency})</Label>
+                <Input
+                  id="kpi-value"
+                  type="number"
+                  min={0}
+                  value={draft.annualValue}
+                  onChange={(e) => setDraft({ ...draft, annualValue: e.target.value })}
+                  placeholder="Optional"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="kpi-every" className="text-xs">Measure every (days)</Label>
+                <Input
+                  id="kpi-every"
+                  type="number"
+                  min={1}
+                  value={draft.every}
+                  onChange={(e) => setDraft({ ...draft, every: e.target.value })}
+                />
+              </div>
+              {draftError && <p className="col-span-2 text-xs text-muted-foreground">{draftError}</p>}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveKpi} disabled={saving || !!draftError}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save KPI
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+function RollUpTable({
+  title,
+  rollUps,
+  money,
+}: {
+  title: string;
+  rollUps: BenefitRollUp[];
+  money: (value: number) => string;
+}) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead className="text-right">Done</TableHead>
+              <TableHead className="text-right">Progress</TableHead>
+              <TableHead className="text-right">Realized / Expected</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rollUps.map((rollUp) => (
+              <TableRow key={rollUp.key}>
+                <TableCell className="font-medium">
+                  {rollUp.label}
+                  {rollUp.overdueCount > 0 && (
+                    <Badge variant="outline" className="ml-2 text-[10px] text-red-600 border-red-200">
+                      {rollUp.overdueCount} overdue
+                    </Badge>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">
+                  {rollUp.statusCounts.done}/{rollUp.solutionCount}
+                </TableCell>
+                <TableCell className="text-right">
+                  {rollUp.averageProgress === null ? "—" : `${rollUp.averageProgress}%`}
+                </TableCell>
+                <TableCell className="text-right">
+                  {money(rollUp.realizedValue)} / {money(rollUp.expectedValue)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
+
+function KpiRow({
+  progress,
+  measuring,
+  money,
+  actual,
+  onActualChange,
+  onRecord,
+  onEdit,
+  onDelete,
+}: {
+  progress: KpiProgress;
+  measuring: boolean;
+  money: (value: number) => string;
+  actual: { date: string; value: string };
+  onActualChange: (actual: { date: string; value: string }) => void;
+  onRecord: () => void;
+  onEdit: () => void;
+  onDelete: () => void;
+}) {
+  const { kpi, latest } = progress;
+  const unit = kpi.unit ? ` ${kpi.unit}` : "";
+
+  return (
+    <div className="p-3 border rounded-lg space-y-2">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <p className="text-sm font-medium">{kpi.name}</p>
+          <p className="text-xs text-muted-foreground">
+            {kpi.baseline_value}
+            {unit} → {kpi.target_value}
+            {unit}
+            {latest && (
+              <>
+                {" "}
+                · latest {latest.value}
+                {unit} on {format(parseISO(latest.measured_on), "MMM d, yyyy")}
+              </>
+            )}
+            {kpi.annual_value != null && <> · {money(kpi.annual_value)}/yr at target</>}
+          </p>
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          {progress.isOverdue ? (
+            <Badge variant="outline" className="text-[10px] text-red-600 border-red-200 gap-1">
+              <AlertTriangle className="h-3 w-3" />
+              Due {format(parseISO(progress.dueOn), "MMM d")}
+            </Badge>
+          ) : (
+            measuring && (
+              <Badge variant="outline" className="text-[10px]">
+                Next {format(parseISO(progress.dueOn), "MMM d")}
+              </Badge>
+            )
+          )}
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onEdit} title="Edit KPI">
+            <Pencil className="h-3 w-3" />
+          </Button>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onDelete} title="Delete KPI">
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <Progress value={Math.min(100, Math.max(0, progress.progress ?? 0))} className="h-2 flex-1" />
+        <span className="text-xs w-12 text-right text-muted-foreground">
+          {progress.progress === null ? "—" : `${progress.progress}%`}
+        </span>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Input
+          type="date"
+          value={actual.date}
+          onChange={(e) => onActualChange({ ...actual, date: e.target.value })}
+          className="h-8 w-40 text-xs"
+          aria-label="Measured on"
+        />
+        <Input
+          type="number"
+          value={actual.value}
+          onChange={(e) => onActualChange({ ...actual, value: e.target.value })}
+          placeholder={`Actual${unit}`}
+          className="h-8 w-32 text-xs"
+          aria-label="Actual value"
+        />
+        <Button size="sm" variant="secondary" className="h-8 text-xs" onClick={onRecord} disabled={!actual.value}>
+          Record
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import { useEffect, useState, useCallback, useMemo } from "react";
 import { getSupabaseClient } from "@/lib/supabase/client";
 import { StageLanding } from "./StudioShell";
+import { SimulationPanel } from "./SimulationPanel";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -28,10 +29,24 @@ import {
   Minus,
   AlertTriangle,
   CheckCircle,
+  Timer,
 } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { motion } from "framer-motion";
 import { cn } from "@/lib/utils";
-import type { FutureState, FutureStateNode, ProcessStep, SolutionCard } from "@/types";
+import {
+  analyzeProcessTiming,
+  formatDuration,
+  getFutureStateTimingModel,
+} from "@/lib/services/processTiming";
+import type { StepConnection } from "@/lib/services/workflows";
+import type {
+  FutureState,
+  FutureStateEdge,
+  FutureStateNode,
+  ProcessStep,
+  SolutionCard,
+} from "@/types";
 
 interface CompareViewProps {
   sessionId: string;
@@ -43,16 +58,22 @@ interface MetricComparison {
   future: number | string;
   change: number;
   unit?: string;
+  /** Suffix for the change figure; defaults to the unit */
+  changeUnit?: string;
   isGood: boolean;
 }
 
+const percentChange = (current: number, future: number) =>
+  current > 0 ? Math.round(((future - current) / current) * 100) : 0;
+
 export function CompareView({ sessionId }: CompareViewProps) {
   const [futureStates, setFutureStates] = useState<FutureState[]>([]);
   const [selectedStateId, setSelectedStateId] = useState<string>("");
   const [selectedState, setSelectedState] = useState<
-    (FutureState & { nodes: FutureStateNode[] }) | null
+    (FutureState & { nodes: FutureStateNode[]; edges: FutureStateEdge[] }) | null
   >(null);
   const [currentSteps, setCurrentSteps] = useState<ProcessStep[]>([]);
+  const [currentConnections, setCurrentConnections] = useState<StepConnection[]>([]);
   const [solutions, setSolutions] = useState<SolutionCard[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -70,7 +91,7 @@ export function CompareView({ sessionId }: CompareViewProps) {
 
       if (!session) return;
 
-      const [statesRes, stepsRes, solutionsRes] = await Promise.all([
+      const [statesRes, stepsRes, connectionsRes, solutionsRes] = await Promise.all([
         supabase
           .from("future_states")
           .select("*")
@@ -80,6 +101,10 @@ export function CompareView({ sessionId }: CompareViewProps) {
           .from("process_steps")
           .select("*")
           .eq("process_id", session.process_id),
+        supabase
+          .from("step_connections")
+          .select("*")
+          .eq("process_id", session.process_id),
         supabase
           .from("solution_cards")
           .select("*")
@@ -89,6 +114,7 @@ export function CompareView({ sessionId }: CompareViewProps) {
 
       if (statesRes.data) setFutureStates(statesRes.data);
       if (stepsRes.data) setCurrentSteps(stepsRes.data);
+      if (connectionsRes.data) setCurrentConnections(connectionsRes.data);
       if (solutionsRes.data) setSolutions(solutionsRes.data);
 
       // Auto-select first future state
@@ -111,13 +137,16 @@ export function CompareView({ sessionId }: CompareViewProps) {
         .from("future_states")
         .select(`
           *,
-          nodes:future_state_nodes(*)
+          nodes:future_state_nodes(*),
+          edges:future_state_edges(*)
         `)
         .eq("id", selectedStateId)
         .single();
 
       if (data) {
-        setSelectedState(data as FutureState & { nodes: FutureStateNode[] });
+        setSelectedState(
+          data as FutureState & { nodes: FutureStateNode[]; edges: FutureStateEdge[] }
+        );
       }
     }
 
@@ -128,9 +157,20 @@ export function CompareView({ sessionId }: CompareViewProps) {
     fetchData();
   }, [fetchData]);
 
+  const timings = useMemo(() => {
+    if (!selectedState || currentSteps.length === 0) return null;
+
+    return {
+      current: analyzeProcessTiming({ steps: currentSteps, connections: currentConnections }),
+      future: analyzeProcessTiming(
+        getFutureStateTimingModel(selectedState.nodes || [], selectedState.edges || [])
+      ),
+    };
+  }, [selectedState, currentSteps, currentConnections]);
+
   // Calculate metrics
   const metrics = useMemo<MetricComparison[]>(() => {
-    if (!selectedState || currentSteps.length === 0) return [];
+    if (!selectedState || !timings) return [];
 
     const futureNodes = selectedState.nodes || [];
 
@@ -139,28 +179,10 @@ export function CompareView({ sessionId }: CompareViewProps) {
     const futureStepCount = futureNodes.filter((n) => n.action !== "remove").length;
     const stepChange = futureStepCount - currentStepCount;
 
-    // Time calculations
-    const currentLeadTime = currentSteps.reduce(
-      (sum, s) => sum + (s.lead_time_minutes || 0),
-      0
-    );
-    const futureLeadTime = futureNodes
-      .filter((n) => n.action !== "remove")
-      .reduce((sum, n) => sum + (n.lead_time_minutes || 0), 0);
-    const leadTimeChange = currentLeadTime > 0 
-      ? ((futureLeadTime - currentLeadTime) / currentLeadTime) * 100 
-      : 0;
-
-    const currentCycleTime = currentSteps.reduce(
-      (sum, s) => sum + (s.cycle_time_minutes || 0),
-      0
-    );
-    const futureCycleTime = futureNodes
-      .filter((n) => n.action !== "remove")
-      .reduce((sum, n) => sum + (n.cycle_time_minutes || 0), 0);
-    const cycleTimeChange = currentCycleTime > 0 
-      ? ((futureCycleTime - currentCycleTime) / currentCycleTime) * 100 
-      : 0;
+    // Time calculations: expected per-case figures weighted by branch probabilities
+    const { current: currentTiming, future: futureTiming } = timings;
+    const currentPce = Math.round((currentTiming.pce ?? 0) * 100);
+    const futurePce = Math.round((futureTiming.pce ?? 0) * 100);
 
     // Changes
     const removedCount = futureNodes.filter((n) => n.action === "remove").length;
@@ -177,20 +199,41 @@ export function CompareView({ sessionId }: CompareViewProps) {
         isGood: stepChange <= 0,
       },
       {
-        label: "Total Lead Time",
-        current: currentLeadTime,
-        future: futureLeadTime,
-        change: Math.round(leadTimeChange),
-        unit: "min",
-        isGood: leadTimeChange <= 0,
+        label: "Lead Time per Case",
+        current: formatDuration(currentTiming.leadTimeMinutes),
+        future: formatDuration(futureTiming.leadTimeMinutes),
+        change: percentChange(currentTiming.leadTimeMinutes, futureTiming.leadTimeMinutes),
+        changeUnit: "%",
+        isGood: futureTiming.leadTimeMinutes <= currentTiming.leadTimeMinutes,
+      },
+      {
+        label: "Touch Time per Case",
+        current: formatDuration(currentTiming.touchTimeMinutes),
+        future: formatDuration(futureTiming.touchTimeMinutes),
+        change: percentChange(currentTiming.touchTimeMinutes, futureTiming.touchTimeMinutes),
+        changeUnit: "%",
+        isGood: futureTiming.touchTimeMinutes <= currentTiming.touchTimeMinutes,
       },
       {
-        label: "Total Cycle Time",
-        current: currentCycleTime,
-        future: futureCycleTime,
-        change: Math.round(cycleTimeChange),
-        unit: "min",
-        isGood: cycleTimeChange <= 0,
+        label: "Process Cycle Efficiency",
+        current: currentPce,
+        future: futurePce,
+        change: futurePce - currentPce,
+        unit: "%",
+        changeUnit: " pts",
+        isGood: futurePce >= currentPce,
+      },
+      {
+        label: "Critical Path",
+        current: formatDuration(currentTiming.criticalPath.leadTimeMinutes),
+        future: formatDuration(futureTiming.criticalPath.leadTimeMinutes),
+        change: percentChange(
+          currentTiming.criticalPath.leadTimeMinutes,
+          futureTiming.criticalPath.leadTimeMinutes
+        ),
+        changeUnit: "%",
+        isGood:
+          futureTiming.criticalPath.leadTimeMinutes <= currentTiming.criticalPath.leadTimeMinutes,
       },
       {
         label: "Steps Eliminated",
@@ -217,7 +260,7 @@ export function CompareView({ sessionId }: CompareViewProps) {
         isGood: true,
       },
     ];
-  }, [selectedState, currentSteps]);
+  }, [selectedState, currentSteps, timings]);
 
   if (loading) {
     return (
@@ -277,170 +320,213 @@ export function CompareView({ sessionId }: CompareViewProps) {
           </CardContent>
         </Card>
       ) : (
-        <div className="space-y-6">
-          {/* Metrics Grid */}
-          <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-6">
-            {metrics.map((metric, index) => (
-              <motion.div
-                key={metric.label}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: index * 0.05 }}
-              >
-                <Card
-                  className={cn(
-                    "transition-all",
-                    metric.isGood && metric.change !== 0 && "border-emerald-200 bg-emerald-50/30",
-                    !metric.isGood && metric.change !== 0 && "border-amber-200 bg-amber-50/30"
-                  )}
-                >
-                  <CardHeader className="pb-2">
-                    <CardTitle className="text-xs text-muted-foreground font-normal">
-                      {metric.label}
-                    </CardTitle>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="flex items-end justify-between">
-                      <div>
-                        <p className="text-2xl font-bold text-brand-navy">
-                          {metric.future}
-                          {metric.unit && (
-                            <span className="text-sm font-normal text-muted-foreground ml-1">
-                              {metric.unit}
-                            </span>
-                          )}
-                        </p>
-                        <p className="text-xs text-muted-foreground">
-                          from {metric.current} {metric.unit}
-                        </p>
-                      </div>
-                      {metric.change !== 0 && (
-                        <div
-                          className={cn(
-                            "flex items-center gap-1 text-sm font-medium",
-                            metric.isGood ? "text-emerald-600" : "text-amber-600"
+        <Tabs defaultValue="metrics" className="space-y-6">
+          <TabsList>
+            <TabsTrigger value="metrics">Metrics</TabsTrigger>
+            <TabsTrigger value="simulation">
+              <Timer className="mr-1 h-4 w-4" />
+              Simulation
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="metrics">
+            <div className="space-y-6">
+              {/* Metrics Grid */}
+              <div className="grid gap-4 md:grid-cols-4">
+                {metrics.map((metric, index) => (
+                  <motion.div
+                    key={metric.label}
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: index * 0.05 }}
+                  >
+                    <Card
+                      className={cn(
+                        "transition-all",
+                        metric.isGood && metric.change !== 0 && "border-emerald-200 bg-emerald-50/30",
+                        !metric.isGood && metric.change !== 0 && "border-amber-200 bg-amber-50/30"
+                      )}
+                    >
+                      <CardHeader className="pb-2">
+                        <CardTitle className="text-xs text-muted-foreground font-normal">
+                          {metric.label}
+                        </CardTitle>
+                      </CardHeader>
+                      <CardContent>
+                        <div className="flex items-end justify-between">
+                          <div>
+                            <p className="text-2xl font-bold text-brand-navy">
+                              {metric.future}
+                              {metric.unit && (
+                                <span className="text-sm font-normal text-muted-foreground ml-1">
+                                  {metric.unit}
+                                </span>
+                              )}
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              from {metric.current} {metric.unit}
+                            </p>
+                          </div>
+                          {metric.change !== 0 && (
+                            <div
+                              className={cn(
+                                "flex items-center gap-1 text-sm font-medium",
+                                metric.isGood ? "text-emerald-600" : "text-amber-600"
+                              )}
+                            >
+                              {metric.change > 0 ? (
+                                <TrendingUp className="h-4 w-4" />
+                              ) : (
+                                <TrendingDown className="h-4 w-4" />
+                              )}
+                              {Math.abs(metric.change)}
+                              {metric.changeUnit}
+                            </div>
                           )}
-                        >
-                          {metric.change > 0 ? (
-                            <TrendingUp className="h-4 w-4" />
-                          ) : (
-                            <TrendingDown className="h-4 w-4" />
+                          {metric.change === 0 && (
+                            <Minus className="h-4 w-4 text-muted-foreground" />
                           )}
-                          {Math.abs(metric.change)}
-                          {metric.label.includes("Time") && "%"}
                         </div>
+                      </CardContent>
+                    </Card>
+                  </motion.div>
+                ))}
+              </div>
+
+              {/* Solutions Applied */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-sm flex items-center gap-2">
+                    <CheckCircle className="h-4 w-4 text-emerald-500" />
+                    Solutions Applied ({solutions.length})
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Solution</TableHead>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Effort</TableHead>
+                        <TableHead>Expected Impact</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {solutions.map((solution) => (
+                        <TableRow key={solution.id}>
+                          <TableCell className="font-medium">{solution.title}</TableCell>
+                          <TableCell>
+                            <Badge variant="outline" className="capitalize">
+                              {solution.bucket}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="secondary" className="capitalize">
+                              {solution.effort_level || "N/A"}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="max-w-xs truncate text-muted-foreground">
+                            {solution.expected_impact || "—"}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                      {solutions.length === 0 && (
+                        <TableRow>
+                          <TableCell colSpan={4} className="text-center text-muted-foreground">
+                            No solutions applied
+                          </TableCell>
+                        </TableRow>
                       )}
-                      {metric.change === 0 && (
-                        <Minus className="h-4 w-4 text-muted-foreground" />
-                      )}
-                    </div>
-                  </CardContent>
-                </Card>
-              </motion.div>
-            ))}
-          </div>
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
 
-          {/* Solutions Applied */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-sm flex items-center gap-2">
-                <CheckCircle className="h-4 w-4 text-emerald-500" />
-                Solutions Applied ({solutions.length})
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>Solution</TableHead>
-                    <TableHead>Type</TableHead>
-                    <TableHead>Effort</TableHead>
-                    <TableHead>Expected Impact</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {solutions.map((solution) => (
-                    <TableRow key={solution.id}>
-                      <TableCell className="font-medium">{solution.title}</TableCell>
-                      <TableCell>
-                        <Badge variant="outline" className="capitalize">
-                          {solution.bucket}
-                        </Badge>
-                      </TableCell>
-                      <TableCell>
-                        <Badge variant="secondary" className="capitalize">
-                          {solution.effort_level || "N/A"}
-                        </Badge>
-                      </TableCell>
-                      <TableCell className="max-w-xs truncate text-muted-foreground">
-                        {solution.expected_impact || "—"}
-                      </TableCell>
-                    </TableRow>
-                  ))}
-                  {solutions.length === 0 && (
-                    <TableRow>
-                      <TableCell colSpan={4} className="text-center text-muted-foreground">
-                        No solutions applied
-                      </TableCell>
-                    </TableRow>
+              {/* Value Case Summary */}
+              <Card className="border-brand-gold/30 bg-brand-gold/5">
+                <CardHeader>
+                  <CardTitle className="text-sm flex items-center gap-2 text-brand-navy">
+                    <TrendingUp className="h-4 w-4 text-brand-gold" />
+                    Value Case Summary
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {timings && timings.current.leadTimeMinutes > 0 && (
+                    <p className="text-sm">
+                      Expected lead time per case goes from{" "}
+                      <span className="font-medium">
+                        {formatDuration(timings.current.leadTimeMinutes)}
+                      </span>{" "}
+                      to{" "}
+                      <span className="font-medium">
+                        {formatDuration(timings.future.leadTimeMinutes)}
+                      </span>
+                      {timings.future.leadTimeMinutes < timings.current.leadTimeMinutes && (
+                        <>
+                          , saving{" "}
+                          <span className="font-medium text-emerald-600">
+                            {formatDuration(
+                              timings.current.leadTimeMinutes - timings.future.leadTimeMinutes
+                            )}
+                          </span>{" "}
+                          per case
+                        </>
+                      )}
+                      .
+                    </p>
                   )}
-                </TableBody>
-              </Table>
-            </CardContent>
-          </Card>
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <div className="space-y-2">
+                      <h4 className="font-medium">Key Improvements</h4>
+                      <ul className="text-sm text-muted-foreground space-y-1">
+                        {metrics
+                          .filter((m) => m.isGood && m.change !== 0)
+                          .map((m) => (
+                            <li key={m.label} className="flex items-center gap-2">
+                              <CheckCircle className="h-4 w-4 text-emerald-500" />
+                              {m.label}: {m.change > 0 ? "+" : ""}
+                              {m.change}
+                              {m.changeUnit ?? ` ${m.unit}`}
+                            </li>
+                          ))}
+                        {metrics.filter((m) => m.isGood && m.change !== 0).length === 0 && (
+                          <li className="text-muted-foreground">No changes yet</li>
+                        )}
+                      </ul>
+                    </div>
+                    <div className="space-y-2">
+                      <h4 className="font-medium">Considerations</h4>
+                      <ul className="text-sm text-muted-foreground space-y-1">
+                        {metrics
+                          .filter((m) => !m.isGood && m.change !== 0)
+                          .map((m) => (
+                            <li key={m.label} className="flex items-center gap-2">
+                              <AlertTriangle className="h-4 w-4 text-amber-500" />
+                              {m.label}: {m.change > 0 ? "+" : ""}
+                              {m.change}
+                              {m.changeUnit ?? ` ${m.unit}`}
+                            </li>
+                          ))}
+                        {metrics.filter((m) => !m.isGood && m.change !== 0).length === 0 && (
+                          <li className="flex items-center gap-2">
+                            <CheckCircle className="h-4 w-4 text-emerald-500" />
+                            All metrics improved or unchanged
+                          </li>
+                        )}
+                      </ul>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+          </TabsContent>
 
-          {/* Value Case Summary */}
-          <Card className="border-brand-gold/30 bg-brand-gold/5">
-            <CardHeader>
-              <CardTitle className="text-sm flex items-center gap-2 text-brand-navy">
-                <TrendingUp className="h-4 w-4 text-brand-gold" />
-                Value Case Summary
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="grid gap-4 md:grid-cols-2">
-                <div className="space-y-2">
-                  <h4 className="font-medium">Key Improvements</h4>
-                  <ul className="text-sm text-muted-foreground space-y-1">
-                    {metrics
-                      .filter((m) => m.isGood && m.change !== 0)
-                      .map((m) => (
-                        <li key={m.label} className="flex items-center gap-2">
-                          <CheckCircle className="h-4 w-4 text-emerald-500" />
-                          {m.label}: {m.change > 0 ? "+" : ""}
-                          {m.change}
-                          {m.label.includes("Time") ? "%" : ` ${m.unit}`}
-                        </li>
-                      ))}
-                    {metrics.filter((m) => m.isGood && m.change !== 0).length === 0 && (
-                      <li className="text-muted-foreground">No changes yet</li>
-                    )}
-                  </ul>
-                </div>
-                <div className="space-y-2">
-                  <h4 className="font-medium">Considerations</h4>
-                  <ul className="text-sm text-muted-foreground space-y-1">
-                    {metrics
-                      .filter((m) => !m.isGood && m.change !== 0)
-                      .map((m) => (
-                        <li key={m.label} className="flex items-center gap-2">
-                          <AlertTriangle className="h-4 w-4 text-amber-500" />
-                          {m.label}: +{m.change}
-                          {m.label.includes("Time") ? "%" : ` ${m.unit}`}
-                        </li>
-                      ))}
-                    {metrics.filter((m) => !m.isGood && m.change !== 0).length === 0 && (
-                      <li className="flex items-center gap-2">
-                        <CheckCircle className="h-4 w-4 text-emerald-500" />
-                        All metrics improved or unchanged
-                      </li>
-                    )}
-                  </ul>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-        </div>
+          <TabsContent value="simulation">
+            {selectedStateId && (
+              <SimulationPanel sessionId={sessionId} futureStateId={selectedStateId} />
+            )}
+          </TabsContent>
+        </Tabs>
       )}
     </StageLanding>
   );
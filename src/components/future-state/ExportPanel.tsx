@@ -11,6 +11,7 @@ import {
   Download,
   FileText,
   FileSpreadsheet,
+  FileCode,
   Presentation,
   Image,
   Loader2,
@@ -27,7 +28,10 @@ import {
   exportStepDesignSpecsPDF,
   exportTraceabilityMatrix,
   exportImplementationNotes,
+  exportSimulationReportPDF,
+  exportBenefitRegister,
 } from "@/lib/services/export";
+import { exportFutureStateBPMN } from "@/lib/services/bpmnExport";
 
 interface ExportPanelProps {
   sessionId: string;
@@ -60,6 +64,14 @@ const exportOptions: ExportOption[] = [
     format: "PNG/SVG",
     included: true,
   },
+  {
+    id: "future-state-bpmn",
+    label: "Future State BPMN",
+    description: "BPMN 2.0 model with layout and node actions for BPMN engines and modelers",
+    icon: FileCode,
+    format: "BPMN",
+    included: false,
+  },
   {
     id: "solution-register",
     label: "Solution Register",
@@ -100,6 +112,22 @@ const exportOptions: ExportOption[] = [
     format: "CSV",
     included: false,
   },
+  {
+    id: "simulation-report",
+    label: "Throughput Simulation",
+    description: "Simulated lead time percentiles, queues and lane utilization, current vs future",
+    icon: FileText,
+    format: "PDF",
+    included: false,
+  },
+  {
+    id: "benefit-register",
+    label: "Benefit Register",
+    description: "Implementation status, KPI actuals and realized vs expected benefit per wave and future state",
+    icon: FileSpreadsheet,
+    format: "CSV",
+    included: false,
+  },
   {
     id: "theme-analysis",
     label: "Theme Analysis Report",
@@ -148,6 +176,10 @@ export function ExportPanel({ sessionId, sessionName }: ExportPanelProps) {
         exports.push(exportFutureStateSummaryPDF(sessionId));
       }
 
+      if (selectedOptions.has("future-state-bpmn")) {
+        exports.push(exportFutureStateBPMN(sessionId));
+      }
+
       if (selectedOptions.has("solution-register")) {
         exports.push(exportSolutionRegister(sessionId));
       }
@@ -168,6 +200,14 @@ export function ExportPanel({ sessionId, sessionName }: ExportPanelProps) {
         exports.push(exportImplementationNotes(sessionId));
       }
 
+      if (selectedOptions.has("simulation-report")) {
+        exports.push(exportSimulationReportPDF(sessionId));
+      }
+
+      if (selectedOptions.has("benefit-register")) {
+        exports.push(exportBenefitRegister(sessionId));
+      }
+
       // Execute all selected exports
       await Promise.all(exports);
 
@@ -24,6 +24,16 @@ import {
   Sheet,
   SheetContent,
 } from "@/components/ui/sheet";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import {
   Tooltip,
   TooltipContent,
@@ -68,6 +78,8 @@ import {
   deleteFlow,
 } from "@/lib/services/informationFlows";
 import { FlowDetailPanel } from "@/components/workflow/FlowDetailPanel";
+import { LintDiagnosticsPanel } from "@/components/workflow/LintDiagnosticsPanel";
+import { lintFutureState } from "@/lib/services/workflowLint";
 import type {
   CreateInformationFlowInput,
   UpdateInformationFlowInput,
@@ -136,6 +148,11 @@ export function FutureStateDesigner({
   const [selectedFlowForEdit, setSelectedFlowForEdit] = useState<InformationFlowWithRelations | null>(null);
   const [newFlowEdge, setNewFlowEdge] = useState<{ sourceStepId: string; targetStepId: string } | null>(null);
 
+  // Branch probabilities of the paths out of one node, as percentages keyed by edge id
+  const [branchNodeId, setBranchNodeId] = useState<string | null>(null);
+  const [branchForm, setBranchForm] = useState<Record<string, string>>({});
+  const [isSavingBranches, setIsSavingBranches] = useState(false);
+
   // Ref to access selectedFutureState in callbacks without triggering re-creation
   const selectedFutureStateRef = useRef<FutureStateWithGraph | null>(null);
   selectedFutureStateRef.current = selectedFutureState;
@@ -427,6 +444,7 @@ export function FutureStateDesigner({
   const observationsByStep = useMemo(() => {
     const map = new Map<string, ObservationWithWasteTypes[]>();
     observations.forEach((obs) => {
+      if (!obs.step_id) return;
       const existing = map.get(obs.step_id) || [];
       map.set(obs.step_id, [...existing, obs]);
     });
@@ -504,6 +522,12 @@ export function FutureStateDesigner({
       .filter(Boolean);
   }, [selectedFutureState]);
 
+  // Structural lint of the selected design; errors block publishing
+  const lint = useMemo(
+    () => (selectedFutureState ? lintFutureState(selectedFutureState.nodes, selectedFutureState.edges) : null),
+    [selectedFutureState]
+  );
+
   // Get linked solution for a node (memoized to prevent infinite loops)
   const getLinkedSolution = useCallback((solutionId: string | null | undefined) => {
     if (!solutionId) return null;
@@ -666,6 +690,64 @@ export function FutureStateDesigner({
     }
   }, [toast]);
 
+  const handleEditBranches = useCallback((nodeId: string) => {
+    const futureState = selectedFutureStateRef.current;
+    if (!futureState) return;
+    setBranchForm(
+      Object.fromEntries(
+        futureState.edges
+          .filter((e) => e.source_node_id === nodeId)
+          .map((e) => [e.id, e.branch_probability != null ? String(Math.round(e.branch_probability * 100)) : ""])
+      )
+    );
+    setBranchNodeId(nodeId);
+  }, []);
+
+  const handleSaveBranches = async () => {
+    const futureState = selectedFutureStateRef.current;
+    if (!futureState) return;
+
+    const changes: { edgeId: string; probability: number | null }[] = [];
+    for (const [edgeId, value] of Object.entries(branchForm)) {
+      const percent = value.trim() === "" ? null : Number(value);
+      if (percent != null && (!Number.isFinite(percent) || percent < 0 || percent > 100)) {
+        toast({
+          variant: "destructive",
+          title: "Invalid branch probability",
+          description: "Branch probabilities must be percentages between 0 and 100.",
+        });
+        return;
+      }
+      const probability = percent == null ? null : percent / 100;
+      const edge = futureState.edges.find((e) => e.id === edgeId);
+      if (edge && (edge.branch_probability ?? null) !== probability) changes.push({ edgeId, probability });
+    }
+
+    setIsSavingBranches(true);
+    try {
+      const responses = await Promise.all(
+        changes.map(({ edgeId, probability }) =>
+          fetch("/api/future-state/edges", {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ edgeId, updates: { branchProbability: probability } }),
+          })
+        )
+      );
+      await fetchFutureStateGraph(futureState.id);
+      if (responses.some((r) => !r.ok)) {
+        toast({ title: "Update Failed", description: "Some branch probabilities were not saved", variant: "destructive" });
+        return;
+      }
+      setBranchNodeId(null);
+    } catch (error) {
+      console.error("Error updating branch probabilities:", error);
+      toast({ title: "Update Failed", description: "Network error", variant: "destructive" });
+    } finally {
+      setIsSavingBranches(false);
+    }
+  };
+
   // Information flow handlers
   const handleEdgeClickForNewFlow = useCallback((sourceNodeId: string, targetNodeId: string) => {
     // Map node IDs to their original step IDs (for nodes copied from current state)
@@ -1007,6 +1089,7 @@ export function FutureStateDesigner({
               isDirty={false}
               isSaving={false}
               onSave={handleSave}
+              lintErrorCount={lint?.errorCount ?? 0}
             />
           )}
 
@@ -1060,25 +1143,30 @@ export function FutureStateDesigner({
           <div className="flex-1 space-y-4 min-w-0">
             {/* View Mode Toggle */}
             <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-2">
-              <Tabs value={viewMode} onValueChange={(v) => setViewMode(v as typeof viewMode)}>
-                <TabsList className="h-auto flex-wrap">
-                  <TabsTrigger value="flowchart" className="gap-1 sm:gap-2 text-xs sm:text-sm px-2 sm:px-3">
-                    <Workflow className="h-3 w-3 sm:h-4 sm:w-4" />
-                    <span className="hidden xs:inline">Flowchart</span>
-                    <span className="xs:hidden">Flow</span>
-                  </TabsTrigger>
-                  <TabsTrigger value="side-by-side" className="gap-1 sm:gap-2 text-xs sm:text-sm px-2 sm:px-3">
-                    <GitCompare className="h-3 w-3 sm:h-4 sm:w-4" />
-                    <span className="hidden sm:inline">Side by Side</span>
-                    <span className="sm:hidden">Compare</span>
-                  </TabsTrigger>
-                  <TabsTrigger value="future-only" className="gap-1 sm:gap-2 text-xs sm:text-sm px-2 sm:px-3">
-                    <Layers className="h-3 w-3 sm:h-4 sm:w-4" />
-                    <span className="hidden sm:inline">Future Only</span>
-                    <span className="sm:hidden">Future</span>
-                  </TabsTrigger>
-                </TabsList>
-              </Tabs>
+              <div className="flex flex-wrap items-center gap-2">
+                <Tabs value={viewMode} onValueChange={(v) => setViewMode(v as typeof viewMode)}>
+                  <TabsList className="h-auto flex-wrap">
+                    <TabsTrigger value="flowchart" className="gap-1 sm:gap-2 text-xs sm:text-sm px-2 sm:px-3">
+                      <Workflow className="h-3 w-3 sm:h-4 sm:w-4" />
+                      <span className="hidden xs:inline">Flowchart</span>
+                      <span className="xs:hidden">Flow</span>
+                    </TabsTrigger>
+                    <TabsTrigger value="side-by-side" className="gap-1 sm:gap-2 text-xs sm:text-sm px-2 sm:px-3">
+                      <GitCompare className="h-3 w-3 sm:h-4 sm:w-4" />
+                      <span className="hidden sm:inline">Side by Side</span>
+                      <span className="sm:hidden">Compare</span>
+                    </TabsTrigger>
+                    <TabsTrigger value="future-only" className="gap-1 sm:gap-2 text-xs sm:text-sm px-2 sm:px-3">
+                      <Layers className="h-3 w-3 sm:h-4 sm:w-4" />
+                      <span className="hidden sm:inline">Future Only</span>
+                      <span className="sm:hidden">Future</span>
+                    </TabsTrigger>
+                  </TabsList>
+                </Tabs>
+                {lint && selectedFutureState.nodes.length > 0 && (
+                  <LintDiagnosticsPanel result={lint} onSelectStep={setHighlightedStepId} />
+                )}
+              </div>
 
               {/* Legend - hide for flowchart since it has its own */}
               {viewMode !== "flowchart" && (
@@ -1119,6 +1207,7 @@ export function FutureStateDesigner({
                     getLinkedSolution={getLinkedSolution}
                     onNodeClick={handleOpenStepDesign}
                     highlightedNodeId={highlightedStepId}
+                    diagnostics={lint?.byStep}
                     isEditMode={isEditMode}
                     onCreateNode={handleCreateNode}
                     onUpdateNode={handleUpdateNode}
@@ -1127,6 +1216,7 @@ export function FutureStateDesigner({
                     onNodePositionChange={handleNodePositionChange}
                     onCreateEdge={handleCreateEdge}
                     onDeleteEdge={handleDeleteEdge}
+                    onEditBranches={handleEditBranches}
                     onSelectFlow={handleSelectFlow}
                     onEdgeClickForNewFlow={handleEdgeClickForNewFlow}
                     onDeleteFlow={handleDeleteFlow}
@@ -1473,6 +1563,48 @@ export function FutureStateDesigner({
         </SheetContent>
       </Sheet>
 
+      {/* Branch Probabilities */}
+      <Dialog open={branchNodeId !== null} onOpenChange={(open) => !open && setBranchNodeId(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Branch Probabilities (%)</DialogTitle>
+            <DialogDescription>
+              Share of cases taking each path. Leave blank to split the remainder evenly.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            {Object.entries(branchForm).map(([edgeId, value]) => {
+              const edge = selectedFutureState?.edges.find((e) => e.id === edgeId);
+              const target = selectedFutureState?.nodes.find((n) => n.id === edge?.target_node_id);
+              return (
+                <div key={edgeId} className="flex items-center gap-2">
+                  <Label htmlFor={`branch-${edgeId}`} className="flex-1 truncate text-sm font-normal">
+                    → {target?.name ?? "Unknown step"}
+                  </Label>
+                  <Input
+                    id={`branch-${edgeId}`}
+                    className="w-24"
+                    inputMode="numeric"
+                    placeholder="auto"
+                    value={value}
+                    onChange={(e) => setBranchForm({ ...branchForm, [edgeId]: e.target.value })}
+                  />
+                </div>
+              );
+            })}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setBranchNodeId(null)} disabled={isSavingBranches}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveBranches} disabled={isSavingBranches}>
+              {isSavingBranches && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Flow Detail Panel */}
       {flowPanelMode && (
         <FlowDetailPanel
@@ -40,8 +40,11 @@ import {
   Copy,
   X,
   Workflow,
+  XCircle,
+  GitBranch,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import type { LintDiagnostic } from "@/lib/services/workflowLint";
 import type {
   FutureStateNode,
   FutureStateEdge,
@@ -86,10 +89,14 @@ interface HorizontalFlowViewProps {
   onDuplicateNode?: (nodeId: string) => void;
   onCreateEdge?: (sourceId: string, targetId: string) => void;
   onDeleteEdge?: (edgeId: string) => void;
+  /** Edit the share of cases taking each path out of a node */
+  onEditBranches?: (nodeId: string) => void;
   // Information flow props
   onSelectFlow?: (flowId: string | null) => void;
   onEdgeClickForNewFlow?: (sourceStepId: string, targetStepId: string) => void;
   onDeleteFlow?: (flowId: string) => void;
+  // Structural lint findings per future state node
+  diagnostics?: Record<string, LintDiagnostic[]> | null;
 }
 
 interface FlowStepData {
@@ -106,6 +113,7 @@ interface FlowStepData {
   leadTime?: number;
   cycleTime?: number;
   linkedSolutionName?: string;
+  diagnostics?: LintDiagnostic[];
 }
 
 // Priority color helper (matching MiniProcessMap)
@@ -293,6 +301,25 @@ function FlowStepNode({ data, selected }: { data: FlowStepData; selected: boolea
         </div>
       )}
 
+      {/* Lint Badge - Top Left */}
+      {data.diagnostics && data.diagnostics.length > 0 && (
+        <div className="absolute -top-2 -left-2 z-10" title={data.diagnostics.map((d) => d.message).join("\n")}>
+          <Badge
+            className={cn(
+              "text-white text-[10px] px-1.5 py-0.5 gap-1 shadow-sm",
+              data.diagnostics.some((d) => d.severity === "error") ? "bg-red-500" : "bg-amber-500"
+            )}
+          >
+            {data.diagnostics.some((d) => d.severity === "error") ? (
+              <XCircle className="h-3 w-3" />
+            ) : (
+              <AlertCircle className="h-3 w-3" />
+            )}
+            {data.diagnostics.length}
+          </Badge>
+        </div>
+      )}
+
       <div className={cn("p-3 flex flex-col h-full", showActionIndicator && "pl-4")}>
         {/* Step Name */}
         <p className={cn(
@@ -377,6 +404,8 @@ function HorizontalFlowViewInner({
   onDuplicateNode,
   onCreateEdge,
   onDeleteEdge,
+  onEditBranches,
+  diagnostics = null,
   // Information flow props
   onSelectFlow,
   onEdgeClickForNewFlow,
@@ -442,6 +471,7 @@ function HorizontalFlowViewInner({
   const observationsByStep = useMemo(() => {
     const map = new Map<string, ObservationWithWasteTypes[]>();
     observations.forEach((obs) => {
+      if (!obs.step_id) return;
       const existing = map.get(obs.step_id) || [];
       map.set(obs.step_id, [...existing, obs]);
     });
@@ -633,6 +663,9 @@ function HorizontalFlowViewInner({
       currentStepIds: currentSteps.map(s => s.id),
       connectionCount: stepConnections.length,
       highlightedNodeId,
+      diagnostics: diagnostics
+        ? Object.entries(diagnostics).map(([id, items]) => `${id}:${items.map((d) => d.ruleId).join(",")}`)
+        : [],
     });
 
     // Skip if data hasn't actually changed (prevents infinite loops from callback reference changes)
@@ -702,6 +735,7 @@ function HorizontalFlowViewInner({
             leadTime: node.lead_time_minutes,
             cycleTime: node.cycle_time_minutes,
             linkedSolutionName,
+            diagnostics: diagnostics?.[node.id],
           },
           selected: node.id === highlightedNodeId || selectedNodeIds.includes(node.id),
         });
@@ -837,6 +871,7 @@ function HorizontalFlowViewInner({
     stepConnections,
     observationsByStep,
     highlightedNodeId,
+    diagnostics,
     laneList,
     setNodes,
     setEdges,
@@ -891,6 +926,13 @@ function HorizontalFlowViewInner({
     setEditingName("");
   }, []);
 
+  const handleContextEditBranches = useCallback(() => {
+    if (contextMenu && onEditBranches) {
+      onEditBranches(contextMenu.nodeId);
+    }
+    closeContextMenu();
+  }, [contextMenu, onEditBranches, closeContextMenu]);
+
   // Handle delete from context menu
   const handleContextDelete = useCallback(() => {
     if (contextMenu && onDeleteNode) {
@@ -1428,6 +1470,16 @@ function HorizontalFlowViewInner({
                 Duplicate
               </button>
             )}
+            {onEditBranches &&
+              futureStateEdges.filter((e) => e.source_node_id === contextMenu.nodeId).length > 1 && (
+                <button
+                  className="w-full px-3 py-2 text-left text-sm hover:bg-slate-100 flex items-center gap-2"
+                  onClick={handleContextEditBranches}
+                >
+                  <GitBranch className="w-4 h-4 text-slate-500" />
+                  Branch Probabilities
+                </button>
+              )}
             <div className="border-t border-slate-200 my-1" />
             <button
               className="w-full px-3 py-2 text-left text-sm hover:bg-red-50 text-red-600 flex items-center gap-2"
@@ -66,14 +66,16 @@ export function MiniProcessMap({
   const stepStats = useMemo(() => {
     const stats: Record<string, { count: number; priority: number; wasteTypes: string[] }> = {};
     observations.forEach((obs) => {
-      if (!stats[obs.step_id]) {
-        stats[obs.step_id] = { count: 0, priority: 0, wasteTypes: [] };
+      const stepId = obs.step_id;
+      if (!stepId) return;
+      if (!stats[stepId]) {
+        stats[stepId] = { count: 0, priority: 0, wasteTypes: [] };
       }
-      stats[obs.step_id].count += 1;
-      stats[obs.step_id].priority += obs.priority_score || 0;
+      stats[stepId].count += 1;
+      stats[stepId].priority += obs.priority_score || 0;
       obs.waste_types?.forEach((wt) => {
-        if (wt && !stats[obs.step_id].wasteTypes.includes(wt.code)) {
-          stats[obs.step_id].wasteTypes.push(wt.code);
+        if (wt && !stats[stepId].wasteTypes.includes(wt.code)) {
+          stats[stepId].wasteTypes.push(wt.code);
         }
       });
     });
@@ -4,6 +4,7 @@ import { useEffect, useState, useCallback } from "react";
 import { getSupabaseClient } from "@/lib/supabase/client";
 import { useAuthStore } from "@/lib/stores/authStore";
 import { StageLanding } from "./StudioShell";
+import { BenefitTracker } from "./BenefitTracker";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -17,6 +18,8 @@ import {
   AlertTriangle,
   Layers,
   Pencil,
+  CheckCircle2,
+  Target,
 } from "lucide-react";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { motion, AnimatePresence } from "framer-motion";
@@ -55,7 +58,7 @@ export function RoadmapBuilder({ sessionId }: RoadmapBuilderProps) {
   const [implementationItems, setImplementationItems] = useState<ImplementationItemWithRelations[]>([]);
   const [loading, setLoading] = useState(true);
   const [isRunning, setIsRunning] = useState(false);
-  const [viewMode, setViewMode] = useState<"solutions" | "items">("solutions");
+  const [viewMode, setViewMode] = useState<"solutions" | "items" | "benefits">("solutions");
 
   void useAuthStore; // Reserved for future presence integration
   const supabase = getSupabaseClient();
@@ -188,6 +191,27 @@ export function RoadmapBuilder({ sessionId }: RoadmapBuilderProps) {
     }
   };
 
+  // Completed waves mark the workflow's trend charts
+  const handleToggleWaveComplete = async (wave: WaveWithSolutions) => {
+    const completedAt = wave.completed_at ? null : new Date().toISOString();
+    const { error } = await supabase
+      .from("implementation_waves")
+      .update({ completed_at: completedAt })
+      .eq("id", wave.id);
+
+    if (error) {
+      console.error("Error updating wave:", error);
+      toast({
+        variant: "destructive",
+        title: "Update Failed",
+        description: "Failed to update the wave. Please try again.",
+      });
+      return;
+    }
+
+    setWaves((prev) => prev.map((w) => (w.id === wave.id ? { ...w, completed_at: completedAt } : w)));
+  };
+
   // Get dependencies for a solution
   const getSolutionDependencies = (solutionId: string) => {
     return dependencies
@@ -278,20 +302,24 @@ export function RoadmapBuilder({ sessionId }: RoadmapBuilderProps) {
       ) : (
         <div className="space-y-6">
           {/* View Mode Tabs */}
-          {hasStepDesignItems && (
-            <Tabs value={viewMode} onValueChange={(v) => setViewMode(v as typeof viewMode)}>
-              <TabsList>
-                <TabsTrigger value="solutions" className="gap-2">
-                  <Layers className="h-4 w-4" />
-                  Solutions ({totalSolutions})
-                </TabsTrigger>
+          <Tabs value={viewMode} onValueChange={(v) => setViewMode(v as typeof viewMode)}>
+            <TabsList>
+              <TabsTrigger value="solutions" className="gap-2">
+                <Layers className="h-4 w-4" />
+                Solutions ({totalSolutions})
+              </TabsTrigger>
+              {hasStepDesignItems && (
                 <TabsTrigger value="items" className="gap-2">
                   <Pencil className="h-4 w-4" />
                   Step Designs ({stepDesignItems.length})
                 </TabsTrigger>
-              </TabsList>
-            </Tabs>
-          )}
+              )}
+              <TabsTrigger value="benefits" className="gap-2">
+                <Target className="h-4 w-4" />
+                Benefits
+              </TabsTrigger>
+            </TabsList>
+          </Tabs>
 
           {/* Solutions View (default/legacy) */}
           {viewMode === "solutions" && (
@@ -313,9 +341,21 @@ export function RoadmapBuilder({ sessionId }: RoadmapBuilderProps) {
                         <CardTitle className={cn("text-sm", colors.text)}>
                           {wave.name}
                         </CardTitle>
-                        <Badge variant="secondary" className="text-xs">
-                          {wave.solutions.length}
-                        </Badge>
+                        <div className="flex items-center gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className={cn("h-6 px-2 text-xs", wave.completed_at && "text-emerald-700")}
+                            onClick={() => handleToggleWaveComplete(wave)}
+                            title={wave.completed_at ? "Reopen wave" : "Mark wave complete"}
+                          >
+                            <CheckCircle2 className="h-3 w-3 mr-1" />
+                            {wave.completed_at ? "Done" : "Complete"}
+                          </Button>
+                          <Badge variant="secondary" className="text-xs">
+                            {wave.solutions.length}
+                          </Badge>
+                        </div>
                       </div>
                       {(wave.start_estimate || wave.end_estimate) && (
                         <div className="flex items-center gap-1 text-xs text-muted-foreground">
@@ -448,6 +488,9 @@ export function RoadmapBuilder({ sessionId }: RoadmapBuilderProps) {
           </>
           )}
 
+          {/* Benefit Realization View */}
+          {viewMode === "benefits" && <BenefitTracker sessionId={sessionId} />}
+
           {/* Step Design Items View */}
           {viewMode === "items" && hasStepDesignItems && (
             <div className="space-y-4">
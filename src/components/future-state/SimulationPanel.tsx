@@ -0,0 +1,335 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Download, Loader2, Play, TrendingDown, TrendingUp, Users } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { formatDuration } from "@/lib/services/processTiming";
+import {
+  getSessionSimulationModels,
+  getSuggestedCasesPerDay,
+  simulateProcess,
+  type SessionSimulation,
+  type SimulationResult,
+} from "@/lib/services/simulation";
+import { exportSimulationReportPDF } from "@/lib/services/export";
+
+interface SimulationPanelProps {
+  sessionId: string;
+  futureStateId: string;
+}
+
+const PERCENTILES = [
+  { key: "p50", label: "Median (P50)" },
+  { key: "p80", label: "P80" },
+  { key: "p95", label: "P95" },
+] as const;
+
+function QueueTable({ title, result }: { title: string; result: SimulationResult }) {
+  const rows = result.steps
+    .filter((s) => s.visitsPerCase > 0 && s.maxQueueLength > 0)
+    .sort((a, b) => b.avgQueueWaitMinutes - a.avgQueueWaitMinutes)
+    .slice(0, 8);
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Step</TableHead>
+              <TableHead className="text-right">Avg Queue</TableHead>
+              <TableHead className="text-right">Max</TableHead>
+              <TableHead className="text-right">Avg Wait</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={row.stepId}>
+                <TableCell>
+                  <p className="font-medium">{row.stepName}</p>
+                  <p className="text-xs text-muted-foreground">{row.lane}</p>
+                </TableCell>
+                <TableCell className="text-right">{row.avgQueueLength.toFixed(1)}</TableCell>
+                <TableCell className="text-right">{row.maxQueueLength}</TableCell>
+                <TableCell className="text-right">{formatDuration(row.avgQueueWaitMinutes)}</TableCell>
+              </TableRow>
+            ))}
+            {rows.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-muted-foreground">
+                  No queues build up
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function SimulationPanel({ sessionId, futureStateId }: SimulationPanelProps) {
+  const { toast } = useToast();
+  const [casesPerDay, setCasesPerDay] = useState("");
+  const [variability, setVariability] = useState(30);
+  const [simulation, setSimulation] = useState<SessionSimulation | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const runSimulation = useCallback(
+    async (rate?: number) => {
+      setIsRunning(true);
+      try {
+        const models = await getSessionSimulationModels(sessionId, futureStateId);
+        const resolvedRate = rate ?? getSuggestedCasesPerDay(models.current);
+        const options = { casesPerDay: resolvedRate, variability: variability / 100 };
+
+        setCasesPerDay(String(resolvedRate));
+        setSimulation({
+          futureStateId: models.futureStateId,
+          futureStateName: models.futureStateName,
+          current: simulateProcess(models.current, options),
+          future: models.future ? simulateProcess(models.future, options) : null,
+        });
+      } catch (error) {
+        console.error("Simulation failed:", error);
+        toast({
+          variant: "destructive",
+          title: "Simulation failed",
+          description: error instanceof Error ? error.message : "Unknown error",
+        });
+      } finally {
+        setIsRunning(false);
+      }
+    },
+    [sessionId, futureStateId, variability, toast]
+  );
+
+  // Start from the suggested arrival rate whenever the compared version changes
+  useEffect(() => {
+    setSimulation(null);
+    void runSimulation();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sessionId, futureStateId]);
+
+  const handleRun = () => {
+    const rate = Number(casesPerDay);
+    if (!Number.isFinite(rate) || rate <= 0) {
+      toast({
+        variant: "destructive",
+        title: "Invalid arrival rate",
+        description: "Cases per day must be a number above 0.",
+      });
+      return;
+    }
+    void runSimulation(rate);
+  };
+
+  const handleExport = async () => {
+    if (!simulation) return;
+    setIsExporting(true);
+    try {
+      await exportSimulationReportPDF(sessionId, simulation.current.options, simulation);
+    } catch (error) {
+      console.error("Simulation export failed:", error);
+      toast({
+        variant: "destructive",
+        title: "Export failed",
+        description: "Could not export the simulation report.",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const current = simulation?.current;
+  const future = simulation?.future;
+  const laneNames = Array.from(
+    new Set([...(current?.lanes || []), ...(future?.lanes || [])].map((l) => l.lane))
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Controls */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex flex-wrap items-end gap-6">
+            <div className="space-y-2">
+              <Label htmlFor="simulation-rate">Cases per day</Label>
+              <Input
+                id="simulation-rate"
+                className="w-28"
+                inputMode="decimal"
+                value={casesPerDay}
+                onChange={(e) => setCasesPerDay(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2 w-56">
+              <Label>Time variability: {variability}%</Label>
+              <Slider
+                min={0}
+                max={60}
+                step={5}
+                value={[variability]}
+                onValueChange={([value]) => setVariability(value)}
+              />
+            </div>
+            <div className="flex gap-2 ml-auto">
+              <Button
+                onClick={handleRun}
+                disabled={isRunning}
+                className="bg-brand-gold hover:bg-brand-gold/90 text-brand-navy"
+              >
+                {isRunning ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Play className="mr-2 h-4 w-4" />
+                )}
+                Run Simulation
+              </Button>
+              <Button variant="outline" onClick={handleExport} disabled={!simulation || isExporting}>
+                {isExporting ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Download className="mr-2 h-4 w-4" />
+                )}
+                Export PDF
+              </Button>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground mt-3">
+            Simulates {current?.options.caseCount ?? 200} cases {current?.options.replications ?? 10} times
+            through both states. Steps hold a person from their lane for the cycle time; lane people
+            counts are set in the workflow&apos;s swimlane manager.
+          </p>
+        </CardContent>
+      </Card>
+
+      {!current ? (
+        <div className="grid gap-4 md:grid-cols-3">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-28 rounded-xl" />
+          ))}
+        </div>
+      ) : (
+        <>
+          {/* Lead time percentiles */}
+          <div className="grid gap-4 md:grid-cols-3">
+            {PERCENTILES.map(({ key, label }) => {
+              const before = current.leadTime[key];
+              const after = future?.leadTime[key];
+              const change = after != null && before > 0 ? Math.round(((after - before) / before) * 100) : 0;
+
+              return (
+                <Card key={key}>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-xs text-muted-foreground font-normal">
+                      Lead Time {label}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="flex items-end justify-between">
+                      <div>
+                        <p className="text-2xl font-bold text-brand-navy">
+                          {after != null ? formatDuration(after) : "—"}
+                        </p>
+                        <p className="text-xs text-muted-foreground">from {formatDuration(before)}</p>
+                      </div>
+                      {change !== 0 && (
+                        <div
+                          className={cn(
+                            "flex items-center gap-1 text-sm font-medium",
+                            change < 0 ? "text-emerald-600" : "text-amber-600"
+                          )}
+                        >
+                          {change > 0 ? <TrendingUp className="h-4 w-4" /> : <TrendingDown className="h-4 w-4" />}
+                          {Math.abs(change)}%
+                        </div>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+
+          {(current.abandonedCases > 0 || (future?.abandonedCases ?? 0) > 0) && (
+            <p className="text-sm text-amber-600">
+              Some cases never reached an end step (a loop has no way out) and were left out of the
+              lead time figures.
+            </p>
+          )}
+
+          {/* Lane utilization */}
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm flex items-center gap-2">
+                <Users className="h-4 w-4" />
+                Lane Utilization
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {laneNames.map((laneName) => {
+                const currentLane = current.lanes.find((l) => l.lane === laneName);
+                const futureLane = future?.lanes.find((l) => l.lane === laneName);
+                return (
+                  <div key={laneName} className="grid grid-cols-[160px_1fr_1fr] items-center gap-4 text-sm">
+                    <span className="truncate">
+                      {laneName}
+                      <span className="text-xs text-muted-foreground">
+                        {" "}
+                        · {(currentLane ?? futureLane)?.capacity ?? 1}
+                      </span>
+                    </span>
+                    <div className="flex items-center gap-2">
+                      <Progress value={(currentLane?.utilization ?? 0) * 100} className="h-2" />
+                      <span className="w-10 text-right text-xs">
+                        {currentLane ? `${Math.round(currentLane.utilization * 100)}%` : "—"}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Progress value={(futureLane?.utilization ?? 0) * 100} className="h-2" />
+                      <span className="w-10 text-right text-xs">
+                        {futureLane ? `${Math.round(futureLane.utilization * 100)}%` : "—"}
+                      </span>
+                    </div>
+                  </div>
+                );
+              })}
+              <div className="grid grid-cols-[160px_1fr_1fr] gap-4 text-xs text-muted-foreground">
+                <span />
+                <span>Current</span>
+                <span>Future</span>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Queue build-up */}
+          <div className="grid gap-4 md:grid-cols-2">
+            <QueueTable title="Queue Build-up: Current State" result={current} />
+            {future && <QueueTable title="Queue Build-up: Future State" result={future} />}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -29,11 +29,14 @@ import {
   AlertCircle,
   Layers,
   Pencil,
+  DollarSign,
 } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { motion, AnimatePresence } from "framer-motion";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
+import { getWasteCost } from "@/lib/services/analytics";
+import { formatCurrency, getSolutionSavings, type WasteCostBreakdown } from "@/lib/services/wasteCost";
 import type { SolutionCard, InsightTheme, StepDesignStatus } from "@/types";
 
 const stepDesignStatusConfig: Record<StepDesignStatus, { icon: typeof CheckCircle; color: string; label: string; bgColor: string }> = {
@@ -84,6 +87,7 @@ export function SolutionBuilder({ sessionId }: SolutionBuilderProps) {
   const [isRunning, setIsRunning] = useState(false);
   const [selectedSolution, setSelectedSolution] = useState<SolutionWithRelations | null>(null);
   const [hasFutureState, setHasFutureState] = useState(false);
+  const [wasteCost, setWasteCost] = useState<WasteCostBreakdown | null>(null);
 
   const { user } = useAuthStore();
   const supabase = getSupabaseClient();
@@ -139,6 +143,11 @@ export function SolutionBuilder({ sessionId }: SolutionBuilderProps) {
       if (!futureStatesRes.error) {
         setHasFutureState((futureStatesRes.data || []).length > 0);
       }
+
+      // Savings are an estimate; the board still works without them
+      getWasteCost(sessionId)
+        .then(setWasteCost)
+        .catch((error) => console.error("Error loading cost of waste:", error));
     } catch (error) {
       console.error("Error:", error);
     } finally {
@@ -230,6 +239,15 @@ export function SolutionBuilder({ sessionId }: SolutionBuilderProps) {
     return themes.filter((t) => themeIds.includes(t.id));
   };
 
+  // Annual cost of the waste a solution addresses
+  const getEstimatedSavings = (solution: SolutionWithRelations) =>
+    wasteCost
+      ? getSolutionSavings(wasteCost, {
+          observationIds: solution.observations?.map((o) => o.observation_id),
+          themeIds: solution.themes?.map((t) => t.theme_id),
+        })
+      : 0;
+
   // Navigate to designer with step design open
   const handleDesignAtStepLevel = (solutionId: string) => {
     if (!hasFutureState) {
@@ -400,6 +418,15 @@ export function SolutionBuilder({ sessionId }: SolutionBuilderProps) {
                                     {solution.recommended_wave}
                                   </Badge>
                                 )}
+                                {getEstimatedSavings(solution) > 0 && (
+                                  <Badge
+                                    variant="outline"
+                                    className="text-[10px] gap-1 border-emerald-200 text-emerald-700"
+                                  >
+                                    <DollarSign className="h-3 w-3" />
+                                    {formatCurrency(getEstimatedSavings(solution), wasteCost?.currency)}/yr
+                                  </Badge>
+                                )}
                                 {/* Step Design Status Badge */}
                                 {solution.status === "accepted" && (bucket === "modify" || bucket === "create") && (
                                   (() => {
@@ -533,6 +560,19 @@ export function SolutionBuilder({ sessionId }: SolutionBuilderProps) {
                 </div>
               )}
 
+              {/* Estimated Savings */}
+              {getEstimatedSavings(selectedSolution) > 0 && (
+                <div>
+                  <h4 className="font-medium mb-1">Estimated Savings</h4>
+                  <p className="text-sm text-muted-foreground">
+                    <span className="font-semibold text-emerald-700">
+                      {formatCurrency(getEstimatedSavings(selectedSolution), wasteCost?.currency)} a year
+                    </span>{" "}
+                    if the waste it addresses is removed
+                  </p>
+                </div>
+              )}
+
               {/* Effort & Wave */}
               <div className="grid grid-cols-2 gap-4">
                 <div>
@@ -50,6 +50,7 @@ export function StepImpactSummary({
   const observationsByStep = useMemo(() => {
     const map = new Map<string, ObservationWithWasteTypes[]>();
     observations.forEach((obs) => {
+      if (!obs.step_id) return;
       const existing = map.get(obs.step_id) || [];
       map.set(obs.step_id, [...existing, obs]);
     });
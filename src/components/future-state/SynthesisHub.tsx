@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState, useCallback } from "react";
+import { useEffect, useState, useCallback, useMemo } from "react";
 import { getSupabaseClient } from "@/lib/supabase/client";
 import { useAuthStore } from "@/lib/stores/authStore";
 import { StageLanding } from "./StudioShell";
@@ -35,14 +35,19 @@ import {
   AlertTriangle,
   Loader2,
   Sparkles,
+  BarChart3,
+  X,
 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
+import { isInParetoFocus, PARETO_DIMENSIONS, type ParetoFocus } from "@/lib/services/pareto";
 import type { InsightTheme, ObservationWithWasteTypes, ProcessStep, WasteType } from "@/types";
 
 interface SynthesisHubProps {
   sessionId: string;
+  /** Vital few sent from a Pareto chart; synthesis starts with only their observations */
+  focus?: ParetoFocus | null;
 }
 
 interface ThemeWithRelations extends InsightTheme {
@@ -56,7 +61,7 @@ interface ObservationWithStep extends ObservationWithWasteTypes {
   step?: ProcessStep | ProcessStep[];
 }
 
-export function SynthesisHub({ sessionId }: SynthesisHubProps) {
+export function SynthesisHub({ sessionId, focus = null }: SynthesisHubProps) {
   const [themes, setThemes] = useState<ThemeWithRelations[]>([]);
   const [observations, setObservations] = useState<ObservationWithStep[]>([]);
   const [loading, setLoading] = useState(true);
@@ -64,6 +69,7 @@ export function SynthesisHub({ sessionId }: SynthesisHubProps) {
   const [selectedTheme, setSelectedTheme] = useState<ThemeWithRelations | null>(null);
   const [showEvidenceModal, setShowEvidenceModal] = useState(false);
   const [editingTheme, setEditingTheme] = useState<ThemeWithRelations | null>(null);
+  const [useFocus, setUseFocus] = useState(true);
   
   const { user } = useAuthStore();
   const supabase = getSupabaseClient();
@@ -133,6 +139,25 @@ export function SynthesisHub({ sessionId }: SynthesisHubProps) {
     fetchData();
   }, [fetchData]);
 
+  // Observations in the Pareto vital few; handoffs sit in the Handoffs lane like in analytics
+  const focusedObservationIds = useMemo(() => {
+    if (!focus || !useFocus) return null;
+    return observations
+      .filter((obs) => {
+        const step = Array.isArray(obs.step) ? obs.step[0] : obs.step;
+        return isInParetoFocus(
+          {
+            stepId: obs.step_id,
+            stepName: step?.step_name ?? null,
+            lane: step?.lane || (obs.step_id ? "Unknown" : "Handoffs"),
+            wasteTypes: obs.waste_types.map((wt) => ({ id: wt.id, name: wt.name, code: wt.code, color: wt.color ?? null })),
+          },
+          focus
+        );
+      })
+      .map((obs) => obs.id);
+  }, [focus, useFocus, observations]);
+
   // Run synthesis agent
   const handleRunSynthesis = async () => {
     setIsRunning(true);
@@ -141,7 +166,11 @@ export function SynthesisHub({ sessionId }: SynthesisHubProps) {
       const response = await fetch("/api/future-state/synthesis", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ sessionId, forceRerun: true }),
+        body: JSON.stringify({
+          sessionId,
+          forceRerun: true,
+          ...(focusedObservationIds ? { observationIds: focusedObservationIds } : {}),
+        }),
       });
 
       if (!response.ok) {
@@ -266,7 +295,7 @@ export function SynthesisHub({ sessionId }: SynthesisHubProps) {
           <div className="flex items-center gap-2">
             <Button
               onClick={handleRunSynthesis}
-              disabled={isRunning || observations.length === 0}
+              disabled={isRunning || observations.length === 0 || focusedObservationIds?.length === 0}
               className="gap-2"
             >
               {isRunning ? (
@@ -284,6 +313,27 @@ export function SynthesisHub({ sessionId }: SynthesisHubProps) {
           </div>
         }
       >
+        {focusedObservationIds && (
+          <Card className="mb-4 border-brand-gold/40 bg-brand-gold/5">
+            <CardContent className="flex items-center justify-between gap-3 py-3">
+              <div className="flex items-center gap-2 text-sm">
+                <BarChart3 className="h-4 w-4 text-brand-gold" />
+                <span>
+                  Synthesizing the Pareto vital few:{" "}
+                  <strong>
+                    {focusedObservationIds.length} of {observations.length}
+                  </strong>{" "}
+                  observations across {focus?.keys.length}{" "}
+                  {PARETO_DIMENSIONS.find((d) => d.value === focus?.dimension)?.label.toLowerCase()} groups
+                </span>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => setUseFocus(false)}>
+                <X className="mr-1 h-4 w-4" />
+                Use all observations
+              </Button>
+            </CardContent>
+          </Card>
+        )}
         {themes.length === 0 ? (
           <Card className="border-dashed">
             <CardContent className="flex flex-col items-center justify-center py-12">
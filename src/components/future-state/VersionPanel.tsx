@@ -31,8 +31,11 @@ import {
   Clock,
   User,
   Loader2,
+  Send,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import type { LintDiagnostic } from "@/lib/services/workflowLint";
 import { formatDistanceToNow } from "date-fns";
 
 interface FutureStateVersion {
@@ -57,6 +60,8 @@ interface VersionPanelProps {
   isDirty: boolean;
   isSaving: boolean;
   onSave: () => Promise<void>;
+  /** Structural lint errors in the current design; publishing is blocked while any remain */
+  lintErrorCount?: number;
   className?: string;
 }
 
@@ -68,8 +73,10 @@ export function VersionPanel({
   isDirty,
   isSaving,
   onSave,
+  lintErrorCount = 0,
   className,
 }: VersionPanelProps) {
+  const { toast } = useToast();
   const [versions, setVersions] = useState<FutureStateVersion[]>([]);
   const [loading, setLoading] = useState(true);
   const [saveAsOpen, setSaveAsOpen] = useState(false);
@@ -159,6 +166,37 @@ export function VersionPanel({
     }
   };
 
+  // Handle publish (the API re-runs the structural lint and rejects designs with errors)
+  const handlePublish = async (versionId: string) => {
+    try {
+      const response = await fetch("/api/future-state/versions", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ versionId, updates: { status: "published" } }),
+      });
+
+      if (response.ok) {
+        setVersions((prev) =>
+          prev.map((v) => (v.id === versionId ? { ...v, status: "published" } : v))
+        );
+        toast({ title: "Version published" });
+        return;
+      }
+
+      const { error, diagnostics } = (await response.json()) as {
+        error?: string;
+        diagnostics?: LintDiagnostic[];
+      };
+      toast({
+        variant: "destructive",
+        title: error || "Failed to publish version",
+        description: diagnostics?.map((d) => d.message).join(" "),
+      });
+    } catch (error) {
+      console.error("Error publishing version:", error);
+    }
+  };
+
   return (
     <div className={cn("flex items-center gap-2", className)}>
       {/* Version Selector */}
@@ -239,6 +277,18 @@ export function VersionPanel({
               <DropdownMenuSeparator />
 
               {/* Version Actions */}
+              {currentVersion && currentVersion.status !== "published" && !currentVersion.is_locked && (
+                <DropdownMenuItem
+                  disabled={lintErrorCount > 0}
+                  onClick={() => handlePublish(currentVersion.id)}
+                >
+                  <Send className="h-4 w-4 mr-2" />
+                  {lintErrorCount > 0
+                    ? `Publish (fix ${lintErrorCount} error${lintErrorCount === 1 ? "" : "s"})`
+                    : "Publish Version"}
+                </DropdownMenuItem>
+              )}
+
               {currentVersion && !currentVersion.is_locked && (
                 <DropdownMenuItem onClick={() => handleToggleLock(currentVersion.id, true)}>
                   <Lock className="h-4 w-4 mr-2" />
@@ -4,6 +4,7 @@ export { SolutionBuilder } from "./SolutionBuilder";
 export { RoadmapBuilder } from "./RoadmapBuilder";
 export { FutureStateDesigner } from "./FutureStateDesigner";
 export { CompareView } from "./CompareView";
+export { SimulationPanel } from "./SimulationPanel";
 export { ExportPanel } from "./ExportPanel";
 export { StepDesignPanel } from "./StepDesignPanel";
 export { WorkflowContextPanel } from "./WorkflowContextPanel";
@@ -108,31 +108,54 @@ export function PWAProvider({ children }: PWAProviderProps) {
         description: "Your connection has been restored.",
       });
 
-      // Try to sync offline observations
+      // Try to sync offline changes
       try {
-        const { countOfflineObservations, syncOfflineObservations } = await import("@/lib/pwa/offline-storage");
-        const pendingCount = await countOfflineObservations();
+        const { countOfflineMutations, syncOfflineMutations } = await import("@/lib/pwa/offline-storage");
+        const pendingCount = await countOfflineMutations();
         if (pendingCount > 0) {
           toast({
             title: "Syncing",
-            description: `Syncing ${pendingCount} offline observation(s)...`,
+            description: `Syncing ${pendingCount} offline change(s)...`,
           });
 
-          const result = await syncOfflineObservations();
+          const result = await syncOfflineMutations();
           if (result.synced > 0) {
             toast({
               title: "Sync Complete",
-              description: `${result.synced} observation(s) synced successfully.`,
+              description: `${result.synced} change(s) synced successfully.`,
+            });
+          }
+          if (result.conflicts > 0) {
+            toast({
+              title: "Changes Need Review",
+              description: `${result.conflicts} change(s) conflict with edits made by others. Open the session to resolve them.`,
             });
           }
           if (result.failed > 0) {
             toast({
               variant: "destructive",
               title: "Sync Error",
-              description: `${result.failed} observation(s) failed to sync.`,
+              description: `${result.failed} change(s) failed to sync.`,
             });
           }
         }
+
+        // Evidence follows once its observations are on the server
+        const { syncOfflineAttachments } = await import("@/lib/services/offlineAttachments");
+        const files = await syncOfflineAttachments();
+        if (files.uploaded > 0) {
+          toast({
+            title: "Evidence Uploaded",
+            description: `${files.uploaded} file(s) uploaded successfully.`,
+          });
+        }
+        if (files.failed > 0) {
+          toast({
+            variant: "destructive",
+            title: "Upload Error",
+            description: `${files.failed} file(s) failed to upload and will resume later.`,
+          });
+        }
       } catch (error) {
         console.error("[PWA] Sync error:", error);
       }
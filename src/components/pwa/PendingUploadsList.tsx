@@ -0,0 +1,65 @@
+"use client";
+
+import { Progress } from "@/components/ui/progress";
+import { AlertCircle, Camera, FileText, Mic, Video } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { AttachmentKind, AttachmentProgress } from "@/types/offlineSync";
+
+interface PendingUploadsListProps {
+  uploads: AttachmentProgress[];
+}
+
+const kindIcons: Record<AttachmentKind, React.ElementType> = {
+  photo: Camera,
+  video: Video,
+  voice_memo: Mic,
+  document: FileText,
+};
+
+const statusLabels: Record<AttachmentProgress["status"], string> = {
+  queued: "Waiting",
+  uploading: "Uploading",
+  failed: "Will retry",
+};
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** Per-file progress of evidence waiting to upload */
+export function PendingUploadsList({ uploads }: PendingUploadsListProps) {
+  if (uploads.length === 0) {
+    return <p className="text-sm text-muted-foreground">All files uploaded.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {uploads.map((upload) => {
+        const Icon = kindIcons[upload.kind];
+        const percent = upload.size > 0 ? Math.round((upload.uploaded_bytes / upload.size) * 100) : 0;
+        return (
+          <div key={upload.id} className="space-y-1">
+            <div className="flex items-center gap-2 text-sm">
+              <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+              <span className="truncate flex-1">{upload.name}</span>
+              <span
+                className={cn(
+                  "text-xs shrink-0",
+                  upload.status === "failed" ? "text-destructive" : "text-muted-foreground"
+                )}
+              >
+                {upload.status === "failed" && <AlertCircle className="inline h-3 w-3 mr-0.5" />}
+                {statusLabels[upload.status]}
+              </span>
+            </div>
+            <Progress value={percent} className="h-1.5" />
+            <p className="text-xs text-muted-foreground">
+              {formatBytes(upload.uploaded_bytes)} of {formatBytes(upload.size)}
+            </p>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
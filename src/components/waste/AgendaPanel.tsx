@@ -0,0 +1,326 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Switch } from "@/components/ui/switch";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { ListOrdered, Plus, Square, StepForward, Timer, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  buildDefaultAgenda,
+  formatCountdown,
+  getCurrentPhase,
+  getNextPhase,
+  getPhaseRemainingSeconds,
+  sortPhases,
+  summarizePhaseTimes,
+  type PhaseDraft,
+} from "@/lib/services/sessionAgenda";
+import type { SessionPhase } from "@/types";
+
+interface AgendaPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  phases: SessionPhase[];
+  lanes: string[];
+  /** Resolves true once the agenda is saved */
+  onSave: (drafts: PhaseDraft[]) => Promise<boolean>;
+  onStartPhase: (phaseId: string) => void;
+  onEndAgenda: () => void;
+  isBusy?: boolean;
+}
+
+/** Seconds left on a phase, ticking every second while mounted */
+function useCountdown(
+  phase: Pick<SessionPhase, "planned_minutes" | "started_at" | "ended_at" | "elapsed_seconds"> | null
+) {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    if (!phase?.started_at) return;
+    setNow(new Date());
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [phase?.started_at]);
+
+  return phase ? getPhaseRemainingSeconds(phase, now) : null;
+}
+
+/** Stats-bar badge with the running phase and its countdown */
+export function PhaseCountdownBadge({ phase }: { phase: SessionPhase }) {
+  const remaining = useCountdown(phase) ?? 0;
+  return (
+    <Badge
+      variant="outline"
+      className={cn(
+        "tabular-nums",
+        remaining < 0
+          ? "border-red-400 bg-red-50 text-red-700"
+          : remaining < 120
+          ? "border-amber-400 bg-amber-50 text-amber-700"
+          : "border-sky-400 bg-sky-50 text-sky-700"
+      )}
+    >
+      <Timer className="h-3 w-3 mr-1" />
+      {phase.name} · {remaining < 0 ? `${formatCountdown(remaining)} over` : `${formatCountdown(remaining)} left`}
+    </Badge>
+  );
+}
+
+function toDraft(phase: SessionPhase): PhaseDraft {
+  return {
+    name: phase.name,
+    planned_minutes: phase.planned_minutes,
+    tagging_enabled: phase.tagging_enabled,
+    lanes: phase.lanes,
+  };
+}
+
+/** Facilitator agenda: timed phases, which lanes each opens for tagging, and phase controls */
+export function AgendaPanel({
+  isOpen,
+  onClose,
+  phases,
+  lanes,
+  onSave,
+  onStartPhase,
+  onEndAgenda,
+  isBusy = false,
+}: AgendaPanelProps) {
+  const ordered = useMemo(() => sortPhases(phases), [phases]);
+  const current = getCurrentPhase(ordered);
+  const next = getNextPhase(ordered, current);
+  const remaining = useCountdown(current);
+  const times = summarizePhaseTimes(ordered.filter((p) => p.started_at));
+
+  const [drafts, setDrafts] = useState<PhaseDraft[]>([]);
+  const [isDirty, setIsDirty] = useState(false);
+
+  // Unsaved edits are dropped when the panel closes
+  useEffect(() => {
+    if (!isOpen) setIsDirty(false);
+  }, [isOpen]);
+
+  // Edit the phases that haven't run, following saves and transitions until there are local changes
+  useEffect(() => {
+    if (!isOpen || isDirty) return;
+    setDrafts(ordered.filter((p) => !p.started_at).map(toDraft));
+  }, [isOpen, isDirty, ordered]);
+
+  const updateDraft = (index: number, changes: Partial<PhaseDraft>) => {
+    setDrafts((prev) => prev.map((d, i) => (i === index ? { ...d, ...changes } : d)));
+    setIsDirty(true);
+  };
+
+  const toggleLane = (index: number, lane: string, checked: boolean) => {
+    const currentLanes = drafts[index].lanes ?? [];
+    const nextLanes = checked ? [...currentLanes, lane] : currentLanes.filter((l) => l !== lane);
+    updateDraft(index, { lanes: nextLanes.length > 0 ? nextLanes : null });
+  };
+
+  const removeDraft = (index: number) => {
+    setDrafts((prev) => prev.filter((_, i) => i !== index));
+    setIsDirty(true);
+  };
+
+  const addDraft = () => {
+    setDrafts((prev) => [...prev, { name: "", planned_minutes: 10, tagging_enabled: true, lanes: null }]);
+    setIsDirty(true);
+  };
+
+  const applyStandardWalk = () => {
+    setDrafts(buildDefaultAgenda(lanes));
+    setIsDirty(true);
+  };
+
+  const handleSave = async () => {
+    const cleaned = drafts
+      .filter((d) => d.name.trim())
+      .map((d) => ({
+        ...d,
+        name: d.name.trim(),
+        planned_minutes: Math.min(480, Math.max(1, Math.round(d.planned_minutes) || 1)),
+      }));
+    if (await onSave(cleaned)) setIsDirty(false);
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={onClose}>
+      <SheetContent className="w-[400px] sm:w-[520px] p-0">
+        <SheetHeader className="p-6 pb-4 border-b">
+          <SheetTitle className="flex items-center gap-2">
+            <ListOrdered className="h-5 w-5" />
+            Agenda
+          </SheetTitle>
+          <SheetDescription>
+            {current && remaining !== null
+              ? `${current.name}: ${remaining < 0 ? `${formatCountdown(remaining)} over time` : `${formatCountdown(remaining)} left`}.`
+              : ordered.length > 0
+              ? "The agenda isn't running. Tagging is open in every lane."
+              : "Plan the walk as timed phases. Each phase can pause tagging or open it for some lanes only."}
+          </SheetDescription>
+
+          <div className="flex flex-wrap gap-2 pt-2">
+            {next && (
+              <Button size="sm" onClick={() => onStartPhase(next.id)} disabled={isBusy || isDirty}>
+                <StepForward className="h-4 w-4 mr-1" />
+                {current ? `Next: ${next.name}` : `Start ${next.name}`}
+              </Button>
+            )}
+            {current && (
+              <Button size="sm" variant="outline" onClick={onEndAgenda} disabled={isBusy}>
+                <Square className="h-4 w-4 mr-1" />
+                {next ? "End agenda" : `End ${current.name}`}
+              </Button>
+            )}
+          </div>
+          {isDirty && next && (
+            <p className="text-xs text-muted-foreground">Save your changes before starting the next phase.</p>
+          )}
+        </SheetHeader>
+
+        <ScrollArea className="h-[calc(100vh-200px)]">
+          <div className="p-6 space-y-6">
+            {/* Phases that have run */}
+            {times.phases.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Run so far</h4>
+                {times.phases.map((p) => (
+                  <div key={p.phaseId} className="flex items-center justify-between gap-2 text-sm">
+                    <span className="truncate">{p.name}</span>
+                    {p.isRunning ? (
+                      <Badge variant="outline" className="border-sky-400 bg-sky-50 text-sky-700 shrink-0">
+                        Running
+                      </Badge>
+                    ) : (
+                      <span
+                        className={cn(
+                          "text-xs shrink-0",
+                          (p.varianceMinutes ?? 0) > 0 ? "text-amber-600" : "text-muted-foreground"
+                        )}
+                      >
+                        {p.actualMinutes} of {p.plannedMinutes} min
+                      </span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Phases still to run */}
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h4 className="text-sm font-medium">Upcoming phases</h4>
+                {ordered.length === 0 && lanes.length > 0 && (
+                  <Button size="sm" variant="ghost" onClick={applyStandardWalk} disabled={isBusy}>
+                    Use standard walk
+                  </Button>
+                )}
+              </div>
+
+              {drafts.map((draft, index) => (
+                <div key={index} className="space-y-3 rounded-lg border p-3">
+                  <div className="flex items-end gap-2">
+                    <div className="flex-1 space-y-1">
+                      <Label htmlFor={`phase-name-${index}`} className="text-xs">
+                        Phase
+                      </Label>
+                      <Input
+                        id={`phase-name-${index}`}
+                        value={draft.name}
+                        placeholder="e.g. Walk the front desk"
+                        onChange={(e) => updateDraft(index, { name: e.target.value })}
+                        className="h-8"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor={`phase-minutes-${index}`} className="text-xs">
+                        Minutes
+                      </Label>
+                      <Input
+                        id={`phase-minutes-${index}`}
+                        type="number"
+                        min={1}
+                        max={480}
+                        value={draft.planned_minutes}
+                        onChange={(e) => updateDraft(index, { planned_minutes: Number(e.target.value) })}
+                        className="h-8 w-20"
+                      />
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => removeDraft(index)}
+                      aria-label={`Remove ${draft.name || "phase"}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id={`phase-tagging-${index}`}
+                      checked={draft.tagging_enabled}
+                      onCheckedChange={(checked) => updateDraft(index, { tagging_enabled: checked })}
+                    />
+                    <Label htmlFor={`phase-tagging-${index}`} className="text-sm font-normal">
+                      Tagging open
+                    </Label>
+                  </div>
+
+                  {draft.tagging_enabled && lanes.length > 0 && (
+                    <div className="space-y-1">
+                      <p className="text-xs text-muted-foreground">
+                        {draft.lanes ? "Only these lanes:" : "All lanes. Tick lanes to restrict:"}
+                      </p>
+                      <div className="flex flex-wrap gap-x-4 gap-y-1">
+                        {lanes.map((lane) => (
+                          <div key={lane} className="flex items-center gap-1.5">
+                            <Checkbox
+                              id={`phase-${index}-lane-${lane}`}
+                              checked={draft.lanes?.includes(lane) ?? false}
+                              onCheckedChange={(checked) => toggleLane(index, lane, checked === true)}
+                            />
+                            <Label htmlFor={`phase-${index}-lane-${lane}`} className="text-xs font-normal">
+                              {lane}
+                            </Label>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))}
+
+              {drafts.length === 0 && (
+                <p className="text-xs text-muted-foreground">No phases left to run.</p>
+              )}
+
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" onClick={addDraft} disabled={isBusy}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add phase
+                </Button>
+                <Button size="sm" onClick={handleSave} disabled={isBusy || !isDirty}>
+                  {isBusy ? "Saving..." : "Save agenda"}
+                </Button>
+              </div>
+            </div>
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,235 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { BellRing, Radar } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getLaneNudgeMessage, summarizeCoverage } from "@/lib/services/sessionCoverage";
+import type { ProcessStep } from "@/types";
+import type { ObservationWithDetails } from "@/lib/services/observations";
+
+interface CoveragePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  steps: ProcessStep[];
+  observations: ObservationWithDetails[];
+  participants: { user_id: string; user?: { name: string } }[];
+  facilitatorId?: string;
+  /** Resolves true once the nudge is sent */
+  onNudge: (input: { lane: string; message: string; userIds: string[] }) => Promise<boolean>;
+  isSending?: boolean;
+  /** Anonymous sessions don't show who has contributed */
+  anonymous?: boolean;
+}
+
+function formatSince(minutes: number | null): string {
+  if (minutes === null) return "No observations yet";
+  if (minutes < 1) return "Last observation just now";
+  if (minutes < 60) return `Last observation ${minutes} min ago`;
+  return `Last observation ${Math.floor(minutes / 60)} h ${minutes % 60} min ago`;
+}
+
+/** Facilitator view of where the walk has and hasn't looked, with lane nudges */
+export function CoveragePanel({
+  isOpen,
+  onClose,
+  steps,
+  observations,
+  participants,
+  facilitatorId,
+  onNudge,
+  isSending = false,
+  anonymous = false,
+}: CoveragePanelProps) {
+  const [now, setNow] = useState(() => new Date());
+  const [nudgeLane, setNudgeLane] = useState<string | null>(null);
+  const [nudgeMessage, setNudgeMessage] = useState("");
+  const [recipientIds, setRecipientIds] = useState<string[]>([]);
+
+  // Keep "time since last observation" current while the panel is open
+  useEffect(() => {
+    if (!isOpen) return;
+    setNow(new Date());
+    const interval = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(interval);
+  }, [isOpen]);
+
+  const coverage = useMemo(
+    () =>
+      summarizeCoverage({
+        steps,
+        observations,
+        participants: participants.map((p) => ({ user_id: p.user_id, name: p.user?.name })),
+        excludeUserIds: facilitatorId ? [facilitatorId] : [],
+        now,
+      }),
+    [steps, observations, participants, facilitatorId, now]
+  );
+
+  const startNudge = (lane: string) => {
+    setNudgeLane(lane);
+    setNudgeMessage(getLaneNudgeMessage(lane));
+    // Default to the people who haven't contributed, or everyone if all have
+    const silent = anonymous ? [] : coverage.silentParticipants.map((p) => p.userId);
+    setRecipientIds(silent.length > 0 ? silent : coverage.participants.map((p) => p.userId));
+  };
+
+  const toggleRecipient = (userId: string, checked: boolean) => {
+    setRecipientIds((prev) => (checked ? [...prev, userId] : prev.filter((id) => id !== userId)));
+  };
+
+  const handleSend = async () => {
+    if (!nudgeLane) return;
+    const sent = await onNudge({
+      lane: nudgeLane,
+      message: nudgeMessage.trim() || getLaneNudgeMessage(nudgeLane),
+      userIds: recipientIds,
+    });
+    if (sent) setNudgeLane(null);
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={onClose}>
+      <SheetContent className="w-[400px] sm:w-[480px] p-0">
+        <SheetHeader className="p-6 pb-4 border-b">
+          <SheetTitle className="flex items-center gap-2">
+            <Radar className="h-5 w-5" />
+            Coverage
+          </SheetTitle>
+          <SheetDescription>
+            {coverage.coveragePercent}% of steps have at least one observation.
+          </SheetDescription>
+          <Progress value={coverage.coveragePercent} className="h-2" />
+        </SheetHeader>
+
+        <ScrollArea className="h-[calc(100vh-160px)]">
+          <div className="p-6 space-y-6">
+            {nudgeLane && (
+              <div className="space-y-3 rounded-lg border border-brand-gold/40 bg-brand-gold/5 p-4">
+                <p className="text-sm font-medium">Nudge about {nudgeLane}</p>
+                <Textarea
+                  value={nudgeMessage}
+                  onChange={(e) => setNudgeMessage(e.target.value)}
+                  rows={2}
+                />
+                <div className="space-y-2">
+                  {coverage.participants.map((p) => (
+                    <div key={p.userId} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`nudge-${p.userId}`}
+                        checked={recipientIds.includes(p.userId)}
+                        onCheckedChange={(checked) => toggleRecipient(p.userId, checked === true)}
+                      />
+                      <Label htmlFor={`nudge-${p.userId}`} className="text-sm font-normal">
+                        {p.name}
+                      </Label>
+                    </div>
+                  ))}
+                  {coverage.participants.length === 0 && (
+                    <p className="text-xs text-muted-foreground">No participants have joined yet.</p>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={handleSend} disabled={isSending || recipientIds.length === 0}>
+                    <BellRing className="h-4 w-4 mr-1" />
+                    {isSending ? "Sending..." : `Send to ${recipientIds.length}`}
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => setNudgeLane(null)}>
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {/* Lanes */}
+            <div className="space-y-3">
+              <h4 className="text-sm font-medium">Lanes</h4>
+              {coverage.lanes.map((lane) => (
+                <div key={lane.lane} className="space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm truncate">{lane.lane}</p>
+                      <p
+                        className={cn(
+                          "text-xs",
+                          lane.observationCount === 0 ? "text-amber-600" : "text-muted-foreground"
+                        )}
+                      >
+                        {lane.coveredStepCount}/{lane.stepCount} steps · {formatSince(lane.minutesSinceLast)}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="shrink-0"
+                      onClick={() => startNudge(lane.lane)}
+                      disabled={isSending}
+                    >
+                      <BellRing className="h-3 w-3 mr-1" />
+                      Nudge
+                    </Button>
+                  </div>
+                  <Progress value={(lane.coveredStepCount / lane.stepCount) * 100} className="h-1.5" />
+                </div>
+              ))}
+            </div>
+
+            {/* Steps */}
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">
+                Steps without observations ({coverage.uncoveredSteps.length})
+              </h4>
+              {coverage.uncoveredSteps.length > 0 ? (
+                coverage.uncoveredSteps.map((step) => (
+                  <div key={step.stepId} className="flex items-center justify-between gap-2 text-sm">
+                    <span className="truncate">{step.stepName}</span>
+                    <Badge variant="outline" className="shrink-0 text-xs">{step.lane}</Badge>
+                  </div>
+                ))
+              ) : (
+                <p className="text-xs text-muted-foreground">Every step has been looked at.</p>
+              )}
+              {coverage.sparseSteps.length > 0 && (
+                <p className="text-xs text-muted-foreground pt-1">
+                  Few observations so far: {coverage.sparseSteps.map((s) => s.stepName).join(", ")}
+                </p>
+              )}
+            </div>
+
+            {/* Participants */}
+            {!anonymous && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Participants</h4>
+                {coverage.participants.map((p) => (
+                  <div key={p.userId} className="flex items-center justify-between text-sm">
+                    <span className="truncate">{p.name}</span>
+                    {p.observationCount > 0 ? (
+                      <Badge variant="outline" className="text-xs">{p.observationCount}</Badge>
+                    ) : (
+                      <Badge variant="outline" className="text-xs border-amber-400 bg-amber-50 text-amber-700">
+                        No observations
+                      </Badge>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
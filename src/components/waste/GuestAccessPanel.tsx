@@ -0,0 +1,234 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import QRCode from "qrcode";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Ban, Copy, EyeOff, QrCode, UserPlus } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { GUEST_LINK_HOURS, getGuestJoinPath, getGuestLinkStatus } from "@/lib/services/guestAccess";
+import type { SessionGuest, SessionGuestLink } from "@/types";
+
+interface GuestAccessPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  anonymous: boolean;
+  onToggleAnonymous: (anonymous: boolean) => void;
+  links: SessionGuestLink[];
+  guests: SessionGuest[];
+  onCreateLink: (hours: number, label: string) => void;
+  onRevokeLink: (linkId: string) => void;
+  onCopyLink: (url: string) => void;
+  isBusy?: boolean;
+}
+
+function GuestLinkQrCode({ url }: { url: string }) {
+  const [dataUrl, setDataUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    QRCode.toDataURL(url, { margin: 1, width: 200 })
+      .then((generated) => {
+        if (!cancelled) setDataUrl(generated);
+      })
+      .catch((error) => console.error("Failed to draw QR code:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  if (!dataUrl) return <div className="h-[200px] w-[200px] rounded bg-muted animate-pulse" />;
+  // eslint-disable-next-line @next/next/no-img-element
+  return <img src={dataUrl} alt="QR code for the guest link" width={200} height={200} className="rounded" />;
+}
+
+/** Facilitator controls for anonymous observations and guest join links */
+export function GuestAccessPanel({
+  isOpen,
+  onClose,
+  anonymous,
+  onToggleAnonymous,
+  links,
+  guests,
+  onCreateLink,
+  onRevokeLink,
+  onCopyLink,
+  isBusy = false,
+}: GuestAccessPanelProps) {
+  const [hours, setHours] = useState(String(GUEST_LINK_HOURS[1]));
+  const [label, setLabel] = useState("");
+  const [shownLinkId, setShownLinkId] = useState<string | null>(null);
+  const [origin, setOrigin] = useState("");
+
+  useEffect(() => {
+    setOrigin(window.location.origin);
+  }, []);
+
+  const getUrl = (link: SessionGuestLink) => `${origin}${getGuestJoinPath(link.token)}`;
+
+  const handleCreate = () => {
+    onCreateLink(Number(hours), label);
+    setLabel("");
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={onClose}>
+      <SheetContent className="w-[400px] sm:w-[480px] p-0">
+        <SheetHeader className="p-6 pb-4 border-b">
+          <SheetTitle className="flex items-center gap-2">
+            <UserPlus className="h-5 w-5" />
+            Guests & Privacy
+          </SheetTitle>
+          <SheetDescription>
+            Let people without an account join, and choose whether names are shown.
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="h-[calc(100vh-140px)]">
+          <div className="p-6 space-y-6">
+            {/* Anonymous mode */}
+            <div className="flex items-start justify-between gap-4 rounded-lg border p-4">
+              <div className="space-y-1">
+                <Label htmlFor="anonymous-observations" className="flex items-center gap-2">
+                  <EyeOff className="h-4 w-4" />
+                  Anonymous observations
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  Hide who recorded each observation in the session, results, exports and AI prompts. Admins
+                  can still see names.
+                </p>
+              </div>
+              <Switch
+                id="anonymous-observations"
+                checked={anonymous}
+                onCheckedChange={onToggleAnonymous}
+                disabled={isBusy}
+              />
+            </div>
+
+            {/* New link */}
+            <div className="space-y-3">
+              <h4 className="text-sm font-medium">New guest link</h4>
+              <div className="flex items-end gap-2">
+                <div className="flex-1 space-y-1">
+                  <Label htmlFor="guest-link-label" className="text-xs">
+                    Label (optional)
+                  </Label>
+                  <Input
+                    id="guest-link-label"
+                    value={label}
+                    placeholder="e.g. Night shift"
+                    onChange={(e) => setLabel(e.target.value)}
+                    className="h-8"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Expires after</Label>
+                  <Select value={hours} onValueChange={setHours}>
+                    <SelectTrigger className="h-8 w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {GUEST_LINK_HOURS.map((h) => (
+                        <SelectItem key={h} value={String(h)}>
+                          {h < 24 ? `${h} hours` : `${h / 24} day${h === 24 ? "" : "s"}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button size="sm" onClick={handleCreate} disabled={isBusy}>
+                  Create
+                </Button>
+              </div>
+            </div>
+
+            {/* Existing links */}
+            <div className="space-y-3">
+              <h4 className="text-sm font-medium">Links</h4>
+              {links.length === 0 && (
+                <p className="text-xs text-muted-foreground">No guest links yet.</p>
+              )}
+              {links.map((link) => {
+                const status = getGuestLinkStatus(link);
+                const joined = guests.filter((g) => g.link_id === link.id).length;
+                return (
+                  <div key={link.id} className="space-y-3 rounded-lg border p-3">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="text-sm truncate">{link.label || "Guest link"}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {status === "active"
+                            ? `Expires ${formatDistanceToNow(new Date(link.expires_at), { addSuffix: true })}`
+                            : status === "revoked"
+                            ? "Turned off"
+                            : "Expired"}
+                          {" · "}
+                          {joined} guest{joined === 1 ? "" : "s"} joined
+                        </p>
+                      </div>
+                      <Badge
+                        variant="outline"
+                        className={cn(
+                          "shrink-0",
+                          status === "active" ? "border-green-500 text-green-600" : "text-muted-foreground"
+                        )}
+                      >
+                        {status === "active" ? "Active" : status === "revoked" ? "Revoked" : "Expired"}
+                      </Badge>
+                    </div>
+                    {status === "active" && (
+                      <div className="flex flex-wrap gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setShownLinkId(shownLinkId === link.id ? null : link.id)}
+                        >
+                          <QrCode className="h-4 w-4 mr-1" />
+                          {shownLinkId === link.id ? "Hide QR code" : "QR code"}
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => onCopyLink(getUrl(link))}>
+                          <Copy className="h-4 w-4 mr-1" />
+                          Copy link
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => onRevokeLink(link.id)} disabled={isBusy}>
+                          <Ban className="h-4 w-4 mr-1" />
+                          Revoke
+                        </Button>
+                      </div>
+                    )}
+                    {status === "active" && shownLinkId === link.id && origin && (
+                      <div className="flex flex-col items-center gap-2 pt-1">
+                        <GuestLinkQrCode url={getUrl(link)} />
+                        <p className="text-xs text-muted-foreground break-all text-center">{getUrl(link)}</p>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,209 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, RefreshCw, Trash2, XCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatDistanceToNow } from "date-fns";
+import {
+  MERGEABLE_FIELDS,
+  OBSERVATION_FIELD_LABELS,
+} from "@/lib/services/observationConflicts";
+import type { ConflictResolution } from "@/lib/services/offlineSession";
+import type { WasteType } from "@/types";
+import type {
+  FieldResolution,
+  ObservationField,
+  ObservationFields,
+  OfflineMutation,
+} from "@/types/offlineSync";
+
+interface ObservationConflictDialogProps {
+  mutation: OfflineMutation | null;
+  wasteTypes: WasteType[];
+  stepName?: string;
+  onResolve: (resolution: ConflictResolution) => Promise<void>;
+  onCancel: () => void;
+}
+
+function formatValue(field: ObservationField, fields: ObservationFields, wasteTypes: WasteType[]) {
+  const value = fields[field];
+  if (field === "waste_type_ids") {
+    const names = fields.waste_type_ids.map((id) => wasteTypes.find((w) => w.id === id)?.name || "Unknown");
+    return names.length > 0 ? names.join(", ") : "None";
+  }
+  if (field === "scores") {
+    const entries = Object.entries(fields.scores || {});
+    return entries.length > 0 ? entries.map(([key, score]) => `${key} ${score}`).join(", ") : "—";
+  }
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (value === null || value === undefined || value === "") return "—";
+  return String(value);
+}
+
+const choiceLabels: Record<FieldResolution, string> = {
+  mine: "Mine",
+  theirs: "Theirs",
+  merge: "Merge",
+};
+
+/** Settle an offline change that collided with an edit made on the server */
+export function ObservationConflictDialog({
+  mutation,
+  wasteTypes,
+  stepName,
+  onResolve,
+  onCancel,
+}: ObservationConflictDialogProps) {
+  const [isResolving, setIsResolving] = useState(false);
+  const [choices, setChoices] = useState<Partial<Record<ObservationField, FieldResolution>>>({});
+
+  useEffect(() => {
+    setChoices({});
+  }, [mutation?.id]);
+
+  const handleResolve = async (resolution: ConflictResolution) => {
+    setIsResolving(true);
+    try {
+      await onResolve(resolution);
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  const conflict = mutation?.conflict;
+  if (!mutation || !conflict) return null;
+
+  const subject = stepName ? `your observation on "${stepName}"` : "your observation";
+  const changedAgo = conflict.server_updated_at
+    ? formatDistanceToNow(new Date(conflict.server_updated_at), { addSuffix: true })
+    : null;
+
+  return (
+    <Dialog open={!!conflict} onOpenChange={() => onCancel()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <div className="flex items-center gap-2 text-amber-600">
+            <AlertTriangle className="h-5 w-5" />
+            <DialogTitle>Conflict Detected</DialogTitle>
+          </div>
+          <DialogDescription>
+            {!conflict.server
+              ? `You edited ${subject} offline, but it was deleted on the server.`
+              : mutation.op === "delete"
+              ? `You deleted ${subject} offline, but it was changed on the server ${changedAgo ?? ""}.`
+              : `You edited ${subject} offline, and the same fields were changed on the server ${changedAgo ?? ""}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!conflict.server || mutation.op === "delete" ? (
+          <div className="grid gap-2">
+            <Button
+              variant="outline"
+              className="justify-start h-auto py-3"
+              onClick={() => handleResolve("theirs")}
+              disabled={isResolving}
+            >
+              <XCircle className="h-4 w-4 mr-2 text-muted-foreground" />
+              <div className="text-left">
+                <p className="font-medium">Discard my change</p>
+                <p className="text-xs text-muted-foreground">
+                  {conflict.server ? "Keep the observation as it is on the server" : "Leave the observation deleted"}
+                </p>
+              </div>
+            </Button>
+            <Button
+              variant="outline"
+              className="justify-start h-auto py-3 border-amber-200 hover:bg-amber-50"
+              onClick={() => handleResolve("mine")}
+              disabled={isResolving}
+            >
+              {conflict.server ? (
+                <Trash2 className="h-4 w-4 mr-2 text-amber-600" />
+              ) : (
+                <RefreshCw className="h-4 w-4 mr-2 text-amber-600" />
+              )}
+              <div className="text-left">
+                <p className="font-medium">{conflict.server ? "Delete it anyway" : "Restore my version"}</p>
+                <p className="text-xs text-muted-foreground">
+                  {conflict.server
+                    ? "Remove the observation, including the server changes"
+                    : "Add the observation back with my edits"}
+                </p>
+              </div>
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              Fields only one side changed are kept automatically. Choose a version for each conflicting field.
+            </p>
+            <div className="rounded-lg border divide-y">
+              {conflict.fields.map((field) => {
+                const choice = choices[field] ?? "theirs";
+                const options: FieldResolution[] = MERGEABLE_FIELDS.includes(field)
+                  ? ["mine", "theirs", "merge"]
+                  : ["mine", "theirs"];
+                return (
+                  <div key={field} className="p-3 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-sm font-medium">{OBSERVATION_FIELD_LABELS[field]}</p>
+                      <div className="flex rounded-md border p-0.5">
+                        {options.map((option) => (
+                          <button
+                            key={option}
+                            type="button"
+                            onClick={() => setChoices((prev) => ({ ...prev, [field]: option }))}
+                            className={cn(
+                              "px-2 py-0.5 text-xs rounded",
+                              choice === option ? "bg-brand-navy text-white" : "hover:bg-muted"
+                            )}
+                          >
+                            {choiceLabels[option]}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2 text-xs">
+                      <div className={cn("rounded p-2 bg-muted/50", choice === "mine" && "ring-1 ring-brand-navy")}>
+                        <p className="text-muted-foreground mb-0.5">Mine</p>
+                        <p className="whitespace-pre-wrap break-words">
+                          {formatValue(field, mutation.data!, wasteTypes)}
+                        </p>
+                      </div>
+                      <div className={cn("rounded p-2 bg-muted/50", choice === "theirs" && "ring-1 ring-brand-navy")}>
+                        <p className="text-muted-foreground mb-0.5">Theirs</p>
+                        <p className="whitespace-pre-wrap break-words">
+                          {formatValue(field, conflict.server!, wasteTypes)}
+                        </p>
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={onCancel} disabled={isResolving}>
+            Later
+          </Button>
+          {conflict.server && mutation.op === "update" && (
+            <Button onClick={() => handleResolve(choices)} disabled={isResolving}>
+              Apply
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -6,8 +6,8 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Slider } from "@/components/ui/slider";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -54,10 +54,19 @@ import {
   Database,
   Split,
   Hourglass,
-  Calculator,
   Trash2,
   User,
+  Paperclip,
 } from "lucide-react";
+import { ScoreSliders } from "./ScoreSliders";
+import { getSignedUrls } from "@/lib/services/storage";
+import {
+  DEFAULT_SCORING_MODEL,
+  getDefaultScores,
+  getObservationScores,
+  type ScoringModelDefinition,
+} from "@/lib/services/scoringModel";
+import { getObserverName } from "@/lib/services/observerPrivacy";
 import type { WasteType } from "@/types";
 import type { ObservationWithDetails } from "@/lib/services/observations";
 import { formatDistanceToNow } from "date-fns";
@@ -66,9 +75,8 @@ const editObservationSchema = z.object({
   notes: z.string().optional(),
   isDigital: z.boolean(),
   isPhysical: z.boolean(),
-  frequencyScore: z.number().min(1).max(5),
-  impactScore: z.number().min(1).max(5),
-  easeScore: z.number().min(1).max(5),
+  scores: z.record(z.string(), z.number()),
+  timeLostMinutes: z.number().min(0).nullable(),
   wasteTypeIds: z.array(z.string()).min(1, "Select at least one waste type"),
 });
 
@@ -84,6 +92,7 @@ interface ObservationEditPanelProps {
   isSaving?: boolean;
   isDeleting?: boolean;
   currentUserId?: string;
+  scoringModel?: ScoringModelDefinition;
 }
 
 const wasteIcons: Record<string, React.ElementType> = {
@@ -130,8 +139,10 @@ export function ObservationEditPanel({
   isSaving = false,
   isDeleting = false,
   currentUserId,
+  scoringModel = DEFAULT_SCORING_MODEL,
 }: ObservationEditPanelProps) {
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [attachmentUrls, setAttachmentUrls] = useState<Record<string, string>>({});
 
   const form = useForm<EditObservationFormData>({
     resolver: zodResolver(editObservationSchema),
@@ -139,9 +150,8 @@ export function ObservationEditPanel({
       notes: "",
       isDigital: true,
       isPhysical: false,
-      frequencyScore: 3,
-      impactScore: 3,
-      easeScore: 3,
+      scores: getDefaultScores(scoringModel),
+      timeLostMinutes: null,
       wasteTypeIds: [],
     },
   });
@@ -153,18 +163,27 @@ export function ObservationEditPanel({
         notes: observation.notes || "",
         isDigital: observation.is_digital,
         isPhysical: observation.is_physical,
-        frequencyScore: observation.frequency_score,
-        impactScore: observation.impact_score,
-        easeScore: observation.ease_score,
+        scores: getObservationScores(scoringModel, observation),
+        timeLostMinutes: observation.time_lost_minutes ?? null,
         wasteTypeIds: observation.waste_types?.map((wt) => wt.id) || [],
       });
     }
-  }, [observation, form]);
+  }, [observation, scoringModel, form]);
 
-  const frequencyScore = form.watch("frequencyScore");
-  const impactScore = form.watch("impactScore");
-  const easeScore = form.watch("easeScore");
-  const priorityScore = frequencyScore * impactScore * (6 - easeScore);
+  // Evidence is private; links are signed for the session's participants
+  const attachmentPaths = observation?.attachments;
+  useEffect(() => {
+    let cancelled = false;
+    setAttachmentUrls({});
+    getSignedUrls("observation-attachments", attachmentPaths ?? [])
+      .then((urls) => {
+        if (!cancelled) setAttachmentUrls(urls);
+      })
+      .catch((error) => console.error("Failed to sign evidence links:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [attachmentPaths]);
 
   const handleSubmit = (data: EditObservationFormData) => {
     if (observation) {
@@ -193,7 +212,7 @@ export function ObservationEditPanel({
           <SheetDescription className="space-y-2">
             <div className="flex items-center gap-2 text-sm">
               <User className="h-4 w-4" />
-              <span>{observation.user?.name || "Unknown"}</span>
+              <span>{getObserverName(observation)}</span>
               <span className="text-muted-foreground">•</span>
               <span className="text-muted-foreground">
                 {formatDistanceToNow(new Date(observation.created_at), { addSuffix: true })}
@@ -309,117 +328,47 @@ export function ObservationEditPanel({
                 </div>
               </div>
 
-              {/* Scoring Sliders */}
-              <div className="space-y-4">
-                <FormField
-                  control={form.control}
-                  name="frequencyScore"
-                  render={({ field }) => (
-                    <FormItem>
-                      <div className="flex justify-between">
-                        <FormLabel>Frequency</FormLabel>
-                        <span className="text-sm font-medium">{field.value}/5</span>
-                      </div>
-                      <FormDescription className="text-xs">
-                        How often does this waste occur?
-                      </FormDescription>
-                      <FormControl>
-                        <Slider
-                          min={1}
-                          max={5}
-                          step={1}
-                          disabled={!canEdit}
-                          value={[field.value]}
-                          onValueChange={([value]) => field.onChange(value)}
-                          className="mt-2"
-                        />
-                      </FormControl>
-                      <div className="flex justify-between text-xs text-muted-foreground">
-                        <span>Rare</span>
-                        <span>Constant</span>
-                      </div>
-                    </FormItem>
-                  )}
-                />
-
-                <FormField
-                  control={form.control}
-                  name="impactScore"
-                  render={({ field }) => (
-                    <FormItem>
-                      <div className="flex justify-between">
-                        <FormLabel>Impact</FormLabel>
-                        <span className="text-sm font-medium">{field.value}/5</span>
-                      </div>
-                      <FormDescription className="text-xs">
-                        How significant is the impact on the process?
-                      </FormDescription>
-                      <FormControl>
-                        <Slider
-                          min={1}
-                          max={5}
-                          step={1}
-                          disabled={!canEdit}
-                          value={[field.value]}
-                          onValueChange={([value]) => field.onChange(value)}
-                          className="mt-2"
-                        />
-                      </FormControl>
-                      <div className="flex justify-between text-xs text-muted-foreground">
-                        <span>Minor</span>
-                        <span>Severe</span>
-                      </div>
-                    </FormItem>
-                  )}
-                />
-
-                <FormField
-                  control={form.control}
-                  name="easeScore"
-                  render={({ field }) => (
-                    <FormItem>
-                      <div className="flex justify-between">
-                        <FormLabel>Ease to Fix</FormLabel>
-                        <span className="text-sm font-medium">{field.value}/5</span>
-                      </div>
-                      <FormDescription className="text-xs">
-                        How easy is this to resolve?
-                      </FormDescription>
-                      <FormControl>
-                        <Slider
-                          min={1}
-                          max={5}
-                          step={1}
-                          disabled={!canEdit}
-                          value={[field.value]}
-                          onValueChange={([value]) => field.onChange(value)}
-                          className="mt-2"
-                        />
-                      </FormControl>
-                      <div className="flex justify-between text-xs text-muted-foreground">
-                        <span>Difficult</span>
-                        <span>Easy</span>
-                      </div>
-                    </FormItem>
-                  )}
-                />
-              </div>
+              {/* Scoring */}
+              <FormField
+                control={form.control}
+                name="scores"
+                render={({ field }) => (
+                  <ScoreSliders
+                    model={scoringModel}
+                    value={field.value}
+                    onChange={field.onChange}
+                    disabled={!canEdit}
+                  />
+                )}
+              />
 
-              {/* Priority Score Display */}
-              <div className="p-4 rounded-lg bg-brand-gold/10 border border-brand-gold/30">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-2">
-                    <Calculator className="h-5 w-5 text-brand-gold" />
-                    <span className="font-medium">Priority Score</span>
-                  </div>
-                  <span className="text-2xl font-bold text-brand-navy">
-                    {priorityScore}
-                  </span>
-                </div>
-                <p className="text-xs text-muted-foreground mt-1">
-                  Frequency × Impact × (6 - Ease) = {frequencyScore} × {impactScore} × {6 - easeScore}
-                </p>
-              </div>
+              {/* Time Lost */}
+              <FormField
+                control={form.control}
+                name="timeLostMinutes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Time Lost per Transaction (minutes)</FormLabel>
+                    <FormDescription className="text-xs">
+                      Average minutes this waste costs each time work passes through the step
+                    </FormDescription>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={0}
+                        step="any"
+                        placeholder="Optional"
+                        value={field.value ?? ""}
+                        onChange={(e) =>
+                          field.onChange(e.target.value === "" ? null : Number(e.target.value))
+                        }
+                        className="w-40"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
 
               {/* Notes */}
               <FormField
@@ -439,6 +388,27 @@ export function ObservationEditPanel({
                   </FormItem>
                 )}
               />
+
+              {/* Evidence */}
+              {observation.attachments && observation.attachments.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Evidence</Label>
+                  <div className="space-y-1">
+                    {observation.attachments.map((path) => (
+                      <a
+                        key={path}
+                        href={attachmentUrls[path]}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-2 p-2 bg-muted rounded text-sm hover:underline"
+                      >
+                        <Paperclip className="h-4 w-4 shrink-0 text-muted-foreground" />
+                        <span className="truncate">{path.split("/").pop()}</span>
+                      </a>
+                    ))}
+                  </div>
+                </div>
+              )}
             </form>
           </Form>
         </ScrollArea>
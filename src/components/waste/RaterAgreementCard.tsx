@@ -0,0 +1,284 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertTriangle, CheckCircle, ChevronDown, MessageSquare, Scale } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  AGREEMENT_THRESHOLD,
+  summarizeAgreement,
+  type AgreementGroup,
+} from "@/lib/services/raterAgreement";
+import type { ConsensusScores } from "@/lib/services/scoreCalibrations";
+import type { ScoringModelDefinition } from "@/lib/services/scoringModel";
+import type { ScoreCalibration } from "@/types";
+
+interface RaterAgreementCardProps {
+  groups: AgreementGroup[];
+  calibrations: ScoreCalibration[];
+  /** The session's scoring model; groups were analyzed on its dimensions */
+  scoringModel: ScoringModelDefinition;
+  stepNames: Record<string, string>;
+  isFacilitator: boolean;
+  onRequestCalibration: (group: AgreementGroup) => Promise<void>;
+  onRecordConsensus: (group: AgreementGroup, consensus: ConsensusScores) => Promise<void>;
+}
+
+function formatAgreement(value: number) {
+  return `${Math.round(value * 100)}%`;
+}
+
+function ConsensusForm({
+  group,
+  scoringModel,
+  onSubmit,
+}: {
+  group: AgreementGroup;
+  scoringModel: ScoringModelDefinition;
+  onSubmit: (consensus: ConsensusScores) => Promise<void>;
+}) {
+  const [scores, setScores] = useState<Record<string, number>>(() =>
+    Object.fromEntries(scoringModel.dimensions.map((d) => [d.key, Math.round(group.spread[d.key]?.mean ?? d.min)]))
+  );
+  const [notes, setNotes] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async () => {
+    setIsSaving(true);
+    try {
+      await onSubmit({ scores, notes });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="grid grid-cols-3 gap-3">
+        {scoringModel.dimensions.map((dimension) => (
+          <div key={dimension.key} className="space-y-1">
+            <Label htmlFor={`${group.key}-${dimension.key}`} className="text-xs">
+              {dimension.label} ({dimension.min}–{dimension.max})
+            </Label>
+            <Input
+              id={`${group.key}-${dimension.key}`}
+              type="number"
+              min={dimension.min}
+              max={dimension.max}
+              step={1}
+              value={scores[dimension.key]}
+              onChange={(e) =>
+                setScores({
+                  ...scores,
+                  [dimension.key]: Math.min(
+                    dimension.max,
+                    Math.max(dimension.min, Math.round(Number(e.target.value)) || dimension.min)
+                  ),
+                })
+              }
+              className="h-8"
+            />
+          </div>
+        ))}
+      </div>
+      <Textarea
+        placeholder="What the team agreed on (optional)"
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        rows={2}
+      />
+      <Button size="sm" onClick={handleSubmit} disabled={isSaving}>
+        Record consensus
+      </Button>
+    </div>
+  );
+}
+
+/** Inter-rater agreement on each scoring dimension, with participant drill-down and calibration */
+export function RaterAgreementCard({
+  groups,
+  calibrations,
+  scoringModel,
+  stepNames,
+  isFacilitator,
+  onRequestCalibration,
+  onRecordConsensus,
+}: RaterAgreementCardProps) {
+  const [recordingKey, setRecordingKey] = useState<string | null>(null);
+  const summary = summarizeAgreement(groups);
+
+  const dimensionLabels = Object.fromEntries(scoringModel.dimensions.map((d) => [d.key, d.label]));
+
+  const getCalibration = (group: AgreementGroup) =>
+    calibrations.find((c) => c.step_id === group.stepId && c.waste_type_id === group.wasteType.id);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="h-5 w-5" />
+          Scoring Agreement
+        </CardTitle>
+        <CardDescription>
+          How closely participants scored the same waste at the same step. Below{" "}
+          {formatAgreement(AGREEMENT_THRESHOLD)} agreement the team should calibrate.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {groups.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No step and waste type was scored by more than one participant.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="p-3 rounded-lg bg-muted/50">
+                <p className="text-sm text-muted-foreground mb-1">Compared</p>
+                <p className="text-xl font-bold">{summary.groupsCompared}</p>
+              </div>
+              <div className="p-3 rounded-lg bg-muted/50">
+                <p className="text-sm text-muted-foreground mb-1">Disagreements</p>
+                <p className={cn("text-xl font-bold", summary.groupsFlagged > 0 && "text-amber-600")}>
+                  {summary.groupsFlagged}
+                </p>
+              </div>
+              <div className="p-3 rounded-lg bg-muted/50">
+                <p className="text-sm text-muted-foreground mb-1">Mean agreement</p>
+                <p className="text-xl font-bold">{formatAgreement(summary.meanAgreement)}</p>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              {groups.map((group) => {
+                const calibration = getCalibration(group);
+                return (
+                  <Collapsible key={group.key} className="rounded-lg border">
+                    <CollapsibleTrigger className="flex w-full items-center gap-3 p-3 text-left">
+                      {group.disagreement ? (
+                        <AlertTriangle className="h-4 w-4 shrink-0 text-amber-600" />
+                      ) : (
+                        <CheckCircle className="h-4 w-4 shrink-0 text-brand-emerald" />
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium truncate">
+                          {stepNames[group.stepId] || "Unknown Step"} · {group.wasteType.name}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {group.raters.length} raters · widest on {(dimensionLabels[group.weakestDimension] ?? group.weakestDimension).toLowerCase()} (
+                          {group.spread[group.weakestDimension].min}–{group.spread[group.weakestDimension].max})
+                        </p>
+                      </div>
+                      {calibration?.status === "discussion" && (
+                        <Badge variant="outline" className="border-amber-400 text-amber-700">
+                          In discussion
+                        </Badge>
+                      )}
+                      {calibration?.status === "resolved" && (
+                        <Badge variant="outline" className="border-green-500 text-green-600">
+                          Consensus{" "}
+                          {scoringModel.dimensions.map((d) => calibration.consensus_scores?.[d.key] ?? "–").join("/")}
+                        </Badge>
+                      )}
+                      <Badge variant={group.disagreement ? "destructive" : "secondary"}>
+                        {formatAgreement(group.agreement)}
+                      </Badge>
+                      <ChevronDown className="h-4 w-4 shrink-0 text-muted-foreground" />
+                    </CollapsibleTrigger>
+                    <CollapsibleContent className="space-y-3 px-3 pb-3">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Participant</TableHead>
+                            {scoringModel.dimensions.map((dimension) => (
+                              <TableHead key={dimension.key} className="text-right">
+                                {dimension.label}
+                              </TableHead>
+                            ))}
+                            <TableHead className="text-right">Observations</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {group.raters.map((rater) => (
+                            <TableRow key={rater.userId}>
+                              <TableCell>{rater.userName}</TableCell>
+                              {scoringModel.dimensions.map((dimension) => (
+                                <TableCell key={dimension.key} className="text-right">
+                                  {rater.scores[dimension.key]}
+                                </TableCell>
+                              ))}
+                              <TableCell className="text-right">{rater.observationIds.length}</TableCell>
+                            </TableRow>
+                          ))}
+                          <TableRow className="text-muted-foreground">
+                            <TableCell>Agreement</TableCell>
+                            {scoringModel.dimensions.map((dimension) => (
+                              <TableCell key={dimension.key} className="text-right">
+                                {formatAgreement(group.spread[dimension.key].agreement)}
+                              </TableCell>
+                            ))}
+                            <TableCell />
+                          </TableRow>
+                        </TableBody>
+                      </Table>
+
+                      {calibration?.notes && (
+                        <p className="text-sm text-muted-foreground">{calibration.notes}</p>
+                      )}
+
+                      {isFacilitator && (
+                        <div className="flex gap-2">
+                          {!calibration && (
+                            <Button variant="outline" size="sm" onClick={() => onRequestCalibration(group)}>
+                              <MessageSquare className="h-4 w-4 mr-1" />
+                              Start calibration
+                            </Button>
+                          )}
+                          {recordingKey !== group.key && (
+                            <Button variant="outline" size="sm" onClick={() => setRecordingKey(group.key)}>
+                              {calibration?.status === "resolved" ? "Update consensus" : "Record consensus"}
+                            </Button>
+                          )}
+                        </div>
+                      )}
+
+                      {isFacilitator && recordingKey === group.key && (
+                        <ConsensusForm
+                          group={group}
+                          scoringModel={scoringModel}
+                          onSubmit={async (consensus) => {
+                            await onRecordConsensus(group, consensus);
+                            setRecordingKey(null);
+                          }}
+                        />
+                      )}
+                    </CollapsibleContent>
+                  </Collapsible>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Calculator } from "lucide-react";
+import {
+  calculatePriority,
+  getDefaultScore,
+  type ScoringModelDefinition,
+} from "@/lib/services/scoringModel";
+
+interface ScoreSlidersProps {
+  model: ScoringModelDefinition;
+  value: Record<string, number>;
+  onChange: (scores: Record<string, number>) => void;
+  disabled?: boolean;
+}
+
+// Scale anchors for the built-in dimensions; custom ones show their range
+const scaleLabels: Record<string, [string, string]> = {
+  frequency: ["Rare", "Constant"],
+  impact: ["Minor", "Severe"],
+  ease: ["Difficult", "Easy"],
+};
+
+/** One slider per scoring model dimension, with the resulting priority score */
+export function ScoreSliders({ model, value, onChange, disabled = false }: ScoreSlidersProps) {
+  const priorityScore = calculatePriority(model, value);
+
+  return (
+    <>
+      <div className="space-y-4">
+        {model.dimensions.map((dimension) => {
+          const score = value[dimension.key] ?? getDefaultScore(dimension);
+          const [low, high] = scaleLabels[dimension.key] ?? [String(dimension.min), String(dimension.max)];
+
+          return (
+            <div key={dimension.key} className="space-y-2">
+              <div className="flex justify-between">
+                <Label>{dimension.label}</Label>
+                <span className="text-sm font-medium">
+                  {score}/{dimension.max}
+                </span>
+              </div>
+              {dimension.description && (
+                <p className="text-xs text-muted-foreground">{dimension.description}</p>
+              )}
+              <Slider
+                min={dimension.min}
+                max={dimension.max}
+                step={1}
+                disabled={disabled}
+                value={[score]}
+                onValueChange={([next]) => onChange({ ...value, [dimension.key]: next })}
+                className="mt-2"
+              />
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>{low}</span>
+                <span>{high}</span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Priority Score Display */}
+      <div className="p-4 rounded-lg bg-brand-gold/10 border border-brand-gold/30">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Calculator className="h-5 w-5 text-brand-gold" />
+            <span className="font-medium">{model.name}</span>
+          </div>
+          <span className="text-2xl font-bold text-brand-navy">{priorityScore}</span>
+        </div>
+        <p className="text-xs text-muted-foreground mt-1 font-mono">
+          {model.formula?.trim() || "weighted_sum"}
+        </p>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,93 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Mic, Square } from "lucide-react";
+
+interface VoiceMemoRecorderProps {
+  onRecorded: (file: File) => void;
+  disabled?: boolean;
+}
+
+function formatElapsed(seconds: number) {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+/** Record a voice memo with the device microphone; works offline */
+export function VoiceMemoRecorder({ onRecorded, disabled = false }: VoiceMemoRecorderProps) {
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+
+  const isSupported = typeof window !== "undefined" && "MediaRecorder" in window;
+
+  useEffect(() => {
+    if (!isRecording) return;
+    const timer = setInterval(() => setElapsed((s) => s + 1), 1000);
+    return () => clearInterval(timer);
+  }, [isRecording]);
+
+  // Release the microphone if the panel closes mid-recording
+  useEffect(() => {
+    return () => {
+      const recorder = recorderRef.current;
+      if (recorder && recorder.state !== "inactive") recorder.stop();
+    };
+  }, []);
+
+  const startRecording = async () => {
+    setError(null);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const recorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+      recorder.onstop = () => {
+        stream.getTracks().forEach((track) => track.stop());
+        const type = recorder.mimeType || "audio/webm";
+        const ext = type.includes("mp4") ? "m4a" : type.includes("ogg") ? "ogg" : "webm";
+        const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+        if (chunks.length > 0) {
+          onRecorded(new File(chunks, `voice-memo-${stamp}.${ext}`, { type }));
+        }
+        setIsRecording(false);
+      };
+
+      recorderRef.current = recorder;
+      recorder.start();
+      setElapsed(0);
+      setIsRecording(true);
+    } catch (err) {
+      console.error("Failed to start recording:", err);
+      setError("Microphone not available");
+    }
+  };
+
+  const stopRecording = () => {
+    recorderRef.current?.stop();
+  };
+
+  if (!isSupported) return null;
+
+  return (
+    <div className="flex items-center gap-2">
+      {isRecording ? (
+        <Button type="button" variant="outline" size="sm" onClick={stopRecording} className="text-red-600">
+          <Square className="h-4 w-4 mr-1 fill-current" />
+          Stop · {formatElapsed(elapsed)}
+        </Button>
+      ) : (
+        <Button type="button" variant="outline" size="sm" onClick={startRecording} disabled={disabled}>
+          <Mic className="h-4 w-4 mr-1" />
+          Voice memo
+        </Button>
+      )}
+      {error && <span className="text-xs text-destructive">{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Lock, Minus, Plus, Vote } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getRemainingVotes, isVoteOn, tallyVotes, type VoteTarget } from "@/lib/services/voteTally";
+import type { ProcessStep, SessionVote, VotingRound } from "@/types";
+import type { ObservationWithDetails } from "@/lib/services/observations";
+
+interface VotingPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  round: VotingRound | null;
+  votes: SessionVote[];
+  steps: ProcessStep[];
+  observations: ObservationWithDetails[];
+  currentUserId?: string;
+  isFacilitator: boolean;
+  onOpenRound: (votesPerParticipant: number) => void;
+  onCloseRound: () => void;
+  onVote: (target: VoteTarget) => void;
+  onRetract: (target: VoteTarget) => void;
+  isBusy?: boolean;
+}
+
+interface VoteRowProps {
+  label: string;
+  detail?: string;
+  total: number;
+  mine: number;
+  canVote: boolean;
+  canRetract: boolean;
+  onVote: () => void;
+  onRetract: () => void;
+  isOpen: boolean;
+  className?: string;
+}
+
+function VoteRow({
+  label,
+  detail,
+  total,
+  mine,
+  canVote,
+  canRetract,
+  onVote,
+  onRetract,
+  isOpen,
+  className,
+}: VoteRowProps) {
+  return (
+    <div className={cn("flex items-center gap-2", className)}>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm truncate">{label}</p>
+        {detail && <p className="text-xs text-muted-foreground truncate">{detail}</p>}
+      </div>
+      <Badge variant={total > 0 ? "default" : "outline"} className="shrink-0">
+        {total}
+      </Badge>
+      {isOpen && (
+        <div className="flex items-center gap-1 shrink-0">
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            className="h-7 w-7"
+            onClick={onRetract}
+            disabled={!canRetract}
+            aria-label={`Remove a vote from ${label}`}
+          >
+            <Minus className="h-3 w-3" />
+          </Button>
+          <span className="w-5 text-center text-xs text-muted-foreground">{mine}</span>
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            className="h-7 w-7"
+            onClick={onVote}
+            disabled={!canVote}
+            aria-label={`Vote for ${label}`}
+          >
+            <Plus className="h-3 w-3" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Dot-voting round: facilitator controls, the participant's remaining votes and live tallies */
+export function VotingPanel({
+  isOpen,
+  onClose,
+  round,
+  votes,
+  steps,
+  observations,
+  currentUserId,
+  isFacilitator,
+  onOpenRound,
+  onCloseRound,
+  onVote,
+  onRetract,
+  isBusy = false,
+}: VotingPanelProps) {
+  const [votesPerParticipant, setVotesPerParticipant] = useState(5);
+
+  const totals = useMemo(
+    () => tallyVotes(votes, Object.fromEntries(observations.map((o) => [o.id, o.step_id]))),
+    [votes, observations]
+  );
+  const myVotes = useMemo(() => votes.filter((v) => v.user_id === currentUserId), [votes, currentUserId]);
+
+  const roundIsOpen = round?.status === "open";
+  const remaining = round ? getRemainingVotes(votes, currentUserId, round.votes_per_participant) : 0;
+  const orderedSteps = useMemo(() => [...steps].sort((a, b) => a.order_index - b.order_index), [steps]);
+
+  const countMine = (target: VoteTarget) => myVotes.filter((v) => isVoteOn(v, target)).length;
+
+  const renderRow = (target: VoteTarget, label: string, total: number, detail?: string, className?: string) => {
+    const mine = countMine(target);
+    return (
+      <VoteRow
+        key={`${target.type}-${target.id}`}
+        label={label}
+        detail={detail}
+        total={total}
+        mine={mine}
+        isOpen={roundIsOpen}
+        canVote={!isBusy && remaining > 0}
+        canRetract={!isBusy && mine > 0}
+        onVote={() => onVote(target)}
+        onRetract={() => onRetract(target)}
+        className={className}
+      />
+    );
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={onClose}>
+      <SheetContent className="w-[400px] sm:w-[480px] p-0">
+        <SheetHeader className="p-6 pb-4 border-b">
+          <SheetTitle className="flex items-center gap-2">
+            <Vote className="h-5 w-5" />
+            Prioritization Vote
+          </SheetTitle>
+          <SheetDescription>
+            {roundIsOpen
+              ? `${remaining} of ${round.votes_per_participant} votes left. Spend them on the steps or observations that matter most.`
+              : round
+              ? "Voting is closed. Totals from this round feed the results and synthesis."
+              : "No voting round has been run for this session yet."}
+          </SheetDescription>
+
+          {isFacilitator && (
+            <div className="pt-2">
+              {roundIsOpen ? (
+                <Button variant="outline" size="sm" onClick={onCloseRound} disabled={isBusy}>
+                  <Lock className="h-4 w-4 mr-1" />
+                  Close round
+                </Button>
+              ) : (
+                <div className="flex items-end gap-2">
+                  <div className="space-y-1">
+                    <Label htmlFor="votes-per-participant" className="text-xs">
+                      Votes per participant
+                    </Label>
+                    <Input
+                      id="votes-per-participant"
+                      type="number"
+                      min={1}
+                      max={50}
+                      value={votesPerParticipant}
+                      onChange={(e) => setVotesPerParticipant(Number(e.target.value))}
+                      className="h-8 w-24"
+                    />
+                  </div>
+                  <Button
+                    size="sm"
+                    onClick={() => onOpenRound(Math.min(50, Math.max(1, Math.round(votesPerParticipant) || 1)))}
+                    disabled={isBusy}
+                  >
+                    {round ? "Start new round" : "Open voting"}
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </SheetHeader>
+
+        {round && (
+          <ScrollArea className="h-[calc(100vh-220px)]">
+            <div className="p-6 space-y-4">
+              <p className="text-xs text-muted-foreground">
+                {totals.total} vote{totals.total === 1 ? "" : "s"} cast. Step totals include votes on their observations.
+              </p>
+              {orderedSteps.map((step) => {
+                const stepObservations = observations.filter((o) => o.step_id === step.id);
+                return (
+                  <div key={step.id} className="space-y-2 border-b pb-3 last:border-b-0">
+                    {renderRow(
+                      { type: "step", id: step.id },
+                      step.step_name,
+                      totals.steps[step.id] ?? 0,
+                      step.lane,
+                      "font-medium"
+                    )}
+                    {stepObservations.map((obs) =>
+                      renderRow(
+                        { type: "observation", id: obs.id },
+                        obs.notes || "No notes",
+                        totals.observations[obs.id] ?? 0,
+                        obs.waste_types?.map((w) => w.code).join(", "),
+                        "pl-4"
+                      )
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -1,13 +1,13 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Slider } from "@/components/ui/slider";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -45,17 +45,28 @@ import {
   Hourglass,
   Upload,
   X,
-  Calculator,
+  Camera,
+  Video,
+  Mic,
+  FileText,
 } from "lucide-react";
+import { VoiceMemoRecorder } from "./VoiceMemoRecorder";
+import { ScoreSliders } from "./ScoreSliders";
+import { getAttachmentKind } from "@/lib/services/offlineAttachments";
+import {
+  DEFAULT_SCORING_MODEL,
+  getDefaultScores,
+  type ScoringModelDefinition,
+} from "@/lib/services/scoringModel";
 import type { ProcessStep, WasteType } from "@/types";
+import type { AttachmentKind } from "@/types/offlineSync";
 
 const wasteTaggingSchema = z.object({
   notes: z.string().optional(),
   isDigital: z.boolean(),
   isPhysical: z.boolean(),
-  frequencyScore: z.number().min(1).max(5),
-  impactScore: z.number().min(1).max(5),
-  easeScore: z.number().min(1).max(5),
+  scores: z.record(z.string(), z.number()),
+  timeLostMinutes: z.number().min(0).nullable(),
   wasteTypeIds: z.array(z.string()).min(1, "Select at least one waste type"),
 });
 
@@ -63,11 +74,16 @@ type WasteTaggingFormData = z.infer<typeof wasteTaggingSchema>;
 
 interface WasteTaggingPanelProps {
   step: ProcessStep | null;
+  // Tagging a handoff or information flow instead of a step
+  handoff?: { label: string; kind: "Handoff" | "Flow" } | null;
   wasteTypes: WasteType[];
   isOpen: boolean;
   onClose: () => void;
-  onSubmit: (data: WasteTaggingFormData) => void;
+  onSubmit: (data: WasteTaggingFormData, attachments: File[]) => void;
   isSubmitting?: boolean;
+  scoringModel?: ScoringModelDefinition;
+  // Guests have nowhere to upload evidence to
+  allowAttachments?: boolean;
 }
 
 const wasteIcons: Record<string, React.ElementType> = {
@@ -87,6 +103,18 @@ const wasteIcons: Record<string, React.ElementType> = {
   DW: Hourglass,
 };
 
+const attachmentIcons: Record<AttachmentKind, React.ElementType> = {
+  photo: Camera,
+  video: Video,
+  voice_memo: Mic,
+  document: FileText,
+};
+
+function formatFileSize(bytes: number) {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
 const wasteColors: Record<string, string> = {
   D: "#EF4444",
   O: "#F97316",
@@ -106,11 +134,14 @@ const wasteColors: Record<string, string> = {
 
 export function WasteTaggingPanel({
   step,
+  handoff = null,
   wasteTypes,
   isOpen,
   onClose,
   onSubmit,
   isSubmitting = false,
+  scoringModel = DEFAULT_SCORING_MODEL,
+  allowAttachments = true,
 }: WasteTaggingPanelProps) {
   const [attachments, setAttachments] = useState<File[]>([]);
 
@@ -120,22 +151,23 @@ export function WasteTaggingPanel({
       notes: "",
       isDigital: true,
       isPhysical: false,
-      frequencyScore: 3,
-      impactScore: 3,
-      easeScore: 3,
+      scores: getDefaultScores(scoringModel),
+      timeLostMinutes: null,
       wasteTypeIds: [],
     },
   });
 
-  const frequencyScore = form.watch("frequencyScore");
-  const impactScore = form.watch("impactScore");
-  const easeScore = form.watch("easeScore");
-  const priorityScore = frequencyScore * impactScore * (6 - easeScore);
+  // The session's model can arrive after the panel mounts
+  useEffect(() => {
+    form.setValue("scores", getDefaultScores(scoringModel));
+  }, [scoringModel, form]);
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
       setAttachments([...attachments, ...Array.from(e.target.files)]);
     }
+    // Allow capturing or picking the same file again
+    e.target.value = "";
   };
 
   const removeAttachment = (index: number) => {
@@ -143,12 +175,12 @@ export function WasteTaggingPanel({
   };
 
   const handleSubmit = (data: WasteTaggingFormData) => {
-    onSubmit(data);
-    form.reset();
+    onSubmit(data, attachments);
+    form.reset({ ...form.formState.defaultValues, scores: getDefaultScores(scoringModel) });
     setAttachments([]);
   };
 
-  if (!step) return null;
+  if (!step && !handoff) return null;
 
   return (
     <Sheet open={isOpen} onOpenChange={onClose}>
@@ -156,8 +188,8 @@ export function WasteTaggingPanel({
         <SheetHeader className="p-6 pb-4 border-b">
           <SheetTitle>Tag Waste</SheetTitle>
           <SheetDescription>
-            <span className="font-medium text-brand-navy">{step.step_name}</span>
-            <Badge variant="outline" className="ml-2">{step.lane}</Badge>
+            <span className="font-medium text-brand-navy">{step ? step.step_name : handoff?.label}</span>
+            <Badge variant="outline" className="ml-2">{step ? step.lane : handoff?.kind}</Badge>
           </SheetDescription>
         </SheetHeader>
 
@@ -252,114 +284,46 @@ export function WasteTaggingPanel({
                 </div>
               </div>
 
-              {/* Scoring Sliders */}
-              <div className="space-y-4">
-                <FormField
-                  control={form.control}
-                  name="frequencyScore"
-                  render={({ field }) => (
-                    <FormItem>
-                      <div className="flex justify-between">
-                        <FormLabel>Frequency</FormLabel>
-                        <span className="text-sm font-medium">{field.value}/5</span>
-                      </div>
-                      <FormDescription className="text-xs">
-                        How often does this waste occur?
-                      </FormDescription>
-                      <FormControl>
-                        <Slider
-                          min={1}
-                          max={5}
-                          step={1}
-                          value={[field.value]}
-                          onValueChange={([value]) => field.onChange(value)}
-                          className="mt-2"
-                        />
-                      </FormControl>
-                      <div className="flex justify-between text-xs text-muted-foreground">
-                        <span>Rare</span>
-                        <span>Constant</span>
-                      </div>
-                    </FormItem>
-                  )}
-                />
-
-                <FormField
-                  control={form.control}
-                  name="impactScore"
-                  render={({ field }) => (
-                    <FormItem>
-                      <div className="flex justify-between">
-                        <FormLabel>Impact</FormLabel>
-                        <span className="text-sm font-medium">{field.value}/5</span>
-                      </div>
-                      <FormDescription className="text-xs">
-                        How significant is the impact on the process?
-                      </FormDescription>
-                      <FormControl>
-                        <Slider
-                          min={1}
-                          max={5}
-                          step={1}
-                          value={[field.value]}
-                          onValueChange={([value]) => field.onChange(value)}
-                          className="mt-2"
-                        />
-                      </FormControl>
-                      <div className="flex justify-between text-xs text-muted-foreground">
-                        <span>Minor</span>
-                        <span>Severe</span>
-                      </div>
-                    </FormItem>
-                  )}
-                />
-
-                <FormField
-                  control={form.control}
-                  name="easeScore"
-                  render={({ field }) => (
-                    <FormItem>
-                      <div className="flex justify-between">
-                        <FormLabel>Ease to Fix</FormLabel>
-                        <span className="text-sm font-medium">{field.value}/5</span>
-                      </div>
-                      <FormDescription className="text-xs">
-                        How easy is this to resolve?
-                      </FormDescription>
-                      <FormControl>
-                        <Slider
-                          min={1}
-                          max={5}
-                          step={1}
-                          value={[field.value]}
-                          onValueChange={([value]) => field.onChange(value)}
-                          className="mt-2"
-                        />
-                      </FormControl>
-                      <div className="flex justify-between text-xs text-muted-foreground">
-                        <span>Difficult</span>
-                        <span>Easy</span>
-                      </div>
-                    </FormItem>
-                  )}
-                />
-              </div>
+              {/* Scoring */}
+              <FormField
+                control={form.control}
+                name="scores"
+                render={({ field }) => (
+                  <ScoreSliders
+                    model={scoringModel}
+                    value={field.value}
+                    onChange={field.onChange}
+                  />
+                )}
+              />
 
-              {/* Priority Score Display */}
-              <div className="p-4 rounded-lg bg-brand-gold/10 border border-brand-gold/30">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-2">
-                    <Calculator className="h-5 w-5 text-brand-gold" />
-                    <span className="font-medium">Priority Score</span>
-                  </div>
-                  <span className="text-2xl font-bold text-brand-navy">
-                    {priorityScore}
-                  </span>
-                </div>
-                <p className="text-xs text-muted-foreground mt-1">
-                  Frequency × Impact × (6 - Ease) = {frequencyScore} × {impactScore} × {6 - easeScore}
-                </p>
-              </div>
+              {/* Time Lost */}
+              <FormField
+                control={form.control}
+                name="timeLostMinutes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Time Lost per Transaction (minutes)</FormLabel>
+                    <FormDescription className="text-xs">
+                      Average minutes this waste costs each time work passes through the step
+                    </FormDescription>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={0}
+                        step="any"
+                        placeholder="Optional"
+                        value={field.value ?? ""}
+                        onChange={(e) =>
+                          field.onChange(e.target.value === "" ? null : Number(e.target.value))
+                        }
+                        className="w-40"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
 
               {/* Notes */}
               <FormField
@@ -379,9 +343,47 @@ export function WasteTaggingPanel({
                 )}
               />
 
-              {/* File Upload */}
+              {/* Evidence Capture */}
+              {allowAttachments && (
               <div className="space-y-2">
-                <Label>Evidence (Screenshots/Files)</Label>
+                <Label>Evidence</Label>
+                <FormDescription>
+                  Photos, videos and voice memos are kept on this device and upload when you are online.
+                </FormDescription>
+                <div className="flex flex-wrap gap-2">
+                  <input
+                    type="file"
+                    id="photo-capture"
+                    accept="image/*"
+                    capture="environment"
+                    className="hidden"
+                    onChange={handleFileUpload}
+                  />
+                  <Button variant="outline" size="sm" asChild>
+                    <label htmlFor="photo-capture" className="cursor-pointer">
+                      <Camera className="h-4 w-4 mr-1" />
+                      Photo
+                    </label>
+                  </Button>
+                  <input
+                    type="file"
+                    id="video-capture"
+                    accept="video/*"
+                    capture="environment"
+                    className="hidden"
+                    onChange={handleFileUpload}
+                  />
+                  <Button variant="outline" size="sm" asChild>
+                    <label htmlFor="video-capture" className="cursor-pointer">
+                      <Video className="h-4 w-4 mr-1" />
+                      Video
+                    </label>
+                  </Button>
+                  <VoiceMemoRecorder
+                    onRecorded={(file) => setAttachments((prev) => [...prev, file])}
+                    disabled={isSubmitting}
+                  />
+                </div>
                 <div className="border-2 border-dashed rounded-lg p-4 text-center">
                   <input
                     type="file"
@@ -389,7 +391,7 @@ export function WasteTaggingPanel({
                     multiple
                     className="hidden"
                     onChange={handleFileUpload}
-                    accept="image/*,.pdf,.doc,.docx"
+                    accept="image/*,video/*,audio/*,.pdf,.doc,.docx"
                   />
                   <label
                     htmlFor="file-upload"
@@ -403,26 +405,34 @@ export function WasteTaggingPanel({
                 </div>
                 {attachments.length > 0 && (
                   <div className="space-y-2 mt-2">
-                    {attachments.map((file, idx) => (
-                      <div
-                        key={idx}
-                        className="flex items-center justify-between p-2 bg-muted rounded"
-                      >
-                        <span className="text-sm truncate">{file.name}</span>
-                        <Button
-                          type="button"
-                          variant="ghost"
-                          size="icon"
-                          className="h-6 w-6"
-                          onClick={() => removeAttachment(idx)}
+                    {attachments.map((file, idx) => {
+                      const Icon = attachmentIcons[getAttachmentKind(file.type)];
+                      return (
+                        <div
+                          key={idx}
+                          className="flex items-center justify-between gap-2 p-2 bg-muted rounded"
                         >
-                          <X className="h-4 w-4" />
-                        </Button>
-                      </div>
-                    ))}
+                          <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+                          <span className="text-sm truncate flex-1">{file.name}</span>
+                          <span className="text-xs text-muted-foreground shrink-0">
+                            {formatFileSize(file.size)}
+                          </span>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            onClick={() => removeAttachment(idx)}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      );
+                    })}
                   </div>
                 )}
               </div>
+              )}
             </form>
           </Form>
         </ScrollArea>
@@ -0,0 +1,358 @@
+"use client";
+
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Activity, AlertCircle, Loader2, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { parseEventLog } from "@/lib/services/processMining";
+import {
+  checkConformance,
+  getConformanceOverlay,
+  getConformanceObservationCandidates,
+  createObservationsFromDeviations,
+  type ConformanceOverlay,
+  type ConformanceResult,
+} from "@/lib/services/conformance";
+import { getSessionsByProcess } from "@/lib/services/sessions";
+import type { ProcessStep, Session } from "@/types";
+
+interface ConformanceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  processId: string;
+  steps: ProcessStep[];
+  connections: { source: string; target: string }[];
+  onShowOverlay: (overlay: ConformanceOverlay | null) => void;
+}
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+export function ConformanceDialog({
+  open,
+  onOpenChange,
+  processId,
+  steps,
+  connections,
+  onShowOverlay,
+}: ConformanceDialogProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [logContent, setLogContent] = useState("");
+  const [result, setResult] = useState<ConformanceResult | null>(null);
+  const [parseErrors, setParseErrors] = useState<string[]>([]);
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [sessionId, setSessionId] = useState("");
+  const [selectedCandidates, setSelectedCandidates] = useState<Set<string>>(new Set());
+  const [isCreating, setIsCreating] = useState(false);
+
+  const candidates = useMemo(
+    () => (result ? getConformanceObservationCandidates(result) : []),
+    [result]
+  );
+
+  useEffect(() => {
+    if (!open) return;
+    getSessionsByProcess(processId)
+      .then((data) => {
+        setSessions(data);
+        setSessionId((current) => current || data.find((s) => s.status === "active")?.id || "");
+      })
+      .catch((error) => console.error("Failed to load sessions:", error));
+  }, [open, processId]);
+
+  const handleFileUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setLogContent(await file.text());
+  }, []);
+
+  const handleAnalyze = useCallback(() => {
+    const parsed = parseEventLog(logContent);
+    if (!parsed.valid || !parsed.log) {
+      setResult(null);
+      setParseErrors(parsed.errors.map((e) => e.message));
+      return;
+    }
+
+    const conformance = checkConformance(parsed.log, {
+      steps,
+      connections: connections.map((c) => ({
+        source_step_id: c.source,
+        target_step_id: c.target,
+      })),
+    });
+    setParseErrors([]);
+    setResult(conformance);
+    setSelectedCandidates(new Set());
+    onShowOverlay(getConformanceOverlay(conformance));
+  }, [logContent, steps, connections, onShowOverlay]);
+
+  const toggleCandidate = useCallback((key: string, checked: boolean) => {
+    setSelectedCandidates((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(key);
+      else next.delete(key);
+      return next;
+    });
+  }, []);
+
+  const handleCreateObservations = useCallback(async () => {
+    if (!sessionId) return;
+    setIsCreating(true);
+    try {
+      const created = await createObservationsFromDeviations(
+        sessionId,
+        candidates.filter((c) => selectedCandidates.has(c.key))
+      );
+      toast({
+        title: "Observations added",
+        description: `Added ${created.length} observation${created.length === 1 ? "" : "s"} to the session.`,
+      });
+      setSelectedCandidates(new Set());
+    } catch (error) {
+      console.error("Failed to create observations:", error);
+      toast({
+        variant: "destructive",
+        title: "Could not add observations",
+        description: error instanceof Error ? error.message : "Unknown error",
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  }, [sessionId, candidates, selectedCandidates, toast]);
+
+  const handleClearOverlay = useCallback(() => {
+    setResult(null);
+    onShowOverlay(null);
+  }, [onShowOverlay]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Activity className="h-5 w-5 text-brand-gold" />
+            Conformance Check
+          </DialogTitle>
+          <DialogDescription>
+            Replay an event log against this workflow to see where reality deviates from the map.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="flex-1 pr-4">
+          <div className="space-y-4">
+            {!result && (
+              <>
+                <div
+                  className="border-2 border-dashed rounded-lg p-4 text-center cursor-pointer hover:border-brand-gold hover:bg-brand-gold/5 transition-colors"
+                  onClick={() => fileInputRef.current?.click()}
+                >
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".csv,.xes,.xml"
+                    className="hidden"
+                    onChange={handleFileUpload}
+                  />
+                  <Upload className="h-6 w-6 mx-auto mb-2 text-muted-foreground" />
+                  <p className="text-sm">Click to upload a CSV or XES event log</p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Activities are matched to steps by name
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="conformance-log">Event Log</Label>
+                  <Textarea
+                    id="conformance-log"
+                    placeholder="case_id,activity,timestamp,resource"
+                    className="font-mono text-sm h-40"
+                    value={logContent}
+                    onChange={(e) => setLogContent(e.target.value)}
+                  />
+                </div>
+                {parseErrors.length > 0 && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertTitle>Could not read event log</AlertTitle>
+                    <AlertDescription>
+                      <ul className="list-disc list-inside mt-2 space-y-1">
+                        {parseErrors.map((error, idx) => (
+                          <li key={idx} className="text-sm">
+                            {error}
+                          </li>
+                        ))}
+                      </ul>
+                    </AlertDescription>
+                  </Alert>
+                )}
+              </>
+            )}
+
+            {result && (
+              <>
+                {/* Summary */}
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="p-3 rounded-lg bg-muted/50 text-center">
+                    <p className="text-2xl font-bold text-brand-navy">
+                      {formatPercent(result.fitness)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">Fitness</p>
+                  </div>
+                  <div className="p-3 rounded-lg bg-muted/50 text-center">
+                    <p className="text-2xl font-bold text-brand-navy">
+                      {result.fittingCaseCount} / {result.caseCount}
+                    </p>
+                    <p className="text-xs text-muted-foreground">Cases that fit the map</p>
+                  </div>
+                  <div className="p-3 rounded-lg bg-muted/50 text-center">
+                    <p className="text-2xl font-bold text-brand-navy">
+                      {result.deviatingVariants.length}
+                    </p>
+                    <p className="text-xs text-muted-foreground">Deviating variants</p>
+                  </div>
+                </div>
+
+                {result.unmatchedActivities.length > 0 && (
+                  <Alert>
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertTitle>Activities not on the map</AlertTitle>
+                    <AlertDescription className="text-sm">
+                      {result.unmatchedActivities
+                        .map((a) => `${a.activity} (${a.occurrences})`)
+                        .join(", ")}
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                {/* Top deviating variants */}
+                {result.deviatingVariants.length > 0 && (
+                  <div>
+                    <Label className="mb-2 block">Top deviating variants</Label>
+                    <ul className="space-y-2">
+                      {result.deviatingVariants.slice(0, 5).map((variant, idx) => (
+                        <li key={idx} className="rounded-lg border p-2 text-xs space-y-1">
+                          <div className="flex items-center gap-2">
+                            <Badge variant="secondary">{variant.count} cases</Badge>
+                            <Badge variant="outline">fitness {formatPercent(variant.fitness)}</Badge>
+                          </div>
+                          <p className="text-muted-foreground">{variant.activities.join(" → ")}</p>
+                          <p>{variant.deviations.join("; ")}</p>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                <Separator />
+
+                {/* Candidate observations */}
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <Label>Add deviations as observations</Label>
+                    <Select value={sessionId} onValueChange={setSessionId}>
+                      <SelectTrigger className="w-56">
+                        <SelectValue placeholder="Choose a waste walk" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {sessions.map((session) => (
+                          <SelectItem key={session.id} value={session.id}>
+                            {session.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {candidates.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      No deviations found. Every case follows the map.
+                    </p>
+                  ) : (
+                    <ul className="space-y-2">
+                      {candidates.map((candidate) => (
+                        <li key={candidate.key} className="flex items-start gap-2 text-sm">
+                          <Checkbox
+                            id={`candidate-${candidate.key}`}
+                            checked={selectedCandidates.has(candidate.key)}
+                            onCheckedChange={(checked) =>
+                              toggleCandidate(candidate.key, checked === true)
+                            }
+                          />
+                          <label htmlFor={`candidate-${candidate.key}`} className="flex-1">
+                            <Badge variant="outline" className="mr-2 capitalize">
+                              {candidate.kind}
+                            </Badge>
+                            {candidate.notes}
+                          </label>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {sessions.length === 0 && candidates.length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Start a waste walk for this workflow to record deviations as observations.
+                    </p>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter className="gap-2">
+          {!result ? (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleAnalyze}
+                disabled={!logContent.trim()}
+                className="bg-brand-gold hover:bg-brand-gold/90 text-brand-navy"
+              >
+                Check Conformance
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={handleClearOverlay}>
+                Clear Overlay
+              </Button>
+              <Button
+                onClick={handleCreateObservations}
+                disabled={!sessionId || selectedCandidates.size === 0 || isCreating}
+                className="bg-brand-gold hover:bg-brand-gold/90 text-brand-navy"
+              >
+                {isCreating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Add {selectedCandidates.size || ""} Observation
+                {selectedCandidates.size === 1 ? "" : "s"}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Building2, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+
+interface DepartmentPickerProps {
+  value: string | null | undefined;
+  onSave: (department: string | null) => Promise<void>;
+}
+
+/** Tags a workflow with its department or business unit for the portfolio */
+export function DepartmentPicker({ value, onSave }: DepartmentPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState(value ?? "");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setDraft(value ?? "");
+  }, [open, value]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(draft.trim() || null);
+      setOpen(false);
+    } catch {
+      // The caller reports the error; keep the popover open to retry
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Building2 className="mr-2 h-4 w-4" />
+          {value || "Department"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-3" align="end">
+        <div className="space-y-1">
+          <Label htmlFor="workflow-department" className="text-xs">
+            Department or business unit
+          </Label>
+          <Input
+            id="workflow-department"
+            placeholder="e.g., Finance"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleSave()}
+          />
+        </div>
+        <Button size="sm" className="w-full" onClick={handleSave} disabled={isSaving}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
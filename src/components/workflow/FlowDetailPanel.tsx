@@ -121,6 +121,8 @@ interface FlowDetailPanelProps {
   observations: Observation[];
   sourceStepName?: string;
   targetStepName?: string;
+  // Record a waste observation on this flow (session walks)
+  onTagWaste?: (flow: InformationFlowWithRelations) => void;
 }
 
 export function FlowDetailPanel({
@@ -138,6 +140,7 @@ export function FlowDetailPanel({
   observations,
   sourceStepName,
   targetStepName,
+  onTagWaste,
 }: FlowDetailPanelProps) {
   const [isSaving, setIsSaving] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
@@ -721,6 +724,16 @@ export function FlowDetailPanel({
               </>
             ) : (
               <>
+                {onTagWaste && flow && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => onTagWaste(flow)}
+                  >
+                    <AlertTriangle className="h-4 w-4 mr-2" />
+                    Tag Waste
+                  </Button>
+                )}
                 <Button
                   type="submit"
                   disabled={isSaving}
@@ -0,0 +1,122 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { AlertCircle, CheckCircle2, Info, XCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  LINT_RULES,
+  type LintDiagnostic,
+  type LintResult,
+  type LintSeverity,
+} from "@/lib/services/workflowLint";
+
+interface LintDiagnosticsPanelProps {
+  result: LintResult;
+  onSelectStep?: (stepId: string) => void;
+  className?: string;
+}
+
+const severityConfig: Record<LintSeverity, { icon: typeof XCircle; color: string }> = {
+  error: { icon: XCircle, color: "text-red-600" },
+  warning: { icon: AlertCircle, color: "text-amber-600" },
+  info: { icon: Info, color: "text-blue-600" },
+};
+
+function DiagnosticRow({
+  diagnostic,
+  onSelectStep,
+}: {
+  diagnostic: LintDiagnostic;
+  onSelectStep?: (stepId: string) => void;
+}) {
+  const { icon: Icon, color } = severityConfig[diagnostic.severity];
+  const stepId = diagnostic.stepId;
+  const isClickable = !!stepId && !!onSelectStep;
+
+  return (
+    <button
+      type="button"
+      disabled={!isClickable}
+      onClick={() => stepId && onSelectStep?.(stepId)}
+      className={cn(
+        "w-full flex gap-2 rounded-md px-2 py-2 text-left",
+        isClickable ? "hover:bg-muted" : "cursor-default"
+      )}
+    >
+      <Icon className={cn("h-4 w-4 mt-0.5 flex-shrink-0", color)} />
+      <div className="space-y-0.5 min-w-0">
+        <p className="text-sm">{diagnostic.message}</p>
+        <p className="text-xs text-muted-foreground">{diagnostic.suggestedFix}</p>
+        <p className="text-[10px] font-mono text-muted-foreground/70">
+          {diagnostic.ruleId} · {LINT_RULES[diagnostic.ruleId].title}
+        </p>
+      </div>
+    </button>
+  );
+}
+
+/** Header badge that opens the list of structural lint findings for a map */
+export function LintDiagnosticsPanel({ result, onSelectStep, className }: LintDiagnosticsPanelProps) {
+  const { errorCount, warningCount, diagnostics } = result;
+  const label =
+    errorCount + warningCount === 0
+      ? "No structural issues"
+      : [
+          errorCount > 0 && `${errorCount} error${errorCount === 1 ? "" : "s"}`,
+          warningCount > 0 && `${warningCount} warning${warningCount === 1 ? "" : "s"}`,
+        ]
+          .filter(Boolean)
+          .join(" · ");
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button type="button" className={className}>
+          <Badge
+            variant="outline"
+            className={cn(
+              errorCount > 0
+                ? "border-red-300 bg-red-50 text-red-700"
+                : warningCount > 0
+                ? "border-amber-300 bg-amber-50 text-amber-700"
+                : "border-emerald-300 bg-emerald-50 text-emerald-700"
+            )}
+          >
+            {errorCount > 0 ? (
+              <XCircle className="mr-1 h-3 w-3" />
+            ) : warningCount > 0 ? (
+              <AlertCircle className="mr-1 h-3 w-3" />
+            ) : (
+              <CheckCircle2 className="mr-1 h-3 w-3" />
+            )}
+            {label}
+          </Badge>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96 p-0" align="start">
+        <div className="px-3 py-2 border-b">
+          <p className="text-sm font-medium">Diagnostics</p>
+          <p className="text-xs text-muted-foreground">
+            Structural checks on steps and connections. Click a finding to select its step.
+          </p>
+        </div>
+        {diagnostics.length === 0 ? (
+          <p className="px-3 py-6 text-sm text-center text-muted-foreground">
+            Every step is connected and reachable.
+          </p>
+        ) : (
+          <div className="max-h-80 overflow-y-auto p-1">
+            {diagnostics.map((diagnostic, idx) => (
+              <DiagnosticRow
+                key={`${diagnostic.ruleId}-${diagnostic.stepId ?? "workflow"}-${idx}`}
+                diagnostic={diagnostic}
+                onSelectStep={onSelectStep}
+              />
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -33,6 +33,10 @@ import { Flame, LayoutGrid, RotateCcw, Lock, ZoomIn, ZoomOut, GitBranch } from "
 import type { ProcessStep, InformationFlowWithRelations, FlowType } from "@/types";
 import { FLOW_TYPE_CONFIG } from "@/types/informationFlow";
 import { STEP_TOOLBOX_MIME } from "@/components/workflow/StepToolbox";
+import type { ConformanceOverlay } from "@/lib/services/conformance";
+import type { LintDiagnostic } from "@/lib/services/workflowLint";
+import type { SubprocessRollup } from "@/lib/services/subprocesses";
+import type { CriticalPath } from "@/lib/services/processTiming";
 
 const nodeTypes = {
   stepNode: StepNode,
@@ -53,6 +57,10 @@ interface ProcessMapProps {
   steps: ProcessStep[];
   connections: { source: string; target: string }[];
   observations?: Record<string, { count: number; priorityScore: number }>;
+  // Handoff observations keyed by "source-target", shown as edge heat in heatmap mode
+  edgeObservations?: Record<string, { count: number; priorityScore: number }>;
+  // Tag waste on the handoff between two steps by clicking its edge
+  onTagEdge?: (sourceStepId: string, targetStepId: string) => void;
   selectedStepId?: string | null;
   selectedStepIds?: string[];
   onStepClick?: (stepId: string) => void;
@@ -89,6 +97,32 @@ interface ProcessMapProps {
   showFlowLabels?: boolean;
   // Callback when clicking an edge without a flow (to create a new flow)
   onEdgeClickForNewFlow?: (sourceStepId: string, targetStepId: string) => void;
+  // Conformance overlay (event log replay results)
+  conformance?: ConformanceOverlay | null;
+  // Longest lead-time path from start to end, highlighted in brand gold
+  criticalPath?: CriticalPath | null;
+  // Structural lint findings per step, shown as node badges
+  diagnostics?: Record<string, LintDiagnostic[]> | null;
+  // Rolled-up child workflow figures for linked subprocess steps, keyed by step id
+  subprocesses?: Record<string, SubprocessRollup> | null;
+  // Drill down into a subprocess step's linked workflow
+  onOpenSubprocess?: (processId: string) => void;
+}
+
+type HeatmapIntensity = "low" | "medium" | "high" | "critical";
+
+const HEATMAP_COLORS: Record<HeatmapIntensity, string> = {
+  critical: "#EF4444",
+  high: "#F97316",
+  medium: "#EAB308",
+  low: "#22C55E",
+};
+
+function getHeatmapIntensity(priorityScore: number): HeatmapIntensity {
+  if (priorityScore >= 15) return "critical";
+  if (priorityScore >= 10) return "high";
+  if (priorityScore >= 5) return "medium";
+  return "low";
 }
 
 // Helper to get localStorage key for a workflow
@@ -188,6 +222,8 @@ function ProcessMapInner({
   steps,
   connections,
   observations = {},
+  edgeObservations,
+  onTagEdge,
   selectedStepId,
   selectedStepIds = [],
   onStepClick,
@@ -219,6 +255,11 @@ function ProcessMapInner({
   onSelectFlow,
   showFlowLabels = true,
   onEdgeClickForNewFlow,
+  conformance = null,
+  criticalPath = null,
+  diagnostics = null,
+  subprocesses = null,
+  onOpenSubprocess,
 }: ProcessMapProps) {
   const { fitView, zoomIn, zoomOut, screenToFlowPosition, getNodes } = useReactFlow();
   const viewport = useViewport();
@@ -305,6 +346,13 @@ function ProcessMapInner({
   const onEdgeClickForNewFlowRef = useRef(onEdgeClickForNewFlow);
   onEdgeClickForNewFlowRef.current = onEdgeClickForNewFlow;
 
+  const onTagEdgeRef = useRef(onTagEdge);
+  onTagEdgeRef.current = onTagEdge;
+
+  const onOpenSubprocessRef = useRef(onOpenSubprocess);
+  onOpenSubprocessRef.current = onOpenSubprocess;
+  const canOpenSubprocess = !!onOpenSubprocess;
+
   // Track if layout has been saved
   const [hasLayoutSaved, setHasLayoutSaved] = useState(false);
 
@@ -556,6 +604,10 @@ function ProcessMapInner({
             onInlineEdit: (newName: string) =>
               onInlineEditStepRef.current?.(step.id, newName),
             onCancelInlineEdit: () => onCancelInlineEditStepRef.current?.(step.id),
+            onOpenSubprocess:
+              canOpenSubprocess && step.subprocess_process_id
+                ? () => onOpenSubprocessRef.current?.(step.subprocess_process_id!)
+                : undefined,
           },
         });
       });
@@ -578,6 +630,7 @@ function ProcessMapInner({
     handleNodeClick,
     inlineEditingStepId,
     workflowId,
+    canOpenSubprocess,
   ]);
 
   // Create a lookup map for flows by source-target pair
@@ -607,12 +660,15 @@ function ProcessMapInner({
     return counts;
   }, [informationFlows]);
 
+  const criticalEdgeKeys = useMemo(() => new Set(criticalPath?.edgeKeys ?? []), [criticalPath]);
+
   // Generate edges
   const initialEdges: Edge[] = useMemo(() => {
-    return connections.map((conn, idx) => {
+    const modeledEdges: Edge[] = connections.map((conn, idx) => {
       const flowKey = `${conn.source}-${conn.target}`;
       const flow = flowLookup.get(flowKey);
-      const hasFlow = flow && effectiveShowFlows && effectiveVisibleTypes.has(flow.flow_type);
+      const hasFlow =
+        !conformance && flow && effectiveShowFlows && effectiveVisibleTypes.has(flow.flow_type);
 
       if (hasFlow && flow) {
         // Use FlowEdge type with flow styling
@@ -648,6 +704,65 @@ function ProcessMapInner({
         };
       }
 
+      // Conformance overlay: label each modeled path with how many replayed cases used it
+      if (conformance) {
+        const traversals = conformance.edges[flowKey] || 0;
+        const color = traversals > 0 ? "#545454" : "#CBD5E1";
+        return {
+          id: `edge-${idx}`,
+          source: conn.source,
+          target: conn.target,
+          type: "smoothstep",
+          animated: false,
+          label: String(traversals),
+          labelStyle: { fontSize: 11, fontWeight: 600 },
+          style: {
+            stroke: color,
+            strokeWidth: 2,
+            strokeDasharray: traversals > 0 ? undefined : "6,4",
+          },
+          markerEnd: {
+            type: MarkerType.ArrowClosed,
+            color,
+          },
+        };
+      }
+
+      // Heatmap: color handoffs by the waste observed on them
+      const heat = showHeatmap ? edgeObservations?.[flowKey] : undefined;
+      if (heat && heat.priorityScore > 0) {
+        const color = HEATMAP_COLORS[getHeatmapIntensity(heat.priorityScore)];
+        return {
+          id: `edge-${idx}`,
+          source: conn.source,
+          target: conn.target,
+          type: "smoothstep",
+          animated: false,
+          label: String(heat.count),
+          labelStyle: { fontSize: 11, fontWeight: 600, fill: color },
+          style: { stroke: color, strokeWidth: 4 },
+          markerEnd: {
+            type: MarkerType.ArrowClosed,
+            color,
+          },
+        };
+      }
+
+      if (criticalEdgeKeys.has(flowKey)) {
+        return {
+          id: `edge-${idx}`,
+          source: conn.source,
+          target: conn.target,
+          type: "smoothstep",
+          animated: true,
+          style: { stroke: "#FFC000", strokeWidth: 3 },
+          markerEnd: {
+            type: MarkerType.ArrowClosed,
+            color: "#FFC000",
+          },
+        };
+      }
+
       // Default edge styling
       return {
         id: `edge-${idx}`,
@@ -662,7 +777,30 @@ function ProcessMapInner({
         },
       };
     });
-  }, [connections, flowLookup, effectiveShowFlows, effectiveVisibleTypes, showFlowLabels, selectedFlowId]);
+
+    if (!conformance) return modeledEdges;
+
+    // Transitions seen in the log but missing from the model
+    const unexpectedEdges: Edge[] = conformance.unexpectedEdges.map((edge, idx) => ({
+      id: `conformance-unexpected-${idx}`,
+      source: edge.source,
+      target: edge.target,
+      type: "smoothstep",
+      animated: true,
+      deletable: false,
+      selectable: false,
+      label: `${edge.count} unexpected`,
+      labelStyle: { fontSize: 11, fontWeight: 600, fill: "#DC2626" },
+      style: { stroke: "#DC2626", strokeWidth: 2, strokeDasharray: "6,4" },
+      markerEnd: {
+        type: MarkerType.ArrowClosed,
+        color: "#DC2626",
+      },
+      data: { isConformanceOverlay: true },
+    }));
+
+    return [...modeledEdges, ...unexpectedEdges];
+  }, [connections, flowLookup, effectiveShowFlows, effectiveVisibleTypes, showFlowLabels, selectedFlowId, conformance, criticalEdgeKeys, showHeatmap, edgeObservations]);
 
   const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes);
   const [edges, setEdges, onEdgesChange] = useEdgesState(initialEdges);
@@ -687,32 +825,54 @@ function ProcessMapInner({
   const prevObservationsRef = useRef(observations);
   const prevSelectedStepIdRef = useRef(selectedStepId);
   const prevShowHeatmapRef = useRef(showHeatmap);
+  const prevConformanceRef = useRef(conformance);
+  const prevCriticalPathRef = useRef(criticalPath);
+  const prevDiagnosticsRef = useRef(diagnostics);
+  const prevSubprocessesRef = useRef(subprocesses);
+  const prevStepsRef = useRef(steps);
   
   useEffect(() => {
     // Only update if relevant data actually changed
     const obsChanged = prevObservationsRef.current !== observations;
     const selectionChanged = prevSelectedStepIdRef.current !== selectedStepId;
     const heatmapChanged = prevShowHeatmapRef.current !== showHeatmap;
+    const conformanceChanged = prevConformanceRef.current !== conformance;
+    const criticalPathChanged = prevCriticalPathRef.current !== criticalPath;
+    const diagnosticsChanged = prevDiagnosticsRef.current !== diagnostics;
+    const subprocessesChanged = prevSubprocessesRef.current !== subprocesses;
+    const stepsChanged = prevStepsRef.current !== steps;
     
-    if (!obsChanged && !selectionChanged && !heatmapChanged) {
+    if (
+      !obsChanged &&
+      !selectionChanged &&
+      !heatmapChanged &&
+      !conformanceChanged &&
+      !criticalPathChanged &&
+      !diagnosticsChanged &&
+      !subprocessesChanged &&
+      !stepsChanged
+    ) {
       return;
     }
     
     prevObservationsRef.current = observations;
     prevSelectedStepIdRef.current = selectedStepId;
     prevShowHeatmapRef.current = showHeatmap;
+    prevConformanceRef.current = conformance;
+    prevCriticalPathRef.current = criticalPath;
+    prevDiagnosticsRef.current = diagnostics;
+    prevSubprocessesRef.current = subprocesses;
+    prevStepsRef.current = steps;
+    const stepsById = new Map(steps.map((s) => [s.id, s]));
     
     setNodes((currentNodes) =>
       currentNodes.map((node) => {
+        // Keep step data (e.g. a newly linked subprocess) current without resetting positions
+        const step: ProcessStep = stepsById.get(node.id) ?? node.data.step;
         const obs = observations[node.id] || { count: 0, priorityScore: 0 };
         
-        let heatmapIntensity: "low" | "medium" | "high" | "critical" | undefined;
-        if (showHeatmap && obs.priorityScore > 0) {
-          if (obs.priorityScore >= 15) heatmapIntensity = "critical";
-          else if (obs.priorityScore >= 10) heatmapIntensity = "high";
-          else if (obs.priorityScore >= 5) heatmapIntensity = "medium";
-          else heatmapIntensity = "low";
-        }
+        const heatmapIntensity =
+          showHeatmap && obs.priorityScore > 0 ? getHeatmapIntensity(obs.priorityScore) : undefined;
 
         // Check if node is selected based on our state (for custom styling in node component)
         const isSelected = selectedStepId === node.id || selectedStepIds.includes(node.id) || node.selected;
@@ -722,16 +882,25 @@ function ProcessMapInner({
           // Don't override React Flow's selection - let it manage multi-select internally
           data: {
             ...node.data,
+            step,
             isSelected,
             observationCount: obs.count,
             priorityScore: obs.priorityScore,
             heatmapIntensity,
+            conformance: conformance?.steps[node.id],
+            isOnCriticalPath: criticalPath?.stepIds.includes(node.id) ?? false,
+            diagnostics: diagnostics?.[node.id],
+            subprocess: subprocesses?.[node.id],
+            onOpenSubprocess:
+              canOpenSubprocess && step.subprocess_process_id
+                ? () => onOpenSubprocessRef.current?.(step.subprocess_process_id!)
+                : undefined,
             isInlineEditing: inlineEditingStepId === node.id,
           },
         };
       })
     );
-  }, [selectedStepId, selectedStepIds, observations, showHeatmap, inlineEditingStepId, setNodes]);
+  }, [selectedStepId, selectedStepIds, observations, showHeatmap, conformance, criticalPath, diagnostics, subprocesses, steps, canOpenSubprocess, inlineEditingStepId, setNodes]);
 
   // Update edges when initialEdges changes (which already has proper dependencies)
   // Using a ref to track if this is the first render to avoid unnecessary updates
@@ -1024,6 +1193,7 @@ function ProcessMapInner({
             }
           } : undefined}
           onEdgeClick={(_event, edge) => {
+            if (edge.data?.isConformanceOverlay) return;
             // If showing information flows...
             if (effectiveShowFlows) {
               if (edge.data?.flow) {
@@ -1035,6 +1205,11 @@ function ProcessMapInner({
               }
               return;
             }
+            // Outside edit mode, clicking an edge tags waste on the handoff
+            if (!isEditMode && onTagEdgeRef.current) {
+              onTagEdgeRef.current(edge.source, edge.target);
+              return;
+            }
             // In edit mode, clicking edge deletes the connection
             if (isEditMode && onDeleteConnection && confirm("Delete this connection?")) {
               onDeleteConnection(edge.source, edge.target);
@@ -1044,12 +1219,8 @@ function ProcessMapInner({
           <Background color="#e5e7eb" gap={20} />
           <CollapsibleMiniMap
             nodeColor={(node) => {
-              const intensity = node.data?.heatmapIntensity;
-              if (intensity === "critical") return "#EF4444";
-              if (intensity === "high") return "#F97316";
-              if (intensity === "medium") return "#EAB308";
-              if (intensity === "low") return "#22C55E";
-              return "#94A3B8";
+              const intensity: HeatmapIntensity | undefined = node.data?.heatmapIntensity;
+              return intensity ? HEATMAP_COLORS[intensity] : "#94A3B8";
             }}
             maskColor="rgba(255, 255, 255, 0.8)"
           />
@@ -1164,6 +1335,11 @@ function ProcessMapInner({
                     Critical (15+)
                   </Badge>
                 </div>
+                {edgeObservations && Object.keys(edgeObservations).length > 0 && (
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Arrows show waste observed on handoffs
+                  </p>
+                )}
               </div>
             </DraggablePanel>
           )}
@@ -12,6 +12,7 @@ import {
   SheetHeader,
   SheetTitle,
 } from "@/components/ui/sheet";
+import { getObserverName } from "@/lib/services/observerPrivacy";
 import type { ProcessStep, ObservationWithWasteTypes, InformationFlowWithRelations } from "@/types";
 import { StepIOPanel } from "./StepIOPanel";
 import { StepAttachmentsPanel } from "./StepAttachmentsPanel";
@@ -175,7 +176,7 @@ export function StepDetailPanel({
                             <div className="flex items-center gap-2">
                               <User className="h-3 w-3 text-muted-foreground" />
                               <span className="text-xs text-muted-foreground">
-                                {obs.user?.name || "Unknown"}
+                                {getObserverName(obs)}
                               </span>
                             </div>
                             <Badge
@@ -4,12 +4,21 @@ import { memo, useEffect, useMemo, useRef, useState } from "react";
 import { Handle, Position, NodeProps } from "reactflow";
 import { cn } from "@/lib/utils";
 import type { ProcessStep } from "@/types";
+import type { StepConformanceStats } from "@/lib/services/conformance";
+import type { LintDiagnostic } from "@/lib/services/workflowLint";
+import type { SubprocessRollup } from "@/lib/services/subprocesses";
+import { formatDuration } from "@/lib/services/processTiming";
 import {
   Play,
   Square,
   Diamond,
   CircleDot,
   AlertTriangle,
+  RotateCcw,
+  SkipForward,
+  XCircle,
+  AlertCircle,
+  CornerDownRight,
 } from "lucide-react";
 
 interface StepNodeData {
@@ -18,6 +27,11 @@ interface StepNodeData {
   observationCount: number;
   priorityScore: number;
   heatmapIntensity?: "low" | "medium" | "high" | "critical";
+  conformance?: StepConformanceStats;
+  isOnCriticalPath?: boolean;
+  diagnostics?: LintDiagnostic[];
+  subprocess?: SubprocessRollup;
+  onOpenSubprocess?: () => void;
   onClick?: () => void;
   isInlineEditing?: boolean;
   onInlineEdit?: (newName: string) => void;
@@ -62,6 +76,11 @@ function StepNodeComponent({ data }: NodeProps<StepNodeData>) {
     observationCount,
     priorityScore,
     heatmapIntensity,
+    conformance,
+    isOnCriticalPath,
+    diagnostics,
+    subprocess,
+    onOpenSubprocess,
     onClick,
     isInlineEditing,
     onInlineEdit,
@@ -104,7 +123,8 @@ function StepNodeComponent({ data }: NodeProps<StepNodeData>) {
           "min-w-[160px] max-w-[200px]",
           getHeatmapColor(heatmapIntensity),
           isSelected && "ring-2 ring-brand-gold shadow-step-node-selected",
-          !isSelected && "hover:shadow-step-node-hover border-2"
+          !isSelected && "hover:shadow-step-node-hover border-2",
+          !isSelected && isOnCriticalPath && "border-brand-gold"
         )}
       >
         {/* Step Type Icon */}
@@ -122,6 +142,54 @@ function StepNodeComponent({ data }: NodeProps<StepNodeData>) {
           </div>
         )}
 
+        {/* Conformance Badges */}
+        {conformance && (
+          <div className="absolute -bottom-2.5 left-2 flex items-center gap-1 text-[10px] font-medium">
+            <span
+              className="px-1.5 py-0.5 rounded-full bg-brand-navy text-white"
+              title="Cases that executed this step"
+            >
+              {conformance.executions}
+            </span>
+            {conformance.skipped > 0 && (
+              <span
+                className="flex items-center gap-0.5 px-1.5 py-0.5 rounded-full bg-amber-500 text-white"
+                title="Cases that skipped this step"
+              >
+                <SkipForward className="h-2.5 w-2.5" />
+                {conformance.skipped}
+              </span>
+            )}
+            {conformance.rework > 0 && (
+              <span
+                className="flex items-center gap-0.5 px-1.5 py-0.5 rounded-full bg-red-500 text-white"
+                title="Repeated executions (rework)"
+              >
+                <RotateCcw className="h-2.5 w-2.5" />
+                {conformance.rework}
+              </span>
+            )}
+          </div>
+        )}
+
+        {/* Lint Badge */}
+        {diagnostics && diagnostics.length > 0 && (
+          <div
+            className={cn(
+              "absolute -bottom-2.5 right-2 flex items-center gap-0.5 px-1.5 py-0.5 rounded-full text-white text-[10px] font-medium",
+              diagnostics.some((d) => d.severity === "error") ? "bg-red-500" : "bg-amber-500"
+            )}
+            title={diagnostics.map((d) => d.message).join("\n")}
+          >
+            {diagnostics.some((d) => d.severity === "error") ? (
+              <XCircle className="h-2.5 w-2.5" />
+            ) : (
+              <AlertCircle className="h-2.5 w-2.5" />
+            )}
+            {diagnostics.length}
+          </div>
+        )}
+
         {/* Step Content */}
         <div className="space-y-1">
           {isInlineEditing ? (
@@ -167,6 +235,39 @@ function StepNodeComponent({ data }: NodeProps<StepNodeData>) {
           )}
         </div>
 
+        {/* Linked Subprocess */}
+        {step.subprocess_process_id && (
+          <button
+            type="button"
+            disabled={!onOpenSubprocess}
+            onClick={(e) => {
+              e.stopPropagation();
+              onOpenSubprocess?.();
+            }}
+            className={cn(
+              "mt-2 w-full flex items-center gap-1 rounded px-1.5 py-0.5 text-[10px] text-left bg-brand-navy/5 text-brand-navy",
+              onOpenSubprocess && "hover:bg-brand-navy/10"
+            )}
+            title={
+              subprocess
+                ? `${subprocess.stepCount} steps · ${subprocess.observationCount} observations`
+                : "Open linked workflow"
+            }
+          >
+            <CornerDownRight className="h-3 w-3 flex-shrink-0" />
+            <span className="truncate flex-1">{subprocess?.processName ?? "Linked workflow"}</span>
+            {subprocess && subprocess.leadTimeMinutes > 0 && (
+              <span className="text-muted-foreground">{formatDuration(subprocess.leadTimeMinutes)}</span>
+            )}
+            {subprocess && subprocess.observationCount > 0 && (
+              <span className="flex items-center gap-0.5 text-orange-600">
+                <AlertTriangle className="h-2.5 w-2.5" />
+                {subprocess.observationCount}
+              </span>
+            )}
+          </button>
+        )}
+
         {/* Priority Score */}
         {priorityScore > 0 && (
           <div className="mt-2 flex items-center justify-between text-xs">
@@ -38,7 +38,7 @@ import {
 } from "@/components/ui/select";
 import { cn } from "@/lib/utils";
 import type { ProcessLane, ProcessStep } from "@/types";
-import { GripVertical, Plus, Trash2 } from "lucide-react";
+import { GripVertical, Plus, Trash2, Users } from "lucide-react";
 
 type LaneColorOption = {
   id: string;
@@ -75,6 +75,7 @@ function SortableLaneRow({
   onDeleteMoveSteps,
   destinationLanes,
   onColorChange,
+  onCapacityChange,
 }: {
   lane: ProcessLane;
   disabled: boolean;
@@ -84,6 +85,7 @@ function SortableLaneRow({
   onDeleteMoveSteps: (laneId: string, destinationLaneId: string) => void;
   destinationLanes: ProcessLane[];
   onColorChange: (laneId: string, colors: { bg_color: string | null; border_color: string | null }) => void;
+  onCapacityChange: (laneId: string, capacity: number) => void;
 }) {
   const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
     id: lane.id,
@@ -91,6 +93,7 @@ function SortableLaneRow({
   });
 
   const [draft, setDraft] = useState(lane.name);
+  const [capacityDraft, setCapacityDraft] = useState(String(lane.capacity ?? 1));
   const [deleteOpen, setDeleteOpen] = useState(false);
   const [deleteDestinationId, setDeleteDestinationId] = useState<string | null>(null);
 
@@ -98,6 +101,10 @@ function SortableLaneRow({
     setDraft(lane.name);
   }, [lane.name]);
 
+  useEffect(() => {
+    setCapacityDraft(String(lane.capacity ?? 1));
+  }, [lane.capacity]);
+
   useEffect(() => {
     if (!deleteOpen) return;
     const first = destinationLanes[0]?.id ?? null;
@@ -191,6 +198,29 @@ function SortableLaneRow({
         </Select>
       </div>
 
+      <div className="relative w-[72px]" title="People working this lane">
+        <Users className="absolute left-2 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          value={capacityDraft}
+          disabled={disabled}
+          inputMode="numeric"
+          aria-label="Lane capacity"
+          onChange={(e) => setCapacityDraft(e.target.value)}
+          onBlur={() => {
+            const next = Number(capacityDraft);
+            if (!Number.isInteger(next) || next < 1) {
+              setCapacityDraft(String(lane.capacity ?? 1));
+              return;
+            }
+            if (next !== (lane.capacity ?? 1)) onCapacityChange(lane.id, next);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") (e.target as HTMLInputElement).blur();
+          }}
+          className="h-9 pl-7"
+        />
+      </div>
+
       <Button
         type="button"
         variant="ghost"
@@ -279,6 +309,7 @@ export function SwimlaneManager({
   onDelete,
   onDeleteMoveSteps,
   onUpdateLaneColor,
+  onUpdateLaneCapacity,
 }: {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -291,6 +322,7 @@ export function SwimlaneManager({
   onDelete: (laneId: string) => Promise<void>;
   onDeleteMoveSteps: (laneId: string, destinationLaneId: string) => Promise<void>;
   onUpdateLaneColor: (laneId: string, colors: { bg_color: string | null; border_color: string | null }) => Promise<void>;
+  onUpdateLaneCapacity: (laneId: string, capacity: number) => Promise<void>;
 }) {
   const sensors = useSensors(useSensor(PointerSensor, { activationConstraint: { distance: 6 } }));
 
@@ -401,6 +433,7 @@ export function SwimlaneManager({
                           void onDeleteMoveSteps(laneId, destinationLaneId)
                         }
                         onColorChange={(laneId, colors) => void onUpdateLaneColor(laneId, colors)}
+                        onCapacityChange={(laneId, capacity) => void onUpdateLaneCapacity(laneId, capacity)}
                       />
                     );
                   })}
@@ -411,7 +444,8 @@ export function SwimlaneManager({
 
           <div className="rounded-lg border bg-muted/30 p-3">
             <p className="text-xs text-muted-foreground">
-              Lanes with steps can be deleted by moving those steps into another lane.
+              Lanes with steps can be deleted by moving those steps into another lane. The
+              people count sets how many cases a lane can work on at once in simulations.
             </p>
           </div>
         </div>
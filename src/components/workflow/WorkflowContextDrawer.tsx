@@ -15,6 +15,13 @@ import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Accordion,
   AccordionContent,
@@ -53,6 +60,7 @@ import type {
   UpsertWorkflowStakeholderInput,
   UpsertWorkflowSystemInput,
   UpsertWorkflowMetricInput,
+  VolumePeriod,
 } from "@/types";
 
 // ============================================
@@ -296,6 +304,8 @@ export function WorkflowContextDrawer({
     trigger_events: [],
     end_outcomes: [],
     volume_frequency: "",
+    volume_count: null,
+    volume_period: null,
     sla_targets: "",
     compliance_requirements: [],
     known_pain_points: [],
@@ -329,6 +339,8 @@ export function WorkflowContextDrawer({
             trigger_events: ctx.trigger_events || [],
             end_outcomes: ctx.end_outcomes || [],
             volume_frequency: ctx.volume_frequency || "",
+            volume_count: ctx.volume_count ?? null,
+            volume_period: ctx.volume_period ?? null,
             sla_targets: ctx.sla_targets || "",
             compliance_requirements: ctx.compliance_requirements || [],
             known_pain_points: ctx.known_pain_points || [],
@@ -873,6 +885,44 @@ export function WorkflowContextDrawer({
                                   }
                                   placeholder="e.g., ~50 orders/day, peaks on Mondays"
                                 />
+                                <div className="flex gap-2">
+                                  <Input
+                                    type="number"
+                                    min={0}
+                                    value={context.volume_count ?? ""}
+                                    onChange={(e) =>
+                                      setContext({
+                                        ...context,
+                                        volume_count:
+                                          e.target.value === "" ? null : Number(e.target.value),
+                                      })
+                                    }
+                                    placeholder="Transactions"
+                                    className="w-36"
+                                  />
+                                  <Select
+                                    value={context.volume_period ?? ""}
+                                    onValueChange={(value) =>
+                                      setContext({
+                                        ...context,
+                                        volume_period: value as VolumePeriod,
+                                      })
+                                    }
+                                  >
+                                    <SelectTrigger className="w-36">
+                                      <SelectValue placeholder="per..." />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      <SelectItem value="day">per day</SelectItem>
+                                      <SelectItem value="week">per week</SelectItem>
+                                      <SelectItem value="month">per month</SelectItem>
+                                      <SelectItem value="year">per year</SelectItem>
+                                    </SelectContent>
+                                  </Select>
+                                </div>
+                                <p className="text-xs text-muted-foreground">
+                                  The number drives annual cost of waste figures
+                                </p>
                               </div>
                               <div className="context-field space-y-2">
                                 <Label className="text-xs font-medium">
@@ -19,10 +19,13 @@ import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Separator } from "@/components/ui/separator";
+import { Slider } from "@/components/ui/slider";
 import {
   Upload,
   FileJson,
   FileSpreadsheet,
+  Workflow,
+  Activity,
   CheckCircle,
   AlertCircle,
   AlertTriangle,
@@ -37,11 +40,19 @@ import {
   parseJSON,
   parseCSV,
   parsePremierHealthCSV,
+  parseBPMN,
   importWorkflow,
   generateSampleJSON,
   generateSampleCSV,
   type ImportValidationResult,
 } from "@/lib/services/workflowImport";
+import {
+  parseEventLog,
+  discoverProcess,
+  DEFAULT_FREQUENCY_THRESHOLD,
+  type EventLog,
+  type DiscoveryStats,
+} from "@/lib/services/processMining";
 
 interface WorkflowImportDialogProps {
   open: boolean;
@@ -49,7 +60,7 @@ interface WorkflowImportDialogProps {
   onSuccess?: (processId: string) => void;
 }
 
-type ImportTab = "json" | "csv";
+type ImportTab = "json" | "csv" | "bpmn" | "eventlog";
 type ImportStep = "upload" | "preview" | "importing";
 
 export function WorkflowImportDialog({
@@ -60,6 +71,8 @@ export function WorkflowImportDialog({
   const router = useRouter();
   const { toast } = useToast();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const bpmnFileInputRef = useRef<HTMLInputElement>(null);
+  const eventLogFileInputRef = useRef<HTMLInputElement>(null);
   const connectionsFileInputRef = useRef<HTMLInputElement>(null);
 
   // State
@@ -75,6 +88,17 @@ export function WorkflowImportDialog({
   const [connectionsCsvContent, setConnectionsCsvContent] = useState("");
   const [hasConnectionsFile, setHasConnectionsFile] = useState(false);
 
+  // BPMN state
+  const [bpmnContent, setBpmnContent] = useState("");
+
+  // Event log (process mining) state
+  const [eventLogContent, setEventLogContent] = useState("");
+  const [eventLog, setEventLog] = useState<EventLog | null>(null);
+  const [miningStats, setMiningStats] = useState<DiscoveryStats | null>(null);
+  const [frequencyThreshold, setFrequencyThreshold] = useState(
+    DEFAULT_FREQUENCY_THRESHOLD * 100
+  );
+
   // Validation results
   const [validationResult, setValidationResult] =
     useState<ImportValidationResult | null>(null);
@@ -91,6 +115,11 @@ export function WorkflowImportDialog({
     setCsvContent("");
     setConnectionsCsvContent("");
     setHasConnectionsFile(false);
+    setBpmnContent("");
+    setEventLogContent("");
+    setEventLog(null);
+    setMiningStats(null);
+    setFrequencyThreshold(DEFAULT_FREQUENCY_THRESHOLD * 100);
     setValidationResult(null);
     setWorkflowName("");
   }, []);
@@ -108,7 +137,10 @@ export function WorkflowImportDialog({
 
   // File upload handlers
   const handleFileUpload = useCallback(
-    async (event: React.ChangeEvent<HTMLInputElement>, type: "main" | "connections") => {
+    async (
+      event: React.ChangeEvent<HTMLInputElement>,
+      type: "main" | "connections" | "eventlog"
+    ) => {
       const file = event.target.files?.[0];
       if (!file) return;
 
@@ -124,7 +156,17 @@ export function WorkflowImportDialog({
           // Extract workflow name from filename
           const baseName = file.name.replace(/\.csv$/i, "");
           setWorkflowName(baseName);
+        } else if (/\.(bpmn|xml)$/i.test(file.name)) {
+          setActiveTab("bpmn");
+          setBpmnContent(content);
+        } else if (/\.xes$/i.test(file.name)) {
+          setActiveTab("eventlog");
+          setEventLogContent(content);
+          setWorkflowName(file.name.replace(/\.xes$/i, ""));
         }
+      } else if (type === "eventlog") {
+        setEventLogContent(content);
+        setWorkflowName(file.name.replace(/\.(csv|xes|xml)$/i, ""));
       } else {
         setConnectionsCsvContent(content);
         setHasConnectionsFile(true);
@@ -157,6 +199,13 @@ export function WorkflowImportDialog({
         setCsvContent(content);
         const baseName = file.name.replace(/\.csv$/i, "");
         setWorkflowName(baseName);
+      } else if (/\.(bpmn|xml)$/i.test(file.name)) {
+        setActiveTab("bpmn");
+        setBpmnContent(content);
+      } else if (/\.xes$/i.test(file.name)) {
+        setActiveTab("eventlog");
+        setEventLogContent(content);
+        setWorkflowName(file.name.replace(/\.xes$/i, ""));
       }
     },
     []
@@ -168,6 +217,22 @@ export function WorkflowImportDialog({
 
     if (activeTab === "json") {
       result = parseJSON(jsonContent);
+    } else if (activeTab === "bpmn") {
+      result = parseBPMN(bpmnContent, workflowName || undefined);
+    } else if (activeTab === "eventlog") {
+      const parsed = parseEventLog(eventLogContent);
+      if (parsed.valid && parsed.log) {
+        const discovery = discoverProcess(parsed.log, {
+          frequencyThreshold: frequencyThreshold / 100,
+          name: workflowName || "Discovered Workflow",
+        });
+        discovery.warnings.unshift(...parsed.warnings);
+        setEventLog(parsed.log);
+        setMiningStats(discovery.stats ?? null);
+        result = discovery;
+      } else {
+        result = { valid: false, errors: parsed.errors, warnings: parsed.warnings };
+      }
     } else {
       // Try Premier Health format first, then standard CSV
       result = parsePremierHealthCSV(csvContent, workflowName || "Imported Workflow");
@@ -207,12 +272,39 @@ export function WorkflowImportDialog({
     activeTab,
     jsonContent,
     csvContent,
+    bpmnContent,
+    eventLogContent,
+    frequencyThreshold,
     connectionsCsvContent,
     hasConnectionsFile,
     workflowName,
     toast,
   ]);
 
+  // Re-run discovery when the noise threshold changes in the preview
+  const handleThresholdChange = useCallback(
+    (value: number) => {
+      setFrequencyThreshold(value);
+      if (!eventLog) return;
+
+      const discovery = discoverProcess(eventLog, {
+        frequencyThreshold: value / 100,
+        name: validationResult?.data?.name || workflowName || "Discovered Workflow",
+      });
+      if (!discovery.valid) {
+        toast({
+          variant: "destructive",
+          title: "Threshold too high",
+          description: discovery.errors[0]?.message,
+        });
+        return;
+      }
+      setMiningStats(discovery.stats ?? null);
+      setValidationResult(discovery);
+    },
+    [eventLog, validationResult, workflowName, toast]
+  );
+
   // Execute import
   const handleImport = useCallback(async () => {
     if (!validationResult?.valid || !validationResult.data) return;
@@ -228,6 +320,13 @@ export function WorkflowImportDialog({
           title: "Workflow imported successfully!",
           description: `Created "${result.process.name}" with ${result.steps?.length || 0} steps.`,
         });
+        if (result.warnings && result.warnings.length > 0) {
+          toast({
+            variant: "destructive",
+            title: "Some details were not imported",
+            description: result.warnings.join(", "),
+          });
+        }
         handleOpenChange(false);
         onSuccess?.(result.process.id);
         router.push(`/workflows/${result.process.id}`);
@@ -314,14 +413,14 @@ export function WorkflowImportDialog({
             Import Workflow
           </DialogTitle>
           <DialogDescription>
-            Upload a JSON or CSV file to create a new workflow with steps and connections.
+            Upload a JSON, CSV or BPMN 2.0 file, or discover a workflow from an event log.
           </DialogDescription>
         </DialogHeader>
 
         {currentStep === "upload" && (
           <div className="flex-1 overflow-auto">
             <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as ImportTab)}>
-              <TabsList className="grid w-full grid-cols-2">
+              <TabsList className="grid w-full grid-cols-4">
                 <TabsTrigger value="json" className="flex items-center gap-2">
                   <FileJson className="h-4 w-4" />
                   JSON
@@ -330,6 +429,14 @@ export function WorkflowImportDialog({
                   <FileSpreadsheet className="h-4 w-4" />
                   CSV
                 </TabsTrigger>
+                <TabsTrigger value="bpmn" className="flex items-center gap-2">
+                  <Workflow className="h-4 w-4" />
+                  BPMN
+                </TabsTrigger>
+                <TabsTrigger value="eventlog" className="flex items-center gap-2">
+                  <Activity className="h-4 w-4" />
+                  Event Log
+                </TabsTrigger>
               </TabsList>
 
               <TabsContent value="json" className="space-y-4 mt-4">
@@ -343,14 +450,14 @@ export function WorkflowImportDialog({
                   <input
                     ref={fileInputRef}
                     type="file"
-                    accept=".json,.csv"
+                    accept=".json,.csv,.bpmn,.xml"
                     className="hidden"
                     onChange={(e) => handleFileUpload(e, "main")}
                   />
                   <Upload className="h-10 w-10 mx-auto mb-3 text-muted-foreground" />
                   <p className="font-medium">Drag & drop a file here, or click to browse</p>
                   <p className="text-sm text-muted-foreground mt-1">
-                    Supports .json and .csv files
+                    Supports .json, .csv and .bpmn files
                   </p>
                 </div>
 
@@ -544,6 +651,114 @@ export function WorkflowImportDialog({
                   </AlertDescription>
                 </Alert>
               </TabsContent>
+
+              <TabsContent value="bpmn" className="space-y-4 mt-4">
+                <div className="space-y-2">
+                  <Label htmlFor="bpmn-workflow-name">Workflow Name</Label>
+                  <Input
+                    id="bpmn-workflow-name"
+                    placeholder="Defaults to the BPMN process name"
+                    value={workflowName}
+                    onChange={(e) => setWorkflowName(e.target.value)}
+                  />
+                </div>
+
+                <div
+                  className="border-2 border-dashed rounded-lg p-6 text-center cursor-pointer hover:border-brand-gold hover:bg-brand-gold/5 transition-colors"
+                  onDragOver={handleDragOver}
+                  onDrop={handleDrop}
+                  onClick={() => bpmnFileInputRef.current?.click()}
+                >
+                  <input
+                    ref={bpmnFileInputRef}
+                    type="file"
+                    accept=".bpmn,.xml"
+                    className="hidden"
+                    onChange={(e) => handleFileUpload(e, "main")}
+                  />
+                  <Workflow className="h-10 w-10 mx-auto mb-3 text-muted-foreground" />
+                  <p className="font-medium">Drag & drop a .bpmn file here, or click to browse</p>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Exports from Camunda, Signavio, Bizagi and other BPMN 2.0 modelers
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="bpmn-content">BPMN XML</Label>
+                  <Textarea
+                    id="bpmn-content"
+                    placeholder='<?xml version="1.0" encoding="UTF-8"?><bpmn:definitions ...>'
+                    className="font-mono text-sm h-48"
+                    value={bpmnContent}
+                    onChange={(e) => setBpmnContent(e.target.value)}
+                  />
+                </div>
+
+                <Alert>
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertTitle>BPMN Mapping</AlertTitle>
+                  <AlertDescription className="text-xs mt-2 space-y-1">
+                    <p>Pools and lanes become swimlanes; tasks become action steps.</p>
+                    <p>Exclusive and parallel gateways become decision steps.</p>
+                    <p>Start/end events map to start/end steps; call activities become subprocess steps.</p>
+                    <p>Sequence flow names and conditions become connection labels. Other elements are skipped with a warning.</p>
+                  </AlertDescription>
+                </Alert>
+              </TabsContent>
+
+              <TabsContent value="eventlog" className="space-y-4 mt-4">
+                <div className="space-y-2">
+                  <Label htmlFor="eventlog-workflow-name">Workflow Name</Label>
+                  <Input
+                    id="eventlog-workflow-name"
+                    placeholder="Enter workflow name"
+                    value={workflowName}
+                    onChange={(e) => setWorkflowName(e.target.value)}
+                  />
+                </div>
+
+                <div
+                  className="border-2 border-dashed rounded-lg p-6 text-center cursor-pointer hover:border-brand-gold hover:bg-brand-gold/5 transition-colors"
+                  onClick={() => eventLogFileInputRef.current?.click()}
+                >
+                  <input
+                    ref={eventLogFileInputRef}
+                    type="file"
+                    accept=".csv,.xes,.xml"
+                    className="hidden"
+                    onChange={(e) => handleFileUpload(e, "eventlog")}
+                  />
+                  <Activity className="h-10 w-10 mx-auto mb-3 text-muted-foreground" />
+                  <p className="font-medium">Click to upload a CSV or XES event log</p>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Exports from ERP, ticketing and workflow systems
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="eventlog-content">Event Log</Label>
+                  <Textarea
+                    id="eventlog-content"
+                    placeholder="case_id,activity,timestamp,resource"
+                    className="font-mono text-sm h-40"
+                    value={eventLogContent}
+                    onChange={(e) => setEventLogContent(e.target.value)}
+                  />
+                </div>
+
+                <Alert>
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertTitle>Process Mining</AlertTitle>
+                  <AlertDescription className="text-xs mt-2 space-y-1">
+                    <p>
+                      <strong>Required columns:</strong> case_id, activity, timestamp.{" "}
+                      <strong>Optional:</strong> resource, role, start_timestamp, lifecycle.
+                    </p>
+                    <p>Activities become steps and directly-follows paths become connections.</p>
+                    <p>Roles (or resources) become swimlanes; median lead and cycle times are filled in.</p>
+                  </AlertDescription>
+                </Alert>
+              </TabsContent>
             </Tabs>
 
             {/* Validation errors */}
@@ -620,6 +835,72 @@ export function WorkflowImportDialog({
                 </div>
               </div>
 
+              {/* Extra sections carried by lossless JSON exports */}
+              {(validationResult.data.information_flows?.length ||
+                validationResult.data.context ||
+                validationResult.data.steps.some(
+                  (s) => s.io?.length || s.attachments?.length
+                )) && (
+                <p className="text-sm text-muted-foreground">
+                  Also includes{" "}
+                  {[
+                    `${validationResult.data.information_flows?.length || 0} information flows`,
+                    `${validationResult.data.steps.reduce(
+                      (sum, s) => sum + (s.io?.length || 0),
+                      0
+                    )} step inputs/outputs`,
+                    `${validationResult.data.steps.reduce(
+                      (sum, s) => sum + (s.attachments?.length || 0),
+                      0
+                    )} attachments`,
+                    validationResult.data.context ? "workflow context" : null,
+                  ]
+                    .filter(Boolean)
+                    .join(", ")}
+                  .
+                </p>
+              )}
+
+              {/* Process mining: noise filter and variants */}
+              {activeTab === "eventlog" && miningStats && (
+                <div className="space-y-3 rounded-lg border p-3">
+                  <div className="flex items-center justify-between">
+                    <Label>Frequency threshold</Label>
+                    <span className="text-sm font-medium">{frequencyThreshold}% of cases</span>
+                  </div>
+                  <Slider
+                    value={[frequencyThreshold]}
+                    min={0}
+                    max={50}
+                    step={1}
+                    onValueChange={([value]) => handleThresholdChange(value)}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {miningStats.caseCount} cases, {miningStats.eventCount} events. Keeping{" "}
+                    {miningStats.keptActivityCount} of {miningStats.activityCount} activities and{" "}
+                    {miningStats.keptPathCount} of {miningStats.pathCount} paths.
+                  </p>
+                  <div>
+                    <p className="text-sm font-medium mb-1">
+                      {miningStats.variants.length} variant
+                      {miningStats.variants.length === 1 ? "" : "s"}
+                    </p>
+                    <ul className="space-y-1">
+                      {miningStats.variants.slice(0, 5).map((variant, idx) => (
+                        <li key={idx} className="flex items-start gap-2 text-xs">
+                          <Badge variant="secondary" className="shrink-0">
+                            {variant.count} ({Math.round(variant.share * 100)}%)
+                          </Badge>
+                          <span className="text-muted-foreground">
+                            {variant.activities.join(" → ")}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+              )}
+
               {/* Warnings */}
               {validationResult.warnings.length > 0 && (
                 <Alert>
@@ -697,7 +978,9 @@ export function WorkflowImportDialog({
                 onClick={handleValidate}
                 disabled={
                   (activeTab === "json" && !jsonContent.trim()) ||
-                  (activeTab === "csv" && !csvContent.trim())
+                  (activeTab === "csv" && !csvContent.trim()) ||
+                  (activeTab === "bpmn" && !bpmnContent.trim()) ||
+                  (activeTab === "eventlog" && !eventLogContent.trim())
                 }
                 className="bg-brand-gold hover:bg-brand-gold/90 text-brand-navy"
               >
@@ -507,13 +507,20 @@ export function buildSynthesisPrompt(inputs: {
     notes: string | null;
     step_name: string;
     lane: string;
+    /** Set when the waste was observed between steps rather than in one */
+    handoff?: string;
     waste_types: Array<{ id: string; name: string; code: string }>;
     priority_score: number | null;
+    votes?: number;
   }>;
-  steps: Array<{ id: string; step_name: string; lane: string }>;
+  steps: Array<{ id: string; step_name: string; lane: string; votes?: number }>;
   waste_types: Array<{ id: string; name: string; code: string }>;
+  /** How priority scores were computed, from describeScoringModel */
+  scoring_model?: string;
 }): string {
-  const { workflowContext, observations, steps, waste_types } = inputs;
+  const { workflowContext, observations, steps, waste_types, scoring_model } = inputs;
+  const hasVotes = observations.some((o) => (o.votes ?? 0) > 0) || steps.some((s) => (s.votes ?? 0) > 0);
+  const hasHandoffs = observations.some((o) => o.handoff);
 
   return `Analyze the following waste walk observations and cluster them into meaningful themes.
 
@@ -521,18 +528,20 @@ export function buildSynthesisPrompt(inputs: {
 ${formatWorkflowContext(workflowContext)}
 
 ## Available Process Steps
-${steps.map((s) => `- ${s.id}: ${s.step_name} (Lane: ${s.lane})`).join("\n")}
+${steps
+  .map((s) => `- ${s.id}: ${s.step_name} (Lane: ${s.lane})${s.votes ? ` - Team votes: ${s.votes}` : ""}`)
+  .join("\n")}
 
 ## Available Waste Types
 ${waste_types.map((w) => `- ${w.id}: ${w.code} - ${w.name}`).join("\n")}
-
+${scoring_model ? `\n## Scoring Model\n${scoring_model}\n` : ""}
 ## Observations (${observations.length} total)
 ${observations
   .map(
     (o) => `
 ### Observation ${o.id}
-- Step: ${o.step_name} (Lane: ${o.lane})
-- Priority Score: ${o.priority_score ?? "N/A"}
+${o.handoff ? `- Between steps: ${o.handoff}` : `- Step: ${o.step_name} (Lane: ${o.lane})`}
+- Priority Score: ${o.priority_score ?? "N/A"}${hasVotes ? `\n- Team Votes: ${o.votes ?? 0}` : ""}
 - Waste Types: ${o.waste_types.map((w) => w.code).join(", ") || "None"}
 - Notes: ${o.notes || "No notes"}
 `
@@ -545,7 +554,15 @@ ${observations
 3. Each theme should have at least one observation linked to it.
 4. Provide a clear name and summary for each theme.
 5. Suggest root cause hypotheses for each theme, considering the workflow context and stakeholder pain points.
-6. Assign a confidence level (high/medium/low) based on evidence strength.
+6. Assign a confidence level (high/medium/low) based on evidence strength.${
+    hasVotes
+      ? "\n7. Team votes come from a dot-voting round after the walk. Treat them as the team's view of what matters most: weigh heavily voted observations and steps more when forming and summarizing themes."
+      : ""
+  }${
+    hasHandoffs
+      ? `\n${hasVotes ? 8 : 7}. Observations marked "Between steps" were tagged on a handoff or information flow, not a step. They usually point to waiting or transport waste; for step_ids use the steps either side of the handoff.`
+      : ""
+  }
 
 ## Output Schema
 {
@@ -581,8 +598,10 @@ export function buildSolutionsPrompt(inputs: {
     priority_score: number | null;
   }>;
   steps: Array<{ id: string; step_name: string; lane: string }>;
+  /** How priority scores were computed, from describeScoringModel */
+  scoring_model?: string;
 }): string {
-  const { workflowContext, themes, observations, steps } = inputs;
+  const { workflowContext, themes, observations, steps, scoring_model } = inputs;
 
   return `Generate solutions for the identified waste themes.
 
@@ -610,7 +629,7 @@ ${observations
   .slice(0, 10)
   .map((o) => `- [${o.id}] ${o.step_name}: ${o.notes || "No notes"} (Priority: ${o.priority_score ?? "N/A"})`)
   .join("\n")}
-
+${scoring_model ? `\n## Scoring Model\n${scoring_model}\n` : ""}
 ## Instructions
 Consider the workflow context when generating solutions:
 - Respect stated constraints (things that cannot change)
@@ -1,6 +1,8 @@
 import { useEffect, useState, useCallback, useRef } from "react";
 import { getSupabaseClient } from "@/lib/supabase/client";
 import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import type { SessionPhase, SessionVote, VotingRound } from "@/types";
+import type { Notification } from "@/lib/services/notifications";
 
 interface RealtimeObservation {
   id: string;
@@ -33,6 +35,14 @@ interface UseRealtimeSessionOptions {
   onParticipantJoin?: (participant: RealtimeParticipant) => void;
   onParticipantLeave?: (participantId: string) => void;
   onParticipantUpdate?: (participant: RealtimeParticipant) => void;
+  onVoteInsert?: (vote: SessionVote) => void;
+  onVoteDelete?: (voteId: string) => void;
+  onVotingRoundChange?: (round: VotingRound) => void;
+  onPhaseChange?: (phase: SessionPhase) => void;
+  onPhaseDelete?: (phaseId: string) => void;
+  // Facilitator nudges for this session addressed to userId
+  userId?: string;
+  onNudge?: (notification: Notification) => void;
 }
 
 export function useRealtimeSession({
@@ -43,6 +53,13 @@ export function useRealtimeSession({
   onParticipantJoin,
   onParticipantLeave,
   onParticipantUpdate,
+  onVoteInsert,
+  onVoteDelete,
+  onVotingRoundChange,
+  onPhaseChange,
+  onPhaseDelete,
+  userId,
+  onNudge,
 }: UseRealtimeSessionOptions) {
   const [isConnected, setIsConnected] = useState(false);
   const supabase = getSupabaseClient();
@@ -66,6 +83,24 @@ export function useRealtimeSession({
   const onParticipantUpdateRef = useRef(onParticipantUpdate);
   onParticipantUpdateRef.current = onParticipantUpdate;
 
+  const onVoteInsertRef = useRef(onVoteInsert);
+  onVoteInsertRef.current = onVoteInsert;
+
+  const onVoteDeleteRef = useRef(onVoteDelete);
+  onVoteDeleteRef.current = onVoteDelete;
+
+  const onVotingRoundChangeRef = useRef(onVotingRoundChange);
+  onVotingRoundChangeRef.current = onVotingRoundChange;
+
+  const onPhaseChangeRef = useRef(onPhaseChange);
+  onPhaseChangeRef.current = onPhaseChange;
+
+  const onPhaseDeleteRef = useRef(onPhaseDelete);
+  onPhaseDeleteRef.current = onPhaseDelete;
+
+  const onNudgeRef = useRef(onNudge);
+  onNudgeRef.current = onNudge;
+
   // Ref for sessionId to use in presence update
   const sessionIdRef = useRef(sessionId);
   sessionIdRef.current = sessionId;
@@ -160,6 +195,66 @@ export function useRealtimeSession({
           }
         }
       )
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "session_votes",
+          filter: `session_id=eq.${sessionId}`,
+        },
+        (payload: RealtimePostgresChangesPayload<SessionVote>) => {
+          if (payload.new && 'id' in payload.new) {
+            onVoteInsertRef.current?.(payload.new as SessionVote);
+          }
+        }
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "DELETE",
+          schema: "public",
+          table: "session_votes",
+          filter: `session_id=eq.${sessionId}`,
+        },
+        (payload: RealtimePostgresChangesPayload<SessionVote>) => {
+          if (payload.old && 'id' in payload.old && payload.old.id) {
+            onVoteDeleteRef.current?.(payload.old.id);
+          }
+        }
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "voting_rounds",
+          filter: `session_id=eq.${sessionId}`,
+        },
+        (payload: RealtimePostgresChangesPayload<VotingRound>) => {
+          if (payload.new && 'id' in payload.new) {
+            onVotingRoundChangeRef.current?.(payload.new as VotingRound);
+          }
+        }
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "session_phases",
+          filter: `session_id=eq.${sessionId}`,
+        },
+        (payload: RealtimePostgresChangesPayload<SessionPhase>) => {
+          if (payload.eventType === "DELETE") {
+            if (payload.old && 'id' in payload.old && payload.old.id) {
+              onPhaseDeleteRef.current?.(payload.old.id);
+            }
+          } else if (payload.new && 'id' in payload.new) {
+            onPhaseChangeRef.current?.(payload.new as SessionPhase);
+          }
+        }
+      )
       .subscribe((status: string) => {
         setIsConnected(status === "SUBSCRIBED");
       });
@@ -169,6 +264,34 @@ export function useRealtimeSession({
     };
   }, [sessionId, supabase]);
 
+  // Nudges arrive as notification rows for the current user; keep this session's
+  useEffect(() => {
+    if (!sessionId || !userId) return;
+
+    const nudgeChannel = supabase
+      .channel(`session-${sessionId}-nudges-${userId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "notifications",
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload: RealtimePostgresChangesPayload<Notification>) => {
+          const notification = payload.new as Notification;
+          if (notification?.type === "nudge" && notification.data?.session_id === sessionId) {
+            onNudgeRef.current?.(notification);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      nudgeChannel.unsubscribe();
+    };
+  }, [sessionId, userId, supabase]);
+
   // Broadcast presence (to show who's online) - stable callback using refs
   const updatePresence = useCallback(async () => {
     try {
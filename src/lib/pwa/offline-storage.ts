@@ -1,8 +1,20 @@
 "use client";
 
+import type { ProcessLane, ProcessStep, Session, SessionParticipant, WasteType } from "@/types";
+import type { InformationFlowWithRelations } from "@/types/informationFlow";
+import type { MutationResult, OfflineAttachment, OfflineMutation } from "@/types/offlineSync";
+import type { ObservationWithDetails } from "@/lib/services/observations";
+import type { ScoringModelDefinition } from "@/lib/services/scoringModel";
+
 const DB_NAME = "processopt-offline";
-const DB_VERSION = 1;
-const OBSERVATIONS_STORE = "offline-observations";
+// Keep in sync with public/sw.js, which opens the same database
+const DB_VERSION = 4;
+const MUTATIONS_STORE = "offline-mutations";
+const ATTACHMENTS_STORE = "offline-attachments";
+const SESSION_SNAPSHOTS_STORE = "session-snapshots";
+// Superseded by the mutation log; their records are moved over on upgrade
+const LEGACY_OBSERVATIONS_STORE = "offline-observations";
+const LEGACY_OBSERVATION_EDITS_STORE = "offline-observation-edits";
 
 /**
  * Open the IndexedDB database
@@ -21,57 +33,93 @@ function openDatabase(): Promise<IDBDatabase> {
 
     request.onupgradeneeded = (event) => {
       const db = (event.target as IDBOpenDBRequest).result;
+      const tx = (event.target as IDBOpenDBRequest).transaction!;
 
-      if (!db.objectStoreNames.contains(OBSERVATIONS_STORE)) {
-        const store = db.createObjectStore(OBSERVATIONS_STORE, { keyPath: "id" });
-        store.createIndex("session_id", "data.session_id");
+      if (!db.objectStoreNames.contains(MUTATIONS_STORE)) {
+        const store = db.createObjectStore(MUTATIONS_STORE, { keyPath: "id" });
+        store.createIndex("session_id", "session_id");
         store.createIndex("created_at", "created_at");
       }
+
+      if (!db.objectStoreNames.contains(ATTACHMENTS_STORE)) {
+        const store = db.createObjectStore(ATTACHMENTS_STORE, { keyPath: "id" });
+        store.createIndex("observation_id", "observation_id");
+        store.createIndex("session_id", "session_id");
+      }
+
+      if (!db.objectStoreNames.contains(SESSION_SNAPSHOTS_STORE)) {
+        db.createObjectStore(SESSION_SNAPSHOTS_STORE, { keyPath: "session_id" });
+      }
+
+      migrateLegacyQueues(db, tx);
     };
   });
 }
 
-// ============================================
-// OFFLINE OBSERVATION STORAGE
-// ============================================
+/**
+ * Move observations and edits queued by earlier versions into the mutation
+ * log, then drop the old stores. Legacy edits carry no base, so they apply
+ * without a conflict check.
+ */
+function migrateLegacyQueues(db: IDBDatabase, tx: IDBTransaction) {
+  const mutations = tx.objectStore(MUTATIONS_STORE);
 
-export interface OfflineObservation {
-  id: string;
-  data: {
-    session_id: string;
-    step_id: string;
-    waste_type_ids: string[];
-    notes?: string;
-    is_digital: boolean;
-    is_physical: boolean;
-    frequency_score?: number;
-    impact_score?: number;
-    ease_score?: number;
-  };
-  created_at: string;
-  synced: boolean;
+  if (db.objectStoreNames.contains(LEGACY_OBSERVATIONS_STORE)) {
+    const request = tx.objectStore(LEGACY_OBSERVATIONS_STORE).getAll();
+    request.onsuccess = () => {
+      for (const record of request.result || []) {
+        if (record.synced) continue;
+        const { session_id, ...fields } = record.data;
+        mutations.put({
+          id: crypto.randomUUID(),
+          entity: "observation",
+          entity_id: record.id,
+          session_id,
+          op: "create",
+          data: { ...fields, time_lost_minutes: fields.time_lost_minutes ?? null },
+          base_updated_at: null,
+          created_at: record.created_at,
+        } satisfies OfflineMutation);
+      }
+      db.deleteObjectStore(LEGACY_OBSERVATIONS_STORE);
+    };
+  }
+
+  if (db.objectStoreNames.contains(LEGACY_OBSERVATION_EDITS_STORE)) {
+    const request = tx.objectStore(LEGACY_OBSERVATION_EDITS_STORE).getAll();
+    request.onsuccess = () => {
+      for (const record of request.result || []) {
+        mutations.put({
+          id: crypto.randomUUID(),
+          entity: "observation",
+          entity_id: record.id,
+          session_id: record.session_id,
+          op: "update",
+          // Legacy edits never changed the step; the server keeps its own
+          data: { step_id: "", ...record.changes },
+          base_updated_at: null,
+          created_at: record.edited_at,
+        } satisfies OfflineMutation);
+      }
+      db.deleteObjectStore(LEGACY_OBSERVATION_EDITS_STORE);
+    };
+  }
 }
 
+// ============================================
+// OFFLINE MUTATION LOG
+// ============================================
+
 /**
- * Save an observation for offline sync
+ * Add or replace a queued mutation
  */
-export async function saveOfflineObservation(
-  observation: Omit<OfflineObservation, "id" | "created_at" | "synced">
-): Promise<string> {
+export async function putOfflineMutation(mutation: OfflineMutation): Promise<void> {
   const db = await openDatabase();
 
-  const id = `offline-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-  const record: OfflineObservation = {
-    id,
-    data: observation.data,
-    created_at: new Date().toISOString(),
-    synced: false,
-  };
-
   return new Promise((resolve, reject) => {
-    const tx = db.transaction(OBSERVATIONS_STORE, "readwrite");
-    const store = tx.objectStore(OBSERVATIONS_STORE);
-    const request = store.add(record);
+    const tx = db.transaction(MUTATIONS_STORE, "readwrite");
+    const store = tx.objectStore(MUTATIONS_STORE);
+    const request = store.put(mutation);
 
     request.onerror = () => reject(request.error);
     request.onsuccess = () => {
@@ -82,21 +130,21 @@ export async function saveOfflineObservation(
           (registration as any).sync.register("sync-observations");
         });
       }
-      resolve(id);
+      resolve();
     };
   });
 }
 
 /**
- * Get all pending offline observations
+ * Get all queued mutations, oldest first
  */
-export async function getOfflineObservations(): Promise<OfflineObservation[]> {
+export async function getOfflineMutations(): Promise<OfflineMutation[]> {
   const db = await openDatabase();
 
   return new Promise((resolve, reject) => {
-    const tx = db.transaction(OBSERVATIONS_STORE, "readonly");
-    const store = tx.objectStore(OBSERVATIONS_STORE);
-    const request = store.getAll();
+    const tx = db.transaction(MUTATIONS_STORE, "readonly");
+    const store = tx.objectStore(MUTATIONS_STORE);
+    const request = store.index("created_at").getAll();
 
     request.onerror = () => reject(request.error);
     request.onsuccess = () => resolve(request.result || []);
@@ -104,33 +152,35 @@ export async function getOfflineObservations(): Promise<OfflineObservation[]> {
 }
 
 /**
- * Get offline observations for a specific session
+ * Get queued mutations for a specific session, oldest first
  */
-export async function getOfflineObservationsBySession(
-  sessionId: string
-): Promise<OfflineObservation[]> {
+export async function getOfflineMutationsBySession(sessionId: string): Promise<OfflineMutation[]> {
   const db = await openDatabase();
 
   return new Promise((resolve, reject) => {
-    const tx = db.transaction(OBSERVATIONS_STORE, "readonly");
-    const store = tx.objectStore(OBSERVATIONS_STORE);
-    const index = store.index("session_id");
-    const request = index.getAll(sessionId);
+    const tx = db.transaction(MUTATIONS_STORE, "readonly");
+    const store = tx.objectStore(MUTATIONS_STORE);
+    const request = store.index("session_id").getAll(sessionId);
 
     request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve(request.result || []);
+    request.onsuccess = () =>
+      resolve(
+        ((request.result || []) as OfflineMutation[]).sort((a, b) =>
+          a.created_at.localeCompare(b.created_at)
+        )
+      );
   });
 }
 
 /**
- * Count pending offline observations
+ * Count queued mutations
  */
-export async function countOfflineObservations(): Promise<number> {
+export async function countOfflineMutations(): Promise<number> {
   const db = await openDatabase();
 
   return new Promise((resolve, reject) => {
-    const tx = db.transaction(OBSERVATIONS_STORE, "readonly");
-    const store = tx.objectStore(OBSERVATIONS_STORE);
+    const tx = db.transaction(MUTATIONS_STORE, "readonly");
+    const store = tx.objectStore(MUTATIONS_STORE);
     const request = store.count();
 
     request.onerror = () => reject(request.error);
@@ -139,40 +189,14 @@ export async function countOfflineObservations(): Promise<number> {
 }
 
 /**
- * Mark an observation as synced
+ * Remove a queued mutation
  */
-export async function markObservationSynced(id: string): Promise<void> {
+export async function deleteOfflineMutation(id: string): Promise<void> {
   const db = await openDatabase();
 
   return new Promise((resolve, reject) => {
-    const tx = db.transaction(OBSERVATIONS_STORE, "readwrite");
-    const store = tx.objectStore(OBSERVATIONS_STORE);
-    const getRequest = store.get(id);
-
-    getRequest.onerror = () => reject(getRequest.error);
-    getRequest.onsuccess = () => {
-      const record = getRequest.result;
-      if (record) {
-        record.synced = true;
-        const putRequest = store.put(record);
-        putRequest.onerror = () => reject(putRequest.error);
-        putRequest.onsuccess = () => resolve();
-      } else {
-        resolve();
-      }
-    };
-  });
-}
-
-/**
- * Delete an offline observation
- */
-export async function deleteOfflineObservation(id: string): Promise<void> {
-  const db = await openDatabase();
-
-  return new Promise((resolve, reject) => {
-    const tx = db.transaction(OBSERVATIONS_STORE, "readwrite");
-    const store = tx.objectStore(OBSERVATIONS_STORE);
+    const tx = db.transaction(MUTATIONS_STORE, "readwrite");
+    const store = tx.objectStore(MUTATIONS_STORE);
     const request = store.delete(id);
 
     request.onerror = () => reject(request.error);
@@ -180,81 +204,238 @@ export async function deleteOfflineObservation(id: string): Promise<void> {
   });
 }
 
+export interface MutationSyncResult {
+  synced: number;
+  failed: number;
+  conflicts: number;
+}
+
+let syncInFlight: Promise<MutationSyncResult> | null = null;
+
 /**
- * Clear all synced observations
+ * Replay the mutation log against the server. Applied and already-applied
+ * mutations leave the log; conflicts stay, marked, until the user resolves
+ * them; rejected ones are dropped and failed ones retried. Concurrent
+ * callers (the PWA provider and an open session page both react to
+ * reconnecting) share one run.
  */
-export async function clearSyncedObservations(): Promise<void> {
-  const observations = await getOfflineObservations();
-  const synced = observations.filter((o) => o.synced);
-
-  for (const obs of synced) {
-    await deleteOfflineObservation(obs.id);
+export function syncOfflineMutations(): Promise<MutationSyncResult> {
+  if (!syncInFlight) {
+    syncInFlight = runMutationSync().finally(() => {
+      syncInFlight = null;
+    });
   }
+  return syncInFlight;
 }
 
-/**
- * Sync all pending observations
- */
-export async function syncOfflineObservations(): Promise<{
-  synced: number;
-  failed: number;
-}> {
-  const observations = await getOfflineObservations();
-  const pending = observations.filter((o) => !o.synced);
+async function runMutationSync(): Promise<MutationSyncResult> {
+  const pending = (await getOfflineMutations()).filter((m) => !m.conflict);
 
   if (pending.length === 0) {
-    return { synced: 0, failed: 0 };
+    return { synced: 0, failed: 0, conflicts: 0 };
   }
 
   try {
-    // Transform observations for the API
-    const observationsToSync = pending.map((obs) => ({
-      id: obs.id,
-      session_id: obs.data.session_id,
-      step_id: obs.data.step_id,
-      notes: obs.data.notes,
-      is_digital: obs.data.is_digital,
-      is_physical: obs.data.is_physical,
-      frequency_score: obs.data.frequency_score || 3,
-      impact_score: obs.data.impact_score || 3,
-      ease_score: obs.data.ease_score || 3,
-      waste_type_ids: obs.data.waste_type_ids,
-      created_at: obs.created_at,
-    }));
-
-    // Batch sync all observations
-    const response = await fetch("/api/observations/sync", {
+    const response = await fetch("/api/observations/mutations", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ observations: observationsToSync }),
+      body: JSON.stringify({ mutations: pending }),
     });
 
     if (!response.ok) {
       throw new Error("Sync failed");
     }
 
-    const result = await response.json();
+    const { results } = (await response.json()) as { results: MutationResult[] };
+    const byId = new Map(pending.map((m) => [m.id, m]));
+    const summary: MutationSyncResult = { synced: 0, failed: 0, conflicts: 0 };
 
-    // Remove successfully synced observations from IndexedDB
-    for (const obs of pending) {
-      const wasFailed = result.errors?.some(
-        (e: { id: string }) => e.id === obs.id
-      );
-      if (!wasFailed) {
-        await deleteOfflineObservation(obs.id);
+    for (const result of results) {
+      const mutation = byId.get(result.mutation_id);
+      if (!mutation) continue;
+
+      if (result.status === "conflict" && result.conflict) {
+        await putOfflineMutation({ ...mutation, conflict: result.conflict });
+        summary.conflicts++;
+      } else if (result.status === "failed") {
+        summary.failed++;
+      } else {
+        await deleteOfflineMutation(mutation.id);
+        if (result.status === "rejected") {
+          console.error("Offline change rejected:", result.error);
+          summary.failed++;
+        } else {
+          summary.synced++;
+        }
       }
     }
 
-    return {
-      synced: result.synced || 0,
-      failed: result.failed || 0,
-    };
+    return summary;
   } catch (error) {
     console.error("Sync error:", error);
-    return { synced: 0, failed: pending.length };
+    return { synced: 0, failed: pending.length, conflicts: 0 };
   }
 }
 
+// ============================================
+// OFFLINE ATTACHMENTS
+// ============================================
+
+/**
+ * Add or replace a queued attachment, including its upload progress
+ */
+export async function putOfflineAttachment(attachment: OfflineAttachment): Promise<void> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(ATTACHMENTS_STORE, "readwrite");
+    const store = tx.objectStore(ATTACHMENTS_STORE);
+    const request = store.put(attachment);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve();
+  });
+}
+
+/**
+ * Get all queued attachments, oldest first
+ */
+export async function getOfflineAttachments(): Promise<OfflineAttachment[]> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(ATTACHMENTS_STORE, "readonly");
+    const store = tx.objectStore(ATTACHMENTS_STORE);
+    const request = store.getAll();
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () =>
+      resolve(
+        ((request.result || []) as OfflineAttachment[]).sort((a, b) =>
+          a.created_at.localeCompare(b.created_at)
+        )
+      );
+  });
+}
+
+/**
+ * Get queued attachments for a specific session, oldest first
+ */
+export async function getOfflineAttachmentsBySession(sessionId: string): Promise<OfflineAttachment[]> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(ATTACHMENTS_STORE, "readonly");
+    const store = tx.objectStore(ATTACHMENTS_STORE);
+    const request = store.index("session_id").getAll(sessionId);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () =>
+      resolve(
+        ((request.result || []) as OfflineAttachment[]).sort((a, b) =>
+          a.created_at.localeCompare(b.created_at)
+        )
+      );
+  });
+}
+
+/**
+ * Remove a queued attachment
+ */
+export async function deleteOfflineAttachment(id: string): Promise<void> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(ATTACHMENTS_STORE, "readwrite");
+    const store = tx.objectStore(ATTACHMENTS_STORE);
+    const request = store.delete(id);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve();
+  });
+}
+
+/**
+ * Remove every queued attachment of an observation
+ */
+export async function deleteOfflineAttachmentsByObservation(observationId: string): Promise<void> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(ATTACHMENTS_STORE, "readwrite");
+    const store = tx.objectStore(ATTACHMENTS_STORE);
+    const request = store.index("observation_id").openCursor(IDBKeyRange.only(observationId));
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        cursor.delete();
+        cursor.continue();
+      }
+    };
+    tx.oncomplete = () => resolve();
+  });
+}
+
+// ============================================
+// SESSION SNAPSHOTS
+// ============================================
+
+/** Everything the session page needs to render without the network */
+export interface SessionSnapshot {
+  session_id: string;
+  session: Session;
+  steps: ProcessStep[];
+  /** id is missing for edges added by inlining subprocesses, and in older snapshots */
+  connections: { id?: string; source: string; target: string }[];
+  lanes: ProcessLane[];
+  waste_types: WasteType[];
+  participants: (SessionParticipant & {
+    user?: { id: string; name: string; email: string; role: string; avatar_url?: string };
+  })[];
+  observations: ObservationWithDetails[];
+  information_flows: InformationFlowWithRelations[];
+  /** Missing from snapshots cached before scoring models */
+  scoring_model?: ScoringModelDefinition;
+  current_user_id?: string;
+  cached_at: string;
+}
+
+/**
+ * Store the latest snapshot of a session
+ */
+export async function saveSessionSnapshot(
+  snapshot: Omit<SessionSnapshot, "cached_at">
+): Promise<void> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(SESSION_SNAPSHOTS_STORE, "readwrite");
+    const store = tx.objectStore(SESSION_SNAPSHOTS_STORE);
+    const request = store.put({ ...snapshot, cached_at: new Date().toISOString() });
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve();
+  });
+}
+
+/**
+ * Get the cached snapshot of a session, if it was opened online before
+ */
+export async function getSessionSnapshot(sessionId: string): Promise<SessionSnapshot | null> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(SESSION_SNAPSHOTS_STORE, "readonly");
+    const store = tx.objectStore(SESSION_SNAPSHOTS_STORE);
+    const request = store.get(sessionId);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result || null);
+  });
+}
+
 // ============================================
 // ONLINE/OFFLINE STATUS
 // ============================================
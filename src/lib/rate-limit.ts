@@ -169,6 +169,33 @@ export const syncRateLimit = {
   identifier: "sync",
 };
 
+/** Rate limit for opening a guest join link: 30 per minute per IP */
+export const guestViewRateLimit = {
+  limit: 30,
+  interval: 60000, // 1 minute
+  identifier: "guest-view",
+};
+
+/** Rate limit for joining through a guest link: 10 per hour per IP */
+export const guestJoinRateLimit = {
+  limit: 10,
+  interval: 3600000, // 1 hour
+  identifier: "guest-join",
+};
+
+/** Rate limit for guest observations: 30 per 10 minutes per guest, whatever their address */
+export const guestObservationRateLimit = {
+  limit: 30,
+  interval: 600000, // 10 minutes
+  identifier: "guest-observation",
+};
+
+/** Client address for rate limiting requests without a signed-in user */
+export function getClientIp(request: Request): string {
+  const forwarded = request.headers.get("x-forwarded-for");
+  return forwarded?.split(",")[0].trim() || request.headers.get("x-real-ip") || "unknown";
+}
+
 /** General API rate limit: 100 per minute */
 export const generalRateLimit = {
   limit: 100,
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildWasteDistribution,
+  getHotspotEffort,
+  getSingleSessionId,
+  MAX_PAGE_SIZE,
+  parseAnalyticsFilters,
+  parseAnalyticsPagination,
+  toAnalyticsSearchParams,
+  toRpcFilters,
+  type AnalyticsFilters,
+} from "../analyticsQuery";
+
+describe("analytics filters", () => {
+  it("round-trips through the query string", () => {
+    const filters: AnalyticsFilters = {
+      processIds: ["p1"],
+      sessionIds: ["s1", "s2"],
+      from: "2026-01-01",
+      to: "2026-02-01",
+      lanes: ["Billing"],
+      wasteCategories: ["digital"],
+      isDigital: true,
+      stepIds: ["step-1"],
+      wasteTypeIds: ["wt-1"],
+    };
+    expect(parseAnalyticsFilters(toAnalyticsSearchParams(filters))).toEqual(filters);
+  });
+
+  it("drops malformed values", () => {
+    const filters = parseAnalyticsFilters(
+      new URLSearchParams("session=,,&category=core_lean,bogus&from=not-a-date&digital=maybe&physical=false")
+    );
+    expect(filters).toEqual({ wasteCategories: ["core_lean"], isPhysical: false });
+  });
+
+  it("only sends keys that filter to the database", () => {
+    expect(toRpcFilters({})).toEqual({});
+    expect(toRpcFilters({ sessionIds: [], isDigital: false }, "org-1")).toEqual({
+      org_id: "org-1",
+      is_digital: false,
+    });
+    expect(toRpcFilters({ lanes: ["Intake"], to: "2026-02-01" })).toEqual({ lanes: ["Intake"], to: "2026-02-01" });
+  });
+
+  it("knows when the filters name a single session", () => {
+    expect(getSingleSessionId({ sessionIds: ["s1"] })).toBe("s1");
+    expect(getSingleSessionId({ sessionIds: ["s1", "s2"] })).toBeUndefined();
+    expect(getSingleSessionId({})).toBeUndefined();
+  });
+});
+
+describe("parseAnalyticsPagination", () => {
+  it("defaults to the first page", () => {
+    expect(parseAnalyticsPagination(new URLSearchParams())).toEqual({ page: 1, pageSize: 25 });
+    expect(parseAnalyticsPagination(new URLSearchParams(), 10)).toEqual({ page: 1, pageSize: 10 });
+  });
+
+  it("clamps bad and oversized values", () => {
+    expect(parseAnalyticsPagination(new URLSearchParams("page=-2&pageSize=abc"))).toEqual({ page: 1, pageSize: 25 });
+    expect(parseAnalyticsPagination(new URLSearchParams("page=3&pageSize=5000"))).toEqual({
+      page: 3,
+      pageSize: MAX_PAGE_SIZE,
+    });
+  });
+});
+
+describe("buildWasteDistribution", () => {
+  it("turns database counts into percentages, largest first", () => {
+    const distribution = buildWasteDistribution([
+      { waste_type_id: "wt-1", name: "Defects", code: "D", color: "#FF0000", count: 1 },
+      { waste_type_id: "wt-2", name: "Waiting", code: "W", color: null, count: 3 },
+      { waste_type_id: "wt-3", name: "Motion", code: "M", color: "#00FF00", count: 0 },
+    ]);
+    expect(distribution.map((d) => [d.code, d.count, d.percentage])).toEqual([
+      ["W", 3, 75],
+      ["D", 1, 25],
+    ]);
+    expect(distribution[0].color).toBe("#6B7280");
+  });
+
+  it("accepts counts returned as strings", () => {
+    const distribution = buildWasteDistribution([
+      { waste_type_id: "wt-1", name: "Defects", code: "D", color: null, count: "2" as unknown as number },
+    ]);
+    expect(distribution[0]).toMatchObject({ count: 2, percentage: 100 });
+  });
+});
+
+describe("getHotspotEffort", () => {
+  it("reads effort from the average ease score", () => {
+    expect(getHotspotEffort(4.5)).toBe("low");
+    expect(getHotspotEffort(3)).toBe("medium");
+    expect(getHotspotEffort(2)).toBe("high");
+  });
+});
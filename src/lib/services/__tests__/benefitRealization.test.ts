@@ -0,0 +1,147 @@
+import { describe, it, expect } from "vitest";
+import {
+  BENEFIT_REGISTER_HEADERS,
+  buildBenefitRealization,
+  buildBenefitRegisterRows,
+  buildKpiProgress,
+  getKpiDueOn,
+  getKpiProgress,
+  getRealizationRate,
+  type BenefitInput,
+} from "../benefitRealization";
+import type { SolutionKpi, SolutionKpiMeasurement } from "@/types";
+
+const kpi = (id: string, solutionId: string, overrides: Partial<SolutionKpi> = {}): SolutionKpi => ({
+  id,
+  solution_id: solutionId,
+  name: `KPI ${id}`,
+  unit: "min",
+  baseline_value: 40,
+  target_value: 20,
+  annual_value: 10000,
+  measure_every_days: 30,
+  created_at: "2026-01-01T10:00:00Z",
+  updated_at: "2026-01-01T10:00:00Z",
+  ...overrides,
+});
+
+const measurement = (kpiId: string, measuredOn: string, value: number): SolutionKpiMeasurement => ({
+  id: `${kpiId}-${measuredOn}`,
+  kpi_id: kpiId,
+  measured_on: measuredOn,
+  value,
+  created_at: `${measuredOn}T12:00:00Z`,
+});
+
+describe("KPI progress", () => {
+  it("measures from baseline to target either way", () => {
+    expect(getKpiProgress({ baseline_value: 40, target_value: 20 }, 30)).toBe(50);
+    expect(getKpiProgress({ baseline_value: 10, target_value: 20 }, 22)).toBe(120);
+    expect(getKpiProgress({ baseline_value: 40, target_value: 20 }, 44)).toBe(-20);
+  });
+
+  it("falls due a cadence after the last measurement or the KPI being added", () => {
+    expect(getKpiDueOn(kpi("k", "s"), null)).toBe("2026-01-31");
+    expect(getKpiDueOn(kpi("k", "s"), { measured_on: "2026-02-20" })).toBe("2026-03-22");
+  });
+
+  it("uses the latest actual and only chases measurements once work starts", () => {
+    const measurements = [measurement("k", "2026-02-01", 30), measurement("k", "2026-01-15", 35)];
+    const progress = buildKpiProgress(kpi("k", "s"), measurements, "in_progress", "2026-03-05");
+
+    expect(progress.latest?.measured_on).toBe("2026-02-01");
+    expect(progress.progress).toBe(50);
+    expect(progress.realizedValue).toBe(5000);
+    expect(progress.dueOn).toBe("2026-03-03");
+    expect(progress.isOverdue).toBe(true);
+    expect(buildKpiProgress(kpi("k", "s"), measurements, "not_started", "2026-03-05").isOverdue).toBe(false);
+  });
+
+  it("caps realized value at the annual value", () => {
+    const progress = buildKpiProgress(kpi("k", "s"), [measurement("k", "2026-02-01", 10)], "done", "2026-02-02");
+    expect(progress.progress).toBe(150);
+    expect(progress.realizedValue).toBe(10000);
+  });
+});
+
+describe("buildBenefitRealization", () => {
+  const input: BenefitInput = {
+    solutions: [
+      { id: "s1", title: "Auto-route requests" },
+      { id: "s2", title: "Shared intake form" },
+      { id: "s3", title: "Drop double entry" },
+      { id: "s4", title: "Self-service status" },
+    ],
+    items: [
+      { id: "i1", solutionId: "s1", status: "done", waveId: "w1" },
+      { id: "i2", solutionId: "s2", status: "in_progress", waveId: "w1" },
+      { id: "i3", solutionId: "s3", status: "abandoned", waveId: "w2" },
+    ],
+    waves: [
+      { id: "w1", name: "Quick wins" },
+      { id: "w2", name: "Foundations" },
+    ],
+    futureStates: [{ id: "fs1", name: "Lean intake", version: 2, solutionIds: ["s1", "s3"] }],
+    kpis: [
+      kpi("k1", "s1"),
+      kpi("k2", "s2", { baseline_value: 5, target_value: 10, annual_value: 2000 }),
+      kpi("k3", "s3"),
+    ],
+    measurements: [measurement("k1", "2026-02-01", 20)],
+    currency: "EUR",
+  };
+  const realization = buildBenefitRealization(input, "2026-02-15");
+
+  it("tracks each solution's status, wave and KPIs", () => {
+    expect(realization.solutions.map((s) => [s.solutionId, s.status, s.waveId, s.kpis.length])).toEqual([
+      ["s1", "done", "w1", 1],
+      ["s2", "in_progress", "w1", 1],
+      ["s3", "abandoned", "w2", 1],
+      ["s4", "not_started", null, 0],
+    ]);
+    expect(realization.solutions[3].itemId).toBeNull();
+  });
+
+  it("rolls up per wave, then solutions not yet sequenced", () => {
+    expect(realization.waves.map((w) => [w.label, w.solutionCount, w.expectedValue, w.realizedValue])).toEqual([
+      ["Quick wins", 2, 12000, 10000],
+      ["Foundations", 1, 0, 0],
+      ["Not sequenced", 1, 0, 0],
+    ]);
+    expect(realization.waves[0]).toMatchObject({ kpiCount: 2, measuredKpiCount: 1, averageProgress: 100, overdueCount: 1 });
+    expect(realization.waves[1].statusCounts.abandoned).toBe(1);
+  });
+
+  it("rolls up per future state through its linked solutions", () => {
+    expect(realization.futureStates).toHaveLength(1);
+    expect(realization.futureStates[0]).toMatchObject({
+      label: "Lean intake v2",
+      solutionCount: 2,
+      expectedValue: 10000,
+      realizedValue: 10000,
+    });
+    expect(getRealizationRate(realization.total)).toBe(83);
+    expect(getRealizationRate(realization.waves[1])).toBeNull();
+    expect(realization.currency).toBe("EUR");
+  });
+
+  it("exports a register row per KPI, then the roll-ups", () => {
+    const rows = buildBenefitRegisterRows(realization);
+    expect(rows.every((row) => row.length === BENEFIT_REGISTER_HEADERS.length)).toBe(true);
+    expect(rows.map((row) => row[0])).toEqual([
+      "KPI",
+      "KPI",
+      "KPI",
+      "Solution",
+      "Wave",
+      "Wave",
+      "Wave",
+      "Future state",
+      "Total",
+    ]);
+    expect(rows[0].slice(1, 5)).toEqual(["Quick wins", "Auto-route requests", "Done", "KPI k1"]);
+    expect(rows[0][15]).toBe("2026-02-01: 20");
+    expect(rows[1][14]).toBe("Yes");
+    expect(rows[8].slice(2, 5)).toEqual(["4 solutions", "1 not started; 1 in progress; 1 done; 1 abandoned", "1 of 2 measured"]);
+  });
+});
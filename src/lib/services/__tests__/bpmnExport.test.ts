@@ -0,0 +1,110 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/lib/supabase/client", () => ({
+  getSupabaseClient: () => ({
+    from: vi.fn(),
+    auth: { getUser: vi.fn() },
+  }),
+}));
+
+// Import after mocking
+import { serializeProcessToBPMN, serializeFutureStateToBPMN } from "../bpmnExport";
+import { parseBPMN } from "../workflowImport";
+import type { FutureStateWithGraph, ProcessLane, ProcessStep } from "@/types";
+
+const timestamps = { created_at: "2024-01-01T00:00:00Z", updated_at: "2024-01-01T00:00:00Z" };
+
+const steps: ProcessStep[] = [
+  { id: "s1", process_id: "p1", step_name: "Start", lane: "Requester", step_type: "start", order_index: 0, position_x: 40, position_y: 25, ...timestamps },
+  { id: "s2", process_id: "p1", step_name: "Review & approve", lane: "Finance", step_type: "decision", order_index: 1, position_x: 240, position_y: 145, lead_time_minutes: 240, cycle_time_minutes: 20, ...timestamps },
+  { id: "s3", process_id: "p1", step_name: "Create PO", description: "Raise the <PO>", lane: "Finance", step_type: "action", order_index: 2, position_x: 440, position_y: 145, ...timestamps },
+  { id: "s4", process_id: "p1", step_name: "Done", lane: "Requester", step_type: "end", order_index: 3, position_x: 640, position_y: 25, ...timestamps },
+];
+
+const lanes: ProcessLane[] = [
+  { id: "lane-a", process_id: "p1", name: "Requester", order_index: 0, bg_color: "#eef", ...timestamps },
+  { id: "lane-b", process_id: "p1", name: "Finance", order_index: 1, ...timestamps },
+];
+
+const connections = [
+  { id: "c1", process_id: "p1", source_step_id: "s1", target_step_id: "s2" },
+  { id: "c2", process_id: "p1", source_step_id: "s2", target_step_id: "s3", label: "Approved" },
+  { id: "c3", process_id: "p1", source_step_id: "s3", target_step_id: "s4" },
+];
+
+describe("bpmnExport service", () => {
+  describe("serializeProcessToBPMN", () => {
+    it("should produce well-formed BPMN with diagram interchange", () => {
+      const xml = serializeProcessToBPMN({
+        process: { id: "p1", name: "Procurement" },
+        steps,
+        lanes,
+        connections,
+      });
+
+      const doc = new DOMParser().parseFromString(xml, "application/xml");
+      expect(doc.getElementsByTagName("parsererror")).toHaveLength(0);
+
+      expect(xml).toContain('<bpmn:exclusiveGateway id="Step_s2" name="Review &amp; approve"');
+      expect(xml).toContain("<bpmn:documentation>Raise the &lt;PO&gt;</bpmn:documentation>");
+      expect(xml).toContain('wfo:leadTimeMinutes="240"');
+      expect(xml).toContain('<bpmndi:BPMNShape id="Step_s3_di" bpmnElement="Step_s3"><dc:Bounds x="500" y="145"');
+      expect(xml.match(/<bpmndi:BPMNEdge /g)).toHaveLength(3);
+    });
+
+    it("should round-trip through the BPMN importer", () => {
+      const xml = serializeProcessToBPMN({
+        process: { id: "p1", name: "Procurement" },
+        steps,
+        lanes,
+        connections,
+      });
+
+      const result = parseBPMN(xml);
+
+      expect(result.valid).toBe(true);
+      expect(result.data!.name).toBe("Procurement");
+      expect(result.data!.lanes).toEqual(["Requester", "Finance"]);
+      expect(result.data!.steps.map((s) => [s.name, s.lane, s.type])).toEqual([
+        ["Start", "Requester", "start"],
+        ["Review & approve", "Finance", "decision"],
+        ["Create PO", "Finance", "action"],
+        ["Done", "Requester", "end"],
+      ]);
+      expect(result.data!.connections).toContainEqual({
+        from: "Step_s2",
+        to: "Step_s3",
+        label: "Approved",
+      });
+    });
+  });
+
+  describe("serializeFutureStateToBPMN", () => {
+    it("should keep node actions as extension attributes", () => {
+      const futureState: FutureStateWithGraph = {
+        id: "fs1",
+        process_id: "p1",
+        session_id: "sess1",
+        name: "Lean Procurement",
+        version: 2,
+        status: "draft",
+        ...timestamps,
+        nodes: [
+          { id: "n1", future_state_id: "fs1", source_step_id: "s3", name: "Auto PO", lane: "System", step_type: "action", position_x: 0, position_y: 0, action: "modify", modified_fields: {}, step_design_status: "strategy_only", revision: 1, ...timestamps },
+          { id: "n2", future_state_id: "fs1", name: "Notify", lane: "System", step_type: "action", position_x: 200, position_y: 0, action: "new", modified_fields: {}, step_design_status: "strategy_only", revision: 1, ...timestamps },
+        ],
+        edges: [
+          { id: "e1", future_state_id: "fs1", source_node_id: "n1", target_node_id: "n2", order_index: 0, ...timestamps },
+        ],
+      };
+
+      const xml = serializeFutureStateToBPMN({ futureState, lanes: [] });
+
+      expect(xml).toContain('name="Lean Procurement (v2)"');
+      expect(xml).toContain('wfo:action="modify" wfo:sourceStepId="s3"');
+      expect(xml).toContain('wfo:action="new"');
+      expect(xml).toContain('<bpmn:lane id="Lane_lane-1" name="System">');
+      expect(xml).toContain('sourceRef="Step_n1" targetRef="Step_n2"');
+    });
+  });
+});
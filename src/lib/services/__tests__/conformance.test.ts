@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  from: vi.fn(),
+  getUser: vi.fn(),
+}));
+
+vi.mock("@/lib/supabase/client", () => ({
+  getSupabaseClient: () => ({
+    from: mocks.from,
+    auth: { getUser: mocks.getUser },
+  }),
+}));
+
+// Import after mocking
+import {
+  checkConformance,
+  getConformanceOverlay,
+  getConformanceObservationCandidates,
+  createObservationsFromDeviations,
+  type ConformanceModel,
+} from "../conformance";
+import type { EventLog } from "../processMining";
+
+const model: ConformanceModel = {
+  steps: [
+    { id: "start", step_name: "Start", step_type: "start" },
+    { id: "submit", step_name: "Submit request", step_type: "action" },
+    { id: "approve", step_name: "Approve", step_type: "action" },
+    { id: "po", step_name: "Create PO", step_type: "action" },
+    { id: "end", step_name: "End", step_type: "end" },
+  ],
+  connections: [
+    { source_step_id: "start", target_step_id: "submit" },
+    { source_step_id: "submit", target_step_id: "approve" },
+    { source_step_id: "approve", target_step_id: "po" },
+    { source_step_id: "po", target_step_id: "end" },
+  ],
+};
+
+function buildLog(traces: string[][]): EventLog {
+  const base = Date.parse("2024-01-01T09:00:00Z");
+  return {
+    eventCount: traces.flat().length,
+    cases: traces.map((activities, caseIdx) => ({
+      caseId: `case-${caseIdx + 1}`,
+      activities: activities.map((activity, idx) => ({
+        activity,
+        end: new Date(base + idx * 60000),
+      })),
+    })),
+  };
+}
+
+const log = buildLog([
+  ["Submit request", "Approve", "Create PO"],
+  ["submit  request", "Create PO"],
+  ["Submit request", "Approve", "Submit request", "Approve", "Create PO"],
+  ["Approve", "Create PO", "Archive"],
+]);
+
+describe("conformance service", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("checkConformance", () => {
+    it("should report fitness, skipped steps, unexpected transitions and rework", () => {
+      const result = checkConformance(log, model);
+
+      expect(result.caseCount).toBe(4);
+      expect(result.fittingCaseCount).toBe(1);
+      expect(result.fitness).toBeGreaterThan(0.5);
+      expect(result.fitness).toBeLessThan(1);
+
+      expect(result.skippedSteps).toEqual([
+        { stepId: "approve", stepName: "Approve", cases: 1 },
+        { stepId: "submit", stepName: "Submit request", cases: 1 },
+      ]);
+      expect(result.unexpectedTransitions).toEqual([
+        {
+          fromStepId: "approve",
+          toStepId: "submit",
+          fromName: "Approve",
+          toName: "Submit request",
+          cases: 1,
+          occurrences: 1,
+        },
+      ]);
+      expect(result.reworkLoops.map((r) => [r.stepId, r.occurrences])).toEqual([
+        ["submit", 1],
+        ["approve", 1],
+      ]);
+      expect(result.unmatchedActivities).toEqual([{ activity: "Archive", occurrences: 1 }]);
+      expect(result.edgeTraversals["approve-po"]).toBe(4);
+      expect(result.stepStats.approve).toEqual({ executions: 4, skipped: 1, rework: 1 });
+    });
+
+    it("should rank deviating variants and leave conforming ones out", () => {
+      const result = checkConformance(log, model);
+
+      expect(result.deviatingVariants).toHaveLength(3);
+      expect(result.deviatingVariants.every((v) => v.fitness < 1)).toBe(true);
+      expect(result.deviatingVariants.find((v) => v.activities.length === 2)!.deviations).toEqual([
+        'Skipped "Approve"',
+      ]);
+    });
+  });
+
+  describe("getConformanceOverlay", () => {
+    it("should expose unexpected transitions as extra edges", () => {
+      const overlay = getConformanceOverlay(checkConformance(log, model));
+
+      expect(overlay.unexpectedEdges).toEqual([{ source: "approve", target: "submit", count: 1 }]);
+      expect(overlay.edges["submit-approve"]).toBeGreaterThan(0);
+    });
+  });
+
+  describe("observation candidates", () => {
+    it("should map deviations to waste types and frequency scores", () => {
+      const candidates = getConformanceObservationCandidates(checkConformance(log, model));
+
+      expect(candidates.map((c) => [c.kind, c.stepId, c.wasteCode])).toEqual(
+        expect.arrayContaining([
+          ["rework", "submit", "D"],
+          ["skipped", "approve", "E"],
+          ["unexpected", "submit", "T"],
+        ])
+      );
+      expect(candidates.every((c) => c.frequencyScore === 4)).toBe(true); // 1 of 4 cases
+    });
+
+    it("should create observations linked to the matching waste type", async () => {
+      const inserts: Record<string, unknown>[] = [];
+      mocks.getUser.mockResolvedValue({ data: { user: { id: "user-1" } } });
+      mocks.from.mockImplementation((table: string) => {
+        const builder = {
+          select: () => builder,
+          eq: () => builder,
+          insert: (value: Record<string, unknown>) => {
+            inserts.push({ table, value });
+            return builder;
+          },
+          single: async () =>
+            table === "waste_types"
+              ? { data: { id: "waste-d" }, error: null }
+              : { data: { id: "obs-1" }, error: null },
+          then: (resolve: (value: unknown) => void) => resolve({ error: null }),
+        };
+        return builder;
+      });
+
+      const [rework] = getConformanceObservationCandidates(checkConformance(log, model)).filter(
+        (c) => c.kind === "rework"
+      );
+      await createObservationsFromDeviations("session-1", [rework]);
+
+      expect(inserts[0]).toMatchObject({
+        table: "observations",
+        value: { session_id: "session-1", step_id: "submit", frequency_score: 4 },
+      });
+      expect(inserts[1]).toEqual({
+        table: "observation_waste_links",
+        value: [{ observation_id: "obs-1", waste_type_id: "waste-d" }],
+      });
+    });
+  });
+});
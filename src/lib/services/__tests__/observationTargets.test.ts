@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildHandoffLookup,
+  describeObservationTarget,
+  getObservationTarget,
+  getTargetColumns,
+  summarizeEdgeObservations,
+  summarizeHandoffs,
+} from "../observationTargets";
+
+const stepNames = { a: "Triage", b: "Registration", c: "Billing" };
+
+const lookup = buildHandoffLookup(
+  [
+    { id: "conn-ab", source_step_id: "a", target_step_id: "b" },
+    { source_step_id: "b", target_step_id: "c" },
+  ],
+  [{ id: "flow-bc", name: "Claim form", source_step_id: "b", target_step_id: "c" }],
+  stepNames
+);
+
+describe("getObservationTarget", () => {
+  it("reads whichever target column is set", () => {
+    expect(getObservationTarget({ step_id: "a" })).toEqual({ type: "step", id: "a" });
+    expect(getObservationTarget({ step_id: null, connection_id: "conn-ab" })).toEqual({
+      type: "connection",
+      id: "conn-ab",
+    });
+    expect(getObservationTarget({ step_id: null, flow_id: "flow-bc" })).toEqual({ type: "flow", id: "flow-bc" });
+    expect(getObservationTarget({ step_id: null })).toBeNull();
+  });
+});
+
+describe("getTargetColumns", () => {
+  it("sets one column and clears the other two", () => {
+    expect(getTargetColumns({ type: "connection", id: "conn-ab" })).toEqual({
+      step_id: null,
+      connection_id: "conn-ab",
+      flow_id: null,
+    });
+  });
+});
+
+describe("buildHandoffLookup", () => {
+  it("labels handoffs by their steps and skips connections without an id", () => {
+    expect(Object.keys(lookup)).toEqual(["connection:conn-ab", "flow:flow-bc"]);
+    expect(lookup["connection:conn-ab"].label).toBe("Triage → Registration");
+    expect(lookup["flow:flow-bc"].label).toBe("Claim form (Registration → Billing)");
+  });
+});
+
+describe("describeObservationTarget", () => {
+  it("names steps, handoffs and flows", () => {
+    expect(describeObservationTarget({ step_id: "c" }, lookup, stepNames)).toBe("Step: Billing");
+    expect(describeObservationTarget({ step_id: null, connection_id: "conn-ab" }, lookup, stepNames)).toBe(
+      "Handoff: Triage → Registration"
+    );
+    expect(describeObservationTarget({ step_id: null, flow_id: "gone" }, lookup, stepNames)).toBe("Flow: Unknown");
+  });
+});
+
+describe("summarizeEdgeObservations", () => {
+  it("adds up handoff and flow observations per map edge", () => {
+    const stats = summarizeEdgeObservations(
+      [
+        { step_id: "a", priority_score: 20 },
+        { step_id: null, connection_id: "conn-ab", priority_score: 6 },
+        { step_id: null, connection_id: "conn-ab", priority_score: 4 },
+        { step_id: null, flow_id: "flow-bc", priority_score: 12 },
+      ],
+      lookup
+    );
+
+    expect(stats).toEqual({
+      "a-b": { count: 2, priorityScore: 10 },
+      "b-c": { count: 1, priorityScore: 12 },
+    });
+  });
+});
+
+describe("summarizeHandoffs", () => {
+  it("groups by handoff, highest priority first", () => {
+    const summaries = summarizeHandoffs(
+      [
+        { id: "o1", step_id: null, connection_id: "conn-ab", priority_score: 6, waste_types: [{ name: "Waiting" }] },
+        { id: "o2", step_id: null, flow_id: "flow-bc", priority_score: 12, waste_types: [{ name: "Transport" }] },
+        { id: "o3", step_id: null, connection_id: "conn-ab", priority_score: 8, waste_types: [{ name: "Waiting" }] },
+        { id: "o4", step_id: "a", priority_score: 30 },
+      ],
+      lookup
+    );
+
+    expect(summaries.map((s) => [s.handoff.id, s.priorityScore, s.observationCount])).toEqual([
+      ["conn-ab", 14, 2],
+      ["flow-bc", 12, 1],
+    ]);
+    expect(summaries[0].wasteTypes).toEqual(["Waiting"]);
+    expect(summaries[0].observationIds).toEqual(["o1", "o3"]);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import {
+  ANONYMOUS_OBSERVER_NAME,
+  canSeeObservers,
+  getObserverName,
+  hideObservers,
+  hideRaters,
+} from "../observerPrivacy";
+import { analyzeRaterAgreement, type AgreementObservation } from "../raterAgreement";
+import { getGuestLinkStatus, normalizeGuestName } from "../guestAccess";
+
+const defects = { id: "wt-d", name: "Defects", code: "D" };
+
+const obs = (
+  id: string,
+  observer: { user_id: string | null; guest_id?: string | null },
+  [frequency, impact, ease]: [number, number, number]
+): AgreementObservation => ({
+  id,
+  step_id: "step-1",
+  ...observer,
+  user: observer.user_id ? { name: observer.user_id.toUpperCase() } : undefined,
+  guest: observer.guest_id ? { display_name: null } : null,
+  frequency_score: frequency,
+  impact_score: impact,
+  ease_score: ease,
+  waste_types: [defects],
+});
+
+describe("canSeeObservers", () => {
+  it("shows observers when the session isn't anonymous", () => {
+    expect(canSeeObservers({ anonymous_observations: false }, "participant")).toBe(true);
+    expect(canSeeObservers(null, undefined)).toBe(true);
+  });
+
+  it("hides observers in anonymous sessions from everyone but admins", () => {
+    const session = { anonymous_observations: true };
+    expect(canSeeObservers(session, "participant")).toBe(false);
+    expect(canSeeObservers(session, "facilitator")).toBe(false);
+    expect(canSeeObservers(session, "admin")).toBe(true);
+  });
+});
+
+describe("getObserverName", () => {
+  it("names members and guests", () => {
+    expect(getObserverName({ user_id: "u1", user: { name: "Ada" } })).toBe("Ada");
+    expect(getObserverName({ user_id: null, guest_id: "g1", guest: { display_name: "Sam" } })).toBe("Sam (guest)");
+    expect(getObserverName({ user_id: null, guest_id: "g1", guest: { display_name: null } })).toBe("Guest");
+  });
+
+  it("calls a hidden observer anonymous", () => {
+    expect(getObserverName({ user_id: null, guest_id: null })).toBe(ANONYMOUS_OBSERVER_NAME);
+  });
+});
+
+describe("hideObservers", () => {
+  it("keeps the viewer's own observations and hides everyone else's", () => {
+    const hidden = hideObservers(
+      [obs("o1", { user_id: "a" }, [3, 3, 3]), obs("o2", { user_id: null, guest_id: "g1" }, [3, 3, 3])],
+      "b"
+    );
+    expect(hidden.map((o) => getObserverName(o))).toEqual([ANONYMOUS_OBSERVER_NAME, ANONYMOUS_OBSERVER_NAME]);
+    expect(hidden.every((o) => o.user_id === null && o.guest_id === null)).toBe(true);
+
+    const own = hideObservers([obs("o1", { user_id: "a" }, [3, 3, 3])], "a");
+    expect(own[0].user_id).toBe("a");
+  });
+});
+
+describe("hideRaters", () => {
+  it("numbers raters instead of naming them", () => {
+    const groups = analyzeRaterAgreement([
+      obs("o1", { user_id: "a" }, [1, 1, 1]),
+      obs("o2", { user_id: null, guest_id: "g1" }, [5, 5, 5]),
+    ]);
+    expect(groups[0].raters.map((r) => r.userName).sort()).toEqual(["A", "Guest"]);
+
+    const hidden = hideRaters(groups);
+    expect(hidden[0].raters.map((r) => r.userName)).toEqual(["Rater 1", "Rater 2"]);
+    expect(hidden[0].raters.some((r) => r.userId === "a" || r.userId.includes("g1"))).toBe(false);
+    expect(hidden[0].agreement).toBe(groups[0].agreement);
+  });
+});
+
+describe("guest links", () => {
+  const now = new Date("2026-02-01T12:00:00.000Z");
+
+  it("reports whether a link can still be used", () => {
+    expect(getGuestLinkStatus({ expires_at: "2026-02-01T14:00:00.000Z", revoked_at: null }, now)).toBe("active");
+    expect(getGuestLinkStatus({ expires_at: "2026-02-01T11:00:00.000Z", revoked_at: null }, now)).toBe("expired");
+    expect(
+      getGuestLinkStatus({ expires_at: "2026-02-01T14:00:00.000Z", revoked_at: "2026-02-01T11:30:00.000Z" }, now)
+    ).toBe("revoked");
+  });
+
+  it("keeps blank guest names anonymous", () => {
+    expect(normalizeGuestName("  Sam  ")).toBe("Sam");
+    expect(normalizeGuestName("   ")).toBeNull();
+    expect(normalizeGuestName(42)).toBeNull();
+    expect(normalizeGuestName("x".repeat(100))).toHaveLength(60);
+  });
+});
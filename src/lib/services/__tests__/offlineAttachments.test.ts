@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import {
+  fitWithin,
+  getAttachmentKind,
+  getAttachmentPath,
+  MAX_PHOTO_DIMENSION,
+  toAttachmentProgress,
+} from "../offlineAttachments";
+import type { OfflineAttachment } from "@/types/offlineSync";
+
+const attachment = (overrides: Partial<OfflineAttachment> = {}): OfflineAttachment => ({
+  id: "a1",
+  observation_id: "o1",
+  session_id: "s1",
+  kind: "photo",
+  name: "printer.jpg",
+  mime_type: "image/jpeg",
+  size: 2048,
+  blob: new Blob(["x"]),
+  storage_path: "s1/o1/a1.jpg",
+  upload_url: null,
+  uploaded_bytes: 0,
+  attempts: 0,
+  created_at: "2026-01-02T10:00:00Z",
+  ...overrides,
+});
+
+describe("offlineAttachments service", () => {
+  describe("getAttachmentKind", () => {
+    it("should classify captured media by mime type", () => {
+      expect(getAttachmentKind("image/heic")).toBe("photo");
+      expect(getAttachmentKind("video/quicktime")).toBe("video");
+      expect(getAttachmentKind("audio/webm;codecs=opus")).toBe("voice_memo");
+      expect(getAttachmentKind("application/pdf")).toBe("document");
+      expect(getAttachmentKind("")).toBe("document");
+    });
+  });
+
+  describe("fitWithin", () => {
+    it("should scale the longest edge down and keep the aspect ratio", () => {
+      expect(fitWithin(4032, 3024, MAX_PHOTO_DIMENSION)).toEqual({ width: 1920, height: 1440 });
+      expect(fitWithin(3024, 4032, MAX_PHOTO_DIMENSION)).toEqual({ width: 1440, height: 1920 });
+    });
+
+    it("should never upscale a small image", () => {
+      expect(fitWithin(800, 600, MAX_PHOTO_DIMENSION)).toEqual({ width: 800, height: 600 });
+    });
+  });
+
+  describe("getAttachmentPath", () => {
+    it("should place files under their session and observation", () => {
+      expect(getAttachmentPath("s1", "o1", "a1", "Voice Memo.WEBM")).toBe("s1/o1/a1.webm");
+      expect(getAttachmentPath("s1", "o1", "a2", "recording")).toBe("s1/o1/a2.bin");
+    });
+  });
+
+  describe("toAttachmentProgress", () => {
+    it("should cap reported bytes at the file size", () => {
+      expect(toAttachmentProgress(attachment(), 4096, "uploading")).toMatchObject({
+        id: "a1",
+        observation_id: "o1",
+        uploaded_bytes: 2048,
+        size: 2048,
+        status: "uploading",
+      });
+    });
+  });
+});
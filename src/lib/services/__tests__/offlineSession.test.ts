@@ -0,0 +1,223 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyPendingChanges,
+  countPendingChanges,
+  observationToFields,
+  planObservationChange,
+  resolveConflict,
+} from "../offlineSession";
+import type { ObservationWithDetails } from "../observations";
+import type { WasteType } from "@/types";
+import type { ObservationFields, OfflineMutation } from "@/types/offlineSync";
+
+const wasteType = (id: string): WasteType => ({
+  id,
+  code: id.toUpperCase(),
+  name: id,
+  description: "",
+  category: "core_lean",
+  digital_examples: [],
+  created_at: "",
+  updated_at: "",
+});
+
+const observation = (id: string, created_at: string, overrides: Partial<ObservationWithDetails> = {}) => ({
+  id,
+  session_id: "s1",
+  step_id: "step-a",
+  user_id: "u2",
+  is_digital: false,
+  is_physical: true,
+  frequency_score: 2,
+  impact_score: 2,
+  ease_score: 4,
+  priority_score: 8,
+  created_at,
+  updated_at: created_at,
+  waste_types: [wasteType("waiting")],
+  ...overrides,
+});
+
+const fields = (overrides: Partial<ObservationFields> = {}): ObservationFields => ({
+  step_id: "step-b",
+  notes: "Walks to printer",
+  is_digital: false,
+  is_physical: true,
+  frequency_score: 5,
+  impact_score: 4,
+  ease_score: 2,
+  time_lost_minutes: null,
+  waste_type_ids: ["motion"],
+  ...overrides,
+});
+
+const mutation = (
+  id: string,
+  op: OfflineMutation["op"],
+  entity_id: string,
+  created_at: string,
+  overrides: Partial<OfflineMutation> = {}
+): OfflineMutation => ({
+  id,
+  entity: "observation",
+  entity_id,
+  session_id: "s1",
+  op,
+  data: op === "delete" ? undefined : fields(),
+  base_updated_at: null,
+  created_at,
+  ...overrides,
+});
+
+const wasteTypes = [wasteType("waiting"), wasteType("motion")];
+const author = { id: "u1", name: "Field Walker", email: "walker@example.com" };
+
+describe("offlineSession service", () => {
+  describe("applyPendingChanges", () => {
+    it("should add queued observations newest first with their author and priority", () => {
+      const merged = applyPendingChanges(
+        [observation("o1", "2026-01-01T10:00:00Z")],
+        [mutation("m1", "create", "q1", "2026-01-02T10:00:00Z")],
+        wasteTypes,
+        author
+      );
+
+      expect(merged.map((o) => o.id)).toEqual(["q1", "o1"]);
+      expect(merged[0]).toMatchObject({
+        user_id: "u1",
+        user: author,
+        step_id: "step-b",
+        priority_score: 5 * 4 * (6 - 2),
+      });
+      expect(merged[0].waste_types?.map((w) => w.id)).toEqual(["motion"]);
+    });
+
+    it("should overlay queued edits and drop queued deletes", () => {
+      const merged = applyPendingChanges(
+        [observation("o1", "2026-01-01T10:00:00Z"), observation("o2", "2026-01-01T11:00:00Z")],
+        [
+          mutation("m1", "update", "o1", "2026-01-03T09:00:00Z", {
+            data: fields({
+              step_id: "step-a",
+              notes: "Longer than expected",
+              is_digital: true,
+              is_physical: false,
+              frequency_score: 5,
+              impact_score: 5,
+              ease_score: 1,
+              time_lost_minutes: 12,
+              waste_type_ids: ["waiting", "motion"],
+            }),
+          }),
+          mutation("m2", "delete", "o2", "2026-01-03T09:05:00Z"),
+        ],
+        wasteTypes
+      );
+
+      expect(merged).toHaveLength(1);
+      expect(merged[0]).toMatchObject({
+        id: "o1",
+        notes: "Longer than expected",
+        is_digital: true,
+        priority_score: 125,
+        time_lost_minutes: 12,
+        updated_at: "2026-01-03T09:00:00Z",
+        user_id: "u2",
+      });
+      expect(merged[0].waste_types?.map((w) => w.id)).toEqual(["waiting", "motion"]);
+    });
+
+    it("should not duplicate a queued create that already reached the server", () => {
+      const queue = [mutation("m1", "create", "q1", "2026-01-02T10:00:00Z")];
+      const merged = applyPendingChanges([observation("q1", "2026-01-02T10:00:00Z")], queue, wasteTypes);
+
+      expect(merged.map((o) => o.id)).toEqual(["q1"]);
+      expect(countPendingChanges(queue)).toBe(1);
+    });
+  });
+
+  describe("planObservationChange", () => {
+    it("should record the synced version an edit was made from", () => {
+      const original = observation("o1", "2026-01-01T10:00:00Z") as ObservationWithDetails;
+      const plan = planObservationChange([], {
+        op: "update",
+        observationId: "o1",
+        sessionId: "s1",
+        data: fields({ step_id: "step-a" }),
+        original,
+      });
+
+      expect(plan.remove).toEqual([]);
+      expect(plan.put[0]).toMatchObject({
+        op: "update",
+        entity_id: "o1",
+        base: observationToFields(original),
+        base_updated_at: "2026-01-01T10:00:00Z",
+      });
+    });
+
+    it("should fold edits and deletes into a queued create", () => {
+      const create = mutation("m1", "create", "q1", "2026-01-02T10:00:00Z");
+      const edited = planObservationChange([create], {
+        op: "update",
+        observationId: "q1",
+        sessionId: "s1",
+        data: fields({ notes: "Printer is on another floor" }),
+      });
+
+      expect(edited.put).toEqual([{ ...create, data: fields({ notes: "Printer is on another floor" }) }]);
+
+      const deleted = planObservationChange(edited.put, { op: "delete", observationId: "q1", sessionId: "s1" });
+      expect(deleted).toEqual({ put: [], remove: ["m1"] });
+    });
+
+    it("should turn a queued edit into a delete against the same base", () => {
+      const update = mutation("m1", "update", "o1", "2026-01-02T10:00:00Z", {
+        base: fields(),
+        base_updated_at: "2026-01-01T10:00:00Z",
+      });
+      const plan = planObservationChange([update], { op: "delete", observationId: "o1", sessionId: "s1" });
+
+      expect(plan.put).toHaveLength(1);
+      expect(plan.put[0]).toMatchObject({ id: "m1", op: "delete", base_updated_at: "2026-01-01T10:00:00Z" });
+      expect(plan.put[0].data).toBeUndefined();
+    });
+  });
+
+  describe("resolveConflict", () => {
+    const base = fields({ notes: "Walks to printer", frequency_score: 3 });
+    const mine = fields({ notes: "Walks to printer twice", frequency_score: 4 });
+    const server = fields({ notes: "Printer jammed", frequency_score: 3, ease_score: 1 });
+    const conflicted = mutation("m1", "update", "o1", "2026-01-02T10:00:00Z", {
+      data: mine,
+      base,
+      base_updated_at: "2026-01-01T10:00:00Z",
+      conflict: { server, server_updated_at: "2026-01-02T12:00:00Z", fields: ["notes"] },
+    });
+
+    it("should rebase per-field choices onto the server version", () => {
+      const settled = resolveConflict(conflicted, { notes: "merge" });
+
+      expect(settled?.conflict).toBeUndefined();
+      expect(settled?.base_updated_at).toBe("2026-01-02T12:00:00Z");
+      expect(settled?.data).toMatchObject({
+        notes: "Printer jammed\n\nWalks to printer twice",
+        frequency_score: 4,
+        ease_score: 1,
+      });
+    });
+
+    it("should drop the change when the server version wins", () => {
+      expect(resolveConflict(conflicted, "theirs")).toBeNull();
+    });
+
+    it("should recreate an observation deleted on the server when keeping mine", () => {
+      const settled = resolveConflict(
+        { ...conflicted, conflict: { server: null, server_updated_at: null, fields: [] } },
+        "mine"
+      );
+
+      expect(settled).toMatchObject({ op: "create", base_updated_at: null, data: mine });
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildParetoAnalysis,
+  getParetoBarFilters,
+  getParetoFocusHref,
+  getVitalFewFocus,
+  isInParetoFocus,
+  parseParetoFocus,
+  parseParetoOptions,
+  type ParetoFact,
+} from "../pareto";
+
+const waiting = { id: "wt-w", name: "Waiting", code: "W", color: "#FFAA00" };
+const defects = { id: "wt-d", name: "Defects", code: "D", color: null };
+const motion = { id: "wt-m", name: "Motion", code: "M", color: null };
+
+const fact = (id: string, overrides: Partial<ParetoFact> = {}): ParetoFact => ({
+  id,
+  stepId: "step-1",
+  stepName: "Review",
+  lane: "Billing",
+  priority: 10,
+  cost: 0,
+  wasteTypes: [waiting],
+  ...overrides,
+});
+
+const facts: ParetoFact[] = [
+  fact("o1"),
+  fact("o2"),
+  fact("o3"),
+  fact("o4", { wasteTypes: [waiting, defects], priority: 20 }),
+  fact("o5", { wasteTypes: [defects], stepId: "step-2", stepName: "Approve", lane: "Intake" }),
+  fact("o6", { wasteTypes: [motion], stepId: null, stepName: null, lane: "Handoffs", priority: 2 }),
+];
+
+describe("buildParetoAnalysis", () => {
+  it("ranks waste types by tag count with a cumulative line", () => {
+    const analysis = buildParetoAnalysis(facts, "waste_type", "count");
+    expect(analysis.bars.map((b) => [b.key, b.value, b.percentage, b.cumulativePercentage])).toEqual([
+      ["wt-w", 4, 57.1, 57.1],
+      ["wt-d", 2, 28.6, 85.7],
+      ["wt-m", 1, 14.3, 100],
+    ]);
+    expect(analysis.total).toBe(7);
+  });
+
+  it("keeps groups up to the one that crosses the cut-off as the vital few", () => {
+    const analysis = buildParetoAnalysis(facts, "waste_type", "count");
+    expect(analysis.bars.map((b) => b.isVitalFew)).toEqual([true, true, false]);
+    expect(analysis.vitalFewCount).toBe(2);
+    expect(analysis.vitalFewShare).toBe(85.7);
+
+    const strict = buildParetoAnalysis(facts, "waste_type", "count", { cutoff: 50 });
+    expect(strict.vitalFewCount).toBe(1);
+  });
+
+  it("splits priority between an observation's waste types", () => {
+    const analysis = buildParetoAnalysis(facts, "waste_type", "priority");
+    // Waiting: 10 + 10 + 10 + 20/2; Defects: 20/2 + 10
+    expect(analysis.bars.map((b) => [b.key, b.value])).toEqual([
+      ["wt-w", 40],
+      ["wt-d", 20],
+      ["wt-m", 2],
+    ]);
+  });
+
+  it("leaves handoffs out of steps and groups lanes by waste type", () => {
+    expect(buildParetoAnalysis(facts, "step", "count").bars.map((b) => [b.label, b.value])).toEqual([
+      ["Review", 4],
+      ["Approve", 1],
+    ]);
+    expect(buildParetoAnalysis(facts, "waste_type_lane", "count").bars.map((b) => b.label)).toEqual([
+      "W · Billing",
+      "D · Billing",
+      "D · Intake",
+      "M · Handoffs",
+    ]);
+  });
+
+  it("drops groups with no cost", () => {
+    const costed = facts.map((f) => ({ ...f, cost: f.id === "o5" ? 1000 : 0 }));
+    const analysis = buildParetoAnalysis(costed, "lane", "cost", { currency: "EUR" });
+    expect(analysis.bars.map((b) => [b.key, b.value, b.isVitalFew])).toEqual([["Intake", 1000, true]]);
+    expect(analysis.currency).toBe("EUR");
+  });
+
+  it("handles no observations", () => {
+    const analysis = buildParetoAnalysis([], "lane", "count");
+    expect(analysis).toMatchObject({ bars: [], total: 0, vitalFewCount: 0, vitalFewShare: 0 });
+  });
+});
+
+describe("getParetoBarFilters", () => {
+  it("narrows the filters to the bar", () => {
+    expect(getParetoBarFilters({ sessionIds: ["s1"] }, "step", "step-1")).toEqual({
+      sessionIds: ["s1"],
+      stepIds: ["step-1"],
+    });
+    expect(getParetoBarFilters({}, "waste_type_lane", "wt-w|Billing|East")).toEqual({
+      wasteTypeIds: ["wt-w"],
+      lanes: ["Billing|East"],
+    });
+  });
+});
+
+describe("synthesis hand-off", () => {
+  it("round-trips the vital few through the synthesis URL", () => {
+    const focus = getVitalFewFocus(buildParetoAnalysis(facts, "waste_type_lane", "count"));
+    const href = getParetoFocusHref("s1", focus);
+    expect(href.startsWith("/future-state/s1?stage=synthesis&pareto=waste_type_lane")).toBe(true);
+    expect(parseParetoFocus(new URL(href, "http://localhost").searchParams)).toEqual(focus);
+  });
+
+  it("ignores URLs without a usable focus", () => {
+    expect(parseParetoFocus(new URLSearchParams("stage=synthesis"))).toBeNull();
+    expect(parseParetoFocus(new URLSearchParams("pareto=bogus&key=a"))).toBeNull();
+    expect(parseParetoFocus(new URLSearchParams("pareto=lane"))).toBeNull();
+  });
+
+  it("selects observations in any focused group", () => {
+    const focus = { dimension: "waste_type" as const, keys: ["wt-d"] };
+    expect(facts.filter((f) => isInParetoFocus(f, focus)).map((f) => f.id)).toEqual(["o4", "o5"]);
+  });
+});
+
+describe("parseParetoOptions", () => {
+  it("falls back to waste types by count at 80%", () => {
+    expect(parseParetoOptions(new URLSearchParams("dimension=nope&measure=&cutoff=150"))).toEqual({
+      dimension: "waste_type",
+      measure: "count",
+      cutoff: 80,
+    });
+    expect(parseParetoOptions(new URLSearchParams("dimension=lane&measure=cost&cutoff=70"))).toEqual({
+      dimension: "lane",
+      measure: "cost",
+      cutoff: 70,
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildPortfolioWorkflow,
+  filterPortfolio,
+  getEffortLabel,
+  getImplementationRate,
+  parsePortfolioFilters,
+  rollUpByDepartment,
+  sortPortfolio,
+  toPortfolioSearchParams,
+  type PortfolioFilters,
+} from "../portfolio";
+
+const row = (id: string, overrides: Record<string, unknown> = {}) => ({
+  process_id: id,
+  process_name: `Workflow ${id}`,
+  department: "Finance",
+  owner_id: "u1",
+  owner_name: "Ada",
+  session_count: 2,
+  latest_session_id: `s-${id}`,
+  latest_session_name: "Q1 walk",
+  latest_session_status: "completed",
+  last_walk_at: "2026-03-01T09:00:00Z",
+  open_waste_count: 5,
+  open_waste_priority: "40.5",
+  solutions_accepted: 4,
+  solutions_implemented: 1,
+  avg_effort: "1.75",
+  addressed_priority: 30,
+  future_state_id: `fs-${id}`,
+  future_state_name: "Lean",
+  future_state_version: 2,
+  future_state_status: "published",
+  future_state_published_at: "2026-03-10T00:00:00Z",
+  ...overrides,
+});
+
+const never = {
+  session_count: 0,
+  latest_session_id: null,
+  last_walk_at: null,
+  open_waste_count: 0,
+  open_waste_priority: 0,
+  solutions_accepted: 0,
+  solutions_implemented: 0,
+  avg_effort: null,
+  future_state_id: null,
+};
+
+const workflows = [
+  buildPortfolioWorkflow(row("a")),
+  buildPortfolioWorkflow(row("b", { department: "  ", owner_id: "u2", open_waste_priority: 90, last_walk_at: "2026-01-15T09:00:00Z" })),
+  buildPortfolioWorkflow(row("c", { department: "Ops", ...never })),
+];
+
+describe("buildPortfolioWorkflow", () => {
+  it("reads numbers returned as strings and blank departments as none", () => {
+    expect(workflows[0]).toMatchObject({ openWastePriority: 40.5, avgEffort: 1.75 });
+    expect(workflows[0].futureState).toMatchObject({ version: 2, status: "published" });
+    expect(workflows[1].department).toBeNull();
+  });
+
+  it("leaves out what a workflow doesn't have yet", () => {
+    expect(workflows[2]).toMatchObject({ latestSession: null, futureState: null, avgEffort: null });
+  });
+});
+
+describe("portfolio figures", () => {
+  it("rates implementation against accepted solutions", () => {
+    expect(getImplementationRate(workflows[0])).toBe(25);
+    expect(getImplementationRate(workflows[2])).toBeNull();
+  });
+
+  it("labels average effort", () => {
+    expect(getEffortLabel(1.75)).toBe("Medium");
+    expect(getEffortLabel(1.2)).toBe("Low");
+    expect(getEffortLabel(null)).toBe("—");
+  });
+});
+
+describe("filterPortfolio", () => {
+  it("filters by owner and department, with Unassigned for none", () => {
+    expect(filterPortfolio(workflows, { ownerIds: ["u2"] }).map((w) => w.processId)).toEqual(["b"]);
+    expect(filterPortfolio(workflows, { departments: ["Unassigned"] }).map((w) => w.processId)).toEqual(["b"]);
+  });
+
+  it("filters by last walk and drops workflows never walked", () => {
+    const filters: PortfolioFilters = { lastWalkFrom: "2026-02-01", lastWalkTo: "2026-04-01" };
+    expect(filterPortfolio(workflows, filters).map((w) => w.processId)).toEqual(["a"]);
+    expect(filterPortfolio(workflows, { lastWalkTo: "2026-03-01" }).map((w) => w.processId)).toEqual(["b"]);
+  });
+});
+
+describe("rollUpByDepartment", () => {
+  it("sums workflows per department with unassigned last", () => {
+    const departments = rollUpByDepartment(workflows);
+    expect(departments.map((d) => [d.department, d.workflowCount, d.openWasteCount, d.publishedFutureStates])).toEqual([
+      ["Finance", 1, 5, 1],
+      ["Ops", 1, 0, 0],
+      ["Unassigned", 1, 5, 1],
+    ]);
+  });
+});
+
+describe("sortPortfolio", () => {
+  it("sorts either way and keeps missing values last", () => {
+    expect(sortPortfolio(workflows, "openWastePriority", "desc").map((w) => w.processId)).toEqual(["b", "a", "c"]);
+    expect(sortPortfolio(workflows, "lastWalk", "asc").map((w) => w.processId)).toEqual(["b", "a", "c"]);
+    expect(sortPortfolio(workflows, "lastWalk", "desc").map((w) => w.processId)).toEqual(["a", "b", "c"]);
+    expect(sortPortfolio(workflows, "department", "asc").map((w) => w.processId)).toEqual(["a", "c", "b"]);
+  });
+});
+
+describe("portfolio filters", () => {
+  it("round-trips through the query string and drops bad dates", () => {
+    const filters: PortfolioFilters = {
+      ownerIds: ["u1", "u2"],
+      departments: ["Finance"],
+      lastWalkFrom: "2026-01-01",
+      lastWalkTo: "2026-02-01",
+    };
+    expect(parsePortfolioFilters(toPortfolioSearchParams(filters))).toEqual(filters);
+    expect(parsePortfolioFilters(new URLSearchParams("from=soon&owner=,"))).toEqual({});
+  });
+});
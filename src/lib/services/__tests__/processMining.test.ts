@@ -0,0 +1,125 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/lib/supabase/client", () => ({
+  getSupabaseClient: () => ({
+    from: vi.fn(),
+    auth: { getUser: vi.fn() },
+  }),
+}));
+
+// Import after mocking
+import { parseEventLogCSV, parseXES, discoverProcess } from "../processMining";
+
+const EVENT_LOG_CSV = `Case ID;Activity;Start Timestamp;Timestamp;Resource;Role
+1;Submit request;2024-01-01T09:00:00Z;2024-01-01T09:10:00Z;ann;Requester
+1;Approve;2024-01-01T10:00:00Z;2024-01-01T10:30:00Z;bob;Finance
+1;Create PO;2024-01-01T11:00:00Z;2024-01-01T11:20:00Z;bob;Finance
+2;Submit request;2024-01-02T09:00:00Z;2024-01-02T09:20:00Z;cat;Requester
+2;Approve;2024-01-02T12:00:00Z;2024-01-02T12:10:00Z;dan;Finance
+2;Create PO;2024-01-02T13:00:00Z;2024-01-02T13:40:00Z;dan;Finance
+3;Submit request;2024-01-03T09:00:00Z;2024-01-03T09:10:00Z;ann;Requester
+3;Reject;2024-01-03T09:30:00Z;2024-01-03T09:40:00Z;bob;Finance
+4;Submit request;2024-01-04T09:00:00Z;2024-01-04T09:05:00Z;ann;Requester
+4;Approve;2024-01-04T09:30:00Z;2024-01-04T09:50:00Z;bob;Finance
+4;Create PO;2024-01-04T10:00:00Z;2024-01-04T10:10:00Z;bob;Finance
+bad row;;;;;
+`;
+
+const EVENT_LOG_XES = `<?xml version="1.0" encoding="UTF-8"?>
+<log xes.version="1.0">
+  <trace>
+    <string key="concept:name" value="T1"/>
+    <event>
+      <string key="concept:name" value="Open ticket"/>
+      <string key="lifecycle:transition" value="start"/>
+      <date key="time:timestamp" value="2024-01-01T08:00:00.000+00:00"/>
+      <string key="org:resource" value="Helpdesk"/>
+    </event>
+    <event>
+      <string key="concept:name" value="Open ticket"/>
+      <string key="lifecycle:transition" value="complete"/>
+      <date key="time:timestamp" value="2024-01-01T08:15:00.000+00:00"/>
+      <string key="org:resource" value="Helpdesk"/>
+    </event>
+    <event>
+      <string key="concept:name" value="Resolve"/>
+      <date key="time:timestamp" value="2024-01-01T09:15:00.000+00:00"/>
+      <string key="org:resource" value="Support"/>
+    </event>
+  </trace>
+</log>`;
+
+describe("processMining service", () => {
+  describe("parseEventLogCSV", () => {
+    it("should detect columns and group events into cases", () => {
+      const result = parseEventLogCSV(EVENT_LOG_CSV);
+
+      expect(result.valid).toBe(true);
+      expect(result.log!.cases).toHaveLength(4);
+      expect(result.log!.cases[2].activities.map((a) => a.activity)).toEqual([
+        "Submit request",
+        "Reject",
+      ]);
+      expect(result.warnings[0].message).toContain("1 row skipped");
+    });
+
+    it("should report missing required columns", () => {
+      const result = parseEventLogCSV("ticket,when\n1,2024-01-01");
+
+      expect(result.valid).toBe(false);
+      expect(result.errors.map((e) => e.field)).toEqual(["activity", "timestamp"]);
+    });
+  });
+
+  describe("parseXES", () => {
+    it("should merge start and complete lifecycle events", () => {
+      const result = parseXES(EVENT_LOG_XES);
+
+      expect(result.valid).toBe(true);
+      const [open, resolve] = result.log!.cases[0].activities;
+      expect(open.end.getTime() - open.start!.getTime()).toBe(15 * 60000);
+      expect(resolve.resource).toBe("Support");
+    });
+  });
+
+  describe("discoverProcess", () => {
+    const log = parseEventLogCSV(EVENT_LOG_CSV).log!;
+
+    it("should build steps, lanes and timings from the directly-follows graph", () => {
+      const result = discoverProcess(log, { frequencyThreshold: 0, name: "Procurement" });
+
+      expect(result.valid).toBe(true);
+      expect(result.data!.steps.map((s) => [s.name, s.lane, s.type])).toEqual([
+        ["Start", "Requester", "start"],
+        ["Submit request", "Requester", "action"],
+        ["Approve", "Finance", "action"],
+        ["Create PO", "Finance", "action"],
+        ["Reject", "Finance", "action"],
+        ["End", "Finance", "end"],
+      ]);
+
+      const approve = result.data!.steps.find((s) => s.name === "Approve")!;
+      expect(approve.cycle_time_minutes).toBe(20); // median of 30, 10, 20
+      expect(approve.lead_time_minutes).toBe(80); // median of 80, 170, 45
+
+      expect(result.data!.connections).toContainEqual({
+        from: "mined-1",
+        to: "mined-2",
+        label: "3 cases",
+      });
+      expect(result.stats!.variants[0]).toEqual({
+        activities: ["Submit request", "Approve", "Create PO"],
+        count: 3,
+        share: 0.75,
+      });
+    });
+
+    it("should filter infrequent activities as noise", () => {
+      const result = discoverProcess(log, { frequencyThreshold: 0.5 });
+
+      expect(result.data!.steps.map((s) => s.name)).not.toContain("Reject");
+      expect(result.stats!.keptActivityCount).toBe(3);
+      expect(result.warnings[0].message).toContain("1 infrequent activity was filtered out");
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from "vitest";
+import {
+  analyzeProcessTiming,
+  resolveBranchProbabilities,
+  getFutureStateTimingModel,
+  type TimingModel,
+} from "../processTiming";
+
+const step = (
+  id: string,
+  step_type: TimingModel["steps"][number]["step_type"],
+  lead?: number,
+  cycle?: number
+) => ({ id, step_type, lead_time_minutes: lead, cycle_time_minutes: cycle });
+
+const link = (source: string, target: string, branch_probability?: number | null) => ({
+  source_step_id: source,
+  target_step_id: target,
+  branch_probability,
+});
+
+// start → submit → review ─(80%)→ approve → end
+//                        └─(20%)→ escalate → approve
+const model: TimingModel = {
+  steps: [
+    step("start", "start"),
+    step("submit", "action", 30, 10),
+    step("review", "decision", 60, 15),
+    step("approve", "action", 120, 20),
+    step("escalate", "action", 600, 30),
+    step("end", "end"),
+  ],
+  connections: [
+    link("start", "submit"),
+    link("submit", "review"),
+    link("review", "approve", 0.8),
+    link("review", "escalate", 0.2),
+    link("escalate", "approve"),
+    link("approve", "end"),
+  ],
+};
+
+describe("processTiming service", () => {
+  describe("analyzeProcessTiming", () => {
+    it("should weight decision branches by probability", () => {
+      const result = analyzeProcessTiming(model);
+
+      expect(result.expectedVisits.escalate).toBeCloseTo(0.2);
+      expect(result.expectedVisits.approve).toBeCloseTo(1);
+      expect(result.leadTimeMinutes).toBeCloseTo(30 + 60 + 120 + 0.2 * 600);
+      expect(result.touchTimeMinutes).toBeCloseTo(10 + 15 + 20 + 0.2 * 30);
+      expect(result.pce).toBeCloseTo(51 / 330);
+      expect(result.hasUnboundedLoop).toBe(false);
+    });
+
+    it("should follow the longest branch for the critical path", () => {
+      const { criticalPath } = analyzeProcessTiming(model);
+
+      expect(criticalPath.stepIds).toEqual(["start", "submit", "review", "escalate", "approve", "end"]);
+      expect(criticalPath.edgeKeys).toContain("review-escalate");
+      expect(criticalPath.leadTimeMinutes).toBe(810);
+      expect(criticalPath.touchTimeMinutes).toBe(75);
+    });
+
+    it("should count rework loops by expected visits but not on the critical path", () => {
+      const result = analyzeProcessTiming({
+        steps: [step("start", "start"), step("fix", "action", 40, 10), step("check", "decision", 20, 5), step("end", "end")],
+        connections: [link("start", "fix"), link("fix", "check"), link("check", "fix", 0.25), link("check", "end")],
+      });
+
+      expect(result.expectedVisits.fix).toBeCloseTo(4 / 3);
+      expect(result.leadTimeMinutes).toBeCloseTo((4 / 3) * 60);
+      expect(result.criticalPath.stepIds).toEqual(["start", "fix", "check", "end"]);
+    });
+
+    it("should flag work steps without times and steps that cannot be reached", () => {
+      const result = analyzeProcessTiming({
+        steps: [step("start", "start"), step("a", "action"), step("orphan", "action", 5, 5), step("end", "end")],
+        connections: [link("start", "a"), link("a", "end"), link("orphan", "orphan")],
+      });
+
+      expect(result.stepsMissingTimes).toEqual(["a"]);
+      expect(result.unreachableStepIds).toEqual(["orphan"]);
+      expect(result.pce).toBeNull();
+    });
+  });
+
+  describe("resolveBranchProbabilities", () => {
+    it("should split the remainder across unset branches and normalize totals", () => {
+      expect(
+        resolveBranchProbabilities([link("d", "a", 0.5), link("d", "b"), link("d", "c")])
+      ).toEqual({ "d-a": 0.5, "d-b": 0.25, "d-c": 0.25 });
+      expect(resolveBranchProbabilities([link("d", "a", 0.6), link("d", "b", 0.6)])).toEqual({
+        "d-a": 0.5,
+        "d-b": 0.5,
+      });
+    });
+  });
+
+  describe("getFutureStateTimingModel", () => {
+    it("should drop removed nodes and their edges", () => {
+      const timingModel = getFutureStateTimingModel(
+        [
+          { id: "n1", step_type: "start", action: "keep" },
+          { id: "n2", step_type: "action", action: "remove", lead_time_minutes: 60 },
+          { id: "n3", step_type: "end", action: "keep" },
+        ],
+        [
+          { source_node_id: "n1", target_node_id: "n2" },
+          { source_node_id: "n2", target_node_id: "n3" },
+          { source_node_id: "n1", target_node_id: "n3", branch_probability: 1 },
+        ]
+      );
+
+      expect(timingModel.steps.map((s) => s.id)).toEqual(["n1", "n3"]);
+      expect(timingModel.connections).toEqual([
+        { source_step_id: "n1", target_step_id: "n3", branch_probability: 1 },
+      ]);
+    });
+  });
+});
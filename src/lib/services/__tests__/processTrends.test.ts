@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildProcessTrend,
+  computeControlLimits,
+  countPointsBefore,
+  detectControlSignals,
+  getWasteTypeValues,
+  RUN_LENGTH,
+} from "../processTrends";
+
+const session = (id: string, date: string, observations: number, digital = 0, priority = 10) => ({
+  session_id: id,
+  session_name: `Session ${id}`,
+  session_date: date,
+  observation_count: observations,
+  avg_priority: priority,
+  digital_count: digital,
+});
+
+describe("computeControlLimits", () => {
+  it("sets limits at the mean plus or minus 2.66 average moving ranges", () => {
+    const limits = computeControlLimits([10, 12, 11, 13]);
+    // Moving ranges 2, 1, 2
+    expect(limits).toEqual({
+      mean: 11.5,
+      averageMovingRange: 1.67,
+      upper: 15.93,
+      lower: 7.07,
+      baselineSize: 4,
+    });
+  });
+
+  it("keeps limits within the metric's bounds", () => {
+    const limits = computeControlLimits([2, 20, 4], { min: 0, max: 20 });
+    expect(limits?.lower).toBe(0);
+    expect(limits?.upper).toBe(20);
+  });
+
+  it("needs at least two values", () => {
+    expect(computeControlLimits([5])).toBeNull();
+    expect(computeControlLimits([])).toBeNull();
+  });
+});
+
+describe("detectControlSignals", () => {
+  it("flags points beyond the limits", () => {
+    const limits = computeControlLimits([10, 12, 11, 13]);
+    expect(detectControlSignals([10, 12, 3, 20], limits)).toEqual([
+      { index: 2, rule: "outside_limits" },
+      { index: 3, rule: "outside_limits" },
+    ]);
+  });
+
+  it("flags a run of points on one side of the mean", () => {
+    const limits = { mean: 10, averageMovingRange: 5, upper: 100, lower: 0, baselineSize: 4 };
+    const values = [12, ...Array(RUN_LENGTH).fill(8), 12];
+    const signals = detectControlSignals(values, limits);
+    expect(signals.map((s) => s.index)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    expect(signals.every((s) => s.rule === "run")).toBe(true);
+  });
+
+  it("ignores shorter runs and missing limits", () => {
+    const limits = { mean: 10, averageMovingRange: 5, upper: 100, lower: 0, baselineSize: 4 };
+    expect(detectControlSignals(Array(RUN_LENGTH - 1).fill(8), limits)).toEqual([]);
+    expect(detectControlSignals([1, 2, 3], null)).toEqual([]);
+  });
+});
+
+describe("buildProcessTrend", () => {
+  const trend = buildProcessTrend(
+    "p1",
+    [session("s2", "2026-04-01T09:00:00Z", 4, 1), session("s1", "2026-01-01T09:00:00Z", 8, 4)],
+    [
+      { session_id: "s1", waste_type_id: "wt-w", name: "Waiting", code: "W", color: null, count: 5 },
+      { session_id: "s2", waste_type_id: "wt-w", name: "Waiting", code: "W", color: null, count: 1 },
+      { session_id: "s2", waste_type_id: "wt-d", name: "Defects", code: "D", color: "#FF0000", count: 2 },
+    ],
+    {
+      futureStates: [{ id: "fs1", name: "Lean intake", version: 2, published_at: "2026-02-15T00:00:00Z" }],
+      waves: [{ id: "w1", name: "Wave 1", completed_at: "2026-01-20T00:00:00Z" }],
+    }
+  );
+
+  it("orders sessions by date with digital share as a percentage", () => {
+    expect(trend.points.map((p) => [p.sessionId, p.observationCount, p.digitalShare])).toEqual([
+      ["s1", 8, 50],
+      ["s2", 4, 25],
+    ]);
+  });
+
+  it("counts waste types per session, zero when absent", () => {
+    expect(trend.wasteTypes.map((w) => [w.code, w.total, w.color])).toEqual([
+      ["W", 6, "#6B7280"],
+      ["D", 2, "#FF0000"],
+    ]);
+    expect(getWasteTypeValues(trend.points, "wt-d")).toEqual([0, 2]);
+  });
+
+  it("labels improvements in date order", () => {
+    expect(trend.annotations.map((a) => [a.kind, a.label])).toEqual([
+      ["wave_completed", "Completed Wave 1"],
+      ["future_state_published", "Published Lean intake v2"],
+    ]);
+    expect(countPointsBefore(trend.points, trend.annotations[1].date)).toBe(1);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import {
+  analyzeRaterAgreement,
+  scoreAgreement,
+  summarizeAgreement,
+  type AgreementObservation,
+} from "../raterAgreement";
+import type { ScoringModelDefinition } from "../scoringModel";
+
+const defects = { id: "wt-d", name: "Defects", code: "D" };
+const waiting = { id: "wt-w", name: "Waiting", code: "W" };
+
+const obs = (
+  id: string,
+  userId: string,
+  stepId: string,
+  [frequency, impact, ease]: [number, number, number],
+  wasteTypes = [defects]
+): AgreementObservation => ({
+  id,
+  step_id: stepId,
+  user_id: userId,
+  user: { name: userId.toUpperCase() },
+  frequency_score: frequency,
+  impact_score: impact,
+  ease_score: ease,
+  waste_types: wasteTypes,
+});
+
+describe("scoreAgreement", () => {
+  it("is 1 when raters give identical scores", () => {
+    expect(scoreAgreement([3, 3, 3])).toBe(1);
+  });
+
+  it("drops with the raters' variance against a uniform null", () => {
+    // Sample variance 0.5 over uniform variance 2
+    expect(scoreAgreement([3, 4])).toBe(0.75);
+  });
+
+  it("never goes below zero", () => {
+    expect(scoreAgreement([1, 5])).toBe(0);
+  });
+
+  it("measures against the dimension's own scale", () => {
+    // Uniform variance on 0-10 is (11² - 1) / 12 = 10
+    expect(scoreAgreement([3, 4], { min: 0, max: 10 })).toBe(0.95);
+  });
+});
+
+describe("analyzeRaterAgreement", () => {
+  it("groups by step and waste type and skips single-rater groups", () => {
+    const groups = analyzeRaterAgreement([
+      obs("o1", "ann", "verify", [4, 4, 2]),
+      obs("o2", "bob", "verify", [4, 4, 2], [defects, waiting]),
+      obs("o3", "ann", "chart", [3, 3, 3]),
+    ]);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].key).toBe("verify:wt-d");
+    expect(groups[0].agreement).toBe(1);
+    expect(groups[0].disagreement).toBe(false);
+  });
+
+  it("averages a rater's repeat observations before comparing", () => {
+    const [group] = analyzeRaterAgreement([
+      obs("o1", "ann", "verify", [2, 4, 2]),
+      obs("o2", "ann", "verify", [4, 4, 2]),
+      obs("o3", "bob", "verify", [3, 4, 2]),
+    ]);
+
+    const ann = group.raters.find((r) => r.userId === "ann")!;
+    expect(ann.scores.frequency).toBe(3);
+    expect(ann.observationIds).toEqual(["o1", "o2"]);
+    expect(group.spread.frequency.agreement).toBe(1);
+  });
+
+  it("flags the weakest dimension and sorts disagreements first", () => {
+    const groups = analyzeRaterAgreement([
+      obs("o1", "ann", "verify", [3, 1, 3]),
+      obs("o2", "bob", "verify", [3, 5, 3]),
+      obs("o3", "ann", "chart", [3, 3, 3]),
+      obs("o4", "bob", "chart", [3, 3, 4]),
+    ]);
+
+    expect(groups.map((g) => g.stepId)).toEqual(["verify", "chart"]);
+    expect(groups[0].weakestDimension).toBe("impact");
+    expect(groups[0].spread.impact).toMatchObject({ min: 1, max: 5, standardDeviation: 2 });
+    expect(groups[0].disagreement).toBe(true);
+    expect(groups[1].disagreement).toBe(false);
+
+    expect(summarizeAgreement(groups)).toEqual({
+      groupsCompared: 2,
+      groupsFlagged: 1,
+      stepsFlagged: ["verify"],
+      meanAgreement: 0.38,
+    });
+  });
+
+  it("compares the dimensions of the session's scoring model", () => {
+    const model: ScoringModelDefinition = {
+      name: "Risk",
+      dimensions: [
+        { key: "risk", label: "Risk", min: 0, max: 10, weight: 1 },
+        { key: "cost", label: "Cost", min: 1, max: 3, weight: 1 },
+      ],
+      formula: null,
+    };
+    const [group] = analyzeRaterAgreement(
+      [
+        { ...obs("o1", "ann", "verify", [3, 3, 3]), scores: { risk: 8, cost: 1 } },
+        { ...obs("o2", "bob", "verify", [3, 3, 3]), scores: { risk: 7, cost: 3 } },
+      ],
+      model
+    );
+
+    expect(Object.keys(group.spread)).toEqual(["risk", "cost"]);
+    expect(group.raters.find((r) => r.userId === "ann")?.scores).toEqual({ risk: 8, cost: 1 });
+    expect(group.spread.risk.agreement).toBe(0.95);
+    expect(group.weakestDimension).toBe("cost");
+    expect(group.disagreement).toBe(true);
+  });
+});
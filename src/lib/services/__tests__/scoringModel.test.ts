@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_SCORING_MODEL,
+  calculatePriority,
+  getLegacyScores,
+  getObservationScores,
+  parseFormula,
+  rescaleScores,
+  validateScoringModel,
+  type ScoringModelDefinition,
+} from "../scoringModel";
+
+const safetyModel: ScoringModelDefinition = {
+  name: "Risk score",
+  dimensions: [
+    { key: "frequency", label: "Frequency", min: 1, max: 10, weight: 1 },
+    { key: "safety", label: "Safety", min: 0, max: 4, weight: 3 },
+    { key: "customer", label: "Customer Impact", min: 0, max: 4, weight: 2 },
+  ],
+  formula: null,
+};
+
+describe("parseFormula", () => {
+  it("rejects unknown dimensions and functions", () => {
+    expect(() => parseFormula("frequency * cost", ["frequency"])).toThrow('Unknown dimension "cost"');
+    expect(() => parseFormula("sqrt(frequency)", ["frequency"])).toThrow('Unknown function "sqrt"');
+  });
+
+  it("rejects unbalanced or trailing input", () => {
+    expect(() => parseFormula("(frequency * 2", ["frequency"])).toThrow('Expected ")"');
+    expect(() => parseFormula("frequency 2", ["frequency"])).toThrow('Unexpected "2"');
+    expect(() => parseFormula("frequency ^ 2", ["frequency"])).toThrow('Unexpected "^"');
+  });
+});
+
+describe("calculatePriority", () => {
+  it("matches the original formula with the default model", () => {
+    const scores = { frequency: 4, impact: 5, ease: 2 };
+    expect(calculatePriority(DEFAULT_SCORING_MODEL, scores)).toBe(4 * 5 * (6 - 2));
+  });
+
+  it("uses the weighted sum when there is no formula", () => {
+    expect(calculatePriority(safetyModel, { frequency: 6, safety: 4, customer: 1 })).toBe(6 + 12 + 2);
+  });
+
+  it("supports functions, precedence and weighted_sum in formulas", () => {
+    const model = { ...safetyModel, formula: "max(safety, customer) * 2 + weighted_sum / 4" };
+    expect(calculatePriority(model, { frequency: 2, safety: 1, customer: 3 })).toBe(3 * 2 + (2 + 3 + 6) / 4);
+  });
+
+  it("clamps scores to the dimension's scale", () => {
+    expect(calculatePriority(safetyModel, { frequency: 40, safety: -2, customer: 0 })).toBe(10);
+  });
+});
+
+describe("getObservationScores", () => {
+  it("falls back to legacy columns, then the middle of the scale", () => {
+    const scores = getObservationScores(safetyModel, { frequency_score: 3, scores: { customer: 4 } });
+    expect(scores).toEqual({ frequency: 3, safety: 2, customer: 4 });
+  });
+});
+
+describe("rescaleScores", () => {
+  it("keeps each score's position when a scale changes", () => {
+    const to = {
+      ...safetyModel,
+      dimensions: safetyModel.dimensions.map((d) => (d.key === "safety" ? { ...d, min: 1, max: 10 } : d)),
+    };
+    expect(rescaleScores(safetyModel, to, { frequency: 7, safety: 2, customer: 4, retired: 3 })).toEqual({
+      frequency: 7,
+      safety: 6,
+      customer: 4,
+      retired: 3,
+    });
+  });
+});
+
+describe("getLegacyScores", () => {
+  it("rescales matching dimensions to 1-5 and defaults the rest to 3", () => {
+    expect(getLegacyScores(safetyModel, { frequency: 10, safety: 4, customer: 0 })).toEqual({
+      frequency_score: 5,
+      impact_score: 3,
+      ease_score: 3,
+    });
+  });
+});
+
+describe("validateScoringModel", () => {
+  it("accepts the default model", () => {
+    expect(validateScoringModel(DEFAULT_SCORING_MODEL)).toEqual([]);
+  });
+
+  it("reports bad keys, scales, weights and formulas", () => {
+    const errors = validateScoringModel({
+      dimensions: [
+        { key: "Safety", label: "Safety", min: 1, max: 5, weight: 1 },
+        { key: "cost", label: "Cost", min: 5, max: 1, weight: -1 },
+        { key: "cost", label: "Cost again", min: 1, max: 5, weight: 1 },
+      ],
+      formula: "cost * (",
+    });
+
+    expect(errors).toEqual([
+      "Safety: key must start with a letter and use lowercase letters, digits or _",
+      "Cost: scale must be whole numbers with min below max",
+      "Cost: weight must be 0 or more",
+      'Cost again: key "cost" is used twice',
+      "Formula ends unexpectedly",
+    ]);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildDefaultAgenda,
+  formatCountdown,
+  getCurrentPhase,
+  getLaneTaggingState,
+  getNextPhase,
+  getPhaseRemainingSeconds,
+  summarizePhaseTimes,
+} from "../sessionAgenda";
+import type { SessionPhase } from "@/types";
+
+const phase = (
+  id: string,
+  position: number,
+  overrides: Partial<SessionPhase> = {}
+): SessionPhase => ({
+  id,
+  session_id: "s1",
+  position,
+  name: id,
+  planned_minutes: 10,
+  tagging_enabled: true,
+  lanes: null,
+  started_at: null,
+  ended_at: null,
+  elapsed_seconds: 0,
+  created_at: "2026-01-10T08:00:00.000Z",
+  updated_at: "2026-01-10T08:00:00.000Z",
+  ...overrides,
+});
+
+const phases = [
+  phase("Briefing", 0, {
+    tagging_enabled: false,
+    started_at: "2026-01-10T09:00:00.000Z",
+    ended_at: "2026-01-10T09:12:00.000Z",
+    elapsed_seconds: 720,
+  }),
+  phase("Walk: Billing", 1, {
+    planned_minutes: 15,
+    lanes: ["Billing"],
+    started_at: "2026-01-10T09:12:00.000Z",
+  }),
+  phase("Debrief", 2, { tagging_enabled: false }),
+];
+
+describe("buildDefaultAgenda", () => {
+  it("walks each lane between the briefing and scoring", () => {
+    expect(buildDefaultAgenda(["Front Desk", "Billing"]).map((p) => [p.name, p.lanes, p.tagging_enabled])).toEqual([
+      ["Briefing", null, false],
+      ["Walk: Front Desk", ["Front Desk"], true],
+      ["Walk: Billing", ["Billing"], true],
+      ["Scoring", null, true],
+      ["Debrief", null, false],
+    ]);
+  });
+});
+
+describe("phase clock", () => {
+  it("finds the running phase and the one after it", () => {
+    const current = getCurrentPhase(phases);
+    expect(current?.id).toBe("Walk: Billing");
+    expect(getNextPhase(phases, current)?.id).toBe("Debrief");
+    expect(getNextPhase(phases.slice(0, 2), current)).toBeNull();
+  });
+
+  it("counts down from the server start time and goes negative on overrun", () => {
+    const walk = phases[1];
+    expect(getPhaseRemainingSeconds(walk, new Date("2026-01-10T09:20:30.000Z"))).toBe(390);
+    expect(formatCountdown(390)).toBe("6:30");
+    expect(formatCountdown(getPhaseRemainingSeconds(walk, new Date("2026-01-10T09:28:05.000Z")))).toBe("-1:05");
+  });
+});
+
+describe("getLaneTaggingState", () => {
+  it("opens only the phase's lanes", () => {
+    expect(getLaneTaggingState(phases, "Billing")).toEqual({ allowed: true });
+    expect(getLaneTaggingState(phases, "Pharmacy")).toEqual({
+      allowed: false,
+      reason: "Walk: Billing is open for Billing only.",
+    });
+  });
+
+  it("locks every lane when the phase pauses tagging, and nothing without a running phase", () => {
+    const debrief = phases.map((p) =>
+      p.id === "Walk: Billing"
+        ? { ...p, ended_at: "2026-01-10T09:30:00.000Z" }
+        : p.id === "Debrief"
+          ? { ...p, started_at: "2026-01-10T09:30:00.000Z" }
+          : p
+    );
+    expect(getLaneTaggingState(debrief, "Billing").allowed).toBe(false);
+    expect(getLaneTaggingState([phase("Briefing", 0, { tagging_enabled: false })], "Billing").allowed).toBe(true);
+  });
+});
+
+describe("summarizePhaseTimes", () => {
+  it("compares planned and actual minutes, counting the running phase up to now", () => {
+    const summary = summarizePhaseTimes(phases, new Date("2026-01-10T09:30:00.000Z"));
+    expect(summary.phases.map((p) => [p.name, p.actualMinutes, p.varianceMinutes, p.isRunning])).toEqual([
+      ["Briefing", 12, 2, false],
+      ["Walk: Billing", 18, 3, true],
+      ["Debrief", null, null, false],
+    ]);
+    expect(summary.plannedMinutes).toBe(35);
+    expect(summary.actualMinutes).toBe(30);
+  });
+
+  it("adds a restarted phase's new run to the time already spent", () => {
+    const restarted = phase("Scoring", 0, {
+      planned_minutes: 20,
+      started_at: "2026-01-10T10:00:00.000Z",
+      elapsed_seconds: 900,
+    });
+    const now = new Date("2026-01-10T10:08:00.000Z");
+
+    expect(getPhaseRemainingSeconds(restarted, now)).toBe(20 * 60 - 900 - 480);
+    expect(summarizePhaseTimes([restarted], now).phases[0]).toMatchObject({ actualMinutes: 23, varianceMinutes: 3 });
+  });
+});
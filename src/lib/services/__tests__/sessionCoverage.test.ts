@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import { summarizeCoverage } from "../sessionCoverage";
+import type { ProcessStep } from "@/types";
+
+const step = (id: string, lane: string, order: number, type: ProcessStep["step_type"] = "action") => ({
+  id,
+  step_name: id.toUpperCase(),
+  lane,
+  step_type: type,
+  order_index: order,
+});
+
+const steps = [
+  step("start", "Front Desk", 0, "start"),
+  step("a", "Front Desk", 1),
+  step("b", "Front Desk", 2),
+  step("c", "Billing", 3),
+  step("d", "Billing", 4),
+  step("e", "Pharmacy", 5),
+];
+
+const observations = [
+  { step_id: "a", user_id: "u1", created_at: "2026-01-10T09:00:00.000Z" },
+  { step_id: "a", user_id: "u1", created_at: "2026-01-10T09:20:00.000Z" },
+  { step_id: "b", user_id: "u2", created_at: "2026-01-10T09:10:00.000Z" },
+  { step_id: "c", user_id: "u1", created_at: "2026-01-10T08:30:00.000Z" },
+  { step_id: null, user_id: "u3", created_at: "2026-01-10T09:25:00.000Z" },
+];
+
+const participants = [
+  { user_id: "fac", name: "Facilitator" },
+  { user_id: "u1", name: "Ana" },
+  { user_id: "u2", name: "Ben" },
+  { user_id: "u4", name: "Chidi" },
+];
+
+const coverage = summarizeCoverage({
+  steps,
+  observations,
+  participants,
+  excludeUserIds: ["fac"],
+  now: new Date("2026-01-10T09:30:00.000Z"),
+});
+
+describe("summarizeCoverage", () => {
+  it("lists uncovered and thinly covered steps, leaving out start and end", () => {
+    expect(coverage.uncoveredSteps.map((s) => s.stepId)).toEqual(["d", "e"]);
+    expect(coverage.sparseSteps.map((s) => s.stepId)).toEqual(["b", "c"]);
+    expect(coverage.coveragePercent).toBe(60);
+  });
+
+  it("orders lanes least covered first with time since their last observation", () => {
+    expect(coverage.lanes).toEqual([
+      {
+        lane: "Pharmacy",
+        stepCount: 1,
+        coveredStepCount: 0,
+        observationCount: 0,
+        lastObservationAt: null,
+        minutesSinceLast: null,
+      },
+      {
+        lane: "Billing",
+        stepCount: 2,
+        coveredStepCount: 1,
+        observationCount: 1,
+        lastObservationAt: "2026-01-10T08:30:00.000Z",
+        minutesSinceLast: 60,
+      },
+      {
+        lane: "Front Desk",
+        stepCount: 2,
+        coveredStepCount: 2,
+        observationCount: 3,
+        lastObservationAt: "2026-01-10T09:20:00.000Z",
+        minutesSinceLast: 10,
+      },
+    ]);
+  });
+
+  it("flags participants who have not contributed, without the facilitator", () => {
+    expect(coverage.participants.map((p) => [p.name, p.observationCount])).toEqual([
+      ["Ana", 3],
+      ["Ben", 1],
+      ["Chidi", 0],
+    ]);
+    expect(coverage.silentParticipants.map((p) => p.userId)).toEqual(["u4"]);
+  });
+});
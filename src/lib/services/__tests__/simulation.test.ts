@@ -0,0 +1,115 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/lib/supabase/client", () => ({
+  getSupabaseClient: () => ({
+    from: vi.fn(),
+    auth: { getUser: vi.fn() },
+  }),
+}));
+
+// Import after mocking
+import {
+  simulateProcess,
+  getSuggestedCasesPerDay,
+  getFutureStateSimulationModel,
+  type SimulationModel,
+} from "../simulation";
+import type { FutureStateNode } from "@/types";
+
+// start → intake (Clerk, 30/10) → review (Manager, 90/30) → end
+const model: SimulationModel = {
+  steps: [
+    { id: "start", name: "Start", step_type: "start", lane: "Clerk" },
+    { id: "intake", name: "Intake", step_type: "action", lane: "Clerk", lead_time_minutes: 30, cycle_time_minutes: 10 },
+    { id: "review", name: "Review", step_type: "action", lane: "Manager", lead_time_minutes: 90, cycle_time_minutes: 30 },
+    { id: "end", name: "End", step_type: "end", lane: "Manager" },
+  ],
+  connections: [
+    { source_step_id: "start", target_step_id: "intake" },
+    { source_step_id: "intake", target_step_id: "review" },
+    { source_step_id: "review", target_step_id: "end" },
+  ],
+  laneCapacity: { Clerk: 1, Manager: 1 },
+};
+
+describe("simulation service", () => {
+  describe("simulateProcess", () => {
+    it("should match the mapped lead time when nothing queues", () => {
+      const result = simulateProcess(model, { casesPerDay: 0.05, variability: 0, replications: 2, caseCount: 50 });
+
+      expect(result.completedCases).toBe(100);
+      expect(result.leadTime.p50).toBeCloseTo(120);
+      expect(result.leadTime.p95).toBeCloseTo(120);
+      expect(result.steps.find((s) => s.stepId === "review")!.avgQueueWaitMinutes).toBeLessThan(1);
+    });
+
+    it("should be repeatable for the same seed", () => {
+      const first = simulateProcess(model, { casesPerDay: 12, seed: 7 });
+      const second = simulateProcess(model, { casesPerDay: 12, seed: 7 });
+
+      expect(second.leadTime).toEqual(first.leadTime);
+    });
+
+    it("should build queues at a busy lane and relieve them with more people", () => {
+      const busy = simulateProcess(model, { casesPerDay: 15 });
+      const staffed = simulateProcess({ ...model, laneCapacity: { Clerk: 1, Manager: 2 } }, { casesPerDay: 15 });
+
+      const busyReview = busy.steps.find((s) => s.stepId === "review")!;
+      const staffedReview = staffed.steps.find((s) => s.stepId === "review")!;
+      expect(busyReview.avgQueueLength).toBeGreaterThan(staffedReview.avgQueueLength);
+      expect(busy.leadTime.p80).toBeGreaterThan(staffed.leadTime.p80);
+
+      const manager = busy.lanes.find((l) => l.lane === "Manager")!;
+      expect(manager.utilization).toBeGreaterThan(0.8);
+      expect(manager.utilization).toBeLessThanOrEqual(1);
+    });
+
+    it("should route cases by branch probability", () => {
+      const result = simulateProcess(
+        {
+          ...model,
+          steps: [
+            ...model.steps,
+            { id: "escalate", name: "Escalate", step_type: "action", lane: "Manager", lead_time_minutes: 60, cycle_time_minutes: 20 },
+          ],
+          connections: [
+            ...model.connections.filter((c) => c.source_step_id !== "intake"),
+            { source_step_id: "intake", target_step_id: "review", branch_probability: 0.75 },
+            { source_step_id: "intake", target_step_id: "escalate", branch_probability: 0.25 },
+            { source_step_id: "escalate", target_step_id: "end" },
+          ],
+        },
+        { casesPerDay: 2 }
+      );
+
+      expect(result.steps.find((s) => s.stepId === "escalate")!.visitsPerCase).toBeCloseTo(0.25, 1);
+    });
+  });
+
+  describe("getSuggestedCasesPerDay", () => {
+    it("should keep the busiest lane near 70% utilization", () => {
+      // Manager works 30 minutes per case: 0.7 × 480 / 30 = 11.2 cases per day
+      expect(getSuggestedCasesPerDay(model)).toBe(11.2);
+    });
+  });
+
+  describe("getFutureStateSimulationModel", () => {
+    it("should drop removed nodes and reuse lane capacity by name", () => {
+      const node = (id: string, action: FutureStateNode["action"]) =>
+        ({ id, name: id, lane: "Manager", step_type: "action", action }) as FutureStateNode;
+
+      const future = getFutureStateSimulationModel(
+        [node("a", "keep"), node("b", "remove"), node("c", "new")],
+        [
+          { id: "e1", future_state_id: "fs", source_node_id: "a", target_node_id: "b", order_index: 0, created_at: "", updated_at: "" },
+          { id: "e2", future_state_id: "fs", source_node_id: "a", target_node_id: "c", order_index: 1, created_at: "", updated_at: "" },
+        ],
+        [{ name: "Manager", capacity: 3 }]
+      );
+
+      expect(future.steps.map((s) => s.id)).toEqual(["a", "c"]);
+      expect(future.connections).toHaveLength(1);
+      expect(future.laneCapacity).toEqual({ Manager: 3 });
+    });
+  });
+});
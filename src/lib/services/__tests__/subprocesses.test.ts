@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import {
+  expandSubprocesses,
+  getSubprocessRollups,
+  rollUpSubprocessTiming,
+  type SubprocessGraph,
+} from "../subprocesses";
+import type { ProcessStep } from "@/types";
+
+const step = (
+  id: string,
+  processId: string,
+  overrides: Partial<ProcessStep> = {}
+): ProcessStep => ({
+  id,
+  process_id: processId,
+  step_name: id,
+  lane: "Ops",
+  step_type: "action",
+  order_index: 0,
+  created_at: "",
+  updated_at: "",
+  ...overrides,
+});
+const link = (source_step_id: string, target_step_id: string) => ({ source_step_id, target_step_id });
+
+// parent: intake -> fulfil (subprocess) -> close
+// fulfil: pick -> pack (subprocess) -> ship
+// packing: wrap -> label
+const parent = {
+  id: "parent",
+  steps: [
+    step("intake", "parent", { cycle_time_minutes: 5 }),
+    step("fulfil", "parent", { step_type: "subprocess", subprocess_process_id: "fulfil", lead_time_minutes: 10 }),
+    step("close", "parent", { cycle_time_minutes: 5 }),
+  ],
+  connections: [link("intake", "fulfil"), link("fulfil", "close")],
+};
+
+const graphs: Record<string, SubprocessGraph> = {
+  fulfil: {
+    id: "fulfil",
+    name: "Fulfilment",
+    steps: [
+      step("pick", "fulfil", { lead_time_minutes: 60, cycle_time_minutes: 20 }),
+      step("pack", "fulfil", { step_type: "subprocess", subprocess_process_id: "packing" }),
+      step("ship", "fulfil", { cycle_time_minutes: 10 }),
+    ],
+    connections: [link("pick", "pack"), link("pack", "ship")],
+  },
+  packing: {
+    id: "packing",
+    name: "Packing",
+    steps: [
+      step("wrap", "packing", { lead_time_minutes: 30, cycle_time_minutes: 15 }),
+      step("label", "packing", { cycle_time_minutes: 5 }),
+    ],
+    connections: [link("wrap", "label")],
+  },
+};
+
+describe("subprocesses service", () => {
+  describe("getSubprocessRollups", () => {
+    it("should roll nested child timing, steps and observations into the parent step", () => {
+      const rollups = getSubprocessRollups(parent.steps, graphs, { pick: 2, wrap: 1, intake: 7 });
+
+      expect(Object.keys(rollups)).toEqual(["fulfil"]);
+      expect(rollups.fulfil).toEqual({
+        processId: "fulfil",
+        processName: "Fulfilment",
+        stepCount: 5,
+        // pick 60 + packing (30 + 5) + ship 10
+        leadTimeMinutes: 105,
+        touchTimeMinutes: 50,
+        observationCount: 3,
+      });
+    });
+
+    it("should stop at a cycle instead of recursing", () => {
+      const cyclic: Record<string, SubprocessGraph> = {
+        a: { id: "a", name: "A", steps: [step("a1", "a", { subprocess_process_id: "b" })], connections: [] },
+        b: { id: "b", name: "B", steps: [step("b1", "b", { subprocess_process_id: "a" })], connections: [] },
+      };
+
+      const rollups = getSubprocessRollups([step("root", "root", { subprocess_process_id: "a" })], cyclic);
+      expect(rollups.root.stepCount).toBe(2);
+    });
+  });
+
+  describe("rollUpSubprocessTiming", () => {
+    it("should add the child's times on top of the step's own", () => {
+      const rollups = getSubprocessRollups(parent.steps, graphs);
+      const [, fulfil] = rollUpSubprocessTiming(parent.steps, rollups);
+
+      expect(fulfil.lead_time_minutes).toBe(115);
+      expect(fulfil.cycle_time_minutes).toBe(50);
+    });
+  });
+
+  describe("expandSubprocesses", () => {
+    it("should inline children between the subprocess step and its successors", () => {
+      const { steps, connections } = expandSubprocesses(parent, graphs);
+
+      expect(steps.map((s) => s.id)).toEqual(["intake", "fulfil", "close", "pick", "pack", "ship", "wrap", "label"]);
+      expect(steps.find((s) => s.id === "wrap")!.lane).toBe("Packing · Ops");
+      expect(connections.map((c) => `${c.source_step_id}>${c.target_step_id}`).sort()).toEqual(
+        [
+          "intake>fulfil",
+          "fulfil>pick",
+          "pick>pack",
+          "pack>wrap",
+          "wrap>label",
+          "label>ship",
+          "ship>close",
+        ].sort()
+      );
+    });
+
+    it("should expand a child linked twice only once", () => {
+      const twice = {
+        id: "parent",
+        steps: [
+          step("first", "parent", { subprocess_process_id: "packing" }),
+          step("second", "parent", { subprocess_process_id: "packing" }),
+        ],
+        connections: [link("first", "second")],
+      };
+
+      const { steps } = expandSubprocesses(twice, graphs);
+      expect(steps.map((s) => s.id)).toEqual(["first", "second", "wrap", "label"]);
+    });
+  });
+});
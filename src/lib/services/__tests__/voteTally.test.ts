@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { getRemainingVotes, isVoteOn, tallyVotes } from "../voteTally";
+
+const observationStepIds = { o1: "verify", o2: "verify", o3: "chart" };
+
+const vote = (userId: string, target: { observation_id?: string; step_id?: string }) => ({
+  user_id: userId,
+  observation_id: target.observation_id ?? null,
+  step_id: target.step_id ?? null,
+});
+
+describe("tallyVotes", () => {
+  it("counts observation votes toward their step", () => {
+    const totals = tallyVotes(
+      [
+        vote("u1", { observation_id: "o1" }),
+        vote("u1", { observation_id: "o1" }),
+        vote("u2", { observation_id: "o2" }),
+        vote("u2", { step_id: "verify" }),
+        vote("u3", { observation_id: "o3" }),
+      ],
+      observationStepIds
+    );
+
+    expect(totals.observations).toEqual({ o1: 2, o2: 1, o3: 1 });
+    expect(totals.steps).toEqual({ verify: 4, chart: 1 });
+    expect(totals.total).toBe(5);
+  });
+
+  it("keeps votes on observations whose step is unknown", () => {
+    const totals = tallyVotes([vote("u1", { observation_id: "gone" })], observationStepIds);
+
+    expect(totals.observations).toEqual({ gone: 1 });
+    expect(totals.steps).toEqual({});
+    expect(totals.total).toBe(1);
+  });
+});
+
+describe("getRemainingVotes", () => {
+  const votes = [
+    vote("u1", { step_id: "verify" }),
+    vote("u1", { observation_id: "o3" }),
+    vote("u2", { step_id: "chart" }),
+  ];
+
+  it("subtracts the participant's own votes from the budget", () => {
+    expect(getRemainingVotes(votes, "u1", 5)).toBe(3);
+    expect(getRemainingVotes(votes, "u3", 5)).toBe(5);
+  });
+
+  it("never goes below zero or counts an anonymous user", () => {
+    expect(getRemainingVotes(votes, "u1", 1)).toBe(0);
+    expect(getRemainingVotes(votes, undefined, 5)).toBe(0);
+  });
+});
+
+describe("isVoteOn", () => {
+  it("matches votes by target type", () => {
+    const stepVote = vote("u1", { step_id: "verify" });
+
+    expect(isVoteOn(stepVote, { type: "step", id: "verify" })).toBe(true);
+    expect(isVoteOn(stepVote, { type: "observation", id: "verify" })).toBe(false);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateWasteCost,
+  getAnnualVolume,
+  getHandoffsStep,
+  getHourlyRate,
+  getSolutionSavings,
+  formatCurrency,
+  type CostRates,
+  type WasteCostInput,
+} from "../wasteCost";
+
+const rates: CostRates = {
+  currency: "USD",
+  defaultHourlyRate: 40,
+  rates: [
+    { rate_type: "lane", name: "Pharmacy", hourly_rate: 90 },
+    { rate_type: "role", name: "Nurse", hourly_rate: 60 },
+  ],
+};
+
+const defects = { id: "wt-d", name: "Defects", code: "D" };
+const waiting = { id: "wt-w", name: "Waiting", code: "W" };
+
+// 1,000 transactions a year through one workflow
+const input: WasteCostInput = {
+  rates,
+  annualVolumes: { p1: 1000 },
+  steps: [
+    { id: "verify", name: "Verify Order", lane: "Pharmacy", processId: "p1" },
+    { id: "chart", name: "Chart Dose", lane: "nurse", processId: "p1" },
+    { id: "escalate", name: "Escalate", lane: "Nurse", processId: "p1", visitsPerCase: 0.1 },
+  ],
+  observations: [
+    { id: "o1", step_id: "verify", time_lost_minutes: 6, waste_types: [defects] },
+    { id: "o2", step_id: "chart", time_lost_minutes: 3, waste_types: [defects, waiting] },
+    { id: "o3", step_id: "escalate", time_lost_minutes: 30, waste_types: [waiting] },
+    { id: "o4", step_id: "chart", waste_types: [waiting] },
+  ],
+  themes: [
+    { id: "t1", name: "Order rework", observationIds: ["o1", "o2"] },
+    { id: "t2", name: "Hand-offs", observationIds: ["o2", "o3"] },
+  ],
+};
+
+describe("wasteCost service", () => {
+  describe("getAnnualVolume", () => {
+    it("should annualize by working days, weeks and months", () => {
+      expect(getAnnualVolume(40, "day")).toBe(10000);
+      expect(getAnnualVolume(100, "week")).toBe(5200);
+      expect(getAnnualVolume(500, "month")).toBe(6000);
+      expect(getAnnualVolume(null, "day")).toBeNull();
+      expect(getAnnualVolume(10, null)).toBeNull();
+    });
+  });
+
+  describe("getHourlyRate", () => {
+    it("should prefer lane rates, then role rates, then the default", () => {
+      expect(getHourlyRate(rates, "Pharmacy")).toBe(90);
+      expect(getHourlyRate(rates, " NURSE ")).toBe(60);
+      expect(getHourlyRate(rates, "Porter")).toBe(40);
+      expect(getHourlyRate({ ...rates, defaultHourlyRate: null }, "Porter")).toBeNull();
+    });
+  });
+
+  describe("calculateWasteCost", () => {
+    it("should cost each step from time lost, lane rate, volume and visits", () => {
+      const result = calculateWasteCost(input);
+
+      // 6 min × $90/h × 1,000 = $9,000; 3 min × $60/h × 1,000 = $3,000;
+      // 30 min × $60/h × 1,000 × 0.1 visits = $3,000
+      expect(result.observationCosts).toEqual({ o1: 9000, o2: 3000, o3: 3000, o4: 0 });
+      expect(result.totalAnnualCost).toBe(15000);
+      expect(result.totalAnnualHours).toBeCloseTo(100 + 50 + 50);
+      expect(result.steps.map((s) => s.stepId)).toEqual(["verify", "chart", "escalate"]);
+      expect(result.observationsWithoutTime).toBe(1);
+    });
+
+    it("should split multi-type observations and total themes without double counting", () => {
+      const result = calculateWasteCost(input);
+
+      expect(result.wasteTypes.find((w) => w.wasteTypeId === "wt-d")!.annualCost).toBe(10500);
+      expect(result.wasteTypes.find((w) => w.wasteTypeId === "wt-w")!.annualCost).toBe(4500);
+      expect(result.themes.map((t) => [t.themeId, t.annualCost])).toEqual([
+        ["t1", 12000],
+        ["t2", 6000],
+      ]);
+    });
+
+    it("should report workflows without volume and lanes without a rate", () => {
+      const result = calculateWasteCost({
+        ...input,
+        rates: { ...rates, defaultHourlyRate: null },
+        annualVolumes: {},
+        steps: [...input.steps, { id: "porter", name: "Fetch", lane: "Porter", processId: "p2" }],
+        observations: [{ id: "o5", step_id: "porter", time_lost_minutes: 10, waste_types: [] }],
+      });
+
+      expect(result.totalAnnualCost).toBe(0);
+      expect(result.processesWithoutVolume).toEqual(["p2"]);
+      expect(result.lanesWithoutRate).toEqual(["Porter"]);
+    });
+
+    it("should price handoff observations under the workflow's Handoffs group", () => {
+      const handoffs = getHandoffsStep("p1");
+      const result = calculateWasteCost({
+        ...input,
+        steps: [handoffs],
+        observations: [{ id: "o6", step_id: handoffs.id, time_lost_minutes: 12, waste_types: [waiting] }],
+      });
+
+      // 12 min × $40 default rate × 1,000 transactions
+      expect(result.totalAnnualCost).toBe(8000);
+      expect(result.steps).toEqual([
+        expect.objectContaining({ stepId: "handoffs:p1", stepName: "Handoffs", lane: "Handoffs" }),
+      ]);
+    });
+  });
+
+  describe("getSolutionSavings", () => {
+    it("should count observations reached directly or through themes once", () => {
+      const breakdown = calculateWasteCost(input);
+
+      expect(getSolutionSavings(breakdown, { themeIds: ["t1", "t2"] })).toBe(15000);
+      expect(getSolutionSavings(breakdown, { themeIds: ["t2"], observationIds: ["o1", "o2"] })).toBe(15000);
+      expect(getSolutionSavings(breakdown, {})).toBe(0);
+    });
+  });
+
+  describe("formatCurrency", () => {
+    it("should abbreviate large amounts", () => {
+      expect(formatCurrency(850)).toBe("$850");
+      expect(formatCurrency(1250000)).toBe("$1.3M");
+    });
+  });
+});
@@ -9,6 +9,7 @@ vi.mock("uuid", () => ({
 const mocks = vi.hoisted(() => ({
   from: vi.fn(),
   getUser: vi.fn(),
+  copy: vi.fn(),
 }));
 
 vi.mock("@/lib/supabase/client", () => ({
@@ -17,6 +18,9 @@ vi.mock("@/lib/supabase/client", () => ({
     auth: {
       getUser: mocks.getUser,
     },
+    storage: {
+      from: () => ({ copy: mocks.copy }),
+    },
   }),
 }));
 
@@ -25,7 +29,62 @@ import {
   getSampleJsonWorkflow,
   getSampleCsvSteps,
   getSampleCsvConnections,
+  parseBPMN,
+  parseJSON,
+  importWorkflow,
 } from "../workflowImport";
+import { buildWorkflowExportDocument, type WorkflowExportSource } from "../workflowExport";
+
+const SAMPLE_BPMN = `<?xml version="1.0" encoding="UTF-8"?>
+<bpmn:definitions xmlns:bpmn="http://www.omg.org/spec/BPMN/20100524/MODEL"
+  xmlns:bpmndi="http://www.omg.org/spec/BPMN/20100524/DI"
+  xmlns:dc="http://www.omg.org/spec/DD/20100524/DC" id="Defs_1">
+  <bpmn:collaboration id="Collab_1">
+    <bpmn:participant id="Pool_1" name="Procurement" processRef="Process_1" />
+    <bpmn:participant id="Pool_2" name="Vendor" processRef="Process_2" />
+    <bpmn:messageFlow id="Msg_1" sourceRef="Task_2" targetRef="Pool_2" />
+  </bpmn:collaboration>
+  <bpmn:process id="Process_1" isExecutable="false">
+    <bpmn:laneSet id="LaneSet_1">
+      <bpmn:lane id="Lane_1" name="Requester">
+        <bpmn:flowNodeRef>Start_1</bpmn:flowNodeRef>
+        <bpmn:flowNodeRef>Task_1</bpmn:flowNodeRef>
+      </bpmn:lane>
+      <bpmn:lane id="Lane_2" name="Finance">
+        <bpmn:flowNodeRef>Gateway_1</bpmn:flowNodeRef>
+        <bpmn:flowNodeRef>Timer_1</bpmn:flowNodeRef>
+        <bpmn:flowNodeRef>Task_2</bpmn:flowNodeRef>
+        <bpmn:flowNodeRef>Call_1</bpmn:flowNodeRef>
+        <bpmn:flowNodeRef>End_1</bpmn:flowNodeRef>
+      </bpmn:lane>
+    </bpmn:laneSet>
+    <bpmn:startEvent id="Start_1" name="Need identified" />
+    <bpmn:userTask id="Task_1" name="Submit request">
+      <bpmn:documentation>Fill in the purchase form</bpmn:documentation>
+    </bpmn:userTask>
+    <bpmn:exclusiveGateway id="Gateway_1" name="Approved?" />
+    <bpmn:intermediateCatchEvent id="Timer_1" name="Wait 1 day" />
+    <bpmn:serviceTask id="Task_2" name="Create PO" />
+    <bpmn:callActivity id="Call_1" name="Rework request" />
+    <bpmn:endEvent id="End_1" />
+    <bpmn:sequenceFlow id="Flow_1" sourceRef="Start_1" targetRef="Task_1" />
+    <bpmn:sequenceFlow id="Flow_2" sourceRef="Task_1" targetRef="Gateway_1" />
+    <bpmn:sequenceFlow id="Flow_3" name="Yes" sourceRef="Gateway_1" targetRef="Timer_1" />
+    <bpmn:sequenceFlow id="Flow_4" sourceRef="Timer_1" targetRef="Task_2" />
+    <bpmn:sequenceFlow id="Flow_5" sourceRef="Gateway_1" targetRef="Call_1">
+      <bpmn:conditionExpression>\${amount > 1000}</bpmn:conditionExpression>
+    </bpmn:sequenceFlow>
+    <bpmn:sequenceFlow id="Flow_6" sourceRef="Task_2" targetRef="End_1" />
+  </bpmn:process>
+  <bpmn:process id="Process_2">
+    <bpmn:task id="Vendor_Task" name="Ship goods" />
+  </bpmn:process>
+  <bpmndi:BPMNDiagram id="Diagram_1">
+    <bpmndi:BPMNPlane id="Plane_1" bpmnElement="Collab_1">
+      <bpmndi:BPMNShape id="Start_1_di" bpmnElement="Start_1"><dc:Bounds x="100" y="100" width="36" height="36" /></bpmndi:BPMNShape>
+    </bpmndi:BPMNPlane>
+  </bpmndi:BPMNDiagram>
+</bpmn:definitions>`;
 
 describe("workflowImport service", () => {
   beforeEach(() => {
@@ -129,6 +188,195 @@ describe("workflowImport service", () => {
     });
   });
 
+  describe("parseBPMN", () => {
+    it("should map BPMN elements to steps and lanes", () => {
+      const result = parseBPMN(SAMPLE_BPMN);
+
+      expect(result.valid).toBe(true);
+      const steps = result.data!.steps;
+      const byId = Object.fromEntries(steps.map((s) => [s.id, s]));
+
+      expect(byId.Start_1).toMatchObject({ type: "start", lane: "Requester", name: "Need identified" });
+      expect(byId.Task_1).toMatchObject({
+        type: "action",
+        lane: "Requester",
+        description: "Fill in the purchase form",
+      });
+      expect(byId.Gateway_1).toMatchObject({ type: "decision", lane: "Finance" });
+      expect(byId.Call_1).toMatchObject({ type: "subprocess" });
+      expect(byId.End_1).toMatchObject({ type: "end", name: "End" });
+      // Pools without lanes fall back to the pool name
+      expect(byId.Vendor_Task).toMatchObject({ type: "action", lane: "Vendor" });
+      expect(byId.Timer_1).toBeUndefined();
+      expect(result.data!.name).toBe("Procurement");
+    });
+
+    it("should use flow names and conditions as connection labels", () => {
+      const result = parseBPMN(SAMPLE_BPMN);
+      const connections = result.data!.connections;
+
+      expect(connections).toContainEqual({ from: "Gateway_1", to: "Call_1", label: "${amount > 1000}" });
+      // The intermediate timer event is bridged, keeping the gateway label
+      expect(connections).toContainEqual({ from: "Gateway_1", to: "Task_2", label: "Yes" });
+      expect(connections).toContainEqual({ from: "Task_2", to: "End_1", label: undefined });
+    });
+
+    it("should warn about unsupported elements", () => {
+      const result = parseBPMN(SAMPLE_BPMN);
+      const messages = result.warnings.map((w) => w.message).join("\n");
+
+      expect(messages).toContain("intermediateCatchEvent");
+      expect(messages).toContain("Message flows");
+    });
+
+    it("should reject documents that are not BPMN", () => {
+      expect(parseBPMN("<root />").valid).toBe(false);
+      expect(parseBPMN("not xml at all").valid).toBe(false);
+    });
+  });
+
+  describe("lossless JSON round trip", () => {
+    const ts = { created_at: "2024-01-01T00:00:00Z", updated_at: "2024-01-01T00:00:00Z" };
+    const source: WorkflowExportSource = {
+      process: { name: "Procurement", description: "Buy things", department: "Finance" },
+      steps: [
+        { id: "s1", process_id: "p1", step_name: "Request", lane: "Requester", step_type: "start", order_index: 0, position_x: 40, position_y: 25, ...ts },
+        { id: "s2", process_id: "p1", step_name: "Approve", lane: "Finance", step_type: "action", order_index: 1, position_x: 300, position_y: 145, lead_time_minutes: 60, ...ts },
+      ],
+      connections: [{ id: "c1", process_id: "p1", source_step_id: "s1", target_step_id: "s2", label: "Submit", branch_probability: 0.8 }],
+      lanes: [
+        { id: "l2", process_id: "p1", name: "Finance", order_index: 1, ...ts },
+        { id: "l1", process_id: "p1", name: "Requester", order_index: 0, bg_color: "#eef", border_color: "#99f", ...ts },
+      ],
+      flows: [
+        { id: "f1", process_id: "p1", state_type: "current", source_step_id: "s1", target_step_id: "s2", name: "PO request", flow_type: "document", status: "active", is_automated: false, is_real_time: false, accuracy_score: 4, metadata: {}, revision: 1, ...ts },
+      ],
+      stepIO: [
+        { id: "io1", step_id: "s2", io_type: "input", name: "PO request", is_required: true, linked_flow_id: "f1", order_index: 0, ...ts },
+      ],
+      attachments: [
+        { id: "a1", step_id: "s2", filename: "policy.pdf", original_filename: "Policy.pdf", file_path: "p1/s2/policy.pdf", file_size: 1024, category: "reference", ...ts },
+      ],
+      context: {
+        id: "ctx1", process_id: "p1", purpose: "Control spend", trigger_events: ["Need identified"], end_outcomes: [],
+        volume_count: 120, volume_period: "week",
+        compliance_requirements: [], known_pain_points: [], previous_improvement_attempts: [], constraints: [], assumptions: [],
+        stakeholders: [{ id: "sh1", context_id: "ctx1", role: "Buyer", order_index: 0 }],
+        systems: [], metrics: [], ...ts,
+      },
+    };
+
+    // Chainable Supabase query stub that records inserts and returns rows with new IDs
+    function mockInsertRecorder() {
+      const inserts: Record<string, Record<string, unknown>[]> = {};
+      mocks.from.mockImplementation((table: string) => {
+        let rows: Record<string, unknown>[] = [];
+        const result = () => ({
+          data: rows.map((row, idx) => ({ ...row, id: `${table}-${idx + 1}` })),
+          error: null,
+        });
+        const builder = {
+          insert: (value: Record<string, unknown> | Record<string, unknown>[]) => {
+            rows = Array.isArray(value) ? value : [value];
+            inserts[table] = rows;
+            return builder;
+          },
+          select: () => builder,
+          eq: () => builder,
+          single: async () => ({ data: result().data[0] ?? { org_id: "org-1" }, error: null }),
+          then: (resolve: (value: unknown) => void) => resolve(result()),
+        };
+        return builder;
+      });
+      return inserts;
+    }
+
+    it("should export a document the JSON importer accepts unchanged", () => {
+      const document = buildWorkflowExportDocument(source, new Date("2024-02-01T00:00:00Z"));
+      const result = parseJSON(JSON.stringify(document));
+
+      expect(result.valid).toBe(true);
+      expect(result.warnings).toHaveLength(0);
+      expect(result.data!.lanes).toEqual([
+        { name: "Requester", bg_color: "#eef", border_color: "#99f" },
+        { name: "Finance" },
+      ]);
+      expect(result.data!.steps[1].io).toEqual([
+        { io_type: "input", name: "PO request", is_required: true, linked_flow: "f1", order: 0 },
+      ]);
+    });
+
+    it("should restore every section on import", async () => {
+      const fetchMock = vi.fn().mockResolvedValue({ ok: true, json: async () => ({}) });
+      vi.stubGlobal("fetch", fetchMock);
+      mocks.getUser.mockResolvedValue({ data: { user: { id: "user-1" } } });
+      mocks.copy.mockResolvedValue({ data: {}, error: null });
+      const inserts = mockInsertRecorder();
+
+      const { data } = parseJSON(JSON.stringify(buildWorkflowExportDocument(source)));
+      const result = await importWorkflow(data!);
+
+      expect(result.success).toBe(true);
+      expect(result.warnings).toEqual([]);
+      expect(inserts.processes).toEqual([
+        expect.objectContaining({ name: "Procurement", description: "Buy things", department: "Finance" }),
+      ]);
+      expect(inserts.process_lanes).toEqual([
+        { process_id: "processes-1", name: "Requester", order_index: 0, bg_color: "#eef", border_color: "#99f" },
+        { process_id: "processes-1", name: "Finance", order_index: 1, bg_color: null, border_color: null },
+      ]);
+      expect(inserts.process_steps.map((s) => [s.step_name, s.order_index, s.position_x, s.position_y])).toEqual([
+        ["Request", 0, 40, 25],
+        ["Approve", 1, 300, 145],
+      ]);
+      expect(inserts.step_connections).toEqual([
+        { process_id: "processes-1", source_step_id: "process_steps-1", target_step_id: "process_steps-2", label: "Submit", branch_probability: 0.8 },
+      ]);
+      expect(inserts.information_flows[0]).toMatchObject({
+        source_step_id: "process_steps-1",
+        target_step_id: "process_steps-2",
+        flow_type: "document",
+        accuracy_score: 4,
+      });
+      expect(inserts.step_io[0]).toMatchObject({
+        step_id: "process_steps-2",
+        linked_flow_id: "information_flows-1",
+      });
+      expect(inserts.step_attachments[0]).toMatchObject({
+        step_id: "process_steps-2",
+        file_path: expect.stringMatching(/^processes-1\/process_steps-2\/.+\.pdf$/),
+        uploaded_by: "user-1",
+      });
+      expect(mocks.copy).toHaveBeenCalledWith("p1/s2/policy.pdf", inserts.step_attachments[0].file_path);
+      expect(fetchMock).toHaveBeenCalledWith(
+        "/api/workflows/processes-1/context",
+        expect.objectContaining({ method: "POST" })
+      );
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({
+        context: { purpose: "Control spend", trigger_events: ["Need identified"], volume_count: 120, volume_period: "week" },
+        stakeholders: [{ role: "Buyer", order_index: 0 }],
+      });
+
+      vi.unstubAllGlobals();
+    });
+
+    it("should skip attachments whose file can't be copied", async () => {
+      vi.stubGlobal("fetch", vi.fn().mockResolvedValue({ ok: true, json: async () => ({}) }));
+      mocks.getUser.mockResolvedValue({ data: { user: { id: "user-1" } } });
+      mocks.copy.mockResolvedValue({ data: null, error: new Error("Object not found") });
+      const inserts = mockInsertRecorder();
+
+      const { data } = parseJSON(JSON.stringify(buildWorkflowExportDocument(source)));
+      const result = await importWorkflow(data!);
+
+      expect(result.success).toBe(true);
+      expect(inserts.step_attachments).toBeUndefined();
+      expect(result.warnings).toEqual(['Attachment "Policy.pdf": the file could not be copied']);
+
+      vi.unstubAllGlobals();
+    });
+  });
+
   describe("JSON format validation", () => {
     it("should accept valid workflow JSON", () => {
       const validJson = {
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import { lintFutureState, lintWorkflow, type LintModel } from "../workflowLint";
+
+const step = (id: string, step_type: LintModel["steps"][number]["step_type"] = "action") => ({
+  id,
+  step_name: id,
+  step_type,
+});
+const link = (source_step_id: string, target_step_id: string) => ({ source_step_id, target_step_id });
+
+const rulesFor = (model: LintModel) =>
+  lintWorkflow(model).diagnostics.map((d) => [d.ruleId, d.stepId]);
+
+describe("workflowLint service", () => {
+  describe("lintWorkflow", () => {
+    it("should pass a well-formed workflow", () => {
+      const result = lintWorkflow({
+        steps: [step("start", "start"), step("check", "decision"), step("fix"), step("done", "end")],
+        connections: [link("start", "check"), link("check", "fix"), link("check", "done"), link("fix", "check")],
+      });
+
+      expect(result.diagnostics).toEqual([]);
+      expect(result.errorCount).toBe(0);
+    });
+
+    it("should flag orphan, unreachable and dead-end steps", () => {
+      expect(
+        rulesFor({
+          steps: [step("start", "start"), step("a"), step("b"), step("lonely"), step("done", "end")],
+          connections: [link("start", "a"), link("a", "done"), link("b", "a")],
+        })
+      ).toEqual([
+        ["orphan-step", "lonely"],
+        ["unreachable-step", "b"],
+      ]);
+
+      const result = lintWorkflow({
+        steps: [step("start", "start"), step("a"), step("done", "end")],
+        connections: [link("start", "a"), link("start", "done")],
+      });
+      expect(result.byStep.a.map((d) => d.ruleId)).toEqual(["dead-end-step"]);
+      expect(result.errorCount).toBe(0);
+      expect(result.warningCount).toBe(1);
+    });
+
+    it("should flag decisions with one path and end steps that continue", () => {
+      expect(
+        rulesFor({
+          steps: [step("start", "start"), step("check", "decision"), step("done", "end"), step("after")],
+          connections: [link("start", "check"), link("check", "done"), link("done", "after"), link("after", "done")],
+        })
+      ).toEqual([
+        ["end-step-outgoing", "done"],
+        ["decision-single-path", "check"],
+      ]);
+    });
+
+    it("should distinguish an inferred start from no entry point at all", () => {
+      const inferred = lintWorkflow({
+        steps: [step("a"), step("b", "end")],
+        connections: [link("a", "b")],
+      });
+      expect(inferred.diagnostics.map((d) => d.ruleId)).toEqual(["no-start-step"]);
+      expect(inferred.diagnostics[0].suggestedFix).toContain('"a"');
+
+      const cycle = lintWorkflow({
+        steps: [step("a"), step("b")],
+        connections: [link("a", "b"), link("b", "a")],
+      });
+      expect(cycle.diagnostics.map((d) => d.ruleId)).toEqual(["no-entry-point", "no-end-step"]);
+      expect(cycle.errorCount).toBe(1);
+    });
+  });
+
+  describe("lintFutureState", () => {
+    it("should ignore removed nodes and their edges", () => {
+      const node = (id: string, step_type: LintModel["steps"][number]["step_type"], action = "keep" as const) => ({
+        id,
+        name: id,
+        step_type,
+        action,
+      });
+      const edge = (source_node_id: string, target_node_id: string) => ({ source_node_id, target_node_id });
+
+      const result = lintFutureState(
+        [node("start", "start"), { ...node("old", "action"), action: "remove" as const }, node("done", "end")],
+        [edge("start", "old"), edge("old", "done"), edge("start", "done")]
+      );
+
+      expect(result.diagnostics).toEqual([]);
+    });
+  });
+});
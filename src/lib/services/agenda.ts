@@ -0,0 +1,78 @@
+import { getSupabaseClient } from "@/lib/supabase/client";
+import type { SessionPhase } from "@/types";
+import type { PhaseDraft } from "./sessionAgenda";
+
+const supabase = getSupabaseClient();
+
+// ============================================
+// PHASES
+// ============================================
+
+export async function getSessionPhases(sessionId: string) {
+  const { data, error } = await supabase
+    .from("session_phases")
+    .select("*")
+    .eq("session_id", sessionId)
+    .order("position", { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as SessionPhase[];
+}
+
+/**
+ * Replace the phases that haven't run yet. Phases that have started keep
+ * their recorded times and stay ahead of the new ones.
+ */
+export async function saveAgenda(sessionId: string, drafts: PhaseDraft[]) {
+  const existing = await getSessionPhases(sessionId);
+  const started = existing.filter((p) => p.started_at);
+  const pendingIds = existing.filter((p) => !p.started_at).map((p) => p.id);
+
+  if (pendingIds.length > 0) {
+    const { error } = await supabase.from("session_phases").delete().in("id", pendingIds);
+    if (error) throw error;
+  }
+
+  if (drafts.length > 0) {
+    const firstPosition = started.reduce((max, p) => Math.max(max, p.position + 1), 0);
+    const { error } = await supabase.from("session_phases").insert(
+      drafts.map((draft, index) => ({
+        session_id: sessionId,
+        position: firstPosition + index,
+        name: draft.name.trim(),
+        planned_minutes: draft.planned_minutes,
+        tagging_enabled: draft.tagging_enabled,
+        lanes: draft.lanes && draft.lanes.length > 0 ? draft.lanes : null,
+      }))
+    );
+    if (error) throw error;
+  }
+
+  return getSessionPhases(sessionId);
+}
+
+// ============================================
+// TRANSITIONS
+// ============================================
+
+/** End the running phase and start another, on the database clock */
+export async function startPhase(sessionId: string, phaseId: string) {
+  const { data, error } = await supabase.rpc("start_session_phase", {
+    p_session_id: sessionId,
+    p_phase_id: phaseId,
+  });
+
+  if (error) throw error;
+  return (data || []) as SessionPhase[];
+}
+
+/** End the running phase without starting another */
+export async function endAgenda(sessionId: string) {
+  const { data, error } = await supabase.rpc("start_session_phase", {
+    p_session_id: sessionId,
+    p_phase_id: null,
+  });
+
+  if (error) throw error;
+  return (data || []) as SessionPhase[];
+}
@@ -1,9 +1,24 @@
 import { getSupabaseClient } from "@/lib/supabase/client";
-import { getWasteTypes } from "./wasteTypes";
+import { loadWasteCostBreakdown, type WasteCostBreakdown } from "./wasteCost";
+import {
+  toAnalyticsSearchParams,
+  type AnalyticsFilters,
+  type AnalyticsMetric,
+  type AnalyticsObservation,
+  type AnalyticsPage,
+  type AnalyticsPagination,
+  type AnalyticsSummary,
+} from "./analyticsQuery";
+import { loadSessionScoringModel, type ScoringModelDefinition } from "./scoringModel";
+import type { HandoffSummary } from "./observationTargets";
+import type { ProcessTrend } from "./processTrends";
+import type { ParetoAnalysis, ParetoDimension, ParetoMeasure } from "./pareto";
+import { toPortfolioSearchParams, type Portfolio, type PortfolioFilters } from "./portfolio";
 
 const supabase = getSupabaseClient();
 
 export interface WasteDistribution {
+  waste_type_id: string;
   name: string;
   code: string;
   count: number;
@@ -28,6 +43,12 @@ export interface TopHotspot {
   priority_score: number;
   observation_count: number;
   effort: "low" | "medium" | "high";
+  /** Minutes lost per transaction across the step's observations */
+  time_lost_minutes: number;
+  annual_cost: number;
+  currency: string;
+  /** Dot votes from the latest voting round; breaks ties in priority */
+  votes: number;
 }
 
 export interface Insight {
@@ -43,176 +64,111 @@ export interface Insight {
 // ============================================
 // ANALYTICS QUERIES
 // ============================================
-
-export async function getWasteDistribution(sessionId?: string) {
-  const wasteTypes = await getWasteTypes();
-  
-  let query = supabase
-    .from("observation_waste_links")
-    .select(`
-      waste_type_id,
-      observation:observations!inner(session_id)
-    `);
-
-  if (sessionId) {
-    query = query.eq("observation.session_id", sessionId);
+// Aggregated in the database through /api/analytics; see analyticsQuery.ts.
+
+async function fetchAnalytics<T>(
+  metric: AnalyticsMetric,
+  filters: AnalyticsFilters,
+  pagination?: Partial<AnalyticsPagination>,
+  options: Record<string, string> = {}
+): Promise<T> {
+  const params = toAnalyticsSearchParams(filters, pagination);
+  Object.entries(options).forEach(([key, value]) => params.set(key, value));
+  const query = params.toString();
+  const response = await fetch(`/api/analytics/${metric}${query ? `?${query}` : ""}`);
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.error || `Failed to load ${metric} analytics`);
   }
+  return response.json();
+}
 
-  const { data: links, error } = await query;
-  if (error) throw error;
-
-  // Count by waste type
-  const counts: Record<string, number> = {};
-  links?.forEach((link: { waste_type_id: string }) => {
-    counts[link.waste_type_id] = (counts[link.waste_type_id] || 0) + 1;
-  });
-
-  const total = Object.values(counts).reduce((sum, c) => sum + c, 0);
-
-  const distribution: WasteDistribution[] = wasteTypes
-    .map(wt => ({
-      name: wt.name,
-      code: wt.code,
-      count: counts[wt.id] || 0,
-      percentage: total > 0 ? Math.round(((counts[wt.id] || 0) / total) * 100) : 0,
-      color: wt.color || "#6B7280",
-    }))
-    .filter(d => d.count > 0)
-    .sort((a, b) => b.count - a.count);
+export async function getAnalyticsSummary(filters: AnalyticsFilters = {}): Promise<AnalyticsSummary> {
+  return fetchAnalytics("summary", filters);
+}
 
-  return distribution;
+export async function getWasteDistribution(filters: AnalyticsFilters = {}): Promise<WasteDistribution[]> {
+  return fetchAnalytics("distribution", filters);
 }
 
-export async function getWasteByLane(sessionId?: string) {
-  let query = supabase
-    .from("observations")
-    .select(`
-      *,
-      step:process_steps!inner(lane)
-    `);
+export async function getWasteByLane(filters: AnalyticsFilters = {}): Promise<LaneStats[]> {
+  return fetchAnalytics("lanes", filters);
+}
 
-  if (sessionId) {
-    query = query.eq("session_id", sessionId);
-  }
+/** One page of steps ranked by total priority */
+export async function getHotspotPage(
+  filters: AnalyticsFilters = {},
+  pagination: Partial<AnalyticsPagination> = {}
+): Promise<AnalyticsPage<TopHotspot>> {
+  return fetchAnalytics("hotspots", filters, pagination);
+}
 
-  const { data: observations, error } = await query;
-  if (error) throw error;
+export async function getTopHotspots(filters: AnalyticsFilters = {}, limit = 10): Promise<TopHotspot[]> {
+  const page = await getHotspotPage(filters, { page: 1, pageSize: limit });
+  return page.rows;
+}
 
-  // Aggregate by lane
-  const laneStats: Record<string, LaneStats> = {};
+/** Drill-down: the observations behind a filter, highest priority first */
+export async function getAnalyticsObservations(
+  filters: AnalyticsFilters = {},
+  pagination: Partial<AnalyticsPagination> = {}
+): Promise<AnalyticsPage<AnalyticsObservation>> {
+  return fetchAnalytics("observations", filters, pagination);
+}
 
-  interface ObservationWithStep {
-    step?: { lane: string };
-    priority_score: number;
-    is_digital: boolean;
-    is_physical: boolean;
-  }
+/** Every session of one workflow over time, for control charts */
+export async function getProcessTrend(processId: string, filters: AnalyticsFilters = {}): Promise<ProcessTrend> {
+  return fetchAnalytics("trends", { ...filters, processIds: [processId] });
+}
 
-  observations?.forEach((obs: ObservationWithStep) => {
-    const lane = obs.step?.lane || "Unknown";
-    if (!laneStats[lane]) {
-      laneStats[lane] = { lane, observations: 0, priority: 0, digital: 0, physical: 0 };
-    }
-    laneStats[lane].observations += 1;
-    laneStats[lane].priority += obs.priority_score;
-    if (obs.is_digital) laneStats[lane].digital += 1;
-    if (obs.is_physical) laneStats[lane].physical += 1;
+/** Groups ranked by the measure with the vital-few cut-off */
+export async function getParetoAnalysis(
+  filters: AnalyticsFilters,
+  dimension: ParetoDimension,
+  measure: ParetoMeasure,
+  cutoff?: number
+): Promise<ParetoAnalysis> {
+  return fetchAnalytics("pareto", filters, undefined, {
+    dimension,
+    measure,
+    ...(cutoff !== undefined ? { cutoff: String(cutoff) } : {}),
   });
-
-  return Object.values(laneStats).sort((a, b) => b.priority - a.priority);
 }
 
-export async function getTopHotspots(sessionId?: string, limit = 10): Promise<TopHotspot[]> {
-  let query = supabase
-    .from("observations")
-    .select(`
-      *,
-      step:process_steps!inner(id, step_name, lane)
-    `);
-
-  if (sessionId) {
-    query = query.eq("session_id", sessionId);
+/** Every workflow in the organization with its roll-up by department */
+export async function getPortfolio(filters: PortfolioFilters = {}): Promise<Portfolio> {
+  const query = toPortfolioSearchParams(filters).toString();
+  const response = await fetch(`/api/portfolio${query ? `?${query}` : ""}`);
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.error || "Failed to load portfolio");
   }
+  return response.json();
+}
 
-  const { data: observations, error } = await query;
-  if (error) throw error;
-
-  // Aggregate by step
-  const stepStats: Record<string, {
-    step_id: string;
-    step_name: string;
-    lane: string;
-    priority_score: number;
-    observation_count: number;
-    avg_ease: number;
-    waste_types: Set<string>;
-  }> = {};
-
-  for (const obs of observations || []) {
-    const stepId = obs.step?.id;
-    if (!stepId) continue;
-
-    if (!stepStats[stepId]) {
-      stepStats[stepId] = {
-        step_id: stepId,
-        step_name: obs.step.step_name,
-        lane: obs.step.lane,
-        priority_score: 0,
-        observation_count: 0,
-        avg_ease: 0,
-        waste_types: new Set(),
-      };
-    }
-
-    stepStats[stepId].priority_score += obs.priority_score;
-    stepStats[stepId].observation_count += 1;
-    stepStats[stepId].avg_ease += obs.ease_score;
-
-    // Get waste types for this observation
-    const { data: links } = await supabase
-      .from("observation_waste_links")
-      .select("waste_type:waste_types(name)")
-      .eq("observation_id", obs.id);
-
-    links?.forEach((link: { waste_type?: { name?: string } }) => {
-      if (link.waste_type?.name) {
-        stepStats[stepId].waste_types.add(link.waste_type.name);
-      }
-    });
-  }
+/** Handoffs and information flows ranked by the waste observed on them */
+export async function getHandoffHotspots(filters: AnalyticsFilters = {}, limit = 10): Promise<HandoffSummary[]> {
+  const page = await fetchAnalytics<AnalyticsPage<HandoffSummary>>("handoffs", filters, { page: 1, pageSize: limit });
+  return page.rows;
+}
 
-  // Calculate effort based on average ease score
-  const hotspots: TopHotspot[] = Object.values(stepStats)
-    .map((stat) => {
-      const avgEase = stat.observation_count > 0 
-        ? stat.avg_ease / stat.observation_count 
-        : 3;
-      
-      let effort: "low" | "medium" | "high";
-      if (avgEase >= 4) effort = "low";
-      else if (avgEase >= 2.5) effort = "medium";
-      else effort = "high";
+/** The scoring model a session's priority scores were computed with */
+export async function getSessionScoringModel(sessionId: string): Promise<ScoringModelDefinition> {
+  return loadSessionScoringModel(supabase, sessionId);
+}
 
-      return {
-        rank: 0,
-        step_id: stat.step_id,
-        step_name: stat.step_name,
-        lane: stat.lane,
-        waste_types: Array.from(stat.waste_types),
-        priority_score: stat.priority_score,
-        observation_count: stat.observation_count,
-        effort,
-      };
-    })
-    .sort((a, b) => b.priority_score - a.priority_score)
-    .slice(0, limit)
-    .map((h, idx) => ({ ...h, rank: idx + 1 }));
+/** Annualized cost of the filtered waste per step, waste type and theme */
+export async function getAnalyticsWasteCost(filters: AnalyticsFilters = {}): Promise<WasteCostBreakdown> {
+  return fetchAnalytics("cost", filters);
+}
 
-  return hotspots;
+/** Annualized cost of waste per step, waste type and theme */
+export async function getWasteCost(sessionId?: string): Promise<WasteCostBreakdown> {
+  return loadWasteCostBreakdown(supabase, sessionId);
 }
 
-export async function getQuickWins(sessionId?: string, limit = 5): Promise<TopHotspot[]> {
-  const hotspots = await getTopHotspots(sessionId, 20);
+export async function getQuickWins(filters: AnalyticsFilters = {}, limit = 5): Promise<TopHotspot[]> {
+  const hotspots = await getTopHotspots(filters, 20);
   
   // Quick wins = high priority + low effort
   return hotspots
@@ -220,12 +176,12 @@ export async function getQuickWins(sessionId?: string, limit = 5): Promise<TopHo
     .slice(0, limit);
 }
 
-export async function generateInsights(sessionId?: string): Promise<Insight[]> {
+export async function generateInsights(filters: AnalyticsFilters = {}): Promise<Insight[]> {
   const [hotspots, distribution, laneStats, quickWins] = await Promise.all([
-    getTopHotspots(sessionId, 5),
-    getWasteDistribution(sessionId),
-    getWasteByLane(sessionId),
-    getQuickWins(sessionId),
+    getTopHotspots(filters, 5),
+    getWasteDistribution(filters),
+    getWasteByLane(filters),
+    getQuickWins(filters),
   ]);
 
   const insights: Insight[] = [];
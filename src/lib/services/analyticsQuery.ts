@@ -0,0 +1,471 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { WasteType } from "@/types";
+import type { LaneStats, TopHotspot, WasteDistribution } from "./analytics";
+import {
+  calculateWasteCost,
+  getHandoffsStep,
+  loadCostContext,
+  loadCostedThemes,
+  type CostedObservation,
+  type CostedStep,
+  type WasteCostBreakdown,
+} from "./wasteCost";
+import { getObservationHandoff, loadHandoffLookup, type HandoffSummary } from "./observationTargets";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type WasteCategory = WasteType["category"];
+
+/** Narrows analytics to part of the organization's observations; every field is optional */
+export interface AnalyticsFilters {
+  processIds?: string[];
+  sessionIds?: string[];
+  /** Inclusive start, ISO date or timestamp */
+  from?: string;
+  /** Exclusive end, ISO date or timestamp */
+  to?: string;
+  lanes?: string[];
+  wasteCategories?: WasteCategory[];
+  isDigital?: boolean;
+  isPhysical?: boolean;
+  /** Drill-down into specific steps or waste types */
+  stepIds?: string[];
+  wasteTypeIds?: string[];
+}
+
+export interface AnalyticsPagination {
+  page: number;
+  pageSize: number;
+}
+
+export interface AnalyticsPage<T> extends AnalyticsPagination {
+  rows: T[];
+  total: number;
+}
+
+export interface AnalyticsSummary {
+  observationCount: number;
+  sessionCount: number;
+  avgPriority: number;
+  digitalCount: number;
+  physicalCount: number;
+  digitalPercentage: number;
+}
+
+/** One observation in a drill-down list */
+export interface AnalyticsObservation {
+  id: string;
+  session_id: string;
+  session_name: string;
+  step_id: string | null;
+  step_name: string | null;
+  lane: string;
+  priority_score: number;
+  is_digital: boolean;
+  is_physical: boolean;
+  notes: string | null;
+  created_at: string;
+  waste_types: string[];
+}
+
+export type AnalyticsMetric =
+  | "summary"
+  | "distribution"
+  | "lanes"
+  | "hotspots"
+  | "observations"
+  | "trends"
+  | "pareto"
+  | "cost"
+  | "handoffs";
+
+export const ANALYTICS_METRICS: AnalyticsMetric[] = [
+  "summary",
+  "distribution",
+  "lanes",
+  "hotspots",
+  "observations",
+  "trends",
+  "pareto",
+  "cost",
+  "handoffs",
+];
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 100;
+
+const WASTE_CATEGORIES: WasteCategory[] = ["core_lean", "digital"];
+
+// Query string keys; arrays are comma-separated
+const LIST_PARAMS = {
+  processIds: "process",
+  sessionIds: "session",
+  lanes: "lane",
+  stepIds: "step",
+  wasteTypeIds: "wasteType",
+} as const;
+
+// ============================================
+// FILTERS
+// ============================================
+
+function parseList(value: string | null): string[] | undefined {
+  const items = (value || "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return items.length > 0 ? Array.from(new Set(items)) : undefined;
+}
+
+function parseBoolean(value: string | null): boolean | undefined {
+  if (value === "true") return true;
+  if (value === "false") return false;
+  return undefined;
+}
+
+function parseDate(value: string | null): string | undefined {
+  if (!value) return undefined;
+  return Number.isNaN(new Date(value).getTime()) ? undefined : value;
+}
+
+/** Read filters from a query string, dropping anything malformed */
+export function parseAnalyticsFilters(params: URLSearchParams): AnalyticsFilters {
+  const filters: AnalyticsFilters = {};
+
+  (Object.keys(LIST_PARAMS) as (keyof typeof LIST_PARAMS)[]).forEach((key) => {
+    const values = parseList(params.get(LIST_PARAMS[key]));
+    if (values) filters[key] = values;
+  });
+
+  const categories = parseList(params.get("category"))?.filter((c): c is WasteCategory =>
+    WASTE_CATEGORIES.includes(c as WasteCategory)
+  );
+  if (categories?.length) filters.wasteCategories = categories;
+
+  const from = parseDate(params.get("from"));
+  const to = parseDate(params.get("to"));
+  if (from) filters.from = from;
+  if (to) filters.to = to;
+
+  const isDigital = parseBoolean(params.get("digital"));
+  const isPhysical = parseBoolean(params.get("physical"));
+  if (isDigital !== undefined) filters.isDigital = isDigital;
+  if (isPhysical !== undefined) filters.isPhysical = isPhysical;
+
+  return filters;
+}
+
+/** The query string parseAnalyticsFilters reads back */
+export function toAnalyticsSearchParams(
+  filters: AnalyticsFilters,
+  pagination?: Partial<AnalyticsPagination>
+): URLSearchParams {
+  const params = new URLSearchParams();
+
+  (Object.keys(LIST_PARAMS) as (keyof typeof LIST_PARAMS)[]).forEach((key) => {
+    const values = filters[key];
+    if (values?.length) params.set(LIST_PARAMS[key], values.join(","));
+  });
+  if (filters.wasteCategories?.length) params.set("category", filters.wasteCategories.join(","));
+  if (filters.from) params.set("from", filters.from);
+  if (filters.to) params.set("to", filters.to);
+  if (filters.isDigital !== undefined) params.set("digital", String(filters.isDigital));
+  if (filters.isPhysical !== undefined) params.set("physical", String(filters.isPhysical));
+  if (pagination?.page !== undefined) params.set("page", String(pagination.page));
+  if (pagination?.pageSize !== undefined) params.set("pageSize", String(pagination.pageSize));
+
+  return params;
+}
+
+export function parseAnalyticsPagination(params: URLSearchParams, defaultPageSize = DEFAULT_PAGE_SIZE): AnalyticsPagination {
+  const page = Math.floor(Number(params.get("page")));
+  const pageSize = Math.floor(Number(params.get("pageSize")));
+  return {
+    page: Number.isFinite(page) && page >= 1 ? page : 1,
+    pageSize: Number.isFinite(pageSize) && pageSize >= 1 ? Math.min(pageSize, MAX_PAGE_SIZE) : defaultPageSize,
+  };
+}
+
+/**
+ * The JSONB filter the analytics RPCs take. Keys are only set when they
+ * filter, since the database treats a present key as a filter.
+ */
+export function toRpcFilters(filters: AnalyticsFilters, orgId?: string | null): Record<string, unknown> {
+  const rpc: Record<string, unknown> = {};
+  if (orgId) rpc.org_id = orgId;
+  if (filters.processIds?.length) rpc.process_ids = filters.processIds;
+  if (filters.sessionIds?.length) rpc.session_ids = filters.sessionIds;
+  if (filters.stepIds?.length) rpc.step_ids = filters.stepIds;
+  if (filters.lanes?.length) rpc.lanes = filters.lanes;
+  if (filters.wasteTypeIds?.length) rpc.waste_type_ids = filters.wasteTypeIds;
+  if (filters.wasteCategories?.length) rpc.waste_categories = filters.wasteCategories;
+  if (filters.from) rpc.from = filters.from;
+  if (filters.to) rpc.to = filters.to;
+  if (filters.isDigital !== undefined) rpc.is_digital = filters.isDigital;
+  if (filters.isPhysical !== undefined) rpc.is_physical = filters.isPhysical;
+  return rpc;
+}
+
+/** The one session the filters are limited to, if any */
+export function getSingleSessionId(filters: AnalyticsFilters): string | undefined {
+  return filters.sessionIds?.length === 1 ? filters.sessionIds[0] : undefined;
+}
+
+// ============================================
+// SHAPING
+// ============================================
+
+/** Low effort when the average ease score is high */
+export function getHotspotEffort(avgEase: number): TopHotspot["effort"] {
+  if (avgEase >= 4) return "low";
+  if (avgEase >= 2.5) return "medium";
+  return "high";
+}
+
+export function buildWasteDistribution(
+  rows: { waste_type_id: string; name: string; code: string; color: string | null; count: number }[]
+): WasteDistribution[] {
+  const total = rows.reduce((sum, row) => sum + Number(row.count), 0);
+  return rows
+    .map((row) => ({
+      waste_type_id: row.waste_type_id,
+      name: row.name,
+      code: row.code,
+      count: Number(row.count),
+      percentage: total > 0 ? Math.round((Number(row.count) / total) * 100) : 0,
+      color: row.color || "#6B7280",
+    }))
+    .filter((d) => d.count > 0)
+    .sort((a, b) => b.count - a.count);
+}
+
+function toRange({ page, pageSize }: AnalyticsPagination) {
+  return { p_limit: pageSize, p_offset: (page - 1) * pageSize };
+}
+
+// ============================================
+// LOADERS
+// ============================================
+// Run with the caller's client so observation RLS applies.
+
+export async function loadAnalyticsSummary(
+  supabase: SupabaseClient,
+  filters: AnalyticsFilters,
+  orgId?: string | null
+): Promise<AnalyticsSummary> {
+  const { data, error } = await supabase.rpc("analytics_summary", { p_filters: toRpcFilters(filters, orgId) });
+  if (error) throw error;
+
+  const row = ((data || []) as Record<string, number | string>[])[0];
+  const observationCount = Number(row?.observation_count ?? 0);
+  const digitalCount = Number(row?.digital_count ?? 0);
+  return {
+    observationCount,
+    sessionCount: Number(row?.session_count ?? 0),
+    avgPriority: Number(row?.avg_priority ?? 0),
+    digitalCount,
+    physicalCount: Number(row?.physical_count ?? 0),
+    digitalPercentage: observationCount > 0 ? (digitalCount / observationCount) * 100 : 0,
+  };
+}
+
+export async function loadWasteDistribution(
+  supabase: SupabaseClient,
+  filters: AnalyticsFilters,
+  orgId?: string | null
+): Promise<WasteDistribution[]> {
+  const { data, error } = await supabase.rpc("analytics_waste_distribution", {
+    p_filters: toRpcFilters(filters, orgId),
+  });
+  if (error) throw error;
+  return buildWasteDistribution(data || []);
+}
+
+export async function loadLaneStats(
+  supabase: SupabaseClient,
+  filters: AnalyticsFilters,
+  orgId?: string | null
+): Promise<LaneStats[]> {
+  const { data, error } = await supabase.rpc("analytics_lane_stats", { p_filters: toRpcFilters(filters, orgId) });
+  if (error) throw error;
+
+  return ((data || []) as Record<string, string | number>[]).map((row) => ({
+    lane: String(row.lane),
+    observations: Number(row.observations),
+    priority: Number(row.priority),
+    digital: Number(row.digital),
+    physical: Number(row.physical),
+  }));
+}
+
+/**
+ * Annualized cost of the filtered observations, with handoff and information
+ * flow observations under each workflow's "Handoffs". Themes are only known
+ * per session, so they are filled in when the filters name exactly one.
+ */
+export async function loadAnalyticsWasteCost(
+  supabase: SupabaseClient,
+  filters: AnalyticsFilters,
+  orgId?: string | null
+): Promise<WasteCostBreakdown> {
+  const sessionId = getSingleSessionId(filters);
+  const [{ data, error }, themes] = await Promise.all([
+    supabase.rpc("analytics_cost_facts", { p_filters: toRpcFilters(filters, orgId) }),
+    sessionId ? loadCostedThemes(supabase, sessionId) : Promise.resolve([]),
+  ]);
+  if (error) throw error;
+
+  const rows = (data || []) as {
+    id: string;
+    process_id: string;
+    step_id: string | null;
+    step_name: string | null;
+    lane: string;
+    time_lost_minutes: number | string | null;
+    waste_types: CostedObservation["waste_types"] | null;
+  }[];
+  const processIds = Array.from(new Set(rows.map((row) => row.process_id).filter(Boolean)));
+  const context = await loadCostContext(supabase, processIds, orgId);
+
+  const steps = new Map<string, CostedStep>();
+  for (const row of rows) {
+    const step: CostedStep = row.step_id
+      ? {
+          id: row.step_id,
+          name: row.step_name ?? "",
+          lane: row.lane,
+          processId: row.process_id,
+          visitsPerCase: context.visits[row.step_id],
+        }
+      : getHandoffsStep(row.process_id);
+    if (!steps.has(step.id)) steps.set(step.id, step);
+  }
+
+  return calculateWasteCost({
+    rates: context.rates,
+    annualVolumes: context.annualVolumes,
+    steps: Array.from(steps.values()),
+    observations: rows.map((row) => ({
+      id: row.id,
+      step_id: row.step_id ?? getHandoffsStep(row.process_id).id,
+      time_lost_minutes: row.time_lost_minutes == null ? null : Number(row.time_lost_minutes),
+      waste_types: row.waste_types || [],
+    })),
+    themes,
+  });
+}
+
+/**
+ * Steps ranked by total priority. Cost and votes cover the filtered
+ * observations only, and votes the latest round of each filtered session.
+ */
+export async function loadTopHotspots(
+  supabase: SupabaseClient,
+  filters: AnalyticsFilters,
+  pagination: AnalyticsPagination,
+  orgId?: string | null
+): Promise<AnalyticsPage<TopHotspot>> {
+  const [{ data, error }, cost] = await Promise.all([
+    supabase.rpc("analytics_step_hotspots", { p_filters: toRpcFilters(filters, orgId), ...toRange(pagination) }),
+    loadAnalyticsWasteCost(supabase, filters, orgId),
+  ]);
+  if (error) throw error;
+
+  const rows = (data || []) as Record<string, unknown>[];
+  const offset = (pagination.page - 1) * pagination.pageSize;
+  const hotspots: TopHotspot[] = rows.map((row, index) => {
+    const stepId = String(row.step_id);
+    const stepCost = cost.steps.find((c) => c.stepId === stepId);
+    return {
+      rank: offset + index + 1,
+      step_id: stepId,
+      step_name: String(row.step_name ?? ""),
+      lane: String(row.lane ?? ""),
+      waste_types: (row.waste_types as string[] | null) || [],
+      priority_score: Number(row.priority_score),
+      observation_count: Number(row.observation_count),
+      effort: getHotspotEffort(Number(row.avg_ease)),
+      time_lost_minutes: stepCost?.timeLostMinutes ?? 0,
+      annual_cost: stepCost?.annualCost ?? 0,
+      currency: cost.currency,
+      votes: Number(row.votes ?? 0),
+    };
+  });
+
+  return { rows: hotspots, total: Number(rows[0]?.total_count ?? 0), ...pagination };
+}
+
+/** Handoffs and information flows ranked by the priority observed on them */
+export async function loadHandoffHotspots(
+  supabase: SupabaseClient,
+  filters: AnalyticsFilters,
+  pagination: AnalyticsPagination,
+  orgId?: string | null
+): Promise<AnalyticsPage<HandoffSummary>> {
+  const { data, error } = await supabase.rpc("analytics_handoff_hotspots", {
+    p_filters: toRpcFilters(filters, orgId),
+    ...toRange(pagination),
+  });
+  if (error) throw error;
+
+  const rows = (data || []) as {
+    connection_id: string | null;
+    flow_id: string | null;
+    priority_score: number | string;
+    observation_count: number | string;
+    waste_types: string[] | null;
+    observation_ids: string[] | null;
+    total_count: number | string;
+  }[];
+  const lookup = await loadHandoffLookup(supabase, rows);
+
+  const summaries: HandoffSummary[] = [];
+  for (const row of rows) {
+    const handoff = getObservationHandoff(row, lookup);
+    if (!handoff) continue;
+    summaries.push({
+      handoff,
+      observationCount: Number(row.observation_count),
+      priorityScore: Number(row.priority_score),
+      wasteTypes: row.waste_types || [],
+      observationIds: row.observation_ids || [],
+    });
+  }
+
+  return { rows: summaries, total: Number(rows[0]?.total_count ?? 0), ...pagination };
+}
+
+export async function loadObservationPage(
+  supabase: SupabaseClient,
+  filters: AnalyticsFilters,
+  pagination: AnalyticsPagination,
+  orgId?: string | null
+): Promise<AnalyticsPage<AnalyticsObservation>> {
+  const { data, error } = await supabase.rpc("analytics_observation_page", {
+    p_filters: toRpcFilters(filters, orgId),
+    ...toRange(pagination),
+  });
+  if (error) throw error;
+
+  const rows = (data || []) as (AnalyticsObservation & { total_count: number })[];
+  return {
+    rows: rows.map((row) => ({
+      id: row.id,
+      session_id: row.session_id,
+      session_name: row.session_name,
+      step_id: row.step_id,
+      step_name: row.step_name,
+      lane: row.lane,
+      priority_score: Number(row.priority_score),
+      is_digital: row.is_digital,
+      is_physical: row.is_physical,
+      notes: row.notes,
+      created_at: row.created_at,
+      waste_types: row.waste_types || [],
+    })),
+    total: Number(rows[0]?.total_count ?? 0),
+    ...pagination,
+  };
+}
@@ -0,0 +1,466 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  ImplementationItemStatus,
+  SolutionKpi,
+  SolutionKpiMeasurement,
+  WorkflowMetric,
+} from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+
+export const IMPLEMENTATION_STATUSES: { value: ImplementationItemStatus; label: string }[] = [
+  { value: "not_started", label: "Not started" },
+  { value: "in_progress", label: "In progress" },
+  { value: "done", label: "Done" },
+  { value: "abandoned", label: "Abandoned" },
+];
+
+/** Days between measurements for a new KPI */
+export const DEFAULT_MEASURE_EVERY_DAYS = 30;
+
+export interface KpiProgress {
+  kpi: SolutionKpi;
+  /** Oldest first */
+  measurements: SolutionKpiMeasurement[];
+  latest: SolutionKpiMeasurement | null;
+  /** How far the latest actual has moved from baseline (0) to target (100); can fall outside */
+  progress: number | null;
+  /** Share of the annual value realized so far, in proportion to progress */
+  realizedValue: number;
+  /** Next measurement is due on this day, YYYY-MM-DD */
+  dueOn: string;
+  isOverdue: boolean;
+}
+
+export interface SolutionBenefit {
+  solutionId: string;
+  title: string;
+  /** Implementation item tracking the solution; null until it is sequenced */
+  itemId: string | null;
+  status: ImplementationItemStatus;
+  waveId: string | null;
+  kpis: KpiProgress[];
+}
+
+/** Realized vs expected benefit of a group of solutions */
+export interface BenefitRollUp {
+  key: string;
+  label: string;
+  solutionCount: number;
+  statusCounts: Record<ImplementationItemStatus, number>;
+  kpiCount: number;
+  measuredKpiCount: number;
+  /** Annual value expected once every target is reached; abandoned solutions are left out */
+  expectedValue: number;
+  realizedValue: number;
+  /** Average progress of measured KPIs, each capped to 0-100 */
+  averageProgress: number | null;
+  overdueCount: number;
+}
+
+export interface BenefitRealization {
+  solutions: SolutionBenefit[];
+  waves: BenefitRollUp[];
+  futureStates: BenefitRollUp[];
+  total: BenefitRollUp;
+  /** The workflow's metrics, for linking KPIs */
+  metrics: WorkflowMetric[];
+  currency: string;
+}
+
+export interface BenefitInput {
+  solutions: { id: string; title: string }[];
+  items: { id: string; solutionId: string; status: ImplementationItemStatus; waveId: string | null }[];
+  /** In roadmap order */
+  waves: { id: string; name: string }[];
+  /** Solutions each future state version links to through its nodes */
+  futureStates: { id: string; name: string; version: number; solutionIds: string[] }[];
+  kpis: SolutionKpi[];
+  measurements: SolutionKpiMeasurement[];
+  metrics?: WorkflowMetric[];
+  currency?: string;
+}
+
+/** Roll-up key for accepted solutions not yet in a wave */
+export const UNSEQUENCED_KEY = "unsequenced";
+
+// ============================================
+// KPI PROGRESS
+// ============================================
+
+const clampProgress = (progress: number) => Math.min(100, Math.max(0, progress));
+
+export function getKpiProgress(kpi: Pick<SolutionKpi, "baseline_value" | "target_value">, value: number): number {
+  const baseline = Number(kpi.baseline_value);
+  const progress = ((value - baseline) / (Number(kpi.target_value) - baseline)) * 100;
+  return Math.round(progress * 10) / 10;
+}
+
+export function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** Measurements are due every few days from the last one, or from when the KPI was added */
+export function getKpiDueOn(
+  kpi: Pick<SolutionKpi, "created_at" | "measure_every_days">,
+  latest: Pick<SolutionKpiMeasurement, "measured_on"> | null
+): string {
+  const date = new Date(`${latest ? latest.measured_on : kpi.created_at.slice(0, 10)}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + kpi.measure_every_days);
+  return toDateKey(date);
+}
+
+/** KPIs are measured once their solution is being implemented */
+export function isMeasuredStatus(status: ImplementationItemStatus): boolean {
+  return status === "in_progress" || status === "done";
+}
+
+export function buildKpiProgress(
+  kpi: SolutionKpi,
+  measurements: SolutionKpiMeasurement[],
+  status: ImplementationItemStatus,
+  today: string
+): KpiProgress {
+  const sorted = [...measurements].sort(
+    (a, b) => a.measured_on.localeCompare(b.measured_on) || a.created_at.localeCompare(b.created_at)
+  );
+  const latest = sorted.length > 0 ? sorted[sorted.length - 1] : null;
+  const progress = latest ? getKpiProgress(kpi, Number(latest.value)) : null;
+  const dueOn = getKpiDueOn(kpi, latest);
+
+  return {
+    kpi,
+    measurements: sorted,
+    latest,
+    progress,
+    realizedValue: progress === null ? 0 : (Number(kpi.annual_value ?? 0) * clampProgress(progress)) / 100,
+    dueOn,
+    isOverdue: isMeasuredStatus(status) && dueOn < today,
+  };
+}
+
+// ============================================
+// ROLL-UPS
+// ============================================
+
+export function rollUpBenefits(key: string, label: string, solutions: SolutionBenefit[]): BenefitRollUp {
+  const statusCounts: Record<ImplementationItemStatus, number> = {
+    not_started: 0,
+    in_progress: 0,
+    done: 0,
+    abandoned: 0,
+  };
+  let kpiCount = 0;
+  let measuredKpiCount = 0;
+  let progressSum = 0;
+  let expectedValue = 0;
+  let realizedValue = 0;
+  let overdueCount = 0;
+
+  solutions.forEach((solution) => {
+    statusCounts[solution.status] += 1;
+    if (solution.status === "abandoned") return;
+
+    solution.kpis.forEach((kpi) => {
+      kpiCount += 1;
+      expectedValue += Number(kpi.kpi.annual_value ?? 0);
+      realizedValue += kpi.realizedValue;
+      if (kpi.isOverdue) overdueCount += 1;
+      if (kpi.progress !== null) {
+        measuredKpiCount += 1;
+        progressSum += clampProgress(kpi.progress);
+      }
+    });
+  });
+
+  return {
+    key,
+    label,
+    solutionCount: solutions.length,
+    statusCounts,
+    kpiCount,
+    measuredKpiCount,
+    expectedValue: Math.round(expectedValue),
+    realizedValue: Math.round(realizedValue),
+    averageProgress: measuredKpiCount > 0 ? Math.round(progressSum / measuredKpiCount) : null,
+    overdueCount,
+  };
+}
+
+/** Realized value as a share of expected, 0-100; null when no value is expected */
+export function getRealizationRate(rollUp: Pick<BenefitRollUp, "expectedValue" | "realizedValue">): number | null {
+  if (rollUp.expectedValue === 0) return null;
+  return Math.round((rollUp.realizedValue / rollUp.expectedValue) * 100);
+}
+
+/**
+ * Every accepted solution with its implementation status and KPI progress,
+ * rolled up per wave (in roadmap order, then solutions not yet sequenced)
+ * and per future state version (newest first, as given).
+ */
+export function buildBenefitRealization(input: BenefitInput, today: string = toDateKey(new Date())): BenefitRealization {
+  const items = new Map(input.items.map((item) => [item.solutionId, item]));
+  const measurementsByKpi = new Map<string, SolutionKpiMeasurement[]>();
+  input.measurements.forEach((m) => {
+    measurementsByKpi.set(m.kpi_id, [...(measurementsByKpi.get(m.kpi_id) || []), m]);
+  });
+
+  const solutions: SolutionBenefit[] = input.solutions.map((solution) => {
+    const item = items.get(solution.id);
+    const status = item?.status ?? "not_started";
+    return {
+      solutionId: solution.id,
+      title: solution.title,
+      itemId: item?.id ?? null,
+      status,
+      waveId: item?.waveId ?? null,
+      kpis: input.kpis
+        .filter((kpi) => kpi.solution_id === solution.id)
+        .map((kpi) => buildKpiProgress(kpi, measurementsByKpi.get(kpi.id) || [], status, today)),
+    };
+  });
+
+  const waves = input.waves.map((wave) =>
+    rollUpBenefits(
+      wave.id,
+      wave.name,
+      solutions.filter((s) => s.waveId === wave.id)
+    )
+  );
+  const waveIds = new Set(input.waves.map((wave) => wave.id));
+  const unsequenced = solutions.filter((s) => !s.waveId || !waveIds.has(s.waveId));
+  if (unsequenced.length > 0) waves.push(rollUpBenefits(UNSEQUENCED_KEY, "Not sequenced", unsequenced));
+
+  return {
+    solutions,
+    waves,
+    futureStates: input.futureStates.map((fs) =>
+      rollUpBenefits(
+        fs.id,
+        `${fs.name} v${fs.version}`,
+        solutions.filter((s) => fs.solutionIds.includes(s.solutionId))
+      )
+    ),
+    total: rollUpBenefits("total", "All solutions", solutions),
+    metrics: input.metrics || [],
+    currency: input.currency || "USD",
+  };
+}
+
+// ============================================
+// EXPORT
+// ============================================
+
+export const BENEFIT_REGISTER_HEADERS = [
+  "Level",
+  "Wave / Future State",
+  "Solution",
+  "Status",
+  "KPI",
+  "Unit",
+  "Baseline",
+  "Target",
+  "Latest",
+  "Measured On",
+  "Progress %",
+  "Expected Annual Value",
+  "Realized Annual Value",
+  "Next Due",
+  "Overdue",
+  "Measurements",
+];
+
+const cell = (value: string | null | undefined) => (value || "").replace(/,/g, ";").replace(/\n/g, " ");
+
+const statusLabel = (status: ImplementationItemStatus) =>
+  IMPLEMENTATION_STATUSES.find((s) => s.value === status)?.label || status;
+
+function rollUpRow(level: string, rollUp: BenefitRollUp): string[] {
+  const statuses = IMPLEMENTATION_STATUSES.filter((s) => rollUp.statusCounts[s.value] > 0)
+    .map((s) => `${rollUp.statusCounts[s.value]} ${s.label.toLowerCase()}`)
+    .join("; ");
+
+  return [
+    level,
+    cell(rollUp.label),
+    `${rollUp.solutionCount} solutions`,
+    statuses,
+    `${rollUp.measuredKpiCount} of ${rollUp.kpiCount} measured`,
+    "",
+    "",
+    "",
+    "",
+    "",
+    rollUp.averageProgress?.toString() ?? "",
+    rollUp.expectedValue.toString(),
+    rollUp.realizedValue.toString(),
+    "",
+    rollUp.overdueCount.toString(),
+    "",
+  ];
+}
+
+/**
+ * Rows for the benefit register CSV: one per KPI (and per solution without
+ * KPIs), then the wave, future state and total roll-ups.
+ */
+export function buildBenefitRegisterRows(realization: BenefitRealization): string[][] {
+  const waveNames = new Map(realization.waves.map((wave) => [wave.key, wave.label]));
+  const rows: string[][] = [];
+
+  realization.solutions.forEach((solution) => {
+    const wave = cell(solution.waveId ? waveNames.get(solution.waveId) : "");
+    const solutionCells = [wave, cell(solution.title), statusLabel(solution.status)];
+
+    if (solution.kpis.length === 0) {
+      rows.push(["Solution", ...solutionCells, ...Array(12).fill("")]);
+      return;
+    }
+
+    solution.kpis.forEach(({ kpi, latest, measurements, progress, realizedValue, dueOn, isOverdue }) => {
+      rows.push([
+        "KPI",
+        ...solutionCells,
+        cell(kpi.name),
+        cell(kpi.unit),
+        kpi.baseline_value.toString(),
+        kpi.target_value.toString(),
+        latest?.value.toString() ?? "",
+        latest?.measured_on ?? "",
+        progress?.toString() ?? "",
+        kpi.annual_value?.toString() ?? "",
+        Math.round(realizedValue).toString(),
+        solution.status === "abandoned" ? "" : dueOn,
+        isOverdue ? "Yes" : "No",
+        measurements.map((m) => `${m.measured_on}: ${m.value}`).join("; "),
+      ]);
+    });
+  });
+
+  realization.waves.forEach((wave) => rows.push(rollUpRow("Wave", wave)));
+  realization.futureStates.forEach((fs) => rows.push(rollUpRow("Future state", fs)));
+  rows.push(rollUpRow("Total", realization.total));
+  return rows;
+}
+
+// ============================================
+// LOADERS
+// ============================================
+
+type KpiRow = SolutionKpi & { measurements?: SolutionKpiMeasurement[] };
+
+/** Benefit realization for a session's accepted solutions */
+export async function loadBenefitRealization(
+  supabase: SupabaseClient,
+  sessionId: string,
+  today?: string
+): Promise<BenefitRealization> {
+  const { data: session, error: sessionError } = await supabase
+    .from("sessions")
+    .select("id, process_id, process:processes(org_id)")
+    .eq("id", sessionId)
+    .single();
+  if (sessionError) throw sessionError;
+
+  const process = session.process as { org_id: string | null } | { org_id: string | null }[] | null;
+  const orgId = (Array.isArray(process) ? process[0] : process)?.org_id;
+
+  const [solutionsRes, itemsRes, wavesRes, futureStatesRes, contextRes, orgRes] = await Promise.all([
+    supabase
+      .from("solution_cards")
+      .select("id, title")
+      .eq("session_id", sessionId)
+      .eq("status", "accepted")
+      .order("created_at"),
+    supabase
+      .from("implementation_items")
+      .select("id, solution_id, status, wave_items(wave_id)")
+      .eq("session_id", sessionId)
+      .eq("type", "solution"),
+    supabase
+      .from("implementation_waves")
+      .select("id, name, wave_solutions(solution_id)")
+      .eq("session_id", sessionId)
+      .order("order_index"),
+    supabase
+      .from("future_states")
+      .select("id, name, version, nodes:future_state_nodes(linked_solution_id)")
+      .eq("session_id", sessionId)
+      .order("version", { ascending: false }),
+    supabase.from("workflow_contexts").select("id").eq("workflow_id", session.process_id).maybeSingle(),
+    orgId
+      ? supabase.from("organizations").select("currency").eq("id", orgId).single()
+      : Promise.resolve({ data: null, error: null }),
+  ]);
+  if (solutionsRes.error) throw solutionsRes.error;
+  if (itemsRes.error) throw itemsRes.error;
+  if (wavesRes.error) throw wavesRes.error;
+
+  const solutions = (solutionsRes.data || []) as { id: string; title: string }[];
+  const waves = (wavesRes.data || []) as { id: string; name: string; wave_solutions?: { solution_id: string }[] }[];
+
+  // Items carry the wave; older roadmaps only have the solution link
+  const legacyWaves = new Map<string, string>();
+  waves.forEach((wave) => {
+    (wave.wave_solutions || []).forEach((ws) => legacyWaves.set(ws.solution_id, wave.id));
+  });
+
+  const [kpisRes, metricsRes] = await Promise.all([
+    solutions.length > 0
+      ? supabase
+          .from("solution_kpis")
+          .select("*, measurements:solution_kpi_measurements(*)")
+          .in(
+            "solution_id",
+            solutions.map((s) => s.id)
+          )
+          .order("created_at")
+      : Promise.resolve({ data: [], error: null }),
+    contextRes.data
+      ? supabase.from("workflow_metrics").select("*").eq("context_id", contextRes.data.id).order("order_index")
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+  if (kpisRes.error) throw kpisRes.error;
+
+  const kpis = (kpisRes.data || []) as KpiRow[];
+
+  return buildBenefitRealization(
+    {
+      solutions,
+      items: (
+        (itemsRes.data || []) as {
+          id: string;
+          solution_id: string;
+          status: ImplementationItemStatus;
+          wave_items?: { wave_id: string }[];
+        }[]
+      ).map((item) => ({
+        id: item.id,
+        solutionId: item.solution_id,
+        status: item.status,
+        waveId: item.wave_items?.[0]?.wave_id ?? legacyWaves.get(item.solution_id) ?? null,
+      })),
+      waves,
+      futureStates: (
+        (futureStatesRes.data || []) as {
+          id: string;
+          name: string;
+          version: number;
+          nodes?: { linked_solution_id: string | null }[];
+        }[]
+      ).map((fs) => ({
+        id: fs.id,
+        name: fs.name,
+        version: fs.version,
+        solutionIds: (fs.nodes || []).map((n) => n.linked_solution_id).filter((id): id is string => !!id),
+      })),
+      kpis,
+      measurements: kpis.flatMap((kpi) => kpi.measurements || []),
+      metrics: (metricsRes.data || []) as WorkflowMetric[],
+      currency: orgRes.data?.currency,
+    },
+    today
+  );
+}
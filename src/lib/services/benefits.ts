@@ -0,0 +1,107 @@
+import { getSupabaseClient } from "@/lib/supabase/client";
+import type { ImplementationItemStatus, SolutionKpi, SolutionKpiMeasurement } from "@/types";
+import { loadBenefitRealization } from "./benefitRealization";
+
+const supabase = getSupabaseClient();
+
+export interface SolutionKpiInput {
+  name: string;
+  metricId?: string | null;
+  unit?: string | null;
+  baselineValue: number;
+  targetValue: number;
+  annualValue?: number | null;
+  measureEveryDays: number;
+}
+
+// ============================================
+// BENEFIT REALIZATION
+// ============================================
+
+export async function getBenefitRealization(sessionId: string) {
+  return loadBenefitRealization(supabase, sessionId);
+}
+
+export async function updateImplementationStatus(itemId: string, status: ImplementationItemStatus) {
+  const { error } = await supabase
+    .from("implementation_items")
+    .update({ status, status_updated_at: new Date().toISOString() })
+    .eq("id", itemId);
+
+  if (error) throw error;
+}
+
+// ============================================
+// KPIS
+// ============================================
+
+function toKpiRow(input: SolutionKpiInput) {
+  return {
+    name: input.name.trim(),
+    metric_id: input.metricId || null,
+    unit: input.unit?.trim() || null,
+    baseline_value: input.baselineValue,
+    target_value: input.targetValue,
+    annual_value: input.annualValue ?? null,
+    measure_every_days: input.measureEveryDays,
+  };
+}
+
+export async function createSolutionKpi(solutionId: string, input: SolutionKpiInput) {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const { data, error } = await supabase
+    .from("solution_kpis")
+    .insert({ ...toKpiRow(input), solution_id: solutionId, created_by: user?.id ?? null })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as SolutionKpi;
+}
+
+export async function updateSolutionKpi(kpiId: string, input: SolutionKpiInput) {
+  const { data, error } = await supabase
+    .from("solution_kpis")
+    .update(toKpiRow(input))
+    .eq("id", kpiId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as SolutionKpi;
+}
+
+export async function deleteSolutionKpi(kpiId: string) {
+  const { error } = await supabase.from("solution_kpis").delete().eq("id", kpiId);
+  if (error) throw error;
+}
+
+/** Record a dated actual; the next measurement falls due from this date */
+export async function recordKpiMeasurement(kpiId: string, measuredOn: string, value: number, notes?: string) {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const { data, error } = await supabase
+    .from("solution_kpi_measurements")
+    .insert({
+      kpi_id: kpiId,
+      measured_on: measuredOn,
+      value,
+      notes: notes?.trim() || null,
+      recorded_by: user?.id ?? null,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as SolutionKpiMeasurement;
+}
+
+export async function deleteKpiMeasurement(measurementId: string) {
+  const { error } = await supabase.from("solution_kpi_measurements").delete().eq("id", measurementId);
+  if (error) throw error;
+}
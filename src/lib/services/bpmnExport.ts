@@ -0,0 +1,572 @@
+import { getSupabaseClient } from "@/lib/supabase/client";
+import { getWorkflowWithDetails, type StepConnection } from "./workflows";
+import type {
+  Process,
+  ProcessLane,
+  ProcessStep,
+  StepType,
+  FutureStateWithGraph,
+} from "@/types";
+import type { FutureStateLane } from "@/types/design-studio";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const BPMN_MODEL_NS = "http://www.omg.org/spec/BPMN/20100524/MODEL";
+const BPMN_DI_NS = "http://www.omg.org/spec/BPMN/20100524/DI";
+const DC_NS = "http://www.omg.org/spec/DD/20100524/DC";
+const DI_NS = "http://www.omg.org/spec/DD/20100524/DI";
+// Extension namespace for attributes BPMN has no equivalent for (node actions, timings)
+export const BPMN_EXTENSION_NS = "https://processopt.app/schema/bpmn/1.0";
+
+// Match the node and lane sizes used by ProcessMap so layouts open intact
+const TASK_WIDTH = 160;
+const TASK_HEIGHT = 70;
+const EVENT_SIZE = 36;
+const GATEWAY_SIZE = 50;
+const LANE_HEIGHT = 120;
+const LANE_LABEL_WIDTH = 30;
+const POOL_LABEL_WIDTH = 30;
+const DIAGRAM_PADDING = 40;
+
+// ============================================
+// TYPES
+// ============================================
+
+interface BpmnNodeModel {
+  id: string;
+  name: string;
+  type: StepType;
+  laneId: string;
+  description?: string;
+  x?: number;
+  y?: number;
+  extensions: Record<string, string | number | undefined | null>;
+}
+
+interface BpmnFlowModel {
+  id: string;
+  sourceId: string;
+  targetId: string;
+  label?: string;
+}
+
+interface BpmnLaneModel {
+  id: string;
+  name: string;
+  extensions?: Record<string, string | number | undefined | null>;
+}
+
+interface BpmnDocumentModel {
+  id: string;
+  name: string;
+  lanes: BpmnLaneModel[];
+  nodes: BpmnNodeModel[];
+  flows: BpmnFlowModel[];
+  extensions?: Record<string, string | number | undefined | null>;
+}
+
+interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// ============================================
+// XML HELPERS
+// ============================================
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * BPMN ids must be valid XML NCNames, so database UUIDs (which may start with a digit)
+ * are prefixed and stripped of anything outside the allowed character set.
+ */
+function toBpmnId(prefix: string, id: string): string {
+  return `${prefix}_${id.replace(/[^A-Za-z0-9_.-]/g, "_")}`;
+}
+
+function extensionAttrs(
+  extensions: Record<string, string | number | undefined | null> | undefined
+): string {
+  if (!extensions) return "";
+  return Object.entries(extensions)
+    .filter(([, value]) => value !== undefined && value !== null && value !== "")
+    .map(([key, value]) => ` wfo:${key}="${escapeXml(String(value))}"`)
+    .join("");
+}
+
+function bpmnElementFor(type: StepType): string {
+  switch (type) {
+    case "start":
+      return "startEvent";
+    case "end":
+      return "endEvent";
+    case "decision":
+      return "exclusiveGateway";
+    case "subprocess":
+      return "callActivity";
+    default:
+      return "task";
+  }
+}
+
+function shapeSize(type: StepType): { width: number; height: number } {
+  if (type === "start" || type === "end") return { width: EVENT_SIZE, height: EVENT_SIZE };
+  if (type === "decision") return { width: GATEWAY_SIZE, height: GATEWAY_SIZE };
+  return { width: TASK_WIDTH, height: TASK_HEIGHT };
+}
+
+// ============================================
+// LAYOUT (BPMN DIAGRAM INTERCHANGE)
+// ============================================
+
+/**
+ * Compute shape bounds from stored canvas positions. Events and gateways are centred
+ * within the task-sized box the canvas uses; steps without a position fall back to a
+ * simple left-to-right grid within their lane.
+ */
+function layoutNodes(model: BpmnDocumentModel): Map<string, Bounds> {
+  const laneIndex = new Map(model.lanes.map((lane, idx) => [lane.id, idx]));
+  const fallbackColumn = new Map<string, number>();
+  const bounds = new Map<string, Bounds>();
+
+  model.nodes.forEach((node) => {
+    const { width, height } = shapeSize(node.type);
+    let boxX = node.x;
+    let boxY = node.y;
+
+    if (boxX === undefined || boxY === undefined) {
+      const column = fallbackColumn.get(node.laneId) || 0;
+      fallbackColumn.set(node.laneId, column + 1);
+      boxX = DIAGRAM_PADDING + column * (TASK_WIDTH + DIAGRAM_PADDING);
+      boxY = (laneIndex.get(node.laneId) || 0) * LANE_HEIGHT + (LANE_HEIGHT - TASK_HEIGHT) / 2;
+    }
+
+    bounds.set(node.id, {
+      x: Math.round(boxX + (TASK_WIDTH - width) / 2) + POOL_LABEL_WIDTH + LANE_LABEL_WIDTH,
+      y: Math.round(boxY + (TASK_HEIGHT - height) / 2),
+      width,
+      height,
+    });
+  });
+
+  return bounds;
+}
+
+/**
+ * Stack lanes vertically in order, each tall enough to contain its shapes.
+ */
+function layoutLanes(
+  model: BpmnDocumentModel,
+  nodeBounds: Map<string, Bounds>,
+  poolWidth: number
+): Map<string, Bounds> {
+  const laneBounds = new Map<string, Bounds>();
+  let cursorY = 0;
+
+  model.lanes.forEach((lane) => {
+    const shapes = model.nodes
+      .filter((node) => node.laneId === lane.id)
+      .map((node) => nodeBounds.get(node.id)!)
+      .filter(Boolean);
+
+    let top = cursorY;
+    let bottom = cursorY + LANE_HEIGHT;
+    if (shapes.length > 0) {
+      const minY = Math.min(...shapes.map((b) => b.y));
+      const maxY = Math.max(...shapes.map((b) => b.y + b.height));
+      top = Math.min(cursorY, minY - (LANE_HEIGHT - TASK_HEIGHT) / 2);
+      bottom = Math.max(top + LANE_HEIGHT, maxY + (LANE_HEIGHT - TASK_HEIGHT) / 2);
+    }
+
+    laneBounds.set(lane.id, {
+      x: POOL_LABEL_WIDTH,
+      y: top,
+      width: poolWidth - POOL_LABEL_WIDTH,
+      height: bottom - top,
+    });
+    cursorY = bottom;
+  });
+
+  return laneBounds;
+}
+
+function flowWaypoints(source: Bounds, target: Bounds): Array<{ x: number; y: number }> {
+  const sourceMidY = source.y + source.height / 2;
+  const targetMidY = target.y + target.height / 2;
+
+  // Forward flows leave from the right edge; back-edges (rework loops) route underneath
+  if (target.x >= source.x + source.width) {
+    const start = { x: source.x + source.width, y: sourceMidY };
+    const end = { x: target.x, y: targetMidY };
+    if (Math.abs(start.y - end.y) < 1) return [start, end];
+    const midX = Math.round((start.x + end.x) / 2);
+    return [start, { x: midX, y: start.y }, { x: midX, y: end.y }, end];
+  }
+
+  const belowY = Math.max(source.y + source.height, target.y + target.height) + 20;
+  return [
+    { x: source.x + source.width / 2, y: source.y + source.height },
+    { x: source.x + source.width / 2, y: belowY },
+    { x: target.x + target.width / 2, y: belowY },
+    { x: target.x + target.width / 2, y: target.y + target.height },
+  ];
+}
+
+// ============================================
+// SERIALIZER
+// ============================================
+
+function buildBPMNDocument(model: BpmnDocumentModel): string {
+  const processId = toBpmnId("Process", model.id);
+  const collaborationId = toBpmnId("Collaboration", model.id);
+  const participantId = toBpmnId("Participant", model.id);
+
+  const incoming = new Map<string, string[]>();
+  const outgoing = new Map<string, string[]>();
+  model.flows.forEach((flow) => {
+    outgoing.set(flow.sourceId, [...(outgoing.get(flow.sourceId) || []), flow.id]);
+    incoming.set(flow.targetId, [...(incoming.get(flow.targetId) || []), flow.id]);
+  });
+
+  const lines: string[] = [];
+  lines.push(`<?xml version="1.0" encoding="UTF-8"?>`);
+  lines.push(
+    `<bpmn:definitions xmlns:bpmn="${BPMN_MODEL_NS}" xmlns:bpmndi="${BPMN_DI_NS}" xmlns:dc="${DC_NS}" xmlns:di="${DI_NS}" xmlns:wfo="${BPMN_EXTENSION_NS}" id="${toBpmnId("Definitions", model.id)}" targetNamespace="${BPMN_EXTENSION_NS}" exporter="ProcessOpt" exporterVersion="1.0">`
+  );
+  lines.push(`  <bpmn:collaboration id="${collaborationId}">`);
+  lines.push(
+    `    <bpmn:participant id="${participantId}" name="${escapeXml(model.name)}" processRef="${processId}" />`
+  );
+  lines.push(`  </bpmn:collaboration>`);
+  lines.push(
+    `  <bpmn:process id="${processId}" name="${escapeXml(model.name)}" isExecutable="false"${extensionAttrs(model.extensions)}>`
+  );
+
+  // Lanes
+  if (model.lanes.length > 0) {
+    lines.push(`    <bpmn:laneSet id="${toBpmnId("LaneSet", model.id)}">`);
+    model.lanes.forEach((lane) => {
+      lines.push(
+        `      <bpmn:lane id="${toBpmnId("Lane", lane.id)}" name="${escapeXml(lane.name)}"${extensionAttrs(lane.extensions)}>`
+      );
+      model.nodes
+        .filter((node) => node.laneId === lane.id)
+        .forEach((node) => {
+          lines.push(`        <bpmn:flowNodeRef>${toBpmnId("Step", node.id)}</bpmn:flowNodeRef>`);
+        });
+      lines.push(`      </bpmn:lane>`);
+    });
+    lines.push(`    </bpmn:laneSet>`);
+  }
+
+  // Flow nodes
+  model.nodes.forEach((node) => {
+    const element = bpmnElementFor(node.type);
+    const nameAttr = node.name ? ` name="${escapeXml(node.name)}"` : "";
+    lines.push(
+      `    <bpmn:${element} id="${toBpmnId("Step", node.id)}"${nameAttr}${extensionAttrs(node.extensions)}>`
+    );
+    if (node.description) {
+      lines.push(`      <bpmn:documentation>${escapeXml(node.description)}</bpmn:documentation>`);
+    }
+    (incoming.get(node.id) || []).forEach((flowId) => {
+      lines.push(`      <bpmn:incoming>${toBpmnId("Flow", flowId)}</bpmn:incoming>`);
+    });
+    (outgoing.get(node.id) || []).forEach((flowId) => {
+      lines.push(`      <bpmn:outgoing>${toBpmnId("Flow", flowId)}</bpmn:outgoing>`);
+    });
+    lines.push(`    </bpmn:${element}>`);
+  });
+
+  // Sequence flows
+  model.flows.forEach((flow) => {
+    const nameAttr = flow.label ? ` name="${escapeXml(flow.label)}"` : "";
+    lines.push(
+      `    <bpmn:sequenceFlow id="${toBpmnId("Flow", flow.id)}"${nameAttr} sourceRef="${toBpmnId("Step", flow.sourceId)}" targetRef="${toBpmnId("Step", flow.targetId)}" />`
+    );
+  });
+
+  lines.push(`  </bpmn:process>`);
+
+  // Diagram interchange
+  const nodeBounds = layoutNodes(model);
+  const maxRight = Math.max(
+    POOL_LABEL_WIDTH + LANE_LABEL_WIDTH + TASK_WIDTH,
+    ...Array.from(nodeBounds.values()).map((b) => b.x + b.width)
+  );
+  const poolWidth = maxRight + DIAGRAM_PADDING;
+  const laneBounds = layoutLanes(model, nodeBounds, poolWidth);
+  const allLaneBounds = Array.from(laneBounds.values());
+  const poolTop = allLaneBounds.length > 0 ? Math.min(...allLaneBounds.map((b) => b.y)) : 0;
+  const poolBottom =
+    allLaneBounds.length > 0
+      ? Math.max(...allLaneBounds.map((b) => b.y + b.height))
+      : Math.max(LANE_HEIGHT, ...Array.from(nodeBounds.values()).map((b) => b.y + b.height));
+
+  const boundsXml = (b: Bounds) =>
+    `<dc:Bounds x="${b.x}" y="${b.y}" width="${b.width}" height="${b.height}" />`;
+
+  lines.push(`  <bpmndi:BPMNDiagram id="${toBpmnId("Diagram", model.id)}">`);
+  lines.push(`    <bpmndi:BPMNPlane id="${toBpmnId("Plane", model.id)}" bpmnElement="${collaborationId}">`);
+  lines.push(
+    `      <bpmndi:BPMNShape id="${participantId}_di" bpmnElement="${participantId}" isHorizontal="true">${boundsXml({
+      x: 0,
+      y: poolTop,
+      width: poolWidth,
+      height: poolBottom - poolTop,
+    })}</bpmndi:BPMNShape>`
+  );
+  model.lanes.forEach((lane) => {
+    const b = laneBounds.get(lane.id)!;
+    lines.push(
+      `      <bpmndi:BPMNShape id="${toBpmnId("Lane", lane.id)}_di" bpmnElement="${toBpmnId("Lane", lane.id)}" isHorizontal="true">${boundsXml(b)}</bpmndi:BPMNShape>`
+    );
+  });
+  model.nodes.forEach((node) => {
+    const b = nodeBounds.get(node.id)!;
+    const markerAttr = node.type === "decision" ? ` isMarkerVisible="true"` : "";
+    lines.push(
+      `      <bpmndi:BPMNShape id="${toBpmnId("Step", node.id)}_di" bpmnElement="${toBpmnId("Step", node.id)}"${markerAttr}>${boundsXml(b)}</bpmndi:BPMNShape>`
+    );
+  });
+  model.flows.forEach((flow) => {
+    const source = nodeBounds.get(flow.sourceId);
+    const target = nodeBounds.get(flow.targetId);
+    if (!source || !target) return;
+    const waypoints = flowWaypoints(source, target)
+      .map((p) => `<di:waypoint x="${Math.round(p.x)}" y="${Math.round(p.y)}" />`)
+      .join("");
+    lines.push(
+      `      <bpmndi:BPMNEdge id="${toBpmnId("Flow", flow.id)}_di" bpmnElement="${toBpmnId("Flow", flow.id)}">${waypoints}</bpmndi:BPMNEdge>`
+    );
+  });
+  lines.push(`    </bpmndi:BPMNPlane>`);
+  lines.push(`  </bpmndi:BPMNDiagram>`);
+  lines.push(`</bpmn:definitions>`);
+
+  return lines.join("\n");
+}
+
+/**
+ * Resolve lanes for a set of steps: persisted lanes first (in order), then any lane
+ * names only referenced by steps.
+ */
+function resolveLanes(
+  persisted: Array<{ id: string; name: string; order_index: number }>,
+  stepLaneNames: string[]
+): { lanes: Array<{ id: string; name: string }>; idByName: Map<string, string> } {
+  const lanes = [...persisted]
+    .sort((a, b) => a.order_index - b.order_index)
+    .map((lane) => ({ id: lane.id, name: lane.name }));
+  const idByName = new Map(lanes.map((lane) => [lane.name, lane.id]));
+
+  stepLaneNames.forEach((name) => {
+    if (idByName.has(name)) return;
+    const id = `lane-${idByName.size + 1}`;
+    idByName.set(name, id);
+    lanes.push({ id, name });
+  });
+
+  return { lanes, idByName };
+}
+
+// ============================================
+// CURRENT STATE
+// ============================================
+
+/**
+ * Serialize a current-state workflow into BPMN 2.0 XML with diagram interchange.
+ * Lead and cycle times are preserved as extension attributes.
+ */
+export function serializeProcessToBPMN(args: {
+  process: Pick<Process, "id" | "name" | "description">;
+  steps: ProcessStep[];
+  lanes: ProcessLane[];
+  connections: StepConnection[];
+}): string {
+  const { process, steps, connections } = args;
+  const orderedSteps = [...steps].sort((a, b) => a.order_index - b.order_index);
+  const { lanes, idByName } = resolveLanes(
+    args.lanes,
+    orderedSteps.map((s) => s.lane)
+  );
+  const laneColors = new Map(args.lanes.map((lane) => [lane.id, lane]));
+  const stepIds = new Set(orderedSteps.map((s) => s.id));
+
+  return buildBPMNDocument({
+    id: process.id,
+    name: process.name,
+    lanes: lanes.map((lane) => ({
+      ...lane,
+      extensions: {
+        bgColor: laneColors.get(lane.id)?.bg_color,
+        borderColor: laneColors.get(lane.id)?.border_color,
+      },
+    })),
+    nodes: orderedSteps.map((step) => ({
+      id: step.id,
+      name: step.step_name,
+      type: step.step_type,
+      laneId: idByName.get(step.lane)!,
+      description: step.description,
+      x: step.position_x ?? undefined,
+      y: step.position_y ?? undefined,
+      extensions: {
+        leadTimeMinutes: step.lead_time_minutes,
+        cycleTimeMinutes: step.cycle_time_minutes,
+      },
+    })),
+    flows: connections
+      .filter((c) => stepIds.has(c.source_step_id) && stepIds.has(c.target_step_id))
+      .map((c) => ({
+        id: c.id,
+        sourceId: c.source_step_id,
+        targetId: c.target_step_id,
+        label: c.label,
+      })),
+    extensions: { stateType: "current" },
+  });
+}
+
+// ============================================
+// FUTURE STATE
+// ============================================
+
+/**
+ * Serialize a future state graph into BPMN 2.0 XML with diagram interchange.
+ * Node actions (keep/modify/remove/new) and source step links are kept as
+ * extension attributes so they survive a round trip through other modelers.
+ */
+export function serializeFutureStateToBPMN(args: {
+  futureState: FutureStateWithGraph;
+  lanes: FutureStateLane[];
+}): string {
+  const { futureState } = args;
+  const { lanes, idByName } = resolveLanes(
+    args.lanes,
+    futureState.nodes.map((n) => n.lane)
+  );
+  const laneColors = new Map(args.lanes.map((lane) => [lane.id, lane.color]));
+  const nodeIds = new Set(futureState.nodes.map((n) => n.id));
+
+  return buildBPMNDocument({
+    id: futureState.id,
+    name: `${futureState.name} (v${futureState.version})`,
+    lanes: lanes.map((lane) => ({
+      ...lane,
+      extensions: { color: laneColors.get(lane.id) },
+    })),
+    nodes: futureState.nodes.map((node) => ({
+      id: node.id,
+      name: node.name,
+      type: node.step_type,
+      laneId: idByName.get(node.lane)!,
+      description: node.description,
+      x: node.position_x,
+      y: node.position_y,
+      extensions: {
+        action: node.action,
+        sourceStepId: node.source_step_id,
+        linkedSolutionId: node.linked_solution_id,
+        leadTimeMinutes: node.lead_time_minutes,
+        cycleTimeMinutes: node.cycle_time_minutes,
+      },
+    })),
+    flows: [...futureState.edges]
+      .sort((a, b) => a.order_index - b.order_index)
+      .filter((e) => nodeIds.has(e.source_node_id) && nodeIds.has(e.target_node_id))
+      .map((edge) => ({
+        id: edge.id,
+        sourceId: edge.source_node_id,
+        targetId: edge.target_node_id,
+        label: edge.label,
+      })),
+    extensions: {
+      stateType: "future",
+      status: futureState.status,
+      version: futureState.version,
+    },
+  });
+}
+
+// ============================================
+// DOWNLOADS
+// ============================================
+
+function downloadBPMN(filename: string, xml: string) {
+  const blob = new Blob([xml], { type: "application/xml;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+function safeBpmnFilename(value: string): string {
+  return (
+    value
+      .trim()
+      .replace(/[^\w\-]+/g, "_")
+      .replace(/_+/g, "_")
+      .replace(/^_+|_+$/g, "")
+      .slice(0, 80) || "workflow"
+  );
+}
+
+/**
+ * Download a workflow's current-state map as a .bpmn file
+ */
+export async function exportWorkflowToBPMN(processId: string): Promise<void> {
+  const { process, steps, connections, lanes } = await getWorkflowWithDetails(processId);
+  const xml = serializeProcessToBPMN({ process, steps, connections, lanes });
+  downloadBPMN(`${safeBpmnFilename(process.name)}.bpmn`, xml);
+}
+
+/**
+ * Download the latest future state of a session as a .bpmn file
+ */
+export async function exportFutureStateBPMN(sessionId: string): Promise<void> {
+  const supabase = getSupabaseClient();
+
+  const { data: futureState, error } = await supabase
+    .from("future_states")
+    .select(`
+      *,
+      nodes:future_state_nodes(*),
+      edges:future_state_edges(*)
+    `)
+    .eq("session_id", sessionId)
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!futureState) throw new Error("No future state has been designed for this session");
+
+  const { data: lanes } = await supabase
+    .from("future_state_lanes")
+    .select("*")
+    .eq("future_state_id", futureState.id)
+    .order("order_index", { ascending: true });
+
+  const xml = serializeFutureStateToBPMN({
+    futureState: futureState as FutureStateWithGraph,
+    lanes: (lanes || []) as FutureStateLane[],
+  });
+  downloadBPMN(
+    `${safeBpmnFilename(futureState.name)}-v${futureState.version}.bpmn`,
+    xml
+  );
+}
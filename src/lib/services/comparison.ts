@@ -1,6 +1,5 @@
 import { getSupabaseClient } from "@/lib/supabase/client";
-import { getWasteDistribution, getWasteByLane, getTopHotspots } from "./analytics";
-import { getSessionObservationSummary } from "./observations";
+import { getAnalyticsSummary, getWasteDistribution, getWasteByLane, getTopHotspots } from "./analytics";
 import type { WasteDistribution, LaneStats, TopHotspot } from "./analytics";
 
 const supabase = getSupabaseClient();
@@ -157,12 +156,13 @@ export async function getSessionComparisonData(sessionId: string): Promise<Sessi
 
   if (error) throw error;
 
-  // Get all metrics
+  // Get all metrics, aggregated server-side
+  const filters = { sessionIds: [sessionId] };
   const [summary, distribution, lanes, hotspots] = await Promise.all([
-    getSessionObservationSummary(sessionId),
-    getWasteDistribution(sessionId),
-    getWasteByLane(sessionId),
-    getTopHotspots(sessionId, 5),
+    getAnalyticsSummary(filters),
+    getWasteDistribution(filters),
+    getWasteByLane(filters),
+    getTopHotspots(filters, 5),
   ]);
 
   return {
@@ -170,7 +170,7 @@ export async function getSessionComparisonData(sessionId: string): Promise<Sessi
     sessionName: session.name,
     processName: session.process?.name || "Unknown Process",
     createdAt: session.created_at,
-    observationCount: summary.totalCount,
+    observationCount: summary.observationCount,
     avgPriority: summary.avgPriority,
     digitalPercentage: summary.digitalPercentage,
     wasteDistribution: distribution,
@@ -0,0 +1,452 @@
+import { createObservation } from "./observations";
+import { getWasteTypeByCode } from "./wasteTypes";
+import type { EventLog } from "./processMining";
+import type { Observation, ProcessStep } from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ConformanceModel {
+  steps: Pick<ProcessStep, "id" | "step_name" | "step_type">[];
+  connections: { source_step_id: string; target_step_id: string }[];
+}
+
+export interface StepConformanceStats {
+  executions: number;
+  skipped: number;
+  rework: number;
+}
+
+export interface SkippedStep {
+  stepId: string;
+  stepName: string;
+  cases: number;
+}
+
+export interface UnexpectedTransition {
+  fromStepId: string | null; // null = the case started here
+  toStepId: string;
+  fromName: string;
+  toName: string;
+  cases: number;
+  occurrences: number;
+}
+
+export interface ReworkLoop {
+  stepId: string;
+  stepName: string;
+  cases: number;
+  occurrences: number; // Repeat executions beyond the first
+}
+
+export interface ConformanceVariant {
+  activities: string[];
+  count: number;
+  fitness: number;
+  deviations: string[];
+}
+
+export interface ConformanceResult {
+  caseCount: number;
+  /** Average per-case fitness (0-1): share of moves that agree with the model */
+  fitness: number;
+  fittingCaseCount: number;
+  stepStats: Record<string, StepConformanceStats>;
+  /** Traversal counts for modeled connections, keyed `${source}-${target}` like ProcessMap edges */
+  edgeTraversals: Record<string, number>;
+  skippedSteps: SkippedStep[];
+  unexpectedTransitions: UnexpectedTransition[];
+  reworkLoops: ReworkLoop[];
+  unmatchedActivities: { activity: string; occurrences: number }[];
+  deviatingVariants: ConformanceVariant[];
+}
+
+/** What ProcessMap needs to draw conformance badges on steps and edges */
+export interface ConformanceOverlay {
+  steps: Record<string, StepConformanceStats>;
+  edges: Record<string, number>;
+  unexpectedEdges: { source: string; target: string; count: number }[];
+}
+
+export interface ConformanceObservationCandidate {
+  key: string;
+  kind: "skipped" | "unexpected" | "rework";
+  stepId: string;
+  notes: string;
+  wasteCode: string;
+  caseShare: number;
+  frequencyScore: number;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Steps of these types are usually not logged by source systems, so they are
+// replayed silently unless the log actually names them
+const SILENT_STEP_TYPES = new Set<ProcessStep["step_type"]>(["start", "end", "decision"]);
+
+// Lean waste each deviation kind most often points to
+const DEVIATION_WASTE_CODES: Record<ConformanceObservationCandidate["kind"], string> = {
+  rework: "D", // Defects: work is redone
+  skipped: "E", // Extra processing: the modeled step may not be needed
+  unexpected: "T", // Transportation: work is handed off along unplanned paths
+};
+
+const MAX_DEVIATING_VARIANTS = 10;
+
+// ============================================
+// REPLAY
+// ============================================
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function edgeKey(source: string, target: string): string {
+  return `${source}-${target}`;
+}
+
+/** Breadth-first search for the shortest modeled path from any source to the target */
+function shortestPath(
+  sources: string[],
+  target: string,
+  successors: Map<string, string[]>
+): string[] | null {
+  const previous = new Map<string, string | null>();
+  const queue: string[] = [];
+  sources.forEach((source) => {
+    (successors.get(source) || []).forEach((next) => {
+      if (!previous.has(next)) {
+        previous.set(next, source);
+        queue.push(next);
+      }
+    });
+  });
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === target) {
+      const path = [current];
+      let step = previous.get(current);
+      while (step !== null && step !== undefined) {
+        path.unshift(step);
+        if (sources.includes(step)) break;
+        step = previous.get(step);
+      }
+      return path;
+    }
+    (successors.get(current) || []).forEach((next) => {
+      if (!previous.has(next)) {
+        previous.set(next, current);
+        queue.push(next);
+      }
+    });
+  }
+  return null;
+}
+
+/**
+ * Replay an event log against a modeled process. Activities are matched to
+ * steps by name; each case walks the step connections, recording skipped
+ * steps, transitions the model does not allow and repeated (rework) steps.
+ */
+export function checkConformance(log: EventLog, model: ConformanceModel): ConformanceResult {
+  const stepsById = new Map(model.steps.map((s) => [s.id, s]));
+  const stepByName = new Map(model.steps.map((s) => [normalizeName(s.step_name), s.id]));
+  const successors = new Map<string, string[]>();
+  const hasIncoming = new Set<string>();
+  model.connections.forEach((c) => {
+    if (!stepsById.has(c.source_step_id) || !stepsById.has(c.target_step_id)) return;
+    successors.set(c.source_step_id, [...(successors.get(c.source_step_id) || []), c.target_step_id]);
+    hasIncoming.add(c.target_step_id);
+  });
+
+  const loggedSteps = new Set<string>();
+  log.cases.forEach((c) =>
+    c.activities.forEach((a) => {
+      const stepId = stepByName.get(normalizeName(a.activity));
+      if (stepId) loggedSteps.add(stepId);
+    })
+  );
+  const isSilent = (stepId: string) =>
+    SILENT_STEP_TYPES.has(stepsById.get(stepId)!.step_type) && !loggedSteps.has(stepId);
+
+  const typedStarts = model.steps.filter((s) => s.step_type === "start").map((s) => s.id);
+  const startSteps = typedStarts.length > 0 ? typedStarts : model.steps.filter((s) => !hasIncoming.has(s.id)).map((s) => s.id);
+  const typedEnds = model.steps.filter((s) => s.step_type === "end").map((s) => s.id);
+  const endSteps = typedEnds.length > 0 ? typedEnds : model.steps.filter((s) => !successors.has(s.id)).map((s) => s.id);
+
+  const stepStats: Record<string, StepConformanceStats> = {};
+  const statsFor = (stepId: string) =>
+    (stepStats[stepId] ||= { executions: 0, skipped: 0, rework: 0 });
+  const edgeTraversals: Record<string, number> = {};
+  const skippedCases = new Map<string, number>();
+  const unexpected = new Map<string, UnexpectedTransition>();
+  const rework = new Map<string, ReworkLoop>();
+  const unmatched = new Map<string, number>();
+  const variants = new Map<string, ConformanceVariant>();
+
+  let fitnessTotal = 0;
+  let fittingCaseCount = 0;
+
+  log.cases.forEach((c) => {
+    let current: string | null = null;
+    let deviations = 0;
+    let moves = 0;
+    const executed = new Map<string, number>();
+    const caseSkipped = new Set<string>();
+    const caseUnexpected = new Set<string>();
+    const caseRework = new Set<string>();
+    const notes: string[] = [];
+
+    const walk = (path: string[], includeLast: boolean) => {
+      for (let i = 0; i < path.length - 1; i++) {
+        const key = edgeKey(path[i], path[i + 1]);
+        edgeTraversals[key] = (edgeTraversals[key] || 0) + 1;
+      }
+      const skippedSteps = path.slice(1, includeLast ? path.length : -1).filter((id) => !isSilent(id));
+      skippedSteps.forEach((id) => {
+        statsFor(id).skipped++;
+        caseSkipped.add(id);
+        notes.push(`Skipped "${stepsById.get(id)!.step_name}"`);
+      });
+      deviations += skippedSteps.length;
+      moves += skippedSteps.length;
+    };
+
+    c.activities.forEach(({ activity }) => {
+      const stepId = stepByName.get(normalizeName(activity));
+      moves++;
+      if (!stepId) {
+        unmatched.set(activity, (unmatched.get(activity) || 0) + 1);
+        deviations++;
+        notes.push(`Unmodeled activity "${activity}"`);
+        return;
+      }
+
+      if (executed.has(stepId)) {
+        const loop = rework.get(stepId) || {
+          stepId,
+          stepName: stepsById.get(stepId)!.step_name,
+          cases: 0,
+          occurrences: 0,
+        };
+        loop.occurrences++;
+        if (!caseRework.has(stepId)) loop.cases++;
+        rework.set(stepId, loop);
+        caseRework.add(stepId);
+        statsFor(stepId).rework++;
+        notes.push(`Repeated "${loop.stepName}"`);
+      }
+
+      const path =
+        current === null
+          ? startSteps.includes(stepId)
+            ? [stepId]
+            : shortestPath(startSteps, stepId, successors)
+          : shortestPath([current], stepId, successors);
+
+      if (path) {
+        // A case that begins past the first modeled step skipped that step too
+        const skippedStart = current === null && path.length > 1 && !isSilent(path[0]);
+        walk(path, false);
+        if (skippedStart) {
+          statsFor(path[0]).skipped++;
+          caseSkipped.add(path[0]);
+          deviations++;
+          moves++;
+          notes.push(`Skipped "${stepsById.get(path[0])!.step_name}"`);
+        }
+      } else if (stepId === current) {
+        // Immediate repeat without a modeled loop: already recorded as rework
+        deviations++;
+      } else {
+        const key = `${current ?? ""}>${stepId}`;
+        const transition = unexpected.get(key) || {
+          fromStepId: current,
+          toStepId: stepId,
+          fromName: current ? stepsById.get(current)!.step_name : "Case start",
+          toName: stepsById.get(stepId)!.step_name,
+          cases: 0,
+          occurrences: 0,
+        };
+        transition.occurrences++;
+        if (!caseUnexpected.has(key)) transition.cases++;
+        unexpected.set(key, transition);
+        caseUnexpected.add(key);
+        deviations++;
+        notes.push(`Unexpected "${transition.fromName}" → "${transition.toName}"`);
+      }
+
+      statsFor(stepId).executions++;
+      executed.set(stepId, (executed.get(stepId) || 0) + 1);
+      current = stepId;
+    });
+
+    // Finish the case: anything between the last activity and an end step was skipped
+    if (current !== null && !endSteps.includes(current)) {
+      const toEnd = endSteps
+        .map((end) => shortestPath([current!], end, successors))
+        .filter((p): p is string[] => p !== null)
+        .sort((a, b) => a.length - b.length)[0];
+      if (toEnd) walk(toEnd, true);
+    }
+
+    caseSkipped.forEach((id) => skippedCases.set(id, (skippedCases.get(id) || 0) + 1));
+
+    const fitness = moves > 0 ? Math.max(0, 1 - deviations / moves) : 1;
+    fitnessTotal += fitness;
+    if (deviations === 0) fittingCaseCount++;
+
+    const activities = c.activities.map((a) => a.activity);
+    const variantKey = JSON.stringify(activities);
+    const variant = variants.get(variantKey) || {
+      activities,
+      count: 0,
+      fitness,
+      deviations: Array.from(new Set(notes)),
+    };
+    variant.count++;
+    variants.set(variantKey, variant);
+  });
+
+  const caseCount = log.cases.length;
+
+  return {
+    caseCount,
+    fitness: caseCount > 0 ? fitnessTotal / caseCount : 1,
+    fittingCaseCount,
+    stepStats,
+    edgeTraversals,
+    skippedSteps: Array.from(skippedCases.entries())
+      .map(([stepId, cases]) => ({ stepId, stepName: stepsById.get(stepId)!.step_name, cases }))
+      .sort((a, b) => b.cases - a.cases),
+    unexpectedTransitions: Array.from(unexpected.values()).sort((a, b) => b.cases - a.cases),
+    reworkLoops: Array.from(rework.values()).sort((a, b) => b.cases - a.cases),
+    unmatchedActivities: Array.from(unmatched.entries())
+      .map(([activity, occurrences]) => ({ activity, occurrences }))
+      .sort((a, b) => b.occurrences - a.occurrences),
+    deviatingVariants: Array.from(variants.values())
+      .filter((v) => v.fitness < 1)
+      .sort((a, b) => b.count * (1 - b.fitness) - a.count * (1 - a.fitness))
+      .slice(0, MAX_DEVIATING_VARIANTS),
+  };
+}
+
+/**
+ * Shape a conformance result for the ProcessMap overlay
+ */
+export function getConformanceOverlay(result: ConformanceResult): ConformanceOverlay {
+  return {
+    steps: result.stepStats,
+    edges: result.edgeTraversals,
+    unexpectedEdges: result.unexpectedTransitions
+      .filter((t) => t.fromStepId !== null)
+      .map((t) => ({ source: t.fromStepId!, target: t.toStepId, count: t.cases })),
+  };
+}
+
+// ============================================
+// OBSERVATION CANDIDATES
+// ============================================
+
+/** Map the share of affected cases to the 1-5 observation frequency score */
+function frequencyScoreForShare(share: number): number {
+  if (share >= 0.5) return 5;
+  if (share >= 0.25) return 4;
+  if (share >= 0.1) return 3;
+  if (share >= 0.05) return 2;
+  return 1;
+}
+
+/**
+ * Turn deviations into candidate waste walk observations, most widespread first
+ */
+export function getConformanceObservationCandidates(
+  result: ConformanceResult
+): ConformanceObservationCandidate[] {
+  const pct = (cases: number) => Math.round((cases / result.caseCount) * 100);
+  const candidate = (
+    kind: ConformanceObservationCandidate["kind"],
+    key: string,
+    stepId: string,
+    cases: number,
+    notes: string
+  ): ConformanceObservationCandidate => ({
+    key,
+    kind,
+    stepId,
+    notes,
+    wasteCode: DEVIATION_WASTE_CODES[kind],
+    caseShare: cases / result.caseCount,
+    frequencyScore: frequencyScoreForShare(cases / result.caseCount),
+  });
+
+  return [
+    ...result.reworkLoops.map((loop) =>
+      candidate(
+        "rework",
+        `rework:${loop.stepId}`,
+        loop.stepId,
+        loop.cases,
+        `Rework: "${loop.stepName}" is repeated in ${loop.cases} of ${result.caseCount} cases (${pct(loop.cases)}%).`
+      )
+    ),
+    ...result.skippedSteps.map((skip) =>
+      candidate(
+        "skipped",
+        `skipped:${skip.stepId}`,
+        skip.stepId,
+        skip.cases,
+        `"${skip.stepName}" is skipped in ${skip.cases} of ${result.caseCount} cases (${pct(skip.cases)}%).`
+      )
+    ),
+    ...result.unexpectedTransitions.map((t) =>
+      candidate(
+        "unexpected",
+        `unexpected:${t.fromStepId ?? ""}>${t.toStepId}`,
+        t.toStepId,
+        t.cases,
+        `Unmodeled path "${t.fromName}" → "${t.toName}" taken in ${t.cases} of ${result.caseCount} cases (${pct(t.cases)}%).`
+      )
+    ),
+  ].sort((a, b) => b.caseShare - a.caseShare);
+}
+
+/**
+ * Record selected deviation candidates as observations in a waste walk session
+ */
+export async function createObservationsFromDeviations(
+  sessionId: string,
+  candidates: ConformanceObservationCandidate[]
+): Promise<Observation[]> {
+  const wasteTypeIds = new Map<string, string>();
+  for (const code of Array.from(new Set(candidates.map((c) => c.wasteCode)))) {
+    try {
+      wasteTypeIds.set(code, (await getWasteTypeByCode(code)).id);
+    } catch {
+      // Org may have removed the waste type; create the observation without a link
+    }
+  }
+
+  const created: Observation[] = [];
+  for (const candidate of candidates) {
+    const wasteTypeId = wasteTypeIds.get(candidate.wasteCode);
+    created.push(
+      await createObservation({
+        session_id: sessionId,
+        step_id: candidate.stepId,
+        notes: `[Conformance] ${candidate.notes}`,
+        is_digital: true,
+        is_physical: false,
+        frequency_score: candidate.frequencyScore,
+        impact_score: 3,
+        ease_score: 3,
+        waste_type_ids: wasteTypeId ? [wasteTypeId] : [],
+      })
+    );
+  }
+  return created;
+}
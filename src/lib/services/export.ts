@@ -1,8 +1,28 @@
 import { getSessionById } from "./sessions";
 import { getObservationsBySession } from "./observations";
-import { getWasteDistribution, getWasteByLane, getTopHotspots } from "./analytics";
+import {
+  getWasteDistribution,
+  getWasteByLane,
+  getTopHotspots,
+  getWasteCost,
+  getSessionScoringModel,
+} from "./analytics";
 import type { ReactFlowInstance, Node as ReactFlowNode } from "reactflow";
 import { getSupabaseClient } from "@/lib/supabase/client";
+import { exportFutureStateBPMN } from "./bpmnExport";
+import { formatDuration } from "./processTiming";
+import { formatCurrency, getSolutionSavings } from "./wasteCost";
+import { describeScoringModel, getObservationScores } from "./scoringModel";
+import { describeObservationTarget, loadHandoffLookup } from "./observationTargets";
+import { ANONYMOUS_OBSERVER_NAME, canSeeObservers, getObserverName } from "./observerPrivacy";
+import { getCurrentUser } from "./users";
+import { BENEFIT_REGISTER_HEADERS, buildBenefitRegisterRows, loadBenefitRealization } from "./benefitRealization";
+import {
+  runSessionSimulation,
+  type SessionSimulation,
+  type SimulationOptions,
+  type SimulationResult,
+} from "./simulation";
 import type {
   InsightTheme,
   SolutionCard,
@@ -25,6 +45,7 @@ export interface ExportSections {
 export interface FutureStateExportSections {
   executiveSummary: boolean;
   futureStateDiagram: boolean;
+  futureStateBpmn: boolean;
   solutionRegister: boolean;
   roadmap: boolean;
   themeAnalysis: boolean;
@@ -32,6 +53,8 @@ export interface FutureStateExportSections {
   stepDesignSpecs: boolean;
   traceabilityMatrix: boolean;
   implementationNotes: boolean;
+  simulationReport: boolean;
+  benefitRegister: boolean;
 }
 
 // ============================================
@@ -69,13 +92,16 @@ export async function exportToPDF(
   const autoTableModule = await import("jspdf-autotable");
   const autoTable = autoTableModule.default;
 
-  const [session, observations, distribution, laneStats, hotspots] = await Promise.all([
+  const [session, observations, distribution, laneStats, hotspots, wasteCost, scoringModel] = await Promise.all([
     getSessionById(sessionId),
     getObservationsBySession(sessionId),
-    getWasteDistribution(sessionId),
-    getWasteByLane(sessionId),
-    getTopHotspots(sessionId, 10),
+    getWasteDistribution({ sessionIds: [sessionId] }),
+    getWasteByLane({ sessionIds: [sessionId] }),
+    getTopHotspots({ sessionIds: [sessionId] }, 10),
+    getWasteCost(sessionId),
+    getSessionScoringModel(sessionId),
   ]);
+  const money = (amount: number) => formatCurrency(amount, wasteCost.currency);
 
   if (!session) throw new Error("Session not found");
 
@@ -121,11 +147,17 @@ export async function exportToPDF(
   doc.text(`Average Priority Score: ${avgPriority}`, 20, yPosition);
   yPosition += 6;
 
+  const scoringLines = doc.splitTextToSize(`Scoring: ${describeScoringModel(scoringModel)}`, 170);
+  doc.text(scoringLines, 20, yPosition);
+  yPosition += 6 * scoringLines.length;
+
   const digitalCount = observations.filter((o) => o.is_digital).length;
   const digitalPercentage = observations.length > 0
     ? Math.round((digitalCount / observations.length) * 100)
     : 0;
   doc.text(`Digital Waste: ${digitalPercentage}%`, 20, yPosition);
+  yPosition += 6;
+  doc.text(`Annual Cost of Waste: ${money(wasteCost.totalAnnualCost)}`, 20, yPosition);
   yPosition += 15;
 
   // Waste Distribution
@@ -137,8 +169,12 @@ export async function exportToPDF(
 
     autoTable(doc, {
       startY: yPosition,
-      head: [["Waste Type", "Percentage"]],
-      body: distribution.map((d) => [d.name, `${d.percentage}%`]),
+      head: [["Waste Type", "Percentage", "Annual Cost"]],
+      body: distribution.map((d) => [
+        d.name,
+        `${d.percentage}%`,
+        money(wasteCost.wasteTypes.find((w) => w.code === d.code)?.annualCost ?? 0),
+      ]),
       headStyles: {
         fillColor: brandGold,
         textColor: brandNavy,
@@ -191,12 +227,14 @@ export async function exportToPDF(
 
     autoTable(doc, {
       startY: yPosition,
-      head: [["Step", "Observations", "Priority Score", "Effort"]],
+      head: [["Step", "Observations", "Priority Score", "Votes", "Effort", "Annual Cost"]],
       body: hotspots.map((h) => [
         h.step_name,
         h.observation_count.toString(),
         h.priority_score.toString(),
+        h.votes.toString(),
         h.effort,
+        money(h.annual_cost),
       ]),
       headStyles: {
         fillColor: brandGold,
@@ -782,35 +820,56 @@ export async function exportToPPTX(
 // ============================================
 
 export async function exportToCSV(sessionId: string): Promise<void> {
-  const observations = await getObservationsBySession(sessionId);
+  const supabase = getSupabaseClient();
+  const [observations, scoringModel, session, viewer] = await Promise.all([
+    getObservationsBySession(sessionId),
+    getSessionScoringModel(sessionId),
+    getSessionById(sessionId),
+    getCurrentUser(),
+  ]);
+  const showObservers = canSeeObservers(session, viewer?.role);
+
+  // Name what each observation is about: a step, a handoff or an information flow
+  const stepIds = Array.from(new Set(observations.map((o) => o.step_id).filter((id): id is string => !!id)));
+  const [handoffs, { data: steps }] = await Promise.all([
+    loadHandoffLookup(supabase, observations),
+    stepIds.length > 0
+      ? supabase.from("process_steps").select("id, step_name").in("id", stepIds)
+      : Promise.resolve({ data: [] }),
+  ]);
+  const stepNames = Object.fromEntries(
+    ((steps || []) as { id: string; step_name: string }[]).map((s) => [s.id, s.step_name])
+  );
 
+  // One column per dimension of the model the session was scored with
   const headers = [
     "Step ID",
+    "Target",
     "Waste Types",
     "Notes",
     "Digital",
     "Physical",
-    "Frequency",
-    "Impact",
-    "Ease",
-    "Priority Score",
+    ...scoringModel.dimensions.map((d) => d.label.replace(/,/g, ";")),
+    scoringModel.name.replace(/,/g, ";"),
     "User",
     "Created At",
   ];
 
-  const rows = observations.map((obs) => [
-    obs.step_id || "",
-    obs.waste_types?.map((wt) => wt.name).join("; ") || "",
-    (obs.notes || "").replace(/,/g, ";").replace(/\n/g, " "),
-    obs.is_digital ? "Yes" : "No",
-    obs.is_physical ? "Yes" : "No",
-    obs.frequency_score?.toString() || "",
-    obs.impact_score?.toString() || "",
-    obs.ease_score?.toString() || "",
-    obs.priority_score?.toString() || "",
-    obs.user?.name || "",
-    new Date(obs.created_at).toISOString(),
-  ]);
+  const rows = observations.map((obs) => {
+    const scores = getObservationScores(scoringModel, obs);
+    return [
+      obs.step_id || "",
+      describeObservationTarget(obs, handoffs, stepNames).replace(/,/g, ";"),
+      obs.waste_types?.map((wt) => wt.name).join("; ") || "",
+      (obs.notes || "").replace(/,/g, ";").replace(/\n/g, " "),
+      obs.is_digital ? "Yes" : "No",
+      obs.is_physical ? "Yes" : "No",
+      ...scoringModel.dimensions.map((d) => scores[d.key].toString()),
+      obs.priority_score?.toString() || "",
+      (showObservers ? getObserverName(obs) : ANONYMOUS_OBSERVER_NAME).replace(/,/g, ";"),
+      new Date(obs.created_at).toISOString(),
+    ];
+  });
 
   const csv = [headers, ...rows].map((row) => row.join(",")).join("\n");
   const blob = new Blob([csv], { type: "text/csv" });
@@ -829,12 +888,17 @@ export async function exportToCSV(sessionId: string): Promise<void> {
 interface FutureStateStudioData {
   session: { id: string; name: string };
   themes: InsightTheme[];
-  solutions: SolutionCard[];
+  solutions: FutureStateStudioSolution[];
   waves: Array<ImplementationWave & { solutions?: SolutionCard[] }>;
   futureStates: Array<FutureState & { nodes?: FutureStateNode[] }>;
   currentStepCount: number;
 }
 
+type FutureStateStudioSolution = SolutionCard & {
+  solution_themes?: Array<{ theme_id: string }>;
+  solution_observations?: Array<{ observation_id: string }>;
+};
+
 async function fetchFutureStateStudioData(sessionId: string): Promise<FutureStateStudioData | null> {
   const supabase = getSupabaseClient();
 
@@ -854,7 +918,7 @@ async function fetchFutureStateStudioData(sessionId: string): Promise<FutureStat
       .order("created_at"),
     supabase
       .from("solution_cards")
-      .select("*")
+      .select("*, solution_themes(theme_id), solution_observations(observation_id)")
       .eq("session_id", sessionId)
       .order("created_at"),
     supabase
@@ -884,7 +948,7 @@ async function fetchFutureStateStudioData(sessionId: string): Promise<FutureStat
   return {
     session: { id: session.id, name: session.name },
     themes: (themesRes.data || []) as InsightTheme[],
-    solutions: (solutionsRes.data || []) as SolutionCard[],
+    solutions: (solutionsRes.data || []) as FutureStateStudioSolution[],
     waves: (wavesRes.data || []).map((w: ImplementationWave & { wave_solutions?: Array<{ solution: SolutionCard }> }) => ({
       ...w,
       solutions: (w.wave_solutions || []).map((ws) => ws.solution) || [],
@@ -898,9 +962,19 @@ async function fetchFutureStateStudioData(sessionId: string): Promise<FutureStat
  * Export Future State Studio Executive Summary PDF
  */
 export async function exportFutureStateSummaryPDF(sessionId: string): Promise<void> {
-  const data = await fetchFutureStateStudioData(sessionId);
+  const [data, wasteCost] = await Promise.all([
+    fetchFutureStateStudioData(sessionId),
+    getWasteCost(sessionId),
+  ]);
   if (!data) throw new Error("Session not found");
 
+  const money = (amount: number) => formatCurrency(amount, wasteCost.currency);
+  const savings = (solution: FutureStateStudioSolution) =>
+    getSolutionSavings(wasteCost, {
+      themeIds: solution.solution_themes?.map((t) => t.theme_id),
+      observationIds: solution.solution_observations?.map((o) => o.observation_id),
+    });
+
   const jsPDFModule = await import("jspdf");
   const jsPDF = jsPDFModule.default;
   const autoTableModule = await import("jspdf-autotable");
@@ -942,6 +1016,14 @@ export async function exportFutureStateSummaryPDF(sessionId: string): Promise<vo
   const modifiedCount = futureNodes.filter((n) => n.action === "modify").length;
   const newCount = futureNodes.filter((n) => n.action === "new").length;
   const futureStepCount = futureNodes.filter((n) => n.action !== "remove").length;
+  const acceptedSavings = getSolutionSavings(wasteCost, {
+    themeIds: data.solutions
+      .filter((s) => s.status === "accepted")
+      .flatMap((s) => s.solution_themes?.map((t) => t.theme_id) || []),
+    observationIds: data.solutions
+      .filter((s) => s.status === "accepted")
+      .flatMap((s) => s.solution_observations?.map((o) => o.observation_id) || []),
+  });
 
   autoTable(doc, {
     startY: yPosition,
@@ -956,6 +1038,8 @@ export async function exportFutureStateSummaryPDF(sessionId: string): Promise<vo
       ["Steps Eliminated", removedCount.toString()],
       ["Steps Modified", modifiedCount.toString()],
       ["New Steps", newCount.toString()],
+      ["Annual Cost of Waste", money(wasteCost.totalAnnualCost)],
+      ["Est. Annual Savings (Accepted)", money(acceptedSavings)],
     ],
     headStyles: {
       fillColor: brandGold,
@@ -1014,12 +1098,13 @@ export async function exportFutureStateSummaryPDF(sessionId: string): Promise<vo
     const acceptedSolutions = data.solutions.filter((s) => s.status === "accepted");
     autoTable(doc, {
       startY: yPosition,
-      head: [["Solution", "Type", "Effort", "Wave"]],
+      head: [["Solution", "Type", "Effort", "Wave", "Est. Savings/yr"]],
       body: acceptedSolutions.map((s) => [
         s.title,
         s.bucket,
         s.effort_level || "N/A",
         s.recommended_wave || "N/A",
+        money(savings(s)),
       ]),
       headStyles: {
         fillColor: brandGold,
@@ -1615,6 +1700,190 @@ export async function exportImplementationNotes(sessionId: string): Promise<void
   URL.revokeObjectURL(url);
 }
 
+/**
+ * Export Benefit Register (CSV): implementation status and KPI actuals per
+ * solution, with realized vs expected benefit per wave and future state
+ */
+export async function exportBenefitRegister(sessionId: string): Promise<void> {
+  const supabase = getSupabaseClient();
+
+  const { data: session } = await supabase
+    .from("sessions")
+    .select("id, name")
+    .eq("id", sessionId)
+    .single();
+
+  if (!session) throw new Error("Session not found");
+
+  const realization = await loadBenefitRealization(supabase, sessionId);
+  const headers = [...BENEFIT_REGISTER_HEADERS];
+  headers[11] = `Expected Annual Value (${realization.currency})`;
+  headers[12] = `Realized Annual Value (${realization.currency})`;
+
+  const csv = [headers, ...buildBenefitRegisterRows(realization)].map((row) => row.join(",")).join("\n");
+  const blob = new Blob([csv], { type: "text/csv" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `${session.name}-benefit-register.csv`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Export Throughput Simulation PDF (current vs future state). Pass the results
+ * shown on screen to export them as-is; otherwise the simulation runs here.
+ */
+export async function exportSimulationReportPDF(
+  sessionId: string,
+  options: SimulationOptions = {},
+  simulation?: SessionSimulation
+): Promise<void> {
+  const supabase = getSupabaseClient();
+  const { data: session } = await supabase
+    .from("sessions")
+    .select("id, name")
+    .eq("id", sessionId)
+    .single();
+
+  if (!session) throw new Error("Session not found");
+
+  const results = simulation ?? (await runSessionSimulation(sessionId, options));
+  const { current, future } = results;
+
+  const jsPDFModule = await import("jspdf");
+  const jsPDF = jsPDFModule.default;
+  const autoTableModule = await import("jspdf-autotable");
+  const autoTable = autoTableModule.default;
+
+  const doc = new jsPDF();
+  const brandGold = [255, 192, 0] as [number, number, number];
+  const brandNavy = [16, 42, 67] as [number, number, number];
+  const headStyles = { fillColor: brandGold, textColor: brandNavy, fontStyle: "bold" as const };
+  const finalY = () => (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+  let yPosition = 20;
+
+  doc.setFontSize(24);
+  doc.setTextColor(...brandNavy);
+  doc.text("Throughput Simulation", 20, yPosition);
+  yPosition += 10;
+
+  doc.setFontSize(12);
+  doc.setTextColor(100, 100, 100);
+  doc.text(`Session: ${session.name}`, 20, yPosition);
+  yPosition += 6;
+  doc.text(`Future state: ${results.futureStateName ?? "None"}`, 20, yPosition);
+  yPosition += 6;
+  doc.text(
+    `${current.options.casesPerDay} cases/day, ${current.options.caseCount} cases x ${current.options.replications} runs, ` +
+      `variability ${Math.round(current.options.variability * 100)}%`,
+    20,
+    yPosition
+  );
+  yPosition += 12;
+
+  // Lead time percentiles
+  const leadRow = (label: string, pick: (r: SimulationResult) => number) => [
+    label,
+    formatDuration(pick(current)),
+    future ? formatDuration(pick(future)) : "—",
+    future && pick(current) > 0
+      ? `${Math.round(((pick(future) - pick(current)) / pick(current)) * 100)}%`
+      : "—",
+  ];
+
+  doc.setFontSize(16);
+  doc.setTextColor(...brandNavy);
+  doc.text("Lead Time per Case", 20, yPosition);
+  autoTable(doc, {
+    startY: yPosition + 4,
+    head: [["Percentile", "Current", "Future", "Change"]],
+    body: [
+      leadRow("Median (P50)", (r) => r.leadTime.p50),
+      leadRow("P80", (r) => r.leadTime.p80),
+      leadRow("P95", (r) => r.leadTime.p95),
+      leadRow("Mean", (r) => r.leadTime.mean),
+    ],
+    headStyles,
+    alternateRowStyles: { fillColor: [245, 245, 245] },
+    columnStyles: { 0: { fontStyle: "bold" } },
+  });
+  yPosition = finalY() + 15;
+
+  // Lane utilization
+  const laneNames = Array.from(
+    new Set([...current.lanes.map((l) => l.lane), ...(future?.lanes || []).map((l) => l.lane)])
+  );
+  const utilization = (result: SimulationResult | null, lane: string) => {
+    const match = result?.lanes.find((l) => l.lane === lane);
+    return match ? `${Math.round(match.utilization * 100)}%` : "—";
+  };
+
+  doc.setFontSize(16);
+  doc.setTextColor(...brandNavy);
+  doc.text("Lane Utilization", 20, yPosition);
+  autoTable(doc, {
+    startY: yPosition + 4,
+    head: [["Lane", "People", "Current", "Future"]],
+    body: laneNames.map((lane) => [
+      lane,
+      String((current.lanes.find((l) => l.lane === lane) ?? future?.lanes.find((l) => l.lane === lane))?.capacity ?? 1),
+      utilization(current, lane),
+      utilization(future, lane),
+    ]),
+    headStyles,
+    alternateRowStyles: { fillColor: [245, 245, 245] },
+  });
+  yPosition = finalY() + 15;
+
+  // Queue build-up
+  const queueTable = (title: string, result: SimulationResult) => {
+    if (yPosition > 220) {
+      doc.addPage();
+      yPosition = 20;
+    }
+    doc.setFontSize(16);
+    doc.setTextColor(...brandNavy);
+    doc.text(title, 20, yPosition);
+    autoTable(doc, {
+      startY: yPosition + 4,
+      head: [["Step", "Lane", "Avg Queue", "Max Queue", "Avg Wait"]],
+      body: [...result.steps]
+        .filter((s) => s.visitsPerCase > 0)
+        .sort((a, b) => b.avgQueueWaitMinutes - a.avgQueueWaitMinutes)
+        .map((s) => [
+          s.stepName,
+          s.lane,
+          s.avgQueueLength.toFixed(1),
+          String(s.maxQueueLength),
+          formatDuration(s.avgQueueWaitMinutes),
+        ]),
+      headStyles,
+      alternateRowStyles: { fillColor: [245, 245, 245] },
+    });
+    yPosition = finalY() + 15;
+  };
+
+  queueTable("Queue Build-up: Current State", current);
+  if (future) queueTable("Queue Build-up: Future State", future);
+
+  // Footer
+  const pageCount = doc.getNumberOfPages();
+  for (let i = 1; i <= pageCount; i++) {
+    doc.setPage(i);
+    doc.setFontSize(9);
+    doc.setTextColor(150, 150, 150);
+    doc.text(
+      `Page ${i} of ${pageCount} | Future State Studio | ${new Date().toLocaleDateString()}`,
+      doc.internal.pageSize.getWidth() / 2,
+      doc.internal.pageSize.getHeight() - 10,
+      { align: "center" }
+    );
+  }
+
+  doc.save(`${session.name}-throughput-simulation.pdf`);
+}
+
 /**
  * Export complete Future State Studio package
  */
@@ -1628,6 +1897,10 @@ export async function exportFutureStateStudioPackage(
     exports.push(exportFutureStateSummaryPDF(sessionId));
   }
 
+  if (sections.futureStateBpmn) {
+    exports.push(exportFutureStateBPMN(sessionId));
+  }
+
   if (sections.solutionRegister) {
     exports.push(exportSolutionRegister(sessionId));
   }
@@ -1648,6 +1921,14 @@ export async function exportFutureStateStudioPackage(
     exports.push(exportImplementationNotes(sessionId));
   }
 
+  if (sections.simulationReport) {
+    exports.push(exportSimulationReportPDF(sessionId));
+  }
+
+  if (sections.benefitRegister) {
+    exports.push(exportBenefitRegister(sessionId));
+  }
+
   // Execute all exports
   await Promise.all(exports);
 }
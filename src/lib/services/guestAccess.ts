@@ -0,0 +1,103 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ProcessStep, Session, SessionGuestLink, SessionPhase, WasteType } from "@/types";
+import type { ScoringModelDefinition } from "./scoringModel";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type GuestLinkStatus = "active" | "expired" | "revoked";
+
+/** Lifetimes a facilitator can pick for a guest link */
+export const GUEST_LINK_HOURS = [2, 8, 24, 72];
+
+export const GUEST_NAME_MAX_LENGTH = 60;
+
+/** What the guest page needs to tag waste in one session */
+export interface GuestSessionView {
+  session: Pick<Session, "id" | "name" | "anonymous_observations">;
+  steps: Pick<ProcessStep, "id" | "step_name" | "lane" | "step_type" | "order_index" | "description">[];
+  lanes: string[];
+  waste_types: WasteType[];
+  scoring_model: ScoringModelDefinition;
+  phases: SessionPhase[];
+  expires_at: string;
+}
+
+export interface GuestObservationRequest {
+  guest_id: string;
+  step_id: string;
+  notes?: string;
+  is_digital: boolean;
+  is_physical: boolean;
+  scores: Record<string, number>;
+  time_lost_minutes?: number | null;
+  waste_type_ids: string[];
+}
+
+type GuestLinkSession = Pick<Session, "id" | "name" | "process_id" | "status" | "anonymous_observations">;
+
+// ============================================
+// LINKS
+// ============================================
+
+export function getGuestLinkStatus(
+  link: Pick<SessionGuestLink, "expires_at" | "revoked_at">,
+  now: Date = new Date()
+): GuestLinkStatus {
+  if (link.revoked_at) return "revoked";
+  return new Date(link.expires_at) > now ? "active" : "expired";
+}
+
+export function getGuestJoinPath(token: string): string {
+  return `/join/${token}`;
+}
+
+/** 32 random bytes, URL-safe; the token is the only secret in a guest link */
+export function createGuestToken(): string {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** Trimmed, length-limited guest name; blank stays anonymous */
+export function normalizeGuestName(name: unknown): string | null {
+  if (typeof name !== "string") return null;
+  const trimmed = name.trim().slice(0, GUEST_NAME_MAX_LENGTH);
+  return trimmed || null;
+}
+
+// ============================================
+// LOADING
+// ============================================
+
+/**
+ * A guest link and its session, whether or not the link can still be used.
+ * Pass a service-role client: guests have no rows of their own to read.
+ */
+export async function loadGuestLink(
+  supabase: SupabaseClient,
+  token: string
+): Promise<{ link: SessionGuestLink; session: GuestLinkSession; status: GuestLinkStatus } | null> {
+  const { data: link, error } = await supabase
+    .from("session_guest_links")
+    .select("*")
+    .eq("token", token)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!link) return null;
+
+  const { data: session, error: sessionError } = await supabase
+    .from("sessions")
+    .select("id, name, process_id, status, anonymous_observations")
+    .eq("id", link.session_id)
+    .single();
+
+  if (sessionError) throw sessionError;
+  return {
+    link: link as SessionGuestLink,
+    session: session as GuestLinkSession,
+    status: getGuestLinkStatus(link as SessionGuestLink),
+  };
+}
@@ -0,0 +1,65 @@
+import { getSupabaseClient } from "@/lib/supabase/client";
+import type { SessionGuest, SessionGuestLink } from "@/types";
+import { createGuestToken } from "./guestAccess";
+
+const supabase = getSupabaseClient();
+
+// ============================================
+// GUEST LINKS
+// ============================================
+
+export async function getGuestLinks(sessionId: string) {
+  const { data, error } = await supabase
+    .from("session_guest_links")
+    .select("*")
+    .eq("session_id", sessionId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as SessionGuestLink[];
+}
+
+export async function createGuestLink(sessionId: string, hours: number, label?: string) {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const { data, error } = await supabase
+    .from("session_guest_links")
+    .insert({
+      session_id: sessionId,
+      token: createGuestToken(),
+      label: label?.trim() || null,
+      expires_at: new Date(Date.now() + hours * 3600000).toISOString(),
+      created_by: user?.id ?? null,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as SessionGuestLink;
+}
+
+/** Stop a link from working; guests who joined through it can no longer add observations */
+export async function revokeGuestLink(linkId: string) {
+  const { data, error } = await supabase
+    .from("session_guest_links")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", linkId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as SessionGuestLink;
+}
+
+export async function getSessionGuests(sessionId: string) {
+  const { data, error } = await supabase
+    .from("session_guests")
+    .select("*")
+    .eq("session_id", sessionId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as SessionGuest[];
+}
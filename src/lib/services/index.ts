@@ -5,6 +5,7 @@ export * from "./observations";
 export * from "./training";
 export * from "./wasteTypes";
 export * from "./analytics";
+export * from "./analyticsQuery";
 export * from "./storage";
 export * from "./comparison";
 export * from "./users";
@@ -15,5 +16,33 @@ export * from "./insights";
 export * from "./notifications";
 export * from "./informationFlows";
 export * from "./stepAttachments";
+export * from "./bpmnExport";
+export * from "./workflowExport";
+export * from "./processMining";
+export * from "./conformance";
+export * from "./processTiming";
+export * from "./simulation";
+export * from "./wasteCost";
+export * from "./workflowLint";
+export * from "./subprocesses";
+export * from "./offlineSession";
+export * from "./offlineAttachments";
+export * from "./voteTally";
+export * from "./voting";
+export * from "./raterAgreement";
+export * from "./scoreCalibrations";
+export * from "./scoringModel";
+export * from "./observationTargets";
+export * from "./sessionCoverage";
+export * from "./sessionAgenda";
+export * from "./agenda";
+export * from "./observerPrivacy";
+export * from "./guestAccess";
+export * from "./guestLinks";
+export * from "./processTrends";
+export * from "./pareto";
+export * from "./portfolio";
+export * from "./benefitRealization";
+export * from "./benefits";
 // workflowEditor exports are imported directly where needed to avoid conflicts
 
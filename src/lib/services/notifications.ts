@@ -11,7 +11,7 @@ export interface Notification {
   user_id: string;
   title: string;
   message: string;
-  type: "session_started" | "session_ended" | "observation_added" | "invitation" | "system";
+  type: "session_started" | "session_ended" | "observation_added" | "invitation" | "nudge" | "benefit_reminder" | "system";
   read: boolean;
   data?: Record<string, unknown>;
   created_at: string;
@@ -381,3 +381,36 @@ export async function notifySessionParticipants(
   }
 }
 
+export interface SessionNudgeInput {
+  sessionId: string;
+  sessionName: string;
+  /** Lane the facilitator wants looked at */
+  lane: string;
+  message: string;
+  userIds: string[];
+}
+
+/**
+ * Facilitator nudge to selected participants, e.g. to walk an uncovered lane.
+ * Each recipient gets a notification row; the session page shows it as a toast.
+ */
+export async function sendSessionNudge(input: SessionNudgeInput): Promise<void> {
+  if (input.userIds.length === 0) return;
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const { error } = await supabase.from("notifications").insert(
+    input.userIds.map((userId) => ({
+      user_id: userId,
+      title: `Look at ${input.lane}`,
+      message: input.message,
+      type: "nudge",
+      data: { session_id: input.sessionId, session_name: input.sessionName, lane: input.lane, sent_by: user?.id },
+      read: false,
+    }))
+  );
+
+  if (error) throw error;
+}
@@ -0,0 +1,122 @@
+import type { ObservationField, ObservationFields, FieldResolution } from "@/types/offlineSync";
+
+// ============================================
+// FIELDS
+// ============================================
+
+export const OBSERVATION_FIELDS: ObservationField[] = [
+  "step_id",
+  "notes",
+  "is_digital",
+  "is_physical",
+  "frequency_score",
+  "impact_score",
+  "ease_score",
+  "scores",
+  "time_lost_minutes",
+  "waste_type_ids",
+];
+
+export const OBSERVATION_FIELD_LABELS: Record<ObservationField, string> = {
+  step_id: "Step",
+  connection_id: "Handoff",
+  flow_id: "Information flow",
+  notes: "Notes",
+  is_digital: "Digital",
+  is_physical: "Physical",
+  frequency_score: "Frequency",
+  impact_score: "Impact",
+  ease_score: "Ease",
+  scores: "Scores",
+  time_lost_minutes: "Time lost (min)",
+  waste_type_ids: "Waste types",
+};
+
+/** Fields where both versions can be kept: notes are joined, waste types combined */
+export const MERGEABLE_FIELDS: ObservationField[] = ["notes", "waste_type_ids"];
+
+/** Compare one field; waste types compare as a set, empty notes as no notes */
+export function isSameFieldValue(
+  field: ObservationField,
+  a: ObservationFields,
+  b: ObservationFields
+): boolean {
+  if (field === "waste_type_ids") {
+    const left = new Set(a.waste_type_ids);
+    return left.size === new Set(b.waste_type_ids).size && b.waste_type_ids.every((id) => left.has(id));
+  }
+  if (field === "notes") return (a.notes || "") === (b.notes || "");
+  if (field === "time_lost_minutes") return (a.time_lost_minutes ?? null) === (b.time_lost_minutes ?? null);
+  if (field === "scores") {
+    const left = a.scores || {};
+    const right = b.scores || {};
+    const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+    return Array.from(keys).every((key) => left[key] === right[key]);
+  }
+  return a[field] === b[field];
+}
+
+export function getChangedFields(from: ObservationFields, to: ObservationFields): ObservationField[] {
+  return OBSERVATION_FIELDS.filter((field) => !isSameFieldValue(field, from, to));
+}
+
+// ============================================
+// CONFLICTS
+// ============================================
+
+/**
+ * Fields changed on the device and on the server to different values. Without
+ * the values the device started from, every differing field counts.
+ */
+export function getConflictingFields(
+  base: ObservationFields | undefined,
+  mine: ObservationFields,
+  theirs: ObservationFields
+): ObservationField[] {
+  return OBSERVATION_FIELDS.filter((field) => {
+    if (isSameFieldValue(field, mine, theirs)) return false;
+    if (!base) return true;
+    return !isSameFieldValue(field, base, mine) && !isSameFieldValue(field, base, theirs);
+  });
+}
+
+function mergeFieldValues(
+  field: ObservationField,
+  mine: ObservationFields,
+  theirs: ObservationFields
+): Partial<ObservationFields> {
+  if (field === "waste_type_ids") {
+    return { waste_type_ids: Array.from(new Set([...theirs.waste_type_ids, ...mine.waste_type_ids])) };
+  }
+  if (field === "notes") {
+    return { notes: [theirs.notes, mine.notes].filter((n) => n && n.trim()).join("\n\n") };
+  }
+  return { [field]: mine[field] };
+}
+
+/**
+ * Settle a conflict field by field. Fields only one side changed keep that
+ * side's value; conflicting fields follow the user's choice and default to
+ * the server's value.
+ */
+export function resolveObservationFields(
+  base: ObservationFields | undefined,
+  mine: ObservationFields,
+  theirs: ObservationFields,
+  resolutions: Partial<Record<ObservationField, FieldResolution>>
+): ObservationFields {
+  const conflicting = new Set(getConflictingFields(base, mine, theirs));
+  let resolved: ObservationFields = { ...theirs };
+
+  for (const field of OBSERVATION_FIELDS) {
+    if (conflicting.has(field)) {
+      const choice = resolutions[field] ?? "theirs";
+      if (choice === "mine") resolved = { ...resolved, [field]: mine[field] };
+      if (choice === "merge") resolved = { ...resolved, ...mergeFieldValues(field, mine, theirs) };
+    } else if (base && !isSameFieldValue(field, base, mine)) {
+      resolved = { ...resolved, [field]: mine[field] };
+    }
+  }
+
+  return resolved;
+}
@@ -0,0 +1,231 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Observation } from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ObservationTargetType = "step" | "connection" | "flow";
+
+/** What an observation is about: a step, a handoff, or an information flow */
+export interface ObservationTarget {
+  type: ObservationTargetType;
+  id: string;
+}
+
+type TargetColumns = Pick<Observation, "step_id" | "connection_id" | "flow_id">;
+
+/** A handoff or information flow, resolved to the steps either side */
+export interface Handoff {
+  type: Exclude<ObservationTargetType, "step">;
+  id: string;
+  sourceStepId: string | null;
+  targetStepId: string | null;
+  /** e.g. "Triage → Registration", prefixed with the flow name for flows */
+  label: string;
+}
+
+/** Handoffs keyed by getTargetKey */
+export type HandoffLookup = Record<string, Handoff>;
+
+export interface HandoffSummary {
+  handoff: Handoff;
+  observationCount: number;
+  priorityScore: number;
+  wasteTypes: string[];
+  observationIds: string[];
+}
+
+// ============================================
+// TARGETS
+// ============================================
+
+export function getObservationTarget(observation: Partial<TargetColumns>): ObservationTarget | null {
+  if (observation.step_id) return { type: "step", id: observation.step_id };
+  if (observation.connection_id) return { type: "connection", id: observation.connection_id };
+  if (observation.flow_id) return { type: "flow", id: observation.flow_id };
+  return null;
+}
+
+/** Column values for an observation on the target; the other two are cleared */
+export function getTargetColumns(target: ObservationTarget): TargetColumns {
+  return {
+    step_id: target.type === "step" ? target.id : null,
+    connection_id: target.type === "connection" ? target.id : null,
+    flow_id: target.type === "flow" ? target.id : null,
+  };
+}
+
+export function getTargetKey(target: ObservationTarget): string {
+  return `${target.type}:${target.id}`;
+}
+
+/** Key ProcessMap uses for the edge between two steps */
+export function getEdgeKey(sourceStepId: string, targetStepId: string): string {
+  return `${sourceStepId}-${targetStepId}`;
+}
+
+// ============================================
+// HANDOFFS
+// ============================================
+
+export function buildHandoffLookup(
+  connections: { id?: string; source_step_id: string | null; target_step_id: string | null }[],
+  flows: { id: string; name: string; source_step_id?: string | null; target_step_id?: string | null }[],
+  stepNames: Record<string, string>
+): HandoffLookup {
+  const lookup: HandoffLookup = {};
+  const between = (source?: string | null, target?: string | null) =>
+    `${(source && stepNames[source]) || "Unknown"} → ${(target && stepNames[target]) || "Unknown"}`;
+
+  for (const c of connections) {
+    if (!c.id) continue;
+    lookup[getTargetKey({ type: "connection", id: c.id })] = {
+      type: "connection",
+      id: c.id,
+      sourceStepId: c.source_step_id,
+      targetStepId: c.target_step_id,
+      label: between(c.source_step_id, c.target_step_id),
+    };
+  }
+  for (const f of flows) {
+    lookup[getTargetKey({ type: "flow", id: f.id })] = {
+      type: "flow",
+      id: f.id,
+      sourceStepId: f.source_step_id ?? null,
+      targetStepId: f.target_step_id ?? null,
+      label: `${f.name} (${between(f.source_step_id, f.target_step_id)})`,
+    };
+  }
+  return lookup;
+}
+
+export function getObservationHandoff(
+  observation: Partial<TargetColumns>,
+  lookup: HandoffLookup
+): Handoff | null {
+  const target = getObservationTarget(observation);
+  if (!target || target.type === "step") return null;
+  return lookup[getTargetKey(target)] ?? null;
+}
+
+/** "Step: …", "Handoff: A → B" or "Flow: Name (A → B)" for exports and prompts */
+export function describeObservationTarget(
+  observation: Partial<TargetColumns>,
+  lookup: HandoffLookup,
+  stepNames: Record<string, string>
+): string {
+  const target = getObservationTarget(observation);
+  if (!target) return "Unknown";
+  if (target.type === "step") return `Step: ${stepNames[target.id] || "Unknown"}`;
+  const label = lookup[getTargetKey(target)]?.label || "Unknown";
+  return target.type === "connection" ? `Handoff: ${label}` : `Flow: ${label}`;
+}
+
+/** Observation count and summed priority per map edge, for the heatmap */
+export function summarizeEdgeObservations(
+  observations: (Partial<TargetColumns> & { priority_score: number })[],
+  lookup: HandoffLookup
+): Record<string, { count: number; priorityScore: number }> {
+  const stats: Record<string, { count: number; priorityScore: number }> = {};
+
+  for (const obs of observations) {
+    const handoff = getObservationHandoff(obs, lookup);
+    if (!handoff?.sourceStepId || !handoff.targetStepId) continue;
+    const key = getEdgeKey(handoff.sourceStepId, handoff.targetStepId);
+    stats[key] = stats[key] || { count: 0, priorityScore: 0 };
+    stats[key].count += 1;
+    stats[key].priorityScore += obs.priority_score;
+  }
+
+  return stats;
+}
+
+/** Handoff and flow observations grouped per target, highest priority first */
+export function summarizeHandoffs(
+  observations: (Partial<TargetColumns> & {
+    id: string;
+    priority_score: number;
+    waste_types?: { name: string }[];
+  })[],
+  lookup: HandoffLookup
+): HandoffSummary[] {
+  const byTarget = new Map<string, HandoffSummary>();
+
+  for (const obs of observations) {
+    const handoff = getObservationHandoff(obs, lookup);
+    if (!handoff) continue;
+    const key = getTargetKey(handoff);
+    let summary = byTarget.get(key);
+    if (!summary) {
+      summary = { handoff, observationCount: 0, priorityScore: 0, wasteTypes: [], observationIds: [] };
+      byTarget.set(key, summary);
+    }
+    summary.observationCount += 1;
+    summary.priorityScore = Math.round((summary.priorityScore + obs.priority_score) * 100) / 100;
+    summary.observationIds.push(obs.id);
+    for (const wt of obs.waste_types || []) {
+      if (!summary.wasteTypes.includes(wt.name)) summary.wasteTypes.push(wt.name);
+    }
+  }
+
+  return Array.from(byTarget.values()).sort(
+    (a, b) => b.priorityScore - a.priorityScore || b.observationCount - a.observationCount
+  );
+}
+
+// ============================================
+// LOADING
+// ============================================
+
+/** Resolve the handoffs and flows the observations point at */
+export async function loadHandoffLookup(
+  supabase: SupabaseClient,
+  observations: Partial<TargetColumns>[]
+): Promise<HandoffLookup> {
+  const connectionIds = Array.from(
+    new Set(observations.map((o) => o.connection_id).filter((id): id is string => !!id))
+  );
+  const flowIds = Array.from(new Set(observations.map((o) => o.flow_id).filter((id): id is string => !!id)));
+  if (connectionIds.length === 0 && flowIds.length === 0) return {};
+
+  const [connectionsResult, flowsResult] = await Promise.all([
+    connectionIds.length > 0
+      ? supabase.from("step_connections").select("id, source_step_id, target_step_id").in("id", connectionIds)
+      : Promise.resolve({ data: [], error: null }),
+    flowIds.length > 0
+      ? supabase.from("information_flows").select("id, name, source_step_id, target_step_id").in("id", flowIds)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+  if (connectionsResult.error) throw connectionsResult.error;
+  if (flowsResult.error) throw flowsResult.error;
+
+  const connections = (connectionsResult.data || []) as {
+    id: string;
+    source_step_id: string | null;
+    target_step_id: string | null;
+  }[];
+  const flows = (flowsResult.data || []) as {
+    id: string;
+    name: string;
+    source_step_id: string | null;
+    target_step_id: string | null;
+  }[];
+
+  const stepIds = Array.from(
+    new Set(
+      [...connections, ...flows]
+        .flatMap((c) => [c.source_step_id, c.target_step_id])
+        .filter((id): id is string => !!id)
+    )
+  );
+  const { data: steps, error: stepsError } = stepIds.length > 0
+    ? await supabase.from("process_steps").select("id, step_name").in("id", stepIds)
+    : { data: [], error: null };
+  if (stepsError) throw stepsError;
+
+  const stepNames = Object.fromEntries(
+    ((steps || []) as { id: string; step_name: string }[]).map((s) => [s.id, s.step_name])
+  );
+  return buildHandoffLookup(connections, flows, stepNames);
+}
@@ -10,18 +10,27 @@ export interface ObservationWithDetails extends Observation {
     email: string;
     avatar_url?: string;
   };
+  guest?: { id: string; display_name: string | null } | null;
   waste_types?: WasteType[];
 }
 
 export interface CreateObservationInput {
   session_id: string;
-  step_id: string;
+  /** Set exactly one of step_id, connection_id and flow_id */
+  step_id?: string | null;
+  connection_id?: string | null;
+  flow_id?: string | null;
   notes?: string;
   is_digital: boolean;
   is_physical: boolean;
   frequency_score: number;
   impact_score: number;
   ease_score: number;
+  /** Score per scoring model dimension key */
+  scores?: Record<string, number>;
+  /** Computed with the session's scoring model */
+  priority_score?: number;
+  time_lost_minutes?: number | null;
   waste_type_ids: string[];
   attachments?: string[];
 }
@@ -35,7 +44,8 @@ export async function getObservationsBySession(sessionId: string) {
     .from("observations")
     .select(`
       *,
-      user:users(id, name, email, avatar_url)
+      user:users(id, name, email, avatar_url),
+      guest:session_guests(id, display_name)
     `)
     .eq("session_id", sessionId)
     .order("created_at", { ascending: false });
@@ -46,8 +56,11 @@ export async function getObservationsBySession(sessionId: string) {
   interface ObservationData {
     id: string;
     session_id: string;
-    step_id: string;
-    user_id: string;
+    step_id: string | null;
+    connection_id?: string | null;
+    flow_id?: string | null;
+    user_id: string | null;
+    guest_id?: string | null;
     notes?: string;
     is_digital: boolean;
     is_physical: boolean;
@@ -58,6 +71,7 @@ export async function getObservationsBySession(sessionId: string) {
     created_at: string;
     updated_at: string;
     user?: { id: string; name: string; email: string; avatar_url?: string };
+    guest?: { id: string; display_name: string | null } | null;
   }
 
   const observationsWithWasteTypes = await Promise.all(
@@ -94,7 +108,8 @@ export async function getObservationById(id: string) {
     .from("observations")
     .select(`
       *,
-      user:users(id, name, email, avatar_url)
+      user:users(id, name, email, avatar_url),
+      guest:session_guests(id, display_name)
     `)
     .eq("id", id)
     .single();
@@ -129,7 +144,9 @@ export async function createObservation(input: CreateObservationInput) {
     .from("observations")
     .insert({
       session_id: input.session_id,
-      step_id: input.step_id,
+      step_id: input.step_id ?? null,
+      connection_id: input.connection_id ?? null,
+      flow_id: input.flow_id ?? null,
       user_id: user.id,
       notes: input.notes,
       is_digital: input.is_digital,
@@ -137,6 +154,9 @@ export async function createObservation(input: CreateObservationInput) {
       frequency_score: input.frequency_score,
       impact_score: input.impact_score,
       ease_score: input.ease_score,
+      scores: input.scores,
+      priority_score: input.priority_score,
+      time_lost_minutes: input.time_lost_minutes ?? null,
       attachments: input.attachments || [],
     })
     .select()
@@ -173,6 +193,9 @@ export async function updateObservation(
   if (input.frequency_score !== undefined) updates.frequency_score = input.frequency_score;
   if (input.impact_score !== undefined) updates.impact_score = input.impact_score;
   if (input.ease_score !== undefined) updates.ease_score = input.ease_score;
+  if (input.scores !== undefined) updates.scores = input.scores;
+  if (input.priority_score !== undefined) updates.priority_score = input.priority_score;
+  if (input.time_lost_minutes !== undefined) updates.time_lost_minutes = input.time_lost_minutes;
 
   const { data, error } = await supabase
     .from("observations")
@@ -223,10 +246,17 @@ export async function deleteObservation(id: string) {
 
 export async function getStepObservationStats(sessionId: string) {
   const observations = await getObservationsBySession(sessionId);
-  
+  return summarizeStepObservations(observations);
+}
+
+/** Observation count and summed priority per step, for the map heatmap */
+export function summarizeStepObservations(
+  observations: Pick<Observation, "step_id" | "priority_score">[]
+) {
   const statsMap: Record<string, { count: number; priorityScore: number }> = {};
   
   observations.forEach(obs => {
+    if (!obs.step_id) return;
     if (!statsMap[obs.step_id]) {
       statsMap[obs.step_id] = { count: 0, priorityScore: 0 };
     }
@@ -0,0 +1,66 @@
+import type { Session } from "@/types";
+import type { AgreementGroup } from "./raterAgreement";
+
+// ============================================
+// TYPES
+// ============================================
+
+export const ANONYMOUS_OBSERVER_NAME = "Anonymous";
+
+interface ObserverFields {
+  user_id: string | null;
+  guest_id?: string | null;
+  user?: { name: string } | null;
+  guest?: { display_name: string | null } | null;
+}
+
+// ============================================
+// OBSERVERS
+// ============================================
+
+/** Only admins see who recorded what in an anonymous session */
+export function canSeeObservers(
+  session: Pick<Session, "anonymous_observations"> | null | undefined,
+  viewerRole?: string | null
+): boolean {
+  return !session?.anonymous_observations || viewerRole === "admin";
+}
+
+/**
+ * Who recorded an observation: the member's name, or the guest's. An
+ * observation with neither has had its observer hidden.
+ */
+export function getObserverName(observation: Partial<ObserverFields>): string {
+  if (observation.user?.name) return observation.user.name;
+  if (observation.guest_id || observation.guest) {
+    return observation.guest?.display_name ? `${observation.guest.display_name} (guest)` : "Guest";
+  }
+  return observation.user_id === null ? ANONYMOUS_OBSERVER_NAME : "Unknown";
+}
+
+/**
+ * Drop authorship from everyone else's observations. The viewer keeps their
+ * own, so they can still find and edit them.
+ */
+export function hideObservers<T extends ObserverFields>(observations: T[], viewerUserId?: string): T[] {
+  return observations.map((observation) =>
+    viewerUserId && observation.user_id === viewerUserId
+      ? observation
+      : { ...observation, user_id: null, guest_id: null, user: undefined, guest: null }
+  );
+}
+
+/**
+ * Number the raters in each agreement group instead of naming them. Numbers
+ * restart per group, so the same person can't be followed across groups.
+ */
+export function hideRaters(groups: AgreementGroup[]): AgreementGroup[] {
+  return groups.map((group) => ({
+    ...group,
+    raters: group.raters.map((rater, index) => ({
+      ...rater,
+      userId: `${group.key}:${index + 1}`,
+      userName: `Rater ${index + 1}`,
+    })),
+  }));
+}
@@ -0,0 +1,428 @@
+import { getSupabaseClient } from "@/lib/supabase/client";
+import {
+  deleteOfflineAttachment,
+  deleteOfflineAttachmentsByObservation,
+  getOfflineAttachments,
+  getOfflineMutations,
+  putOfflineAttachment,
+} from "@/lib/pwa/offline-storage";
+import { deleteFile, getFileExtension, type StorageBucket } from "./storage";
+import type {
+  AttachmentKind,
+  AttachmentProgress,
+  AttachmentUploadStatus,
+  OfflineAttachment,
+} from "@/types/offlineSync";
+
+const supabase = getSupabaseClient();
+
+const ATTACHMENT_BUCKET: StorageBucket = "observation-attachments";
+/** Supabase resumable uploads take fixed 6 MB chunks */
+const UPLOAD_CHUNK_SIZE = 6 * 1024 * 1024;
+/** Waits between retries within one sync pass; later passes resume where these stop */
+const RETRY_DELAYS_MS = [1000, 3000, 10000];
+/** Longest edge of a photo after compression */
+export const MAX_PHOTO_DIMENSION = 1920;
+const PHOTO_QUALITY = 0.8;
+
+// ============================================
+// CAPTURE
+// ============================================
+
+export function getAttachmentKind(mimeType: string): AttachmentKind {
+  if (mimeType.startsWith("image/")) return "photo";
+  if (mimeType.startsWith("video/")) return "video";
+  if (mimeType.startsWith("audio/")) return "voice_memo";
+  return "document";
+}
+
+/** Scale dimensions down to fit a bounding square, keeping the aspect ratio */
+export function fitWithin(width: number, height: number, maxDimension: number) {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+}
+
+/** Object path for an attachment; fixed per attachment so a re-upload overwrites */
+export function getAttachmentPath(
+  sessionId: string,
+  observationId: string,
+  attachmentId: string,
+  fileName: string
+) {
+  const ext = (fileName.includes(".") && getFileExtension(fileName)) || "bin";
+  return `${sessionId}/${observationId}/${attachmentId}.${ext}`;
+}
+
+/**
+ * Resize a photo to MAX_PHOTO_DIMENSION and re-encode it as JPEG. Returns the
+ * original when it can't be decoded or compression wouldn't make it smaller.
+ */
+export async function compressImage(file: File): Promise<File> {
+  // Animated and vector images don't survive a canvas round trip
+  if (!file.type.startsWith("image/") || file.type === "image/gif" || file.type === "image/svg+xml") {
+    return file;
+  }
+
+  const bitmap = await createImageBitmap(file).catch(() => null);
+  if (!bitmap) return file;
+
+  const { width, height } = fitWithin(bitmap.width, bitmap.height, MAX_PHOTO_DIMENSION);
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d");
+  if (!context) {
+    bitmap.close();
+    return file;
+  }
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, "image/jpeg", PHOTO_QUALITY)
+  );
+  if (!blob || blob.size >= file.size) return file;
+
+  return new File([blob], `${file.name.replace(/\.[^.]+$/, "")}.jpg`, { type: "image/jpeg" });
+}
+
+/**
+ * Keep captured files on the device with their observation. They upload on
+ * the next sync, after the observation itself has reached the server.
+ */
+export async function queueObservationAttachments(
+  files: File[],
+  sessionId: string,
+  observationId: string
+): Promise<OfflineAttachment[]> {
+  const queued: OfflineAttachment[] = [];
+
+  for (const file of files) {
+    const kind = getAttachmentKind(file.type);
+    const prepared = kind === "photo" ? await compressImage(file) : file;
+    const id = crypto.randomUUID();
+    const attachment: OfflineAttachment = {
+      id,
+      observation_id: observationId,
+      session_id: sessionId,
+      kind,
+      name: prepared.name,
+      mime_type: prepared.type || "application/octet-stream",
+      size: prepared.size,
+      blob: prepared,
+      storage_path: getAttachmentPath(sessionId, observationId, id, prepared.name),
+      upload_url: null,
+      uploaded_bytes: 0,
+      attempts: 0,
+      created_at: new Date().toISOString(),
+    };
+
+    await putOfflineAttachment(attachment);
+    setProgress(attachment, attachment.uploaded_bytes, "queued");
+    queued.push(attachment);
+  }
+
+  return queued;
+}
+
+/** Drop files still waiting to upload for an observation that was deleted */
+export async function discardObservationAttachments(observationId: string): Promise<void> {
+  await deleteOfflineAttachmentsByObservation(observationId);
+  progressById.forEach((progress, id) => {
+    if (progress.observation_id === observationId) progressById.delete(id);
+  });
+  publishProgress();
+}
+
+// ============================================
+// PROGRESS
+// ============================================
+
+const progressById = new Map<string, AttachmentProgress>();
+const progressListeners = new Set<(progress: AttachmentProgress[]) => void>();
+
+export function toAttachmentProgress(
+  attachment: OfflineAttachment,
+  uploadedBytes: number,
+  status: AttachmentUploadStatus
+): AttachmentProgress {
+  return {
+    id: attachment.id,
+    observation_id: attachment.observation_id,
+    session_id: attachment.session_id,
+    name: attachment.name,
+    kind: attachment.kind,
+    size: attachment.size,
+    uploaded_bytes: Math.min(uploadedBytes, attachment.size),
+    status,
+  };
+}
+
+function publishProgress() {
+  const progress = Array.from(progressById.values());
+  progressListeners.forEach((listener) => listener(progress));
+}
+
+function setProgress(attachment: OfflineAttachment, uploadedBytes: number, status: AttachmentUploadStatus) {
+  progressById.set(attachment.id, toAttachmentProgress(attachment, uploadedBytes, status));
+  publishProgress();
+}
+
+function markProgressFailed(attachmentId: string) {
+  const progress = progressById.get(attachmentId);
+  if (progress) {
+    progressById.set(attachmentId, { ...progress, status: "failed" });
+    publishProgress();
+  }
+}
+
+function clearProgress(attachmentId: string) {
+  progressById.delete(attachmentId);
+  publishProgress();
+}
+
+/**
+ * Subscribe to per-file upload progress. Files queued in earlier visits are
+ * loaded from the device first.
+ */
+export function subscribeToAttachmentProgress(
+  listener: (progress: AttachmentProgress[]) => void
+): () => void {
+  progressListeners.add(listener);
+
+  getOfflineAttachments()
+    .then((attachments) => {
+      for (const attachment of attachments) {
+        if (!progressById.has(attachment.id)) {
+          progressById.set(
+            attachment.id,
+            toAttachmentProgress(attachment, attachment.uploaded_bytes, attachment.error ? "failed" : "queued")
+          );
+        }
+      }
+      publishProgress();
+    })
+    .catch((error) => console.error("Failed to load queued attachments:", error));
+
+  return () => {
+    progressListeners.delete(listener);
+  };
+}
+
+// ============================================
+// RESUMABLE UPLOAD
+// ============================================
+
+async function getUploadHeaders(): Promise<Record<string, string>> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  if (!session) throw new Error("Not signed in");
+
+  return {
+    authorization: `Bearer ${session.access_token}`,
+    apikey: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    "tus-resumable": "1.0.0",
+  };
+}
+
+function encodeUploadMetadata(values: Record<string, string>) {
+  return Object.entries(values)
+    .map(([key, value]) => `${key} ${btoa(value)}`)
+    .join(",");
+}
+
+async function startUpload(attachment: OfflineAttachment, headers: Record<string, string>): Promise<string> {
+  const response = await fetch(`${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/upload/resumable`, {
+    method: "POST",
+    headers: {
+      ...headers,
+      "upload-length": String(attachment.size),
+      "x-upsert": "true",
+      "upload-metadata": encodeUploadMetadata({
+        bucketName: ATTACHMENT_BUCKET,
+        objectName: attachment.storage_path,
+        contentType: attachment.mime_type,
+        cacheControl: "3600",
+      }),
+    },
+  });
+
+  const location = response.headers.get("location");
+  if (!response.ok || !location) {
+    throw new Error(`Upload could not start (${response.status})`);
+  }
+  return location;
+}
+
+/** Bytes the server holds for an upload, or null once the upload has expired */
+async function getUploadOffset(url: string, headers: Record<string, string>): Promise<number | null> {
+  const response = await fetch(url, { method: "HEAD", headers });
+  if (response.status === 404 || response.status === 410) return null;
+  if (!response.ok) throw new Error(`Upload status unavailable (${response.status})`);
+  return Number(response.headers.get("upload-offset") ?? 0);
+}
+
+/** PATCH one chunk; XHR rather than fetch for upload progress events */
+function sendChunk(
+  url: string,
+  headers: Record<string, string>,
+  chunk: Blob,
+  offset: number,
+  onProgress: (sentBytes: number) => void
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("PATCH", url);
+    Object.entries(headers).forEach(([key, value]) => xhr.setRequestHeader(key, value));
+    xhr.setRequestHeader("upload-offset", String(offset));
+    xhr.setRequestHeader("content-type", "application/offset+octet-stream");
+
+    xhr.upload.onprogress = (event) => onProgress(event.loaded);
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(Number(xhr.getResponseHeader("upload-offset") ?? offset + chunk.size));
+      } else {
+        reject(new Error(`Upload failed (${xhr.status})`));
+      }
+    };
+    xhr.onerror = () => reject(new Error("Network error during upload"));
+    xhr.send(chunk);
+  });
+}
+
+/**
+ * Upload whatever the server doesn't have yet. Progress is saved after every
+ * chunk, so an interrupted upload resumes from the last confirmed byte.
+ */
+async function uploadAttachment(
+  attachment: OfflineAttachment,
+  onSaved: (attachment: OfflineAttachment) => void
+): Promise<void> {
+  if (attachment.upload_url && attachment.uploaded_bytes >= attachment.size) return;
+
+  const headers = await getUploadHeaders();
+  let current = attachment;
+  let offset = 0;
+
+  if (current.upload_url) {
+    const serverOffset = await getUploadOffset(current.upload_url, headers);
+    if (serverOffset === null) {
+      current = { ...current, upload_url: null, uploaded_bytes: 0 };
+    } else {
+      offset = serverOffset;
+    }
+  }
+
+  if (!current.upload_url) {
+    current = { ...current, upload_url: await startUpload(current, headers), uploaded_bytes: 0 };
+    offset = 0;
+  }
+
+  const save = async (next: OfflineAttachment) => {
+    current = next;
+    await putOfflineAttachment(current);
+    onSaved(current);
+  };
+  await save({ ...current, uploaded_bytes: offset });
+
+  while (offset < current.size) {
+    const start = offset;
+    const chunk = current.blob.slice(start, start + UPLOAD_CHUNK_SIZE);
+    offset = await sendChunk(current.upload_url!, headers, chunk, start, (sent) =>
+      setProgress(current, start + sent, "uploading")
+    );
+    await save({ ...current, uploaded_bytes: offset });
+  }
+}
+
+function delay(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function uploadWithRetry(attachment: OfflineAttachment): Promise<OfflineAttachment> {
+  let current = attachment;
+
+  for (let attempt = 0; ; attempt++) {
+    setProgress(current, current.uploaded_bytes, "uploading");
+    try {
+      await uploadAttachment(current, (saved) => {
+        current = saved;
+      });
+      return current;
+    } catch (error) {
+      if (attempt >= RETRY_DELAYS_MS.length) {
+        const failed = {
+          ...current,
+          attempts: current.attempts + 1,
+          error: error instanceof Error ? error.message : "Upload failed",
+        };
+        await putOfflineAttachment(failed);
+        setProgress(failed, failed.uploaded_bytes, "failed");
+        throw error;
+      }
+      await delay(RETRY_DELAYS_MS[attempt]);
+    }
+  }
+}
+
+// ============================================
+// SYNC
+// ============================================
+
+export interface AttachmentSyncResult {
+  uploaded: number;
+  failed: number;
+}
+
+let uploadsInFlight: Promise<AttachmentSyncResult> | null = null;
+
+/**
+ * Upload queued evidence and attach it to its observation. Run after the
+ * mutation log has synced: files wait while their observation's create or
+ * delete is still queued, and are removed again if the observation turns out
+ * to be gone. Concurrent callers share one run.
+ */
+export function syncOfflineAttachments(): Promise<AttachmentSyncResult> {
+  if (!uploadsInFlight) {
+    uploadsInFlight = runAttachmentSync().finally(() => {
+      uploadsInFlight = null;
+    });
+  }
+  return uploadsInFlight;
+}
+
+async function runAttachmentSync(): Promise<AttachmentSyncResult> {
+  const [attachments, mutations] = await Promise.all([getOfflineAttachments(), getOfflineMutations()]);
+  const summary: AttachmentSyncResult = { uploaded: 0, failed: 0 };
+
+  for (const attachment of attachments) {
+    // Wait until the observation's own create or delete has settled
+    if (mutations.some((m) => m.entity_id === attachment.observation_id && m.op !== "update")) continue;
+
+    try {
+      await uploadWithRetry(attachment);
+
+      const { data: attached, error } = await supabase.rpc("append_observation_attachment", {
+        p_observation_id: attachment.observation_id,
+        p_path: attachment.storage_path,
+      });
+      if (error) throw error;
+
+      if (attached) {
+        summary.uploaded++;
+      } else {
+        // The observation was deleted meanwhile
+        await deleteFile(ATTACHMENT_BUCKET, attachment.storage_path).catch(() => undefined);
+      }
+      await deleteOfflineAttachment(attachment.id);
+      clearProgress(attachment.id);
+    } catch (error) {
+      console.error("Attachment upload failed:", error);
+      markProgressFailed(attachment.id);
+      summary.failed++;
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,327 @@
+import { getSupabaseClient } from "@/lib/supabase/client";
+import {
+  getOfflineMutationsBySession,
+  syncOfflineMutations,
+  type MutationSyncResult,
+  type SessionSnapshot,
+} from "@/lib/pwa/offline-storage";
+import { getFlowsByProcess } from "./informationFlows";
+import { syncOfflineAttachments, type AttachmentSyncResult } from "./offlineAttachments";
+import { getObservationsBySession, type ObservationWithDetails } from "./observations";
+import { getChangedFields, resolveObservationFields } from "./observationConflicts";
+import {
+  DEFAULT_SCORING_MODEL,
+  calculatePriority,
+  getObservationScores,
+  loadSessionScoringModel,
+  type ScoringModelDefinition,
+} from "./scoringModel";
+import { getSessionWithDetails } from "./sessions";
+import { getSessionWorkflow } from "./subprocesses";
+import { getWasteTypes } from "./wasteTypes";
+import { getProcessLanes } from "./workflowEditor";
+import type { WasteType } from "@/types";
+import type {
+  FieldResolution,
+  ObservationField,
+  ObservationFields,
+  OfflineMutation,
+} from "@/types/offlineSync";
+
+const supabase = getSupabaseClient();
+
+// ============================================
+// TYPES
+// ============================================
+
+/** A change made on the device, before it is folded into the mutation log */
+export interface ObservationChange {
+  op: OfflineMutation["op"];
+  observationId: string;
+  sessionId: string;
+  /** New field values (create and update) */
+  data?: ObservationFields;
+  /** The synced observation being changed (update and delete) */
+  original?: ObservationWithDetails;
+}
+
+/** The log entries to write and remove for one change */
+export interface MutationPlan {
+  put: OfflineMutation[];
+  remove: string[];
+}
+
+/** Outcome of pushing a device's offline work: the mutation log, then files */
+export interface ReconcileResult extends MutationSyncResult {
+  filesUploaded: AttachmentSyncResult["uploaded"];
+  filesFailed: AttachmentSyncResult["failed"];
+}
+
+/** Per-field choices for an edit conflict, or which side wins outright */
+export type ConflictResolution = Partial<Record<ObservationField, FieldResolution>> | "mine" | "theirs";
+
+// ============================================
+// MERGING
+// ============================================
+
+export function observationToFields(observation: ObservationWithDetails): ObservationFields {
+  return {
+    step_id: observation.step_id,
+    connection_id: observation.connection_id ?? null,
+    flow_id: observation.flow_id ?? null,
+    notes: observation.notes,
+    is_digital: observation.is_digital,
+    is_physical: observation.is_physical,
+    frequency_score: observation.frequency_score,
+    impact_score: observation.impact_score,
+    ease_score: observation.ease_score,
+    scores: observation.scores,
+    time_lost_minutes: observation.time_lost_minutes ?? null,
+    waste_type_ids: (observation.waste_types || []).map((w) => w.id),
+  };
+}
+
+/**
+ * Replay the pending mutation log over the last known observations, so the
+ * session reads the same offline as it will once synced. Conflicted changes
+ * show the device's version until the user settles them.
+ */
+export function applyPendingChanges(
+  observations: ObservationWithDetails[],
+  mutations: OfflineMutation[],
+  wasteTypes: WasteType[],
+  author?: ObservationWithDetails["user"],
+  model: ScoringModelDefinition = DEFAULT_SCORING_MODEL
+): ObservationWithDetails[] {
+  const wasteTypesById = new Map(wasteTypes.map((w) => [w.id, w]));
+  const withFields = (
+    observation: ObservationWithDetails,
+    { waste_type_ids, ...fields }: ObservationFields,
+    updatedAt: string
+  ): ObservationWithDetails => ({
+    ...observation,
+    ...fields,
+    step_id: observation.step_id || fields.step_id,
+    connection_id: observation.connection_id || fields.connection_id,
+    flow_id: observation.flow_id || fields.flow_id,
+    priority_score: calculatePriority(model, getObservationScores(model, fields)),
+    waste_types: waste_type_ids.map((id) => wasteTypesById.get(id)).filter((w): w is WasteType => !!w),
+    updated_at: updatedAt,
+  });
+
+  const byId = new Map(observations.map((o) => [o.id, o]));
+  for (const mutation of mutations) {
+    const current = byId.get(mutation.entity_id);
+
+    if (mutation.op === "delete") {
+      byId.delete(mutation.entity_id);
+    } else if (mutation.op === "update" && current && mutation.data) {
+      byId.set(mutation.entity_id, withFields(current, mutation.data, mutation.created_at));
+    } else if (mutation.op === "create" && mutation.data && !current) {
+      // A create that already synced is in the server list; only add the rest
+      byId.set(
+        mutation.entity_id,
+        withFields(
+          {
+            id: mutation.entity_id,
+            session_id: mutation.session_id,
+            step_id: mutation.data.step_id,
+            connection_id: mutation.data.connection_id ?? null,
+            flow_id: mutation.data.flow_id ?? null,
+            user_id: author?.id ?? "",
+            user: author,
+            created_at: mutation.created_at,
+          } as ObservationWithDetails,
+          mutation.data,
+          mutation.created_at
+        )
+      );
+    }
+  }
+
+  return Array.from(byId.values()).sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+export function countPendingChanges(mutations: OfflineMutation[]): number {
+  return mutations.length;
+}
+
+export function getConflictedMutations(mutations: OfflineMutation[]): OfflineMutation[] {
+  return mutations.filter((m) => !!m.conflict);
+}
+
+// ============================================
+// MUTATION LOG
+// ============================================
+
+/**
+ * Fold a change into the log. Each observation keeps at most one entry: edits
+ * to a queued create rewrite the create, repeated edits keep the values they
+ * started from, and deleting something that never synced just drops it.
+ */
+export function planObservationChange(queue: OfflineMutation[], change: ObservationChange): MutationPlan {
+  const queued = queue.filter((m) => m.entity_id === change.observationId);
+  const latest = queued[queued.length - 1];
+  const superseded = queued.slice(0, -1).map((m) => m.id);
+  const now = new Date().toISOString();
+
+  const fresh = (fields: Partial<OfflineMutation>): OfflineMutation => ({
+    id: crypto.randomUUID(),
+    entity: "observation",
+    entity_id: change.observationId,
+    session_id: change.sessionId,
+    op: change.op,
+    base_updated_at: change.original?.updated_at ?? null,
+    created_at: now,
+    ...fields,
+  });
+
+  if (change.op === "create") {
+    return { put: [fresh({ data: change.data })], remove: [] };
+  }
+
+  if (change.op === "update") {
+    if (latest?.op === "create" || latest?.op === "update") {
+      return { put: [{ ...latest, data: change.data }], remove: superseded };
+    }
+    return {
+      put: [
+        fresh({
+          data: change.data,
+          base: change.original ? observationToFields(change.original) : undefined,
+        }),
+      ],
+      remove: superseded,
+    };
+  }
+
+  if (latest?.op === "create") {
+    return { put: [], remove: queued.map((m) => m.id) };
+  }
+  if (latest?.op === "update") {
+    return {
+      put: [{ ...latest, op: "delete", data: undefined, base: undefined, conflict: undefined }],
+      remove: superseded,
+    };
+  }
+  if (latest?.op === "delete") {
+    return { put: [], remove: superseded };
+  }
+  return { put: [fresh({})], remove: superseded };
+}
+
+/**
+ * Settle a conflicted mutation. Returns the mutation to replay against the
+ * server's current version, or null when nothing of the device's change is
+ * left to send.
+ */
+export function resolveConflict(
+  mutation: OfflineMutation,
+  resolution: ConflictResolution
+): OfflineMutation | null {
+  const conflict = mutation.conflict;
+  if (!conflict) return mutation;
+  const settled: OfflineMutation = { ...mutation, conflict: undefined };
+
+  if (resolution === "theirs") return null;
+
+  // Deleted on the server while edited here: keeping mine brings it back
+  if (!conflict.server) {
+    return { ...settled, op: "create", base: undefined, base_updated_at: null };
+  }
+
+  if (mutation.op === "delete" || resolution === "mine") {
+    if (mutation.op === "update" && mutation.data) {
+      return {
+        ...settled,
+        data: resolveObservationFields(
+          mutation.base,
+          mutation.data,
+          conflict.server,
+          Object.fromEntries(conflict.fields.map((f) => [f, "mine"]))
+        ),
+        base: conflict.server,
+        base_updated_at: conflict.server_updated_at,
+      };
+    }
+    return { ...settled, base_updated_at: conflict.server_updated_at };
+  }
+
+  if (!mutation.data) return null;
+  const data = resolveObservationFields(mutation.base, mutation.data, conflict.server, resolution);
+  if (getChangedFields(conflict.server, data).length === 0) return null;
+
+  return { ...settled, data, base: conflict.server, base_updated_at: conflict.server_updated_at };
+}
+
+// ============================================
+// LOADING
+// ============================================
+
+/**
+ * Fetch everything the session page renders, in the shape that is cached for
+ * offline use.
+ */
+export async function fetchSessionSnapshot(
+  sessionId: string
+): Promise<Omit<SessionSnapshot, "cached_at">> {
+  const [{ data: { user } }, { session, participants }] = await Promise.all([
+    supabase.auth.getUser(),
+    getSessionWithDetails(sessionId),
+  ]);
+
+  const [workflow, lanes, wasteTypes, observations, informationFlows, scoringModel] = await Promise.all([
+    session.process_id
+      ? getSessionWorkflow(session.process_id, !!session.include_subprocesses)
+      : Promise.resolve({ steps: [], connections: [] }),
+    session.process_id ? getProcessLanes(session.process_id) : Promise.resolve([]),
+    getWasteTypes(),
+    getObservationsBySession(sessionId),
+    session.process_id
+      ? getFlowsByProcess(session.process_id).catch((error) => {
+          console.error("Failed to load information flows:", error);
+          return [];
+        })
+      : Promise.resolve([]),
+    loadSessionScoringModel(supabase, sessionId),
+  ]);
+
+  return {
+    session_id: sessionId,
+    session,
+    steps: workflow.steps,
+    connections: workflow.connections.map((c) => ({
+      id: c.id,
+      source: c.source_step_id,
+      target: c.target_step_id,
+    })),
+    lanes,
+    waste_types: wasteTypes,
+    participants: participants || [],
+    observations,
+    information_flows: informationFlows,
+    scoring_model: scoringModel,
+    current_user_id: user?.id,
+  };
+}
+
+/** Offline changes still queued for a session, oldest first */
+export async function getPendingSessionChanges(sessionId: string): Promise<OfflineMutation[]> {
+  return getOfflineMutationsBySession(sessionId);
+}
+
+// ============================================
+// RECONCILIATION
+// ============================================
+
+/**
+ * Push offline work once the connection is back. The server applies the log
+ * in order and reports conflicts, which stay queued until the user settles
+ * them; captured files upload once their observation exists. Anything that
+ * failed is retried on the next pass.
+ */
+export async function reconcileOfflineSession(): Promise<ReconcileResult> {
+  const mutations = await syncOfflineMutations();
+  const files = await syncOfflineAttachments();
+  return { ...mutations, filesUploaded: files.uploaded, filesFailed: files.failed };
+}
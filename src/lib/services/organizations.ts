@@ -1,5 +1,6 @@
 import { getSupabaseClient } from "@/lib/supabase/client";
-import type { Organization } from "@/types";
+import { loadActiveScoringModel, type ScoringModelDefinition } from "./scoringModel";
+import type { LaborRate, Organization, ScoringModel } from "@/types";
 
 const supabase = getSupabaseClient();
 
@@ -83,7 +84,7 @@ export async function createOrganization(input: CreateOrganizationInput): Promis
 
 export async function updateOrganization(
   orgId: string, 
-  updates: Partial<Pick<Organization, "name">>
+  updates: Partial<Pick<Organization, "name" | "currency" | "default_hourly_rate">>
 ): Promise<Organization> {
   const { data, error } = await supabase
     .from("organizations")
@@ -96,6 +97,88 @@ export async function updateOrganization(
   return data;
 }
 
+// ============================================
+// LABOR RATES
+// ============================================
+
+export async function getLaborRates(orgId: string): Promise<LaborRate[]> {
+  const { data, error } = await supabase
+    .from("org_labor_rates")
+    .select("*")
+    .eq("org_id", orgId)
+    .order("rate_type")
+    .order("name");
+
+  if (error) throw error;
+  return data || [];
+}
+
+export interface SaveLaborRateInput {
+  rate_type: LaborRate["rate_type"];
+  name: string;
+  hourly_rate: number;
+}
+
+export async function saveLaborRate(orgId: string, input: SaveLaborRateInput): Promise<LaborRate> {
+  if (!input.name.trim()) throw new Error("Rate name is required");
+  if (!Number.isFinite(input.hourly_rate) || input.hourly_rate < 0) {
+    throw new Error("Hourly rate must be 0 or more");
+  }
+
+  const { data, error } = await supabase
+    .from("org_labor_rates")
+    .upsert(
+      { org_id: orgId, ...input, name: input.name.trim() },
+      { onConflict: "org_id,rate_type,name" }
+    )
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteLaborRate(rateId: string): Promise<void> {
+  const { error } = await supabase.from("org_labor_rates").delete().eq("id", rateId);
+  if (error) throw error;
+}
+
+// ============================================
+// SCORING MODEL
+// ============================================
+
+/** The organization's active scoring model, or the built-in default */
+export async function getActiveScoringModel(orgId: string): Promise<ScoringModelDefinition> {
+  return loadActiveScoringModel(supabase, orgId);
+}
+
+export interface SaveScoringModelResult {
+  model: ScoringModel;
+  observationsRecomputed: number;
+  sessionsUpdated: number;
+}
+
+/**
+ * Save a new version of the organization's scoring model. The server
+ * recomputes every existing observation's priority with it.
+ */
+export async function saveScoringModel(
+  input: Pick<ScoringModel, "name" | "dimensions" | "formula">
+): Promise<SaveScoringModelResult> {
+  const res = await fetch("/api/scoring-models", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+
+  const data = (await res.json().catch(() => ({}))) as Partial<SaveScoringModelResult> & {
+    error?: string;
+    details?: string[];
+  };
+  if (!res.ok) throw new Error(data.details?.join("; ") || data.error || "Failed to save scoring model");
+  return data as SaveScoringModelResult;
+}
+
 // ============================================
 // ORGANIZATION STATS
 // ============================================
@@ -0,0 +1,294 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { loadAnalyticsWasteCost, toRpcFilters, type AnalyticsFilters } from "./analyticsQuery";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ParetoDimension = "waste_type" | "step" | "lane" | "waste_type_lane";
+
+export type ParetoMeasure = "count" | "priority" | "cost";
+
+export const PARETO_DIMENSIONS: { value: ParetoDimension; label: string }[] = [
+  { value: "waste_type", label: "Waste type" },
+  { value: "step", label: "Step" },
+  { value: "lane", label: "Lane" },
+  { value: "waste_type_lane", label: "Waste type × lane" },
+];
+
+export const PARETO_MEASURES: { value: ParetoMeasure; label: string }[] = [
+  { value: "count", label: "Observations" },
+  { value: "priority", label: "Priority score" },
+  { value: "cost", label: "Estimated cost" },
+];
+
+/** Share of the total the vital few must reach */
+export const DEFAULT_PARETO_CUTOFF = 80;
+
+export interface ParetoWasteType {
+  id: string;
+  name: string;
+  code: string;
+  color: string | null;
+}
+
+/** One observation, as much of it as a Pareto chart needs */
+export interface ParetoFact {
+  id: string;
+  stepId: string | null;
+  stepName: string | null;
+  lane: string;
+  priority: number;
+  /** Annual cost from the waste cost model; 0 unless cost was asked for */
+  cost: number;
+  wasteTypes: ParetoWasteType[];
+}
+
+export interface ParetoBar {
+  key: string;
+  label: string;
+  color?: string;
+  value: number;
+  observationCount: number;
+  percentage: number;
+  cumulativePercentage: number;
+  isVitalFew: boolean;
+}
+
+export interface ParetoAnalysis {
+  dimension: ParetoDimension;
+  measure: ParetoMeasure;
+  cutoff: number;
+  bars: ParetoBar[];
+  total: number;
+  vitalFewCount: number;
+  /** Percentage of the total the vital few account for */
+  vitalFewShare: number;
+  currency: string;
+}
+
+/** Vital few handed from a Pareto chart to the synthesis stage */
+export interface ParetoFocus {
+  dimension: ParetoDimension;
+  keys: string[];
+}
+
+interface ParetoGroup {
+  key: string;
+  label: string;
+  color?: string;
+}
+
+// ============================================
+// GROUPING
+// ============================================
+
+const comboKey = (wasteTypeId: string, lane: string) => `${wasteTypeId}|${lane}`;
+
+/**
+ * The groups an observation falls in. Observations tagged with several waste
+ * types fall in several; handoffs have no step; untagged observations have
+ * no waste type.
+ */
+function getParetoGroups(
+  fact: Pick<ParetoFact, "stepId" | "stepName" | "lane" | "wasteTypes">,
+  dimension: ParetoDimension
+): ParetoGroup[] {
+  switch (dimension) {
+    case "waste_type":
+      return fact.wasteTypes.map((wt) => ({
+        key: wt.id,
+        label: `${wt.code} · ${wt.name}`,
+        color: wt.color || undefined,
+      }));
+    case "step":
+      return fact.stepId ? [{ key: fact.stepId, label: fact.stepName || "Unknown step" }] : [];
+    case "lane":
+      return [{ key: fact.lane, label: fact.lane }];
+    case "waste_type_lane":
+      return fact.wasteTypes.map((wt) => ({
+        key: comboKey(wt.id, fact.lane),
+        label: `${wt.code} · ${fact.lane}`,
+        color: wt.color || undefined,
+      }));
+  }
+}
+
+export function getParetoKeys(
+  fact: Pick<ParetoFact, "stepId" | "stepName" | "lane" | "wasteTypes">,
+  dimension: ParetoDimension
+): string[] {
+  return getParetoGroups(fact, dimension).map((group) => group.key);
+}
+
+// ============================================
+// ANALYSIS
+// ============================================
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Rank groups by the measure and mark the vital few: the biggest groups that
+ * together first reach the cut-off share of the total. Counts count each
+ * waste type an observation is tagged with; priority and cost are split
+ * between them, like the waste cost model splits cost.
+ */
+export function buildParetoAnalysis(
+  facts: ParetoFact[],
+  dimension: ParetoDimension,
+  measure: ParetoMeasure,
+  options: { cutoff?: number; currency?: string } = {}
+): ParetoAnalysis {
+  const cutoff = options.cutoff ?? DEFAULT_PARETO_CUTOFF;
+  const groups = new Map<string, ParetoGroup & { value: number; observationCount: number }>();
+
+  facts.forEach((fact) => {
+    const factGroups = getParetoGroups(fact, dimension);
+    const share = measure === "count" ? 1 : (measure === "priority" ? fact.priority : fact.cost) / factGroups.length;
+
+    factGroups.forEach((group) => {
+      const entry = groups.get(group.key) || { ...group, value: 0, observationCount: 0 };
+      entry.value += share;
+      entry.observationCount += 1;
+      groups.set(group.key, entry);
+    });
+  });
+
+  const ranked = Array.from(groups.values())
+    .filter((group) => group.value > 0)
+    .sort((a, b) => b.value - a.value || a.label.localeCompare(b.label));
+  const total = ranked.reduce((sum, group) => sum + group.value, 0);
+
+  let cumulative = 0;
+  let reachedCutoff = false;
+  const bars: ParetoBar[] = ranked.map((group) => {
+    const isVitalFew = !reachedCutoff;
+    cumulative += group.value;
+    const cumulativePercentage = (cumulative / total) * 100;
+    if (cumulativePercentage >= cutoff) reachedCutoff = true;
+
+    return {
+      key: group.key,
+      label: group.label,
+      color: group.color,
+      value: round(group.value),
+      observationCount: group.observationCount,
+      percentage: round((group.value / total) * 100),
+      cumulativePercentage: round(cumulativePercentage),
+      isVitalFew,
+    };
+  });
+
+  const vitalFew = bars.filter((bar) => bar.isVitalFew);
+  return {
+    dimension,
+    measure,
+    cutoff,
+    bars,
+    total: round(total),
+    vitalFewCount: vitalFew.length,
+    vitalFewShare: vitalFew.length > 0 ? vitalFew[vitalFew.length - 1].cumulativePercentage : 0,
+    currency: options.currency ?? "USD",
+  };
+}
+
+/** Filters for the drill-down behind one bar */
+export function getParetoBarFilters(
+  filters: AnalyticsFilters,
+  dimension: ParetoDimension,
+  key: string
+): AnalyticsFilters {
+  switch (dimension) {
+    case "waste_type":
+      return { ...filters, wasteTypeIds: [key] };
+    case "step":
+      return { ...filters, stepIds: [key] };
+    case "lane":
+      return { ...filters, lanes: [key] };
+    case "waste_type_lane": {
+      const [wasteTypeId, ...lane] = key.split("|");
+      return { ...filters, wasteTypeIds: [wasteTypeId], lanes: [lane.join("|")] };
+    }
+  }
+}
+
+// ============================================
+// SYNTHESIS HAND-OFF
+// ============================================
+// The vital few travel to the synthesis stage in its URL, which then selects
+// the session's observations that fall in them.
+
+export function getVitalFewFocus(analysis: ParetoAnalysis): ParetoFocus {
+  return {
+    dimension: analysis.dimension,
+    keys: analysis.bars.filter((bar) => bar.isVitalFew).map((bar) => bar.key),
+  };
+}
+
+export function getParetoFocusHref(sessionId: string, focus: ParetoFocus): string {
+  const params = new URLSearchParams({ stage: "synthesis", pareto: focus.dimension });
+  focus.keys.forEach((key) => params.append("key", key));
+  return `/future-state/${sessionId}?${params.toString()}`;
+}
+
+export function parseParetoFocus(params: URLSearchParams): ParetoFocus | null {
+  const dimension = params.get("pareto") as ParetoDimension | null;
+  const keys = params.getAll("key").filter(Boolean);
+  if (!dimension || !PARETO_DIMENSIONS.some((d) => d.value === dimension) || keys.length === 0) return null;
+  return { dimension, keys };
+}
+
+export function isInParetoFocus(
+  fact: Pick<ParetoFact, "stepId" | "stepName" | "lane" | "wasteTypes">,
+  focus: ParetoFocus
+): boolean {
+  return getParetoKeys(fact, focus.dimension).some((key) => focus.keys.includes(key));
+}
+
+export function parseParetoOptions(params: URLSearchParams): {
+  dimension: ParetoDimension;
+  measure: ParetoMeasure;
+  cutoff: number;
+} {
+  const dimension = params.get("dimension") as ParetoDimension | null;
+  const measure = params.get("measure") as ParetoMeasure | null;
+  const cutoff = Number(params.get("cutoff"));
+  return {
+    dimension: dimension && PARETO_DIMENSIONS.some((d) => d.value === dimension) ? dimension : "waste_type",
+    measure: measure && PARETO_MEASURES.some((m) => m.value === measure) ? measure : "count",
+    cutoff: Number.isFinite(cutoff) && cutoff > 0 && cutoff <= 100 ? cutoff : DEFAULT_PARETO_CUTOFF,
+  };
+}
+
+// ============================================
+// LOADERS
+// ============================================
+
+/** Pareto analysis of the filtered observations, costed like the hotspot list */
+export async function loadParetoAnalysis(
+  supabase: SupabaseClient,
+  filters: AnalyticsFilters,
+  options: { dimension: ParetoDimension; measure: ParetoMeasure; cutoff?: number },
+  orgId?: string | null
+): Promise<ParetoAnalysis> {
+  const [{ data, error }, cost] = await Promise.all([
+    supabase.rpc("analytics_pareto_facts", { p_filters: toRpcFilters(filters, orgId) }),
+    options.measure === "cost" ? loadAnalyticsWasteCost(supabase, filters, orgId) : Promise.resolve(null),
+  ]);
+  if (error) throw error;
+
+  const facts: ParetoFact[] = ((data || []) as Record<string, unknown>[]).map((row) => ({
+    id: String(row.id),
+    stepId: (row.step_id as string | null) ?? null,
+    stepName: (row.step_name as string | null) ?? null,
+    lane: String(row.lane),
+    priority: Number(row.priority_score ?? 0),
+    cost: cost?.observationCosts[String(row.id)] ?? 0,
+    wasteTypes: (row.waste_types as ParetoWasteType[] | null) || [],
+  }));
+
+  return buildParetoAnalysis(facts, options.dimension, options.measure, {
+    cutoff: options.cutoff,
+    currency: cost?.currency,
+  });
+}
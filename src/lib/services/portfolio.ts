@@ -0,0 +1,282 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { FutureStateStatus, SessionStatus } from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+
+/** One workflow in the organization portfolio */
+export interface PortfolioWorkflow {
+  processId: string;
+  name: string;
+  department: string | null;
+  ownerId: string | null;
+  ownerName: string | null;
+  sessionCount: number;
+  latestSession: { id: string; name: string; status: SessionStatus; date: string } | null;
+  /** Observations from the latest walk no implemented solution addresses */
+  openWasteCount: number;
+  openWastePriority: number;
+  solutionsAccepted: number;
+  /** Accepted solutions in a completed roadmap wave */
+  solutionsImplemented: number;
+  /** Average effort of accepted solutions, 1 (low) to 3 (high) */
+  avgEffort: number | null;
+  /** Priority score of the observations accepted solutions address */
+  addressedPriority: number;
+  futureState: {
+    id: string;
+    name: string;
+    version: number;
+    status: FutureStateStatus;
+    publishedAt: string | null;
+  } | null;
+}
+
+/** Workflows rolled up by department or business unit */
+export interface PortfolioDepartment {
+  department: string;
+  workflowCount: number;
+  sessionCount: number;
+  openWasteCount: number;
+  openWastePriority: number;
+  solutionsAccepted: number;
+  solutionsImplemented: number;
+  publishedFutureStates: number;
+}
+
+export interface PortfolioFilters {
+  ownerIds?: string[];
+  departments?: string[];
+  /** Inclusive, ISO date; workflows never walked are left out */
+  lastWalkFrom?: string;
+  /** Exclusive, ISO date */
+  lastWalkTo?: string;
+}
+
+export interface Portfolio {
+  workflows: PortfolioWorkflow[];
+  departments: PortfolioDepartment[];
+  /** Every owner and department in the organization, for the filters */
+  ownerOptions: { id: string; name: string }[];
+  departmentOptions: string[];
+}
+
+export type PortfolioSortKey =
+  | "name"
+  | "department"
+  | "lastWalk"
+  | "openWastePriority"
+  | "solutionsAccepted"
+  | "implementationRate"
+  | "futureState";
+
+export type SortDirection = "asc" | "desc";
+
+/** Shown for workflows without a department */
+export const UNASSIGNED_DEPARTMENT = "Unassigned";
+
+export const EFFORT_LABELS: Record<number, string> = { 1: "Low", 2: "Medium", 3: "High" };
+
+// ============================================
+// SHAPING
+// ============================================
+
+export function buildPortfolioWorkflow(row: Record<string, unknown>): PortfolioWorkflow {
+  const text = (value: unknown) => (value == null ? null : String(value));
+  return {
+    processId: String(row.process_id),
+    name: String(row.process_name ?? ""),
+    department: text(row.department)?.trim() || null,
+    ownerId: text(row.owner_id),
+    ownerName: text(row.owner_name),
+    sessionCount: Number(row.session_count ?? 0),
+    latestSession: row.latest_session_id
+      ? {
+          id: String(row.latest_session_id),
+          name: String(row.latest_session_name ?? ""),
+          status: row.latest_session_status as SessionStatus,
+          date: String(row.last_walk_at),
+        }
+      : null,
+    openWasteCount: Number(row.open_waste_count ?? 0),
+    openWastePriority: Number(row.open_waste_priority ?? 0),
+    solutionsAccepted: Number(row.solutions_accepted ?? 0),
+    solutionsImplemented: Number(row.solutions_implemented ?? 0),
+    avgEffort: row.avg_effort == null ? null : Number(row.avg_effort),
+    addressedPriority: Number(row.addressed_priority ?? 0),
+    futureState: row.future_state_id
+      ? {
+          id: String(row.future_state_id),
+          name: String(row.future_state_name ?? ""),
+          version: Number(row.future_state_version ?? 1),
+          status: row.future_state_status as FutureStateStatus,
+          publishedAt: text(row.future_state_published_at),
+        }
+      : null,
+  };
+}
+
+/** Share of accepted solutions implemented, 0-100; null with none accepted */
+export function getImplementationRate(workflow: Pick<PortfolioWorkflow, "solutionsAccepted" | "solutionsImplemented">) {
+  if (workflow.solutionsAccepted === 0) return null;
+  return Math.round((workflow.solutionsImplemented / workflow.solutionsAccepted) * 100);
+}
+
+export function getEffortLabel(avgEffort: number | null): string {
+  if (avgEffort == null) return "—";
+  return EFFORT_LABELS[Math.round(avgEffort)] ?? "—";
+}
+
+export function filterPortfolio(workflows: PortfolioWorkflow[], filters: PortfolioFilters): PortfolioWorkflow[] {
+  const from = filters.lastWalkFrom ? new Date(filters.lastWalkFrom).getTime() : null;
+  const to = filters.lastWalkTo ? new Date(filters.lastWalkTo).getTime() : null;
+
+  return workflows.filter((workflow) => {
+    if (filters.ownerIds?.length && !filters.ownerIds.includes(workflow.ownerId ?? "")) return false;
+    if (filters.departments?.length && !filters.departments.includes(workflow.department ?? UNASSIGNED_DEPARTMENT)) {
+      return false;
+    }
+    if (from !== null || to !== null) {
+      if (!workflow.latestSession) return false;
+      const walkedAt = new Date(workflow.latestSession.date).getTime();
+      if (from !== null && walkedAt < from) return false;
+      if (to !== null && walkedAt >= to) return false;
+    }
+    return true;
+  });
+}
+
+export function rollUpByDepartment(workflows: PortfolioWorkflow[]): PortfolioDepartment[] {
+  const departments = new Map<string, PortfolioDepartment>();
+
+  workflows.forEach((workflow) => {
+    const name = workflow.department ?? UNASSIGNED_DEPARTMENT;
+    const entry = departments.get(name) || {
+      department: name,
+      workflowCount: 0,
+      sessionCount: 0,
+      openWasteCount: 0,
+      openWastePriority: 0,
+      solutionsAccepted: 0,
+      solutionsImplemented: 0,
+      publishedFutureStates: 0,
+    };
+    entry.workflowCount += 1;
+    entry.sessionCount += workflow.sessionCount;
+    entry.openWasteCount += workflow.openWasteCount;
+    entry.openWastePriority += workflow.openWastePriority;
+    entry.solutionsAccepted += workflow.solutionsAccepted;
+    entry.solutionsImplemented += workflow.solutionsImplemented;
+    if (workflow.futureState?.status === "published") entry.publishedFutureStates += 1;
+    departments.set(name, entry);
+  });
+
+  // Unassigned workflows go last
+  return Array.from(departments.values()).sort((a, b) => {
+    if (a.department === UNASSIGNED_DEPARTMENT) return 1;
+    if (b.department === UNASSIGNED_DEPARTMENT) return -1;
+    return b.openWastePriority - a.openWastePriority || a.department.localeCompare(b.department);
+  });
+}
+
+const SORT_VALUES: Record<PortfolioSortKey, (workflow: PortfolioWorkflow) => string | number | null> = {
+  name: (w) => w.name.toLowerCase(),
+  department: (w) => w.department?.toLowerCase() ?? null,
+  lastWalk: (w) => (w.latestSession ? new Date(w.latestSession.date).getTime() : null),
+  openWastePriority: (w) => w.openWastePriority,
+  solutionsAccepted: (w) => w.solutionsAccepted,
+  implementationRate: (w) => getImplementationRate(w),
+  futureState: (w) => (w.futureState ? (w.futureState.status === "published" ? 2 : 1) : 0),
+};
+
+/** Sort the matrix; workflows missing the value always go last */
+export function sortPortfolio(
+  workflows: PortfolioWorkflow[],
+  key: PortfolioSortKey,
+  direction: SortDirection
+): PortfolioWorkflow[] {
+  const value = SORT_VALUES[key];
+  return [...workflows].sort((a, b) => {
+    const aValue = value(a);
+    const bValue = value(b);
+    if (aValue === null || bValue === null) {
+      if (aValue === bValue) return a.name.localeCompare(b.name);
+      return aValue === null ? 1 : -1;
+    }
+    const cmp = typeof aValue === "string" ? aValue.localeCompare(String(bValue)) : aValue - Number(bValue);
+    return (direction === "asc" ? cmp : -cmp) || a.name.localeCompare(b.name);
+  });
+}
+
+// ============================================
+// FILTERS
+// ============================================
+
+function parseList(value: string | null): string[] | undefined {
+  const items = (value || "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+function parseDate(value: string | null): string | undefined {
+  if (!value) return undefined;
+  return Number.isNaN(new Date(value).getTime()) ? undefined : value;
+}
+
+export function parsePortfolioFilters(params: URLSearchParams): PortfolioFilters {
+  const filters: PortfolioFilters = {};
+  const ownerIds = parseList(params.get("owner"));
+  const departments = parseList(params.get("department"));
+  const lastWalkFrom = parseDate(params.get("from"));
+  const lastWalkTo = parseDate(params.get("to"));
+  if (ownerIds) filters.ownerIds = ownerIds;
+  if (departments) filters.departments = departments;
+  if (lastWalkFrom) filters.lastWalkFrom = lastWalkFrom;
+  if (lastWalkTo) filters.lastWalkTo = lastWalkTo;
+  return filters;
+}
+
+export function toPortfolioSearchParams(filters: PortfolioFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.ownerIds?.length) params.set("owner", filters.ownerIds.join(","));
+  if (filters.departments?.length) params.set("department", filters.departments.join(","));
+  if (filters.lastWalkFrom) params.set("from", filters.lastWalkFrom);
+  if (filters.lastWalkTo) params.set("to", filters.lastWalkTo);
+  return params;
+}
+
+// ============================================
+// LOADERS
+// ============================================
+
+/** Every workflow in the organization the caller can see, filtered and rolled up */
+export async function loadPortfolio(
+  supabase: SupabaseClient,
+  filters: PortfolioFilters,
+  orgId?: string | null
+): Promise<Portfolio> {
+  const { data, error } = await supabase.rpc("portfolio_workflows", {
+    p_filters: orgId ? { org_id: orgId } : {},
+  });
+  if (error) throw error;
+
+  const all = ((data || []) as Record<string, unknown>[]).map(buildPortfolioWorkflow);
+  const workflows = filterPortfolio(all, filters);
+
+  const owners = new Map<string, string>();
+  all.forEach((w) => {
+    if (w.ownerId) owners.set(w.ownerId, w.ownerName || "Unknown");
+  });
+
+  return {
+    workflows,
+    departments: rollUpByDepartment(workflows),
+    ownerOptions: Array.from(owners.entries())
+      .map(([id, name]) => ({ id, name }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    departmentOptions: Array.from(new Set(all.map((w) => w.department ?? UNASSIGNED_DEPARTMENT))).sort(),
+  };
+}
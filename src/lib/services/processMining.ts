@@ -0,0 +1,506 @@
+import {
+  parseCSVLine,
+  type ImportConnection,
+  type ImportError,
+  type ImportStep,
+  type ImportValidationResult,
+  type ImportWarning,
+} from "./workflowImport";
+
+// ============================================
+// TYPES
+// ============================================
+
+/** A single activity instance in a case, with start/complete events merged */
+export interface EventLogActivity {
+  activity: string;
+  start?: Date;
+  end: Date;
+  resource?: string;
+  role?: string;
+}
+
+export interface EventLogCase {
+  caseId: string;
+  activities: EventLogActivity[];
+}
+
+export interface EventLog {
+  cases: EventLogCase[];
+  eventCount: number;
+}
+
+export interface EventLogParseResult {
+  valid: boolean;
+  log?: EventLog;
+  errors: ImportError[];
+  warnings: ImportWarning[];
+}
+
+export interface ProcessVariant {
+  activities: string[];
+  count: number;
+  share: number; // 0-1 of all cases
+}
+
+export interface DiscoveryOptions {
+  /** Minimum share of cases (0-1) an activity or path must appear in to be kept */
+  frequencyThreshold?: number;
+  name?: string;
+}
+
+export interface DiscoveryStats {
+  caseCount: number;
+  eventCount: number;
+  activityCount: number;
+  keptActivityCount: number;
+  pathCount: number;
+  keptPathCount: number;
+  variants: ProcessVariant[];
+}
+
+export interface DiscoveryResult extends ImportValidationResult {
+  stats?: DiscoveryStats;
+}
+
+interface RawEvent {
+  caseId: string;
+  activity: string;
+  timestamp: Date;
+  startTimestamp?: Date;
+  resource?: string;
+  role?: string;
+  lifecycle?: string;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const DEFAULT_FREQUENCY_THRESHOLD = 0.05;
+
+const START_STEP_ID = "mined-start";
+const END_STEP_ID = "mined-end";
+const UNASSIGNED_LANE = "Unassigned";
+const MAX_STEP_NAME_LENGTH = 100;
+const MAX_LANE_NAME_LENGTH = 50;
+
+// Accepted header spellings for each event log column (normalized to snake_case)
+const EVENT_LOG_COLUMNS: Record<keyof RawEvent, string[]> = {
+  caseId: ["case_id", "case", "caseid", "case:concept:name", "trace_id", "ticket_id", "ticket", "order_id"],
+  activity: ["activity", "activity_name", "concept:name", "event", "task", "step"],
+  timestamp: ["timestamp", "time:timestamp", "time", "end_timestamp", "complete_timestamp", "end_time", "completed_at", "date"],
+  startTimestamp: ["start_timestamp", "start_time", "started_at"],
+  resource: ["resource", "org:resource", "user", "performer", "agent", "owner"],
+  role: ["role", "org:role", "group", "org:group", "department", "team"],
+  lifecycle: ["lifecycle", "lifecycle:transition", "transition", "event_type"],
+};
+
+// ============================================
+// EVENT LOG PARSERS
+// ============================================
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().trim().replace(/[\s-]+/g, "_");
+}
+
+function parseTimestamp(value: string | undefined | null): Date | undefined {
+  if (!value) return undefined;
+  const time = Date.parse(value.trim());
+  return Number.isNaN(time) ? undefined : new Date(time);
+}
+
+function detectDelimiter(headerLine: string): string {
+  const candidates = [",", ";", "\t"];
+  return candidates.reduce((best, delimiter) =>
+    headerLine.split(delimiter).length > headerLine.split(best).length ? delimiter : best
+  );
+}
+
+/**
+ * Parse a CSV event log. Requires case id, activity and timestamp columns;
+ * resource, role, start timestamp and lifecycle columns are optional.
+ */
+export function parseEventLogCSV(csvContent: string): EventLogParseResult {
+  const errors: ImportError[] = [];
+  const warnings: ImportWarning[] = [];
+
+  const lines = csvContent.split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length < 2) {
+    errors.push({ type: "error", message: "Event log must have a header row and at least one event" });
+    return { valid: false, errors, warnings };
+  }
+
+  const delimiter = detectDelimiter(lines[0]);
+  const headers = parseCSVLine(lines[0], delimiter).map(normalizeHeader);
+  const columnIndex = Object.fromEntries(
+    Object.entries(EVENT_LOG_COLUMNS).map(([key, aliases]) => [
+      key,
+      headers.findIndex((h) => aliases.includes(h)),
+    ])
+  ) as Record<keyof RawEvent, number>;
+
+  (["caseId", "activity", "timestamp"] as const).forEach((key) => {
+    if (columnIndex[key] === -1) {
+      errors.push({
+        type: "error",
+        field: key,
+        message: `Missing ${key === "caseId" ? "case id" : key} column (expected one of: ${EVENT_LOG_COLUMNS[key].join(", ")})`,
+      });
+    }
+  });
+  if (errors.length > 0) return { valid: false, errors, warnings };
+
+  const events: RawEvent[] = [];
+  let skipped = 0;
+
+  for (let i = 1; i < lines.length; i++) {
+    const values = parseCSVLine(lines[i], delimiter);
+    const get = (key: keyof RawEvent) =>
+      columnIndex[key] >= 0 ? values[columnIndex[key]]?.trim() || undefined : undefined;
+
+    const caseId = get("caseId");
+    const activity = get("activity");
+    const timestamp = parseTimestamp(get("timestamp"));
+    if (!caseId || !activity || !timestamp) {
+      skipped++;
+      continue;
+    }
+
+    events.push({
+      caseId,
+      activity,
+      timestamp,
+      startTimestamp: parseTimestamp(get("startTimestamp")),
+      resource: get("resource"),
+      role: get("role"),
+      lifecycle: get("lifecycle")?.toLowerCase(),
+    });
+  }
+
+  if (skipped > 0) {
+    warnings.push({
+      type: "warning",
+      message: `${skipped} row${skipped === 1 ? "" : "s"} skipped because the case id, activity or timestamp was missing or invalid`,
+    });
+  }
+
+  return buildEventLog(events, errors, warnings);
+}
+
+function xesAttribute(el: Element, key: string): string | undefined {
+  const attr = Array.from(el.children).find((child) => child.getAttribute("key") === key);
+  return attr?.getAttribute("value") ?? undefined;
+}
+
+/**
+ * Parse an IEEE XES event log (concept:name, time:timestamp, org:resource,
+ * org:role and lifecycle:transition attributes)
+ */
+export function parseXES(xmlContent: string): EventLogParseResult {
+  const errors: ImportError[] = [];
+  const warnings: ImportWarning[] = [];
+
+  const doc = new DOMParser().parseFromString(xmlContent, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0 || doc.documentElement.localName !== "log") {
+    errors.push({ type: "error", message: "Invalid XES: expected a <log> document" });
+    return { valid: false, errors, warnings };
+  }
+
+  const events: RawEvent[] = [];
+  let skipped = 0;
+
+  Array.from(doc.documentElement.children)
+    .filter((el) => el.localName === "trace")
+    .forEach((trace, traceIdx) => {
+      const caseId = xesAttribute(trace, "concept:name") || `Case ${traceIdx + 1}`;
+      Array.from(trace.children)
+        .filter((el) => el.localName === "event")
+        .forEach((event) => {
+          const activity = xesAttribute(event, "concept:name");
+          const timestamp = parseTimestamp(xesAttribute(event, "time:timestamp"));
+          if (!activity || !timestamp) {
+            skipped++;
+            return;
+          }
+          events.push({
+            caseId,
+            activity,
+            timestamp,
+            resource: xesAttribute(event, "org:resource"),
+            role: xesAttribute(event, "org:role") || xesAttribute(event, "org:group"),
+            lifecycle: xesAttribute(event, "lifecycle:transition")?.toLowerCase(),
+          });
+        });
+    });
+
+  if (skipped > 0) {
+    warnings.push({
+      type: "warning",
+      message: `${skipped} event${skipped === 1 ? "" : "s"} skipped because the activity name or timestamp was missing`,
+    });
+  }
+
+  return buildEventLog(events, errors, warnings);
+}
+
+/**
+ * Parse an event log, detecting XES by its XML content
+ */
+export function parseEventLog(content: string): EventLogParseResult {
+  return content.trimStart().startsWith("<") ? parseXES(content) : parseEventLogCSV(content);
+}
+
+/** Group events into cases and merge start/complete lifecycle pairs into activity instances */
+function buildEventLog(
+  events: RawEvent[],
+  errors: ImportError[],
+  warnings: ImportWarning[]
+): EventLogParseResult {
+  if (events.length === 0) {
+    errors.push({ type: "error", message: "Event log contains no usable events" });
+    return { valid: false, errors, warnings };
+  }
+
+  const byCase = new Map<string, RawEvent[]>();
+  events.forEach((event) => {
+    const list = byCase.get(event.caseId) || [];
+    list.push(event);
+    byCase.set(event.caseId, list);
+  });
+
+  const cases: EventLogCase[] = [];
+  byCase.forEach((caseEvents, caseId) => {
+    const sorted = [...caseEvents].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const activities: EventLogActivity[] = [];
+    const openStarts = new Map<string, RawEvent[]>();
+
+    sorted.forEach((event) => {
+      if (event.lifecycle === "start") {
+        const pending = openStarts.get(event.activity) || [];
+        pending.push(event);
+        openStarts.set(event.activity, pending);
+        return;
+      }
+      if (event.lifecycle && event.lifecycle !== "complete") return;
+
+      const started = openStarts.get(event.activity)?.shift();
+      activities.push({
+        activity: event.activity,
+        start: event.startTimestamp ?? started?.timestamp,
+        end: event.timestamp,
+        resource: event.resource ?? started?.resource,
+        role: event.role ?? started?.role,
+      });
+    });
+
+    if (activities.length > 0) cases.push({ caseId, activities });
+  });
+
+  if (cases.length === 0) {
+    errors.push({ type: "error", message: "Event log contains no completed activities" });
+    return { valid: false, errors, warnings };
+  }
+
+  return { valid: true, log: { cases, eventCount: events.length }, errors, warnings };
+}
+
+// ============================================
+// DISCOVERY
+// ============================================
+
+function median(values: number[]): number | undefined {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function mostFrequent(values: Array<string | undefined>): string | undefined {
+  const counts = new Map<string, number>();
+  values.forEach((v) => v && counts.set(v, (counts.get(v) || 0) + 1));
+  let best: string | undefined;
+  counts.forEach((count, value) => {
+    if (!best || count > counts.get(best)!) best = value;
+  });
+  return best;
+}
+
+function toMinutes(ms: number): number {
+  return Math.round((ms / 60000) * 10) / 10;
+}
+
+/** Summarize the distinct activity sequences in a log, most frequent first */
+export function getProcessVariants(log: EventLog): ProcessVariant[] {
+  const counts = new Map<string, { activities: string[]; count: number }>();
+  log.cases.forEach((c) => {
+    const activities = c.activities.map((a) => a.activity);
+    const key = JSON.stringify(activities);
+    const entry = counts.get(key) || { activities, count: 0 };
+    entry.count++;
+    counts.set(key, entry);
+  });
+
+  return Array.from(counts.values())
+    .map((v) => ({ ...v, share: v.count / log.cases.length }))
+    .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Discover a workflow from an event log using a directly-follows graph.
+ * Activities and paths seen in fewer than `frequencyThreshold` of cases are
+ * filtered as noise, except that each kept activity keeps its strongest
+ * incoming and outgoing path so the map stays connected.
+ */
+export function discoverProcess(log: EventLog, options: DiscoveryOptions = {}): DiscoveryResult {
+  const threshold = Math.min(Math.max(options.frequencyThreshold ?? DEFAULT_FREQUENCY_THRESHOLD, 0), 1);
+  const caseCount = log.cases.length;
+  const errors: ImportError[] = [];
+  const warnings: ImportWarning[] = [];
+
+  // Activity case-frequency and timings
+  const caseFrequency = new Map<string, number>();
+  const leadTimes = new Map<string, number[]>();
+  const cycleTimes = new Map<string, number[]>();
+  const positions = new Map<string, number[]>();
+  const performers = new Map<string, Array<string | undefined>>();
+
+  log.cases.forEach((c) => {
+    new Set(c.activities.map((a) => a.activity)).forEach((activity) =>
+      caseFrequency.set(activity, (caseFrequency.get(activity) || 0) + 1)
+    );
+    c.activities.forEach((instance, idx) => {
+      const previousEnd = idx > 0 ? c.activities[idx - 1].end : instance.start;
+      const push = <T>(map: Map<string, T[]>, value: T) => {
+        const list = map.get(instance.activity) || [];
+        list.push(value);
+        map.set(instance.activity, list);
+      };
+      if (previousEnd) push(leadTimes, instance.end.getTime() - previousEnd.getTime());
+      if (instance.start) push(cycleTimes, instance.end.getTime() - instance.start.getTime());
+      push(positions, c.activities.length > 1 ? idx / (c.activities.length - 1) : 0);
+      push(performers, instance.role || instance.resource);
+    });
+  });
+
+  const keptActivities = new Set(
+    Array.from(caseFrequency.entries())
+      .filter(([, count]) => count / caseCount >= threshold)
+      .map(([activity]) => activity)
+  );
+  if (keptActivities.size === 0) {
+    errors.push({
+      type: "error",
+      message: "No activity meets the frequency threshold. Lower the threshold and try again.",
+    });
+    return { valid: false, errors, warnings };
+  }
+
+  // Directly-follows counts over traces projected onto the kept activities
+  const edgeCounts = new Map<string, number>();
+  let selfLoopCases = 0;
+  log.cases.forEach((c) => {
+    const trace = c.activities.map((a) => a.activity).filter((a) => keptActivities.has(a));
+    if (trace.length === 0) return;
+    const path = [START_STEP_ID, ...trace, END_STEP_ID];
+    let hasSelfLoop = false;
+    for (let i = 0; i < path.length - 1; i++) {
+      if (path[i] === path[i + 1]) {
+        hasSelfLoop = true;
+        continue;
+      }
+      const key = JSON.stringify([path[i], path[i + 1]]);
+      edgeCounts.set(key, (edgeCounts.get(key) || 0) + 1);
+    }
+    if (hasSelfLoop) selfLoopCases++;
+  });
+
+  const edges = Array.from(edgeCounts.entries()).map(([key, count]) => {
+    const [from, to] = JSON.parse(key) as [string, string];
+    return { from, to, count };
+  });
+  const keptEdges = new Set(edges.filter((e) => e.count / caseCount >= threshold));
+  keptActivities.forEach((activity) => {
+    const strongest = (list: typeof edges) =>
+      list.reduce<(typeof edges)[number] | undefined>((best, e) => (!best || e.count > best.count ? e : best), undefined);
+    const incoming = strongest(edges.filter((e) => e.to === activity));
+    const outgoing = strongest(edges.filter((e) => e.from === activity));
+    if (incoming) keptEdges.add(incoming);
+    if (outgoing) keptEdges.add(outgoing);
+  });
+
+  // Steps, ordered by where each activity typically occurs in a case
+  const activities = Array.from(keptActivities).sort(
+    (a, b) => (median(positions.get(a)!) ?? 0) - (median(positions.get(b)!) ?? 0)
+  );
+  const stepIds = new Map(activities.map((activity, idx) => [activity, `mined-${idx + 1}`]));
+  const laneFor = (activity: string) =>
+    (mostFrequent(performers.get(activity) || []) || UNASSIGNED_LANE).slice(0, MAX_LANE_NAME_LENGTH);
+
+  const activitySteps: ImportStep[] = activities.map((activity) => {
+    const lead = median(leadTimes.get(activity) || []);
+    const cycle = median(cycleTimes.get(activity) || []);
+    return {
+      id: stepIds.get(activity)!,
+      name: activity.slice(0, MAX_STEP_NAME_LENGTH),
+      lane: laneFor(activity),
+      type: "action",
+      description: `Seen in ${caseFrequency.get(activity)} of ${caseCount} cases`,
+      lead_time_minutes: lead !== undefined ? toMinutes(lead) : undefined,
+      cycle_time_minutes: cycle !== undefined ? toMinutes(cycle) : undefined,
+    };
+  });
+
+  const steps: ImportStep[] = [
+    { id: START_STEP_ID, name: "Start", lane: activitySteps[0].lane, type: "start" },
+    ...activitySteps,
+    { id: END_STEP_ID, name: "End", lane: activitySteps[activitySteps.length - 1].lane, type: "end" },
+  ];
+
+  const connections: ImportConnection[] = Array.from(keptEdges)
+    .sort((a, b) => b.count - a.count)
+    .map((e) => ({
+      from: stepIds.get(e.from) ?? e.from,
+      to: stepIds.get(e.to) ?? e.to,
+      label: `${e.count} case${e.count === 1 ? "" : "s"}`,
+    }));
+
+  const droppedActivities = caseFrequency.size - keptActivities.size;
+  if (droppedActivities > 0) {
+    warnings.push({
+      type: "warning",
+      message: `${droppedActivities} infrequent activit${droppedActivities === 1 ? "y was" : "ies were"} filtered out`,
+    });
+  }
+  if (selfLoopCases > 0) {
+    warnings.push({
+      type: "warning",
+      message: `${selfLoopCases} case${selfLoopCases === 1 ? " repeats" : "s repeat"} an activity back-to-back (rework); these loops are not drawn`,
+    });
+  }
+
+  const variants = getProcessVariants(log);
+  const laneNames = Array.from(new Set(steps.map((s) => s.lane)));
+
+  return {
+    valid: true,
+    data: {
+      name: options.name || "Discovered Workflow",
+      description: `Discovered from ${caseCount} cases and ${variants.length} variants`,
+      lanes: laneNames,
+      steps,
+      connections,
+    },
+    errors,
+    warnings,
+    stats: {
+      caseCount,
+      eventCount: log.eventCount,
+      activityCount: caseFrequency.size,
+      keptActivityCount: keptActivities.size,
+      pathCount: edges.length,
+      keptPathCount: keptEdges.size,
+      variants,
+    },
+  };
+}
@@ -0,0 +1,314 @@
+import type { FutureStateEdge, FutureStateNode, ProcessStep } from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface TimingModel {
+  steps: Pick<ProcessStep, "id" | "step_type" | "lead_time_minutes" | "cycle_time_minutes">[];
+  connections: {
+    source_step_id: string;
+    target_step_id: string;
+    branch_probability?: number | null;
+  }[];
+}
+
+export interface CriticalPath {
+  stepIds: string[];
+  /** Keyed `${source}-${target}` like ProcessMap edges */
+  edgeKeys: string[];
+  leadTimeMinutes: number;
+  touchTimeMinutes: number;
+}
+
+export interface ProcessTimingResult {
+  /** Expected lead time per case, weighting each step by how often cases visit it */
+  leadTimeMinutes: number;
+  /** Expected value-adding (cycle) time per case */
+  touchTimeMinutes: number;
+  waitTimeMinutes: number;
+  /** Process Cycle Efficiency (touch / lead), null when no lead time is recorded */
+  pce: number | null;
+  criticalPath: CriticalPath;
+  /** Expected visits per case; above 1 for steps inside rework loops */
+  expectedVisits: Record<string, number>;
+  /** Resolved probability for every connection, keyed `${source}-${target}` */
+  branchProbabilities: Record<string, number>;
+  /** Work steps with neither lead nor cycle time recorded */
+  stepsMissingTimes: string[];
+  unreachableStepIds: string[];
+  /** A loop has no way out, so expected figures only cover the bounded part */
+  hasUnboundedLoop: boolean;
+}
+
+// Steps that mark flow rather than work are not expected to carry times
+const UNTIMED_STEP_TYPES = new Set(["start", "end", "decision"]);
+
+const MAX_ITERATIONS = 10000;
+const CONVERGENCE_TOLERANCE = 1e-9;
+const MAX_EXPECTED_VISITS = 1e6;
+
+// ============================================
+// HELPERS
+// ============================================
+
+const edgeKey = (source: string, target: string) => `${source}-${target}`;
+
+function stepTimes(step: TimingModel["steps"][number]) {
+  const cycle = step.cycle_time_minutes ?? 0;
+  // Lead time includes the cycle time; fall back to it when lead is missing
+  const lead = Math.max(step.lead_time_minutes ?? cycle, cycle);
+  return { lead, cycle };
+}
+
+/** Explicit start steps, else steps nothing flows into, else the first step */
+export function getStartStepIds(model: Pick<TimingModel, "steps" | "connections">): string[] {
+  const explicit = model.steps.filter((s) => s.step_type === "start").map((s) => s.id);
+  if (explicit.length > 0) return explicit;
+
+  const targets = new Set(model.connections.map((c) => c.target_step_id));
+  const roots = model.steps.filter((s) => !targets.has(s.id)).map((s) => s.id);
+  if (roots.length > 0) return roots;
+
+  return model.steps.length > 0 ? [model.steps[0].id] : [];
+}
+
+/**
+ * Resolve the probability of each outgoing connection. Unset probabilities share
+ * whatever the set ones leave over; totals above or below 1 are normalized.
+ */
+export function resolveBranchProbabilities(
+  connections: TimingModel["connections"]
+): Record<string, number> {
+  const bySource = new Map<string, TimingModel["connections"]>();
+  for (const connection of connections) {
+    const list = bySource.get(connection.source_step_id) || [];
+    list.push(connection);
+    bySource.set(connection.source_step_id, list);
+  }
+
+  const resolved: Record<string, number> = {};
+  for (const outgoing of Array.from(bySource.values())) {
+    const explicit = outgoing.filter((c) => c.branch_probability != null);
+    const implicit = outgoing.filter((c) => c.branch_probability == null);
+    const explicitTotal = explicit.reduce(
+      (sum, c) => sum + Math.min(Math.max(c.branch_probability!, 0), 1),
+      0
+    );
+
+    for (const c of outgoing) {
+      const key = edgeKey(c.source_step_id, c.target_step_id);
+      const value =
+        c.branch_probability != null ? Math.min(Math.max(c.branch_probability, 0), 1) : null;
+
+      if (explicitTotal >= 1) {
+        resolved[key] = value != null ? value / explicitTotal : 0;
+      } else if (implicit.length > 0) {
+        resolved[key] = value ?? (1 - explicitTotal) / implicit.length;
+      } else if (explicitTotal > 0) {
+        resolved[key] = value! / explicitTotal;
+      } else {
+        resolved[key] = 1 / outgoing.length;
+      }
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Expected visits per step for a case entering at the start steps. Solves
+ * v = entry + Pᵀv by fixed-point iteration, which converges whenever every
+ * loop has a way out.
+ */
+function getExpectedVisits(
+  model: TimingModel,
+  probabilities: Record<string, number>,
+  startIds: string[]
+): { visits: Record<string, number>; bounded: boolean } {
+  const stepTypes = new Map(model.steps.map((s) => [s.id, s.step_type]));
+  const entry: Record<string, number> = {};
+  for (const id of model.steps.map((s) => s.id)) entry[id] = 0;
+  for (const id of startIds) entry[id] = 1 / startIds.length;
+
+  // End steps absorb the case even if something is drawn out of them
+  const flowing = model.connections.filter(
+    (c) =>
+      stepTypes.has(c.source_step_id) &&
+      stepTypes.has(c.target_step_id) &&
+      stepTypes.get(c.source_step_id) !== "end"
+  );
+
+  let visits = { ...entry };
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const next = { ...entry };
+    for (const c of flowing) {
+      next[c.target_step_id] +=
+        visits[c.source_step_id] * probabilities[edgeKey(c.source_step_id, c.target_step_id)];
+    }
+
+    let delta = 0;
+    let largest = 0;
+    for (const id of Object.keys(next)) {
+      delta = Math.max(delta, Math.abs(next[id] - visits[id]));
+      largest = Math.max(largest, next[id]);
+    }
+    visits = next;
+
+    if (delta < CONVERGENCE_TOLERANCE) return { visits, bounded: true };
+    if (largest > MAX_EXPECTED_VISITS) break;
+  }
+
+  return { visits, bounded: false };
+}
+
+/**
+ * Longest lead-time path from a start step to an end step. Loop-closing
+ * connections are ignored so each step is counted once on the path.
+ */
+function getCriticalPath(model: TimingModel, startIds: string[]): CriticalPath {
+  const stepsById = new Map(model.steps.map((s) => [s.id, s]));
+  const outgoing = new Map<string, string[]>();
+  for (const c of model.connections) {
+    if (!stepsById.has(c.source_step_id) || !stepsById.has(c.target_step_id)) continue;
+    const list = outgoing.get(c.source_step_id) || [];
+    list.push(c.target_step_id);
+    outgoing.set(c.source_step_id, list);
+  }
+
+  // Depth-first search for a topological order, dropping back edges
+  const order: string[] = [];
+  const state = new Map<string, "visiting" | "done">();
+  const forward = new Map<string, string[]>();
+  const visit = (id: string) => {
+    state.set(id, "visiting");
+    const kept: string[] = [];
+    for (const target of outgoing.get(id) || []) {
+      const targetState = state.get(target);
+      if (targetState === "visiting") continue;
+      kept.push(target);
+      if (!targetState) visit(target);
+    }
+    forward.set(id, kept);
+    state.set(id, "done");
+    order.push(id);
+  };
+  for (const id of startIds) if (!state.has(id)) visit(id);
+  order.reverse();
+
+  const best = new Map<string, { lead: number; previous: string | null }>();
+  for (const id of startIds) best.set(id, { lead: stepTimes(stepsById.get(id)!).lead, previous: null });
+
+  for (const id of order) {
+    const current = best.get(id);
+    if (!current) continue;
+    for (const target of forward.get(id) || []) {
+      const lead = current.lead + stepTimes(stepsById.get(target)!).lead;
+      const existing = best.get(target);
+      if (!existing || lead > existing.lead) best.set(target, { lead, previous: id });
+    }
+  }
+
+  // Prefer paths that finish at an end step; otherwise any dead end counts
+  const reached = Array.from(best.keys());
+  const ends = reached.filter((id) => stepsById.get(id)!.step_type === "end");
+  const terminals =
+    ends.length > 0 ? ends : reached.filter((id) => (forward.get(id) || []).length === 0);
+
+  let last: string | null = null;
+  for (const id of terminals) {
+    if (last === null || best.get(id)!.lead > best.get(last)!.lead) last = id;
+  }
+  if (last === null) {
+    return { stepIds: [], edgeKeys: [], leadTimeMinutes: 0, touchTimeMinutes: 0 };
+  }
+
+  const stepIds: string[] = [];
+  for (let id: string | null = last; id !== null; id = best.get(id)!.previous) {
+    stepIds.unshift(id);
+  }
+
+  return {
+    stepIds,
+    edgeKeys: stepIds.slice(1).map((id, idx) => edgeKey(stepIds[idx], id)),
+    leadTimeMinutes: best.get(last)!.lead,
+    touchTimeMinutes: stepIds.reduce((sum, id) => sum + stepTimes(stepsById.get(id)!).cycle, 0),
+  };
+}
+
+// ============================================
+// ANALYSIS
+// ============================================
+
+/**
+ * Expected lead time, touch time and Process Cycle Efficiency for a workflow,
+ * plus its critical path. Decision branches are weighted by branch probability.
+ */
+export function analyzeProcessTiming(model: TimingModel): ProcessTimingResult {
+  const startIds = getStartStepIds(model);
+  const branchProbabilities = resolveBranchProbabilities(model.connections);
+  const { visits, bounded } = getExpectedVisits(model, branchProbabilities, startIds);
+
+  let leadTimeMinutes = 0;
+  let touchTimeMinutes = 0;
+  for (const step of model.steps) {
+    const { lead, cycle } = stepTimes(step);
+    leadTimeMinutes += visits[step.id] * lead;
+    touchTimeMinutes += visits[step.id] * cycle;
+  }
+
+  return {
+    leadTimeMinutes,
+    touchTimeMinutes,
+    waitTimeMinutes: leadTimeMinutes - touchTimeMinutes,
+    pce: leadTimeMinutes > 0 ? touchTimeMinutes / leadTimeMinutes : null,
+    criticalPath: getCriticalPath(model, startIds),
+    expectedVisits: visits,
+    branchProbabilities,
+    stepsMissingTimes: model.steps
+      .filter(
+        (s) =>
+          !UNTIMED_STEP_TYPES.has(s.step_type) &&
+          s.lead_time_minutes == null &&
+          s.cycle_time_minutes == null
+      )
+      .map((s) => s.id),
+    unreachableStepIds: model.steps.filter((s) => visits[s.id] === 0).map((s) => s.id),
+    hasUnboundedLoop: !bounded,
+  };
+}
+
+/**
+ * Timing model for a future state. Removed nodes and the edges that touch them
+ * are left out, so the figures describe the redesigned flow.
+ */
+export function getFutureStateTimingModel(
+  nodes: Pick<FutureStateNode, "id" | "step_type" | "lead_time_minutes" | "cycle_time_minutes" | "action">[],
+  edges: Pick<FutureStateEdge, "source_node_id" | "target_node_id" | "branch_probability">[]
+): TimingModel {
+  const kept = nodes.filter((n) => n.action !== "remove");
+  const keptIds = new Set(kept.map((n) => n.id));
+
+  return {
+    steps: kept.map((n) => ({
+      id: n.id,
+      step_type: n.step_type,
+      lead_time_minutes: n.lead_time_minutes,
+      cycle_time_minutes: n.cycle_time_minutes,
+    })),
+    connections: edges
+      .filter((e) => keptIds.has(e.source_node_id) && keptIds.has(e.target_node_id))
+      .map((e) => ({
+        source_step_id: e.source_node_id,
+        target_step_id: e.target_node_id,
+        branch_probability: e.branch_probability,
+      })),
+  };
+}
+
+/** Format minutes as a compact duration, e.g. "45m", "3.5h" or "2.1d" (8h days) */
+export function formatDuration(minutes: number): string {
+  if (minutes < 60) return `${Math.round(minutes)}m`;
+  if (minutes < 480) return `${Math.round((minutes / 60) * 10) / 10}h`;
+  return `${Math.round((minutes / 480) * 10) / 10}d`;
+}
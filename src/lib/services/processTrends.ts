@@ -0,0 +1,296 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { toRpcFilters, type AnalyticsFilters } from "./analyticsQuery";
+
+// ============================================
+// TYPES
+// ============================================
+
+/** One session of a workflow, as a point on its trend charts */
+export interface ProcessTrendPoint {
+  sessionId: string;
+  sessionName: string;
+  /** When the session started, or was created if it never started */
+  date: string;
+  observationCount: number;
+  avgPriority: number;
+  /** Percentage of observations flagged digital, 0-100 */
+  digitalShare: number;
+  /** Observations tagged with each waste type, by waste type id */
+  wasteCounts: Record<string, number>;
+}
+
+export interface TrendWasteType {
+  id: string;
+  name: string;
+  code: string;
+  color: string;
+  total: number;
+}
+
+export type TrendAnnotationKind = "future_state_published" | "wave_completed";
+
+/** An improvement landing, drawn as a marker on every chart */
+export interface TrendAnnotation {
+  id: string;
+  kind: TrendAnnotationKind;
+  label: string;
+  date: string;
+}
+
+export interface ProcessTrend {
+  processId: string;
+  points: ProcessTrendPoint[];
+  /** Every waste type seen across the sessions, most observed first */
+  wasteTypes: TrendWasteType[];
+  annotations: TrendAnnotation[];
+}
+
+/** XmR (individuals and moving range) chart limits */
+export interface ControlLimits {
+  mean: number;
+  averageMovingRange: number;
+  upper: number;
+  lower: number;
+  /** How many points the limits were computed from */
+  baselineSize: number;
+}
+
+export type ControlSignalRule = "outside_limits" | "run";
+
+export interface ControlSignal {
+  index: number;
+  rule: ControlSignalRule;
+}
+
+export type TrendMetric = "observationCount" | "avgPriority" | "digitalShare";
+
+export const TREND_METRICS: { key: TrendMetric; label: string; bounds: { min: number; max?: number } }[] = [
+  { key: "observationCount", label: "Observations", bounds: { min: 0 } },
+  { key: "avgPriority", label: "Average priority", bounds: { min: 0 } },
+  { key: "digitalShare", label: "Digital share (%)", bounds: { min: 0, max: 100 } },
+];
+
+// Scales the average moving range to three sigma for individual values
+const XMR_SCALING = 2.66;
+
+// Points in a row on one side of the mean that count as a shift
+export const RUN_LENGTH = 8;
+
+// ============================================
+// CONTROL LIMITS
+// ============================================
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * XmR limits from the baseline values. The lower limit is floored at the
+ * metric's minimum (counts can't go negative) and the upper capped at its
+ * maximum. Needs at least two values to have a moving range.
+ */
+export function computeControlLimits(
+  baseline: number[],
+  bounds: { min?: number; max?: number } = {}
+): ControlLimits | null {
+  if (baseline.length < 2) return null;
+
+  const mean = baseline.reduce((sum, value) => sum + value, 0) / baseline.length;
+  const movingRanges = baseline.slice(1).map((value, index) => Math.abs(value - baseline[index]));
+  const averageMovingRange = movingRanges.reduce((sum, value) => sum + value, 0) / movingRanges.length;
+
+  let upper = mean + XMR_SCALING * averageMovingRange;
+  let lower = mean - XMR_SCALING * averageMovingRange;
+  if (bounds.min !== undefined) lower = Math.max(lower, bounds.min);
+  if (bounds.max !== undefined) upper = Math.min(upper, bounds.max);
+
+  return {
+    mean: round(mean),
+    averageMovingRange: round(averageMovingRange),
+    upper: round(upper),
+    lower: round(lower),
+    baselineSize: baseline.length,
+  };
+}
+
+/**
+ * Points that show a real change rather than routine variation: any point
+ * beyond a limit, and every point of a run of RUN_LENGTH or more on one side
+ * of the mean.
+ */
+export function detectControlSignals(values: number[], limits: ControlLimits | null): ControlSignal[] {
+  if (!limits) return [];
+  const signals: ControlSignal[] = [];
+
+  values.forEach((value, index) => {
+    if (value > limits.upper || value < limits.lower) signals.push({ index, rule: "outside_limits" });
+  });
+
+  let runStart = 0;
+  let runSide = 0;
+  const closeRun = (end: number) => {
+    if (runSide !== 0 && end - runStart >= RUN_LENGTH) {
+      for (let index = runStart; index < end; index++) {
+        if (!signals.some((s) => s.index === index)) signals.push({ index, rule: "run" });
+      }
+    }
+  };
+  values.forEach((value, index) => {
+    const side = Math.sign(value - limits.mean);
+    if (side !== runSide) {
+      closeRun(index);
+      runStart = index;
+      runSide = side;
+    }
+  });
+  closeRun(values.length);
+
+  return signals.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * How many points come before a date, for computing limits from the
+ * sessions before an improvement and judging the ones after against them.
+ */
+export function countPointsBefore(points: ProcessTrendPoint[], date: string): number {
+  const cutoff = new Date(date).getTime();
+  return points.filter((point) => new Date(point.date).getTime() < cutoff).length;
+}
+
+export function getMetricValues(points: ProcessTrendPoint[], metric: TrendMetric): number[] {
+  return points.map((point) => point[metric]);
+}
+
+export function getWasteTypeValues(points: ProcessTrendPoint[], wasteTypeId: string): number[] {
+  return points.map((point) => point.wasteCounts[wasteTypeId] ?? 0);
+}
+
+// ============================================
+// SHAPING
+// ============================================
+
+export function buildProcessTrend(
+  processId: string,
+  sessions: {
+    session_id: string;
+    session_name: string;
+    session_date: string;
+    observation_count: number;
+    avg_priority: number;
+    digital_count: number;
+  }[],
+  wasteCounts: { session_id: string; waste_type_id: string; name: string; code: string; color: string | null; count: number }[],
+  milestones: {
+    futureStates: { id: string; name: string; version: number; published_at: string }[];
+    waves: { id: string; name: string; completed_at: string }[];
+  }
+): ProcessTrend {
+  const wasteTypes = new Map<string, TrendWasteType>();
+  const countsBySession = new Map<string, Record<string, number>>();
+
+  wasteCounts.forEach((row) => {
+    const count = Number(row.count);
+    const counts = countsBySession.get(row.session_id) || {};
+    counts[row.waste_type_id] = (counts[row.waste_type_id] ?? 0) + count;
+    countsBySession.set(row.session_id, counts);
+
+    const wasteType = wasteTypes.get(row.waste_type_id);
+    if (wasteType) {
+      wasteType.total += count;
+    } else {
+      wasteTypes.set(row.waste_type_id, {
+        id: row.waste_type_id,
+        name: row.name,
+        code: row.code,
+        color: row.color || "#6B7280",
+        total: count,
+      });
+    }
+  });
+
+  const points: ProcessTrendPoint[] = sessions
+    .map((row) => {
+      const observationCount = Number(row.observation_count);
+      return {
+        sessionId: row.session_id,
+        sessionName: row.session_name,
+        date: row.session_date,
+        observationCount,
+        avgPriority: Number(row.avg_priority),
+        digitalShare: observationCount > 0 ? round((Number(row.digital_count) / observationCount) * 100) : 0,
+        wasteCounts: countsBySession.get(row.session_id) || {},
+      };
+    })
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  const annotations: TrendAnnotation[] = [
+    ...milestones.futureStates.map((fs) => ({
+      id: fs.id,
+      kind: "future_state_published" as const,
+      label: `Published ${fs.name} v${fs.version}`,
+      date: fs.published_at,
+    })),
+    ...milestones.waves.map((wave) => ({
+      id: wave.id,
+      kind: "wave_completed" as const,
+      label: `Completed ${wave.name}`,
+      date: wave.completed_at,
+    })),
+  ].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  return {
+    processId,
+    points,
+    wasteTypes: Array.from(wasteTypes.values()).sort((a, b) => b.total - a.total || a.code.localeCompare(b.code)),
+    annotations,
+  };
+}
+
+// ============================================
+// LOADERS
+// ============================================
+
+/**
+ * Every session of one workflow with published future states and completed
+ * waves. The other filters (dates, lanes, waste categories...) narrow which
+ * observations are counted.
+ */
+export async function loadProcessTrend(
+  supabase: SupabaseClient,
+  processId: string,
+  filters: AnalyticsFilters,
+  orgId?: string | null
+): Promise<ProcessTrend> {
+  const rpcFilters = toRpcFilters({ ...filters, processIds: [processId] }, orgId);
+
+  const [seriesRes, wasteRes, futureStatesRes, sessionsRes] = await Promise.all([
+    supabase.rpc("analytics_session_series", { p_filters: rpcFilters }),
+    supabase.rpc("analytics_session_waste_counts", { p_filters: rpcFilters }),
+    supabase
+      .from("future_states")
+      .select("id, name, version, published_at")
+      .eq("process_id", processId)
+      .not("published_at", "is", null),
+    supabase.from("sessions").select("id").eq("process_id", processId),
+  ]);
+
+  if (seriesRes.error) throw seriesRes.error;
+  if (wasteRes.error) throw wasteRes.error;
+  if (futureStatesRes.error) throw futureStatesRes.error;
+  if (sessionsRes.error) throw sessionsRes.error;
+
+  const sessionIds = (sessionsRes.data || []).map((s: { id: string }) => s.id);
+  let waves: { id: string; name: string; completed_at: string }[] = [];
+  if (sessionIds.length > 0) {
+    const { data, error } = await supabase
+      .from("implementation_waves")
+      .select("id, name, completed_at")
+      .in("session_id", sessionIds)
+      .not("completed_at", "is", null);
+    if (error) throw error;
+    waves = data || [];
+  }
+
+  return buildProcessTrend(processId, seriesRes.data || [], wasteRes.data || [], {
+    futureStates: futureStatesRes.data || [],
+    waves,
+  });
+}
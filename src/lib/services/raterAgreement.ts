@@ -0,0 +1,208 @@
+import type { ScoringDimension } from "@/types";
+import { getObserverName } from "./observerPrivacy";
+import {
+  DEFAULT_SCORING_MODEL,
+  getObservationScores,
+  type ScoringModelDefinition,
+} from "./scoringModel";
+
+// ============================================
+// TYPES
+// ============================================
+
+/** rWG below this on any dimension flags the group for calibration */
+export const AGREEMENT_THRESHOLD = 0.7;
+
+export interface AgreementObservation {
+  id: string;
+  step_id: string | null;
+  user_id: string | null;
+  guest_id?: string | null;
+  user?: { name: string } | null;
+  guest?: { display_name: string | null } | null;
+  scores?: Record<string, number> | null;
+  frequency_score?: number;
+  impact_score?: number;
+  ease_score?: number;
+  waste_types?: { id: string; name: string; code: string }[];
+}
+
+export interface RaterScores {
+  userId: string;
+  userName: string;
+  /** The rater's score per dimension key, averaged when they logged the same waste twice */
+  scores: Record<string, number>;
+  observationIds: string[];
+}
+
+export interface DimensionSpread {
+  mean: number;
+  min: number;
+  max: number;
+  standardDeviation: number;
+  /** rWG within-group agreement, 0 (none) to 1 (full) */
+  agreement: number;
+}
+
+export interface AgreementGroup {
+  key: string;
+  stepId: string;
+  wasteType: { id: string; name: string; code: string };
+  raters: RaterScores[];
+  /** Per dimension key of the scoring model */
+  spread: Record<string, DimensionSpread>;
+  /** Lowest agreement across the dimensions */
+  agreement: number;
+  weakestDimension: string;
+  disagreement: boolean;
+}
+
+export interface AgreementSummary {
+  groupsCompared: number;
+  groupsFlagged: number;
+  stepsFlagged: string[];
+  meanAgreement: number;
+}
+
+// ============================================
+// STATISTICS
+// ============================================
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * rWG agreement for one target: 1 minus the raters' sample variance over
+ * the variance expected if they answered at random on the dimension's scale,
+ * (A² - 1) / 12 for A options. Clamped to 0..1.
+ */
+export function scoreAgreement(
+  scores: number[],
+  scale: Pick<ScoringDimension, "min" | "max"> = { min: 1, max: 5 }
+): number {
+  if (scores.length < 2) return 1;
+  const options = scale.max - scale.min + 1;
+  const uniformVariance = (options ** 2 - 1) / 12;
+  const mean = scores.reduce((sum, s) => sum + s, 0) / scores.length;
+  const variance = scores.reduce((sum, s) => sum + (s - mean) ** 2, 0) / (scores.length - 1);
+  return round(Math.min(1, Math.max(0, 1 - variance / uniformVariance)));
+}
+
+function describeSpread(scores: number[], dimension: ScoringDimension): DimensionSpread {
+  const mean = scores.reduce((sum, s) => sum + s, 0) / scores.length;
+  const variance = scores.reduce((sum, s) => sum + (s - mean) ** 2, 0) / scores.length;
+  return {
+    mean: round(mean),
+    min: Math.min(...scores),
+    max: Math.max(...scores),
+    standardDeviation: round(Math.sqrt(variance)),
+    agreement: scoreAgreement(scores, dimension),
+  };
+}
+
+// ============================================
+// ANALYSIS
+// ============================================
+
+/**
+ * Group observations by step and waste type and measure how closely the
+ * participants who scored each group agree on each dimension of the session's
+ * scoring model. Groups scored by a single participant are left out. Least
+ * agreement first.
+ */
+export function analyzeRaterAgreement(
+  observations: AgreementObservation[],
+  model: ScoringModelDefinition = DEFAULT_SCORING_MODEL
+): AgreementGroup[] {
+  const groups = new Map<
+    string,
+    {
+      stepId: string;
+      wasteType: AgreementGroup["wasteType"];
+      raters: Map<string, { userName: string; totals: Record<string, number>; observationIds: string[] }>;
+    }
+  >();
+
+  for (const obs of observations) {
+    // Calibration is per step; handoff observations are left out
+    const stepId = obs.step_id;
+    if (!stepId) continue;
+    const raterId = obs.user_id ?? (obs.guest_id ? `guest:${obs.guest_id}` : null);
+    if (!raterId) continue;
+    const scores = getObservationScores(model, obs);
+
+    for (const wasteType of obs.waste_types || []) {
+      const key = `${stepId}:${wasteType.id}`;
+      let group = groups.get(key);
+      if (!group) {
+        group = { stepId, wasteType, raters: new Map() };
+        groups.set(key, group);
+      }
+
+      let rater = group.raters.get(raterId);
+      if (!rater) {
+        rater = {
+          userName: getObserverName(obs),
+          totals: Object.fromEntries(model.dimensions.map((d) => [d.key, 0])),
+          observationIds: [],
+        };
+        group.raters.set(raterId, rater);
+      }
+      for (const dimension of model.dimensions) {
+        rater.totals[dimension.key] += scores[dimension.key];
+      }
+      rater.observationIds.push(obs.id);
+    }
+  }
+
+  const results: AgreementGroup[] = [];
+
+  for (const [key, group] of Array.from(groups.entries())) {
+    if (group.raters.size < 2) continue;
+
+    const raters: RaterScores[] = Array.from(group.raters.entries()).map(([userId, rater]) => {
+      const count = rater.observationIds.length;
+      return {
+        userId,
+        userName: rater.userName,
+        scores: Object.fromEntries(model.dimensions.map((d) => [d.key, round(rater.totals[d.key] / count)])),
+        observationIds: rater.observationIds,
+      };
+    });
+
+    const spread: Record<string, DimensionSpread> = Object.fromEntries(
+      model.dimensions.map((d) => [d.key, describeSpread(raters.map((r) => r.scores[d.key]), d)])
+    );
+
+    const weakestDimension = model.dimensions
+      .map((d) => d.key)
+      .reduce((weakest, key) => (spread[key].agreement < spread[weakest].agreement ? key : weakest));
+    const agreement = spread[weakestDimension].agreement;
+
+    results.push({
+      key,
+      stepId: group.stepId,
+      wasteType: group.wasteType,
+      raters: raters.sort((a, b) => a.userName.localeCompare(b.userName)),
+      spread,
+      agreement,
+      weakestDimension,
+      disagreement: agreement < AGREEMENT_THRESHOLD,
+    });
+  }
+
+  return results.sort((a, b) => a.agreement - b.agreement);
+}
+
+export function summarizeAgreement(groups: AgreementGroup[]): AgreementSummary {
+  const flagged = groups.filter((g) => g.disagreement);
+  return {
+    groupsCompared: groups.length,
+    groupsFlagged: flagged.length,
+    stepsFlagged: Array.from(new Set(flagged.map((g) => g.stepId))),
+    meanAgreement:
+      groups.length > 0 ? round(groups.reduce((sum, g) => sum + g.agreement, 0) / groups.length) : 1,
+  };
+}
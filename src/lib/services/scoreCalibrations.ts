@@ -0,0 +1,114 @@
+import { getSupabaseClient } from "@/lib/supabase/client";
+import { notifySessionParticipants } from "./notifications";
+import type { ScoringModelDefinition } from "./scoringModel";
+import type { ScoreCalibration } from "@/types";
+
+const supabase = getSupabaseClient();
+
+export interface CalibrationTarget {
+  sessionId: string;
+  stepId: string;
+  wasteTypeId: string;
+}
+
+export interface ConsensusScores {
+  /** Agreed score per dimension key of the session's scoring model */
+  scores: Record<string, number>;
+  notes?: string;
+}
+
+// ============================================
+// SCORE CALIBRATIONS
+// ============================================
+
+export async function getScoreCalibrations(sessionId: string) {
+  const { data, error } = await supabase
+    .from("score_calibrations")
+    .select("*")
+    .eq("session_id", sessionId);
+
+  if (error) throw error;
+  return (data || []) as ScoreCalibration[];
+}
+
+/**
+ * Flag a step and waste type for a calibration discussion and let the
+ * session's participants know
+ */
+export async function requestCalibration(target: CalibrationTarget, topic: string) {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const { data, error } = await supabase
+    .from("score_calibrations")
+    .upsert(
+      {
+        session_id: target.sessionId,
+        step_id: target.stepId,
+        waste_type_id: target.wasteTypeId,
+        status: "discussion",
+        requested_by: user?.id ?? null,
+      },
+      { onConflict: "session_id,step_id,waste_type_id" }
+    )
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  await notifySessionParticipants(
+    target.sessionId,
+    "Score calibration requested",
+    `The team scored ${topic} very differently. Be ready to discuss your scores.`,
+    "system",
+    user?.id
+  );
+
+  return data as ScoreCalibration;
+}
+
+/** Consensus must score every dimension of the model within its scale */
+export function validateConsensusScores(model: ScoringModelDefinition, scores: Record<string, number>): string[] {
+  return model.dimensions
+    .filter((d) => {
+      const value = scores[d.key];
+      return !Number.isInteger(value) || value < d.min || value > d.max;
+    })
+    .map((d) => `${d.label} must be a whole number from ${d.min} to ${d.max}`);
+}
+
+/** Record the score the team agreed on after discussion, on the session's scoring model */
+export async function recordConsensusScore(
+  target: CalibrationTarget,
+  consensus: ConsensusScores,
+  model: ScoringModelDefinition
+) {
+  const errors = validateConsensusScores(model, consensus.scores);
+  if (errors.length > 0) throw new Error(errors.join("; "));
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const { data, error } = await supabase
+    .from("score_calibrations")
+    .upsert(
+      {
+        session_id: target.sessionId,
+        step_id: target.stepId,
+        waste_type_id: target.wasteTypeId,
+        status: "resolved",
+        consensus_scores: Object.fromEntries(model.dimensions.map((d) => [d.key, consensus.scores[d.key]])),
+        notes: consensus.notes || null,
+        resolved_by: user?.id ?? null,
+        resolved_at: new Date().toISOString(),
+      },
+      { onConflict: "session_id,step_id,waste_type_id" }
+    )
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as ScoreCalibration;
+}
@@ -0,0 +1,343 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ScoringDimension, ScoringModel } from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+
+/** The model fields that drive scoring; the built-in default has no row */
+export type ScoringModelDefinition = Pick<ScoringModel, "name" | "dimensions" | "formula"> &
+  Partial<Pick<ScoringModel, "id" | "org_id" | "version">>;
+
+export interface LegacyScores {
+  frequency_score: number;
+  impact_score: number;
+  ease_score: number;
+}
+
+type FormulaNode =
+  | { type: "number"; value: number }
+  | { type: "variable"; name: string }
+  | { type: "negate"; operand: FormulaNode }
+  | { type: "binary"; operator: "+" | "-" | "*" | "/"; left: FormulaNode; right: FormulaNode }
+  | { type: "call"; name: FormulaFunction; args: FormulaNode[] };
+
+type FormulaFunction = "min" | "max" | "abs" | "round";
+
+const FORMULA_FUNCTIONS: Record<FormulaFunction, (...args: number[]) => number> = {
+  min: Math.min,
+  max: Math.max,
+  abs: Math.abs,
+  round: Math.round,
+};
+
+/** Always available in formulas: sum of each dimension's score times its weight */
+export const WEIGHTED_SUM_VARIABLE = "weighted_sum";
+
+const DIMENSION_KEY_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+/** The formula the app used before scoring models; sessions without a model use it */
+export const DEFAULT_SCORING_MODEL: ScoringModelDefinition = {
+  name: "Priority score",
+  dimensions: [
+    { key: "frequency", label: "Frequency", description: "How often does this waste occur?", min: 1, max: 5, weight: 1 },
+    { key: "impact", label: "Impact", description: "How severe is the impact?", min: 1, max: 5, weight: 1 },
+    { key: "ease", label: "Ease to Fix", description: "How easy would it be to fix?", min: 1, max: 5, weight: 1 },
+  ],
+  formula: "frequency * impact * (6 - ease)",
+};
+
+// ============================================
+// FORMULA
+// ============================================
+
+function tokenize(formula: string): string[] {
+  const tokens = formula.match(/\d+(?:\.\d+)?|[a-z_][a-z0-9_]*|[-+*/(),]|\S/gi) || [];
+  const invalid = tokens.find((t) => !/^(\d+(?:\.\d+)?|[a-z_][a-z0-9_]*|[-+*/(),])$/i.test(t));
+  if (invalid) throw new Error(`Unexpected "${invalid}" in formula`);
+  return tokens;
+}
+
+/**
+ * Parse a formula into a tree. Supports numbers, dimension keys,
+ * weighted_sum, + - * /, parentheses and min/max/abs/round.
+ */
+export function parseFormula(formula: string, variables: string[]): FormulaNode {
+  const tokens = tokenize(formula);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new Error(`Expected "${token}" in formula`);
+  };
+
+  const parseExpression = (): FormulaNode => {
+    let node = parseTerm();
+    while (peek() === "+" || peek() === "-") {
+      const operator = next() as "+" | "-";
+      node = { type: "binary", operator, left: node, right: parseTerm() };
+    }
+    return node;
+  };
+
+  const parseTerm = (): FormulaNode => {
+    let node = parseUnary();
+    while (peek() === "*" || peek() === "/") {
+      const operator = next() as "*" | "/";
+      node = { type: "binary", operator, left: node, right: parseUnary() };
+    }
+    return node;
+  };
+
+  const parseUnary = (): FormulaNode => {
+    if (peek() === "-") {
+      next();
+      return { type: "negate", operand: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = next();
+    if (token === undefined) throw new Error("Formula ends unexpectedly");
+
+    if (token === "(") {
+      const node = parseExpression();
+      expect(")");
+      return node;
+    }
+    if (/^\d/.test(token)) return { type: "number", value: Number(token) };
+
+    if (/^[a-z_]/i.test(token)) {
+      const name = token.toLowerCase();
+      if (peek() === "(") {
+        if (!(name in FORMULA_FUNCTIONS)) throw new Error(`Unknown function "${token}"`);
+        next();
+        const args: FormulaNode[] = [];
+        if (peek() !== ")") {
+          args.push(parseExpression());
+          while (peek() === ",") {
+            next();
+            args.push(parseExpression());
+          }
+        }
+        expect(")");
+        return { type: "call", name: name as FormulaFunction, args };
+      }
+      if (!variables.includes(name)) throw new Error(`Unknown dimension "${token}"`);
+      return { type: "variable", name };
+    }
+
+    throw new Error(`Unexpected "${token}" in formula`);
+  };
+
+  if (tokens.length === 0) throw new Error("Formula is empty");
+  const tree = parseExpression();
+  if (position < tokens.length) throw new Error(`Unexpected "${tokens[position]}" in formula`);
+  return tree;
+}
+
+function evaluate(node: FormulaNode, values: Record<string, number>): number {
+  switch (node.type) {
+    case "number":
+      return node.value;
+    case "variable":
+      return values[node.name] ?? 0;
+    case "negate":
+      return -evaluate(node.operand, values);
+    case "call":
+      return FORMULA_FUNCTIONS[node.name](...node.args.map((arg) => evaluate(arg, values)));
+    case "binary": {
+      const left = evaluate(node.left, values);
+      const right = evaluate(node.right, values);
+      if (node.operator === "+") return left + right;
+      if (node.operator === "-") return left - right;
+      if (node.operator === "*") return left * right;
+      return right === 0 ? 0 : left / right;
+    }
+  }
+}
+
+// ============================================
+// MODEL
+// ============================================
+
+export function validateScoringModel(model: Pick<ScoringModelDefinition, "dimensions" | "formula">): string[] {
+  const errors: string[] = [];
+  const keys = new Set<string>();
+
+  if (model.dimensions.length === 0) errors.push("Add at least one dimension");
+
+  for (const dimension of model.dimensions) {
+    const name = dimension.label || dimension.key || "A dimension";
+    if (!DIMENSION_KEY_PATTERN.test(dimension.key)) {
+      errors.push(`${name}: key must start with a letter and use lowercase letters, digits or _`);
+    } else if (dimension.key === WEIGHTED_SUM_VARIABLE) {
+      errors.push(`${name}: "${WEIGHTED_SUM_VARIABLE}" is reserved`);
+    } else if (keys.has(dimension.key)) {
+      errors.push(`${name}: key "${dimension.key}" is used twice`);
+    }
+    keys.add(dimension.key);
+
+    if (!dimension.label.trim()) errors.push(`${dimension.key}: label is required`);
+    if (!Number.isInteger(dimension.min) || !Number.isInteger(dimension.max) || dimension.min >= dimension.max) {
+      errors.push(`${name}: scale must be whole numbers with min below max`);
+    }
+    if (!Number.isFinite(dimension.weight) || dimension.weight < 0) {
+      errors.push(`${name}: weight must be 0 or more`);
+    }
+  }
+
+  if (model.formula?.trim()) {
+    try {
+      parseFormula(model.formula, [...Array.from(keys), WEIGHTED_SUM_VARIABLE]);
+    } catch (error) {
+      errors.push((error as Error).message);
+    }
+  }
+
+  return errors;
+}
+
+function clampScore(dimension: ScoringDimension, value: number | undefined): number {
+  if (value == null || !Number.isFinite(value)) return getDefaultScore(dimension);
+  return Math.min(dimension.max, Math.max(dimension.min, value));
+}
+
+/** Middle of the scale, used when an observation has no score for a dimension */
+export function getDefaultScore(dimension: ScoringDimension): number {
+  return Math.round((dimension.min + dimension.max) / 2);
+}
+
+export function getDefaultScores(model: ScoringModelDefinition): Record<string, number> {
+  return Object.fromEntries(model.dimensions.map((d) => [d.key, getDefaultScore(d)]));
+}
+
+/**
+ * An observation's score per dimension: its stored scores, then the legacy
+ * frequency/impact/ease columns, then the middle of the scale
+ */
+export function getObservationScores(
+  model: ScoringModelDefinition,
+  observation: Partial<LegacyScores> & { scores?: Record<string, number> | null }
+): Record<string, number> {
+  const legacy: Record<string, number | undefined> = {
+    frequency: observation.frequency_score,
+    impact: observation.impact_score,
+    ease: observation.ease_score,
+  };
+  return Object.fromEntries(
+    model.dimensions.map((d) => [d.key, clampScore(d, observation.scores?.[d.key] ?? legacy[d.key])])
+  );
+}
+
+export function calculatePriority(model: ScoringModelDefinition, scores: Record<string, number>): number {
+  const values: Record<string, number> = {};
+  let weightedSum = 0;
+  for (const dimension of model.dimensions) {
+    const value = clampScore(dimension, scores[dimension.key]);
+    values[dimension.key] = value;
+    weightedSum += value * dimension.weight;
+  }
+  values[WEIGHTED_SUM_VARIABLE] = weightedSum;
+
+  const result = model.formula?.trim()
+    ? evaluate(parseFormula(model.formula, Object.keys(values)), values)
+    : weightedSum;
+
+  return Number.isFinite(result) ? Math.round(result * 100) / 100 : 0;
+}
+
+/**
+ * Move stored scores from one model version's scales to the next. A score
+ * keeps its relative position on a dimension whose scale changed; scores on
+ * other dimensions, including ones the new model dropped, are kept as they are.
+ */
+export function rescaleScores(
+  from: ScoringModelDefinition,
+  to: ScoringModelDefinition,
+  scores: Record<string, number>
+): Record<string, number> {
+  const rescaled = { ...scores };
+  for (const dimension of to.dimensions) {
+    const previous = from.dimensions.find((d) => d.key === dimension.key);
+    const value = scores[dimension.key];
+    if (!previous || value == null || (previous.min === dimension.min && previous.max === dimension.max)) continue;
+    rescaled[dimension.key] = Math.round(
+      dimension.min + ((value - previous.min) * (dimension.max - dimension.min)) / (previous.max - previous.min)
+    );
+  }
+  return rescaled;
+}
+
+function toLegacyScale(dimension: ScoringDimension | undefined, value: number | undefined): number {
+  if (!dimension || value == null) return 3;
+  if (dimension.min === 1 && dimension.max === 5) return Math.round(value);
+  return Math.round(1 + ((value - dimension.min) * 4) / (dimension.max - dimension.min));
+}
+
+/**
+ * frequency/impact/ease columns for features that still read them,
+ * rescaled to 1-5 from the model's dimensions of the same key
+ */
+export function getLegacyScores(model: ScoringModelDefinition, scores: Record<string, number>): LegacyScores {
+  const find = (key: string) => model.dimensions.find((d) => d.key === key);
+  return {
+    frequency_score: toLegacyScale(find("frequency"), scores.frequency),
+    impact_score: toLegacyScale(find("impact"), scores.impact),
+    ease_score: toLegacyScale(find("ease"), scores.ease),
+  };
+}
+
+/** Plain-language model description for reports and AI prompts */
+export function describeScoringModel(model: ScoringModelDefinition): string {
+  const dimensions = model.dimensions
+    .map((d) => `${d.label} (${d.key}, ${d.min}-${d.max}${d.weight !== 1 ? `, weight ${d.weight}` : ""})`)
+    .join(", ");
+  const formula = model.formula?.trim() || "weighted sum of the dimensions";
+  return `${model.name}${model.version ? ` v${model.version}` : ""}: ${formula}. Dimensions: ${dimensions}.`;
+}
+
+/** e.g. "F 4 · I 3 · E 2" */
+export function formatScores(model: ScoringModelDefinition, scores: Record<string, number>): string {
+  return model.dimensions.map((d) => `${d.label} ${scores[d.key] ?? "-"}`).join(" · ");
+}
+
+// ============================================
+// LOADING
+// ============================================
+
+/** The organization's active model: its highest version, or the built-in default */
+export async function loadActiveScoringModel(
+  supabase: SupabaseClient,
+  orgId: string
+): Promise<ScoringModelDefinition> {
+  const { data, error } = await supabase
+    .from("scoring_models")
+    .select("*")
+    .eq("org_id", orgId)
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data as ScoringModel | null) ?? DEFAULT_SCORING_MODEL;
+}
+
+/** The model version a session's scores were computed with */
+export async function loadSessionScoringModel(
+  supabase: SupabaseClient,
+  sessionId: string
+): Promise<ScoringModelDefinition> {
+  const { data, error } = await supabase
+    .from("sessions")
+    .select("scoring_model:scoring_models(*)")
+    .eq("id", sessionId)
+    .single();
+
+  if (error) throw error;
+  const row = data as unknown as { scoring_model: ScoringModel | ScoringModel[] | null };
+  const model = Array.isArray(row.scoring_model) ? row.scoring_model[0] : row.scoring_model;
+  return model ?? DEFAULT_SCORING_MODEL;
+}
@@ -0,0 +1,144 @@
+import type { SessionPhase } from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+
+/** A phase as edited in the agenda, before it is saved */
+export type PhaseDraft = Pick<SessionPhase, "name" | "planned_minutes" | "tagging_enabled" | "lanes">;
+
+export interface LaneTaggingState {
+  allowed: boolean;
+  /** Why tagging is closed, for the toast shown to the participant */
+  reason?: string;
+}
+
+export interface PhaseTime {
+  phaseId: string;
+  name: string;
+  plannedMinutes: number;
+  /** Minutes actually spent; null when the phase never ran */
+  actualMinutes: number | null;
+  /** Actual minus planned; positive means the phase overran */
+  varianceMinutes: number | null;
+  isRunning: boolean;
+}
+
+export interface AgendaTimeSummary {
+  phases: PhaseTime[];
+  plannedMinutes: number;
+  actualMinutes: number;
+}
+
+type PhaseClock = Pick<SessionPhase, "started_at" | "ended_at" | "elapsed_seconds">;
+
+type TimedPhase = Pick<SessionPhase, "id" | "name" | "planned_minutes" | "position"> & PhaseClock;
+
+// ============================================
+// AGENDA
+// ============================================
+
+/** The classic walk script: briefing, one walk per lane, scoring, debrief */
+export function buildDefaultAgenda(lanes: string[]): PhaseDraft[] {
+  return [
+    { name: "Briefing", planned_minutes: 10, tagging_enabled: false, lanes: null },
+    ...lanes.map((lane) => ({
+      name: `Walk: ${lane}`,
+      planned_minutes: 15,
+      tagging_enabled: true,
+      lanes: [lane],
+    })),
+    { name: "Scoring", planned_minutes: 20, tagging_enabled: true, lanes: null },
+    { name: "Debrief", planned_minutes: 15, tagging_enabled: false, lanes: null },
+  ];
+}
+
+export function sortPhases<T extends Pick<SessionPhase, "position">>(phases: T[]): T[] {
+  return [...phases].sort((a, b) => a.position - b.position);
+}
+
+/** The phase that has started and not yet ended */
+export function getCurrentPhase<T extends Pick<SessionPhase, "started_at" | "ended_at">>(phases: T[]): T | null {
+  return phases.find((p) => p.started_at && !p.ended_at) ?? null;
+}
+
+/** The first phase after the current one that hasn't run yet */
+export function getNextPhase<T extends Pick<SessionPhase, "position" | "started_at">>(
+  phases: T[],
+  current: Pick<SessionPhase, "position"> | null
+): T | null {
+  return (
+    sortPhases(phases).find((p) => !p.started_at && (!current || p.position > current.position)) ?? null
+  );
+}
+
+/** Seconds spent in the phase over all its runs, the running one up to now */
+export function getPhaseElapsedSeconds(phase: PhaseClock, now: Date = new Date()): number {
+  const previous = phase.elapsed_seconds ?? 0;
+  if (!phase.started_at || phase.ended_at) return previous;
+  return previous + Math.max(0, Math.floor((now.getTime() - new Date(phase.started_at).getTime()) / 1000));
+}
+
+/** Seconds left on the phase's clock; negative once it overruns */
+export function getPhaseRemainingSeconds(
+  phase: Pick<SessionPhase, "planned_minutes"> & PhaseClock,
+  now: Date = new Date()
+): number {
+  return phase.planned_minutes * 60 - getPhaseElapsedSeconds(phase, now);
+}
+
+/** mm:ss, with a leading minus once the phase overruns */
+export function formatCountdown(seconds: number): string {
+  const abs = Math.abs(seconds);
+  const minutes = Math.floor(abs / 60);
+  const rest = String(abs % 60).padStart(2, "0");
+  return `${seconds < 0 ? "-" : ""}${minutes}:${rest}`;
+}
+
+/**
+ * Whether observations can be tagged in a lane right now. Sessions without an
+ * agenda, or between phases, stay open so the agenda never blocks a walk that
+ * isn't following it.
+ */
+export function getLaneTaggingState(
+  phases: Pick<SessionPhase, "name" | "tagging_enabled" | "lanes" | "started_at" | "ended_at">[],
+  lane: string | null
+): LaneTaggingState {
+  const current = getCurrentPhase(phases);
+  if (!current) return { allowed: true };
+  if (!current.tagging_enabled) {
+    return { allowed: false, reason: `Tagging is paused during ${current.name}.` };
+  }
+  if (lane && current.lanes && current.lanes.length > 0 && !current.lanes.includes(lane)) {
+    return {
+      allowed: false,
+      reason: `${current.name} is open for ${current.lanes.join(", ")} only.`,
+    };
+  }
+  return { allowed: true };
+}
+
+// ============================================
+// TIME SPENT
+// ============================================
+
+/** Planned against actual minutes per phase; a running phase counts up to now */
+export function summarizePhaseTimes(phases: TimedPhase[], now: Date = new Date()): AgendaTimeSummary {
+  const rows = sortPhases(phases).map((phase) => {
+    const actualMinutes = phase.started_at ? Math.round(getPhaseElapsedSeconds(phase, now) / 60) : null;
+    return {
+      phaseId: phase.id,
+      name: phase.name,
+      plannedMinutes: phase.planned_minutes,
+      actualMinutes,
+      varianceMinutes: actualMinutes === null ? null : actualMinutes - phase.planned_minutes,
+      isRunning: !!phase.started_at && !phase.ended_at,
+    };
+  });
+
+  return {
+    phases: rows,
+    plannedMinutes: rows.reduce((sum, p) => sum + p.plannedMinutes, 0),
+    actualMinutes: rows.reduce((sum, p) => sum + (p.actualMinutes ?? 0), 0),
+  };
+}
@@ -0,0 +1,160 @@
+import type { Observation, ProcessStep } from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+
+/** Steps with fewer observations than this count as thinly covered */
+export const SPARSE_STEP_THRESHOLD = 2;
+
+export interface StepCoverage {
+  stepId: string;
+  stepName: string;
+  lane: string;
+  observationCount: number;
+}
+
+export interface LaneCoverage {
+  lane: string;
+  stepCount: number;
+  coveredStepCount: number;
+  observationCount: number;
+  lastObservationAt: string | null;
+  /** Minutes since the lane's latest observation; null when it has none */
+  minutesSinceLast: number | null;
+}
+
+export interface ParticipantCoverage {
+  userId: string;
+  name: string;
+  observationCount: number;
+  lastObservationAt: string | null;
+}
+
+export interface SessionCoverage {
+  /** Steps with no observations, in workflow order */
+  uncoveredSteps: StepCoverage[];
+  /** Steps with at least one but fewer than the threshold */
+  sparseSteps: StepCoverage[];
+  /** Least covered lanes first */
+  lanes: LaneCoverage[];
+  participants: ParticipantCoverage[];
+  /** Participants who have not recorded an observation yet */
+  silentParticipants: ParticipantCoverage[];
+  /** Share of observable steps with at least one observation, 0-100 */
+  coveragePercent: number;
+}
+
+type CoverageStep = Pick<ProcessStep, "id" | "step_name" | "lane" | "step_type" | "order_index">;
+type CoverageObservation = Pick<Observation, "step_id" | "user_id" | "created_at">;
+
+// ============================================
+// COVERAGE
+// ============================================
+
+/**
+ * Where the walk has and hasn't looked: steps and lanes by observation count,
+ * time since each lane's latest observation, and who hasn't contributed.
+ * Start and end steps are left out, and so are handoff observations, which
+ * belong to no single lane.
+ */
+export function summarizeCoverage(
+  input: {
+    steps: CoverageStep[];
+    observations: CoverageObservation[];
+    participants: { user_id: string; name?: string }[];
+    /** Left out of the participant figures, e.g. the facilitator */
+    excludeUserIds?: string[];
+    now?: Date;
+  },
+  sparseThreshold = SPARSE_STEP_THRESHOLD
+): SessionCoverage {
+  const now = input.now ?? new Date();
+  const steps = input.steps
+    .filter((s) => s.step_type !== "start" && s.step_type !== "end")
+    .sort((a, b) => a.order_index - b.order_index);
+
+  const countByStep: Record<string, number> = {};
+  const lastByStep: Record<string, string> = {};
+  for (const obs of input.observations) {
+    if (!obs.step_id) continue;
+    countByStep[obs.step_id] = (countByStep[obs.step_id] || 0) + 1;
+    if (!lastByStep[obs.step_id] || obs.created_at > lastByStep[obs.step_id]) {
+      lastByStep[obs.step_id] = obs.created_at;
+    }
+  }
+
+  const stepCoverage: StepCoverage[] = steps.map((s) => ({
+    stepId: s.id,
+    stepName: s.step_name,
+    lane: s.lane,
+    observationCount: countByStep[s.id] || 0,
+  }));
+
+  const lanes = new Map<string, LaneCoverage>();
+  for (const step of stepCoverage) {
+    let lane = lanes.get(step.lane);
+    if (!lane) {
+      lane = {
+        lane: step.lane,
+        stepCount: 0,
+        coveredStepCount: 0,
+        observationCount: 0,
+        lastObservationAt: null,
+        minutesSinceLast: null,
+      };
+      lanes.set(step.lane, lane);
+    }
+    lane.stepCount += 1;
+    lane.observationCount += step.observationCount;
+    if (step.observationCount > 0) lane.coveredStepCount += 1;
+    const last = lastByStep[step.stepId];
+    if (last && (!lane.lastObservationAt || last > lane.lastObservationAt)) {
+      lane.lastObservationAt = last;
+    }
+  }
+  lanes.forEach((lane) => {
+    if (lane.lastObservationAt) {
+      lane.minutesSinceLast = Math.max(
+        0,
+        Math.floor((now.getTime() - new Date(lane.lastObservationAt).getTime()) / 60000)
+      );
+    }
+  });
+
+  const excluded = new Set(input.excludeUserIds || []);
+  const participants: ParticipantCoverage[] = input.participants
+    .filter((p) => !excluded.has(p.user_id))
+    .map((p) => {
+      const own = input.observations.filter((o) => o.user_id === p.user_id);
+      return {
+        userId: p.user_id,
+        name: p.name || "Unknown",
+        observationCount: own.length,
+        lastObservationAt: own.reduce<string | null>(
+          (latest, o) => (!latest || o.created_at > latest ? o.created_at : latest),
+          null
+        ),
+      };
+    });
+
+  const covered = stepCoverage.filter((s) => s.observationCount > 0).length;
+
+  return {
+    uncoveredSteps: stepCoverage.filter((s) => s.observationCount === 0),
+    sparseSteps: stepCoverage.filter((s) => s.observationCount > 0 && s.observationCount < sparseThreshold),
+    lanes: Array.from(lanes.values()).sort(
+      (a, b) =>
+        a.coveredStepCount / a.stepCount - b.coveredStepCount / b.stepCount ||
+        a.observationCount - b.observationCount
+    ),
+    participants,
+    silentParticipants: participants.filter((p) => p.observationCount === 0),
+    coveragePercent: stepCoverage.length > 0 ? Math.round((covered / stepCoverage.length) * 100) : 0,
+  };
+}
+
+/** Default nudge text for a lane */
+export function getLaneNudgeMessage(lane: string): string {
+  return `Please take a look at the ${lane} lane. It has few observations so far.`;
+}
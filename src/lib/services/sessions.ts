@@ -93,10 +93,23 @@ export async function getSessionById(id: string) {
   return data as SessionWithDetails;
 }
 
+export async function getSessionsByProcess(processId: string) {
+  const { data, error } = await supabase
+    .from("sessions")
+    .select("*")
+    .eq("process_id", processId)
+    .neq("status", "archived")
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return data as Session[];
+}
+
 export async function createSession(session: {
   name: string;
   process_id: string;
   status?: SessionStatus;
+  include_subprocesses?: boolean;
 }) {
   const { data: { user } } = await supabase.auth.getUser();
   
@@ -0,0 +1,608 @@
+import { getSupabaseClient } from "@/lib/supabase/client";
+import {
+  analyzeProcessTiming,
+  getStartStepIds,
+  resolveBranchProbabilities,
+  type TimingModel,
+} from "./processTiming";
+import type {
+  FutureStateEdge,
+  FutureStateNode,
+  ProcessLane,
+  ProcessStep,
+} from "@/types";
+import type { StepConnection } from "./workflows";
+
+const supabase = getSupabaseClient();
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SimulationStep {
+  id: string;
+  name: string;
+  step_type: ProcessStep["step_type"];
+  lane: string;
+  lead_time_minutes?: number;
+  cycle_time_minutes?: number;
+}
+
+export interface SimulationModel {
+  steps: SimulationStep[];
+  connections: TimingModel["connections"];
+  /** People per lane; lanes that are not listed have one person */
+  laneCapacity: Record<string, number>;
+}
+
+export interface SimulationOptions {
+  /** Cases simulated per replication */
+  caseCount?: number;
+  /** Average new cases per 8-hour working day */
+  casesPerDay?: number;
+  /**
+   * Spread of the triangular step time distributions. Each time t is drawn from
+   * min = t × (1 − variability), likely = t, max = t × (1 + 2 × variability).
+   */
+  variability?: number;
+  replications?: number;
+  seed?: number;
+}
+
+export interface LeadTimeDistribution {
+  mean: number;
+  p50: number;
+  p80: number;
+  p95: number;
+  min: number;
+  max: number;
+}
+
+export interface StepQueueStats {
+  stepId: string;
+  stepName: string;
+  lane: string;
+  /** Average visits per case, above 1 for rework */
+  visitsPerCase: number;
+  /** Time-weighted average number of cases waiting for the lane */
+  avgQueueLength: number;
+  maxQueueLength: number;
+  avgQueueWaitMinutes: number;
+}
+
+export interface LaneUtilization {
+  lane: string;
+  capacity: number;
+  /** Share of available lane time spent working (0-1) */
+  utilization: number;
+}
+
+export interface SimulationResult {
+  options: Required<SimulationOptions>;
+  completedCases: number;
+  /** Cases stopped after too many steps, e.g. caught in a loop with no way out */
+  abandonedCases: number;
+  leadTime: LeadTimeDistribution;
+  steps: StepQueueStats[];
+  lanes: LaneUtilization[];
+}
+
+export interface SessionSimulationModels {
+  current: SimulationModel;
+  future: SimulationModel | null;
+  futureStateId: string | null;
+  futureStateName: string | null;
+}
+
+export const WORKDAY_MINUTES = 480;
+
+const DEFAULT_OPTIONS: Required<SimulationOptions> = {
+  caseCount: 200,
+  casesPerDay: 10,
+  variability: 0.3,
+  replications: 10,
+  seed: 1,
+};
+
+// Stop a case after this many steps so a closed loop cannot run forever
+const MAX_STEPS_PER_CASE = 500;
+
+// Suggested arrivals keep the busiest lane at about this utilization
+const TARGET_UTILIZATION = 0.7;
+
+// ============================================
+// RANDOM NUMBERS
+// ============================================
+
+/** Small seeded generator (mulberry32) so runs are repeatable */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function sampleTriangular(random: () => number, likely: number, variability: number): number {
+  if (likely <= 0) return 0;
+  const min = likely * (1 - variability);
+  const max = likely * (1 + 2 * variability);
+  if (max === min) return likely;
+
+  const u = random();
+  const split = (likely - min) / (max - min);
+  return u < split
+    ? min + Math.sqrt(u * (max - min) * (likely - min))
+    : max - Math.sqrt((1 - u) * (max - min) * (max - likely));
+}
+
+function sampleExponential(random: () => number, mean: number): number {
+  return -Math.log(1 - random()) * mean;
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const idx = Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1));
+  return sorted[idx];
+}
+
+// ============================================
+// EVENT QUEUE
+// ============================================
+
+interface SimEvent {
+  time: number;
+  seq: number;
+  kind: "arrive" | "ready" | "finish";
+  caseId: number;
+  stepId: string;
+  touch: number;
+}
+
+/** Binary min-heap ordered by time, then by insertion order */
+class EventQueue {
+  private heap: SimEvent[] = [];
+  private seq = 0;
+
+  get size() {
+    return this.heap.length;
+  }
+
+  push(event: Omit<SimEvent, "seq">) {
+    this.heap.push({ ...event, seq: this.seq++ });
+    let i = this.heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(this.heap[i], this.heap[parent])) break;
+      [this.heap[i], this.heap[parent]] = [this.heap[parent], this.heap[i]];
+      i = parent;
+    }
+  }
+
+  pop(): SimEvent | undefined {
+    const top = this.heap[0];
+    const last = this.heap.pop();
+    if (this.heap.length > 0 && last) {
+      this.heap[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.heap.length && this.before(this.heap[left], this.heap[smallest])) smallest = left;
+        if (right < this.heap.length && this.before(this.heap[right], this.heap[smallest])) smallest = right;
+        if (smallest === i) break;
+        [this.heap[i], this.heap[smallest]] = [this.heap[smallest], this.heap[i]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+
+  private before(a: SimEvent, b: SimEvent) {
+    return a.time < b.time || (a.time === b.time && a.seq < b.seq);
+  }
+}
+
+// ============================================
+// SIMULATION
+// ============================================
+
+interface ReplicationResult {
+  leadTimes: number[];
+  abandoned: number;
+  horizon: number;
+  stepVisits: Record<string, number>;
+  queueArea: Record<string, number>;
+  maxQueue: Record<string, number>;
+  queueWait: Record<string, number>;
+  laneBusy: Record<string, number>;
+}
+
+function runReplication(
+  model: SimulationModel,
+  options: Required<SimulationOptions>,
+  random: () => number
+): ReplicationResult {
+  const stepsById = new Map(model.steps.map((s) => [s.id, s]));
+  const probabilities = resolveBranchProbabilities(model.connections);
+  const outgoing = new Map<string, { target: string; probability: number }[]>();
+  for (const c of model.connections) {
+    if (!stepsById.has(c.source_step_id) || !stepsById.has(c.target_step_id)) continue;
+    const list = outgoing.get(c.source_step_id) || [];
+    list.push({
+      target: c.target_step_id,
+      probability: probabilities[`${c.source_step_id}-${c.target_step_id}`],
+    });
+    outgoing.set(c.source_step_id, list);
+  }
+  const entries = getStartStepIds(model);
+
+  const result: ReplicationResult = {
+    leadTimes: [],
+    abandoned: 0,
+    horizon: 0,
+    stepVisits: {},
+    queueArea: {},
+    maxQueue: {},
+    queueWait: {},
+    laneBusy: {},
+  };
+  for (const step of model.steps) {
+    result.stepVisits[step.id] = 0;
+    result.queueArea[step.id] = 0;
+    result.maxQueue[step.id] = 0;
+    result.queueWait[step.id] = 0;
+  }
+
+  const arrivals: number[] = [];
+  const stepCounts: number[] = [];
+  const queueLength: Record<string, number> = {};
+  const queueChangedAt: Record<string, number> = {};
+  const laneBusyCount: Record<string, number> = {};
+  const laneQueues: Record<string, { caseId: number; stepId: string; touch: number; since: number }[]> = {};
+  const events = new EventQueue();
+
+  const capacityOf = (lane: string) => Math.max(1, model.laneCapacity[lane] ?? 1);
+
+  const changeQueue = (stepId: string, time: number, delta: number) => {
+    result.queueArea[stepId] += (queueLength[stepId] || 0) * (time - (queueChangedAt[stepId] ?? 0));
+    queueLength[stepId] = (queueLength[stepId] || 0) + delta;
+    queueChangedAt[stepId] = time;
+    result.maxQueue[stepId] = Math.max(result.maxQueue[stepId], queueLength[stepId]);
+  };
+
+  const startWork = (caseId: number, stepId: string, touch: number, time: number) => {
+    const lane = stepsById.get(stepId)!.lane;
+    laneBusyCount[lane] = (laneBusyCount[lane] || 0) + 1;
+    result.laneBusy[lane] = (result.laneBusy[lane] || 0) + touch;
+    events.push({ time: time + touch, kind: "finish", caseId, stepId, touch });
+  };
+
+  const enterStep = (caseId: number, stepId: string, time: number) => {
+    stepCounts[caseId]++;
+    if (stepCounts[caseId] > MAX_STEPS_PER_CASE) {
+      result.abandoned++;
+      return;
+    }
+
+    const step = stepsById.get(stepId)!;
+    result.stepVisits[stepId]++;
+    const cycle = step.cycle_time_minutes ?? 0;
+    const lead = Math.max(step.lead_time_minutes ?? cycle, cycle);
+    const touch = sampleTriangular(random, cycle, options.variability);
+    const wait = sampleTriangular(random, lead - cycle, options.variability);
+    events.push({ time: time + wait, kind: "ready", caseId, stepId, touch });
+  };
+
+  const leaveStep = (caseId: number, stepId: string, time: number) => {
+    const step = stepsById.get(stepId)!;
+    const next = step.step_type === "end" ? [] : outgoing.get(stepId) || [];
+    if (next.length === 0) {
+      result.leadTimes.push(time - arrivals[caseId]);
+      result.horizon = Math.max(result.horizon, time);
+      return;
+    }
+
+    let roll = random();
+    let chosen = next[next.length - 1].target;
+    for (const option of next) {
+      roll -= option.probability;
+      if (roll < 0) {
+        chosen = option.target;
+        break;
+      }
+    }
+    enterStep(caseId, chosen, time);
+  };
+
+  // Arrivals follow a Poisson process at the requested daily rate
+  const meanGap = WORKDAY_MINUTES / options.casesPerDay;
+  let arrivalTime = 0;
+  for (let caseId = 0; caseId < options.caseCount; caseId++) {
+    arrivals.push(arrivalTime);
+    stepCounts.push(0);
+    events.push({
+      time: arrivalTime,
+      kind: "arrive",
+      caseId,
+      stepId: entries[caseId % entries.length],
+      touch: 0,
+    });
+    arrivalTime += sampleExponential(random, meanGap);
+  }
+
+  while (events.size > 0) {
+    const event = events.pop()!;
+    const { time, caseId, stepId, touch } = event;
+
+    if (event.kind === "arrive") {
+      enterStep(caseId, stepId, time);
+    } else if (event.kind === "ready") {
+      if (touch <= 0) {
+        leaveStep(caseId, stepId, time);
+        continue;
+      }
+      const lane = stepsById.get(stepId)!.lane;
+      if ((laneBusyCount[lane] || 0) < capacityOf(lane)) {
+        startWork(caseId, stepId, touch, time);
+      } else {
+        (laneQueues[lane] ||= []).push({ caseId, stepId, touch, since: time });
+        changeQueue(stepId, time, 1);
+      }
+    } else {
+      const lane = stepsById.get(stepId)!.lane;
+      laneBusyCount[lane]--;
+      const waiting = laneQueues[lane]?.shift();
+      if (waiting) {
+        changeQueue(waiting.stepId, time, -1);
+        result.queueWait[waiting.stepId] += time - waiting.since;
+        startWork(waiting.caseId, waiting.stepId, waiting.touch, time);
+      }
+      leaveStep(caseId, stepId, time);
+    }
+  }
+
+  // Close the time-weighted queue areas at the end of the run
+  for (const step of model.steps) {
+    changeQueue(step.id, Math.max(result.horizon, queueChangedAt[step.id] ?? 0), 0);
+  }
+
+  return result;
+}
+
+/**
+ * Monte Carlo discrete-event simulation of cases flowing through a process.
+ * Each step holds a person from its lane for a sampled cycle time; the rest of
+ * the step's lead time is waiting that needs nobody. Cases queue when every
+ * person in a lane is busy, and decisions follow branch probabilities.
+ */
+export function simulateProcess(
+  model: SimulationModel,
+  options: SimulationOptions = {}
+): SimulationResult {
+  const resolved: Required<SimulationOptions> = { ...DEFAULT_OPTIONS, ...options };
+  const random = createRandom(resolved.seed);
+  const runs = Array.from({ length: Math.max(1, resolved.replications) }, () =>
+    runReplication(model, resolved, random)
+  );
+
+  const leadTimes = runs.flatMap((r) => r.leadTimes).sort((a, b) => a - b);
+  const totalCases = runs.length * resolved.caseCount;
+  const average = (values: number[]) =>
+    values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+  const steps: StepQueueStats[] = model.steps.map((step) => {
+    const visits = runs.reduce((sum, r) => sum + r.stepVisits[step.id], 0);
+    return {
+      stepId: step.id,
+      stepName: step.name,
+      lane: step.lane,
+      visitsPerCase: visits / totalCases,
+      avgQueueLength: average(runs.map((r) => (r.horizon > 0 ? r.queueArea[step.id] / r.horizon : 0))),
+      maxQueueLength: Math.max(...runs.map((r) => r.maxQueue[step.id])),
+      avgQueueWaitMinutes:
+        visits > 0 ? runs.reduce((sum, r) => sum + r.queueWait[step.id], 0) / visits : 0,
+    };
+  });
+
+  const laneNames = Array.from(new Set(model.steps.map((s) => s.lane)));
+  const lanes: LaneUtilization[] = laneNames.map((lane) => {
+    const capacity = Math.max(1, model.laneCapacity[lane] ?? 1);
+    return {
+      lane,
+      capacity,
+      utilization: average(
+        runs.map((r) => (r.horizon > 0 ? (r.laneBusy[lane] || 0) / (capacity * r.horizon) : 0))
+      ),
+    };
+  });
+
+  return {
+    options: resolved,
+    completedCases: leadTimes.length,
+    abandonedCases: runs.reduce((sum, r) => sum + r.abandoned, 0),
+    leadTime: {
+      mean: average(leadTimes),
+      p50: percentile(leadTimes, 0.5),
+      p80: percentile(leadTimes, 0.8),
+      p95: percentile(leadTimes, 0.95),
+      min: leadTimes[0] ?? 0,
+      max: leadTimes[leadTimes.length - 1] ?? 0,
+    },
+    steps,
+    lanes,
+  };
+}
+
+/**
+ * Arrival rate (cases per day) that keeps the busiest lane of the model at
+ * about 70% utilization, a sensible default for comparing designs.
+ */
+export function getSuggestedCasesPerDay(model: SimulationModel): number {
+  const { expectedVisits } = analyzeProcessTiming(model);
+
+  const laneWork: Record<string, number> = {};
+  for (const step of model.steps) {
+    laneWork[step.lane] =
+      (laneWork[step.lane] || 0) + expectedVisits[step.id] * (step.cycle_time_minutes ?? 0);
+  }
+
+  let casesPerDay = Infinity;
+  for (const [lane, work] of Object.entries(laneWork)) {
+    if (work <= 0) continue;
+    const capacity = Math.max(1, model.laneCapacity[lane] ?? 1);
+    casesPerDay = Math.min(casesPerDay, (TARGET_UTILIZATION * capacity * WORKDAY_MINUTES) / work);
+  }
+
+  if (!Number.isFinite(casesPerDay)) return DEFAULT_OPTIONS.casesPerDay;
+  return Math.max(0.1, Math.round(casesPerDay * 10) / 10);
+}
+
+// ============================================
+// MODEL BUILDERS
+// ============================================
+
+export function getProcessSimulationModel(
+  steps: ProcessStep[],
+  connections: StepConnection[],
+  lanes: Pick<ProcessLane, "name" | "capacity">[]
+): SimulationModel {
+  return {
+    steps: steps.map((s) => ({
+      id: s.id,
+      name: s.step_name,
+      step_type: s.step_type,
+      lane: s.lane,
+      lead_time_minutes: s.lead_time_minutes,
+      cycle_time_minutes: s.cycle_time_minutes,
+    })),
+    connections: connections.map((c) => ({
+      source_step_id: c.source_step_id,
+      target_step_id: c.target_step_id,
+      branch_probability: c.branch_probability,
+    })),
+    laneCapacity: Object.fromEntries(lanes.map((l) => [l.name, l.capacity ?? 1])),
+  };
+}
+
+/**
+ * Simulation model for a future state. Removed nodes are left out and lanes
+ * keep the capacity of the current-state lane with the same name.
+ */
+export function getFutureStateSimulationModel(
+  nodes: FutureStateNode[],
+  edges: FutureStateEdge[],
+  lanes: Pick<ProcessLane, "name" | "capacity">[]
+): SimulationModel {
+  const kept = nodes.filter((n) => n.action !== "remove");
+  const keptIds = new Set(kept.map((n) => n.id));
+
+  return {
+    steps: kept.map((n) => ({
+      id: n.id,
+      name: n.name,
+      step_type: n.step_type,
+      lane: n.lane,
+      lead_time_minutes: n.lead_time_minutes,
+      cycle_time_minutes: n.cycle_time_minutes,
+    })),
+    connections: edges
+      .filter((e) => keptIds.has(e.source_node_id) && keptIds.has(e.target_node_id))
+      .map((e) => ({
+        source_step_id: e.source_node_id,
+        target_step_id: e.target_node_id,
+        branch_probability: e.branch_probability,
+      })),
+    laneCapacity: Object.fromEntries(lanes.map((l) => [l.name, l.capacity ?? 1])),
+  };
+}
+
+/**
+ * Load the current-state process and a future state (the latest version unless
+ * one is given) of a session as simulation models.
+ */
+export async function getSessionSimulationModels(
+  sessionId: string,
+  futureStateId?: string
+): Promise<SessionSimulationModels> {
+  const { data: session, error: sessionError } = await supabase
+    .from("sessions")
+    .select("process_id")
+    .eq("id", sessionId)
+    .single();
+
+  if (sessionError) throw sessionError;
+
+  let futureStateQuery = supabase
+    .from("future_states")
+    .select(`
+      id,
+      name,
+      nodes:future_state_nodes(*),
+      edges:future_state_edges(*)
+    `)
+    .eq("session_id", sessionId);
+  futureStateQuery = futureStateId
+    ? futureStateQuery.eq("id", futureStateId)
+    : futureStateQuery.order("version", { ascending: false });
+
+  const [stepsRes, connectionsRes, lanesRes, futureStatesRes] = await Promise.all([
+    supabase.from("process_steps").select("*").eq("process_id", session.process_id),
+    supabase.from("step_connections").select("*").eq("process_id", session.process_id),
+    supabase.from("process_lanes").select("name, capacity").eq("process_id", session.process_id),
+    futureStateQuery.limit(1),
+  ]);
+
+  if (stepsRes.error) throw stepsRes.error;
+  if (connectionsRes.error) throw connectionsRes.error;
+  if (lanesRes.error) throw lanesRes.error;
+  if (futureStatesRes.error) throw futureStatesRes.error;
+
+  const lanes = (lanesRes.data || []) as Pick<ProcessLane, "name" | "capacity">[];
+  const futureState = futureStatesRes.data?.[0] as
+    | { id: string; name: string; nodes: FutureStateNode[]; edges: FutureStateEdge[] }
+    | undefined;
+
+  return {
+    current: getProcessSimulationModel(stepsRes.data || [], connectionsRes.data || [], lanes),
+    future: futureState
+      ? getFutureStateSimulationModel(futureState.nodes || [], futureState.edges || [], lanes)
+      : null,
+    futureStateId: futureState?.id ?? null,
+    futureStateName: futureState?.name ?? null,
+  };
+}
+
+export interface SessionSimulation {
+  futureStateId: string | null;
+  futureStateName: string | null;
+  current: SimulationResult;
+  future: SimulationResult | null;
+}
+
+/**
+ * Simulate a session's current state and future state under the same arrivals.
+ * Unless given, the arrival rate is the one suggested for the current state.
+ */
+export async function runSessionSimulation(
+  sessionId: string,
+  options: SimulationOptions = {},
+  futureStateId?: string
+): Promise<SessionSimulation> {
+  const models = await getSessionSimulationModels(sessionId, futureStateId);
+  const resolved: SimulationOptions = {
+    ...options,
+    casesPerDay: options.casesPerDay ?? getSuggestedCasesPerDay(models.current),
+  };
+
+  return {
+    futureStateId: models.futureStateId,
+    futureStateName: models.futureStateName,
+    current: simulateProcess(models.current, resolved),
+    future: models.future ? simulateProcess(models.future, resolved) : null,
+  };
+}
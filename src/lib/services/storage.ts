@@ -75,6 +75,13 @@ export async function deleteFile(bucket: StorageBucket, path: string) {
   if (error) throw error;
 }
 
+/** Copy a stored file to a new path in the same bucket */
+export async function copyFile(bucket: StorageBucket, fromPath: string, toPath: string) {
+  const { error } = await supabase.storage.from(bucket).copy(fromPath, toPath);
+  if (error) throw error;
+  return toPath;
+}
+
 export async function listFiles(bucket: StorageBucket, folder: string) {
   const { data, error } = await supabase.storage.from(bucket).list(folder);
   if (error) throw error;
@@ -103,6 +110,27 @@ export async function getSignedUrl(
   return data.signedUrl;
 }
 
+/** Signed URLs keyed by path; paths that can't be signed are left out */
+export async function getSignedUrls(
+  bucket: StorageBucket,
+  paths: string[],
+  expiresInSeconds = 3600
+): Promise<Record<string, string>> {
+  if (paths.length === 0) return {};
+
+  const { data, error } = await supabase.storage
+    .from(bucket)
+    .createSignedUrls(paths, expiresInSeconds);
+
+  if (error) throw error;
+
+  const urls: Record<string, string> = {};
+  for (const { path, signedUrl, error: signError } of data ?? []) {
+    if (path && !signError) urls[path] = signedUrl;
+  }
+  return urls;
+}
+
 // ============================================
 // HELPER FUNCTIONS
 // ============================================
@@ -0,0 +1,351 @@
+import { getSupabaseClient } from "@/lib/supabase/client";
+import { analyzeProcessTiming, getStartStepIds } from "./processTiming";
+import type { StepConnection } from "./workflows";
+import type { Process, ProcessStep } from "@/types";
+
+const supabase = getSupabaseClient();
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SubprocessGraph {
+  id: string;
+  name: string;
+  steps: ProcessStep[];
+  connections: (Pick<StepConnection, "source_step_id" | "target_step_id" | "branch_probability"> & {
+    id?: string;
+  })[];
+}
+
+/** What a linked subprocess step stands for, including any nested subprocesses */
+export interface SubprocessRollup {
+  processId: string;
+  processName: string;
+  stepCount: number;
+  leadTimeMinutes: number;
+  touchTimeMinutes: number;
+  observationCount: number;
+}
+
+export interface SubprocessReference {
+  stepId: string;
+  stepName: string;
+  processId: string;
+  processName: string;
+}
+
+export interface ExpandedWorkflow {
+  steps: ProcessStep[];
+  /** id is set on modeled connections; edges added by inlining a subprocess have none */
+  connections: { id?: string; source_step_id: string; target_step_id: string }[];
+}
+
+// ============================================
+// ROLL-UP
+// ============================================
+
+/**
+ * Roll up each linked subprocess step: the child workflow's expected lead and
+ * touch time, its step count and observation count, nested children included.
+ * Keyed by the parent step id.
+ */
+export function getSubprocessRollups(
+  steps: Pick<ProcessStep, "id" | "subprocess_process_id">[],
+  graphs: Record<string, SubprocessGraph>,
+  observationCounts: Record<string, number> = {}
+): Record<string, SubprocessRollup> {
+  const byProcess = new Map<string, SubprocessRollup | null>();
+
+  const rollUpProcess = (processId: string): SubprocessRollup | null => {
+    if (byProcess.has(processId)) return byProcess.get(processId) ?? null;
+    const graph = graphs[processId];
+    if (!graph) return null;
+
+    // Mark as in progress so a cycle resolves to "no roll-up" instead of recursing forever
+    byProcess.set(processId, null);
+
+    const nested = rollUpSteps(graph.steps);
+    const timing = analyzeProcessTiming({
+      steps: rollUpSubprocessTiming(graph.steps, nested),
+      connections: graph.connections,
+    });
+    const nestedRollups = Object.values(nested);
+
+    const rollup: SubprocessRollup = {
+      processId,
+      processName: graph.name,
+      stepCount: graph.steps.length + nestedRollups.reduce((sum, r) => sum + r.stepCount, 0),
+      leadTimeMinutes: timing.leadTimeMinutes,
+      touchTimeMinutes: timing.touchTimeMinutes,
+      observationCount:
+        graph.steps.reduce((sum, s) => sum + (observationCounts[s.id] || 0), 0) +
+        nestedRollups.reduce((sum, r) => sum + r.observationCount, 0),
+    };
+    byProcess.set(processId, rollup);
+    return rollup;
+  };
+
+  const rollUpSteps = (list: Pick<ProcessStep, "id" | "subprocess_process_id">[]) => {
+    const result: Record<string, SubprocessRollup> = {};
+    for (const step of list) {
+      if (!step.subprocess_process_id) continue;
+      const rollup = rollUpProcess(step.subprocess_process_id);
+      if (rollup) result[step.id] = rollup;
+    }
+    return result;
+  };
+
+  return rollUpSteps(steps);
+}
+
+/**
+ * Timing steps where each linked subprocess step carries its child's expected
+ * lead and touch time on top of its own.
+ */
+export function rollUpSubprocessTiming<
+  T extends Pick<ProcessStep, "id" | "lead_time_minutes" | "cycle_time_minutes">
+>(steps: T[], rollups: Record<string, SubprocessRollup>): T[] {
+  return steps.map((step) => {
+    const rollup = rollups[step.id];
+    if (!rollup) return step;
+
+    const ownCycle = step.cycle_time_minutes ?? 0;
+    const ownLead = Math.max(step.lead_time_minutes ?? ownCycle, ownCycle);
+    return {
+      ...step,
+      lead_time_minutes: ownLead + rollup.leadTimeMinutes,
+      cycle_time_minutes: ownCycle + rollup.touchTimeMinutes,
+    };
+  });
+}
+
+// ============================================
+// EXPANSION
+// ============================================
+
+/**
+ * Flatten a workflow with its linked subprocesses into one map. Each subprocess
+ * step flows into its child's start steps, and the child's final steps flow on
+ * to wherever the subprocess step led. Child steps sit in lanes prefixed with
+ * the child workflow's name. A child linked more than once is expanded once.
+ */
+export function expandSubprocesses(
+  root: Pick<SubprocessGraph, "id" | "steps" | "connections">,
+  graphs: Record<string, SubprocessGraph>
+): ExpandedWorkflow {
+  const expanded = new Set<string>([root.id]);
+
+  const flatten = (graph: Pick<SubprocessGraph, "steps" | "connections">, laneName?: string) => {
+    const steps: ProcessStep[] = graph.steps.map((step) =>
+      laneName
+        ? { ...step, lane: `${laneName} · ${step.lane}`, position_x: undefined, position_y: undefined }
+        : step
+    );
+    const connections: ExpandedWorkflow["connections"] = [];
+    // Where flow actually leaves each step once its subprocess is inlined
+    const exitsOf = new Map<string, string[]>();
+
+    for (const step of graph.steps) {
+      const childId = step.subprocess_process_id;
+      const child = childId ? graphs[childId] : undefined;
+      if (!childId || !child || expanded.has(childId)) {
+        exitsOf.set(step.id, [step.id]);
+        continue;
+      }
+
+      expanded.add(childId);
+      const inner = flatten(child, child.name);
+      steps.push(...inner.steps);
+      connections.push(...inner.connections);
+      for (const entry of inner.entries) {
+        connections.push({ source_step_id: step.id, target_step_id: entry });
+      }
+      exitsOf.set(step.id, inner.exits.length > 0 ? inner.exits : [step.id]);
+    }
+
+    for (const c of graph.connections) {
+      for (const exit of exitsOf.get(c.source_step_id) || [c.source_step_id]) {
+        connections.push({
+          id: exit === c.source_step_id ? c.id : undefined,
+          source_step_id: exit,
+          target_step_id: c.target_step_id,
+        });
+      }
+    }
+
+    const sources = new Set(graph.connections.map((c) => c.source_step_id));
+    return {
+      steps,
+      connections,
+      entries: getStartStepIds(graph),
+      exits: graph.steps.filter((s) => !sources.has(s.id)).flatMap((s) => exitsOf.get(s.id) || []),
+    };
+  };
+
+  const { steps, connections } = flatten(root);
+  return { steps, connections };
+}
+
+// ============================================
+// LOADING
+// ============================================
+
+/** Load every workflow reachable through subprocess links from the given steps */
+export async function loadSubprocessGraphs(
+  steps: Pick<ProcessStep, "subprocess_process_id">[]
+): Promise<Record<string, SubprocessGraph>> {
+  const graphs: Record<string, SubprocessGraph> = {};
+  let pending = Array.from(
+    new Set(steps.map((s) => s.subprocess_process_id).filter((id): id is string => !!id))
+  );
+
+  while (pending.length > 0) {
+    const [processesResult, stepsResult, connectionsResult] = await Promise.all([
+      supabase.from("processes").select("id, name").in("id", pending),
+      supabase.from("process_steps").select("*").in("process_id", pending).order("order_index"),
+      supabase
+        .from("step_connections")
+        .select("id, process_id, source_step_id, target_step_id, branch_probability")
+        .in("process_id", pending),
+    ]);
+    if (processesResult.error) throw processesResult.error;
+    if (stepsResult.error) throw stepsResult.error;
+    if (connectionsResult.error) throw connectionsResult.error;
+
+    const childSteps = (stepsResult.data || []) as ProcessStep[];
+    const childConnections = (connectionsResult.data || []) as (StepConnection & { process_id: string })[];
+
+    for (const process of (processesResult.data || []) as Pick<Process, "id" | "name">[]) {
+      graphs[process.id] = {
+        id: process.id,
+        name: process.name,
+        steps: childSteps.filter((s) => s.process_id === process.id),
+        connections: childConnections.filter((c) => c.process_id === process.id),
+      };
+    }
+
+    pending = Array.from(
+      new Set(
+        childSteps
+          .map((s) => s.subprocess_process_id)
+          .filter((id): id is string => !!id && !graphs[id])
+      )
+    );
+  }
+
+  return graphs;
+}
+
+/** Roll-ups for a workflow's subprocess steps, with observation counts across all sessions */
+export async function loadSubprocessRollups(
+  steps: Pick<ProcessStep, "id" | "subprocess_process_id">[]
+): Promise<Record<string, SubprocessRollup>> {
+  if (!steps.some((s) => s.subprocess_process_id)) return {};
+
+  const graphs = await loadSubprocessGraphs(steps);
+  const childStepIds = Object.values(graphs).flatMap((g) => g.steps.map((s) => s.id));
+
+  const observationCounts: Record<string, number> = {};
+  if (childStepIds.length > 0) {
+    const { data, error } = await supabase
+      .from("observations")
+      .select("step_id")
+      .in("step_id", childStepIds);
+    if (error) throw error;
+    for (const row of (data || []) as { step_id: string }[]) {
+      observationCounts[row.step_id] = (observationCounts[row.step_id] || 0) + 1;
+    }
+  }
+
+  return getSubprocessRollups(steps, graphs, observationCounts);
+}
+
+/** Steps and connections for a session's map, with linked subprocesses inlined when asked */
+export async function getSessionWorkflow(
+  processId: string,
+  includeSubprocesses: boolean
+): Promise<ExpandedWorkflow> {
+  const [stepsResult, connectionsResult] = await Promise.all([
+    supabase.from("process_steps").select("*").eq("process_id", processId).order("order_index"),
+    supabase
+      .from("step_connections")
+      .select("id, source_step_id, target_step_id, branch_probability")
+      .eq("process_id", processId),
+  ]);
+  if (stepsResult.error) throw stepsResult.error;
+  if (connectionsResult.error) throw connectionsResult.error;
+
+  const root = {
+    id: processId,
+    steps: (stepsResult.data || []) as ProcessStep[],
+    connections: (connectionsResult.data || []) as SubprocessGraph["connections"],
+  };
+  if (!includeSubprocesses) return root;
+
+  return expandSubprocesses(root, await loadSubprocessGraphs(root.steps));
+}
+
+// ============================================
+// REFERENCES
+// ============================================
+
+/** Subprocess steps in other workflows that link to this one */
+export async function getSubprocessReferences(processId: string): Promise<SubprocessReference[]> {
+  const { data, error } = await supabase
+    .from("process_steps")
+    .select("id, step_name, process_id")
+    .eq("subprocess_process_id", processId);
+  if (error) throw error;
+  const steps = (data || []) as Pick<ProcessStep, "id" | "step_name" | "process_id">[];
+  if (steps.length === 0) return [];
+
+  const { data: processes, error: processError } = await supabase
+    .from("processes")
+    .select("id, name")
+    .in("id", Array.from(new Set(steps.map((s) => s.process_id))));
+  if (processError) throw processError;
+
+  const names = new Map(((processes || []) as Pick<Process, "id" | "name">[]).map((p) => [p.id, p.name]));
+  return steps.map((s) => ({
+    stepId: s.id,
+    stepName: s.step_name,
+    processId: s.process_id,
+    processName: names.get(s.process_id) || "Unknown workflow",
+  }));
+}
+
+/**
+ * Workflows that contain this one as a subprocess, directly or further up.
+ * Linking to any of them would create a cycle.
+ */
+export async function getSubprocessAncestorIds(processId: string): Promise<string[]> {
+  const ancestors = new Set<string>();
+  let frontier = [processId];
+
+  while (frontier.length > 0) {
+    const { data, error } = await supabase
+      .from("process_steps")
+      .select("process_id")
+      .in("subprocess_process_id", frontier);
+    if (error) throw error;
+
+    frontier = Array.from(
+      new Set(((data || []) as Pick<ProcessStep, "process_id">[]).map((row) => row.process_id))
+    ).filter((id) => id !== processId && !ancestors.has(id));
+    frontier.forEach((id) => ancestors.add(id));
+  }
+
+  return Array.from(ancestors);
+}
+
+/** Names for a breadcrumb trail of workflow ids, in trail order */
+export async function getProcessTrail(processIds: string[]): Promise<Pick<Process, "id" | "name">[]> {
+  if (processIds.length === 0) return [];
+
+  const { data, error } = await supabase.from("processes").select("id, name").in("id", processIds);
+  if (error) throw error;
+
+  const byId = new Map(((data || []) as Pick<Process, "id" | "name">[]).map((p) => [p.id, p]));
+  return processIds.map((id) => byId.get(id)).filter((p): p is Pick<Process, "id" | "name"> => !!p);
+}
@@ -0,0 +1,109 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { SessionVote } from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type VoteTarget = { type: "observation"; id: string } | { type: "step"; id: string };
+
+export interface VoteTotals {
+  /** Votes cast on each observation */
+  observations: Record<string, number>;
+  /** Votes on each step, including votes on the step's observations */
+  steps: Record<string, number>;
+  total: number;
+}
+
+type TalliedVote = Pick<SessionVote, "observation_id" | "step_id">;
+
+export const EMPTY_VOTE_TOTALS: VoteTotals = { observations: {}, steps: {}, total: 0 };
+
+// ============================================
+// TALLIES
+// ============================================
+
+/**
+ * Count votes per observation and per step. A vote on an observation also
+ * counts toward its step, so step totals reflect all the attention it got.
+ */
+export function tallyVotes(
+  votes: TalliedVote[],
+  observationStepIds: Record<string, string | null>
+): VoteTotals {
+  const totals: VoteTotals = { observations: {}, steps: {}, total: 0 };
+
+  for (const vote of votes) {
+    const stepId = vote.step_id ?? (vote.observation_id ? observationStepIds[vote.observation_id] : undefined);
+    if (vote.observation_id) {
+      totals.observations[vote.observation_id] = (totals.observations[vote.observation_id] || 0) + 1;
+    }
+    if (stepId) {
+      totals.steps[stepId] = (totals.steps[stepId] || 0) + 1;
+    }
+    totals.total++;
+  }
+
+  return totals;
+}
+
+export function isVoteOn(vote: TalliedVote, target: VoteTarget): boolean {
+  return target.type === "observation" ? vote.observation_id === target.id : vote.step_id === target.id;
+}
+
+/** Votes a participant still has to spend in a round */
+export function getRemainingVotes(
+  votes: Pick<SessionVote, "user_id">[],
+  userId: string | undefined,
+  votesPerParticipant: number
+): number {
+  if (!userId) return 0;
+  const spent = votes.filter((v) => v.user_id === userId).length;
+  return Math.max(0, votesPerParticipant - spent);
+}
+
+// ============================================
+// LOADING
+// ============================================
+
+/**
+ * Vote totals from the latest round of each session (or of one session).
+ * Earlier rounds are superseded when the facilitator runs another.
+ */
+export async function loadVoteTotals(supabase: SupabaseClient, sessionId?: string): Promise<VoteTotals> {
+  let roundsQuery = supabase
+    .from("voting_rounds")
+    .select("id, session_id, opened_at")
+    .order("opened_at", { ascending: false });
+
+  if (sessionId) {
+    roundsQuery = roundsQuery.eq("session_id", sessionId);
+  }
+
+  const { data: rounds, error: roundsError } = await roundsQuery;
+  if (roundsError) throw roundsError;
+
+  const latestRoundIds = new Map<string, string>();
+  for (const round of (rounds || []) as { id: string; session_id: string }[]) {
+    if (!latestRoundIds.has(round.session_id)) latestRoundIds.set(round.session_id, round.id);
+  }
+  if (latestRoundIds.size === 0) return EMPTY_VOTE_TOTALS;
+
+  const { data: votes, error } = await supabase
+    .from("session_votes")
+    .select("observation_id, step_id, observation:observations(step_id)")
+    .in("round_id", Array.from(latestRoundIds.values()));
+  if (error) throw error;
+
+  const rows = (votes || []) as unknown as (TalliedVote & {
+    observation?: { step_id: string } | { step_id: string }[] | null;
+  })[];
+
+  const observationStepIds: Record<string, string> = {};
+  for (const row of rows) {
+    const observation = Array.isArray(row.observation) ? row.observation[0] : row.observation;
+    if (row.observation_id && observation) observationStepIds[row.observation_id] = observation.step_id;
+  }
+
+  return tallyVotes(rows, observationStepIds);
+}
@@ -0,0 +1,116 @@
+import { getSupabaseClient } from "@/lib/supabase/client";
+import type { SessionVote, VotingRound } from "@/types";
+import { loadVoteTotals, type VoteTarget, type VoteTotals } from "./voteTally";
+
+const supabase = getSupabaseClient();
+
+// ============================================
+// ROUNDS
+// ============================================
+
+/** The session's most recent round, open or closed */
+export async function getLatestVotingRound(sessionId: string) {
+  const { data, error } = await supabase
+    .from("voting_rounds")
+    .select("*")
+    .eq("session_id", sessionId)
+    .order("opened_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as VotingRound | null;
+}
+
+export async function openVotingRound(sessionId: string, votesPerParticipant: number) {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const { data, error } = await supabase
+    .from("voting_rounds")
+    .insert({
+      session_id: sessionId,
+      votes_per_participant: votesPerParticipant,
+      opened_by: user?.id ?? null,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as VotingRound;
+}
+
+export async function closeVotingRound(roundId: string) {
+  const { data, error } = await supabase
+    .from("voting_rounds")
+    .update({ status: "closed", closed_at: new Date().toISOString() })
+    .eq("id", roundId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as VotingRound;
+}
+
+// ============================================
+// VOTES
+// ============================================
+
+export async function getRoundVotes(roundId: string) {
+  const { data, error } = await supabase
+    .from("session_votes")
+    .select("*")
+    .eq("round_id", roundId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as SessionVote[];
+}
+
+/** Spend one of the current user's votes; the database enforces the budget */
+export async function castVote(round: VotingRound, target: VoteTarget) {
+  const { data, error } = await supabase
+    .from("session_votes")
+    .insert({
+      round_id: round.id,
+      session_id: round.session_id,
+      observation_id: target.type === "observation" ? target.id : null,
+      step_id: target.type === "step" ? target.id : null,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as SessionVote;
+}
+
+/** Take back one of the current user's votes on a target; returns the removed vote id */
+export async function retractVote(roundId: string, target: VoteTarget) {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not authenticated");
+
+  const { data: existing, error: findError } = await supabase
+    .from("session_votes")
+    .select("id")
+    .eq("round_id", roundId)
+    .eq("user_id", user.id)
+    .eq(target.type === "observation" ? "observation_id" : "step_id", target.id)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (findError) throw findError;
+  if (!existing) return null;
+
+  const { error } = await supabase.from("session_votes").delete().eq("id", existing.id);
+  if (error) throw error;
+  return existing.id as string;
+}
+
+/** Totals from the latest round of one session, or of every session */
+export async function getSessionVoteTotals(sessionId?: string): Promise<VoteTotals> {
+  return loadVoteTotals(supabase, sessionId);
+}
@@ -0,0 +1,445 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { LaborRate, ProcessStep, StepType, VolumePeriod } from "@/types";
+import { analyzeProcessTiming } from "./processTiming";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface CostRates {
+  currency: string;
+  defaultHourlyRate: number | null;
+  rates: Pick<LaborRate, "rate_type" | "name" | "hourly_rate">[];
+}
+
+export interface CostedStep {
+  id: string;
+  name: string;
+  lane: string;
+  processId: string;
+  /** Expected visits per transaction; steps on a rare branch see fewer */
+  visitsPerCase?: number;
+}
+
+export interface CostedObservation {
+  id: string;
+  step_id: string;
+  time_lost_minutes?: number | null;
+  waste_types: { id: string; name: string; code?: string; color?: string }[];
+}
+
+export interface CostedTheme {
+  id: string;
+  name: string;
+  observationIds: string[];
+}
+
+export interface WasteCostInput {
+  rates: CostRates;
+  /** Transactions per year, keyed by process id */
+  annualVolumes: Record<string, number | null>;
+  steps: CostedStep[];
+  observations: CostedObservation[];
+  themes?: CostedTheme[];
+}
+
+export interface StepWasteCost {
+  stepId: string;
+  stepName: string;
+  lane: string;
+  hourlyRate: number | null;
+  /** Minutes lost per transaction, summed across the step's observations */
+  timeLostMinutes: number;
+  annualHours: number;
+  annualCost: number;
+  observationCount: number;
+}
+
+export interface WasteTypeCost {
+  wasteTypeId: string;
+  name: string;
+  code?: string;
+  color?: string;
+  annualCost: number;
+  observationCount: number;
+}
+
+export interface ThemeWasteCost {
+  themeId: string;
+  name: string;
+  annualCost: number;
+  observationIds: string[];
+}
+
+export interface WasteCostBreakdown {
+  currency: string;
+  totalAnnualCost: number;
+  totalAnnualHours: number;
+  /** Annual cost per observation id */
+  observationCosts: Record<string, number>;
+  steps: StepWasteCost[];
+  wasteTypes: WasteTypeCost[];
+  themes: ThemeWasteCost[];
+  /** Gaps that leave figures understated */
+  observationsWithoutTime: number;
+  processesWithoutVolume: string[];
+  lanesWithoutRate: string[];
+}
+
+/** What pricing observations needs besides the observations themselves */
+export interface CostContext {
+  rates: CostRates;
+  annualVolumes: Record<string, number | null>;
+  /** Expected visits per transaction, keyed by step id */
+  visits: Record<string, number>;
+}
+
+export const WORKING_DAYS_PER_YEAR = 250;
+
+const PERIODS_PER_YEAR: Record<VolumePeriod, number> = {
+  day: WORKING_DAYS_PER_YEAR,
+  week: 52,
+  month: 12,
+  year: 1,
+};
+
+// ============================================
+// CALCULATIONS
+// ============================================
+
+/** Transactions per year from a volume and the period it is counted over */
+export function getAnnualVolume(
+  count: number | null | undefined,
+  period: VolumePeriod | null | undefined
+): number | null {
+  if (count == null || !period) return null;
+  return count * PERIODS_PER_YEAR[period];
+}
+
+/**
+ * Handoff and information flow observations have no step; each workflow's are
+ * priced together under a "Handoffs" lane, like the rest of the app groups them
+ */
+export function getHandoffsStep(processId: string): CostedStep {
+  return { id: `handoffs:${processId}`, name: "Handoffs", lane: "Handoffs", processId };
+}
+
+/** Lane rate first, then a role rate named like the lane, then the org default */
+export function getHourlyRate(rates: CostRates, lane: string): number | null {
+  const name = lane.trim().toLowerCase();
+  const match = (type: LaborRate["rate_type"]) =>
+    rates.rates.find((r) => r.rate_type === type && r.name.trim().toLowerCase() === name);
+
+  return match("lane")?.hourly_rate ?? match("role")?.hourly_rate ?? rates.defaultHourlyRate;
+}
+
+/**
+ * Annualized cost of waste: minutes lost per transaction × loaded hourly rate
+ * of the step's lane × transactions per year × visits per transaction. An
+ * observation tagged with several waste types splits its cost between them.
+ */
+export function calculateWasteCost(input: WasteCostInput): WasteCostBreakdown {
+  const stepsById = new Map(input.steps.map((s) => [s.id, s]));
+  const observationCosts: Record<string, number> = {};
+  const stepCosts = new Map<string, StepWasteCost>();
+  const wasteTypeCosts = new Map<string, WasteTypeCost>();
+  const lanesWithoutRate = new Set<string>();
+  const processesWithoutVolume = new Set<string>();
+  let observationsWithoutTime = 0;
+  let totalAnnualHours = 0;
+
+  for (const obs of input.observations) {
+    const step = stepsById.get(obs.step_id);
+    if (!step) continue;
+
+    const rate = getHourlyRate(input.rates, step.lane);
+    const volume = input.annualVolumes[step.processId] ?? null;
+    const minutes = obs.time_lost_minutes ?? 0;
+
+    if (obs.time_lost_minutes == null) observationsWithoutTime += 1;
+    if (rate == null) lanesWithoutRate.add(step.lane);
+    if (volume == null) processesWithoutVolume.add(step.processId);
+
+    const annualHours = (minutes / 60) * (volume ?? 0) * (step.visitsPerCase ?? 1);
+    const annualCost = annualHours * (rate ?? 0);
+    observationCosts[obs.id] = annualCost;
+    totalAnnualHours += annualHours;
+
+    const stepCost = stepCosts.get(step.id) || {
+      stepId: step.id,
+      stepName: step.name,
+      lane: step.lane,
+      hourlyRate: rate,
+      timeLostMinutes: 0,
+      annualHours: 0,
+      annualCost: 0,
+      observationCount: 0,
+    };
+    stepCost.timeLostMinutes += minutes;
+    stepCost.annualHours += annualHours;
+    stepCost.annualCost += annualCost;
+    stepCost.observationCount += 1;
+    stepCosts.set(step.id, stepCost);
+
+    for (const wasteType of obs.waste_types) {
+      const typeCost = wasteTypeCosts.get(wasteType.id) || {
+        wasteTypeId: wasteType.id,
+        name: wasteType.name,
+        code: wasteType.code,
+        color: wasteType.color,
+        annualCost: 0,
+        observationCount: 0,
+      };
+      typeCost.annualCost += annualCost / obs.waste_types.length;
+      typeCost.observationCount += 1;
+      wasteTypeCosts.set(wasteType.id, typeCost);
+    }
+  }
+
+  const themes = (input.themes || []).map((theme) => ({
+    themeId: theme.id,
+    name: theme.name,
+    annualCost: getEstimatedSavings(observationCosts, theme.observationIds),
+    observationIds: theme.observationIds,
+  }));
+
+  const byCost = <T extends { annualCost: number }>(a: T, b: T) => b.annualCost - a.annualCost;
+
+  return {
+    currency: input.rates.currency,
+    totalAnnualCost: Object.values(observationCosts).reduce((sum, c) => sum + c, 0),
+    totalAnnualHours,
+    observationCosts,
+    steps: Array.from(stepCosts.values()).sort(byCost),
+    wasteTypes: Array.from(wasteTypeCosts.values()).sort(byCost),
+    themes: themes.sort(byCost),
+    observationsWithoutTime,
+    processesWithoutVolume: Array.from(processesWithoutVolume),
+    lanesWithoutRate: Array.from(lanesWithoutRate),
+  };
+}
+
+/** Annual cost of the given observations, each counted once */
+export function getEstimatedSavings(
+  observationCosts: Record<string, number>,
+  observationIds: string[]
+): number {
+  return Array.from(new Set(observationIds)).reduce(
+    (sum, id) => sum + (observationCosts[id] ?? 0),
+    0
+  );
+}
+
+/**
+ * Estimated annual savings for a solution: the cost of every observation it
+ * addresses directly or through its themes, assuming that waste is removed.
+ */
+export function getSolutionSavings(
+  breakdown: Pick<WasteCostBreakdown, "observationCosts" | "themes">,
+  links: { observationIds?: string[]; themeIds?: string[] }
+): number {
+  const themeObservationIds = breakdown.themes
+    .filter((t) => links.themeIds?.includes(t.themeId))
+    .flatMap((t) => t.observationIds);
+
+  return getEstimatedSavings(breakdown.observationCosts, [
+    ...(links.observationIds || []),
+    ...themeObservationIds,
+  ]);
+}
+
+/** Format a money amount, abbreviating large values, e.g. "$850" or "$1.2M" */
+export function formatCurrency(amount: number, currency = "USD"): string {
+  try {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+      notation: Math.abs(amount) >= 100000 ? "compact" : "standard",
+      maximumFractionDigits: Math.abs(amount) >= 100000 ? 1 : 0,
+    }).format(amount);
+  } catch {
+    // Unknown currency codes fall back to a plain number
+    return `${currency} ${Math.round(amount).toLocaleString("en-US")}`;
+  }
+}
+
+// ============================================
+// DATA LOADING
+// ============================================
+
+interface ObservationRow {
+  id: string;
+  step_id: string | null;
+  time_lost_minutes: number | null;
+  step: { id: string; step_name: string; lane: string; process_id: string } | null;
+  session: { process_id: string | null } | null;
+  observation_waste_links?: {
+    waste_type: { id: string; name: string; code: string; color?: string } | null;
+  }[];
+}
+
+interface TimingStepRow extends Pick<ProcessStep, "id" | "lead_time_minutes" | "cycle_time_minutes"> {
+  process_id: string;
+  step_type: StepType;
+}
+
+/**
+ * Labor rates, transaction volumes and step visits for the given workflows.
+ * Rates come from the organization passed in, or else the workflows' own.
+ */
+export async function loadCostContext(
+  supabase: SupabaseClient,
+  processIds: string[],
+  orgId?: string | null
+): Promise<CostContext> {
+  const [processesRes, contextsRes, stepsRes, connectionsRes] = await Promise.all([
+    orgId
+      ? Promise.resolve({ data: [{ org_id: orgId }] })
+      : supabase.from("processes").select("id, org_id").in("id", processIds),
+    supabase
+      .from("workflow_contexts")
+      .select("workflow_id, volume_count, volume_period")
+      .in("workflow_id", processIds),
+    supabase
+      .from("process_steps")
+      .select("id, process_id, step_type, lead_time_minutes, cycle_time_minutes")
+      .in("process_id", processIds),
+    supabase
+      .from("step_connections")
+      .select("process_id, source_step_id, target_step_id, branch_probability")
+      .in("process_id", processIds),
+  ]);
+
+  const rateOrgId = (processesRes.data || []).find((p: { org_id: string | null }) => p.org_id)?.org_id;
+  const [orgRes, ratesRes] = rateOrgId
+    ? await Promise.all([
+        supabase.from("organizations").select("currency, default_hourly_rate").eq("id", rateOrgId).single(),
+        supabase.from("org_labor_rates").select("rate_type, name, hourly_rate").eq("org_id", rateOrgId),
+      ])
+    : [{ data: null }, { data: [] }];
+
+  const annualVolumes: Record<string, number | null> = {};
+  for (const context of contextsRes.data || []) {
+    annualVolumes[context.workflow_id] = getAnnualVolume(context.volume_count, context.volume_period);
+  }
+
+  // Weight each step by how often transactions reach it
+  const visits: Record<string, number> = {};
+  const timingSteps = (stepsRes.data || []) as TimingStepRow[];
+  for (const processId of processIds) {
+    const timing = analyzeProcessTiming({
+      steps: timingSteps.filter((s) => s.process_id === processId),
+      connections: (connectionsRes.data || []).filter(
+        (c: { process_id: string }) => c.process_id === processId
+      ),
+    });
+    if (timing.hasUnboundedLoop) continue;
+    for (const [stepId, count] of Object.entries(timing.expectedVisits)) {
+      if (count > 0) visits[stepId] = count;
+    }
+  }
+
+  return {
+    rates: {
+      currency: orgRes.data?.currency || "USD",
+      defaultHourlyRate: orgRes.data?.default_hourly_rate ?? null,
+      rates: ratesRes.data || [],
+    },
+    annualVolumes,
+    visits,
+  };
+}
+
+/** A session's insight themes with the observations grouped under them */
+export async function loadCostedThemes(supabase: SupabaseClient, sessionId: string): Promise<CostedTheme[]> {
+  const { data, error } = await supabase
+    .from("insight_themes")
+    .select("id, name, insight_theme_observations(observation_id)")
+    .eq("session_id", sessionId);
+  if (error) throw error;
+
+  return ((data || []) as {
+    id: string;
+    name: string;
+    insight_theme_observations?: { observation_id: string }[];
+  }[]).map((t) => ({
+    id: t.id,
+    name: t.name,
+    observationIds: (t.insight_theme_observations || []).map((l) => l.observation_id),
+  }));
+}
+
+/**
+ * Load observations, labor rates and transaction volumes and compute the cost
+ * of waste for one session, or for every session the client can see. Takes
+ * the Supabase client so it runs in the browser and in API routes alike.
+ */
+export async function loadWasteCostBreakdown(
+  supabase: SupabaseClient,
+  sessionId?: string
+): Promise<WasteCostBreakdown> {
+  let query = supabase
+    .from("observations")
+    .select(`
+      id,
+      step_id,
+      time_lost_minutes,
+      step:process_steps(id, step_name, lane, process_id),
+      session:sessions(process_id),
+      observation_waste_links(waste_type:waste_types(id, name, code, color))
+    `);
+  if (sessionId) query = query.eq("session_id", sessionId);
+
+  const { data: observationData, error } = await query;
+  if (error) throw error;
+
+  const observations = (observationData || []) as unknown as ObservationRow[];
+  const processIds = Array.from(
+    new Set(
+      observations
+        .map((o) => o.step?.process_id ?? o.session?.process_id)
+        .filter((id): id is string => !!id)
+    )
+  );
+
+  const [context, themes] = await Promise.all([
+    loadCostContext(supabase, processIds),
+    sessionId ? loadCostedThemes(supabase, sessionId) : Promise.resolve([]),
+  ]);
+
+  // Observations are priced against the step they were made on, or their
+  // workflow's handoffs
+  const steps = new Map<string, CostedStep>();
+  const costedStepIds = new Map<string, string>();
+  for (const obs of observations) {
+    const step = obs.step
+      ? {
+          id: obs.step.id,
+          name: obs.step.step_name,
+          lane: obs.step.lane,
+          processId: obs.step.process_id,
+          visitsPerCase: context.visits[obs.step.id],
+        }
+      : !obs.step_id && obs.session?.process_id
+        ? getHandoffsStep(obs.session.process_id)
+        : null;
+    if (!step) continue;
+    costedStepIds.set(obs.id, step.id);
+    if (!steps.has(step.id)) steps.set(step.id, step);
+  }
+
+  return calculateWasteCost({
+    rates: context.rates,
+    annualVolumes: context.annualVolumes,
+    steps: Array.from(steps.values()),
+    observations: observations.filter((o) => costedStepIds.has(o.id)).map((o) => ({
+      id: o.id,
+      step_id: costedStepIds.get(o.id)!,
+      time_lost_minutes: o.time_lost_minutes,
+      waste_types: (o.observation_waste_links || [])
+        .map((l) => l.waste_type)
+        .filter((wt): wt is NonNullable<typeof wt> => !!wt),
+    })),
+    themes,
+  });
+}
@@ -169,6 +169,8 @@ export async function upsertWorkflowContext(
         trigger_events: input.trigger_events || [],
         end_outcomes: input.end_outcomes || [],
         volume_frequency: input.volume_frequency,
+        volume_count: input.volume_count ?? null,
+        volume_period: input.volume_period ?? null,
         sla_targets: input.sla_targets,
         constraints: input.constraints || [],
         assumptions: input.assumptions || [],
@@ -196,6 +198,8 @@ export async function upsertWorkflowContext(
         trigger_events: input.trigger_events || [],
         end_outcomes: input.end_outcomes || [],
         volume_frequency: input.volume_frequency,
+        volume_count: input.volume_count ?? null,
+        volume_period: input.volume_period ?? null,
         sla_targets: input.sla_targets,
         constraints: input.constraints || [],
         assumptions: input.assumptions || [],
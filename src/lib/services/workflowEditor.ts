@@ -19,6 +19,7 @@ export interface CreateStepInput {
   position_x?: number;
   position_y?: number;
   order_index?: number;
+  subprocess_process_id?: string | null;
 }
 
 export interface UpdateStepInput {
@@ -31,6 +32,7 @@ export interface UpdateStepInput {
   position_x?: number;
   position_y?: number;
   order_index?: number;
+  subprocess_process_id?: string | null;
 }
 
 export async function createStep(input: CreateStepInput): Promise<ProcessStep> {
@@ -47,6 +49,7 @@ export async function createStep(input: CreateStepInput): Promise<ProcessStep> {
     position_x: input.position_x,
     position_y: input.position_y,
     order_index: input.order_index,
+    subprocess_process_id: input.subprocess_process_id ?? null,
   };
   
   const { data, error } = await supabase
@@ -74,6 +77,7 @@ export async function updateStep(
   if (updates.position_x !== undefined) dbUpdates.position_x = updates.position_x;
   if (updates.position_y !== undefined) dbUpdates.position_y = updates.position_y;
   if (updates.order_index !== undefined) dbUpdates.order_index = updates.order_index;
+  if (updates.subprocess_process_id !== undefined) dbUpdates.subprocess_process_id = updates.subprocess_process_id;
   
   const { data, error } = await supabase
     .from("process_steps")
@@ -161,6 +165,21 @@ export async function updateConnection(
   return data;
 }
 
+export async function updateConnectionProbability(
+  connectionId: string,
+  branchProbability: number | null
+): Promise<StepConnection> {
+  const { data, error } = await supabase
+    .from("step_connections")
+    .update({ branch_probability: branchProbability })
+    .eq("id", connectionId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
 export async function deleteConnection(connectionId: string): Promise<void> {
   const { error } = await supabase
     .from("step_connections")
@@ -177,6 +196,7 @@ export async function deleteConnection(connectionId: string): Promise<void> {
 export interface CreateProcessInput {
   name: string;
   description?: string;
+  department?: string;
 }
 
 export async function createProcess(input: CreateProcessInput) {
@@ -341,6 +361,27 @@ export async function deleteLane(processId: string, laneId: string): Promise<voi
   if (error) throw error;
 }
 
+export async function updateLaneCapacity(
+  processId: string,
+  laneId: string,
+  capacity: number
+): Promise<ProcessLane> {
+  if (!Number.isInteger(capacity) || capacity < 1) {
+    throw new Error("Lane capacity must be a whole number of at least 1");
+  }
+
+  const { data, error } = await supabase
+    .from("process_lanes")
+    .update({ capacity })
+    .eq("id", laneId)
+    .eq("process_id", processId)
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  return data as ProcessLane;
+}
+
 export async function updateLaneColor(
   processId: string,
   laneId: string,
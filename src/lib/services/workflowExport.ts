@@ -0,0 +1,289 @@
+import { getSupabaseClient } from "@/lib/supabase/client";
+import { getWorkflowWithDetails, type StepConnection } from "./workflows";
+import type { ImportContext, ImportStep, WorkflowImportData } from "./workflowImport";
+import type {
+  InformationFlow,
+  Process,
+  ProcessLane,
+  ProcessStep,
+  StepAttachment,
+  StepIO,
+  WorkflowContextWithRelations,
+} from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+
+/** Current version of the lossless workflow JSON format */
+export const WORKFLOW_EXPORT_VERSION = 1;
+
+/**
+ * Lossless workflow export. A superset of the import format, so the same file
+ * can be fed back through the JSON importer.
+ */
+export interface WorkflowExportDocument extends WorkflowImportData {
+  format_version: number;
+  exported_at: string;
+}
+
+export interface WorkflowExportSource {
+  process: Pick<Process, "name" | "description" | "department">;
+  steps: ProcessStep[];
+  connections: StepConnection[];
+  lanes: ProcessLane[];
+  flows?: InformationFlow[];
+  stepIO?: StepIO[];
+  attachments?: StepAttachment[];
+  context?: WorkflowContextWithRelations | null;
+}
+
+// ============================================
+// DOCUMENT BUILDER
+// ============================================
+
+/** Drop null/undefined values so the export validates against optional schema fields */
+function compact<T extends Record<string, unknown>>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== null && v !== undefined)
+  ) as T;
+}
+
+function nonEmpty<T>(items: T[] | undefined): T[] | undefined {
+  return items && items.length > 0 ? items : undefined;
+}
+
+function buildContext(context: WorkflowContextWithRelations): ImportContext {
+  return compact({
+    purpose: context.purpose,
+    business_value: context.business_value,
+    trigger_events: nonEmpty(context.trigger_events),
+    end_outcomes: nonEmpty(context.end_outcomes),
+    volume_frequency: context.volume_frequency,
+    volume_count: context.volume_count ?? undefined,
+    volume_period: context.volume_period ?? undefined,
+    sla_targets: context.sla_targets,
+    compliance_requirements: nonEmpty(context.compliance_requirements),
+    known_pain_points: nonEmpty(context.known_pain_points),
+    previous_improvement_attempts: nonEmpty(context.previous_improvement_attempts),
+    constraints: nonEmpty(context.constraints),
+    assumptions: nonEmpty(context.assumptions),
+    stakeholders: nonEmpty(
+      [...(context.stakeholders || [])]
+        .sort((a, b) => a.order_index - b.order_index)
+        .map((s) =>
+          compact({ role: s.role, responsibilities: s.responsibilities, pain_points: s.pain_points })
+        )
+    ),
+    systems: nonEmpty(
+      [...(context.systems || [])]
+        .sort((a, b) => a.order_index - b.order_index)
+        .map((s) =>
+          compact({ name: s.name, role: s.role, integration_notes: s.integration_notes })
+        )
+    ),
+    metrics: nonEmpty(
+      [...(context.metrics || [])]
+        .sort((a, b) => a.order_index - b.order_index)
+        .map((m) =>
+          compact({ name: m.name, current_value: m.current_value, target_value: m.target_value })
+        )
+    ),
+  });
+}
+
+/**
+ * Build a lossless export document for a workflow. Database IDs are kept as
+ * document-local references so steps, connections, flows and I/O link up on import.
+ */
+export function buildWorkflowExportDocument(
+  source: WorkflowExportSource,
+  exportedAt: Date = new Date()
+): WorkflowExportDocument {
+  const { process, connections, lanes, flows = [], stepIO = [], attachments = [] } = source;
+  const steps = [...source.steps].sort((a, b) => a.order_index - b.order_index);
+  const stepIds = new Set(steps.map((s) => s.id));
+  const exportedFlows = flows.filter((f) => f.state_type === "current");
+  const flowIds = new Set(exportedFlows.map((f) => f.id));
+
+  const exportedSteps: ImportStep[] = steps.map((step) => {
+    const io = stepIO
+      .filter((item) => item.step_id === step.id)
+      .sort((a, b) => a.order_index - b.order_index)
+      .map((item) =>
+        compact({
+          io_type: item.io_type,
+          name: item.name,
+          description: item.description,
+          data_type: item.data_type,
+          source_destination: item.source_destination,
+          is_required: item.is_required,
+          linked_flow:
+            item.linked_flow_id && flowIds.has(item.linked_flow_id)
+              ? item.linked_flow_id
+              : undefined,
+          order: item.order_index,
+        })
+      );
+    const stepAttachments = attachments
+      .filter((a) => a.step_id === step.id)
+      .map((a) =>
+        compact({
+          filename: a.filename,
+          original_filename: a.original_filename,
+          file_path: a.file_path,
+          file_size: a.file_size,
+          mime_type: a.mime_type,
+          description: a.description,
+          category: a.category,
+        })
+      );
+
+    return compact({
+      id: step.id,
+      name: step.step_name,
+      lane: step.lane,
+      type: step.step_type,
+      description: step.description,
+      order: step.order_index,
+      lead_time_minutes: step.lead_time_minutes,
+      cycle_time_minutes: step.cycle_time_minutes,
+      position_x: step.position_x,
+      position_y: step.position_y,
+      io: nonEmpty(io),
+      attachments: nonEmpty(stepAttachments),
+    });
+  });
+
+  return compact({
+    format_version: WORKFLOW_EXPORT_VERSION,
+    exported_at: exportedAt.toISOString(),
+    name: process.name,
+    description: process.description,
+    department: process.department ?? undefined,
+    lanes: [...lanes]
+      .sort((a, b) => a.order_index - b.order_index)
+      .map((lane) =>
+        compact({
+          name: lane.name,
+          bg_color: lane.bg_color ?? undefined,
+          border_color: lane.border_color ?? undefined,
+          capacity: lane.capacity && lane.capacity > 1 ? lane.capacity : undefined,
+        })
+      ),
+    steps: exportedSteps,
+    connections: connections
+      .filter((c) => stepIds.has(c.source_step_id) && stepIds.has(c.target_step_id))
+      .map((c) =>
+        compact({
+          from: c.source_step_id,
+          to: c.target_step_id,
+          label: c.label,
+          branch_probability: c.branch_probability ?? undefined,
+        })
+      ),
+    information_flows: nonEmpty(
+      exportedFlows.map((flow) =>
+        compact({
+          id: flow.id,
+          from: flow.source_step_id,
+          to: flow.target_step_id,
+          name: flow.name,
+          description: flow.description,
+          flow_type: flow.flow_type,
+          status: flow.status,
+          volume_per_day: flow.volume_per_day,
+          frequency: flow.frequency,
+          is_automated: flow.is_automated,
+          is_real_time: flow.is_real_time,
+          completeness_score: flow.completeness_score,
+          accuracy_score: flow.accuracy_score,
+          timeliness_score: flow.timeliness_score,
+          metadata: flow.metadata as Record<string, unknown> | undefined,
+        })
+      )
+    ),
+    context: source.context ? buildContext(source.context) : undefined,
+  });
+}
+
+// ============================================
+// EXPORT
+// ============================================
+
+async function fetchWorkflowContext(
+  processId: string
+): Promise<WorkflowContextWithRelations | null> {
+  // Context is read through the server route, like the workflow detail page does
+  const response = await fetch(`/api/workflows/${processId}/context`);
+  if (!response.ok) return null;
+  const { context } = await response.json();
+  return context ?? null;
+}
+
+/**
+ * Load everything needed for a lossless export of a workflow
+ */
+export async function getWorkflowExportSource(
+  processId: string
+): Promise<WorkflowExportSource> {
+  const supabase = getSupabaseClient();
+  const details = await getWorkflowWithDetails(processId);
+  const stepIds = details.steps.map((s) => s.id);
+
+  const [flowsResult, ioResult, attachmentsResult, context] = await Promise.all([
+    supabase
+      .from("information_flows")
+      .select("*")
+      .eq("process_id", processId)
+      .eq("state_type", "current"),
+    stepIds.length > 0
+      ? supabase.from("step_io").select("*").in("step_id", stepIds)
+      : Promise.resolve({ data: [], error: null }),
+    stepIds.length > 0
+      ? supabase.from("step_attachments").select("*").in("step_id", stepIds)
+      : Promise.resolve({ data: [], error: null }),
+    fetchWorkflowContext(processId),
+  ]);
+
+  if (flowsResult.error) throw flowsResult.error;
+  if (ioResult.error) throw ioResult.error;
+  if (attachmentsResult.error) throw attachmentsResult.error;
+
+  return {
+    ...details,
+    flows: (flowsResult.data || []) as InformationFlow[],
+    stepIO: (ioResult.data || []) as StepIO[],
+    attachments: (attachmentsResult.data || []) as StepAttachment[],
+    context,
+  };
+}
+
+function safeJsonFilename(value: string): string {
+  return (
+    value
+      .trim()
+      .replace(/[^\w\-]+/g, "_")
+      .replace(/_+/g, "_")
+      .replace(/^_+|_+$/g, "")
+      .slice(0, 80) || "workflow"
+  );
+}
+
+/**
+ * Download a workflow as lossless JSON that can be re-imported
+ */
+export async function exportWorkflowToJSON(processId: string): Promise<void> {
+  const source = await getWorkflowExportSource(processId);
+  const document = buildWorkflowExportDocument(source);
+
+  const blob = new Blob([JSON.stringify(document, null, 2)], {
+    type: "application/json;charset=utf-8",
+  });
+  const url = URL.createObjectURL(blob);
+  const a = window.document.createElement("a");
+  a.href = url;
+  a.download = `${safeJsonFilename(source.process.name)}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -2,6 +2,7 @@ import { z } from "zod";
 import { getSupabaseClient } from "@/lib/supabase/client";
 import type { Process, ProcessStep, StepType } from "@/types";
 import type { StepConnection } from "./workflows";
+import { copyFile, generateUniquePath } from "./storage";
 
 const supabase = getSupabaseClient();
 
@@ -12,6 +13,31 @@ const supabase = getSupabaseClient();
 // Valid step types
 const stepTypeSchema = z.enum(["action", "decision", "start", "end", "subprocess"]).default("action");
 
+// Step input/output (SIPOC) entry for import
+const importStepIOSchema = z.object({
+  io_type: z.enum(["input", "output"]),
+  name: z.string().min(1, "I/O name is required"),
+  description: z.string().optional(),
+  data_type: z.string().optional(),
+  source_destination: z.string().optional(),
+  is_required: z.boolean().optional(),
+  linked_flow: z.string().optional(), // References information_flows[].id
+  order: z.number().optional(),
+});
+
+// Attachment metadata for import (files themselves stay in storage)
+const importAttachmentSchema = z.object({
+  filename: z.string().min(1),
+  original_filename: z.string().min(1),
+  file_path: z.string().min(1),
+  file_size: z.number(),
+  mime_type: z.string().optional(),
+  description: z.string().optional(),
+  category: z
+    .enum(["documentation", "screenshot", "diagram", "template", "reference", "other"])
+    .optional(),
+});
+
 // Step definition for import
 const importStepSchema = z.object({
   id: z.string().min(1, "Step ID is required"),
@@ -22,6 +48,84 @@ const importStepSchema = z.object({
   order: z.number().optional(),
   lead_time_minutes: z.number().optional(),
   cycle_time_minutes: z.number().optional(),
+  position_x: z.number().optional(),
+  position_y: z.number().optional(),
+  io: z.array(importStepIOSchema).optional(),
+  attachments: z.array(importAttachmentSchema).optional(),
+});
+
+// Lane definition for import - a plain name, or a name with its colors
+const importLaneSchema = z.union([
+  z.string(),
+  z.object({
+    name: z.string().min(1, "Lane name is required").max(50, "Lane name too long"),
+    bg_color: z.string().optional(),
+    border_color: z.string().optional(),
+    capacity: z.number().int().min(1).optional(),
+  }),
+]);
+
+// Information flow definition for import
+const importInformationFlowSchema = z.object({
+  id: z.string().min(1, "Flow ID is required"),
+  from: z.string().optional(),
+  to: z.string().optional(),
+  name: z.string().min(1, "Flow name is required"),
+  description: z.string().optional(),
+  flow_type: z.enum(["data", "document", "approval", "system", "notification"]).default("data"),
+  status: z.enum(["active", "deprecated", "proposed"]).optional(),
+  volume_per_day: z.number().optional(),
+  frequency: z.string().optional(),
+  is_automated: z.boolean().optional(),
+  is_real_time: z.boolean().optional(),
+  completeness_score: z.number().min(1).max(5).optional(),
+  accuracy_score: z.number().min(1).max(5).optional(),
+  timeliness_score: z.number().min(1).max(5).optional(),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+});
+
+// Workflow context (purpose, stakeholders, systems, metrics) for import
+const importContextSchema = z.object({
+  purpose: z.string().optional(),
+  business_value: z.string().optional(),
+  trigger_events: z.array(z.string()).optional(),
+  end_outcomes: z.array(z.string()).optional(),
+  volume_frequency: z.string().optional(),
+  volume_count: z.number().min(0).optional(),
+  volume_period: z.enum(["day", "week", "month", "year"]).optional(),
+  sla_targets: z.string().optional(),
+  compliance_requirements: z.array(z.string()).optional(),
+  known_pain_points: z.array(z.string()).optional(),
+  previous_improvement_attempts: z.array(z.string()).optional(),
+  constraints: z.array(z.string()).optional(),
+  assumptions: z.array(z.string()).optional(),
+  stakeholders: z
+    .array(
+      z.object({
+        role: z.string().min(1),
+        responsibilities: z.string().optional(),
+        pain_points: z.string().optional(),
+      })
+    )
+    .optional(),
+  systems: z
+    .array(
+      z.object({
+        name: z.string().min(1),
+        role: z.string().optional(),
+        integration_notes: z.string().optional(),
+      })
+    )
+    .optional(),
+  metrics: z
+    .array(
+      z.object({
+        name: z.string().min(1),
+        current_value: z.string().optional(),
+        target_value: z.string().optional(),
+      })
+    )
+    .optional(),
 });
 
 // Connection definition for import
@@ -29,15 +133,19 @@ const importConnectionSchema = z.object({
   from: z.string().min(1, "Source step ID is required"),
   to: z.string().min(1, "Target step ID is required"),
   label: z.string().optional(),
+  branch_probability: z.number().min(0).max(1).optional(),
 });
 
 // Full workflow import schema
 export const workflowImportSchema = z.object({
   name: z.string().min(1, "Workflow name is required").max(100, "Workflow name too long"),
   description: z.string().optional(),
-  lanes: z.array(z.string()).optional(), // Optional - can be inferred from steps
+  department: z.string().optional(),
+  lanes: z.array(importLaneSchema).optional(), // Optional - can be inferred from steps
   steps: z.array(importStepSchema).min(1, "At least one step is required"),
   connections: z.array(importConnectionSchema).optional().default([]),
+  information_flows: z.array(importInformationFlowSchema).optional(),
+  context: importContextSchema.optional(),
 });
 
 // CSV row schema for steps
@@ -66,6 +174,9 @@ const csvConnectionRowSchema = z.object({
 export type WorkflowImportData = z.infer<typeof workflowImportSchema>;
 export type ImportStep = z.infer<typeof importStepSchema>;
 export type ImportConnection = z.infer<typeof importConnectionSchema>;
+export type ImportLane = z.infer<typeof importLaneSchema>;
+export type ImportInformationFlow = z.infer<typeof importInformationFlowSchema>;
+export type ImportContext = z.infer<typeof importContextSchema>;
 
 export interface ImportValidationResult {
   valid: boolean;
@@ -94,6 +205,27 @@ export interface ImportResult {
   steps?: ProcessStep[];
   connections?: StepConnection[];
   errors?: string[];
+  warnings?: string[];
+}
+
+/**
+ * Normalize the lanes of an import document to named lanes with optional colors,
+ * in display order. Lanes referenced only by steps are appended at the end.
+ */
+export function getImportLanes(
+  data: Pick<WorkflowImportData, "lanes" | "steps">
+): Array<{ name: string; bg_color?: string; border_color?: string; capacity?: number }> {
+  const lanes = (data.lanes || []).map((lane) =>
+    typeof lane === "string" ? { name: lane } : lane
+  );
+  const seen = new Set(lanes.map((lane) => lane.name));
+  data.steps.forEach((step) => {
+    if (!seen.has(step.lane)) {
+      seen.add(step.lane);
+      lanes.push({ name: step.lane });
+    }
+  });
+  return lanes;
 }
 
 // ============================================
@@ -153,6 +285,34 @@ export function parseJSON(jsonString: string): ImportValidationResult {
       }
     });
 
+    // Validate information flows and step I/O references
+    const flowIds = new Set<string>();
+    result.data.information_flows?.forEach((flow, idx) => {
+      flowIds.add(flow.id);
+      [flow.from, flow.to].forEach((ref, end) => {
+        if (ref && !stepIds.has(ref)) {
+          errors.push({
+            type: "error",
+            row: idx + 1,
+            field: end === 0 ? "information_flows[].from" : "information_flows[].to",
+            message: `Information flow "${flow.name}" references unknown step ID: "${ref}"`,
+          });
+        }
+      });
+    });
+
+    result.data.steps.forEach((step) => {
+      step.io?.forEach((io) => {
+        if (io.linked_flow && !flowIds.has(io.linked_flow)) {
+          warnings.push({
+            type: "warning",
+            field: "steps[].io",
+            message: `I/O "${io.name}" on step "${step.name}" links to unknown flow "${io.linked_flow}" and will be imported unlinked`,
+          });
+        }
+      });
+    });
+
     // Check for orphan steps (no connections)
     if (result.data.connections && result.data.connections.length > 0) {
       const connectedSteps = new Set<string>();
@@ -190,7 +350,7 @@ export function parseJSON(jsonString: string): ImportValidationResult {
 // CSV PARSER
 // ============================================
 
-function parseCSVLine(line: string): string[] {
+export function parseCSVLine(line: string, delimiter = ","): string[] {
   const result: string[] = [];
   let current = "";
   let inQuotes = false;
@@ -205,7 +365,7 @@ function parseCSVLine(line: string): string[] {
       } else {
         inQuotes = !inQuotes;
       }
-    } else if (char === "," && !inQuotes) {
+    } else if (char === delimiter && !inQuotes) {
       result.push(current.trim());
       current = "";
     } else {
@@ -502,6 +662,7 @@ export async function importWorkflow(
       .insert({
         name: data.name,
         description: data.description,
+        department: data.department,
         org_id: userProfile?.org_id || null,
         created_by: user.id,
       })
@@ -512,10 +673,33 @@ export async function importWorkflow(
       return { success: false, errors: [processError.message] };
     }
 
+    const warnings: string[] = [];
+
+    // Persist swimlanes (with colors when provided)
+    const lanes = getImportLanes(data);
+    const { error: lanesError } = await supabase.from("process_lanes").insert(
+      lanes.map((lane, idx) => ({
+        process_id: process.id,
+        name: lane.name,
+        order_index: idx,
+        bg_color: lane.bg_color ?? null,
+        border_color: lane.border_color ?? null,
+        ...(lane.capacity ? { capacity: lane.capacity } : {}),
+      }))
+    );
+    if (lanesError) {
+      console.error("Failed to create lanes:", lanesError);
+      warnings.push(`Swimlanes: ${lanesError.message}`);
+    }
+
     // Calculate positions for steps
     const laneIndices = new Map<string, number>();
-    const lanes = data.lanes || Array.from(new Set(data.steps.map((s) => s.lane)));
-    lanes.forEach((lane, idx) => laneIndices.set(lane, idx));
+    lanes.forEach((lane, idx) => laneIndices.set(lane.name, idx));
+
+    // Exported workflows carry their own layout; keep it instead of re-laying out
+    const hasStoredLayout = data.steps.every(
+      (step) => step.position_x !== undefined && step.position_y !== undefined
+    );
 
     const LANE_HEIGHT = 120;
     const STEP_WIDTH = 180;
@@ -563,9 +747,9 @@ export async function importWorkflow(
         lane: step.lane,
         lead_time_minutes: step.lead_time_minutes ?? null,
         cycle_time_minutes: step.cycle_time_minutes ?? null,
-        order_index: pos.order,
-        position_x: pos.x,
-        position_y: pos.y,
+        order_index: hasStoredLayout ? step.order ?? pos.order : pos.order,
+        position_x: hasStoredLayout ? step.position_x : pos.x,
+        position_y: hasStoredLayout ? step.position_y : pos.y,
       };
     });
 
@@ -595,6 +779,7 @@ export async function importWorkflow(
         source_step_id: idMapping.get(conn.from),
         target_step_id: idMapping.get(conn.to),
         label: conn.label,
+        branch_probability: conn.branch_probability ?? null,
       }))
       .filter((conn) => conn.source_step_id && conn.target_step_id);
 
@@ -614,11 +799,27 @@ export async function importWorkflow(
       }
     }
 
+    // Optional sections from lossless exports. Failures are reported as warnings
+    // rather than rolling back, matching how connections are handled above.
+    const flowIdMapping = await importInformationFlows(
+      process.id,
+      data.information_flows || [],
+      idMapping,
+      user.id,
+      warnings
+    );
+    await importStepIO(data.steps, idMapping, flowIdMapping, warnings);
+    await importStepAttachments(process.id, data.steps, idMapping, user.id, warnings);
+    if (data.context) {
+      await importWorkflowContext(process.id, data.context, warnings);
+    }
+
     return {
       success: true,
       process,
       steps: createdSteps,
       connections: createdConnections,
+      warnings,
     };
   } catch (error) {
     return {
@@ -628,6 +829,168 @@ export async function importWorkflow(
   }
 }
 
+async function importInformationFlows(
+  processId: string,
+  flows: ImportInformationFlow[],
+  idMapping: Map<string, string>,
+  userId: string,
+  warnings: string[]
+): Promise<Map<string, string>> {
+  const flowIdMapping = new Map<string, string>();
+  if (flows.length === 0) return flowIdMapping;
+
+  const { data: createdFlows, error } = await supabase
+    .from("information_flows")
+    .insert(
+      flows.map((flow) => ({
+        process_id: processId,
+        state_type: "current",
+        source_step_id: flow.from ? idMapping.get(flow.from) ?? null : null,
+        target_step_id: flow.to ? idMapping.get(flow.to) ?? null : null,
+        name: flow.name,
+        description: flow.description,
+        flow_type: flow.flow_type,
+        status: flow.status ?? "active",
+        volume_per_day: flow.volume_per_day ?? null,
+        frequency: flow.frequency,
+        is_automated: flow.is_automated ?? false,
+        is_real_time: flow.is_real_time ?? false,
+        completeness_score: flow.completeness_score ?? null,
+        accuracy_score: flow.accuracy_score ?? null,
+        timeliness_score: flow.timeliness_score ?? null,
+        metadata: flow.metadata || {},
+        created_by: userId,
+        updated_by: userId,
+      }))
+    )
+    .select();
+
+  if (error) {
+    console.error("Failed to create information flows:", error);
+    warnings.push(`Information flows: ${error.message}`);
+    return flowIdMapping;
+  }
+
+  flows.forEach((flow, idx) => {
+    if (createdFlows?.[idx]) flowIdMapping.set(flow.id, createdFlows[idx].id);
+  });
+  return flowIdMapping;
+}
+
+async function importStepIO(
+  steps: ImportStep[],
+  idMapping: Map<string, string>,
+  flowIdMapping: Map<string, string>,
+  warnings: string[]
+) {
+  const ioToInsert = steps.flatMap((step) =>
+    (step.io || []).map((io, idx) => ({
+      step_id: idMapping.get(step.id),
+      io_type: io.io_type,
+      name: io.name,
+      description: io.description,
+      data_type: io.data_type,
+      source_destination: io.source_destination,
+      is_required: io.is_required ?? true,
+      linked_flow_id: io.linked_flow ? flowIdMapping.get(io.linked_flow) ?? null : null,
+      order_index: io.order ?? idx,
+    }))
+  ).filter((io) => io.step_id);
+
+  if (ioToInsert.length === 0) return;
+
+  const { error } = await supabase.from("step_io").insert(ioToInsert);
+  if (error) {
+    console.error("Failed to create step I/O:", error);
+    warnings.push(`Step inputs/outputs: ${error.message}`);
+  }
+}
+
+/**
+ * Each attachment gets its own copy of the file under the new workflow, so
+ * deleting it never removes the source workflow's file. Files the user
+ * can't read (e.g. from another organization) are skipped with a warning.
+ */
+async function importStepAttachments(
+  processId: string,
+  steps: ImportStep[],
+  idMapping: Map<string, string>,
+  userId: string,
+  warnings: string[]
+) {
+  const attachmentsToInsert = [];
+
+  for (const step of steps) {
+    const stepId = idMapping.get(step.id);
+    if (!stepId) continue;
+
+    for (const attachment of step.attachments || []) {
+      let filePath: string;
+      try {
+        filePath = await copyFile(
+          "step-attachments",
+          attachment.file_path,
+          generateUniquePath(`${processId}/${stepId}`, attachment.file_path)
+        );
+      } catch (error) {
+        console.error("Failed to copy step attachment:", error);
+        warnings.push(`Attachment "${attachment.original_filename}": the file could not be copied`);
+        continue;
+      }
+
+      attachmentsToInsert.push({
+        step_id: stepId,
+        filename: attachment.filename,
+        original_filename: attachment.original_filename,
+        file_path: filePath,
+        file_size: attachment.file_size,
+        mime_type: attachment.mime_type,
+        description: attachment.description,
+        category: attachment.category ?? "other",
+        uploaded_by: userId,
+      });
+    }
+  }
+
+  if (attachmentsToInsert.length === 0) return;
+
+  const { error } = await supabase.from("step_attachments").insert(attachmentsToInsert);
+  if (error) {
+    console.error("Failed to create step attachments:", error);
+    warnings.push(`Attachments: ${error.message}`);
+  }
+}
+
+async function importWorkflowContext(
+  processId: string,
+  context: ImportContext,
+  warnings: string[]
+) {
+  const { stakeholders = [], systems = [], metrics = [], ...fields } = context;
+
+  try {
+    // Context persistence lives behind the server-side context route
+    const response = await fetch(`/api/workflows/${processId}/context`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        context: fields,
+        stakeholders: stakeholders.map((s, idx) => ({ ...s, order_index: idx })),
+        systems: systems.map((s, idx) => ({ ...s, order_index: idx })),
+        metrics: metrics.map((m, idx) => ({ ...m, order_index: idx })),
+      }),
+    });
+    if (!response.ok) {
+      warnings.push(`Workflow context: request failed with status ${response.status}`);
+    }
+  } catch (error) {
+    console.error("Failed to save workflow context:", error);
+    warnings.push(
+      `Workflow context: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+}
+
 // ============================================
 // SAMPLE DATA GENERATORS
 // ============================================
@@ -870,3 +1233,379 @@ export function parsePremierHealthCSV(
   return { valid: true, data, errors: [], warnings };
 }
 
+
+// ============================================
+// BPMN 2.0 XML PARSER
+// ============================================
+
+// Task-like elements that become "action" steps
+const BPMN_TASK_ELEMENTS = new Set([
+  "task",
+  "userTask",
+  "manualTask",
+  "serviceTask",
+  "scriptTask",
+  "businessRuleTask",
+  "sendTask",
+  "receiveTask",
+]);
+
+// Gateways that become "decision" steps
+const BPMN_GATEWAY_ELEMENTS = new Set([
+  "exclusiveGateway",
+  "parallelGateway",
+  "inclusiveGateway",
+  "eventBasedGateway",
+  "complexGateway",
+]);
+
+// Elements inside a process that carry no flow semantics for us
+const BPMN_IGNORED_ELEMENTS = new Set([
+  "laneSet",
+  "sequenceFlow",
+  "extensionElements",
+  "documentation",
+  "association",
+  "textAnnotation",
+  "dataObject",
+  "dataObjectReference",
+  "dataStoreReference",
+  "ioSpecification",
+  "property",
+]);
+
+const MAX_STEP_NAME_LENGTH = 100;
+const MAX_LANE_NAME_LENGTH = 50;
+
+function bpmnChildren(el: Element, localName?: string): Element[] {
+  return Array.from(el.children).filter(
+    (child) => !localName || child.localName === localName
+  );
+}
+
+function bpmnDescendants(root: Document | Element, localName: string): Element[] {
+  return Array.from(root.getElementsByTagName("*")).filter(
+    (el) => el.localName === localName
+  );
+}
+
+function cleanBpmnText(value: string | null | undefined): string {
+  return (value || "").replace(/\s+/g, " ").trim();
+}
+
+function mapBpmnStepType(localName: string): StepType | null {
+  if (localName === "startEvent") return "start";
+  if (localName === "endEvent") return "end";
+  if (localName === "callActivity" || localName === "subProcess") return "subprocess";
+  if (BPMN_GATEWAY_ELEMENTS.has(localName)) return "decision";
+  if (BPMN_TASK_ELEMENTS.has(localName)) return "action";
+  return null;
+}
+
+function defaultBpmnStepName(localName: string): string {
+  switch (localName) {
+    case "startEvent":
+      return "Start";
+    case "endEvent":
+      return "End";
+    case "parallelGateway":
+      return "Parallel Split";
+    default:
+      return BPMN_GATEWAY_ELEMENTS.has(localName) ? "Decision" : "Untitled Step";
+  }
+}
+
+/**
+ * Assign each flow node to its innermost lane, walking nested child lane sets.
+ */
+function collectBpmnLaneRefs(laneSet: Element, laneByNode: Map<string, string>) {
+  bpmnChildren(laneSet, "lane").forEach((lane) => {
+    const laneName = cleanBpmnText(lane.getAttribute("name")) || lane.getAttribute("id") || "Lane";
+    bpmnChildren(lane, "flowNodeRef").forEach((ref) => {
+      const nodeId = cleanBpmnText(ref.textContent);
+      if (nodeId) laneByNode.set(nodeId, laneName);
+    });
+    bpmnChildren(lane, "childLaneSet").forEach((child) =>
+      collectBpmnLaneRefs(child, laneByNode)
+    );
+  });
+}
+
+/**
+ * Parser for BPMN 2.0 XML exported by Camunda, Signavio, Bizagi and other modelers.
+ * Pools and lanes become swimlanes, tasks become actions, gateways become decisions,
+ * call activities and sub-processes become subprocess steps, and sequence flows
+ * (with their names or condition expressions as labels) become connections.
+ * Unsupported elements are skipped with a warning and flows through them are bridged.
+ */
+export function parseBPMN(
+  xmlContent: string,
+  workflowName?: string
+): ImportValidationResult {
+  const errors: ImportError[] = [];
+  const warnings: ImportWarning[] = [];
+
+  let doc: Document;
+  try {
+    doc = new DOMParser().parseFromString(xmlContent, "application/xml");
+  } catch (e) {
+    errors.push({
+      type: "error",
+      message: `Invalid XML: ${e instanceof Error ? e.message : "Unknown error"}`,
+    });
+    return { valid: false, errors, warnings };
+  }
+
+  const parserError = bpmnDescendants(doc, "parsererror")[0];
+  if (parserError) {
+    errors.push({
+      type: "error",
+      message: `Invalid XML: ${cleanBpmnText(parserError.textContent).slice(0, 200)}`,
+    });
+    return { valid: false, errors, warnings };
+  }
+
+  const root = doc.documentElement;
+  if (!root || root.localName !== "definitions") {
+    errors.push({
+      type: "error",
+      message: "Not a BPMN 2.0 document: expected a <definitions> root element",
+    });
+    return { valid: false, errors, warnings };
+  }
+
+  const processes = bpmnChildren(root, "process");
+  if (processes.length === 0) {
+    errors.push({
+      type: "error",
+      message: "BPMN document does not contain a <process> element",
+    });
+    return { valid: false, errors, warnings };
+  }
+
+  // Pools: participant names keyed by the process they reference
+  const poolNameByProcess = new Map<string, string>();
+  bpmnDescendants(root, "participant").forEach((participant) => {
+    const processRef = participant.getAttribute("processRef");
+    const name = cleanBpmnText(participant.getAttribute("name"));
+    if (processRef && name) poolNameByProcess.set(processRef, name);
+  });
+
+  if (bpmnDescendants(root, "messageFlow").length > 0) {
+    warnings.push({
+      type: "warning",
+      message: "Message flows between pools are not supported and were skipped",
+    });
+  }
+
+  // Diagram interchange bounds, used to order steps left-to-right
+  const boundsByElement = new Map<string, { x: number; y: number }>();
+  bpmnDescendants(root, "BPMNShape").forEach((shape) => {
+    const elementId = shape.getAttribute("bpmnElement");
+    const bounds = bpmnChildren(shape, "Bounds")[0];
+    if (!elementId || !bounds) return;
+    boundsByElement.set(elementId, {
+      x: parseFloat(bounds.getAttribute("x") || "0"),
+      y: parseFloat(bounds.getAttribute("y") || "0"),
+    });
+  });
+
+  const steps: ImportStep[] = [];
+  const stepIds = new Set<string>();
+  const rawFlows: Array<{ from: string; to: string; label?: string }> = [];
+  // Unsupported flow nodes we bridge across so the graph stays connected
+  const bridgedNodes = new Set<string>();
+  const unsupportedCounts = new Map<string, number>();
+  let documentOrder = 0;
+
+  const addUnsupported = (localName: string) => {
+    unsupportedCounts.set(localName, (unsupportedCounts.get(localName) || 0) + 1);
+  };
+
+  processes.forEach((processEl) => {
+    const processId = processEl.getAttribute("id") || "";
+    const defaultLane =
+      poolNameByProcess.get(processId) ||
+      cleanBpmnText(processEl.getAttribute("name")) ||
+      "Process";
+
+    const laneByNode = new Map<string, string>();
+    bpmnChildren(processEl, "laneSet").forEach((laneSet) =>
+      collectBpmnLaneRefs(laneSet, laneByNode)
+    );
+
+    bpmnChildren(processEl).forEach((el) => {
+      const localName = el.localName;
+      const elementId = el.getAttribute("id");
+
+      if (localName === "sequenceFlow") {
+        const from = el.getAttribute("sourceRef");
+        const to = el.getAttribute("targetRef");
+        if (!from || !to) return;
+        const condition = bpmnChildren(el, "conditionExpression")[0];
+        const label =
+          cleanBpmnText(el.getAttribute("name")) ||
+          cleanBpmnText(condition?.textContent) ||
+          undefined;
+        rawFlows.push({ from, to, label });
+        return;
+      }
+
+      if (BPMN_IGNORED_ELEMENTS.has(localName) || !elementId) return;
+
+      const stepType = mapBpmnStepType(localName);
+      if (!stepType) {
+        // Boundary events hang off activities rather than sitting in the flow
+        if (localName !== "boundaryEvent") bridgedNodes.add(elementId);
+        addUnsupported(localName);
+        return;
+      }
+
+      let name =
+        cleanBpmnText(el.getAttribute("name")) || defaultBpmnStepName(localName);
+      if (name.length > MAX_STEP_NAME_LENGTH) {
+        warnings.push({
+          type: "warning",
+          field: "steps",
+          message: `Step name "${name.slice(0, 30)}..." was truncated to ${MAX_STEP_NAME_LENGTH} characters`,
+        });
+        name = name.slice(0, MAX_STEP_NAME_LENGTH);
+      }
+
+      let lane = laneByNode.get(elementId) || defaultLane;
+      if (lane.length > MAX_LANE_NAME_LENGTH) {
+        lane = lane.slice(0, MAX_LANE_NAME_LENGTH);
+      }
+
+      const documentation = bpmnChildren(el, "documentation")[0];
+      const description = cleanBpmnText(documentation?.textContent) || undefined;
+
+      if (localName === "subProcess" && bpmnChildren(el).some((c) => mapBpmnStepType(c.localName))) {
+        warnings.push({
+          type: "warning",
+          field: "steps",
+          message: `Embedded sub-process "${name}" was imported as a single subprocess step; its inner steps were skipped`,
+        });
+      }
+
+      if (localName === "inclusiveGateway" || localName === "eventBasedGateway" || localName === "complexGateway") {
+        warnings.push({
+          type: "warning",
+          field: "steps",
+          message: `${localName} "${name}" was imported as a decision step`,
+        });
+      }
+
+      stepIds.add(elementId);
+      steps.push({
+        id: elementId,
+        name,
+        lane,
+        type: stepType,
+        description,
+        order: documentOrder++,
+      });
+    });
+  });
+
+  unsupportedCounts.forEach((count, localName) => {
+    warnings.push({
+      type: "warning",
+      field: "steps",
+      message: `Skipped ${count} unsupported <${localName}> element${count === 1 ? "" : "s"}`,
+    });
+  });
+
+  if (steps.length === 0) {
+    errors.push({
+      type: "error",
+      message: "No supported BPMN flow elements (tasks, gateways, events) found",
+    });
+    return { valid: false, errors, warnings };
+  }
+
+  // Order steps by diagram position where available, otherwise by document order
+  const positioned = steps.filter((s) => boundsByElement.has(s.id));
+  if (positioned.length === steps.length) {
+    const sorted = [...steps].sort((a, b) => {
+      const pa = boundsByElement.get(a.id)!;
+      const pb = boundsByElement.get(b.id)!;
+      return pa.x - pb.x || pa.y - pb.y;
+    });
+    sorted.forEach((step, idx) => {
+      step.order = idx + 1;
+    });
+  } else {
+    steps.forEach((step, idx) => {
+      step.order = idx + 1;
+    });
+  }
+
+  // Resolve flows, bridging across skipped nodes (e.g. intermediate events)
+  const outgoing = new Map<string, Array<{ to: string; label?: string }>>();
+  rawFlows.forEach((flow) => {
+    const list = outgoing.get(flow.from) || [];
+    list.push({ to: flow.to, label: flow.label });
+    outgoing.set(flow.from, list);
+  });
+
+  const resolveTargets = (
+    nodeId: string,
+    label: string | undefined,
+    visited: Set<string>
+  ): Array<{ to: string; label?: string }> => {
+    if (stepIds.has(nodeId)) return [{ to: nodeId, label }];
+    if (!bridgedNodes.has(nodeId) || visited.has(nodeId)) return [];
+    visited.add(nodeId);
+    return (outgoing.get(nodeId) || []).flatMap((next) =>
+      resolveTargets(next.to, label || next.label, visited)
+    );
+  };
+
+  const connections: ImportConnection[] = [];
+  const seenConnections = new Set<string>();
+  let droppedFlows = 0;
+
+  rawFlows.forEach((flow) => {
+    if (!stepIds.has(flow.from)) {
+      if (!bridgedNodes.has(flow.from)) droppedFlows++;
+      return;
+    }
+    const targets = resolveTargets(flow.to, flow.label, new Set());
+    if (targets.length === 0) {
+      droppedFlows++;
+      return;
+    }
+    targets.forEach((target) => {
+      const key = `${flow.from}->${target.to}`;
+      if (seenConnections.has(key)) return;
+      seenConnections.add(key);
+      connections.push({ from: flow.from, to: target.to, label: target.label });
+    });
+  });
+
+  if (droppedFlows > 0) {
+    warnings.push({
+      type: "warning",
+      field: "connections",
+      message: `Skipped ${droppedFlows} sequence flow${droppedFlows === 1 ? "" : "s"} that reference unsupported elements`,
+    });
+  }
+
+  const lanes = Array.from(new Set(steps.map((s) => s.lane)));
+  const processName =
+    workflowName ||
+    Array.from(poolNameByProcess.values())[0] ||
+    cleanBpmnText(processes[0].getAttribute("name")) ||
+    "Imported BPMN Workflow";
+
+  const data: WorkflowImportData = {
+    name: processName.slice(0, 100),
+    description: `Imported from BPMN with ${steps.length} steps across ${lanes.length} swimlanes`,
+    lanes,
+    steps,
+    connections,
+  };
+
+  return { valid: true, data, errors: [], warnings };
+}
@@ -0,0 +1,218 @@
+import { getStartStepIds } from "./processTiming";
+import type { FutureStateEdge, FutureStateNode, ProcessStep } from "@/types";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type LintSeverity = "error" | "warning" | "info";
+
+export type LintRuleId =
+  | "no-entry-point"
+  | "no-start-step"
+  | "no-end-step"
+  | "orphan-step"
+  | "unreachable-step"
+  | "dead-end-step"
+  | "decision-single-path"
+  | "end-step-outgoing";
+
+export interface LintModel {
+  steps: Pick<ProcessStep, "id" | "step_name" | "step_type">[];
+  connections: { source_step_id: string; target_step_id: string }[];
+}
+
+export interface LintDiagnostic {
+  ruleId: LintRuleId;
+  severity: LintSeverity;
+  /** Step the diagnostic is about; null for workflow-level findings */
+  stepId: string | null;
+  message: string;
+  suggestedFix: string;
+}
+
+export interface LintResult {
+  diagnostics: LintDiagnostic[];
+  /** Step-level diagnostics keyed by step id, for node badges */
+  byStep: Record<string, LintDiagnostic[]>;
+  errorCount: number;
+  warningCount: number;
+  infoCount: number;
+}
+
+// ============================================
+// RULES
+// ============================================
+
+export const LINT_RULES: Record<LintRuleId, { title: string; severity: LintSeverity }> = {
+  "no-entry-point": { title: "No entry point", severity: "error" },
+  "orphan-step": { title: "Orphan step", severity: "error" },
+  "unreachable-step": { title: "Unreachable step", severity: "error" },
+  "end-step-outgoing": { title: "End step continues", severity: "error" },
+  "decision-single-path": { title: "Decision with one path", severity: "warning" },
+  "dead-end-step": { title: "Dead end", severity: "warning" },
+  "no-start-step": { title: "No Start step", severity: "warning" },
+  "no-end-step": { title: "No End step", severity: "info" },
+};
+
+const SEVERITY_ORDER: Record<LintSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+// ============================================
+// LINTING
+// ============================================
+
+/**
+ * Check a workflow's structure: every step should be connected, reachable from
+ * where the process begins, and lead somewhere unless it ends the process.
+ */
+export function lintWorkflow(model: LintModel): LintResult {
+  const diagnostics: LintDiagnostic[] = [];
+  const add = (ruleId: LintRuleId, stepId: string | null, message: string, suggestedFix: string) =>
+    diagnostics.push({ ruleId, severity: LINT_RULES[ruleId].severity, stepId, message, suggestedFix });
+
+  const stepIds = new Set(model.steps.map((s) => s.id));
+  const connections = model.connections.filter(
+    (c) => stepIds.has(c.source_step_id) && stepIds.has(c.target_step_id)
+  );
+
+  const outgoing = new Map<string, string[]>();
+  const incoming = new Map<string, number>();
+  for (const c of connections) {
+    outgoing.set(c.source_step_id, [...(outgoing.get(c.source_step_id) || []), c.target_step_id]);
+    incoming.set(c.target_step_id, (incoming.get(c.target_step_id) || 0) + 1);
+  }
+
+  if (model.steps.length > 0) {
+    const typedStarts = model.steps.filter((s) => s.step_type === "start");
+    const roots = model.steps.filter((s) => !incoming.has(s.id) && outgoing.has(s.id));
+    const hasEntryPoint = typedStarts.length > 0 || roots.length > 0 || connections.length === 0;
+
+    if (!hasEntryPoint) {
+      add(
+        "no-entry-point",
+        null,
+        "Every step has an incoming connection, so there is nowhere for the process to begin.",
+        "Add a Start step and connect it to the first step."
+      );
+    } else if (typedStarts.length === 0) {
+      const first = roots[0] ?? model.steps[0];
+      add(
+        "no-start-step",
+        null,
+        "No step is marked as Start; the beginning of the process is inferred.",
+        `Change "${first.step_name}" to a Start step, or add a Start step before it.`
+      );
+    }
+
+    if (!model.steps.some((s) => s.step_type === "end")) {
+      add(
+        "no-end-step",
+        null,
+        "No step is marked as End.",
+        "Mark the final step as an End step so the outcome is explicit."
+      );
+    }
+
+    // Orphans are reported once, not again as unreachable or dead ends
+    const orphanIds = new Set<string>();
+    if (model.steps.length > 1) {
+      for (const step of model.steps) {
+        if (!incoming.has(step.id) && !outgoing.has(step.id)) {
+          orphanIds.add(step.id);
+          add(
+            "orphan-step",
+            step.id,
+            `"${step.step_name}" is not connected to any other step.`,
+            "Connect it into the flow, or delete it if it is no longer part of the process."
+          );
+        }
+      }
+    }
+
+    if (hasEntryPoint) {
+      const reached = new Set<string>();
+      const queue = getStartStepIds({ steps: model.steps, connections }).filter((id) => !orphanIds.has(id));
+      while (queue.length > 0) {
+        const id = queue.shift()!;
+        if (reached.has(id)) continue;
+        reached.add(id);
+        queue.push(...(outgoing.get(id) || []));
+      }
+
+      for (const step of model.steps) {
+        if (orphanIds.has(step.id) || reached.has(step.id)) continue;
+        add(
+          "unreachable-step",
+          step.id,
+          `"${step.step_name}" cannot be reached from the start of the process.`,
+          "Connect it from an upstream step, or change it to a Start step if the process can begin here."
+        );
+      }
+    }
+
+    for (const step of model.steps) {
+      if (orphanIds.has(step.id)) continue;
+      const targets = new Set(outgoing.get(step.id) || []);
+
+      if (step.step_type === "end") {
+        if (targets.size > 0) {
+          add(
+            "end-step-outgoing",
+            step.id,
+            `End step "${step.step_name}" has ${targets.size} outgoing connection${targets.size === 1 ? "" : "s"}.`,
+            "Remove the outgoing connections, or change the step type if the process continues."
+          );
+        }
+      } else if (targets.size === 0) {
+        add(
+          "dead-end-step",
+          step.id,
+          `"${step.step_name}" has no outgoing connection and is not an End step.`,
+          "Connect it to the next step, or change it to an End step."
+        );
+      } else if (step.step_type === "decision" && targets.size === 1) {
+        add(
+          "decision-single-path",
+          step.id,
+          `Decision "${step.step_name}" has only one outgoing path.`,
+          "Add a connection for the other outcome, or change it to an action step."
+        );
+      }
+    }
+  }
+
+  diagnostics.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+
+  const byStep: Record<string, LintDiagnostic[]> = {};
+  for (const diagnostic of diagnostics) {
+    if (!diagnostic.stepId) continue;
+    (byStep[diagnostic.stepId] ||= []).push(diagnostic);
+  }
+
+  return {
+    diagnostics,
+    byStep,
+    errorCount: diagnostics.filter((d) => d.severity === "error").length,
+    warningCount: diagnostics.filter((d) => d.severity === "warning").length,
+    infoCount: diagnostics.filter((d) => d.severity === "info").length,
+  };
+}
+
+/**
+ * Lint a future state design. Removed nodes and the edges that touch them are
+ * left out, so the findings describe the redesigned flow.
+ */
+export function lintFutureState(
+  nodes: Pick<FutureStateNode, "id" | "name" | "step_type" | "action">[],
+  edges: Pick<FutureStateEdge, "source_node_id" | "target_node_id">[]
+): LintResult {
+  const kept = nodes.filter((n) => n.action !== "remove");
+  const keptIds = new Set(kept.map((n) => n.id));
+
+  return lintWorkflow({
+    steps: kept.map((n) => ({ id: n.id, step_name: n.name, step_type: n.step_type })),
+    connections: edges
+      .filter((e) => keptIds.has(e.source_node_id) && keptIds.has(e.target_node_id))
+      .map((e) => ({ source_step_id: e.source_node_id, target_step_id: e.target_node_id })),
+  });
+}
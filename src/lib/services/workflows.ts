@@ -9,6 +9,7 @@ export interface StepConnection {
   source_step_id: string;
   target_step_id: string;
   label?: string;
+  branch_probability?: number | null;
 }
 
 // ============================================
@@ -39,6 +40,7 @@ export async function getProcessById(id: string) {
 export async function createProcess(process: {
   name: string;
   description?: string;
+  department?: string;
   org_id?: string;
 }) {
   const { data: { user } } = await supabase.auth.getUser();
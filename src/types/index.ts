@@ -17,10 +17,48 @@ export type WasteNature = "digital" | "physical" | "both";
 export interface Organization {
   id: string;
   name: string;
+  currency?: string;
+  default_hourly_rate?: number | null;
   created_at: string;
   updated_at: string;
 }
 
+// Loaded hourly labor rate for a swimlane or stakeholder role
+export type LaborRateType = "lane" | "role";
+
+export interface LaborRate {
+  id: string;
+  org_id: string;
+  rate_type: LaborRateType;
+  name: string;
+  hourly_rate: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Dimension observers score in an org's scoring model
+export interface ScoringDimension {
+  key: string;
+  label: string;
+  description?: string;
+  min: number;
+  max: number;
+  weight: number;
+}
+
+// Versioned prioritization model; the latest version is the org's active one
+export interface ScoringModel {
+  id: string;
+  org_id: string;
+  version: number;
+  name: string;
+  dimensions: ScoringDimension[];
+  /** Arithmetic over dimension keys; blank means the weighted sum */
+  formula?: string | null;
+  created_by?: string | null;
+  created_at: string;
+}
+
 // User
 export interface User {
   id: string;
@@ -42,6 +80,8 @@ export interface Process {
   org_id: string;
   name: string;
   description?: string;
+  // Department or business unit, for the portfolio roll-up
+  department?: string | null;
   created_by: string;
   created_at: string;
   updated_at: string;
@@ -61,6 +101,7 @@ export interface ProcessLane {
   order_index: number;
   bg_color?: string | null;
   border_color?: string | null;
+  capacity?: number;
   created_at: string;
   updated_at: string;
 }
@@ -78,6 +119,8 @@ export interface ProcessStep {
   cycle_time_minutes?: number;
   position_x?: number;
   position_y?: number;
+  // Workflow a "subprocess" step drills down into
+  subprocess_process_id?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -105,6 +148,12 @@ export interface Session {
   status: SessionStatus;
   started_at?: string;
   ended_at?: string;
+  // Walk the steps of linked subprocess workflows too
+  include_subprocesses?: boolean;
+  // Scoring model version its priority scores were computed with
+  scoring_model_id?: string | null;
+  // Observer names are hidden from everyone but admins
+  anonymous_observations?: boolean;
   created_at: string;
   updated_at: string;
 }
@@ -118,19 +167,116 @@ export interface SessionParticipant {
   last_active_at: string;
 }
 
+// Dot-voting round run by the facilitator
+export type VotingRoundStatus = "open" | "closed";
+
+export interface VotingRound {
+  id: string;
+  session_id: string;
+  status: VotingRoundStatus;
+  votes_per_participant: number;
+  opened_by?: string | null;
+  opened_at: string;
+  closed_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Timed agenda phase of a session; lanes null means every lane
+export interface SessionPhase {
+  id: string;
+  session_id: string;
+  position: number;
+  name: string;
+  planned_minutes: number;
+  tagging_enabled: boolean;
+  lanes: string[] | null;
+  /** Latest run; a phase can be restarted */
+  started_at: string | null;
+  ended_at: string | null;
+  /** Seconds spent over every run that has ended */
+  elapsed_seconds: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Expiring link that lets someone without an account join one session
+export interface SessionGuestLink {
+  id: string;
+  session_id: string;
+  token: string;
+  label?: string | null;
+  expires_at: string;
+  revoked_at?: string | null;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Person who joined a session through a guest link
+export interface SessionGuest {
+  id: string;
+  session_id: string;
+  link_id: string;
+  display_name: string | null;
+  created_at: string;
+}
+
+// One vote (dot) on an observation or a step
+export interface SessionVote {
+  id: string;
+  round_id: string;
+  session_id: string;
+  user_id: string;
+  observation_id: string | null;
+  step_id: string | null;
+  created_at: string;
+}
+
+// Calibration of diverging scores for one step and waste type
+export type ScoreCalibrationStatus = "discussion" | "resolved";
+
+export interface ScoreCalibration {
+  id: string;
+  session_id: string;
+  step_id: string;
+  waste_type_id: string;
+  status: ScoreCalibrationStatus;
+  /** Agreed score per dimension key of the session's scoring model */
+  consensus_scores?: Record<string, number> | null;
+  notes?: string | null;
+  requested_by?: string | null;
+  resolved_by?: string | null;
+  resolved_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 // Observation
 export interface Observation {
   id: string;
   session_id: string;
-  step_id: string;
-  user_id: string;
+  /** Exactly one of step_id, connection_id and flow_id is set */
+  step_id: string | null;
+  /** Handoff between two steps (step_connections) */
+  connection_id?: string | null;
+  /** Information flow between two steps */
+  flow_id?: string | null;
+  /** Null for observations from guests */
+  user_id: string | null;
+  /** Guest who recorded the observation through a join link */
+  guest_id?: string | null;
   notes?: string;
   is_digital: boolean;
   is_physical: boolean;
   frequency_score: number;
   impact_score: number;
   ease_score: number;
+  /** Score per scoring model dimension key */
+  scores?: Record<string, number>;
   priority_score: number;
+  /** Average minutes lost per transaction through the step */
+  time_lost_minutes?: number | null;
   attachments?: string[];
   created_at: string;
   updated_at: string;
@@ -257,6 +403,7 @@ export interface CreateSessionInput {
 export interface CreateProcessInput {
   name: string;
   description?: string;
+  department?: string;
 }
 
 export interface CreateProcessStepInput {
@@ -319,6 +466,7 @@ export type AgentRunStatus = "queued" | "running" | "succeeded" | "failed";
 export type StepDesignStatus = "strategy_only" | "needs_step_design" | "step_design_complete";
 export type StepDesignVersionStatus = "draft" | "accepted" | "archived";
 export type ImplementationItemType = "solution" | "step_design_option";
+export type ImplementationItemStatus = "not_started" | "in_progress" | "done" | "abandoned";
 
 // Insight Theme (Synthesis)
 export interface InsightTheme {
@@ -424,6 +572,8 @@ export interface ImplementationWave {
   order_index: number;
   start_estimate?: string;
   end_estimate?: string;
+  // Set when the wave's work is done; marks trend charts
+  completed_at?: string | null;
   created_by?: string;
   created_at: string;
   updated_at: string;
@@ -458,6 +608,7 @@ export interface FutureState {
   name: string;
   version: number;
   status: FutureStateStatus;
+  published_at?: string | null;
   created_by?: string;
   created_at: string;
   updated_at: string;
@@ -495,6 +646,7 @@ export interface FutureStateEdge {
   source_node_id: string;
   target_node_id: string;
   label?: string;
+  branch_probability?: number | null;
   order_index: number;
   created_at: string;
   updated_at: string;
@@ -915,6 +1067,8 @@ export interface ImplementationItem {
   type: ImplementationItemType;
   solution_id?: string;
   step_design_option_id?: string;
+  status: ImplementationItemStatus;
+  status_updated_at?: string | null;
   created_by?: string;
   created_at: string;
 }
@@ -934,6 +1088,36 @@ export interface ImplementationDependency {
   created_at: string;
 }
 
+// KPI an accepted solution should move, tracked after implementation
+export interface SolutionKpi {
+  id: string;
+  solution_id: string;
+  /** Workflow metric the KPI tracks, if any */
+  metric_id?: string | null;
+  name: string;
+  unit?: string | null;
+  baseline_value: number;
+  target_value: number;
+  /** Expected annual benefit once the target is reached, in the org currency */
+  annual_value?: number | null;
+  measure_every_days: number;
+  reminded_at?: string | null;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SolutionKpiMeasurement {
+  id: string;
+  kpi_id: string;
+  /** Date only, YYYY-MM-DD */
+  measured_on: string;
+  value: number;
+  notes?: string | null;
+  recorded_by?: string | null;
+  created_at: string;
+}
+
 // Extended Implementation Item with relations
 export interface ImplementationItemWithRelations extends ImplementationItem {
   solution?: SolutionCard;
@@ -1014,6 +1198,9 @@ export interface StepDesignAgentOutput {
 // WORKFLOW CONTEXT TYPES
 // ============================================
 
+// Period that a workflow's transaction volume is counted over
+export type VolumePeriod = "day" | "week" | "month" | "year";
+
 // Workflow Context (structured overview for AI agents)
 export interface WorkflowContext {
   id: string;
@@ -1025,6 +1212,8 @@ export interface WorkflowContext {
   end_outcomes: string[];
   // Operational context
   volume_frequency?: string;
+  volume_count?: number | null;
+  volume_period?: VolumePeriod | null;
   sla_targets?: string;
   compliance_requirements: string[];
   // Pain points
@@ -1108,6 +1297,8 @@ export interface UpsertWorkflowContextInput {
   trigger_events?: string[];
   end_outcomes?: string[];
   volume_frequency?: string;
+  volume_count?: number | null;
+  volume_period?: VolumePeriod | null;
   sla_targets?: string;
   compliance_requirements?: string[];
   known_pain_points?: string[];
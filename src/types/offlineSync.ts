@@ -0,0 +1,123 @@
+/**
+ * Offline Sync Types
+ *
+ * The offline mutation log kept on the device during a session, and the
+ * results the sync endpoint returns when the log is replayed.
+ */
+
+// ============================================
+// MUTATION LOG
+// ============================================
+
+export type OfflineMutationOp = "create" | "update" | "delete";
+
+/** Every editable field of an observation, as captured on the device */
+export interface ObservationFields {
+  /** One of step_id, connection_id and flow_id is set */
+  step_id: string | null;
+  connection_id?: string | null;
+  flow_id?: string | null;
+  notes?: string;
+  is_digital: boolean;
+  is_physical: boolean;
+  frequency_score: number;
+  impact_score: number;
+  ease_score: number;
+  /** Score per scoring model dimension key; frequency/impact/ease mirror it */
+  scores?: Record<string, number>;
+  time_lost_minutes: number | null;
+  waste_type_ids: string[];
+}
+
+export type ObservationField = keyof ObservationFields;
+
+export interface OfflineMutation {
+  /** Client-generated id; replaying the same mutation twice applies it once */
+  id: string;
+  entity: "observation";
+  /** The observation id; generated on the device for creates */
+  entity_id: string;
+  session_id: string;
+  op: OfflineMutationOp;
+  /** Field values after the change (create and update) */
+  data?: ObservationFields;
+  /** Field values the change was made from (update), to tell whose fields changed */
+  base?: ObservationFields;
+  /** Server updated_at the change was made against; null skips the conflict check */
+  base_updated_at: string | null;
+  created_at: string;
+  /** Set once the server has reported a conflict, until the user resolves it */
+  conflict?: MutationConflict;
+}
+
+// ============================================
+// SYNC RESULTS
+// ============================================
+
+/**
+ * applied / duplicate: done, drop from the log. conflict: wait for the user.
+ * rejected: can never apply, drop. failed: unexpected error, retry later.
+ */
+export type MutationStatus = "applied" | "duplicate" | "conflict" | "rejected" | "failed";
+
+export interface MutationConflict {
+  /** Current server values; null when the observation was deleted on the server */
+  server: ObservationFields | null;
+  server_updated_at: string | null;
+  /** Fields changed both on the device and on the server, to different values */
+  fields: ObservationField[];
+}
+
+export interface MutationResult {
+  mutation_id: string;
+  status: MutationStatus;
+  /** The observation's updated_at after the mutation applied */
+  updated_at?: string;
+  conflict?: MutationConflict;
+  error?: string;
+}
+
+/** How the user settled one conflicting field */
+export type FieldResolution = "mine" | "theirs" | "merge";
+
+// ============================================
+// ATTACHMENTS
+// ============================================
+
+export type AttachmentKind = "photo" | "video" | "voice_memo" | "document";
+
+/** Evidence captured on the device, waiting to upload to observation storage */
+export interface OfflineAttachment {
+  id: string;
+  observation_id: string;
+  session_id: string;
+  kind: AttachmentKind;
+  name: string;
+  mime_type: string;
+  size: number;
+  /** The file itself, already compressed for photos */
+  blob: Blob;
+  /** Object path in the observation-attachments bucket */
+  storage_path: string;
+  /** Resumable upload URL, once the server has accepted the upload */
+  upload_url: string | null;
+  /** Bytes the server has confirmed; an interrupted upload resumes here */
+  uploaded_bytes: number;
+  attempts: number;
+  error?: string;
+  created_at: string;
+}
+
+export type AttachmentUploadStatus = "queued" | "uploading" | "failed";
+
+/** Live state of one file, for the pending-sync indicator */
+export interface AttachmentProgress {
+  id: string;
+  observation_id: string;
+  session_id: string;
+  name: string;
+  kind: AttachmentKind;
+  size: number;
+  uploaded_bytes: number;
+  status: AttachmentUploadStatus;
+}
@@ -0,0 +1,22 @@
+-- ============================================
+-- BRANCH PROBABILITIES - Database Migration
+-- ============================================
+-- Adds an optional branch probability to connections so timing analysis can
+-- weight decision branches:
+-- - Current state: step_connections
+-- - Future state: future_state_edges
+-- Values are fractions (0-1). NULL means "share the remainder evenly" with the
+-- other unset branches leaving the same step.
+
+ALTER TABLE step_connections
+    ADD COLUMN branch_probability NUMERIC(5, 4)
+    CHECK (branch_probability IS NULL OR (branch_probability >= 0 AND branch_probability <= 1));
+
+ALTER TABLE future_state_edges
+    ADD COLUMN branch_probability NUMERIC(5, 4)
+    CHECK (branch_probability IS NULL OR (branch_probability >= 0 AND branch_probability <= 1));
+
+COMMENT ON COLUMN step_connections.branch_probability IS
+    'Share of cases that take this connection when leaving the source step (0-1)';
+COMMENT ON COLUMN future_state_edges.branch_probability IS
+    'Share of cases that take this edge when leaving the source node (0-1)';
@@ -0,0 +1,12 @@
+-- ============================================
+-- LANE CAPACITY - Database Migration
+-- ============================================
+-- Adds the number of people working each swimlane so throughput simulation
+-- can model queues when a lane is busy.
+
+ALTER TABLE process_lanes
+    ADD COLUMN capacity INTEGER NOT NULL DEFAULT 1
+    CHECK (capacity > 0);
+
+COMMENT ON COLUMN process_lanes.capacity IS
+    'Number of people available to work steps in this lane at the same time';
@@ -0,0 +1,80 @@
+-- ============================================
+-- WASTE COST MODEL - Database Migration
+-- ============================================
+-- Adds what is needed to put a money figure on waste:
+-- - Organization currency and default loaded hourly rate
+-- - Hourly rates per swimlane or stakeholder role
+-- - Structured transaction volume on workflow context
+-- - Time lost per transaction on each observation
+
+-- ============================================
+-- 1) ORGANIZATION COST SETTINGS
+-- ============================================
+
+ALTER TABLE organizations
+    ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD',
+    ADD COLUMN default_hourly_rate NUMERIC(10,2)
+    CHECK (default_hourly_rate IS NULL OR default_hourly_rate >= 0);
+
+COMMENT ON COLUMN organizations.currency IS
+    'ISO 4217 currency code used for cost of waste figures';
+COMMENT ON COLUMN organizations.default_hourly_rate IS
+    'Loaded hourly labor rate used when no lane or role rate matches';
+
+-- Admins maintain their own organization's settings
+CREATE POLICY "Admins can update own org" ON organizations
+    FOR UPDATE USING (id = get_user_org_id() AND get_user_role() = 'admin');
+
+-- ============================================
+-- 2) LABOR RATES (per lane or role)
+-- ============================================
+
+CREATE TABLE org_labor_rates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    rate_type TEXT NOT NULL DEFAULT 'lane' CHECK (rate_type IN ('lane', 'role')),
+    -- Matched case-insensitively against swimlane names
+    name TEXT NOT NULL,
+    hourly_rate NUMERIC(10,2) NOT NULL CHECK (hourly_rate >= 0),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(org_id, rate_type, name)
+);
+
+CREATE INDEX idx_org_labor_rates_org ON org_labor_rates(org_id);
+
+ALTER TABLE org_labor_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own org labor rates" ON org_labor_rates
+    FOR SELECT USING (org_id = get_user_org_id());
+
+CREATE POLICY "Admins can manage own org labor rates" ON org_labor_rates
+    FOR ALL USING (org_id = get_user_org_id() AND get_user_role() = 'admin');
+
+CREATE TRIGGER update_org_labor_rates_updated_at
+    BEFORE UPDATE ON org_labor_rates
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ============================================
+-- 3) TRANSACTION VOLUME
+-- ============================================
+-- volume_frequency stays as the free-text description; these columns carry
+-- the number used for annualized figures.
+
+ALTER TABLE workflow_contexts
+    ADD COLUMN volume_count NUMERIC(12,2) CHECK (volume_count IS NULL OR volume_count >= 0),
+    ADD COLUMN volume_period TEXT CHECK (volume_period IN ('day', 'week', 'month', 'year'));
+
+COMMENT ON COLUMN workflow_contexts.volume_count IS
+    'Transactions handled per volume_period';
+
+-- ============================================
+-- 4) TIME LOST PER OBSERVATION
+-- ============================================
+
+ALTER TABLE observations
+    ADD COLUMN time_lost_minutes NUMERIC(8,2)
+    CHECK (time_lost_minutes IS NULL OR time_lost_minutes >= 0);
+
+COMMENT ON COLUMN observations.time_lost_minutes IS
+    'Average minutes lost to this waste per transaction through the step';
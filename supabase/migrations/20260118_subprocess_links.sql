@@ -0,0 +1,334 @@
+-- ============================================
+-- SUBPROCESS LINKS - Database Migration
+-- ============================================
+-- Lets a "subprocess" step point at another workflow in the same org:
+-- - process_steps.subprocess_process_id, cleared when the child is deleted
+-- - Guard against cross-org links and cycles (A -> B -> A)
+-- - Sessions can opt in to walking the linked child workflows too
+-- - copy_workflow keeps the links (and branch probabilities) on copied steps
+
+-- ============================================
+-- 1) STEP -> CHILD WORKFLOW LINK
+-- ============================================
+
+ALTER TABLE process_steps
+    ADD COLUMN subprocess_process_id UUID REFERENCES processes(id) ON DELETE SET NULL,
+    ADD CONSTRAINT process_steps_subprocess_not_self
+        CHECK (subprocess_process_id IS NULL OR subprocess_process_id <> process_id);
+
+COMMENT ON COLUMN process_steps.subprocess_process_id IS
+    'Workflow this subprocess step drills down into; NULL when unlinked';
+
+CREATE INDEX idx_process_steps_subprocess ON process_steps(subprocess_process_id)
+    WHERE subprocess_process_id IS NOT NULL;
+
+-- ============================================
+-- 2) LINK VALIDATION
+-- ============================================
+
+CREATE OR REPLACE FUNCTION check_subprocess_link()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.subprocess_process_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.step_type <> 'subprocess' THEN
+        RAISE EXCEPTION 'Only subprocess steps can link to another workflow';
+    END IF;
+
+    IF (SELECT org_id FROM processes WHERE id = NEW.subprocess_process_id)
+        IS DISTINCT FROM (SELECT org_id FROM processes WHERE id = NEW.process_id) THEN
+        RAISE EXCEPTION 'Subprocess workflow must belong to the same organization';
+    END IF;
+
+    -- Walk down from the child; reaching the parent again would be a cycle
+    IF EXISTS (
+        WITH RECURSIVE descendants(process_id) AS (
+            SELECT NEW.subprocess_process_id
+            UNION
+            SELECT ps.subprocess_process_id
+            FROM process_steps ps
+            JOIN descendants d ON ps.process_id = d.process_id
+            WHERE ps.subprocess_process_id IS NOT NULL
+        )
+        SELECT 1 FROM descendants WHERE process_id = NEW.process_id
+    ) THEN
+        RAISE EXCEPTION 'Linking this workflow would create a subprocess cycle';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_process_steps_subprocess_link
+    BEFORE INSERT OR UPDATE OF subprocess_process_id, step_type ON process_steps
+    FOR EACH ROW EXECUTE FUNCTION check_subprocess_link();
+
+-- ============================================
+-- 3) SESSIONS INCLUDING CHILD STEPS
+-- ============================================
+
+ALTER TABLE sessions
+    ADD COLUMN include_subprocesses BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN sessions.include_subprocesses IS
+    'Walk the steps of linked subprocess workflows alongside the parent';
+
+-- ============================================
+-- 4) COPY_WORKFLOW KEEPS LINKS
+-- ============================================
+-- Same as 20241231_copy_workflow_feature.sql, plus subprocess_process_id,
+-- branch_probability and lane capacity. Copies point at the same child
+-- workflows; future state nodes inherit the link of the step they came from,
+-- and future state lanes the capacity of the source lane with the same name.
+
+CREATE OR REPLACE FUNCTION copy_workflow(
+    p_source_process_id UUID,
+    p_new_name TEXT,
+    p_source_type TEXT DEFAULT 'current',
+    p_future_state_id UUID DEFAULT NULL,
+    p_options JSONB DEFAULT '{}'::jsonb
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_new_process_id UUID;
+    v_user_id UUID := auth.uid();
+    v_source processes%ROWTYPE;
+    v_user_org_id UUID;
+    v_step_id_map JSONB := '{}'::jsonb;
+    v_new_step_id UUID;
+    v_step RECORD;
+    v_edge RECORD;
+    v_lane RECORD;
+    v_order_idx INTEGER := 0;
+    v_lane_color_map JSONB := '{
+        "blue": {"bg": "#dbeafe", "border": "#3b82f6"},
+        "emerald": {"bg": "#d1fae5", "border": "#10b981"},
+        "amber": {"bg": "#fef3c7", "border": "#f59e0b"},
+        "purple": {"bg": "#ede9fe", "border": "#8b5cf6"},
+        "rose": {"bg": "#ffe4e6", "border": "#f43f5e"},
+        "slate": {"bg": "#f1f5f9", "border": "#64748b"},
+        "cyan": {"bg": "#cffafe", "border": "#06b6d4"},
+        "orange": {"bg": "#fed7aa", "border": "#f97316"}
+    }'::jsonb;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT org_id INTO v_user_org_id FROM users WHERE id = v_user_id;
+
+    SELECT * INTO v_source FROM processes WHERE id = p_source_process_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Source workflow not found';
+    END IF;
+
+    IF v_source.org_id IS NOT NULL AND v_source.org_id != v_user_org_id THEN
+        RAISE EXCEPTION 'Permission denied';
+    END IF;
+
+    IF p_source_type NOT IN ('current', 'future_state') THEN
+        RAISE EXCEPTION 'Invalid source type: must be "current" or "future_state"';
+    END IF;
+
+    IF p_source_type = 'future_state' THEN
+        IF p_future_state_id IS NULL THEN
+            RAISE EXCEPTION 'future_state_id is required when source_type is "future_state"';
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM future_states WHERE id = p_future_state_id AND process_id = p_source_process_id) THEN
+            RAISE EXCEPTION 'Future state not found or does not belong to source workflow';
+        END IF;
+    END IF;
+
+    INSERT INTO processes(
+        id,
+        org_id,
+        name,
+        description,
+        created_by,
+        copied_from_process_id,
+        copied_from_future_state_id,
+        copy_source_type,
+        copied_by,
+        copied_at
+    )
+    VALUES (
+        gen_random_uuid(),
+        v_source.org_id,
+        p_new_name,
+        v_source.description,
+        v_user_id,
+        p_source_process_id,
+        CASE WHEN p_source_type = 'future_state' THEN p_future_state_id ELSE NULL END,
+        p_source_type,
+        v_user_id,
+        NOW()
+    )
+    RETURNING id INTO v_new_process_id;
+
+    IF p_source_type = 'current' THEN
+        FOR v_lane IN
+            SELECT * FROM process_lanes
+            WHERE process_id = p_source_process_id
+            ORDER BY order_index
+        LOOP
+            INSERT INTO process_lanes(process_id, name, order_index, bg_color, border_color, capacity)
+            VALUES (v_new_process_id, v_lane.name, v_lane.order_index, v_lane.bg_color, v_lane.border_color, v_lane.capacity);
+        END LOOP;
+
+        FOR v_step IN
+            SELECT * FROM process_steps
+            WHERE process_id = p_source_process_id
+            ORDER BY order_index
+        LOOP
+            v_new_step_id := gen_random_uuid();
+            v_step_id_map := v_step_id_map || jsonb_build_object(v_step.id::text, v_new_step_id::text);
+
+            INSERT INTO process_steps(
+                id,
+                process_id,
+                step_name,
+                description,
+                lane,
+                step_type,
+                order_index,
+                lead_time_minutes,
+                cycle_time_minutes,
+                position_x,
+                position_y,
+                subprocess_process_id
+            )
+            VALUES (
+                v_new_step_id,
+                v_new_process_id,
+                v_step.step_name,
+                v_step.description,
+                v_step.lane,
+                v_step.step_type,
+                v_step.order_index,
+                v_step.lead_time_minutes,
+                v_step.cycle_time_minutes,
+                v_step.position_x,
+                v_step.position_y,
+                v_step.subprocess_process_id
+            );
+        END LOOP;
+
+        FOR v_edge IN
+            SELECT * FROM step_connections
+            WHERE process_id = p_source_process_id
+        LOOP
+            INSERT INTO step_connections(
+                process_id,
+                source_step_id,
+                target_step_id,
+                label,
+                branch_probability
+            )
+            VALUES (
+                v_new_process_id,
+                (v_step_id_map->>v_edge.source_step_id::text)::uuid,
+                (v_step_id_map->>v_edge.target_step_id::text)::uuid,
+                v_edge.label,
+                v_edge.branch_probability
+            );
+        END LOOP;
+
+    ELSE
+        FOR v_lane IN
+            SELECT fl.*, src.capacity AS source_capacity
+            FROM future_state_lanes fl
+            LEFT JOIN process_lanes src
+                ON src.process_id = p_source_process_id AND src.name = fl.name
+            WHERE fl.future_state_id = p_future_state_id
+            ORDER BY fl.order_index
+        LOOP
+            INSERT INTO process_lanes(process_id, name, order_index, bg_color, border_color, capacity)
+            VALUES (
+                v_new_process_id,
+                v_lane.name,
+                v_lane.order_index,
+                COALESCE(v_lane_color_map->v_lane.color->>'bg', '#f1f5f9'),
+                COALESCE(v_lane_color_map->v_lane.color->>'border', '#64748b'),
+                COALESCE(v_lane.source_capacity, 1)
+            );
+        END LOOP;
+
+        v_order_idx := 0;
+        FOR v_step IN
+            SELECT n.*, src.subprocess_process_id AS source_subprocess_process_id
+            FROM future_state_nodes n
+            LEFT JOIN process_steps src ON src.id = n.source_step_id
+            WHERE n.future_state_id = p_future_state_id
+            ORDER BY n.position_x, n.position_y, n.created_at
+        LOOP
+            v_new_step_id := gen_random_uuid();
+            v_step_id_map := v_step_id_map || jsonb_build_object(v_step.id::text, v_new_step_id::text);
+
+            INSERT INTO process_steps(
+                id,
+                process_id,
+                step_name,
+                description,
+                lane,
+                step_type,
+                order_index,
+                lead_time_minutes,
+                cycle_time_minutes,
+                position_x,
+                position_y,
+                subprocess_process_id
+            )
+            VALUES (
+                v_new_step_id,
+                v_new_process_id,
+                v_step.name,
+                v_step.description,
+                v_step.lane,
+                v_step.step_type,
+                v_order_idx,
+                v_step.lead_time_minutes,
+                v_step.cycle_time_minutes,
+                v_step.position_x,
+                v_step.position_y,
+                CASE WHEN v_step.step_type = 'subprocess' THEN v_step.source_subprocess_process_id END
+            );
+
+            v_order_idx := v_order_idx + 1;
+        END LOOP;
+
+        FOR v_edge IN
+            SELECT * FROM future_state_edges
+            WHERE future_state_id = p_future_state_id
+        LOOP
+            INSERT INTO step_connections(
+                process_id,
+                source_step_id,
+                target_step_id,
+                label,
+                branch_probability
+            )
+            VALUES (
+                v_new_process_id,
+                (v_step_id_map->>v_edge.source_node_id::text)::uuid,
+                (v_step_id_map->>v_edge.target_node_id::text)::uuid,
+                v_edge.label,
+                v_edge.branch_probability
+            );
+        END LOOP;
+    END IF;
+
+    -- Note: Sessions and observations are NOT copied (AC-3.2 Data Isolation)
+
+    RETURN v_new_process_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION copy_workflow TO authenticated;
@@ -0,0 +1,86 @@
+-- ============================================
+-- OBSERVATION ATTACHMENTS - Database Migration
+-- ============================================
+-- Photo, video and voice memo evidence for observations:
+-- - Files stored in Supabase Storage (observation-attachments bucket),
+--   under <session_id>/<observation_id>/
+-- - observations.attachments lists the storage paths
+-- - The bucket is private: only people who can access the session read its
+--   evidence, through signed URLs
+-- - Evidence captured offline uploads later, so paths are appended one at a
+--   time, idempotently, once each upload completes
+
+-- ============================================
+-- 1) STORAGE BUCKET SETUP
+-- ============================================
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('observation-attachments', 'observation-attachments', false)
+ON CONFLICT (id) DO UPDATE SET public = false;
+
+-- Objects live under <session_id>/, so the first folder decides access
+CREATE POLICY "Session members can upload observation attachments"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+    bucket_id = 'observation-attachments'
+    AND (storage.foldername(name))[1] IN (SELECT id::text FROM sessions WHERE can_access_session(id))
+);
+
+-- Signed URLs are issued only for sessions the caller can access
+CREATE POLICY "Session members can read observation attachments"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+    bucket_id = 'observation-attachments'
+    AND (storage.foldername(name))[1] IN (SELECT id::text FROM sessions WHERE can_access_session(id))
+);
+
+-- Resumable uploads overwrite the object when a retry starts over
+CREATE POLICY "Users can update own observation attachments"
+ON storage.objects FOR UPDATE
+TO authenticated
+USING (bucket_id = 'observation-attachments' AND owner = auth.uid())
+WITH CHECK (bucket_id = 'observation-attachments');
+
+CREATE POLICY "Users can delete own observation attachments"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (bucket_id = 'observation-attachments' AND owner = auth.uid());
+
+-- ============================================
+-- 2) ATTACH AN UPLOADED FILE
+-- ============================================
+-- Runs with the caller's rights, so observation RLS still decides who may
+-- attach. Returns false when the observation no longer exists, so the client
+-- can clean up the orphaned file.
+
+CREATE OR REPLACE FUNCTION append_observation_attachment(
+    p_observation_id UUID,
+    p_path TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM 1 FROM observations WHERE id = p_observation_id;
+    IF NOT FOUND THEN
+        RETURN false;
+    END IF;
+
+    -- A replayed upload leaves the row (and its updated_at) untouched
+    UPDATE observations
+    SET attachments = array_append(COALESCE(attachments, '{}'), p_path)
+    WHERE id = p_observation_id
+      AND NOT (p_path = ANY(COALESCE(attachments, '{}')));
+
+    RETURN true;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION append_observation_attachment TO authenticated;
+
+COMMENT ON COLUMN observations.attachments IS
+    'Storage paths of evidence files in the observation-attachments bucket';
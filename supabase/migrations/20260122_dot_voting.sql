@@ -0,0 +1,172 @@
+-- ============================================
+-- DOT VOTING - Database Migration
+-- ============================================
+-- Adds a voting phase to sessions:
+-- - The facilitator opens a round with N votes per participant
+-- - Participants spend votes on observations or steps (several on the same
+--   target are allowed) and can take them back while the round is open
+-- - One open round per session; closing it freezes the tallies
+-- - Both tables publish to realtime for live tallies
+
+-- ============================================
+-- 1) VOTING ROUNDS
+-- ============================================
+
+CREATE TABLE voting_rounds (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+    votes_per_participant INTEGER NOT NULL DEFAULT 5
+        CHECK (votes_per_participant BETWEEN 1 AND 50),
+    opened_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    opened_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    closed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_voting_rounds_session ON voting_rounds(session_id, opened_at DESC);
+CREATE UNIQUE INDEX idx_voting_rounds_one_open ON voting_rounds(session_id)
+    WHERE status = 'open';
+
+COMMENT ON TABLE voting_rounds IS 'Dot-voting rounds run by the facilitator after a waste walk';
+COMMENT ON COLUMN voting_rounds.votes_per_participant IS 'Votes each participant can spend in the round';
+
+-- ============================================
+-- 2) VOTES
+-- ============================================
+-- One row per dot. session_id is denormalized for the realtime filter.
+
+CREATE TABLE session_votes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    round_id UUID NOT NULL REFERENCES voting_rounds(id) ON DELETE CASCADE,
+    session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES users(id) ON DELETE CASCADE,
+    observation_id UUID REFERENCES observations(id) ON DELETE CASCADE,
+    step_id UUID REFERENCES process_steps(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CONSTRAINT session_votes_one_target CHECK (
+        (observation_id IS NOT NULL AND step_id IS NULL)
+        OR (step_id IS NOT NULL AND observation_id IS NULL)
+    )
+);
+
+CREATE INDEX idx_session_votes_round ON session_votes(round_id);
+CREATE INDEX idx_session_votes_round_user ON session_votes(round_id, user_id);
+CREATE INDEX idx_session_votes_observation ON session_votes(observation_id);
+CREATE INDEX idx_session_votes_step ON session_votes(step_id);
+
+-- Realtime DELETE events need the old row to match the session filter
+ALTER TABLE session_votes REPLICA IDENTITY FULL;
+
+-- ============================================
+-- 3) VOTE BUDGET
+-- ============================================
+
+-- Runs as the owner: participants can't update rounds, so under their own
+-- rights the locking read below would find nothing and every check would pass.
+-- The target must belong to the round's session (observations) or to the
+-- session's process (steps), so votes can't land on another workshop's items.
+CREATE OR REPLACE FUNCTION check_vote_budget()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_round voting_rounds%ROWTYPE;
+BEGIN
+    -- Lock the round so simultaneous votes from one user are counted in turn
+    SELECT * INTO v_round FROM voting_rounds WHERE id = NEW.round_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Voting round not found';
+    END IF;
+
+    IF v_round.status <> 'open' THEN
+        RAISE EXCEPTION 'Voting round is closed';
+    END IF;
+
+    IF NEW.session_id <> v_round.session_id THEN
+        RAISE EXCEPTION 'Vote does not belong to the round''s session';
+    END IF;
+
+    IF NEW.observation_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM observations
+        WHERE id = NEW.observation_id AND session_id = v_round.session_id
+    ) THEN
+        RAISE EXCEPTION 'Observation does not belong to the round''s session';
+    END IF;
+
+    IF NEW.step_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM process_steps ps
+        JOIN sessions s ON s.process_id = ps.process_id
+        WHERE ps.id = NEW.step_id AND s.id = v_round.session_id
+    ) THEN
+        RAISE EXCEPTION 'Step does not belong to the session''s process';
+    END IF;
+
+    IF (
+        SELECT COUNT(*) FROM session_votes
+        WHERE round_id = NEW.round_id AND user_id = NEW.user_id
+    ) >= v_round.votes_per_participant THEN
+        RAISE EXCEPTION 'No votes left in this round';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_session_votes_budget
+    BEFORE INSERT ON session_votes
+    FOR EACH ROW EXECUTE FUNCTION check_vote_budget();
+
+CREATE TRIGGER update_voting_rounds_updated_at
+    BEFORE UPDATE ON voting_rounds
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ============================================
+-- 4) RLS POLICIES
+-- ============================================
+
+ALTER TABLE voting_rounds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE session_votes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "View voting rounds" ON voting_rounds
+    FOR SELECT USING (
+        session_id IN (SELECT session_id FROM session_participants WHERE user_id = auth.uid())
+        OR session_id IN (SELECT id FROM sessions WHERE facilitator_id = auth.uid())
+        OR get_user_role() IN ('admin', 'facilitator')
+    );
+
+CREATE POLICY "Facilitators manage voting rounds" ON voting_rounds
+    FOR ALL USING (
+        session_id IN (SELECT id FROM sessions WHERE facilitator_id = auth.uid())
+        OR get_user_role() IN ('admin', 'facilitator')
+    );
+
+CREATE POLICY "View session votes" ON session_votes
+    FOR SELECT USING (
+        session_id IN (SELECT session_id FROM session_participants WHERE user_id = auth.uid())
+        OR session_id IN (SELECT id FROM sessions WHERE facilitator_id = auth.uid())
+        OR get_user_role() IN ('admin', 'facilitator')
+    );
+
+CREATE POLICY "Participants cast votes" ON session_votes
+    FOR INSERT WITH CHECK (
+        user_id = auth.uid()
+        AND session_id IN (SELECT session_id FROM session_participants WHERE user_id = auth.uid())
+    );
+
+CREATE POLICY "Participants retract own votes while open" ON session_votes
+    FOR DELETE USING (
+        user_id = auth.uid()
+        AND round_id IN (SELECT id FROM voting_rounds WHERE status = 'open')
+    );
+
+-- ============================================
+-- 5) REALTIME
+-- ============================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE voting_rounds;
+ALTER PUBLICATION supabase_realtime ADD TABLE session_votes;
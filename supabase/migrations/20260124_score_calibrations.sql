@@ -0,0 +1,60 @@
+-- ============================================
+-- SCORE CALIBRATIONS - Database Migration
+-- ============================================
+-- Follow-up on inter-rater disagreement in a session:
+-- - One row per session / step / waste type the facilitator flags
+-- - 'discussion' while the team calibrates, 'resolved' once a consensus
+--   score is recorded for each dimension the session is scored on
+-- - Individual observation scores are left untouched
+
+-- ============================================
+-- 1) SCORE CALIBRATIONS
+-- ============================================
+
+CREATE TABLE score_calibrations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    step_id UUID NOT NULL REFERENCES process_steps(id) ON DELETE CASCADE,
+    waste_type_id UUID NOT NULL REFERENCES waste_types(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'discussion' CHECK (status IN ('discussion', 'resolved')),
+    -- { "<dimension key>": score }, on the session's scales
+    consensus_scores JSONB CHECK (jsonb_typeof(consensus_scores) = 'object'),
+    notes TEXT,
+    requested_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    resolved_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    resolved_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CONSTRAINT score_calibrations_unique UNIQUE (session_id, step_id, waste_type_id),
+    CONSTRAINT score_calibrations_resolved_scores CHECK (
+        status <> 'resolved' OR consensus_scores IS NOT NULL
+    )
+);
+
+CREATE INDEX idx_score_calibrations_session ON score_calibrations(session_id);
+
+COMMENT ON TABLE score_calibrations IS 'Calibration discussions and consensus scores for steps where raters disagree';
+
+CREATE TRIGGER update_score_calibrations_updated_at
+    BEFORE UPDATE ON score_calibrations
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ============================================
+-- 2) RLS POLICIES
+-- ============================================
+
+ALTER TABLE score_calibrations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "View score calibrations" ON score_calibrations
+    FOR SELECT USING (
+        session_id IN (SELECT session_id FROM session_participants WHERE user_id = auth.uid())
+        OR session_id IN (SELECT id FROM sessions WHERE facilitator_id = auth.uid())
+        OR get_user_role() IN ('admin', 'facilitator')
+    );
+
+CREATE POLICY "Facilitators manage score calibrations" ON score_calibrations
+    FOR ALL USING (
+        session_id IN (SELECT id FROM sessions WHERE facilitator_id = auth.uid())
+        OR get_user_role() IN ('admin', 'facilitator')
+    );
@@ -0,0 +1,173 @@
+-- ============================================
+-- SCORING MODELS - Database Migration
+-- ============================================
+-- Replaces the hard-wired priority formula with an org-level scoring model:
+-- - Versioned models: dimensions (label, scale, weight) and a formula
+-- - Observations keep per-dimension scores; priority_score becomes a plain
+--   column written by the app from the session's model
+-- - Sessions record the model version their scores were computed with
+-- - apply_scoring_model rescores an organization in one transaction
+-- frequency/impact/ease_score stay populated (rescaled to 1-5) for features
+-- that read them directly.
+
+-- ============================================
+-- 1) SCORING MODELS
+-- ============================================
+-- Rows are never edited: a change inserts the next version, and the highest
+-- version is the organization's active model.
+
+CREATE TABLE scoring_models (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL CHECK (version >= 1),
+    name TEXT NOT NULL DEFAULT 'Priority score',
+    -- [{ "key", "label", "description", "min", "max", "weight" }]
+    dimensions JSONB NOT NULL CHECK (jsonb_typeof(dimensions) = 'array'),
+    -- Arithmetic over dimension keys; blank means the weighted sum
+    formula TEXT,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(org_id, version)
+);
+
+CREATE INDEX idx_scoring_models_org ON scoring_models(org_id, version DESC);
+
+COMMENT ON TABLE scoring_models IS 'Versioned prioritization models; the latest version per org is active';
+
+ALTER TABLE scoring_models ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own org scoring models" ON scoring_models
+    FOR SELECT USING (org_id = get_user_org_id());
+
+CREATE POLICY "Admins can add own org scoring models" ON scoring_models
+    FOR INSERT WITH CHECK (org_id = get_user_org_id() AND get_user_role() = 'admin');
+
+-- ============================================
+-- 2) OBSERVATION SCORES
+-- ============================================
+
+ALTER TABLE observations
+    ADD COLUMN scores JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN observations.scores IS
+    'Score per scoring model dimension key';
+
+UPDATE observations
+SET scores = jsonb_build_object(
+    'frequency', frequency_score,
+    'impact', impact_score,
+    'ease', ease_score
+);
+
+ALTER TABLE observations ALTER COLUMN priority_score DROP EXPRESSION;
+ALTER TABLE observations ALTER COLUMN priority_score TYPE NUMERIC(12,2);
+
+-- Rows written without a computed score (older clients, seeds) fall back to
+-- the original formula
+CREATE OR REPLACE FUNCTION default_priority_score()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.priority_score IS NULL THEN
+        NEW.priority_score := NEW.frequency_score * NEW.impact_score * (6 - NEW.ease_score);
+    END IF;
+    IF NEW.scores = '{}'::jsonb THEN
+        NEW.scores := jsonb_build_object(
+            'frequency', NEW.frequency_score,
+            'impact', NEW.impact_score,
+            'ease', NEW.ease_score
+        );
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_observation_default_priority
+    BEFORE INSERT ON observations
+    FOR EACH ROW EXECUTE FUNCTION default_priority_score();
+
+-- ============================================
+-- 3) SESSION MODEL VERSION
+-- ============================================
+
+ALTER TABLE sessions
+    ADD COLUMN scoring_model_id UUID REFERENCES scoring_models(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN sessions.scoring_model_id IS
+    'Scoring model version the session''s priority scores were computed with; NULL is the built-in default';
+
+-- New sessions pick up their organization's active model
+CREATE OR REPLACE FUNCTION set_session_scoring_model()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.scoring_model_id IS NULL THEN
+        SELECT sm.id INTO NEW.scoring_model_id
+        FROM scoring_models sm
+        JOIN processes p ON p.org_id = sm.org_id
+        WHERE p.id = NEW.process_id
+        ORDER BY sm.version DESC
+        LIMIT 1;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_sessions_scoring_model
+    BEFORE INSERT ON sessions
+    FOR EACH ROW EXECUTE FUNCTION set_session_scoring_model();
+
+-- ============================================
+-- 4) APPLYING A NEW VERSION
+-- ============================================
+-- The app rescales scores and evaluates the formula; this writes the results
+-- and moves the sessions to the new version in one transaction, so a failed
+-- save leaves every session on its old scales and can simply be retried.
+
+CREATE OR REPLACE FUNCTION apply_scoring_model(
+    p_model_id UUID,
+    p_session_ids UUID[],
+    -- [{ "id", "scores", "priority_score", "frequency_score", "impact_score", "ease_score" }];
+    -- keys left out keep their value
+    p_observations JSONB,
+    -- [{ "id", "consensus_scores" }]
+    p_calibrations JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE observations o SET
+        scores = COALESCE(u.scores, o.scores),
+        priority_score = COALESCE(u.priority_score, o.priority_score),
+        frequency_score = COALESCE(u.frequency_score, o.frequency_score),
+        impact_score = COALESCE(u.impact_score, o.impact_score),
+        ease_score = COALESCE(u.ease_score, o.ease_score)
+    FROM jsonb_to_recordset(p_observations) AS u(
+        id UUID,
+        scores JSONB,
+        priority_score NUMERIC,
+        frequency_score INTEGER,
+        impact_score INTEGER,
+        ease_score INTEGER
+    )
+    WHERE o.id = u.id;
+
+    UPDATE score_calibrations sc
+    SET consensus_scores = c.consensus_scores
+    FROM jsonb_to_recordset(p_calibrations) AS c(id UUID, consensus_scores JSONB)
+    WHERE sc.id = c.id;
+
+    UPDATE sessions
+    SET scoring_model_id = p_model_id
+    WHERE id = ANY(p_session_ids);
+END;
+$$;
+
+-- Rescoring spans every participant's observations, so only the server runs it
+REVOKE EXECUTE ON FUNCTION apply_scoring_model FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION apply_scoring_model TO service_role;
@@ -0,0 +1,31 @@
+-- ============================================
+-- HANDOFF OBSERVATIONS - Database Migration
+-- ============================================
+-- Waiting and transport waste often sits between steps rather than in them.
+-- Observations can now target one of:
+-- - a process step (step_id, as before)
+-- - a handoff between two steps (connection_id -> step_connections)
+-- - an information flow between two steps (flow_id -> information_flows)
+
+-- ============================================
+-- 1) OBSERVATION TARGETS
+-- ============================================
+
+ALTER TABLE observations
+    ADD COLUMN connection_id UUID REFERENCES step_connections(id) ON DELETE CASCADE,
+    ADD COLUMN flow_id UUID REFERENCES information_flows(id) ON DELETE CASCADE;
+
+COMMENT ON COLUMN observations.connection_id IS
+    'Handoff the observation is about; set instead of step_id';
+COMMENT ON COLUMN observations.flow_id IS
+    'Information flow the observation is about; set instead of step_id';
+
+-- NOT VALID: rows written before this migration are not re-checked
+ALTER TABLE observations
+    ADD CONSTRAINT observations_single_target
+    CHECK (num_nonnulls(step_id, connection_id, flow_id) = 1) NOT VALID;
+
+CREATE INDEX idx_observations_connection ON observations(connection_id)
+    WHERE connection_id IS NOT NULL;
+CREATE INDEX idx_observations_flow ON observations(flow_id)
+    WHERE flow_id IS NOT NULL;
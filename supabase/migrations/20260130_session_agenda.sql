@@ -0,0 +1,115 @@
+-- ============================================
+-- SESSION AGENDA - Database Migration
+-- ============================================
+-- Facilitators script a walk as timed phases (briefing, walk lane by lane,
+-- scoring, debrief):
+-- - Each phase has a planned duration and decides whether tagging is open,
+--   optionally only for some lanes
+-- - Starting a phase ends the running one; started_at/ended_at record the
+--   latest run and elapsed_seconds the time spent across every ended run, so
+--   restarting a phase adds to its time instead of starting over
+-- - Phases publish to realtime so every participant sees the same countdown
+-- Tagging locks are applied by the session page. Observations recorded
+-- offline still sync whatever phase is running when they arrive.
+
+-- ============================================
+-- 1) PHASES
+-- ============================================
+
+CREATE TABLE session_phases (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    planned_minutes INTEGER NOT NULL CHECK (planned_minutes BETWEEN 1 AND 480),
+    tagging_enabled BOOLEAN NOT NULL DEFAULT true,
+    lanes TEXT[],
+    started_at TIMESTAMPTZ,
+    ended_at TIMESTAMPTZ,
+    elapsed_seconds INTEGER NOT NULL DEFAULT 0 CHECK (elapsed_seconds >= 0),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CONSTRAINT session_phases_started_before_end CHECK (ended_at IS NULL OR started_at IS NOT NULL)
+);
+
+CREATE INDEX idx_session_phases_session ON session_phases(session_id, position);
+CREATE UNIQUE INDEX idx_session_phases_one_running ON session_phases(session_id)
+    WHERE started_at IS NOT NULL AND ended_at IS NULL;
+
+COMMENT ON TABLE session_phases IS 'Timed agenda phases of a waste walk session';
+COMMENT ON COLUMN session_phases.lanes IS
+    'Lanes open for tagging during the phase; NULL opens every lane';
+COMMENT ON COLUMN session_phases.elapsed_seconds IS
+    'Seconds spent in the phase over all runs that have ended; a running phase adds NOW() - started_at';
+
+CREATE TRIGGER update_session_phases_updated_at
+    BEFORE UPDATE ON session_phases
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ============================================
+-- 2) PHASE TRANSITIONS
+-- ============================================
+-- One statement pair under the database clock, so the countdown starts from
+-- the same instant for everyone. NULL ends the agenda.
+
+CREATE OR REPLACE FUNCTION start_session_phase(
+    p_session_id UUID,
+    p_phase_id UUID
+)
+RETURNS SETOF session_phases
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE session_phases
+    SET ended_at = NOW(),
+        elapsed_seconds = elapsed_seconds + GREATEST(0, EXTRACT(EPOCH FROM NOW() - started_at))::INTEGER
+    WHERE session_id = p_session_id
+      AND started_at IS NOT NULL
+      AND ended_at IS NULL;
+
+    -- A restarted phase keeps its elapsed_seconds and runs on from them
+    IF p_phase_id IS NOT NULL THEN
+        UPDATE session_phases
+        SET started_at = NOW(), ended_at = NULL
+        WHERE id = p_phase_id AND session_id = p_session_id;
+    END IF;
+
+    RETURN QUERY
+        SELECT * FROM session_phases
+        WHERE session_id = p_session_id
+        ORDER BY position;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION start_session_phase TO authenticated;
+
+-- ============================================
+-- 3) RLS POLICIES
+-- ============================================
+
+ALTER TABLE session_phases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "View session phases" ON session_phases
+    FOR SELECT USING (
+        session_id IN (SELECT session_id FROM session_participants WHERE user_id = auth.uid())
+        OR session_id IN (SELECT id FROM sessions WHERE facilitator_id = auth.uid())
+        OR get_user_role() IN ('admin', 'facilitator')
+    );
+
+CREATE POLICY "Facilitators manage session phases" ON session_phases
+    FOR ALL USING (
+        session_id IN (SELECT id FROM sessions WHERE facilitator_id = auth.uid())
+        OR get_user_role() IN ('admin', 'facilitator')
+    );
+
+-- ============================================
+-- 4) REALTIME
+-- ============================================
+
+-- Realtime DELETE events need the old row to match the session filter
+ALTER TABLE session_phases REPLICA IDENTITY FULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE session_phases;
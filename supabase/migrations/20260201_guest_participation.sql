@@ -0,0 +1,89 @@
+-- ============================================
+-- GUEST PARTICIPATION - Database Migration
+-- ============================================
+-- Front-line staff can contribute without an account or without their name:
+-- - Sessions can run in anonymous mode; the app hides observer names from
+--   everyone except admins in the session, results, exports and AI prompts
+-- - Facilitators hand out expiring guest join links (shown as a QR code)
+-- - Guests record observations through the guest API, which checks the link
+--   and writes with the service role; their observations have no user_id
+
+-- ============================================
+-- 1) ANONYMOUS SESSIONS
+-- ============================================
+
+ALTER TABLE sessions
+    ADD COLUMN anonymous_observations BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN sessions.anonymous_observations IS
+    'Hide who recorded each observation from everyone except admins';
+
+-- ============================================
+-- 2) GUEST LINKS
+-- ============================================
+
+CREATE TABLE session_guest_links (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    token TEXT NOT NULL UNIQUE,
+    label TEXT,
+    expires_at TIMESTAMPTZ NOT NULL,
+    revoked_at TIMESTAMPTZ,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_session_guest_links_session ON session_guest_links(session_id);
+
+COMMENT ON TABLE session_guest_links IS 'Expiring links that let people without an account join one session';
+COMMENT ON COLUMN session_guest_links.token IS 'Random secret in the join URL; generated by the app';
+
+CREATE TRIGGER update_session_guest_links_updated_at
+    BEFORE UPDATE ON session_guest_links
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ============================================
+-- 3) GUESTS
+-- ============================================
+
+CREATE TABLE session_guests (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    link_id UUID NOT NULL REFERENCES session_guest_links(id) ON DELETE CASCADE,
+    display_name TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_session_guests_session ON session_guests(session_id);
+CREATE INDEX idx_session_guests_link ON session_guests(link_id);
+
+COMMENT ON TABLE session_guests IS 'People who joined a session through a guest link';
+
+ALTER TABLE observations
+    ADD COLUMN guest_id UUID REFERENCES session_guests(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_observations_guest ON observations(guest_id) WHERE guest_id IS NOT NULL;
+
+COMMENT ON COLUMN observations.guest_id IS 'Guest who recorded the observation; user_id is NULL for these';
+
+-- ============================================
+-- 4) RLS POLICIES
+-- ============================================
+-- Guests never query these tables directly; the guest API uses the service role.
+
+ALTER TABLE session_guest_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE session_guests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Facilitators manage guest links" ON session_guest_links
+    FOR ALL USING (
+        session_id IN (SELECT id FROM sessions WHERE facilitator_id = auth.uid())
+        OR get_user_role() IN ('admin', 'facilitator')
+    );
+
+CREATE POLICY "View session guests" ON session_guests
+    FOR SELECT USING (
+        session_id IN (SELECT session_id FROM session_participants WHERE user_id = auth.uid())
+        OR session_id IN (SELECT id FROM sessions WHERE facilitator_id = auth.uid())
+        OR get_user_role() IN ('admin', 'facilitator')
+    );
@@ -0,0 +1,395 @@
+-- ============================================
+-- SERVER-SIDE ANALYTICS - Database Migration
+-- ============================================
+-- Aggregates observations in the database instead of the browser:
+-- - analytics_observation_facts flattens an observation with its session,
+--   workflow, organization and step
+-- - Every RPC takes the same JSONB filter (processes, sessions, date range,
+--   lanes, waste categories, digital/physical, steps, waste types)
+-- - Hotspots, handoff hotspots and the observation drill-down are paginated
+--   and return the total row count alongside each page
+-- - Hotspot votes and the cost facts follow the same filter, so nothing is
+--   counted from sessions or observations outside it
+-- Everything runs as the caller, so observation RLS still decides what a
+-- user can see.
+
+-- ============================================
+-- 1) OBSERVATION FACTS
+-- ============================================
+-- Handoff and information flow observations have no step; they are grouped
+-- under a "Handoffs" lane like the rest of the app does.
+
+CREATE OR REPLACE VIEW analytics_observation_facts
+WITH (security_invoker = true) AS
+SELECT
+    o.id,
+    o.session_id,
+    s.process_id,
+    p.org_id,
+    o.step_id,
+    o.connection_id,
+    o.flow_id,
+    ps.step_name,
+    COALESCE(ps.lane, CASE WHEN o.step_id IS NULL THEN 'Handoffs' ELSE 'Unknown' END) AS lane,
+    COALESCE(o.priority_score, 0) AS priority_score,
+    o.ease_score,
+    COALESCE(o.is_digital, false) AS is_digital,
+    COALESCE(o.is_physical, false) AS is_physical,
+    o.time_lost_minutes,
+    o.notes,
+    o.created_at
+FROM observations o
+JOIN sessions s ON s.id = o.session_id
+LEFT JOIN processes p ON p.id = s.process_id
+LEFT JOIN process_steps ps ON ps.id = o.step_id;
+
+GRANT SELECT ON analytics_observation_facts TO authenticated;
+
+-- Date range filters and org scoping
+CREATE INDEX IF NOT EXISTS idx_observations_created_at ON observations(created_at);
+CREATE INDEX IF NOT EXISTS idx_observation_waste_links_observation ON observation_waste_links(observation_id);
+
+-- ============================================
+-- 2) FILTERS
+-- ============================================
+-- Keys are optional; a missing key doesn't filter. Arrays match any value.
+--   org_id, process_ids[], session_ids[], step_ids[], lanes[],
+--   waste_type_ids[], waste_categories[], from, to (exclusive),
+--   is_digital, is_physical
+
+CREATE OR REPLACE FUNCTION analytics_filter_observations(p_filters JSONB DEFAULT '{}')
+RETURNS SETOF analytics_observation_facts
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+    SELECT f.*
+    FROM analytics_observation_facts f
+    WHERE (NOT p_filters ? 'org_id' OR f.org_id = (p_filters->>'org_id')::UUID)
+      AND (NOT p_filters ? 'process_ids'
+           OR f.process_id::TEXT IN (SELECT jsonb_array_elements_text(p_filters->'process_ids')))
+      AND (NOT p_filters ? 'session_ids'
+           OR f.session_id::TEXT IN (SELECT jsonb_array_elements_text(p_filters->'session_ids')))
+      AND (NOT p_filters ? 'step_ids'
+           OR f.step_id::TEXT IN (SELECT jsonb_array_elements_text(p_filters->'step_ids')))
+      AND (NOT p_filters ? 'lanes'
+           OR f.lane IN (SELECT jsonb_array_elements_text(p_filters->'lanes')))
+      AND (NOT p_filters ? 'from' OR f.created_at >= (p_filters->>'from')::TIMESTAMPTZ)
+      AND (NOT p_filters ? 'to' OR f.created_at < (p_filters->>'to')::TIMESTAMPTZ)
+      AND (NOT p_filters ? 'is_digital' OR f.is_digital = (p_filters->>'is_digital')::BOOLEAN)
+      AND (NOT p_filters ? 'is_physical' OR f.is_physical = (p_filters->>'is_physical')::BOOLEAN)
+      AND (NOT p_filters ? 'waste_type_ids' OR EXISTS (
+            SELECT 1 FROM observation_waste_links l
+            WHERE l.observation_id = f.id
+              AND l.waste_type_id::TEXT IN (SELECT jsonb_array_elements_text(p_filters->'waste_type_ids'))))
+      AND (NOT p_filters ? 'waste_categories' OR EXISTS (
+            SELECT 1 FROM observation_waste_links l
+            JOIN waste_types wt ON wt.id = l.waste_type_id
+            WHERE l.observation_id = f.id
+              AND wt.category::TEXT IN (SELECT jsonb_array_elements_text(p_filters->'waste_categories'))));
+$$;
+
+GRANT EXECUTE ON FUNCTION analytics_filter_observations TO authenticated;
+
+-- ============================================
+-- 3) AGGREGATES
+-- ============================================
+
+CREATE OR REPLACE FUNCTION analytics_summary(p_filters JSONB DEFAULT '{}')
+RETURNS TABLE (
+    observation_count BIGINT,
+    session_count BIGINT,
+    avg_priority NUMERIC,
+    digital_count BIGINT,
+    physical_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+    SELECT
+        COUNT(*),
+        COUNT(DISTINCT f.session_id),
+        COALESCE(ROUND(AVG(f.priority_score), 2), 0),
+        COUNT(*) FILTER (WHERE f.is_digital),
+        COUNT(*) FILTER (WHERE f.is_physical)
+    FROM analytics_filter_observations(p_filters) f;
+$$;
+
+-- A waste type counts once per observation it is tagged on
+CREATE OR REPLACE FUNCTION analytics_waste_distribution(p_filters JSONB DEFAULT '{}')
+RETURNS TABLE (
+    waste_type_id UUID,
+    name TEXT,
+    code TEXT,
+    color TEXT,
+    category TEXT,
+    count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+    SELECT wt.id, wt.name, wt.code, wt.color, wt.category::TEXT, COUNT(*)
+    FROM analytics_filter_observations(p_filters) f
+    JOIN observation_waste_links l ON l.observation_id = f.id
+    JOIN waste_types wt ON wt.id = l.waste_type_id
+    GROUP BY wt.id, wt.name, wt.code, wt.color, wt.category
+    ORDER BY COUNT(*) DESC, wt.code;
+$$;
+
+CREATE OR REPLACE FUNCTION analytics_lane_stats(p_filters JSONB DEFAULT '{}')
+RETURNS TABLE (
+    lane TEXT,
+    observations BIGINT,
+    priority NUMERIC,
+    digital BIGINT,
+    physical BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+    SELECT
+        f.lane,
+        COUNT(*),
+        SUM(f.priority_score),
+        COUNT(*) FILTER (WHERE f.is_digital),
+        COUNT(*) FILTER (WHERE f.is_physical)
+    FROM analytics_filter_observations(p_filters) f
+    GROUP BY f.lane
+    ORDER BY SUM(f.priority_score) DESC, f.lane;
+$$;
+
+-- ============================================
+-- 4) PAGINATED DRILL-DOWN
+-- ============================================
+
+CREATE OR REPLACE FUNCTION analytics_step_hotspots(
+    p_filters JSONB DEFAULT '{}',
+    p_limit INTEGER DEFAULT 10,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    step_id UUID,
+    step_name TEXT,
+    lane TEXT,
+    priority_score NUMERIC,
+    observation_count BIGINT,
+    avg_ease NUMERIC,
+    waste_types TEXT[],
+    votes BIGINT,
+    total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+    WITH filtered AS (
+        SELECT * FROM analytics_filter_observations(p_filters) f WHERE f.step_id IS NOT NULL
+    ),
+    steps AS (
+        SELECT
+            f.step_id,
+            MIN(f.step_name) AS step_name,
+            MIN(f.lane) AS lane,
+            SUM(f.priority_score) AS priority_score,
+            COUNT(*) AS observation_count,
+            AVG(f.ease_score) AS avg_ease
+        FROM filtered f
+        GROUP BY f.step_id
+    ),
+    -- Latest round of each filtered session; a vote on an observation counts
+    -- toward its step only when the observation is in the filter
+    votes AS (
+        SELECT COALESCE(v.step_id, o.step_id) AS step_id, COUNT(*) AS votes
+        FROM session_votes v
+        LEFT JOIN observations o ON o.id = v.observation_id
+        WHERE v.round_id IN (
+                SELECT DISTINCT ON (r.session_id) r.id
+                FROM voting_rounds r
+                WHERE r.session_id IN (SELECT f.session_id FROM filtered f)
+                ORDER BY r.session_id, r.opened_at DESC
+            )
+          AND (v.observation_id IS NULL OR v.observation_id IN (SELECT f.id FROM filtered f))
+        GROUP BY COALESCE(v.step_id, o.step_id)
+    )
+    SELECT
+        s.step_id,
+        s.step_name,
+        s.lane,
+        ROUND(s.priority_score, 2),
+        s.observation_count,
+        ROUND(COALESCE(s.avg_ease, 3), 2),
+        ARRAY(
+            SELECT DISTINCT wt.name
+            FROM filtered f
+            JOIN observation_waste_links l ON l.observation_id = f.id
+            JOIN waste_types wt ON wt.id = l.waste_type_id
+            WHERE f.step_id = s.step_id
+            ORDER BY wt.name
+        ),
+        COALESCE(v.votes, 0),
+        COUNT(*) OVER ()
+    FROM steps s
+    LEFT JOIN votes v ON v.step_id = s.step_id
+    ORDER BY s.priority_score DESC, s.step_name
+    LIMIT LEAST(GREATEST(p_limit, 1), 100)
+    OFFSET GREATEST(p_offset, 0);
+$$;
+
+CREATE OR REPLACE FUNCTION analytics_observation_page(
+    p_filters JSONB DEFAULT '{}',
+    p_limit INTEGER DEFAULT 25,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    session_id UUID,
+    session_name TEXT,
+    step_id UUID,
+    step_name TEXT,
+    lane TEXT,
+    priority_score NUMERIC,
+    is_digital BOOLEAN,
+    is_physical BOOLEAN,
+    notes TEXT,
+    created_at TIMESTAMPTZ,
+    waste_types TEXT[],
+    total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+    SELECT
+        f.id,
+        f.session_id,
+        s.name,
+        f.step_id,
+        f.step_name,
+        f.lane,
+        f.priority_score,
+        f.is_digital,
+        f.is_physical,
+        f.notes,
+        f.created_at,
+        ARRAY(
+            SELECT wt.name
+            FROM observation_waste_links l
+            JOIN waste_types wt ON wt.id = l.waste_type_id
+            WHERE l.observation_id = f.id
+            ORDER BY wt.name
+        ),
+        COUNT(*) OVER ()
+    FROM analytics_filter_observations(p_filters) f
+    JOIN sessions s ON s.id = f.session_id
+    ORDER BY f.priority_score DESC, f.created_at DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 100)
+    OFFSET GREATEST(p_offset, 0);
+$$;
+
+-- ============================================
+-- 5) COST AND HANDOFFS
+-- ============================================
+-- Cost facts are one row per filtered observation; the waste cost model in
+-- the app prices them, with handoff and information flow observations under
+-- their workflow's "Handoffs". Handoff hotspots group the observations
+-- without a step by the handoff or information flow they are about.
+
+CREATE OR REPLACE FUNCTION analytics_cost_facts(p_filters JSONB DEFAULT '{}')
+RETURNS TABLE (
+    id UUID,
+    session_id UUID,
+    process_id UUID,
+    step_id UUID,
+    step_name TEXT,
+    lane TEXT,
+    time_lost_minutes NUMERIC,
+    waste_types JSONB
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+    SELECT
+        f.id,
+        f.session_id,
+        f.process_id,
+        f.step_id,
+        f.step_name,
+        f.lane,
+        f.time_lost_minutes,
+        COALESCE((
+            SELECT jsonb_agg(
+                jsonb_build_object('id', wt.id, 'name', wt.name, 'code', wt.code, 'color', wt.color)
+                ORDER BY wt.code
+            )
+            FROM observation_waste_links l
+            JOIN waste_types wt ON wt.id = l.waste_type_id
+            WHERE l.observation_id = f.id
+        ), '[]'::JSONB)
+    FROM analytics_filter_observations(p_filters) f
+    WHERE f.process_id IS NOT NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION analytics_handoff_hotspots(
+    p_filters JSONB DEFAULT '{}',
+    p_limit INTEGER DEFAULT 10,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    connection_id UUID,
+    flow_id UUID,
+    priority_score NUMERIC,
+    observation_count BIGINT,
+    waste_types TEXT[],
+    observation_ids UUID[],
+    total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+    WITH filtered AS (
+        SELECT * FROM analytics_filter_observations(p_filters) f
+        WHERE f.step_id IS NULL AND (f.connection_id IS NOT NULL OR f.flow_id IS NOT NULL)
+    )
+    SELECT
+        f.connection_id,
+        f.flow_id,
+        ROUND(SUM(f.priority_score), 2),
+        COUNT(*),
+        ARRAY(
+            SELECT DISTINCT wt.name
+            FROM filtered f2
+            JOIN observation_waste_links l ON l.observation_id = f2.id
+            JOIN waste_types wt ON wt.id = l.waste_type_id
+            WHERE f2.connection_id IS NOT DISTINCT FROM f.connection_id
+              AND f2.flow_id IS NOT DISTINCT FROM f.flow_id
+            ORDER BY wt.name
+        ),
+        ARRAY_AGG(f.id ORDER BY f.priority_score DESC),
+        COUNT(*) OVER ()
+    FROM filtered f
+    GROUP BY f.connection_id, f.flow_id
+    ORDER BY SUM(f.priority_score) DESC, COUNT(*) DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 100)
+    OFFSET GREATEST(p_offset, 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION analytics_summary TO authenticated;
+GRANT EXECUTE ON FUNCTION analytics_waste_distribution TO authenticated;
+GRANT EXECUTE ON FUNCTION analytics_lane_stats TO authenticated;
+GRANT EXECUTE ON FUNCTION analytics_step_hotspots TO authenticated;
+GRANT EXECUTE ON FUNCTION analytics_observation_page TO authenticated;
+GRANT EXECUTE ON FUNCTION analytics_cost_facts TO authenticated;
+GRANT EXECUTE ON FUNCTION analytics_handoff_hotspots TO authenticated;
@@ -0,0 +1,80 @@
+-- ============================================
+-- PROCESS TRENDS - Database Migration
+-- ============================================
+-- Tracks a workflow across every session that walked it:
+-- - future_states.published_at and implementation_waves.completed_at record
+--   when improvements landed, so trend charts can mark them
+-- - analytics_session_series and analytics_session_waste_counts aggregate
+--   the same JSONB filter as the other analytics RPCs, one row per session
+
+-- ============================================
+-- 1) IMPROVEMENT MILESTONES
+-- ============================================
+
+ALTER TABLE future_states
+    ADD COLUMN IF NOT EXISTS published_at TIMESTAMPTZ;
+
+-- Best guess for versions published before the column existed
+UPDATE future_states
+SET published_at = updated_at
+WHERE status = 'published' AND published_at IS NULL;
+
+ALTER TABLE implementation_waves
+    ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ;
+
+-- ============================================
+-- 2) PER-SESSION SERIES
+-- ============================================
+-- Sessions are dated by when they started, falling back to when they were
+-- created for sessions that never started.
+
+CREATE OR REPLACE FUNCTION analytics_session_series(p_filters JSONB DEFAULT '{}')
+RETURNS TABLE (
+    session_id UUID,
+    session_name TEXT,
+    session_date TIMESTAMPTZ,
+    observation_count BIGINT,
+    avg_priority NUMERIC,
+    digital_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+    SELECT
+        s.id,
+        s.name,
+        COALESCE(s.started_at, s.created_at),
+        COUNT(*),
+        COALESCE(ROUND(AVG(f.priority_score), 2), 0),
+        COUNT(*) FILTER (WHERE f.is_digital)
+    FROM analytics_filter_observations(p_filters) f
+    JOIN sessions s ON s.id = f.session_id
+    GROUP BY s.id, s.name, s.started_at, s.created_at
+    ORDER BY COALESCE(s.started_at, s.created_at), s.name;
+$$;
+
+CREATE OR REPLACE FUNCTION analytics_session_waste_counts(p_filters JSONB DEFAULT '{}')
+RETURNS TABLE (
+    session_id UUID,
+    waste_type_id UUID,
+    name TEXT,
+    code TEXT,
+    color TEXT,
+    count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+    SELECT f.session_id, wt.id, wt.name, wt.code, wt.color, COUNT(*)
+    FROM analytics_filter_observations(p_filters) f
+    JOIN observation_waste_links l ON l.observation_id = f.id
+    JOIN waste_types wt ON wt.id = l.waste_type_id
+    GROUP BY f.session_id, wt.id, wt.name, wt.code, wt.color;
+$$;
+
+GRANT EXECUTE ON FUNCTION analytics_session_series TO authenticated;
+GRANT EXECUTE ON FUNCTION analytics_session_waste_counts TO authenticated;
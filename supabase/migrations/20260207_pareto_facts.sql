@@ -0,0 +1,45 @@
+-- ============================================
+-- PARETO ANALYSIS - Database Migration
+-- ============================================
+-- One row per filtered observation with the waste types it is tagged with,
+-- so Pareto charts can rank waste types, steps, lanes and waste type × lane
+-- combinations by count, priority or estimated cost. Cost comes from the
+-- waste cost model in the app, which is why this isn't aggregated here.
+
+-- ============================================
+-- 1) PARETO FACTS
+-- ============================================
+
+CREATE OR REPLACE FUNCTION analytics_pareto_facts(p_filters JSONB DEFAULT '{}')
+RETURNS TABLE (
+    id UUID,
+    step_id UUID,
+    step_name TEXT,
+    lane TEXT,
+    priority_score NUMERIC,
+    waste_types JSONB
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+    SELECT
+        f.id,
+        f.step_id,
+        f.step_name,
+        f.lane,
+        f.priority_score,
+        COALESCE((
+            SELECT jsonb_agg(
+                jsonb_build_object('id', wt.id, 'name', wt.name, 'code', wt.code, 'color', wt.color)
+                ORDER BY wt.code
+            )
+            FROM observation_waste_links l
+            JOIN waste_types wt ON wt.id = l.waste_type_id
+            WHERE l.observation_id = f.id
+        ), '[]'::JSONB)
+    FROM analytics_filter_observations(p_filters) f;
+$$;
+
+GRANT EXECUTE ON FUNCTION analytics_pareto_facts TO authenticated;
@@ -0,0 +1,444 @@
+-- ============================================
+-- WORKFLOW PORTFOLIO - Database Migration
+-- ============================================
+-- An organization-wide view of every workflow:
+-- - processes.department tags a workflow with its department or business
+--   unit for roll-ups; copy_workflow carries it over to copies
+-- - portfolio_workflows returns one row per workflow with its latest walk,
+--   open waste, accepted and implemented solutions and current future state
+-- A solution counts as implemented once a roadmap wave it is in is marked
+-- complete. Open waste is what the latest walk found that no implemented
+-- solution addresses.
+
+-- ============================================
+-- 1) DEPARTMENT TAG
+-- ============================================
+
+ALTER TABLE processes
+    ADD COLUMN IF NOT EXISTS department TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_processes_org_department ON processes(org_id, department);
+
+-- ============================================
+-- 2) PORTFOLIO
+-- ============================================
+-- Filter keys: org_id. Owner, department and last walk filters are applied
+-- by the app so it can still list every owner and department to pick from.
+-- Effort is averaged over accepted solutions (low = 1, medium = 2,
+-- high = 3); value is the priority score of the observations they address.
+
+CREATE OR REPLACE FUNCTION portfolio_workflows(p_filters JSONB DEFAULT '{}')
+RETURNS TABLE (
+    process_id UUID,
+    process_name TEXT,
+    department TEXT,
+    owner_id UUID,
+    owner_name TEXT,
+    session_count BIGINT,
+    latest_session_id UUID,
+    latest_session_name TEXT,
+    latest_session_status TEXT,
+    last_walk_at TIMESTAMPTZ,
+    open_waste_count BIGINT,
+    open_waste_priority NUMERIC,
+    solutions_accepted BIGINT,
+    solutions_implemented BIGINT,
+    avg_effort NUMERIC,
+    addressed_priority NUMERIC,
+    future_state_id UUID,
+    future_state_name TEXT,
+    future_state_version INTEGER,
+    future_state_status TEXT,
+    future_state_published_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+    WITH procs AS (
+        SELECT p.*
+        FROM processes p
+        WHERE (NOT p_filters ? 'org_id' OR p.org_id = (p_filters->>'org_id')::UUID)
+    ),
+    session_counts AS (
+        SELECT s.process_id, COUNT(*) AS session_count
+        FROM sessions s
+        JOIN procs p ON p.id = s.process_id
+        GROUP BY s.process_id
+    ),
+    latest AS (
+        SELECT DISTINCT ON (s.process_id)
+            s.process_id,
+            s.id,
+            s.name,
+            s.status::TEXT AS status,
+            COALESCE(s.started_at, s.created_at) AS walked_at
+        FROM sessions s
+        JOIN procs p ON p.id = s.process_id
+        ORDER BY s.process_id, COALESCE(s.started_at, s.created_at) DESC
+    ),
+    accepted AS (
+        SELECT
+            s.process_id,
+            sc.id,
+            sc.effort_level,
+            EXISTS (
+                SELECT 1
+                FROM wave_solutions ws
+                JOIN implementation_waves w ON w.id = ws.wave_id
+                WHERE ws.solution_id = sc.id AND w.completed_at IS NOT NULL
+            ) OR EXISTS (
+                SELECT 1
+                FROM implementation_items i
+                JOIN wave_items wi ON wi.item_id = i.id
+                JOIN implementation_waves w ON w.id = wi.wave_id
+                WHERE i.solution_id = sc.id AND w.completed_at IS NOT NULL
+            ) AS implemented
+        FROM solution_cards sc
+        JOIN sessions s ON s.id = sc.session_id
+        JOIN procs p ON p.id = s.process_id
+        WHERE sc.status = 'accepted'
+    ),
+    -- Observations an accepted solution addresses, directly or through a theme
+    addressed AS (
+        SELECT links.observation_id, bool_or(a.implemented) AS implemented
+        FROM (
+            SELECT so.solution_id, so.observation_id FROM solution_observations so
+            UNION
+            SELECT st.solution_id, ito.observation_id
+            FROM solution_themes st
+            JOIN insight_theme_observations ito ON ito.theme_id = st.theme_id
+        ) links
+        JOIN accepted a ON a.id = links.solution_id
+        GROUP BY links.observation_id
+    ),
+    solution_stats AS (
+        SELECT
+            a.process_id,
+            COUNT(*) AS solutions_accepted,
+            COUNT(*) FILTER (WHERE a.implemented) AS solutions_implemented,
+            AVG(CASE a.effort_level::TEXT WHEN 'low' THEN 1 WHEN 'medium' THEN 2 WHEN 'high' THEN 3 END) AS avg_effort
+        FROM accepted a
+        GROUP BY a.process_id
+    ),
+    addressed_value AS (
+        SELECT s.process_id, SUM(COALESCE(o.priority_score, 0)) AS addressed_priority
+        FROM addressed ad
+        JOIN observations o ON o.id = ad.observation_id
+        JOIN sessions s ON s.id = o.session_id
+        GROUP BY s.process_id
+    ),
+    open_waste AS (
+        SELECT
+            l.process_id,
+            COUNT(*) AS open_waste_count,
+            SUM(COALESCE(o.priority_score, 0)) AS open_waste_priority
+        FROM latest l
+        JOIN observations o ON o.session_id = l.id
+        LEFT JOIN addressed ad ON ad.observation_id = o.id
+        WHERE NOT COALESCE(ad.implemented, false)
+        GROUP BY l.process_id
+    ),
+    -- The newest version, published or not
+    current_future_state AS (
+        SELECT DISTINCT ON (fs.process_id)
+            fs.process_id,
+            fs.id,
+            fs.name,
+            fs.version,
+            fs.status::TEXT AS status,
+            fs.published_at
+        FROM future_states fs
+        JOIN procs p ON p.id = fs.process_id
+        ORDER BY fs.process_id, fs.version DESC, fs.updated_at DESC
+    )
+    SELECT
+        p.id,
+        p.name,
+        p.department,
+        p.created_by,
+        u.name,
+        COALESCE(sc.session_count, 0),
+        l.id,
+        l.name,
+        l.status,
+        l.walked_at,
+        COALESCE(ow.open_waste_count, 0),
+        COALESCE(ow.open_waste_priority, 0),
+        COALESCE(ss.solutions_accepted, 0),
+        COALESCE(ss.solutions_implemented, 0),
+        ROUND(ss.avg_effort, 2),
+        COALESCE(av.addressed_priority, 0),
+        cfs.id,
+        cfs.name,
+        cfs.version,
+        cfs.status,
+        cfs.published_at
+    FROM procs p
+    LEFT JOIN users u ON u.id = p.created_by
+    LEFT JOIN session_counts sc ON sc.process_id = p.id
+    LEFT JOIN latest l ON l.process_id = p.id
+    LEFT JOIN open_waste ow ON ow.process_id = p.id
+    LEFT JOIN solution_stats ss ON ss.process_id = p.id
+    LEFT JOIN addressed_value av ON av.process_id = p.id
+    LEFT JOIN current_future_state cfs ON cfs.process_id = p.id
+    ORDER BY COALESCE(ow.open_waste_priority, 0) DESC, p.name;
+$$;
+
+GRANT EXECUTE ON FUNCTION portfolio_workflows TO authenticated;
+
+-- ============================================
+-- 3) COPY_WORKFLOW KEEPS THE DEPARTMENT
+-- ============================================
+-- Same as 20260118_subprocess_links.sql, plus department.
+
+CREATE OR REPLACE FUNCTION copy_workflow(
+    p_source_process_id UUID,
+    p_new_name TEXT,
+    p_source_type TEXT DEFAULT 'current',
+    p_future_state_id UUID DEFAULT NULL,
+    p_options JSONB DEFAULT '{}'::jsonb
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_new_process_id UUID;
+    v_user_id UUID := auth.uid();
+    v_source processes%ROWTYPE;
+    v_user_org_id UUID;
+    v_step_id_map JSONB := '{}'::jsonb;
+    v_new_step_id UUID;
+    v_step RECORD;
+    v_edge RECORD;
+    v_lane RECORD;
+    v_order_idx INTEGER := 0;
+    v_lane_color_map JSONB := '{
+        "blue": {"bg": "#dbeafe", "border": "#3b82f6"},
+        "emerald": {"bg": "#d1fae5", "border": "#10b981"},
+        "amber": {"bg": "#fef3c7", "border": "#f59e0b"},
+        "purple": {"bg": "#ede9fe", "border": "#8b5cf6"},
+        "rose": {"bg": "#ffe4e6", "border": "#f43f5e"},
+        "slate": {"bg": "#f1f5f9", "border": "#64748b"},
+        "cyan": {"bg": "#cffafe", "border": "#06b6d4"},
+        "orange": {"bg": "#fed7aa", "border": "#f97316"}
+    }'::jsonb;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT org_id INTO v_user_org_id FROM users WHERE id = v_user_id;
+
+    SELECT * INTO v_source FROM processes WHERE id = p_source_process_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Source workflow not found';
+    END IF;
+
+    IF v_source.org_id IS NOT NULL AND v_source.org_id != v_user_org_id THEN
+        RAISE EXCEPTION 'Permission denied';
+    END IF;
+
+    IF p_source_type NOT IN ('current', 'future_state') THEN
+        RAISE EXCEPTION 'Invalid source type: must be "current" or "future_state"';
+    END IF;
+
+    IF p_source_type = 'future_state' THEN
+        IF p_future_state_id IS NULL THEN
+            RAISE EXCEPTION 'future_state_id is required when source_type is "future_state"';
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM future_states WHERE id = p_future_state_id AND process_id = p_source_process_id) THEN
+            RAISE EXCEPTION 'Future state not found or does not belong to source workflow';
+        END IF;
+    END IF;
+
+    INSERT INTO processes(
+        id,
+        org_id,
+        name,
+        description,
+        department,
+        created_by,
+        copied_from_process_id,
+        copied_from_future_state_id,
+        copy_source_type,
+        copied_by,
+        copied_at
+    )
+    VALUES (
+        gen_random_uuid(),
+        v_source.org_id,
+        p_new_name,
+        v_source.description,
+        v_source.department,
+        v_user_id,
+        p_source_process_id,
+        CASE WHEN p_source_type = 'future_state' THEN p_future_state_id ELSE NULL END,
+        p_source_type,
+        v_user_id,
+        NOW()
+    )
+    RETURNING id INTO v_new_process_id;
+
+    IF p_source_type = 'current' THEN
+        FOR v_lane IN
+            SELECT * FROM process_lanes
+            WHERE process_id = p_source_process_id
+            ORDER BY order_index
+        LOOP
+            INSERT INTO process_lanes(process_id, name, order_index, bg_color, border_color, capacity)
+            VALUES (v_new_process_id, v_lane.name, v_lane.order_index, v_lane.bg_color, v_lane.border_color, v_lane.capacity);
+        END LOOP;
+
+        FOR v_step IN
+            SELECT * FROM process_steps
+            WHERE process_id = p_source_process_id
+            ORDER BY order_index
+        LOOP
+            v_new_step_id := gen_random_uuid();
+            v_step_id_map := v_step_id_map || jsonb_build_object(v_step.id::text, v_new_step_id::text);
+
+            INSERT INTO process_steps(
+                id,
+                process_id,
+                step_name,
+                description,
+                lane,
+                step_type,
+                order_index,
+                lead_time_minutes,
+                cycle_time_minutes,
+                position_x,
+                position_y,
+                subprocess_process_id
+            )
+            VALUES (
+                v_new_step_id,
+                v_new_process_id,
+                v_step.step_name,
+                v_step.description,
+                v_step.lane,
+                v_step.step_type,
+                v_step.order_index,
+                v_step.lead_time_minutes,
+                v_step.cycle_time_minutes,
+                v_step.position_x,
+                v_step.position_y,
+                v_step.subprocess_process_id
+            );
+        END LOOP;
+
+        FOR v_edge IN
+            SELECT * FROM step_connections
+            WHERE process_id = p_source_process_id
+        LOOP
+            INSERT INTO step_connections(
+                process_id,
+                source_step_id,
+                target_step_id,
+                label,
+                branch_probability
+            )
+            VALUES (
+                v_new_process_id,
+                (v_step_id_map->>v_edge.source_step_id::text)::uuid,
+                (v_step_id_map->>v_edge.target_step_id::text)::uuid,
+                v_edge.label,
+                v_edge.branch_probability
+            );
+        END LOOP;
+
+    ELSE
+        FOR v_lane IN
+            SELECT fl.*, src.capacity AS source_capacity
+            FROM future_state_lanes fl
+            LEFT JOIN process_lanes src
+                ON src.process_id = p_source_process_id AND src.name = fl.name
+            WHERE fl.future_state_id = p_future_state_id
+            ORDER BY fl.order_index
+        LOOP
+            INSERT INTO process_lanes(process_id, name, order_index, bg_color, border_color, capacity)
+            VALUES (
+                v_new_process_id,
+                v_lane.name,
+                v_lane.order_index,
+                COALESCE(v_lane_color_map->v_lane.color->>'bg', '#f1f5f9'),
+                COALESCE(v_lane_color_map->v_lane.color->>'border', '#64748b'),
+                COALESCE(v_lane.source_capacity, 1)
+            );
+        END LOOP;
+
+        v_order_idx := 0;
+        FOR v_step IN
+            SELECT n.*, src.subprocess_process_id AS source_subprocess_process_id
+            FROM future_state_nodes n
+            LEFT JOIN process_steps src ON src.id = n.source_step_id
+            WHERE n.future_state_id = p_future_state_id
+            ORDER BY n.position_x, n.position_y, n.created_at
+        LOOP
+            v_new_step_id := gen_random_uuid();
+            v_step_id_map := v_step_id_map || jsonb_build_object(v_step.id::text, v_new_step_id::text);
+
+            INSERT INTO process_steps(
+                id,
+                process_id,
+                step_name,
+                description,
+                lane,
+                step_type,
+                order_index,
+                lead_time_minutes,
+                cycle_time_minutes,
+                position_x,
+                position_y,
+                subprocess_process_id
+            )
+            VALUES (
+                v_new_step_id,
+                v_new_process_id,
+                v_step.name,
+                v_step.description,
+                v_step.lane,
+                v_step.step_type,
+                v_order_idx,
+                v_step.lead_time_minutes,
+                v_step.cycle_time_minutes,
+                v_step.position_x,
+                v_step.position_y,
+                CASE WHEN v_step.step_type = 'subprocess' THEN v_step.source_subprocess_process_id END
+            );
+
+            v_order_idx := v_order_idx + 1;
+        END LOOP;
+
+        FOR v_edge IN
+            SELECT * FROM future_state_edges
+            WHERE future_state_id = p_future_state_id
+        LOOP
+            INSERT INTO step_connections(
+                process_id,
+                source_step_id,
+                target_step_id,
+                label,
+                branch_probability
+            )
+            VALUES (
+                v_new_process_id,
+                (v_step_id_map->>v_edge.source_node_id::text)::uuid,
+                (v_step_id_map->>v_edge.target_node_id::text)::uuid,
+                v_edge.label,
+                v_edge.branch_probability
+            );
+        END LOOP;
+    END IF;
+
+    -- Note: Sessions and observations are NOT copied (AC-3.2 Data Isolation)
+
+    RETURN v_new_process_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION copy_workflow TO authenticated;
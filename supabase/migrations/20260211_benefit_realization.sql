@@ -0,0 +1,200 @@
+-- ============================================
+-- BENEFIT REALIZATION - Database Migration
+-- ============================================
+-- Follow accepted solutions after they are sequenced into waves:
+-- - implementation_items.status tracks each item from not started to done
+--   (or abandoned); sequencing now creates an item for every solution
+-- - solution_kpis holds the KPIs a solution should move, optionally linked to
+--   a workflow metric, with a baseline, a target and a measuring cadence
+-- - solution_kpi_measurements holds the dated actuals
+-- - send_benefit_reminders notifies whoever added a KPI when a measurement
+--   is overdue
+-- Realized vs expected benefit is rolled up per wave and future state by the
+-- app.
+
+-- ============================================
+-- 1) IMPLEMENTATION STATUS
+-- ============================================
+
+ALTER TABLE implementation_items
+    ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'not_started'
+        CHECK (status IN ('not_started', 'in_progress', 'done', 'abandoned')),
+    ADD COLUMN IF NOT EXISTS status_updated_at TIMESTAMPTZ;
+
+-- Solutions sequenced before items were created for them
+INSERT INTO implementation_items (session_id, label, type, solution_id, created_by)
+SELECT sc.session_id, sc.title, 'solution', sc.id, sc.created_by
+FROM solution_cards sc
+WHERE EXISTS (SELECT 1 FROM wave_solutions ws WHERE ws.solution_id = sc.id)
+  AND NOT EXISTS (SELECT 1 FROM implementation_items i WHERE i.solution_id = sc.id);
+
+INSERT INTO wave_items (wave_id, item_id, order_index)
+SELECT ws.wave_id, i.id, ws.order_index
+FROM wave_solutions ws
+JOIN implementation_items i ON i.solution_id = ws.solution_id
+ON CONFLICT (wave_id, item_id) DO NOTHING;
+
+-- Work in waves already marked complete is done
+UPDATE implementation_items i
+SET status = 'done', status_updated_at = w.completed_at
+FROM wave_items wi
+JOIN implementation_waves w ON w.id = wi.wave_id
+WHERE wi.item_id = i.id
+  AND w.completed_at IS NOT NULL
+  AND i.status = 'not_started';
+
+-- ============================================
+-- 2) SOLUTION KPIS
+-- ============================================
+
+CREATE TABLE solution_kpis (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    solution_id UUID NOT NULL REFERENCES solution_cards(id) ON DELETE CASCADE,
+    metric_id UUID REFERENCES workflow_metrics(id) ON DELETE SET NULL,
+    name TEXT NOT NULL,
+    unit TEXT,
+    baseline_value NUMERIC NOT NULL,
+    target_value NUMERIC NOT NULL,
+    annual_value NUMERIC CHECK (annual_value >= 0),
+    measure_every_days INTEGER NOT NULL DEFAULT 30 CHECK (measure_every_days > 0),
+    reminded_at TIMESTAMPTZ,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CONSTRAINT solution_kpis_target_differs CHECK (target_value <> baseline_value)
+);
+
+CREATE INDEX idx_solution_kpis_solution ON solution_kpis(solution_id);
+
+COMMENT ON TABLE solution_kpis IS 'KPIs an accepted solution is expected to move, from baseline to target';
+COMMENT ON COLUMN solution_kpis.annual_value IS 'Expected annual benefit, in the organization currency, once the target is reached';
+COMMENT ON COLUMN solution_kpis.reminded_at IS 'Last overdue reminder; one reminder is sent per missed measurement';
+
+CREATE TRIGGER update_solution_kpis_updated_at
+    BEFORE UPDATE ON solution_kpis
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+CREATE TABLE solution_kpi_measurements (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    kpi_id UUID NOT NULL REFERENCES solution_kpis(id) ON DELETE CASCADE,
+    measured_on DATE NOT NULL,
+    value NUMERIC NOT NULL,
+    notes TEXT,
+    recorded_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_solution_kpi_measurements_kpi ON solution_kpi_measurements(kpi_id, measured_on);
+
+-- ============================================
+-- 3) RLS POLICIES
+-- ============================================
+
+ALTER TABLE solution_kpis ENABLE ROW LEVEL SECURITY;
+ALTER TABLE solution_kpi_measurements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "View solution KPIs" ON solution_kpis
+    FOR SELECT USING (
+        solution_id IN (SELECT id FROM solution_cards WHERE can_access_session(session_id))
+    );
+
+CREATE POLICY "Manage solution KPIs" ON solution_kpis
+    FOR ALL USING (
+        solution_id IN (SELECT id FROM solution_cards WHERE can_access_session(session_id))
+    );
+
+CREATE POLICY "View KPI measurements" ON solution_kpi_measurements
+    FOR SELECT USING (
+        kpi_id IN (
+            SELECT k.id FROM solution_kpis k
+            JOIN solution_cards sc ON sc.id = k.solution_id
+            WHERE can_access_session(sc.session_id)
+        )
+    );
+
+CREATE POLICY "Record KPI measurements" ON solution_kpi_measurements
+    FOR ALL USING (
+        kpi_id IN (
+            SELECT k.id FROM solution_kpis k
+            JOIN solution_cards sc ON sc.id = k.solution_id
+            WHERE can_access_session(sc.session_id)
+        )
+    );
+
+-- ============================================
+-- 4) OVERDUE REMINDERS
+-- ============================================
+-- A KPI is measured once its solution is in progress or done. The next
+-- measurement is due measure_every_days after the last one (or after the KPI
+-- was added). Whoever added the KPI gets one notification per missed
+-- measurement. The app calls it daily from /api/cron/benefit-reminders
+-- (scheduled in vercel.json); pg_cron runs it too where it is installed.
+-- Running it twice is harmless since reminded_at is checked first.
+
+CREATE OR REPLACE FUNCTION send_benefit_reminders()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_sent INTEGER;
+BEGIN
+    WITH due AS (
+        SELECT
+            k.id,
+            k.name,
+            k.created_by AS user_id,
+            k.reminded_at,
+            sc.title AS solution_title,
+            sc.session_id,
+            COALESCE(MAX(m.measured_on), k.created_at::DATE) + k.measure_every_days AS due_on
+        FROM solution_kpis k
+        JOIN solution_cards sc ON sc.id = k.solution_id
+        LEFT JOIN solution_kpi_measurements m ON m.kpi_id = k.id
+        WHERE EXISTS (
+            SELECT 1 FROM implementation_items i
+            WHERE i.solution_id = k.solution_id AND i.status IN ('in_progress', 'done')
+        )
+        GROUP BY k.id, sc.title, sc.session_id
+    ),
+    overdue AS (
+        SELECT *
+        FROM due
+        WHERE due_on < CURRENT_DATE
+          AND user_id IS NOT NULL
+          AND (reminded_at IS NULL OR reminded_at::DATE < due_on)
+    ),
+    sent AS (
+        INSERT INTO notifications (user_id, title, message, type, data, read)
+        SELECT
+            o.user_id,
+            'Benefit measurement overdue',
+            format('%s for "%s" was due on %s.', o.name, o.solution_title, to_char(o.due_on, 'FMMonth FMDD, YYYY')),
+            'benefit_reminder',
+            jsonb_build_object('session_id', o.session_id, 'kpi_id', o.id, 'due_on', o.due_on),
+            false
+        FROM overdue o
+        RETURNING (data->>'kpi_id')::UUID AS kpi_id
+    )
+    UPDATE solution_kpis
+    SET reminded_at = NOW()
+    WHERE id IN (SELECT kpi_id FROM sent);
+
+    GET DIAGNOSTICS v_sent = ROW_COUNT;
+    RETURN v_sent;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION send_benefit_reminders FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION send_benefit_reminders TO service_role;
+
+-- Optional: the cron route covers projects without pg_cron
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.schedule('benefit-reminders', '0 8 * * *', 'SELECT send_benefit_reminders()');
+    END IF;
+END;
+$$;